@@ -2,6 +2,11 @@
 const nextConfig = {
   productionBrowserSourceMaps: false,
 
+  // Native image moderation runtime; loaded from node_modules at request time
+  experimental: {
+    serverComponentsExternalPackages: ['onnxruntime-node'],
+  },
+
   // Configure external image domains
   images: {
     // Enable SVG support for avatar services like dicebear
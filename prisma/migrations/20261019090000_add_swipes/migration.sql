@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "SwipeDirection" AS ENUM ('LEFT', 'RIGHT');
+
+-- CreateEnum
+CREATE TYPE "SwipeSource" AS ENUM ('OFF_CHAIN', 'ON_CHAIN');
+
+-- AlterTable
+ALTER TABLE "Member" ADD COLUMN     "passResurfaceDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Swipe" (
+    "id" TEXT NOT NULL,
+    "sourceUserId" TEXT NOT NULL,
+    "targetUserId" TEXT NOT NULL,
+    "direction" "SwipeDirection" NOT NULL,
+    "source" "SwipeSource" NOT NULL DEFAULT 'OFF_CHAIN',
+    "swipedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Swipe_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Swipe_sourceUserId_targetUserId_key" ON "Swipe"("sourceUserId", "targetUserId");
+
+-- CreateIndex
+CREATE INDEX "Swipe_sourceUserId_direction_swipedAt_idx" ON "Swipe"("sourceUserId", "direction", "swipedAt");
+
+-- AddForeignKey
+ALTER TABLE "Swipe" ADD CONSTRAINT "Swipe_sourceUserId_fkey" FOREIGN KEY ("sourceUserId") REFERENCES "Member"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Swipe" ADD CONSTRAINT "Swipe_targetUserId_fkey" FOREIGN KEY ("targetUserId") REFERENCES "Member"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
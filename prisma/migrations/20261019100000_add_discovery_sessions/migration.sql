@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Swipe" ADD COLUMN     "digest" TEXT,
+ADD COLUMN     "randomSeed" TEXT,
+ADD COLUMN     "sessionObjectId" TEXT,
+ADD COLUMN     "swipeObjectId" TEXT;
+
+-- CreateTable
+CREATE TABLE "DiscoverySession" (
+    "id" TEXT NOT NULL,
+    "objectId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "digest" TEXT NOT NULL,
+    "sessionSeed" TEXT NOT NULL,
+    "queueSize" INTEGER NOT NULL,
+    "queueIndex" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DiscoverySession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Swipe_swipeObjectId_key" ON "Swipe"("swipeObjectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DiscoverySession_objectId_key" ON "DiscoverySession"("objectId");
+
+-- CreateIndex
+CREATE INDEX "DiscoverySession_userId_active_idx" ON "DiscoverySession"("userId", "active");
+
+-- AddForeignKey
+ALTER TABLE "DiscoverySession" ADD CONSTRAINT "DiscoverySession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,94 @@
+-- AlterTable
+ALTER TABLE "ChatRoom" ALTER COLUMN "chatAllowlistId" DROP NOT NULL,
+ADD COLUMN     "lastMessageAt" TIMESTAMP(3),
+ADD COLUMN     "matchId" TEXT,
+ADD COLUMN     "messageCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "IndexerCursor" (
+    "id" TEXT NOT NULL,
+    "txDigest" TEXT NOT NULL,
+    "eventSeq" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IndexerCursor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ChainEvent" (
+    "id" TEXT NOT NULL,
+    "txDigest" TEXT NOT NULL,
+    "eventSeq" TEXT NOT NULL,
+    "module" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "sender" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "timestamp" TIMESTAMP(3),
+    "indexedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChainEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Gift" (
+    "id" TEXT NOT NULL,
+    "giftObjectId" TEXT NOT NULL,
+    "senderAddress" TEXT NOT NULL,
+    "recipientAddress" TEXT NOT NULL,
+    "senderUserId" TEXT,
+    "recipientUserId" TEXT,
+    "giftType" INTEGER NOT NULL,
+    "amount" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Gift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Subscription" (
+    "id" TEXT NOT NULL,
+    "subscriptionObjectId" TEXT NOT NULL,
+    "subscriberAddress" TEXT NOT NULL,
+    "userId" TEXT,
+    "tier" INTEGER NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Subscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OnChainMedia" (
+    "id" TEXT NOT NULL,
+    "mediaObjectId" TEXT NOT NULL,
+    "ownerAddress" TEXT NOT NULL,
+    "userId" TEXT,
+    "contentType" INTEGER NOT NULL,
+    "uploadedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OnChainMedia_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChainEvent_txDigest_eventSeq_key" ON "ChainEvent"("txDigest", "eventSeq");
+
+-- CreateIndex
+CREATE INDEX "ChainEvent_eventType_timestamp_idx" ON "ChainEvent"("eventType", "timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Gift_giftObjectId_key" ON "Gift"("giftObjectId");
+
+-- CreateIndex
+CREATE INDEX "Gift_recipientUserId_idx" ON "Gift"("recipientUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Subscription_subscriptionObjectId_key" ON "Subscription"("subscriptionObjectId");
+
+-- CreateIndex
+CREATE INDEX "Subscription_userId_endsAt_idx" ON "Subscription"("userId", "endsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OnChainMedia_mediaObjectId_key" ON "OnChainMedia"("mediaObjectId");
+
+-- CreateIndex
+CREATE INDEX "OnChainMedia_userId_idx" ON "OnChainMedia"("userId");
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Member" ADD COLUMN     "interests" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "Member_gender_dateOfBirth_idx" ON "Member"("gender", "dateOfBirth");
+
+-- CreateIndex
+CREATE INDEX "Member_country_city_idx" ON "Member"("country", "city");
+
+-- CreateIndex
+CREATE INDEX "Member_latitude_longitude_idx" ON "Member"("latitude", "longitude");
+
+-- CreateIndex
+CREATE INDEX "Member_interests_idx" ON "Member" USING GIN ("interests");
+
+-- CreateIndex
+CREATE INDEX "Photo_memberId_isApproved_idx" ON "Photo"("memberId", "isApproved");
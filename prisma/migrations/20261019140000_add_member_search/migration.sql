@@ -0,0 +1,11 @@
+-- AlterTable
+-- Weighted so name matches rank above location, and location above description.
+-- The 'simple' config avoids English stemming, which mangles names and non-English text.
+ALTER TABLE "Member" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("city", '') || ' ' || coalesce("country", '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce("description", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Member_searchVector_idx" ON "Member" USING GIN ("searchVector");
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "RelationshipGoal" AS ENUM ('LONG_TERM', 'SHORT_TERM', 'FRIENDSHIP', 'FIGURING_OUT');
+
+-- AlterTable
+ALTER TABLE "Member" ADD COLUMN     "heightCm" INTEGER,
+ADD COLUMN     "languages" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "lifestyle" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "lookingFor" "RelationshipGoal";
+
+-- CreateTable
+CREATE TABLE "ProfilePrompt" (
+    "id" TEXT NOT NULL,
+    "memberId" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "ProfilePrompt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProfilePrompt_memberId_position_idx" ON "ProfilePrompt"("memberId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProfilePrompt_memberId_question_key" ON "ProfilePrompt"("memberId", "question");
+
+-- AddForeignKey
+ALTER TABLE "ProfilePrompt" ADD CONSTRAINT "ProfilePrompt_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "Member"("id") ON DELETE CASCADE ON UPDATE CASCADE;
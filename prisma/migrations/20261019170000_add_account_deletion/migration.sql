@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "AccountDeletionStatus" AS ENUM ('PENDING', 'CANCELLED', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "AccountDeletion" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "email" TEXT,
+    "status" "AccountDeletionStatus" NOT NULL DEFAULT 'PENDING',
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "cancelledAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "chainTxDigest" TEXT,
+    "receipt" JSONB,
+
+    CONSTRAINT "AccountDeletion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountDeletion_userId_key" ON "AccountDeletion"("userId");
+
+-- CreateIndex
+CREATE INDEX "AccountDeletion_status_scheduledFor_idx" ON "AccountDeletion"("status", "scheduledFor");
@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "ModerationStatus" AS ENUM ('PENDING', 'REVIEWED', 'RESOLVED', 'DISMISSED');
+
+-- CreateEnum
+CREATE TYPE "ReportContentType" AS ENUM ('AVATAR', 'PROFILE', 'MESSAGE');
+
+-- CreateEnum
+CREATE TYPE "ReportSeverity" AS ENUM ('LOW', 'MEDIUM', 'HIGH');
+
+-- CreateTable
+CREATE TABLE "Report" (
+    "id" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "caseId" TEXT NOT NULL,
+    "contentType" "ReportContentType" NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "reasonId" TEXT NOT NULL,
+    "severity" "ReportSeverity" NOT NULL,
+    "details" TEXT,
+    "status" "ModerationStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Report_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ModerationCase" (
+    "id" TEXT NOT NULL,
+    "targetUserId" TEXT NOT NULL,
+    "contentType" "ReportContentType" NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "status" "ModerationStatus" NOT NULL DEFAULT 'PENDING',
+    "severity" "ReportSeverity" NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "reportCount" INTEGER NOT NULL DEFAULT 0,
+    "contentHidden" BOOLEAN NOT NULL DEFAULT false,
+    "hiddenAt" TIMESTAMP(3),
+    "escalatedAt" TIMESTAMP(3),
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedBy" TEXT,
+    "moderatorNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ModerationCase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Report_reporterId_createdAt_idx" ON "Report"("reporterId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Report_reporterId_contentType_contentId_idx" ON "Report"("reporterId", "contentType", "contentId");
+
+-- CreateIndex
+CREATE INDEX "Report_caseId_idx" ON "Report"("caseId");
+
+-- CreateIndex
+CREATE INDEX "ModerationCase_status_priority_createdAt_idx" ON "ModerationCase"("status", "priority", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ModerationCase_contentType_contentId_status_idx" ON "ModerationCase"("contentType", "contentId", "status");
+
+-- CreateIndex
+CREATE INDEX "ModerationCase_targetUserId_contentType_contentHidden_idx" ON "ModerationCase"("targetUserId", "contentType", "contentHidden");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "ModerationCase"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ModerationCase" ADD CONSTRAINT "ModerationCase_targetUserId_fkey" FOREIGN KEY ("targetUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
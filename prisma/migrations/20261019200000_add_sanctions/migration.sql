@@ -0,0 +1,76 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'MODERATOR';
+
+-- CreateEnum
+CREATE TYPE "SanctionType" AS ENUM ('SUSPENSION', 'BAN', 'CANNOT_MESSAGE', 'CANNOT_LIKE', 'HIDDEN_FROM_DISCOVERY');
+
+-- CreateEnum
+CREATE TYPE "SanctionAction" AS ENUM ('ISSUED', 'REVOKED', 'APPEALED', 'APPEAL_GRANTED', 'APPEAL_DENIED');
+
+-- CreateEnum
+CREATE TYPE "AppealStatus" AS ENUM ('PENDING', 'GRANTED', 'DENIED');
+
+-- CreateTable
+CREATE TABLE "Sanction" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "SanctionType" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "caseId" TEXT,
+    "issuedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Sanction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SanctionEvent" (
+    "id" TEXT NOT NULL,
+    "sanctionId" TEXT NOT NULL,
+    "action" "SanctionAction" NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SanctionEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SanctionAppeal" (
+    "id" TEXT NOT NULL,
+    "sanctionId" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "status" "AppealStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "decidedAt" TIMESTAMP(3),
+    "decidedBy" TEXT,
+    "decisionNote" TEXT,
+
+    CONSTRAINT "SanctionAppeal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Sanction_userId_revokedAt_idx" ON "Sanction"("userId", "revokedAt");
+
+-- CreateIndex
+CREATE INDEX "Sanction_type_revokedAt_expiresAt_idx" ON "Sanction"("type", "revokedAt", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "SanctionEvent_sanctionId_createdAt_idx" ON "SanctionEvent"("sanctionId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SanctionAppeal_sanctionId_key" ON "SanctionAppeal"("sanctionId");
+
+-- CreateIndex
+CREATE INDEX "SanctionAppeal_status_createdAt_idx" ON "SanctionAppeal"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Sanction" ADD CONSTRAINT "Sanction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SanctionEvent" ADD CONSTRAINT "SanctionEvent_sanctionId_fkey" FOREIGN KEY ("sanctionId") REFERENCES "Sanction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SanctionAppeal" ADD CONSTRAINT "SanctionAppeal_sanctionId_fkey" FOREIGN KEY ("sanctionId") REFERENCES "Sanction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
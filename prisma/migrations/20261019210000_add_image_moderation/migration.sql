@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "ImageKind" AS ENUM ('AVATAR', 'PHOTO');
+
+-- AlterTable
+ALTER TABLE "Photo" ADD COLUMN "moderationFlags" JSONB;
+
+-- CreateTable
+CREATE TABLE "ImageFingerprint" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "kind" "ImageKind" NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "bands" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ImageFingerprint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImageFingerprint_kind_contentId_key" ON "ImageFingerprint"("kind", "contentId");
+
+-- CreateIndex
+CREATE INDEX "ImageFingerprint_bands_idx" ON "ImageFingerprint" USING GIN ("bands");
+
+-- AddForeignKey
+ALTER TABLE "ImageFingerprint" ADD CONSTRAINT "ImageFingerprint_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
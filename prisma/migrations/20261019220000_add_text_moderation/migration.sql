@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "ReportSource" AS ENUM ('MEMBER', 'AUTOMATED');
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "source" "ReportSource" NOT NULL DEFAULT 'MEMBER',
+ALTER COLUMN "reporterId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "blurred" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "ModerationItemKind" AS ENUM ('PHOTO', 'AVATAR', 'PROFILE', 'MESSAGE');
+
+-- CreateEnum
+CREATE TYPE "ModerationDecisionAction" AS ENUM ('APPROVE', 'REJECT', 'ASSIGN', 'UNASSIGN');
+
+-- AlterTable
+ALTER TABLE "Photo" ADD COLUMN "assignedTo" TEXT,
+ADD COLUMN "assignedAt" TIMESTAMP(3),
+ADD COLUMN "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "ModerationCase" ADD COLUMN "assignedTo" TEXT,
+ADD COLUMN "assignedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ModerationDecision" (
+    "id" TEXT NOT NULL,
+    "moderatorId" TEXT NOT NULL,
+    "itemKind" "ModerationItemKind" NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "targetUserId" TEXT NOT NULL,
+    "action" "ModerationDecisionAction" NOT NULL,
+    "assigneeId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ModerationDecision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Photo_isApproved_createdAt_idx" ON "Photo"("isApproved", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ModerationCase_assignedTo_status_idx" ON "ModerationCase"("assignedTo", "status");
+
+-- CreateIndex
+CREATE INDEX "ModerationDecision_targetUserId_createdAt_idx" ON "ModerationDecision"("targetUserId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ModerationDecision_moderatorId_createdAt_idx" ON "ModerationDecision"("moderatorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ModerationDecision_itemKind_itemId_idx" ON "ModerationDecision"("itemKind", "itemId");
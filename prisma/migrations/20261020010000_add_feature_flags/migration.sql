@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "FeatureFlagChange" AS ENUM ('CREATE', 'UPDATE', 'ROLLOUT', 'ROLLBACK');
+
+-- CreateTable
+CREATE TABLE "FeatureFlag" (
+    "key" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "rolloutPercentage" INTEGER NOT NULL DEFAULT 100,
+    "userSegments" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "conditions" JSONB NOT NULL DEFAULT '[]',
+    "description" TEXT NOT NULL DEFAULT '',
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdBy" TEXT NOT NULL DEFAULT 'system',
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FeatureFlag_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "FeatureFlagRollout" (
+    "flagKey" TEXT NOT NULL,
+    "strategy" TEXT NOT NULL,
+    "percentage" INTEGER NOT NULL,
+    "segments" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "conditions" JSONB NOT NULL DEFAULT '[]',
+    "enabledUsers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "disabledUsers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FeatureFlagRollout_pkey" PRIMARY KEY ("flagKey")
+);
+
+-- CreateTable
+CREATE TABLE "FeatureFlagVersion" (
+    "id" TEXT NOT NULL,
+    "flagKey" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "change" "FeatureFlagChange" NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "changedBy" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FeatureFlagVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeatureFlagVersion_flagKey_version_key" ON "FeatureFlagVersion"("flagKey", "version");
+
+-- AddForeignKey
+ALTER TABLE "FeatureFlagRollout" ADD CONSTRAINT "FeatureFlagRollout_flagKey_fkey" FOREIGN KEY ("flagKey") REFERENCES "FeatureFlag"("key") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeatureFlagVersion" ADD CONSTRAINT "FeatureFlagVersion_flagKey_fkey" FOREIGN KEY ("flagKey") REFERENCES "FeatureFlag"("key") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "ExperimentStatus" AS ENUM ('DRAFT', 'RUNNING', 'STOPPED');
+
+-- CreateEnum
+CREATE TYPE "ExperimentMetric" AS ENUM ('LIKE', 'MATCH', 'MESSAGE', 'AVATAR_UPLOAD');
+
+-- CreateTable
+CREATE TABLE "Experiment" (
+    "key" TEXT NOT NULL,
+    "flagKey" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "status" "ExperimentStatus" NOT NULL DEFAULT 'DRAFT',
+    "variants" JSONB NOT NULL,
+    "metrics" "ExperimentMetric"[],
+    "startedAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Experiment_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "ExperimentExposure" (
+    "experimentKey" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "variant" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExperimentExposure_pkey" PRIMARY KEY ("experimentKey","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "Experiment_flagKey_status_idx" ON "Experiment"("flagKey", "status");
+
+-- CreateIndex
+CREATE INDEX "ExperimentExposure_experimentKey_variant_idx" ON "ExperimentExposure"("experimentKey", "variant");
+
+-- AddForeignKey
+ALTER TABLE "Experiment" ADD CONSTRAINT "Experiment_flagKey_fkey" FOREIGN KEY ("flagKey") REFERENCES "FeatureFlag"("key") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExperimentExposure" ADD CONSTRAINT "ExperimentExposure_experimentKey_fkey" FOREIGN KEY ("experimentKey") REFERENCES "Experiment"("key") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "FlagGuardSignal" AS ENUM ('HEALTH_CHECK', 'UPLOAD_ERROR_RATE', 'ACCESS_ERROR_RATE');
+
+-- CreateEnum
+CREATE TYPE "FlagGuardAction" AS ENUM ('DISABLE', 'ROLLBACK');
+
+-- CreateTable
+CREATE TABLE "FeatureFlagGuard" (
+    "id" TEXT NOT NULL,
+    "flagKey" TEXT NOT NULL,
+    "signal" "FlagGuardSignal" NOT NULL,
+    "check" TEXT,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "windowMinutes" INTEGER NOT NULL DEFAULT 5,
+    "minEvents" INTEGER NOT NULL DEFAULT 20,
+    "action" "FlagGuardAction" NOT NULL DEFAULT 'DISABLE',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastTriggeredAt" TIMESTAMP(3),
+    "lastReason" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FeatureFlagGuard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HealthCheckSample" (
+    "id" TEXT NOT NULL,
+    "check" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HealthCheckSample_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FeatureFlagGuard_flagKey_idx" ON "FeatureFlagGuard"("flagKey");
+
+-- CreateIndex
+CREATE INDEX "HealthCheckSample_check_createdAt_idx" ON "HealthCheckSample"("check", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "FeatureFlagGuard" ADD CONSTRAINT "FeatureFlagGuard_flagKey_fkey" FOREIGN KEY ("flagKey") REFERENCES "FeatureFlag"("key") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "MatchState" AS ENUM ('PENDING', 'MATCHED', 'CHATTING', 'UNMATCHED', 'BLOCKED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "Match" (
+    "userAId" TEXT NOT NULL,
+    "userBId" TEXT NOT NULL,
+    "state" "MatchState" NOT NULL,
+    "onChainMatchId" TEXT,
+    "blockedById" TEXT,
+    "stateChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "pendingAt" TIMESTAMP(3),
+    "matchedAt" TIMESTAMP(3),
+    "chattingAt" TIMESTAMP(3),
+    "unmatchedAt" TIMESTAMP(3),
+    "blockedAt" TIMESTAMP(3),
+    "expiredAt" TIMESTAMP(3),
+    "chainStatus" INTEGER,
+    "reconciledAt" TIMESTAMP(3),
+    "flaggedAt" TIMESTAMP(3),
+    "flagReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Match_pkey" PRIMARY KEY ("userAId","userBId")
+);
+
+-- CreateIndex
+CREATE INDEX "Match_state_matchedAt_idx" ON "Match"("state", "matchedAt");
+
+-- CreateIndex
+CREATE INDEX "Match_onChainMatchId_idx" ON "Match"("onChainMatchId");
+
+-- CreateIndex
+CREATE INDEX "Match_flaggedAt_idx" ON "Match"("flaggedAt");
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_userAId_fkey" FOREIGN KEY ("userAId") REFERENCES "Member"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_userBId_fkey" FOREIGN KEY ("userBId") REFERENCES "Member"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill one row per pair of members with a like between them, from the
+-- status the likes carry. Who blocked was never recorded, so either member
+-- may unblock these.
+INSERT INTO "Match" ("userAId", "userBId", "state", "onChainMatchId", "stateChangedAt", "pendingAt", "matchedAt", "blockedAt", "createdAt")
+SELECT
+    pair."userAId",
+    pair."userBId",
+    pair."state"::"MatchState",
+    pair."onChainMatchId",
+    pair."since",
+    CASE WHEN pair."state" = 'PENDING' THEN pair."since" END,
+    CASE WHEN pair."state" = 'MATCHED' THEN pair."since" END,
+    CASE WHEN pair."state" = 'BLOCKED' THEN pair."since" END,
+    pair."since"
+FROM (
+    SELECT
+        LEAST("sourceUserId", "targetUserId") AS "userAId",
+        GREATEST("sourceUserId", "targetUserId") AS "userBId",
+        CASE
+            WHEN bool_or("matchStatus" = 3) THEN 'BLOCKED'
+            WHEN bool_or("matchStatus" = 1) THEN 'MATCHED'
+            ELSE 'PENDING'
+        END AS "state",
+        MAX("matchId") AS "onChainMatchId",
+        MAX("createdAt") AS "since"
+    FROM "Like"
+    GROUP BY 1, 2
+) AS pair;
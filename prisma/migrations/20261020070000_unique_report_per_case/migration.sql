@@ -0,0 +1,10 @@
+-- Keep the first of any duplicate reports from one member on one case
+DELETE FROM "Report" r
+USING "Report" earlier
+WHERE r."reporterId" IS NOT NULL
+  AND r."reporterId" = earlier."reporterId"
+  AND r."caseId" = earlier."caseId"
+  AND (r."createdAt", r."id") > (earlier."createdAt", earlier."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Report_reporterId_caseId_key" ON "Report"("reporterId", "caseId");
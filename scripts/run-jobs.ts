@@ -0,0 +1,64 @@
+/**
+ * Local job runner for development: runs due jobs every minute, like the
+ * /api/jobs/run cron does in production.
+ *
+ *   pnpm jobs:dev                  # keep running due jobs
+ *   pnpm jobs:dev --once           # run what's due now and exit
+ *   pnpm jobs:dev --run <job>      # run one job now and exit
+ */
+import { getJobRunnerService } from '@/services/jobRunnerService';
+import { prisma } from '@/lib/prisma';
+
+const INTERVAL_MS = 60 * 1000;
+const args = process.argv.slice(2);
+
+async function runDue() {
+  const runs = await getJobRunnerService().runDue();
+  for (const run of runs) {
+    console.log(`[jobs] ${run.jobName}: ${run.status} in ${run.durationMs} ms`, run.error ?? run.result);
+  }
+}
+
+async function main() {
+  const jobName = args.includes('--run') ? args[args.indexOf('--run') + 1] ?? '' : null;
+
+  if (jobName !== null) {
+    const run = await getJobRunnerService().trigger(jobName);
+    console.log(`[jobs] ${run.jobName}: ${run.status} in ${run.durationMs} ms`, run.error ?? run.result);
+    return;
+  }
+
+  if (args.includes('--once')) {
+    await runDue();
+    return;
+  }
+
+  console.log('[jobs] Running due jobs every minute, Ctrl+C to stop');
+  let timer: NodeJS.Timeout;
+  const tick = async () => {
+    try {
+      await runDue();
+    } catch (error) {
+      console.error('[jobs] Run failed:', error);
+    }
+    timer = setTimeout(tick, INTERVAL_MS);
+  };
+  process.on('SIGINT', () => {
+    clearTimeout(timer);
+    prisma.$disconnect().finally(() => process.exit(0));
+  });
+  await tick();
+}
+
+main()
+  .catch((error) => {
+    console.error('[jobs]', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    // One-off runs exit here; services like analytics keep flush timers alive otherwise
+    if (args.includes('--once') || args.includes('--run')) {
+      await prisma.$disconnect();
+      process.exit();
+    }
+  });
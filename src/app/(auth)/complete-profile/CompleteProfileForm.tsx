@@ -2,8 +2,8 @@
 
 import CardWrapper from "@/components/CardWrapper";
 import {
-  type ProfileSchema,
-  profileSchema,
+  type CompleteProfileSchema,
+  completeProfileSchema,
 } from "@/lib/schemas/RegisterSchema";
 import { zodResolver } from "@hookform/resolvers/zod";
 import {
@@ -12,6 +12,8 @@ import {
 } from "react-hook-form";
 import { RiProfileLine } from "react-icons/ri";
 import ProfileForm from "../register/ProfileDetailsForm";
+import ProfileDetailsFields from "@/components/ProfileDetailsFields";
+import { emptyProfileDetails } from "@/lib/profileDetails";
 import { Button } from "@nextui-org/react";
 import { useSession } from "next-auth/react";
 import { useState } from "react";
@@ -34,9 +36,10 @@ interface EncryptionResponse {
 
 export default function CompleteProfileForm() {
   const [isLoading, setIsLoading] = useState(false);
-  const methods = useForm<ProfileSchema>({
-    resolver: zodResolver(profileSchema),
+  const methods = useForm<CompleteProfileSchema>({
+    resolver: zodResolver(completeProfileSchema),
     mode: "onTouched",
+    defaultValues: emptyProfileDetails,
   });
 
   const {
@@ -63,7 +66,7 @@ export default function CompleteProfileForm() {
   });
   
   const onSubmit = async (
-    data: ProfileSchema
+    data: CompleteProfileSchema
   ) => {
     setIsLoading(true);
     try {
@@ -173,7 +176,7 @@ export default function CompleteProfileForm() {
           displayName: data.name,
           age,
           encryptedPayload: encrypted.ciphertext,
-          interests: deriveInterests(data),
+          interests: data.interests,
           registry,
         });
 
@@ -242,6 +245,7 @@ export default function CompleteProfileForm() {
           <form onSubmit={handleSubmit(onSubmit)}>
             <div className="flex flex-col gap-6">
               <ProfileForm />
+              <ProfileDetailsFields />
               {errors.root?.serverError && (
                 <p className="text-danger text-sm">
                   {
@@ -270,7 +274,7 @@ export default function CompleteProfileForm() {
   );
 }
 
-function buildProfilePayload(data: ProfileSchema) {
+function buildProfilePayload(data: CompleteProfileSchema) {
   return {
     name: data.name,
     gender: data.gender,
@@ -282,24 +286,6 @@ function buildProfilePayload(data: ProfileSchema) {
   };
 }
 
-function deriveInterests(data: ProfileSchema): string[] {
-  const base = [data.gender, data.city, data.country];
-  const descriptionTokens = data.description
-    .split(/[,\n]/)
-    .map((token) => token.trim())
-    .filter((token) => token.length > 0);
-
-  const unique = Array.from(
-    new Set([...base, ...descriptionTokens].map((interest) => interest.toLowerCase())),
-  ).filter((interest) => interest.length > 0);
-
-  while (unique.length < 3) {
-    unique.push(`interest-${unique.length + 1}`);
-  }
-
-  return unique;
-}
-
 async function safeParseError(response: Response): Promise<string | null> {
   try {
     const body = (await response.json()) as { error?: string };
@@ -6,6 +6,8 @@ import {
   registerSchema,
   type RegisterSchema,
 } from "@/lib/schemas/RegisterSchema";
+import { profileDetailsSchema } from "@/lib/schemas/ProfileDetailsSchema";
+import { emptyProfileDetails } from "@/lib/profileDetails";
 import { handleFormServerErrors } from "@/lib/util";
 import { Card, CardHeader, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -17,12 +19,14 @@ import {
 import { GiPadlock } from "react-icons/gi";
 import UserDetailsForm from "./UserDetailsForm";
 import ProfileDetailsForm from "./ProfileDetailsForm";
+import ProfileDetailsFields from "@/components/ProfileDetailsFields";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useRouter } from "next/navigation";
 
 const stepSchemas = [
   registerSchema,
   profileSchema,
+  profileDetailsSchema,
 ];
 
 export default function RegisterForm() {
@@ -37,6 +41,7 @@ export default function RegisterForm() {
         currentValidationSchema
       ),
       mode: "onTouched",
+      defaultValues: emptyProfileDetails,
     });
 
   const {
@@ -71,6 +76,8 @@ export default function RegisterForm() {
         return <UserDetailsForm />;
       case 1:
         return <ProfileDetailsForm />;
+      case 2:
+        return <ProfileDetailsFields />;
       default:
         return "Unknown step";
     }
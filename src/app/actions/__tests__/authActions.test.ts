@@ -0,0 +1,77 @@
+/** @jest-environment node */
+import { mockDb } from '@/test/prismaMock';
+import { emptyProfileDetails } from '@/lib/profileDetails';
+import type { RegisterSchema } from '@/lib/schemas/RegisterSchema';
+import { registerUser } from '../authActions';
+
+const mockSendVerificationEmail = jest.fn();
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('react', () => ({ ...jest.requireActual('react'), cache: <T>(fn: T) => fn }));
+jest.mock('@/auth', () => ({ auth: async () => null, signIn: jest.fn(), signOut: jest.fn() }));
+jest.mock('next-auth', () => ({ AuthError: class AuthError extends Error {} }));
+jest.mock('@/lib/mail', () => ({
+    sendVerificationEmail: (...args: unknown[]) => mockSendVerificationEmail(...args),
+    sendPasswordResetEmail: jest.fn(),
+}));
+
+// The fake client doesn't apply nested writes, so keep what was asked for
+const mockCreatedUsers: { member: { create: unknown } }[] = [];
+mockDb.override('user', {
+    create: (args, base) => {
+        mockCreatedUsers.push(args.data);
+        return base(args);
+    },
+});
+
+const registration: RegisterSchema = {
+    name: 'Alice',
+    email: 'alice@test.com',
+    password: 'secret-password',
+    gender: 'female',
+    description: 'Love hiking and live music',
+    city: 'London',
+    country: 'UK',
+    dateOfBirth: '1995-01-01',
+    ...emptyProfileDetails,
+    interests: ['hiking', 'music', 'coffee'],
+    prompts: [{ question: 'A perfect first date', answer: 'Sunday brunch' }],
+    languages: ['English'],
+};
+
+describe('registerUser', () => {
+    beforeEach(() => {
+        mockDb.reset();
+        mockCreatedUsers.length = 0;
+        mockSendVerificationEmail.mockReset().mockResolvedValue({ success: true });
+    });
+
+    it('should create the member with their profile details and prompts', async () => {
+        await expect(registerUser(registration)).resolves.toMatchObject({ status: 'success' });
+
+        expect(mockCreatedUsers[0].member.create).toMatchObject({
+            name: 'Alice',
+            interests: ['hiking', 'music', 'coffee'],
+            languages: ['English'],
+            prompts: { create: [{ question: 'A perfect first date', answer: 'Sunday brunch', position: 0 }] },
+        });
+        expect(mockSendVerificationEmail).toHaveBeenCalledWith('alice@test.com', expect.any(String));
+    });
+
+    it('should require the profile details', async () => {
+        const result = await registerUser({ ...registration, interests: ['hiking'] });
+
+        expect(result).toMatchObject({ status: 'error', error: [expect.objectContaining({ path: ['interests'] })] });
+        expect(mockDb.table('user')).toEqual([]);
+    });
+
+    it('should screen prompt answers as well as the description', async () => {
+        const result = await registerUser({
+            ...registration,
+            prompts: [{ question: 'A perfect first date', answer: 'find me on snapchat, my snap is lina.k' }],
+        });
+
+        expect(result).toMatchObject({ status: 'error', error: [expect.objectContaining({ path: ['prompts', 0, 'answer'] })] });
+        expect(mockDb.table('user')).toEqual([]);
+    });
+});
@@ -0,0 +1,71 @@
+import { mockDb } from '@/test/prismaMock';
+import { MatchLifecycleError } from '@/services/matchLifecycleService';
+import { fetchLikedMembers, toggleLikeMember } from '../likeActions';
+
+const mockLikeAdded = jest.fn();
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('../authActions', () => ({ getAuthUserId: async () => 'bob' }));
+jest.mock('@/auth', () => ({ auth: async () => null }));
+jest.mock('@/services/outboxService', () => ({
+    getOutboxService: () => ({
+        transaction: (change: (tx: unknown, emit: () => Promise<void>) => Promise<unknown>) =>
+            change(require('@/test/prismaMock').prisma, async () => {}),
+    }),
+}));
+jest.mock('@/services/matchLifecycleService', () => ({
+    getMatchLifecycleService: () => ({ likeAdded: mockLikeAdded }),
+    MatchLifecycleError: class MatchLifecycleError extends Error {},
+}));
+
+const member = (userId: string) => ({ userId, name: userId });
+
+mockDb.configure('like', {
+    relations: {
+        sourceMember: like => member(like.sourceUserId),
+        targetMember: like => member(like.targetUserId),
+    },
+});
+
+describe('fetchLikedMembers', () => {
+    beforeEach(() => {
+        mockDb.reset({
+            like: [
+                { sourceUserId: 'bob', targetUserId: 'alice' },
+                { sourceUserId: 'alice', targetUserId: 'bob' },
+                { sourceUserId: 'bob', targetUserId: 'carol' },
+                { sourceUserId: 'carol', targetUserId: 'bob' },
+                { sourceUserId: 'dave', targetUserId: 'bob' },
+            ],
+            accountDeletion: [{ userId: 'alice', status: 'PENDING' }, { userId: 'dave', status: 'CANCELLED' }],
+        });
+    });
+
+    it('should leave members scheduled for deletion out of every list', async () => {
+        const names = async (type: string) => (await fetchLikedMembers(type)).map(m => m.userId);
+
+        await expect(names('source')).resolves.toEqual(['carol']);
+        await expect(names('target')).resolves.toEqual(['carol', 'dave']);
+        await expect(names('mutual')).resolves.toEqual(['carol']);
+    });
+});
+
+describe('toggleLikeMember', () => {
+    beforeEach(() => {
+        mockDb.reset({ member: [{ userId: 'bob', name: 'Bob', image: null }] });
+        mockLikeAdded.mockReset().mockResolvedValue({ state: 'PENDING' });
+    });
+
+    it('should like a member', async () => {
+        await expect(toggleLikeMember('alice', false)).resolves.toEqual({ status: 'success', data: true });
+        expect(mockDb.table('like')).toEqual([expect.objectContaining({ sourceUserId: 'bob', targetUserId: 'alice' })]);
+    });
+
+    it('should report a like the match lifecycle refuses', async () => {
+        mockLikeAdded.mockRejectedValue(new MatchLifecycleError('Blocked members cannot like each other'));
+
+        await expect(toggleLikeMember('alice', false)).resolves.toEqual({
+            status: 'error', error: 'Blocked members cannot like each other',
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import { mockDb } from '@/test/prismaMock';
+import { createMessage, getMessagesByContainer, getMessageThread } from '../messageActions';
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('../authActions', () => ({ getAuthUserId: async () => 'bob' }));
+jest.mock('@/auth', () => ({ auth: async () => null }));
+jest.mock('@/services/outboxService', () => ({
+    getOutboxService: () => ({
+        transaction: (change: (tx: unknown, emit: () => Promise<void>) => Promise<unknown>) =>
+            change(require('@/test/prismaMock').prisma, async () => {}),
+    }),
+}));
+
+const person = (userId: string) => ({ userId, name: userId, image: null });
+
+mockDb.configure('message', {
+    relations: {
+        sender: message => person(message.senderId),
+        recipient: message => person(message.recipientId),
+    },
+});
+
+function message(id: string, senderId: string, recipientId: string, minute: number) {
+    return {
+        id, senderId, recipientId, text: id, blurred: false, dateRead: null,
+        senderDeleted: false, recipientDeleted: false, created: new Date(Date.UTC(2026, 9, 20, 12, minute)),
+    };
+}
+
+describe('getMessageThread', () => {
+    beforeEach(() => {
+        mockDb.reset({
+            message: [
+                message('m1', 'alice', 'bob', 1),
+                message('m2', 'alice', 'bob', 2),
+                message('m3', 'bob', 'alice', 3),
+            ],
+        });
+    });
+
+    it('should leave out messages hidden after reports, except for their sender', async () => {
+        mockDb.table('moderationCase').push(
+            { contentType: 'MESSAGE', contentId: 'm2', targetUserId: 'alice', contentHidden: true },
+            { contentType: 'MESSAGE', contentId: 'm3', targetUserId: 'bob', contentHidden: true },
+            { contentType: 'MESSAGE', contentId: 'm1', targetUserId: 'alice', contentHidden: false },
+        );
+
+        const { messages } = await getMessageThread('alice');
+
+        expect(messages.map(m => m.id)).toEqual(['m1', 'm3']);
+    });
+});
+
+describe('members scheduled for deletion', () => {
+    beforeEach(() => {
+        mockDb.reset({
+            message: [
+                message('m1', 'alice', 'bob', 1),
+                message('m2', 'carol', 'bob', 2),
+            ],
+            accountDeletion: [{ userId: 'alice', status: 'PENDING' }],
+        });
+    });
+
+    it('should hide their conversations and messages', async () => {
+        await expect(getMessageThread('alice')).resolves.toEqual({ messages: [], readCount: 0 });
+
+        const { messages } = await getMessagesByContainer('inbox', undefined, 10);
+        expect(messages.map(m => m.id)).toEqual(['m2']);
+    });
+
+    it('should not let anyone message them', async () => {
+        await expect(createMessage('alice', { text: 'Hello?' })).resolves.toEqual({
+            status: 'error', error: 'This member is no longer available',
+        });
+        expect(mockDb.table('message')).toHaveLength(2);
+    });
+});
@@ -0,0 +1,87 @@
+import { mockDb } from '@/test/prismaMock';
+import { deleteSavedSearch, getSavedSearches, saveSearch, setSavedSearchAlerts } from '../savedSearchActions';
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('../authActions', () => ({ getAuthUserId: async () => 'alice' }));
+
+mockDb.configure('savedSearch', {
+    defaults: sequence => ({
+        id: `search-${sequence}`, alertsEnabled: true, lastCheckedAt: new Date(0), createdAt: new Date(sequence * 1000),
+    }),
+});
+
+const searches = () => mockDb.table('savedSearch');
+
+describe('saveSearch', () => {
+    beforeEach(() => {
+        mockDb.reset();
+    });
+
+    it('should save the filters without the paging params', async () => {
+        const result = await saveSearch({
+            name: ' Hikers ', params: { gender: 'female', interests: 'hiking', pageNumber: '3', pageSize: '12' },
+        });
+
+        expect(result).toEqual({
+            status: 'success',
+            data: expect.objectContaining({ userId: 'alice', name: 'Hikers', params: { gender: 'female', interests: 'hiking' } }),
+        });
+    });
+
+    it('should replace the filters of a search saved under the same name and alert from now on', async () => {
+        await saveSearch({ name: 'Hikers', params: { gender: 'female' } });
+        await saveSearch({ name: 'Hikers', params: { gender: 'male' } });
+
+        expect(searches()).toHaveLength(1);
+        expect(searches()[0].params).toEqual({ gender: 'male' });
+        expect(searches()[0].lastCheckedAt.getTime()).toBeGreaterThan(0);
+    });
+
+    it('should refuse a blank name and a search over the limit', async () => {
+        await expect(saveSearch({ name: '  ', params: {} })).resolves.toMatchObject({
+            status: 'error', error: [expect.objectContaining({ message: 'Name is required' })],
+        });
+
+        for (let i = 0; i < 20; i++) searches().push({ id: `s${i}`, userId: 'alice', name: `Search ${i}` });
+        searches().push({ id: 'other', userId: 'bob', name: 'Hikers' });
+
+        await expect(saveSearch({ name: 'Hikers', params: {} })).resolves.toEqual({
+            status: 'error', error: 'You can save up to 20 searches',
+        });
+        await expect(saveSearch({ name: 'Search 0', params: { country: 'UK' } })).resolves.toMatchObject({ status: 'success' });
+    });
+});
+
+describe('saved search management', () => {
+    beforeEach(() => {
+        mockDb.reset({
+            savedSearch: [
+                { id: 'older', userId: 'alice', name: 'Older', params: {}, alertsEnabled: true, lastCheckedAt: new Date(0), createdAt: new Date(1000) },
+                { id: 'newer', userId: 'alice', name: 'Newer', params: {}, alertsEnabled: true, lastCheckedAt: new Date(0), createdAt: new Date(2000) },
+                { id: 'bobs', userId: 'bob', name: 'Bob\'s', params: {}, alertsEnabled: true, lastCheckedAt: new Date(0), createdAt: new Date(3000) },
+            ],
+        });
+    });
+
+    it('should list only the member\'s own searches, newest first', async () => {
+        expect((await getSavedSearches()).map(s => s.id)).toEqual(['newer', 'older']);
+    });
+
+    it('should only delete the member\'s own searches', async () => {
+        await expect(deleteSavedSearch('bobs')).resolves.toEqual({ status: 'error', error: 'Saved search not found' });
+        await expect(deleteSavedSearch('older')).resolves.toEqual({ status: 'success', data: 'older' });
+
+        expect(searches().map(s => s.id)).toEqual(['newer', 'bobs']);
+    });
+
+    it('should move the baseline on when alerts are turned back on', async () => {
+        await expect(setSavedSearchAlerts('older', false)).resolves.toEqual({ status: 'success', data: false });
+        expect(searches()[0]).toMatchObject({ alertsEnabled: false, lastCheckedAt: new Date(0) });
+
+        await setSavedSearchAlerts('older', true);
+        expect(searches()[0].alertsEnabled).toBe(true);
+        expect(searches()[0].lastCheckedAt.getTime()).toBeGreaterThan(0);
+
+        await expect(setSavedSearchAlerts('bobs', false)).resolves.toEqual({ status: 'error', error: 'Saved search not found' });
+    });
+});
@@ -0,0 +1,283 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { mockDb } from '@/test/prismaMock';
+import { MatchLifecycleError } from '@/services/matchLifecycleService';
+import {
+    confirmDiscoverySession,
+    confirmSwipeOnChain,
+    recordSwipe,
+    refreshDiscoveryQueue,
+    updatePassResurfaceDays,
+} from '../swipeActions';
+
+const mockLikeAdded = jest.fn();
+const mockSwipeEvent = jest.fn();
+const mockSessionEvent = jest.fn();
+const mockSessionInfo = jest.fn();
+const mockMoveCalls: { target: string; arguments: unknown[] }[] = [];
+const mockBuild = jest.fn();
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('../authActions', () => ({ getAuthUserId: async () => 'alice' }));
+jest.mock('@/services/outboxService', () => ({
+    getOutboxService: () => ({
+        // Rolls the fake tables back when the change throws, like a real transaction
+        transaction: async (change: (tx: unknown, emit: () => Promise<void>) => Promise<unknown>) => {
+            const { mockDb: db, prisma } = require('@/test/prismaMock');
+            const saved = Object.fromEntries(
+                Object.entries(db.tables as Record<string, object[]>).map(([model, rows]) => [model, rows.map(row => ({ ...row }))])
+            );
+            try {
+                return await change(prisma, async () => {});
+            } catch (error) {
+                db.reset(saved);
+                throw error;
+            }
+        },
+    }),
+}));
+jest.mock('@/services/matchLifecycleService', () => ({
+    getMatchLifecycleService: () => ({ likeAdded: mockLikeAdded }),
+    MatchLifecycleError: class MatchLifecycleError extends Error {},
+}));
+jest.mock('@/lib/blockchain/discoveryQueries', () => ({
+    getSwipeRecordedEvent: (_client: unknown, digest: string) => mockSwipeEvent(digest),
+    getDiscoverySessionCreatedEvent: (_client: unknown, digest: string) => mockSessionEvent(digest),
+    getDiscoverySessionInfo: (_client: unknown, sessionId: string) => mockSessionInfo(sessionId),
+}));
+jest.mock('@mysten/sui/transactions', () => ({
+    Transaction: class {
+        pure = {
+            address: (value: string) => ({ address: value }),
+            u8: (value: number) => ({ u8: value }),
+            vector: (_type: string, values: unknown[]) => ({ vector: values }),
+        };
+        object = (id: string) => ({ object: id });
+        moveCall = (call: { target: string; arguments: unknown[] }) => mockMoveCalls.push(call);
+        build = () => mockBuild();
+    },
+}));
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+describe('recordSwipe', () => {
+    beforeEach(() => {
+        mockDb.reset({ member: [{ userId: 'alice', name: 'Alice', image: null }] });
+        mockLikeAdded.mockReset().mockResolvedValue({ state: 'PENDING' });
+    });
+
+    it('should record a right swipe as a like', async () => {
+        await expect(recordSwipe('bob', 'right')).resolves.toEqual({
+            status: 'success', message: 'Like recorded', isMatch: false,
+        });
+        expect(mockDb.table('like')).toEqual([expect.objectContaining({ sourceUserId: 'alice', targetUserId: 'bob' })]);
+    });
+
+    it('should reject a suspended member\'s right swipe without writing anything', async () => {
+        mockDb.table('sanction').push({
+            id: 's1', userId: 'alice', type: 'SUSPENSION', revokedAt: null, expiresAt: hoursFromNow(24),
+        });
+
+        await expect(recordSwipe('bob', 'right')).resolves.toEqual({ status: 'error', message: 'Your account is suspended' });
+        expect(mockDb.table('swipe')).toEqual([]);
+        expect(mockDb.table('like')).toEqual([]);
+        expect(mockLikeAdded).not.toHaveBeenCalled();
+    });
+
+    it('should reject a right swipe from a member who may not like', async () => {
+        mockDb.table('sanction').push({ id: 's1', userId: 'alice', type: 'CANNOT_LIKE', revokedAt: null, expiresAt: null });
+
+        await expect(recordSwipe('bob', 'right')).resolves.toEqual({ status: 'error', message: 'You can\'t like members right now' });
+        await expect(recordSwipe('bob', 'left')).resolves.toEqual({ status: 'success', message: 'Passed' });
+    });
+
+    it('should report a like the match lifecycle refuses, and keep neither the swipe nor the like', async () => {
+        mockLikeAdded.mockRejectedValue(new MatchLifecycleError('Blocked members cannot like each other'));
+
+        await expect(recordSwipe('bob', 'right')).resolves.toEqual({
+            status: 'error', message: 'Blocked members cannot like each other',
+        });
+        expect(mockDb.table('swipe')).toEqual([]);
+        expect(mockDb.table('like')).toEqual([]);
+    });
+
+    it('should refuse a swipe on the member themselves', async () => {
+        await expect(recordSwipe('alice', 'right')).resolves.toEqual({ status: 'error', message: 'You can\'t swipe on yourself' });
+        await expect(recordSwipe('alice', 'left')).resolves.toEqual({ status: 'error', message: 'You can\'t swipe on yourself' });
+
+        expect(mockDb.table('swipe')).toEqual([]);
+        expect(mockDb.table('like')).toEqual([]);
+        expect(mockLikeAdded).not.toHaveBeenCalled();
+    });
+});
+
+describe('updatePassResurfaceDays', () => {
+    beforeEach(() => {
+        mockDb.reset({ member: [{ userId: 'alice', passResurfaceDays: null }] });
+    });
+
+    it('should save the window and clear it again', async () => {
+        await expect(updatePassResurfaceDays(30)).resolves.toEqual({ status: 'success', data: 30 });
+        expect(mockDb.table('member')[0].passResurfaceDays).toBe(30);
+
+        await expect(updatePassResurfaceDays(null)).resolves.toEqual({ status: 'success', data: null });
+        expect(mockDb.table('member')[0].passResurfaceDays).toBeNull();
+    });
+
+    it.each([0, 366, 1.5])('should refuse %p days', async days => {
+        await expect(updatePassResurfaceDays(days)).resolves.toEqual({
+            status: 'error', error: 'Days must be a whole number between 1 and 365',
+        });
+        expect(mockDb.table('member')[0].passResurfaceDays).toBeNull();
+    });
+});
+
+const address = (short: string) => normalizeSuiAddress(short);
+const swipeEvent = {
+    swiper: '0xa1', target: '0xb0', direction: 1, timestamp: '1760000000000', swipeId: '0xswipe', randomSeed: 'seed-1',
+    sessionId: '0xsession',
+};
+const sessionEvent = { user: '0xa1', sessionId: '0xsession2', sessionSeed: 'seed-2', queueSize: 3 };
+
+describe('on-chain discovery', () => {
+    beforeEach(() => {
+        mockDb.reset({
+            user: [
+                { id: 'alice', walletAddress: address('0xa1') },
+                { id: 'bob', walletAddress: address('0xb0') },
+            ],
+            discoverySession: [{ id: 'session-1', objectId: '0xsession', userId: 'alice', active: true, queueIndex: 0 }],
+        });
+        mockSwipeEvent.mockReset().mockResolvedValue(swipeEvent);
+        mockSessionEvent.mockReset().mockResolvedValue(sessionEvent);
+        mockSessionInfo.mockReset().mockResolvedValue({ currentQueue: ['0x1', '0x2', '0x3'], queueIndex: 1 });
+        mockMoveCalls.length = 0;
+        mockBuild.mockReset().mockResolvedValue(new Uint8Array([1, 2, 3]));
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    describe('confirmSwipeOnChain', () => {
+        it('should store the swipe from the event and advance the session queue', async () => {
+            await expect(confirmSwipeOnChain('digest-1', '0xsession')).resolves.toEqual({
+                status: 'success', swipeObjectId: '0xswipe', randomSeed: 'seed-1',
+            });
+
+            expect(mockDb.table('swipe')).toEqual([expect.objectContaining({
+                sourceUserId: 'alice',
+                targetUserId: 'bob',
+                direction: 'RIGHT',
+                source: 'ON_CHAIN',
+                swipedAt: new Date(1760000000000),
+                swipeObjectId: '0xswipe',
+                sessionObjectId: '0xsession',
+                digest: 'digest-1',
+            })]);
+            expect(mockDb.table('discoverySession')[0].queueIndex).toBe(1);
+        });
+
+        it('should refuse an event recorded by another wallet', async () => {
+            mockSwipeEvent.mockResolvedValue({ ...swipeEvent, swiper: '0xc3' });
+
+            await expect(confirmSwipeOnChain('digest-1', '0xsession')).resolves.toEqual({
+                status: 'error', error: 'Swipe event not found in transaction',
+            });
+            expect(mockDb.table('swipe')).toEqual([]);
+        });
+
+        it('should advance the session queue once when the same swipe is confirmed again', async () => {
+            await confirmSwipeOnChain('digest-1', '0xsession');
+            await expect(confirmSwipeOnChain('digest-1', '0xsession')).resolves.toMatchObject({ status: 'success' });
+
+            expect(mockDb.table('swipe')).toHaveLength(1);
+            expect(mockDb.table('discoverySession')[0].queueIndex).toBe(1);
+        });
+
+        it('should refuse a swipe recorded in another session', async () => {
+            mockDb.table('discoverySession').push({
+                id: 'session-2', objectId: '0xsession2', userId: 'alice', active: true, queueIndex: 0,
+            });
+
+            await expect(confirmSwipeOnChain('digest-1', '0xsession2')).resolves.toEqual({
+                status: 'error', error: 'Swipe was recorded in another discovery session',
+            });
+            mockSwipeEvent.mockResolvedValue({ ...swipeEvent, sessionId: null });
+            await expect(confirmSwipeOnChain('digest-1', '0xsession')).resolves.toMatchObject({ status: 'error' });
+
+            expect(mockDb.table('swipe')).toEqual([]);
+            expect(mockDb.table('discoverySession').map(session => session.queueIndex)).toEqual([0, 0]);
+        });
+
+        it('should refuse a swipe on an unknown member or outside an active session', async () => {
+            mockSwipeEvent.mockResolvedValue({ ...swipeEvent, target: '0xdead' });
+            await expect(confirmSwipeOnChain('digest-1', '0xsession')).resolves.toEqual({
+                status: 'error', error: 'Target user not found',
+            });
+
+            await expect(confirmSwipeOnChain('digest-1', '0xother')).resolves.toEqual({
+                status: 'error', error: 'Discovery session not found',
+            });
+            expect(mockDb.table('discoverySession')[0].queueIndex).toBe(0);
+        });
+    });
+
+    describe('confirmDiscoverySession', () => {
+        it('should store the new session, retire the old one and return the rest of the queue', async () => {
+            await expect(confirmDiscoverySession('digest-2')).resolves.toEqual({
+                status: 'success', sessionId: '0xsession2', queue: ['0x2', '0x3'],
+            });
+
+            const [previous, created] = mockDb.table('discoverySession');
+            expect(previous).toMatchObject({ objectId: '0xsession', active: false });
+            expect(created).toMatchObject({
+                objectId: '0xsession2', userId: 'alice', digest: 'digest-2', sessionSeed: 'seed-2', queueSize: 3,
+            });
+        });
+
+        it('should refuse a session created by another wallet or without a wallet', async () => {
+            mockSessionEvent.mockResolvedValue({ ...sessionEvent, user: '0xc3' });
+            await expect(confirmDiscoverySession('digest-2')).resolves.toEqual({
+                status: 'error', error: 'Discovery session not found in transaction',
+            });
+
+            mockDb.table('user')[0].walletAddress = null;
+            await expect(confirmDiscoverySession('digest-2')).resolves.toEqual({
+                status: 'error', error: 'User wallet not connected',
+            });
+            expect(mockDb.table('discoverySession').map(s => s.active)).toEqual([true]);
+        });
+    });
+
+    describe('refreshDiscoveryQueue', () => {
+        it('should build a refresh transaction with each address once', async () => {
+            await expect(refreshDiscoveryQueue('0xsession', ['0xb0', '0xB0', '0xc3'])).resolves.toEqual({
+                status: 'success', transactionKindBytes: 'AQID',
+            });
+
+            expect(mockMoveCalls).toEqual([{
+                target: expect.stringMatching(/::discovery::refresh_discovery_queue$/),
+                arguments: [
+                    { object: '0xsession' },
+                    { vector: [address('0xb0'), address('0xc3')] },
+                    { object: '0x8' },
+                    { object: '0x6' },
+                ],
+            }]);
+        });
+
+        it('should refuse a session that is not the member\'s active one', async () => {
+            mockDb.table('discoverySession')[0].active = false;
+
+            await expect(refreshDiscoveryQueue('0xsession', ['0xb0'])).resolves.toEqual({
+                status: 'error', error: 'Discovery session not found',
+            });
+            expect(mockMoveCalls).toEqual([]);
+        });
+
+        it('should report a transaction that fails to build', async () => {
+            mockBuild.mockRejectedValue(new Error('Object 0xsession not found'));
+
+            await expect(refreshDiscoveryQueue('0xsession', ['0xb0'])).resolves.toEqual({
+                status: 'error', error: 'Object 0xsession not found',
+            });
+        });
+    });
+});
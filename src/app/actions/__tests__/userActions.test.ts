@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import type { ModerationResult } from '@/services/contentModerationService';
+import { mockDb } from '@/test/prismaMock';
+import type { Photo } from '@prisma/client';
+import { addImage, deleteImage, updateMemberLocation } from '../userActions';
+
+const mockModeratePhoto = jest.fn<Promise<ModerationResult>, [Uint8Array, string]>();
+const mockDestroy = jest.fn();
+const mockRecord = jest.fn();
+const mockForget = jest.fn();
+const mockPublishEvent = jest.fn();
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('../authActions', () => ({ getAuthUserId: async () => 'alice' }));
+jest.mock('@/lib/cloudinary', () => ({
+    cloudinary: { v2: { url: (publicId: string) => `https://res.test/${publicId}`, uploader: { destroy: (publicId: string) => mockDestroy(publicId) } } },
+}));
+jest.mock('@/lib/imageModeration', () => ({
+    duplicateClassifier: {
+        record: (...args: unknown[]) => mockRecord(...args),
+        forget: (...args: unknown[]) => mockForget(...args),
+    },
+}));
+jest.mock('@/lib/events', () => ({ publishEvent: async (...args: unknown[]) => mockPublishEvent(...args) }));
+jest.mock('@/services/contentModerationService', () => ({
+    ContentModerationService: class {
+        moderatePhoto = (data: Uint8Array, userId: string) => mockModeratePhoto(data, userId);
+    },
+}));
+
+mockDb.configure('photo', { defaults: sequence => ({ id: `photo-${sequence}` }) });
+
+describe('addImage', () => {
+    beforeEach(() => {
+        mockDb.reset({ member: [{ id: 'member-alice', userId: 'alice' }] });
+        mockModeratePhoto.mockReset();
+        mockDestroy.mockReset();
+        mockRecord.mockReset();
+        jest.spyOn(global, 'fetch').mockResolvedValue(new Response(Buffer.from('photo')));
+    });
+
+    it('should remove a rejected upload and return an error instead of throwing', async () => {
+        mockModeratePhoto.mockResolvedValue({
+            approved: false,
+            confidence: 0.95,
+            flags: [{ type: 'nudity', confidence: 0.95, description: 'Image appears to contain nudity' }],
+            requiresManualReview: false,
+            reason: 'Content flagged as inappropriate',
+        });
+
+        await expect(addImage('https://res.test/p1.jpg', 'p1')).resolves.toEqual({
+            status: 'error',
+            error: 'This photo breaks our content rules',
+        });
+        expect(mockDestroy).toHaveBeenCalledWith('p1');
+        expect(mockDb.table('photo')).toEqual([]);
+        expect(mockRecord).not.toHaveBeenCalled();
+    });
+
+    it('should keep the reason a photo waits for review', async () => {
+        mockModeratePhoto.mockResolvedValue({
+            approved: false,
+            confidence: 0,
+            flags: [],
+            requiresManualReview: true,
+            reason: 'Classifiers unavailable: nsfw',
+        });
+
+        const result = await addImage('https://res.test/p2.jpg', 'p2');
+
+        expect(result).toEqual({ status: 'success', data: expect.objectContaining({ publicId: 'p2', isApproved: false }) });
+        expect(mockDb.table('photo')[0].moderationFlags).toEqual({ reason: 'Classifiers unavailable: nsfw', flags: [] });
+        // Stored in the same transaction as the photo
+        expect(mockRecord).toHaveBeenCalledWith('alice', 'PHOTO', mockDb.table('photo')[0].id, expect.any(Buffer), expect.anything());
+    });
+});
+
+describe('updateMemberLocation', () => {
+    beforeEach(() => {
+        mockDb.reset({ member: [{ id: 'member-alice', userId: 'alice', latitude: null, longitude: null }] });
+        mockPublishEvent.mockReset();
+    });
+
+    it('should store the location rounded to about a kilometre', async () => {
+        await expect(updateMemberLocation(51.507351, -0.127758)).resolves.toEqual({
+            status: 'success', data: { latitude: 51.51, longitude: -0.13 },
+        });
+        expect(mockDb.table('member')[0]).toMatchObject({ latitude: 51.51, longitude: -0.13 });
+        expect(mockPublishEvent).toHaveBeenCalledWith('member.updated', { userId: 'alice' });
+    });
+
+    it.each([[91, 0], [0, -180.5], [NaN, 0], [0, Infinity]])('should refuse %p, %p', async (latitude, longitude) => {
+        await expect(updateMemberLocation(latitude, longitude)).resolves.toEqual({
+            status: 'error', error: 'Invalid coordinates',
+        });
+        expect(mockDb.table('member')[0].latitude).toBeNull();
+        expect(mockPublishEvent).not.toHaveBeenCalled();
+    });
+});
+
+describe('deleteImage', () => {
+    beforeEach(() => {
+        mockDb.reset({
+            member: [{ id: 'member-alice', userId: 'alice' }],
+            photo: [
+                { id: 'own', publicId: 'p1', member: { userId: 'alice' } },
+                { id: 'bobs', publicId: 'p2', member: { userId: 'bob' } },
+            ],
+        });
+        mockDestroy.mockReset();
+        mockForget.mockReset();
+        mockPublishEvent.mockReset();
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('should remove the photo, its fingerprint and then its file', async () => {
+        await deleteImage({ id: 'own' } as Photo);
+
+        expect(mockDb.table('photo').map(p => p.id)).toEqual(['bobs']);
+        expect(mockForget).toHaveBeenCalledWith('PHOTO', 'own', expect.anything());
+        expect(mockDestroy).toHaveBeenCalledWith('p1');
+        expect(mockPublishEvent).toHaveBeenCalledWith('photo.deleted', { userId: 'alice', photoId: 'own' });
+    });
+
+    it('should leave another member\'s photo and fingerprint alone', async () => {
+        await expect(deleteImage({ id: 'bobs', publicId: 'p2' } as Photo)).rejects.toThrow('Photo not found');
+
+        expect(mockDb.table('photo')).toHaveLength(2);
+        expect(mockForget).not.toHaveBeenCalled();
+        expect(mockDestroy).not.toHaveBeenCalled();
+    });
+});
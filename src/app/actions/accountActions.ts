@@ -0,0 +1,86 @@
+'use server';
+
+import {
+    AccountDeletionError,
+    getAccountDeletionService,
+    type AccountTeardownPlan,
+    type ErasureReceipt
+} from '@/services/accountDeletionService';
+import { DataExportError, getDataExportService } from '@/services/dataExportService';
+import type { ActionResult } from '@/types';
+import type { AccountDeletion, DataExport } from '@prisma/client';
+import { getAuthUserId } from './authActions';
+
+export type DataExportDto = Omit<DataExport, 'publicId'> & { downloadUrl: string | null };
+
+async function runAccountAction<T>(fn: (userId: string) => Promise<T>): Promise<ActionResult<T>> {
+    try {
+        const userId = await getAuthUserId();
+        return { status: 'success', data: await fn(userId) }
+    } catch (error) {
+        if (error instanceof AccountDeletionError || error instanceof DataExportError) {
+            return { status: 'error', error: error.message }
+        }
+        console.error(error);
+        return { status: 'error', error: 'Something went wrong' }
+    }
+}
+
+/**
+ * The current user's pending deletion, if they asked for one
+ */
+export async function getAccountDeletion(): Promise<AccountDeletion | null> {
+    const userId = await getAuthUserId();
+    return getAccountDeletionService().getPending(userId);
+}
+
+/**
+ * Hides the account and schedules its erasure once the grace period ends
+ */
+export async function requestAccountDeletion(): Promise<ActionResult<AccountDeletion>> {
+    return runAccountAction(userId => getAccountDeletionService().request(userId));
+}
+
+export async function cancelAccountDeletion(): Promise<ActionResult<string>> {
+    return runAccountAction(async userId => {
+        await getAccountDeletionService().cancel(userId);
+        return 'Account deletion cancelled';
+    });
+}
+
+/**
+ * On-chain objects the client has to tear down before deleting immediately.
+ * Null when the user has no on-chain profile.
+ */
+export async function getAccountTeardownPlan(): Promise<ActionResult<AccountTeardownPlan | null>> {
+    return runAccountAction(userId => getAccountDeletionService().getTeardownPlan(userId));
+}
+
+/**
+ * Skips the rest of the grace period and erases the account. Pass the digest
+ * of the signed teardown transaction when the user has an on-chain profile.
+ */
+export async function deleteAccountNow(teardownTxDigest: string | null): Promise<ActionResult<ErasureReceipt>> {
+    return runAccountAction(userId => getAccountDeletionService().erase(userId, teardownTxDigest));
+}
+
+function toDataExportDto({ publicId, ...dataExport }: DataExport): DataExportDto {
+    return { ...dataExport, downloadUrl: getDataExportService().getDownloadUrl({ publicId, ...dataExport }) };
+}
+
+/**
+ * The user's recent data exports, with a signed link for the ready ones
+ */
+export async function getDataExports(): Promise<DataExportDto[]> {
+    const userId = await getAuthUserId();
+    const exports = await getDataExportService().list(userId);
+    return exports.map(toDataExportDto);
+}
+
+/**
+ * Queues a "download my data" archive. It is built in the background and
+ * the link is emailed when ready.
+ */
+export async function requestDataExport(): Promise<ActionResult<DataExportDto>> {
+    return runAccountAction(async userId => toDataExportDto(await getDataExportService().request(userId)));
+}
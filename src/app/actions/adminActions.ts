@@ -2,15 +2,31 @@
 
 import { prisma } from '@/lib/prisma';
 import { getUserRole } from './authActions';
-import type { Photo } from '@prisma/client';
-import { cloudinary } from '@/lib/cloudinary';
+import type { ModerationCase, Photo } from '@prisma/client';
+import { ContentModerationService, type ModerationCaseWithReports } from '@/services/contentModerationService';
+import { canModerate } from '@/lib/roles';
+import { decideModerationItems } from './moderationConsoleActions';
+import type {
+    ModerationItemOutcome,
+    ModerationItemRef,
+    ModerationVerdict
+} from '@/services/moderationConsoleService';
+
+async function decideAsModerator(item: ModerationItemRef, verdict: ModerationVerdict, note?: string) {
+    const result = await decideModerationItems([item], verdict, note);
+    if (result.status === 'error') throw new Error(result.error as string);
+
+    const [outcome] = result.data;
+    if (!outcome.ok) throw new Error(outcome.error);
+    return outcome;
+}
 
 
 export async function getUnapprovedPhotos() {
     try {
         const role = await getUserRole();
 
-        if (role !== 'ADMIN') throw new Error('Forbidden');
+        if (!canModerate(role)) throw new Error('Forbidden');
 
         return prisma.photo.findMany({
             where: {
@@ -24,65 +40,47 @@ export async function getUnapprovedPhotos() {
     }
 }
 
-export async function approvePhoto(photoId: string) {
+export async function approvePhoto(photoId: string): Promise<ModerationItemOutcome> {
+    return decideAsModerator({ kind: 'PHOTO', id: photoId }, 'approve');
+}
+
+export async function rejectPhoto(photo: Photo): Promise<ModerationItemOutcome> {
+    return decideAsModerator({ kind: 'PHOTO', id: photo.id }, 'reject');
+}
+
+/**
+ * Open report cases, highest priority first
+ */
+export async function getModerationQueue(): Promise<ModerationCaseWithReports[]> {
     try {
         const role = await getUserRole();
 
-        if (role !== 'ADMIN') throw new Error('Forbidden');
-
-        const photo = await prisma.photo.findUnique({
-            where: { id: photoId },
-            include: { member: { include: { user: true } } }
-        });
-
-        if (!photo || !photo.member || !photo.member.user) throw new Error('Cannot approve this image');
-
-        const { member } = photo;
-
-        const userUpdate = member.user && member.user.image === null ? { image: photo.url } : {};
-        const memberUpdate = member.image === null ? { image: photo.url } : {};
-
-        if (Object.keys(userUpdate).length > 0) {
-            await prisma.user.update({
-                where: { id: member.userId },
-                data: userUpdate
-            })
-        }
-
-        return prisma.member.update({
-            where: { id: member.id },
-            data: {
-                ...memberUpdate,
-                photos: {
-                    update: {
-                        where: { id: photo.id },
-                        data: { isApproved: true }
-                    }
-                }
-            }
-        })
+        if (!canModerate(role)) throw new Error('Forbidden');
+
+        return new ContentModerationService().getModerationQueue();
+
     } catch (error) {
         console.log(error);
         throw error;
     }
 }
 
-export async function rejectPhoto(photo: Photo) {
+/**
+ * Closes a report case. Approving keeps the content up; rejecting upholds
+ * the reports and keeps it hidden.
+ */
+export async function reviewModerationCase(caseId: string, decision: 'approve' | 'reject', notes?: string): Promise<ModerationCase> {
     try {
         const role = await getUserRole();
 
-        if (role !== 'ADMIN') throw new Error('Forbidden');
+        if (!canModerate(role)) throw new Error('Forbidden');
 
-        if (photo.publicId) {
-            await cloudinary.v2.uploader.destroy(photo.publicId);
-        }
-
-        return prisma.photo.delete({
-            where: { id: photo.id }
-        })
+        const { contentType } = await prisma.moderationCase.findUniqueOrThrow({ where: { id: caseId } });
+        await decideAsModerator({ kind: contentType, id: caseId }, decision, notes);
+        return prisma.moderationCase.findUniqueOrThrow({ where: { id: caseId } });
 
     } catch (error) {
         console.log(error);
         throw error;
     }
-}
\ No newline at end of file
+}
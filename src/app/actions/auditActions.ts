@@ -0,0 +1,32 @@
+'use server';
+
+import { getAuditLogService, parseAuditFilter, type AuditLogPage } from '@/services/auditLogService';
+import type { ActionResult } from '@/types';
+import { getUserRole } from './authActions';
+
+async function runAdminAction<T>(fn: () => Promise<T>): Promise<ActionResult<T>> {
+    try {
+        const role = await getUserRole();
+        if (role !== 'ADMIN') return { status: 'error', error: 'Forbidden' }
+
+        return { status: 'success', data: await fn() }
+    } catch (error) {
+        console.log(error);
+        return { status: 'error', error: 'Something went wrong' }
+    }
+}
+
+/**
+ * A page of audit entries, newest first. `params` are the browser's filter
+ * query string values.
+ */
+export async function getAuditLogs(
+    params: Record<string, string | undefined>,
+    cursor?: string
+): Promise<ActionResult<AuditLogPage>> {
+    return runAdminAction(() => getAuditLogService().list(parseAuditFilter(params), cursor));
+}
+
+export async function getAuditFacets(): Promise<ActionResult<{ actions: string[]; targetTypes: string[] }>> {
+    return runAdminAction(() => getAuditLogService().getFacets());
+}
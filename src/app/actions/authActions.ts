@@ -7,10 +7,13 @@ import { prisma } from '@/lib/prisma'
 import type { LoginSchema } from '@/lib/schemas/LoginSchema'
 import {
   combinedRegisterSchema,
-  type ProfileSchema,
+  completeProfileSchema,
+  type CompleteProfileSchema,
   type RegisterSchema,
 } from '@/lib/schemas/RegisterSchema'
+import { promptRows, toMemberDetailsData } from '@/lib/profileDetails'
 import { generateToken, getTokenByToken } from '@/lib/tokens'
+import { getTextModerationService } from '@/services/textModerationService'
 import type { ActionResult } from '@/types'
 import { TokenType, type User } from '@prisma/client'
 import bcrypt from 'bcryptjs'
@@ -63,8 +66,15 @@ export async function registerUser(
       city,
       country,
       dateOfBirth,
+      prompts,
+      ...details
     } = validated.data
 
+    const moderation = getTextModerationService().moderateProfile(description, prompts)
+    if (moderation.action === 'block') {
+      return { status: 'error', error: [{ code: 'custom', path: moderation.path, message: moderation.notice! }] }
+    }
+
     const hashedPassword = await bcrypt.hash(password, 10)
 
     const existingUser = await prisma.user.findUnique({
@@ -87,11 +97,15 @@ export async function registerUser(
             country,
             dateOfBirth: new Date(dateOfBirth),
             gender,
+            ...toMemberDetailsData({ ...details, prompts }),
+            prompts: { create: promptRows(prompts) },
           },
         },
       },
     })
 
+    await getTextModerationService().queueForReview(user.id, 'profile', user.id, moderation)
+
     const verificationToken = await generateToken(email, TokenType.VERIFICATION)
 
     const emailResult = await sendVerificationEmail(
@@ -134,12 +148,26 @@ export const getAuthUserId = cache(async () => {
 })
 
 export async function completeSocialLoginProfile(
-  data: ProfileSchema
+  data: CompleteProfileSchema
 ): Promise<ActionResult<string>> {
   const session = await auth()
 
   if (!session?.user) return { status: 'error', error: 'User not found' }
 
+  const validated = completeProfileSchema.safeParse(data)
+
+  if (!validated.success) {
+    return { status: 'error', error: validated.error.errors }
+  }
+
+  const { name, gender, dateOfBirth, description, city, country, prompts, ...details } = validated.data
+  const detailsData = toMemberDetailsData({ ...details, prompts })
+
+  const moderation = getTextModerationService().moderateProfile(description, prompts)
+  if (moderation.action === 'block') {
+    return { status: 'error', error: [{ code: 'custom', path: moderation.path, message: moderation.notice! }] }
+  }
+
   try {
     const existingUser = await prisma.user.findUnique({
       where: { id: session.user.id },
@@ -164,13 +192,15 @@ export async function completeSocialLoginProfile(
           profileComplete: true,
           member: {
             update: {
-              name: data.name,
+              name,
               image: session.user.image,
-              gender: data.gender,
-              dateOfBirth: new Date(data.dateOfBirth),
-              description: data.description,
-              city: data.city,
-              country: data.country,
+              gender,
+              dateOfBirth: new Date(dateOfBirth),
+              description,
+              city,
+              country,
+              ...detailsData,
+              prompts: { deleteMany: {}, create: promptRows(prompts) },
               updated: new Date(),
             },
           },
@@ -184,19 +214,23 @@ export async function completeSocialLoginProfile(
           profileComplete: true,
           member: {
             create: {
-              name: data.name,
+              name,
               image: session.user.image,
-              gender: data.gender,
-              dateOfBirth: new Date(data.dateOfBirth),
-              description: data.description,
-              city: data.city,
-              country: data.country,
+              gender,
+              dateOfBirth: new Date(dateOfBirth),
+              description,
+              city,
+              country,
+              ...detailsData,
+              prompts: { create: promptRows(prompts) },
             },
           },
         },
       })
     }
 
+    await getTextModerationService().queueForReview(existingUser.id, 'profile', existingUser.id, moderation)
+
     return {
       status: 'success',
       data: existingUser.accounts[0]?.provider || 'unknown',
@@ -3,6 +3,7 @@
 import { AvatarService } from '@/services/avatarService';
 import { getAuthUserId } from './authActions';
 import { prisma } from '@/lib/prisma';
+import { publishEvent } from '@/lib/events';
 import type { AvatarUploadResult, AvatarSettings } from '@/lib/types/avatar';
 import { avatarUploadSchema, avatarUpdateSettingsSchema } from '@/lib/schemas/AvatarSchema';
 
@@ -56,6 +57,7 @@ export async function uploadAvatar(
       userId,
       settings
     );
+    await publishEvent('avatar.updated', { userId });
 
     return {
       status: 'success',
@@ -123,6 +125,7 @@ export async function updateAvatarSettings(
       // TODO: Update Seal policy settings when SDK supports it
       console.log('Avatar policy settings update needed for:', user.avatarSealPolicyId);
     }
+    await publishEvent('avatar.updated', { userId });
 
     return {
       status: 'success'
@@ -146,6 +149,7 @@ export async function deleteAvatar(): Promise<AvatarSettingsResult> {
 
     const avatarService = new AvatarService();
     await avatarService.deleteAvatar(userId);
+    await publishEvent('avatar.updated', { userId });
 
     return {
       status: 'success'
@@ -1,88 +1,76 @@
 'use server';
 
 import { prisma } from '@/lib/prisma';
+import { getPendingDeletionUserIds } from '@/lib/discovery/exclusions';
 import { getAuthUserId } from './authActions';
-import { pusherServer } from '@/lib/pusher';
-import { MatchEventHandler } from '@/services/matchEventHandler';
-
-export async function toggleLikeMember(targetUserId: string, isLiked: boolean) {
+import { ACTIVE_MATCH_STATES } from '@/lib/matches/lifecycle';
+import { getMatchLifecycleService, MatchLifecycleError } from '@/services/matchLifecycleService';
+import { getOutboxService } from '@/services/outboxService';
+import { getSanctionService, SanctionError } from '@/services/sanctionService';
+import type { ActionResult } from '@/types';
+
+/**
+ * Likes or unlikes a member. A like that completes a mutual pair makes a
+ * match; taking back a like from a match ends it. Notifications and avatar
+ * access follow through the outbox. Returns whether the member is now liked.
+ */
+export async function toggleLikeMember(targetUserId: string, isLiked: boolean): Promise<ActionResult<boolean>> {
     try {
         const userId = await getAuthUserId();
-        const matchEventHandler = new MatchEventHandler();
+        const pair = [
+            { sourceUserId: userId, targetUserId },
+            { sourceUserId: targetUserId, targetUserId: userId }
+        ];
 
         if (isLiked) {
             // Removing a like
-            await prisma.like.delete({
-                where: {
-                    sourceUserId_targetUserId: {
-                        sourceUserId: userId,
-                        targetUserId
+            await getOutboxService().transaction(async (tx, emit) => {
+                await tx.like.delete({
+                    where: {
+                        sourceUserId_targetUserId: {
+                            sourceUserId: userId,
+                            targetUserId
+                        }
                     }
+                });
+                await emit('like.removed', { sourceUserId: userId, targetUserId });
+
+                const previous = await getMatchLifecycleService().unmatch(tx, emit, userId, targetUserId);
+                if (previous && ACTIVE_MATCH_STATES.includes(previous)) {
+                    // Breaking a match removes the other member's like too
+                    await tx.like.deleteMany({ where: { OR: pair } });
                 }
             });
-
-            // Handle potential match deletion
-            await matchEventHandler.handleLikeRemoved(userId, targetUserId);
         } else {
-            // Adding a like
-            const like = await prisma.like.create({
-                data: {
-                    sourceUserId: userId,
-                    targetUserId
-                },
-                select: {
-                    sourceMember: {
-                        select: {
-                            name: true,
-                            image: true,
-                            userId: true
+            // Adding a like; taking one back is always allowed
+            await getSanctionService().assertAllowed(userId, 'like');
+
+            await getOutboxService().transaction(async (tx, emit) => {
+                const like = await tx.like.create({
+                    data: {
+                        sourceUserId: userId,
+                        targetUserId
+                    },
+                    select: {
+                        sourceMember: {
+                            select: {
+                                name: true,
+                                image: true,
+                                userId: true
+                            }
                         }
                     }
-                }
-            });
-
-            // Send notification
-            await pusherServer.trigger(`private-${targetUserId}`, 'like:new', {
-                name: like.sourceMember.name,
-                image: like.sourceMember.image,
-                userId: like.sourceMember.userId
-            });
-
-            // Check for mutual match and handle avatar access
-            const isMutualMatch = await matchEventHandler.detectAndHandleMutualMatch(userId, targetUserId);
-
-            if (isMutualMatch) {
-                // Send match notification
-                await pusherServer.trigger(`private-${targetUserId}`, 'match:new', {
-                    name: like.sourceMember.name,
-                    image: like.sourceMember.image,
-                    userId: like.sourceMember.userId,
-                    message: 'You have a new match!'
                 });
+                await emit('like.created', { sourceUserId: userId, targetUserId, source: like.sourceMember });
 
-                await pusherServer.trigger(`private-${userId}`, 'match:new', {
-                    userId: targetUserId,
-                    message: 'You have a new match!'
-                });
-
-                // ✅ Trigger avatar refresh for both users
-                // This tells clients to refetch avatars to show private (original) images
-                console.log('🔄 Triggering avatar refresh for matched users:', { userId, targetUserId });
-
-                await Promise.allSettled([
-                    pusherServer.trigger(`private-${targetUserId}`, 'avatar:refresh', {
-                        userId: userId, // The user whose avatar should be refreshed
-                        reason: 'match'
-                    }),
-                    pusherServer.trigger(`private-${userId}`, 'avatar:refresh', {
-                        userId: targetUserId, // The user whose avatar should be refreshed
-                        reason: 'match'
-                    })
-                ]);
-            }
+                // Makes a match if the other member already liked back
+                await getMatchLifecycleService().likeAdded(tx, emit, userId, targetUserId);
+            });
         }
 
+        return { status: 'success', data: !isLiked }
     } catch (error) {
+        if (error instanceof SanctionError || error instanceof MatchLifecycleError) return { status: 'error', error: error.message }
         console.log(error);
         throw error;
     }
@@ -108,6 +96,10 @@ export async function fetchCurrentUserLikeIds() {
     }
 }
 
+/**
+ * Members the current user liked, who liked them, or both. Members whose
+ * account is scheduled for deletion are left out of every list.
+ */
 export async function fetchLikedMembers(type = 'source') {
     try {
         const userId = await getAuthUserId();
@@ -129,24 +121,27 @@ export async function fetchLikedMembers(type = 'source') {
 }
 
 async function fetchSourceLikes(userId: string) {
+    const leaving = await getPendingDeletionUserIds();
     const sourceList = await prisma.like.findMany({
-        where: { sourceUserId: userId },
+        where: { sourceUserId: userId, targetUserId: { notIn: leaving } },
         select: { targetMember: true }
     })
     return sourceList.map(x => x.targetMember);
 }
 
 async function fetchTargetLikes(userId: string) {
+    const leaving = await getPendingDeletionUserIds();
     const targetList = await prisma.like.findMany({
-        where: { targetUserId: userId },
+        where: { targetUserId: userId, sourceUserId: { notIn: leaving } },
         select: { sourceMember: true }
     })
     return targetList.map(x => x.sourceMember);
 }
 
 async function fetchMutualLikes(userId: string) {
+    const leaving = await getPendingDeletionUserIds();
     const likedUsers = await prisma.like.findMany({
-        where: { sourceUserId: userId },
+        where: { sourceUserId: userId, targetUserId: { notIn: leaving } },
         select: { targetUserId: true }
     });
     const likedIds = likedUsers.map(x => x.targetUserId);
@@ -161,4 +156,4 @@ async function fetchMutualLikes(userId: string) {
         select: { sourceMember: true }
     });
     return mutualList.map(x => x.sourceMember);
-}
\ No newline at end of file
+}
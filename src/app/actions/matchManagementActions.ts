@@ -1,9 +1,13 @@
 'use server';
 
 import { prisma } from '@/lib/prisma';
-import { getAuthUserId } from './authActions';
+import { getAuthUserId, getUserRole } from './authActions';
 import { MatchEventHandler } from '@/services/matchEventHandler';
-import { pusherServer } from '@/lib/pusher';
+import { getOutboxService } from '@/services/outboxService';
+import { getMatchLifecycleService } from '@/services/matchLifecycleService';
+import { recordAudit } from '@/lib/audit';
+import { ACTIVE_MATCH_STATES, LIKE_MATCH_STATUS, matchKey } from '@/lib/matches/lifecycle';
+import type { MatchState } from '@prisma/client';
 
 export interface MatchActionResult {
   status: 'success' | 'error';
@@ -17,27 +21,11 @@ export interface MatchActionResult {
 export async function blockUser(targetUserId: string): Promise<MatchActionResult> {
   try {
     const userId = await getAuthUserId();
-    const matchEventHandler = new MatchEventHandler();
-
-    // Update match status to blocked
-    await prisma.like.updateMany({
-      where: {
-        OR: [
-          { sourceUserId: userId, targetUserId: targetUserId },
-          { sourceUserId: targetUserId, targetUserId: userId }
-        ]
-      },
-      data: { matchStatus: 3 } // 3 = blocked
-    });
 
-    // Handle avatar access revocation
-    await matchEventHandler.handleMatchBlocked(userId, targetUserId);
-
-    // Send notification to blocked user (optional)
-    await pusherServer.trigger(`private-${targetUserId}`, 'match:blocked', {
-      userId: userId,
-      message: 'A user has blocked you'
-    });
+    // Avatar access is revoked through the outbox
+    await getOutboxService().transaction((tx, emit) =>
+      getMatchLifecycleService().block(tx, emit, userId, targetUserId)
+    );
 
     return {
       status: 'success',
@@ -59,54 +47,17 @@ export async function blockUser(targetUserId: string): Promise<MatchActionResult
 export async function unblockUser(targetUserId: string): Promise<MatchActionResult> {
   try {
     const userId = await getAuthUserId();
-    const matchEventHandler = new MatchEventHandler();
 
-    // Check if there are mutual likes
-    const mutualLikes = await prisma.like.findMany({
-      where: {
-        OR: [
-          { sourceUserId: userId, targetUserId: targetUserId },
-          { sourceUserId: targetUserId, targetUserId: userId }
-        ]
-      }
-    });
-
-    if (mutualLikes.length === 2) {
-      // Restore match status
-      await prisma.like.updateMany({
-        where: {
-          OR: [
-            { sourceUserId: userId, targetUserId: targetUserId },
-            { sourceUserId: targetUserId, targetUserId: userId }
-          ]
-        },
-        data: { matchStatus: 1 } // 1 = active match
-      });
-
-      // Restore avatar access
-      await matchEventHandler.handleMatchCreated(userId, targetUserId);
-
-      return {
-        status: 'success',
-        message: 'User unblocked and match restored'
-      };
-    } else {
-      // Just remove the block status
-      await prisma.like.updateMany({
-        where: {
-          OR: [
-            { sourceUserId: userId, targetUserId: targetUserId },
-            { sourceUserId: targetUserId, targetUserId: userId }
-          ]
-        },
-        data: { matchStatus: 0 } // 0 = pending
-      });
+    // Avatar access is restored through the outbox
+    const match = await getOutboxService().transaction((tx, emit) =>
+      getMatchLifecycleService().unblock(tx, emit, userId, targetUserId)
+    );
+    const restored = ACTIVE_MATCH_STATES.includes(match.state);
 
-      return {
-        status: 'success',
-        message: 'User unblocked'
-      };
-    }
+    return {
+      status: 'success',
+      message: restored ? 'User unblocked and match restored' : 'User unblocked'
+    };
 
   } catch (error) {
     console.error('Failed to unblock user:', error);
@@ -123,15 +74,18 @@ export async function unblockUser(targetUserId: string): Promise<MatchActionResu
 export async function removeMatch(targetUserId: string): Promise<MatchActionResult> {
   try {
     const userId = await getAuthUserId();
-    const matchEventHandler = new MatchEventHandler();
-
-    // Handle avatar access revocation first
-    await matchEventHandler.handleMatchDeleted(userId, targetUserId);
 
-    // Send notification
-    await pusherServer.trigger(`private-${targetUserId}`, 'match:removed', {
-      userId: userId,
-      message: 'A match has been removed'
+    // Avatar access is revoked through the outbox
+    await getOutboxService().transaction(async (tx, emit) => {
+      await tx.like.deleteMany({
+        where: {
+          OR: [
+            { sourceUserId: userId, targetUserId: targetUserId },
+            { sourceUserId: targetUserId, targetUserId: userId }
+          ]
+        }
+      });
+      await getMatchLifecycleService().unmatch(tx, emit, userId, targetUserId);
     });
 
     return {
@@ -156,6 +110,7 @@ export async function getMatchStatus(targetUserId: string): Promise<{
   data?: {
     isMatch: boolean;
     matchStatus: number;
+    state: MatchState | null;
     canSeeAvatar: boolean;
   };
   error?: string;
@@ -163,25 +118,21 @@ export async function getMatchStatus(targetUserId: string): Promise<{
   try {
     const userId = await getAuthUserId();
 
-    // Get like relationships
-    const likes = await prisma.like.findMany({
-      where: {
-        OR: [
-          { sourceUserId: userId, targetUserId: targetUserId },
-          { sourceUserId: targetUserId, targetUserId: userId }
-        ]
-      }
+    const match = await prisma.match.findUnique({
+      where: { userAId_userBId: matchKey(userId, targetUserId) }
     });
 
-    const isMatch = likes.length === 2 && likes.every(like => like.matchStatus === 1);
-    const matchStatus = likes.length > 0 ? likes[0].matchStatus : 0;
-    const canSeeAvatar = isMatch && matchStatus === 1;
+    const state = match?.state ?? null;
+    const isMatch = !!state && ACTIVE_MATCH_STATES.includes(state);
+    const matchStatus = state ? LIKE_MATCH_STATUS[state] : 0;
+    const canSeeAvatar = isMatch;
 
     return {
       status: 'success',
       data: {
         isMatch,
         matchStatus,
+        state,
         canSeeAvatar
       }
     };
@@ -200,8 +151,14 @@ export async function getMatchStatus(targetUserId: string): Promise<{
  */
 export async function repairAllMatches(): Promise<MatchActionResult> {
   try {
+    const role = await getUserRole();
+    if (role !== 'ADMIN') {
+      return { status: 'error', error: 'Forbidden' };
+    }
+
     const matchEventHandler = new MatchEventHandler();
     const result = await matchEventHandler.repairExistingMatches();
+    await recordAudit({ action: 'match.repair_all', targetType: 'match', after: result });
 
     return {
       status: 'success',
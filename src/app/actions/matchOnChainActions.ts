@@ -2,7 +2,8 @@
 
 import { prisma } from '@/lib/prisma';
 import { getAuthUserId } from './authActions';
-import { MatchEventHandler } from '@/services/matchEventHandler';
+import { getOutboxService } from '@/services/outboxService';
+import { getMatchLifecycleService, MatchLifecycleError } from '@/services/matchLifecycleService';
 import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
 import {
   getMatchIdBetweenUsers,
@@ -59,33 +60,26 @@ export async function saveMatchOnChain(
       return { status: 'error', error: 'Target user not found' };
     }
 
-    // Check if like already exists in database
-    const existingLike = await prisma.like.findUnique({
-      where: {
-        sourceUserId_targetUserId: {
-          sourceUserId: userId,
-          targetUserId: targetUser.id,
+    // Record the like and match; avatar access and notifications go through the outbox
+    await getOutboxService().transaction(async (tx, emit) => {
+      await tx.like.upsert({
+        where: {
+          sourceUserId_targetUserId: {
+            sourceUserId: userId,
+            targetUserId: targetUser.id,
+          },
         },
-      },
-    });
-
-    const matchEventHandler = new MatchEventHandler();
-
-    if (!existingLike) {
-      // Create like in database
-      await prisma.like.create({
-        data: {
+        create: {
           sourceUserId: userId,
           targetUserId: targetUser.id,
         },
+        update: {},
       });
-
-      // Check for mutual match and handle avatar access
-      await matchEventHandler.detectAndHandleMutualMatch(userId, targetUser.id);
-    }
-
-    // Store match metadata and handle avatar access
-    await matchEventHandler.handleMatchCreated(userId, targetUser.id, input.matchId);
+      const match = await getMatchLifecycleService().matchCreated(tx, emit, userId, targetUser.id, input.matchId);
+      if (match.state === 'BLOCKED') {
+        throw new MatchLifecycleError('Blocked members cannot match');
+      }
+    });
 
     return {
       status: 'success',
@@ -107,11 +101,27 @@ export async function markMatchActive(
   input: ActivateMatchInput
 ): Promise<MatchOnChainResult> {
   try {
-    // Update match status in database if needed
-    // This is a placeholder - you may want to create a Match table
+    const userId = await getAuthUserId();
 
-    // For now, we'll assume the match is already handled by the like system
-    console.log(`[MatchOnChain] Match ${input.matchId} marked as active`);
+    const match = await prisma.match.findFirst({
+      where: {
+        onChainMatchId: input.matchId,
+        OR: [{ userAId: userId }, { userBId: userId }],
+      },
+    });
+    if (!match) {
+      return { status: 'error', error: 'Match not found' };
+    }
+
+    await getOutboxService().transaction(async (tx, emit) => {
+      const lifecycle = getMatchLifecycleService();
+      const targetUserId = match.userAId === userId ? match.userBId : match.userAId;
+      const current = await lifecycle.getMatch(tx, userId, targetUserId);
+      // Already active, or blocked since; reconciliation flags the latter
+      if (current && (current.state === 'PENDING' || current.state === 'UNMATCHED' || current.state === 'EXPIRED')) {
+        await lifecycle.transition(tx, emit, userId, targetUserId, 'MATCHED');
+      }
+    });
 
     return {
       status: 'success',
@@ -192,6 +202,8 @@ export async function getChatRoomByParticipants(
           { participant1: currentUserId, participant2: targetWalletAddress },
           { participant1: targetWalletAddress, participant2: currentUserId },
         ],
+        // Rooms mirrored by the chain indexer may not have their allowlist yet
+        chatAllowlistId: { not: null },
       },
       select: {
         chatRoomId: true,
@@ -2,27 +2,63 @@
 
 import { cache } from 'react';
 import { prisma } from '@/lib/prisma';
-import type { Member, Photo } from '@prisma/client';
-import { addYears } from 'date-fns';
+import type { Member, Photo, Prisma, ProfilePrompt } from '@prisma/client';
 import { getAuthUserId } from './authActions';
 import type { GetMemberParams, PaginatedResponse } from '@/types';
 import { unstable_cache } from 'next/cache';
 import { CACHE_TAGS, CACHE_REVALIDATE } from '@/lib/cache';
+import { buildMemberSearchSql, buildMemberSearchWhere, memberSearchCacheKey } from '@/lib/memberFilters';
+import { getSearchSnippets, searchMembersByText } from '@/lib/memberSearch';
+import { getSanctionService } from '@/services/sanctionService';
 
 export type MemberWithUser = Member & {
     user: {
         profileObjectId: string | null;
         walletAddress: string | null;
     };
+    // Highlighted excerpt, only set for keyword (`q`) searches
+    searchSnippet?: string | null;
 };
 
-function getAgeRange(ageRange: string): Date[] {
-    const [minAge, maxAge] = ageRange.split(',');
-    const currentDate = new Date();
-    const minDob = addYears(currentDate, -maxAge - 1);
-    const maxDob = addYears(currentDate, -minAge);
+export type MemberWithPrompts = Member & {
+    prompts: ProfilePrompt[];
+};
+
+const memberUserSelect = {
+    user: {
+        select: {
+            profileObjectId: true,
+            walletAddress: true,
+        }
+    }
+};
 
-    return [minDob, maxDob];
+/**
+ * One page of keyword search results in relevance order, with snippets
+ */
+async function fetchRankedPage(
+    query: string,
+    where: Prisma.Sql,
+    skip: number,
+    take: number
+): Promise<PaginatedResponse<MemberWithUser>> {
+    const { userIds, total } = await searchMembersByText(query, where, skip, take);
+    const rank = new Map(userIds.map((id, index) => [id, index]));
+
+    const [members, snippets] = await Promise.all([
+        prisma.member.findMany({
+            where: { userId: { in: userIds } },
+            include: memberUserSelect
+        }),
+        getSearchSnippets(query, userIds)
+    ]);
+
+    return {
+        items: members
+            .sort((a, b) => rank.get(a.userId)! - rank.get(b.userId)!)
+            .map(member => ({ ...member, searchSnippet: snippets[member.userId] ?? null })),
+        totalCount: total
+    };
 }
 
 // Cache key generator
@@ -30,62 +66,62 @@ const getCacheKey = (params: GetMemberParams, userId: string) => {
     return `members-${userId}-${JSON.stringify(params)}`;
 };
 
-// Cached member count function
-const getCachedMemberCount = unstable_cache(
-    async (whereClause: any) => {
-        return await prisma.member.count(whereClause);
-    },
-    ['member-count'],
-    {
-        revalidate: CACHE_REVALIDATE.MEDIUM,
-        tags: [CACHE_TAGS.MEMBERS]
-    }
-);
+// Cached member count, one entry per distinct filter
+function getCachedMemberCount(where: Prisma.MemberWhereInput) {
+    return unstable_cache(
+        async () => prisma.member.count({ where }),
+        ['member-count', memberSearchCacheKey(where)],
+        {
+            revalidate: CACHE_REVALIDATE.MEDIUM,
+            tags: [CACHE_TAGS.MEMBERS]
+        }
+    )();
+}
+
+async function fetchOrderedPage(
+    where: Prisma.MemberWhereInput,
+    orderBy: string,
+    skip: number,
+    take: number
+): Promise<PaginatedResponse<MemberWithUser>> {
+    const [totalCount, items] = await Promise.all([
+        getCachedMemberCount(where),
+        prisma.member.findMany({
+            where,
+            orderBy: { [orderBy]: 'desc' },
+            skip,
+            take,
+            include: memberUserSelect
+        })
+    ]);
+
+    return { items, totalCount };
+}
 
 // Main query function
 async function fetchMembers({
-    ageRange = '18,100',
-    gender = 'male,female',
     orderBy = 'updated',
     pageNumber = '1',
     pageSize = '12',
-    userId
-}: GetMemberParams & { userId: string }): Promise<PaginatedResponse<MemberWithUser>> {
-    const [minDob, maxDob] = getAgeRange(ageRange);
-    const selectedGender = gender.split(',');
+    userId,
+    onlineUserIds,
+    ...searchParams
+}: GetMemberParams & { userId: string; onlineUserIds?: string[] }): Promise<PaginatedResponse<MemberWithUser>> {
     const page = parseInt(pageNumber);
     const limit = parseInt(pageSize);
     const skip = (page - 1) * limit;
 
-    const membersSelect = {
-        where: {
-            AND: [
-                { dateOfBirth: { gte: minDob } },
-                { dateOfBirth: { lte: maxDob } },
-                { gender: { in: selectedGender } },
-            ],
-            NOT: {
-                userId
-            }
-        },
-    };
+    // Sanctioned members are left out by buildMemberSearchWhere; suspended viewers see nobody
+    if (await getSanctionService().getAccessSanction(userId)) {
+        return { items: [], totalCount: 0 };
+    }
 
-    const count = await getCachedMemberCount(membersSelect);
-
-    const members = await prisma.member.findMany({
-        ...membersSelect,
-        orderBy: { [orderBy]: 'desc' },
-        skip,
-        take: limit,
-        include: {
-            user: {
-                select: {
-                    profileObjectId: true,
-                    walletAddress: true,
-                }
-            }
-        }
-    });
+    const query = searchParams.q?.trim();
+
+    // Keyword searches are ranked in SQL and ordered by relevance instead of `orderBy`
+    const { items: members, totalCount: count } = query
+        ? await fetchRankedPage(query, await buildMemberSearchSql(searchParams, userId, onlineUserIds), skip, limit)
+        : await fetchOrderedPage(await buildMemberSearchWhere(searchParams, userId, onlineUserIds), orderBy, skip, limit);
 
     // Sync wallet addresses in background (non-blocking)
     // If walletAddress is missing but userId is a valid wallet, use userId as fallback
@@ -112,11 +148,15 @@ async function fetchMembers({
 }
 
 // Export wrapper with caching
-export async function getMembers(params: GetMemberParams): Promise<PaginatedResponse<MemberWithUser>> {
+// `onlineUserIds` comes from the client's presence store when `onlineOnly` is set
+export async function getMembers(
+    params: GetMemberParams,
+    onlineUserIds?: string[]
+): Promise<PaginatedResponse<MemberWithUser>> {
     const userId = await getAuthUserId();
 
     try {
-        return await fetchMembers({ ...params, userId });
+        return await fetchMembers({ ...params, userId, onlineUserIds });
     } catch (error) {
         console.log(error);
         throw error;
@@ -126,7 +166,10 @@ export async function getMembers(params: GetMemberParams): Promise<PaginatedResp
 // Cached version to avoid duplicate queries in same render cycle
 export const getMemberByUserId = cache(async (userId: string) => {
     try {
-        return prisma.member.findUnique({ where: { userId } })
+        return prisma.member.findUnique({
+            where: { userId },
+            include: { prompts: { orderBy: { position: 'asc' } } }
+        })
     } catch (error) {
         console.log(error);
     }
@@ -157,4 +200,32 @@ export async function updateLastActive() {
         console.log(error);
         throw error;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Distinct locations and the most common interests, used to populate the
+ * search filter options.
+ */
+export async function getMemberSearchOptions() {
+    await getAuthUserId();
+
+    const [locations, interests] = await Promise.all([
+        prisma.member.findMany({
+            distinct: ['country', 'city'],
+            select: { country: true, city: true },
+            orderBy: [{ country: 'asc' }, { city: 'asc' }],
+            take: 500
+        }),
+        prisma.$queryRaw<{ interest: string }[]>`
+            SELECT interest FROM "Member", unnest("interests") AS interest
+            GROUP BY interest
+            ORDER BY count(*) DESC, interest ASC
+            LIMIT 50
+        `
+    ]);
+
+    return {
+        locations,
+        interests: interests.map(row => row.interest)
+    };
+}
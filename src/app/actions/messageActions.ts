@@ -5,10 +5,21 @@ import type { ActionResult, MessageDto } from '@/types';
 import { getAuthUserId } from './authActions';
 import { prisma } from '@/lib/prisma';
 import { mapMessageToMessageDto } from '@/lib/mappings';
-import { pusherServer } from '@/lib/pusher';
-import { createChatId } from '@/lib/util';
+import { getOutboxService } from '@/services/outboxService';
+import { getMatchLifecycleService, MatchLifecycleError } from '@/services/matchLifecycleService';
+import { getSanctionService, SanctionError } from '@/services/sanctionService';
+import { getTextModerationService } from '@/services/textModerationService';
+import { getPendingDeletionUserIds } from '@/lib/discovery/exclusions';
 
-export async function createMessage(recipientUserId: string, data: MessageSchema): Promise<ActionResult<MessageDto>> {
+/**
+ * Sends a chat message after text moderation. Depending on what the text
+ * matches it is refused, or sent with a notice for the sender or blurred for
+ * the recipient; flagged messages that are sent are queued for a moderator.
+ */
+export async function createMessage(
+    recipientUserId: string,
+    data: MessageSchema
+): Promise<ActionResult<MessageDto & { notice?: string }>> {
     try {
         const userId = await getAuthUserId();
 
@@ -18,21 +29,36 @@ export async function createMessage(recipientUserId: string, data: MessageSchema
 
         const { text } = validated.data;
 
-        const message = await prisma.message.create({
-            data: {
-                text,
-                recipientId: recipientUserId,
-                senderId: userId
-            },
-            select: messageSelect
+        await getSanctionService().assertAllowed(userId, 'message');
+
+        const leaving = await prisma.accountDeletion.count({ where: { userId: recipientUserId, status: 'PENDING' } });
+        if (leaving > 0) return { status: 'error', error: 'This member is no longer available' }
+
+        const textModeration = getTextModerationService();
+        const moderation = textModeration.moderate(text, 'message');
+        if (moderation.action === 'block') return { status: 'error', error: moderation.notice! }
+
+        const messageDto = await getOutboxService().transaction(async (tx, emit) => {
+            const message = await tx.message.create({
+                data: {
+                    text,
+                    recipientId: recipientUserId,
+                    senderId: userId,
+                    blurred: moderation.action === 'blur'
+                },
+                select: messageSelect
+            });
+            const dto = mapMessageToMessageDto(message);
+            await getMatchLifecycleService().messageSent(tx, emit, userId, recipientUserId);
+            await emit('message.created', { senderId: userId, recipientId: recipientUserId, message: dto });
+            return dto;
         });
-        const messageDto = mapMessageToMessageDto(message);
 
-        await pusherServer.trigger(createChatId(userId, recipientUserId), 'message:new', messageDto);
-        await pusherServer.trigger(`private-${recipientUserId}`, 'message:new', messageDto);
+        await textModeration.queueForReview(userId, 'message', messageDto.id, moderation);
 
-        return { status: 'success', data: messageDto };
+        return { status: 'success', data: { ...messageDto, notice: moderation.notice } };
     } catch (error) {
+        if (error instanceof SanctionError || error instanceof MatchLifecycleError) return { status: 'error', error: error.message }
         console.log(error);
         return { status: 'error', error: 'Something went wrong' }
     }
@@ -42,6 +68,9 @@ export async function getMessageThread(recipientId: string) {
     try {
         const userId = await getAuthUserId();
 
+        // Conversations with a member who is leaving are hidden with them
+        if ((await getPendingDeletionUserIds()).includes(recipientId)) return { messages: [], readCount: 0 }
+
         const messages = await prisma.message.findMany({
             where: {
                 OR: [
@@ -72,21 +101,24 @@ export async function getMessageThread(recipientId: string) {
                     && m.sender?.userId === recipientId)
                 .map(m => m.id);
 
-            await prisma.message.updateMany({
-                where: {
-                    senderId: recipientId,
-                    recipientId: userId,
-                    dateRead: null
-                },
-                data: { dateRead: new Date() }
-            })
+            await getOutboxService().transaction(async (tx, emit) => {
+                await tx.message.updateMany({
+                    where: {
+                        senderId: recipientId,
+                        recipientId: userId,
+                        dateRead: null
+                    },
+                    data: { dateRead: new Date() }
+                })
+                await emit('messages.read', { readerId: userId, senderId: recipientId, messageIds: unreadMessageIds });
+            });
 
             readCount = unreadMessageIds.length;
-
-            await pusherServer.trigger(createChatId(recipientId, userId), 'messages:read', unreadMessageIds);
         }
 
-        return { messages: messages.map(message => mapMessageToMessageDto(message)), readCount }
+        const visible = await withoutHiddenMessages(messages, userId);
+
+        return { messages: visible.map(message => mapMessageToMessageDto(message)), readCount }
     } catch (error) {
         console.log(error);
         throw error;
@@ -97,8 +129,10 @@ export async function getMessagesByContainer(container?: string | null, cursor?:
     try {
         const userId = await getAuthUserId();
 
+        const leaving = await getPendingDeletionUserIds();
         const conditions = {
             [container === 'outbox' ? 'senderId' : 'recipientId']: userId,
+            [container === 'outbox' ? 'recipientId' : 'senderId']: { notIn: leaving },
             ...(container === 'outbox' ? { senderDeleted: false } : { recipientDeleted: false }),
         }
 
@@ -123,7 +157,8 @@ export async function getMessagesByContainer(container?: string | null, cursor?:
             nextCursor = undefined
         }
 
-        const messagesToReturn = messages.map(message => mapMessageToMessageDto(message));
+        const visible = await withoutHiddenMessages(messages, userId);
+        const messagesToReturn = visible.map(message => mapMessageToMessageDto(message));
 
         return { messages: messagesToReturn, nextCursor }
     } catch (error) {
@@ -138,37 +173,41 @@ export async function deleteMessage(messageId: string, isOutbox: boolean) {
     try {
         const userId = await getAuthUserId();
 
-        await prisma.message.update({
-            where: { id: messageId },
-            data: {
-                [selector]: true
-            }
-        })
-
-        const messagesToDelete = await prisma.message.findMany({
-            where: {
-                OR: [
-                    {
-                        senderId: userId,
-                        senderDeleted: true,
-                        recipientDeleted: true
-                    },
-                    {
-                        recipientId: userId,
-                        senderDeleted: true,
-                        recipientDeleted: true
-                    }
-                ]
-            }
-        })
+        await getOutboxService().transaction(async (tx, emit) => {
+            await tx.message.update({
+                where: { id: messageId },
+                data: {
+                    [selector]: true
+                }
+            })
 
-        if (messagesToDelete.length > 0) {
-            await prisma.message.deleteMany({
+            const messagesToDelete = await tx.message.findMany({
                 where: {
-                    OR: messagesToDelete.map(m => ({ id: m.id }))
+                    OR: [
+                        {
+                            senderId: userId,
+                            senderDeleted: true,
+                            recipientDeleted: true
+                        },
+                        {
+                            recipientId: userId,
+                            senderDeleted: true,
+                            recipientDeleted: true
+                        }
+                    ]
                 }
             })
-        }
+
+            if (messagesToDelete.length > 0) {
+                await tx.message.deleteMany({
+                    where: {
+                        OR: messagesToDelete.map(m => ({ id: m.id }))
+                    }
+                })
+            }
+
+            await emit('message.deleted', { userId, messageId });
+        });
     } catch (error) {
         console.log(error);
         throw error;
@@ -179,9 +218,12 @@ export async function getUnreadMessageCount() {
     try {
         const userId = await getAuthUserId();
 
+        const leaving = await getPendingDeletionUserIds();
+
         return prisma.message.count({
             where: {
                 recipientId: userId,
+                senderId: { notIn: leaving },
                 dateRead: null,
                 recipientDeleted: false
             }
@@ -197,6 +239,7 @@ const messageSelect = {
     text: true,
     created: true,
     dateRead: true,
+    blurred: true,
     sender: {
         select: {
             userId: true,
@@ -211,4 +254,24 @@ const messageSelect = {
             image: true
         }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Drops messages that moderation hid after enough members reported them.
+ * Senders still see their own messages.
+ */
+async function withoutHiddenMessages<T extends { id: string; sender: { userId: string } | null }>(
+    messages: T[],
+    userId: string
+): Promise<T[]> {
+    const received = messages.filter(m => m.sender?.userId !== userId).map(m => m.id);
+    if (received.length === 0) return messages;
+
+    const hidden = await prisma.moderationCase.findMany({
+        where: { contentType: 'MESSAGE', contentId: { in: received }, contentHidden: true },
+        select: { contentId: true }
+    });
+    const hiddenIds = new Set(hidden.map(c => c.contentId));
+
+    return messages.filter(m => !hiddenIds.has(m.id));
+}
@@ -0,0 +1,92 @@
+'use server';
+
+import { recordAudit } from '@/lib/audit';
+import { canModerate } from '@/lib/roles';
+import {
+    getModerationConsoleService,
+    ModerationConsoleError,
+    type ModerationItemOutcome,
+    type ModerationItemRef,
+    type ModerationQueueItem,
+    type ModerationUserHistory,
+    type ModerationVerdict,
+    type Moderator
+} from '@/services/moderationConsoleService';
+import type { ActionResult } from '@/types';
+import type { ModerationItemKind } from '@prisma/client';
+import { getAuthUserId, getUserRole } from './authActions';
+
+export type ModerationAssignmentFilter = 'all' | 'mine' | 'unassigned';
+
+const auditTarget = (outcome: ModerationItemOutcome) => ({
+    targetType: outcome.kind === 'PHOTO' ? 'photo' : 'moderation_case',
+    targetId: outcome.id
+});
+
+async function runModeratorAction<T>(fn: (moderatorId: string) => Promise<T>): Promise<ActionResult<T>> {
+    try {
+        const role = await getUserRole();
+        if (!canModerate(role)) return { status: 'error', error: 'Forbidden' }
+
+        return { status: 'success', data: await fn(await getAuthUserId()) }
+    } catch (error) {
+        if (error instanceof ModerationConsoleError) return { status: 'error', error: error.message }
+        console.log(error);
+        return { status: 'error', error: 'Something went wrong' }
+    }
+}
+
+/**
+ * Pending photos and open report cases, most urgent first
+ */
+export async function getModerationConsoleQueue(
+    kinds: ModerationItemKind[] = [],
+    assignment: ModerationAssignmentFilter = 'all'
+): Promise<ActionResult<ModerationQueueItem[]>> {
+    return runModeratorAction(moderatorId => getModerationConsoleService().getQueue({
+        kinds,
+        assignedTo: assignment === 'all' ? undefined : assignment === 'mine' ? moderatorId : null
+    }));
+}
+
+/**
+ * Approves or rejects a batch of items; the outcome says which ones failed
+ */
+export async function decideModerationItems(
+    items: ModerationItemRef[],
+    verdict: ModerationVerdict,
+    note?: string
+): Promise<ActionResult<ModerationItemOutcome[]>> {
+    return runModeratorAction(async moderatorId => {
+        const outcomes = await getModerationConsoleService().decide(items, verdict, moderatorId, note);
+        await recordAudit(outcomes.filter(outcome => outcome.ok).map(outcome => ({
+            action: `moderation.${verdict}`,
+            ...auditTarget(outcome),
+            after: { kind: outcome.kind, note }
+        })));
+        return outcomes;
+    });
+}
+
+export async function assignModerationItems(
+    items: ModerationItemRef[],
+    assigneeId: string | null
+): Promise<ActionResult<ModerationItemOutcome[]>> {
+    return runModeratorAction(async moderatorId => {
+        const outcomes = await getModerationConsoleService().assign(items, assigneeId, moderatorId);
+        await recordAudit(outcomes.filter(outcome => outcome.ok).map(outcome => ({
+            action: assigneeId ? 'moderation.assign' : 'moderation.unassign',
+            ...auditTarget(outcome),
+            after: { assignedTo: assigneeId }
+        })));
+        return outcomes;
+    });
+}
+
+export async function getModerationUserHistory(userId: string): Promise<ActionResult<ModerationUserHistory>> {
+    return runModeratorAction(() => getModerationConsoleService().getUserHistory(userId));
+}
+
+export async function getModerators(): Promise<ActionResult<Moderator[]>> {
+    return runModeratorAction(() => getModerationConsoleService().getModerators());
+}
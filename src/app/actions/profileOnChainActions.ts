@@ -2,6 +2,16 @@
 
 import { auth } from '@/auth'
 import { prisma } from '@/lib/prisma'
+import { normalizeInterests } from '@/lib/memberFilters'
+import { getProfileInfo } from '@/lib/blockchain/contractQueries'
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client'
+import {
+  getProfileSyncService,
+  ProfileSyncError,
+  type ProfileSyncStatus,
+  type SyncedProfileField,
+} from '@/services/profileSyncService'
+import type { ActionResult } from '@/types'
 
 export interface MarkProfileCompleteInput {
   profileObjectId: string
@@ -36,8 +46,83 @@ export async function markProfileCompleteOnChain(
     },
   })
 
+  await syncMemberInterests(session.user.id, params.profileObjectId)
+
+  try {
+    await getProfileSyncService().recordSnapshot(session.user.id)
+  } catch (error) {
+    // The edit page diff still works without a snapshot, it just can't tell which side changed
+    console.error('[markProfileCompleteOnChain] Failed to record sync snapshot:', error)
+  }
+
   return {
     status: 'success',
     profileObjectId: params.profileObjectId,
   }
 }
+
+/**
+ * Mirrors the on-chain profile interests into Member so they can be searched.
+ * Interests already picked in the profile form take precedence.
+ */
+async function syncMemberInterests(userId: string, profileObjectId: string) {
+  try {
+    const network = (process.env.NEXT_PUBLIC_SUI_NETWORK || 'testnet') as 'testnet' | 'mainnet'
+    const client = new SuiClient({ url: getFullnodeUrl(network) })
+    const profile = await getProfileInfo(client, profileObjectId)
+    if (!profile) return
+
+    await prisma.member.updateMany({
+      where: { userId, interests: { isEmpty: true } },
+      data: { interests: normalizeInterests(profile.interests) },
+    })
+  } catch (error) {
+    // Search just won't see the interests until the next sync
+    console.error('[syncMemberInterests] Failed:', error)
+  }
+}
+
+async function runProfileSync(
+  fn: (userId: string) => Promise<ProfileSyncStatus>
+): Promise<ActionResult<ProfileSyncStatus>> {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    return { status: 'error', error: 'User session not found' }
+  }
+
+  try {
+    return { status: 'success', data: await fn(session.user.id) }
+  } catch (error) {
+    if (error instanceof ProfileSyncError) {
+      return { status: 'error', error: error.message }
+    }
+    console.error('[profileSync] Failed:', error)
+    return { status: 'error', error: 'Failed to sync profile with the blockchain' }
+  }
+}
+
+/**
+ * Compares Member with the on-chain UserProfile
+ */
+export async function getProfileSyncStatus(): Promise<ActionResult<ProfileSyncStatus>> {
+  return runProfileSync((userId) => getProfileSyncService().getStatus(userId))
+}
+
+/**
+ * Overwrites the given Member fields with their on-chain values
+ */
+export async function pullProfileFromChain(
+  fields: SyncedProfileField[]
+): Promise<ActionResult<ProfileSyncStatus>> {
+  return runProfileSync((userId) => getProfileSyncService().pull(userId, fields))
+}
+
+/**
+ * Records a successful update_profile transaction signed by the client
+ */
+export async function confirmProfilePublished(
+  digest: string
+): Promise<ActionResult<ProfileSyncStatus>> {
+  return runProfileSync((userId) => getProfileSyncService().confirmPublished(userId, digest))
+}
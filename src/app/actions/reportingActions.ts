@@ -1,8 +1,12 @@
 'use server';
 
-import { getAuthUserId } from './authActions';
+import { getAuthUserId, getUserRole } from './authActions';
 import { ContentModerationService } from '@/services/contentModerationService';
+import { getReportReason, REPORT_REASONS, type ReportReason } from '@/lib/reportReasons';
 import { prisma } from '@/lib/prisma';
+import { canModerate } from '@/lib/roles';
+import { recordAudit } from '@/lib/audit';
+import { getSanctionService } from '@/services/sanctionService';
 
 export interface ReportResult {
   status: 'success' | 'error';
@@ -11,64 +15,7 @@ export interface ReportResult {
   error?: string;
 }
 
-export interface ReportReason {
-  id: string;
-  label: string;
-  description: string;
-  severity: 'low' | 'medium' | 'high';
-}
-
-// Predefined report reasons
-export const REPORT_REASONS: ReportReason[] = [
-  {
-    id: 'inappropriate_content',
-    label: 'Inappropriate Content',
-    description: 'Contains inappropriate, offensive, or disturbing content',
-    severity: 'high'
-  },
-  {
-    id: 'nudity',
-    label: 'Nudity or Sexual Content',
-    description: 'Contains nudity or sexually explicit content',
-    severity: 'high'
-  },
-  {
-    id: 'fake_profile',
-    label: 'Fake Profile',
-    description: 'Using someone else\'s photos or fake identity',
-    severity: 'medium'
-  },
-  {
-    id: 'spam',
-    label: 'Spam or Misleading',
-    description: 'Spam, scam, or misleading content',
-    severity: 'medium'
-  },
-  {
-    id: 'harassment',
-    label: 'Harassment',
-    description: 'Harassment, bullying, or threatening behavior',
-    severity: 'high'
-  },
-  {
-    id: 'violence',
-    label: 'Violence or Dangerous Content',
-    description: 'Promotes violence or dangerous activities',
-    severity: 'high'
-  },
-  {
-    id: 'copyright',
-    label: 'Copyright Violation',
-    description: 'Uses copyrighted content without permission',
-    severity: 'low'
-  },
-  {
-    id: 'other',
-    label: 'Other',
-    description: 'Other reason not listed above',
-    severity: 'low'
-  }
-];
+export type { ReportReason };
 
 /**
  * Reports a user's avatar for inappropriate content
@@ -89,7 +36,7 @@ export async function reportAvatar(
     }
 
     // Validate reason
-    const reason = REPORT_REASONS.find(r => r.id === reasonId);
+    const reason = getReportReason(reasonId);
     if (!reason) {
       return {
         status: 'error',
@@ -97,15 +44,6 @@ export async function reportAvatar(
       };
     }
 
-    // Check if user has already reported this avatar
-    const existingReport = await checkExistingReport(reporterId, targetUserId, 'avatar');
-    if (existingReport) {
-      return {
-        status: 'error',
-        error: 'You have already reported this avatar'
-      };
-    }
-
     // Check if target user exists and has an avatar
     const targetUser = await prisma.user.findUnique({
       where: { id: targetUserId },
@@ -130,23 +68,17 @@ export async function reportAvatar(
       };
     }
 
-    // Create the report
+    // Duplicate and rate-limit checks happen in the service
     const moderationService = new ContentModerationService();
-    const reportId = await moderationService.createContentReport(
-      targetUserId,
-      'avatar',
-      targetUser.publicAvatarBlobId || targetUser.privateAvatarBlobId,
-      reporterId,
-      `${reason.label}: ${additionalDetails || reason.description}`
-    );
-
-    // Log the report in database (placeholder)
-    await logReport(reporterId, targetUserId, 'avatar', reasonId, additionalDetails);
-
-    // If it's a high severity report, immediately flag for review
-    if (reason.severity === 'high') {
-      await flagForImmediateReview(targetUserId, reportId, reason);
-    }
+    const { reportId } = await moderationService.createContentReport({
+      userId: targetUserId,
+      contentType: 'avatar',
+      contentId: targetUser.publicAvatarBlobId || targetUser.privateAvatarBlobId,
+      reportedBy: reporterId,
+      reasonId,
+      severity: reason.severity,
+      details: additionalDetails
+    });
 
     return {
       status: 'success',
@@ -182,7 +114,7 @@ export async function reportProfile(
     }
 
     // Validate reason
-    const reason = REPORT_REASONS.find(r => r.id === reasonId);
+    const reason = getReportReason(reasonId);
     if (!reason) {
       return {
         status: 'error',
@@ -190,15 +122,6 @@ export async function reportProfile(
       };
     }
 
-    // Check if user has already reported this profile
-    const existingReport = await checkExistingReport(reporterId, targetUserId, 'profile');
-    if (existingReport) {
-      return {
-        status: 'error',
-        error: 'You have already reported this profile'
-      };
-    }
-
     // Check if target user exists
     const targetUser = await prisma.user.findUnique({
       where: { id: targetUserId },
@@ -212,23 +135,17 @@ export async function reportProfile(
       };
     }
 
-    // Create the report
+    // Duplicate and rate-limit checks happen in the service
     const moderationService = new ContentModerationService();
-    const reportId = await moderationService.createContentReport(
-      targetUserId,
-      'profile',
-      targetUserId,
-      reporterId,
-      `${reason.label}: ${additionalDetails || reason.description}`
-    );
-
-    // Log the report
-    await logReport(reporterId, targetUserId, 'profile', reasonId, additionalDetails);
-
-    // Handle high severity reports
-    if (reason.severity === 'high') {
-      await flagForImmediateReview(targetUserId, reportId, reason);
-    }
+    const { reportId } = await moderationService.createContentReport({
+      userId: targetUserId,
+      contentType: 'profile',
+      contentId: targetUserId,
+      reportedBy: reporterId,
+      reasonId,
+      severity: reason.severity,
+      details: additionalDetails
+    });
 
     return {
       status: 'success',
@@ -263,14 +180,7 @@ export async function getUserReportHistory(): Promise<{
 }> {
   try {
     const userId = await getAuthUserId();
-    
-    // TODO: Query actual report history from database
-    // For now, return default values
-    return {
-      totalReports: 0,
-      recentReports: 0,
-      canReport: true
-    };
+    return new ContentModerationService().getReporterHistory(userId);
 
   } catch (error) {
     console.error('Failed to get user report history:', error);
@@ -283,79 +193,8 @@ export async function getUserReportHistory(): Promise<{
 }
 
 /**
- * Checks if user has already reported specific content
- */
-async function checkExistingReport(
-  reporterId: string, 
-  targetUserId: string, 
-  contentType: string
-): Promise<boolean> {
-  try {
-    // TODO: Query reports table to check for existing reports
-    // For now, return false (no existing report)
-    return false;
-
-  } catch (error) {
-    console.error('Failed to check existing report:', error);
-    return false;
-  }
-}
-
-/**
- * Logs a report in the database
- */
-async function logReport(
-  reporterId: string,
-  targetUserId: string,
-  contentType: string,
-  reasonId: string,
-  additionalDetails?: string
-): Promise<void> {
-  try {
-    // TODO: Store report in reports table
-    console.log('[Reporting] Report logged:', {
-      reporterId,
-      targetUserId,
-      contentType,
-      reasonId,
-      additionalDetails,
-      timestamp: new Date()
-    });
-
-  } catch (error) {
-    console.error('Failed to log report:', error);
-    // Don't throw - logging failure shouldn't break reporting
-  }
-}
-
-/**
- * Flags high-severity reports for immediate review
- */
-async function flagForImmediateReview(
-  targetUserId: string,
-  reportId: string,
-  reason: ReportReason
-): Promise<void> {
-  try {
-    console.log(`[Reporting] High severity report flagged for immediate review:`, {
-      targetUserId,
-      reportId,
-      reason: reason.label,
-      severity: reason.severity
-    });
-
-    // TODO: Implement immediate review flagging
-    // - Add to priority moderation queue
-    // - Send notification to moderators
-    // - Potentially auto-hide content pending review
-
-  } catch (error) {
-    console.error('Failed to flag for immediate review:', error);
-  }
-}
-
-/**
- * Blocks a user (admin action)
+ * Blocks a user (moderator action): a suspension when a duration is given,
+ * otherwise a permanent ban
  */
 export async function blockUserByModerator(
   targetUserId: string,
@@ -363,18 +202,23 @@ export async function blockUserByModerator(
   duration?: number // Duration in hours, undefined for permanent
 ): Promise<ReportResult> {
   try {
+    const role = await getUserRole();
+    if (!canModerate(role)) {
+      return {
+        status: 'error',
+        error: 'Forbidden'
+      };
+    }
+
     const moderatorId = await getAuthUserId();
-    
-    // TODO: Verify moderator permissions
-    
-    // TODO: Implement user blocking
-    console.log('[Reporting] User blocked by moderator:', {
-      targetUserId,
-      moderatorId,
+    const sanction = await getSanctionService().issue({
+      userId: targetUserId,
+      type: duration ? 'SUSPENSION' : 'BAN',
       reason,
-      duration,
-      timestamp: new Date()
+      issuedBy: moderatorId,
+      durationHours: duration
     });
+    await recordAudit({ action: 'sanction.issue', targetType: 'sanction', targetId: sanction.id, after: sanction });
 
     return {
       status: 'success',
@@ -388,4 +232,4 @@ export async function blockUserByModerator(
       error: error instanceof Error ? error.message : 'Failed to block user'
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,107 @@
+'use server';
+
+import { recordAudit } from '@/lib/audit';
+import { canModerate } from '@/lib/roles';
+import {
+    getSanctionService,
+    SanctionError,
+    type IssueSanctionInput,
+    type SanctionWithHistory
+} from '@/services/sanctionService';
+import type { ActionResult } from '@/types';
+import type { Sanction, SanctionAppeal } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getAuthUserId, getUserRole } from './authActions';
+
+async function runModeratorAction<T>(fn: (moderatorId: string) => Promise<T>): Promise<ActionResult<T>> {
+    try {
+        const role = await getUserRole();
+        if (!canModerate(role)) return { status: 'error', error: 'Forbidden' }
+
+        return { status: 'success', data: await fn(await getAuthUserId()) }
+    } catch (error) {
+        if (error instanceof SanctionError) return { status: 'error', error: error.message }
+        console.log(error);
+        return { status: 'error', error: 'Something went wrong' }
+    }
+}
+
+export async function issueSanction(
+    input: Omit<IssueSanctionInput, 'issuedBy'>
+): Promise<ActionResult<Sanction>> {
+    return runModeratorAction(async moderatorId => {
+        const sanction = await getSanctionService().issue({ ...input, issuedBy: moderatorId });
+        await recordAudit({ action: 'sanction.issue', targetType: 'sanction', targetId: sanction.id, after: sanction });
+        return sanction;
+    });
+}
+
+export async function revokeSanction(sanctionId: string, note: string): Promise<ActionResult<Sanction>> {
+    return runModeratorAction(async moderatorId => {
+        const sanction = await getSanctionService().revoke(sanctionId, moderatorId, note);
+        await recordAudit({
+            action: 'sanction.revoke',
+            targetType: 'sanction',
+            targetId: sanction.id,
+            before: { revokedAt: null },
+            after: { revokedAt: sanction.revokedAt, note }
+        });
+        return sanction;
+    });
+}
+
+/**
+ * Every sanction a member has had, with its audit trail and appeal
+ */
+export async function getUserSanctions(userId: string): Promise<ActionResult<SanctionWithHistory[]>> {
+    return runModeratorAction(() => getSanctionService().getHistory(userId));
+}
+
+export async function getPendingSanctionAppeals(): Promise<ActionResult<(SanctionAppeal & { sanction: Sanction })[]>> {
+    return runModeratorAction(() => getSanctionService().getPendingAppeals());
+}
+
+export async function decideSanctionAppeal(
+    appealId: string,
+    grant: boolean,
+    note?: string
+): Promise<ActionResult<SanctionAppeal>> {
+    return runModeratorAction(async moderatorId => {
+        const appeal = await getSanctionService().decideAppeal(appealId, moderatorId, grant, note);
+        await recordAudit({
+            action: grant ? 'sanction_appeal.grant' : 'sanction_appeal.deny',
+            targetType: 'sanction_appeal',
+            targetId: appeal.id,
+            before: { status: 'PENDING' },
+            after: { status: appeal.status, note }
+        });
+        return appeal;
+    });
+}
+
+/**
+ * The ban or suspension locking the current user out, with their appeal if
+ * they filed one
+ */
+export async function getMyAccessSanction(): Promise<(Sanction & { appeal: SanctionAppeal | null }) | null> {
+    const userId = await getAuthUserId();
+    const sanction = await getSanctionService().getAccessSanction(userId);
+    if (!sanction) return null;
+
+    const appeal = await prisma.sanctionAppeal.findUnique({ where: { sanctionId: sanction.id } });
+    return { ...sanction, appeal };
+}
+
+/**
+ * Contests one of the current user's own sanctions
+ */
+export async function appealSanction(sanctionId: string, message: string): Promise<ActionResult<SanctionAppeal>> {
+    try {
+        const userId = await getAuthUserId();
+        return { status: 'success', data: await getSanctionService().appeal(userId, sanctionId, message) }
+    } catch (error) {
+        if (error instanceof SanctionError) return { status: 'error', error: error.message }
+        console.log(error);
+        return { status: 'error', error: 'Something went wrong' }
+    }
+}
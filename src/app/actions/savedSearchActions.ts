@@ -0,0 +1,101 @@
+'use server';
+
+import { prisma } from '@/lib/prisma';
+import { savedSearchSchema, type SavedSearchSchema } from '@/lib/schemas/SavedSearchSchema';
+import type { ActionResult, GetMemberParams } from '@/types';
+import type { SavedSearch } from '@prisma/client';
+import { getAuthUserId } from './authActions';
+
+const MAX_SAVED_SEARCHES = 20;
+// Paging is per-session state, not part of a search
+const UNSAVED_PARAMS = ['pageNumber', 'pageSize'];
+
+export type SavedSearchDto = Omit<SavedSearch, 'params'> & { params: GetMemberParams };
+
+function toDto(search: SavedSearch): SavedSearchDto {
+    return { ...search, params: search.params as GetMemberParams };
+}
+
+export async function getSavedSearches(): Promise<SavedSearchDto[]> {
+    const userId = await getAuthUserId();
+
+    const searches = await prisma.savedSearch.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' }
+    });
+
+    return searches.map(toDto);
+}
+
+/**
+ * Saves the current filters under a name. Saving with an existing name
+ * replaces that search's filters.
+ */
+export async function saveSearch(data: SavedSearchSchema): Promise<ActionResult<SavedSearchDto>> {
+    try {
+        const userId = await getAuthUserId();
+
+        const validated = savedSearchSchema.safeParse(data);
+        if (!validated.success) return { status: 'error', error: validated.error.errors }
+
+        const { name } = validated.data;
+        const params = Object.fromEntries(
+            Object.entries(validated.data.params).filter(([key]) => !UNSAVED_PARAMS.includes(key))
+        );
+
+        const existing = await prisma.savedSearch.findUnique({
+            where: { userId_name: { userId, name } }
+        });
+
+        if (!existing) {
+            const count = await prisma.savedSearch.count({ where: { userId } });
+            if (count >= MAX_SAVED_SEARCHES) {
+                return { status: 'error', error: `You can save up to ${MAX_SAVED_SEARCHES} searches` }
+            }
+        }
+
+        const search = await prisma.savedSearch.upsert({
+            where: { userId_name: { userId, name } },
+            create: { userId, name, params },
+            // Changed filters start alerting from now, not from the old baseline
+            update: { params, lastCheckedAt: new Date() }
+        });
+
+        return { status: 'success', data: toDto(search) }
+    } catch (error) {
+        console.log(error);
+        return { status: 'error', error: 'Something went wrong' }
+    }
+}
+
+export async function deleteSavedSearch(id: string): Promise<ActionResult<string>> {
+    try {
+        const userId = await getAuthUserId();
+
+        const { count } = await prisma.savedSearch.deleteMany({ where: { id, userId } });
+        if (count === 0) return { status: 'error', error: 'Saved search not found' }
+
+        return { status: 'success', data: id }
+    } catch (error) {
+        console.log(error);
+        return { status: 'error', error: 'Something went wrong' }
+    }
+}
+
+export async function setSavedSearchAlerts(id: string, enabled: boolean): Promise<ActionResult<boolean>> {
+    try {
+        const userId = await getAuthUserId();
+
+        const { count } = await prisma.savedSearch.updateMany({
+            where: { id, userId },
+            // Re-enabling shouldn't alert for everyone who joined while it was off
+            data: enabled ? { alertsEnabled: true, lastCheckedAt: new Date() } : { alertsEnabled: false }
+        });
+        if (count === 0) return { status: 'error', error: 'Saved search not found' }
+
+        return { status: 'success', data: enabled }
+    } catch (error) {
+        console.log(error);
+        return { status: 'error', error: 'Something went wrong' }
+    }
+}
@@ -2,64 +2,48 @@
 
 import { prisma } from '@/lib/prisma';
 import { getAuthUserId } from './authActions';
+import { getOutboxService } from '@/services/outboxService';
+import { getMatchLifecycleService, MatchLifecycleError } from '@/services/matchLifecycleService';
+import { getSanctionService, SanctionError } from '@/services/sanctionService';
+import { ACTIVE_MATCH_STATES } from '@/lib/matches/lifecycle';
 import { Transaction } from '@mysten/sui/transactions';
 import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
-import type { GetMemberParams } from '@/types';
+import { normalizeSuiAddress, normalizeSuiObjectId, toB64 } from '@mysten/sui/utils';
+import { SwipeDirection, SwipeSource } from '@prisma/client';
+import {
+  getDiscoveryDeck,
+  parseDiscoveryPreferences,
+  type DiscoveryDeck,
+} from '@/lib/discovery';
+import {
+  getDiscoverySessionCreatedEvent,
+  getDiscoverySessionInfo,
+  getSwipeRecordedEvent,
+} from '@/lib/blockchain/discoveryQueries';
+import type { ActionResult, GetMemberParams } from '@/types';
 
 const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID!;
 const DISCOVERY_MODULE = `${PACKAGE_ID}::discovery`;
 
 /**
- * Get randomized members for swipe mode (optimized)
- * Uses Sui on-chain randomness to shuffle members
+ * Get one page of the ranked discovery deck for swipe mode.
+ * Pass the returned `nextCursor` to fetch the following page.
  */
-export async function getRandomizedMembers() {
+export async function getRandomizedMembers(
+  cursor?: string | null,
+  params: Pick<GetMemberParams, 'ageRange' | 'gender'> = {}
+): Promise<DiscoveryDeck> {
   try {
     const userId = await getAuthUserId();
 
-    // Optimize: Only fetch necessary fields and limit to 20 members
-    const members = await prisma.member.findMany({
-      where: {
-        userId: {
-          not: userId,
-        },
-      },
-      select: {
-        id: true,
-        userId: true,
-        name: true,
-        image: true,
-        gender: true,
-        dateOfBirth: true,
-        city: true,
-        country: true,
-        description: true,
-        created: true,
-        updated: true,
-        user: {
-          select: {
-            profileObjectId: true,
-            walletAddress: true,
-          },
-        },
-      },
-      take: 20, // Reduced from 50 to 20 for better performance
-      orderBy: {
-        updated: 'desc', // Get recently active members first
-      },
+    return await getDiscoveryDeck({
+      userId,
+      cursor,
+      preferences: parseDiscoveryPreferences(params),
     });
-
-    // Shuffle using client-side randomness as fallback
-    // The real randomness happens on-chain when recording swipes
-    const shuffled = members.sort(() => Math.random() - 0.5);
-
-    return {
-      items: shuffled,
-      totalCount: shuffled.length,
-    };
   } catch (error) {
     console.error('Error getting randomized members:', error);
-    return { items: [], totalCount: 0 };
+    return { items: [], totalCount: 0, seed: '', nextCursor: null };
   }
 }
 
@@ -74,9 +58,44 @@ export async function recordSwipe(
   try {
     const userId = await getAuthUserId();
 
-    if (direction === 'right') {
+    if (targetUserId === userId) {
+      return { status: 'error', message: 'You can\'t swipe on yourself' };
+    }
+
+    // A right swipe is a like; passing is always allowed
+    if (direction === 'right') await getSanctionService().assertAllowed(userId, 'like');
+
+    const swipeDirection = direction === 'right' ? SwipeDirection.RIGHT : SwipeDirection.LEFT;
+
+    // The swipe, the like and the match step commit together, so a refused
+    // like leaves no swipe behind
+    return await getOutboxService().transaction(async (tx, emit) => {
+      await tx.swipe.upsert({
+        where: {
+          sourceUserId_targetUserId: {
+            sourceUserId: userId,
+            targetUserId,
+          },
+        },
+        create: {
+          sourceUserId: userId,
+          targetUserId,
+          direction: swipeDirection,
+          source: SwipeSource.OFF_CHAIN,
+        },
+        update: {
+          direction: swipeDirection,
+          swipedAt: new Date(),
+        },
+      });
+
+      // Left swipe = Pass, persisted as the Swipe alone
+      if (direction === 'left') {
+        return { status: 'success', message: 'Passed' };
+      }
+
       // Right swipe = Like
-      const existingLike = await prisma.like.findUnique({
+      const existingLike = await tx.like.findUnique({
         where: {
           sourceUserId_targetUserId: {
             sourceUserId: userId,
@@ -89,84 +108,125 @@ export async function recordSwipe(
         return { status: 'success', message: 'Already liked' };
       }
 
-      // Create like
-      const like = await prisma.like.create({
+      // Create the like, and the match if it completes a pair
+      const like = await tx.like.create({
         data: {
           sourceUserId: userId,
           targetUserId,
         },
-      });
-
-      // Check for mutual match
-      const mutualLike = await prisma.like.findUnique({
-        where: {
-          sourceUserId_targetUserId: {
-            sourceUserId: targetUserId,
-            targetUserId: userId,
-          },
+        select: {
+          sourceMember: { select: { name: true, image: true, userId: true } },
         },
       });
+      await emit('like.created', { sourceUserId: userId, targetUserId, source: like.sourceMember });
 
-      const isMatch = !!mutualLike;
-
-      if (isMatch) {
-        // Import MatchEventHandler dynamically to avoid circular deps
-        const { MatchEventHandler } = await import('@/services/matchEventHandler');
-        const handler = new MatchEventHandler();
-        await handler.handleMatchCreated(userId, targetUserId, `match_${userId}_${targetUserId}`);
-      }
+      const match = await getMatchLifecycleService().likeAdded(tx, emit, userId, targetUserId);
+      const isMatch = ACTIVE_MATCH_STATES.includes(match.state);
 
       return {
         status: 'success',
         message: isMatch ? 'It\'s a match!' : 'Like recorded',
         isMatch,
       };
-    } else {
-      // Left swipe = Pass (no action needed in DB for now)
-      return { status: 'success', message: 'Passed' };
-    }
+    });
   } catch (error) {
+    if (error instanceof SanctionError || error instanceof MatchLifecycleError) {
+      return { status: 'error', message: error.message };
+    }
     console.error('Error recording swipe:', error);
     return { status: 'error', message: 'Failed to record swipe' };
   }
 }
 
 /**
- * Record swipe on blockchain with on-chain randomness
- * This uses Sui's Random object for verifiable randomness
+ * Set how many days passed members stay hidden from the discovery deck.
+ * `null` keeps passes hidden permanently.
+ */
+export async function updatePassResurfaceDays(
+  days: number | null
+): Promise<ActionResult<number | null>> {
+  try {
+    const userId = await getAuthUserId();
+
+    if (days !== null && (!Number.isInteger(days) || days < 1 || days > 365)) {
+      return { status: 'error', error: 'Days must be a whole number between 1 and 365' };
+    }
+
+    const member = await prisma.member.update({
+      where: { userId },
+      data: { passResurfaceDays: days },
+      select: { passResurfaceDays: true },
+    });
+
+    return { status: 'success', data: member.passResurfaceDays };
+  } catch (error) {
+    console.error('Error updating pass resurface policy:', error);
+    return { status: 'error', error: 'Failed to update discovery settings' };
+  }
+}
+
+export type TransactionKindResult =
+  | { status: 'success'; transactionKindBytes: string }
+  | { status: 'error'; error: string };
+
+function getSuiClient() {
+  const network = (process.env.NEXT_PUBLIC_SUI_NETWORK || 'testnet') as
+    | 'testnet'
+    | 'mainnet';
+  return new SuiClient({ url: getFullnodeUrl(network) });
+}
+
+async function getWalletAddress(userId: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { walletAddress: true },
+  });
+  return user?.walletAddress ? normalizeSuiAddress(user.walletAddress) : null;
+}
+
+/**
+ * Serialize only the transaction kind so the client can execute it
+ * through Enoki sponsorship or its own wallet
+ */
+async function buildTransactionKind(tx: Transaction, client: SuiClient): Promise<string> {
+  const bytes = await tx.build({ client, onlyTransactionKind: true });
+  return toB64(bytes);
+}
+
+async function getActiveSession(userId: string, sessionId: string) {
+  return prisma.discoverySession.findFirst({
+    where: { objectId: sessionId, userId, active: true },
+  });
+}
+
+/**
+ * Build a record_swipe transaction for the client to sign.
+ * Call `confirmSwipeOnChain` with the digest once it has executed.
  */
 export async function recordSwipeOnChain(
   targetUserAddress: string,
   direction: 'left' | 'right',
-  sessionId?: string
-): Promise<{
-  status: 'success' | 'error';
-  digest?: string;
-  randomSeed?: string;
-  error?: string;
-}> {
+  sessionId: string
+): Promise<TransactionKindResult> {
   try {
     const userId = await getAuthUserId();
-    const user = (await prisma.user.findUnique({
-      where: { id: userId },
-    })) as any;
 
-    if (!user?.walletAddress) {
+    if (!(await getWalletAddress(userId))) {
       return { status: 'error', error: 'User wallet not connected' };
     }
 
-    const network = (process.env.NEXT_PUBLIC_SUI_NETWORK || 'testnet') as
-      | 'testnet'
-      | 'mainnet';
-    const suiClient = new SuiClient({ url: getFullnodeUrl(network) });
+    if (!(await getActiveSession(userId, sessionId))) {
+      return { status: 'error', error: 'Discovery session not found' };
+    }
 
+    const suiClient = getSuiClient();
     const tx = new Transaction();
 
     // Call record_swipe with Random object
     tx.moveCall({
       target: `${DISCOVERY_MODULE}::record_swipe`,
       arguments: [
-        tx.object(sessionId || '0x0'), // Discovery session (if exists)
+        tx.object(sessionId),
         tx.pure.address(targetUserAddress),
         tx.pure.u8(direction === 'right' ? 1 : 0), // 1 for right, 0 for left
         tx.object('0x8'), // Random object at reserved address 0x8
@@ -174,68 +234,306 @@ export async function recordSwipeOnChain(
       ],
     });
 
-    // Note: This returns the transaction for client to sign
-    // In practice, you'd return this to the client to execute
     return {
       status: 'success',
-      digest: 'pending_client_signature',
+      transactionKindBytes: await buildTransactionKind(tx, suiClient),
     };
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error recording swipe on-chain:', error);
     return {
       status: 'error',
-      error: error.message || 'Failed to record on-chain swipe',
+      error: error instanceof Error ? error.message : 'Failed to record on-chain swipe',
     };
   }
 }
 
 /**
- * Create discovery session with randomized queue using Sui randomness
+ * Store the SwipeRecorded event of an executed record_swipe transaction
+ */
+export async function confirmSwipeOnChain(
+  digest: string,
+  sessionId: string
+): Promise<
+  | { status: 'success'; swipeObjectId: string; randomSeed: string }
+  | { status: 'error'; error: string }
+> {
+  try {
+    const userId = await getAuthUserId();
+    const walletAddress = await getWalletAddress(userId);
+
+    const session = await getActiveSession(userId, sessionId);
+    if (!walletAddress || !session) {
+      return { status: 'error', error: 'Discovery session not found' };
+    }
+
+    const event = await getSwipeRecordedEvent(getSuiClient(), digest);
+
+    if (!event || normalizeSuiAddress(event.swiper) !== walletAddress) {
+      return { status: 'error', error: 'Swipe event not found in transaction' };
+    }
+
+    if (!event.sessionId || normalizeSuiObjectId(event.sessionId) !== normalizeSuiObjectId(sessionId)) {
+      return { status: 'error', error: 'Swipe was recorded in another discovery session' };
+    }
+
+    const targetAddress = normalizeSuiAddress(event.target);
+    const targetUser = await prisma.user.findFirst({
+      where: { OR: [{ id: targetAddress }, { walletAddress: targetAddress }] },
+      select: { id: true },
+    });
+
+    if (!targetUser) {
+      return { status: 'error', error: 'Target user not found' };
+    }
+
+    const direction = event.direction === 1 ? SwipeDirection.RIGHT : SwipeDirection.LEFT;
+    const onChainFields = {
+      direction,
+      source: SwipeSource.ON_CHAIN,
+      swipedAt: new Date(Number(event.timestamp)),
+      swipeObjectId: event.swipeId,
+      sessionObjectId: sessionId,
+      digest,
+      randomSeed: event.randomSeed,
+    };
+
+    await prisma.$transaction(async (tx) => {
+      // A retried or doubled confirmation must not advance the queue twice
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`discovery-session:${session.id}`}))`;
+      const confirmed = await tx.swipe.findFirst({
+        where: { sourceUserId: userId, OR: [{ digest }, { swipeObjectId: event.swipeId }] },
+        select: { id: true },
+      });
+      if (confirmed) return;
+
+      await tx.swipe.upsert({
+        where: {
+          sourceUserId_targetUserId: {
+            sourceUserId: userId,
+            targetUserId: targetUser.id,
+          },
+        },
+        create: {
+          sourceUserId: userId,
+          targetUserId: targetUser.id,
+          ...onChainFields,
+        },
+        update: onChainFields,
+      });
+      await tx.discoverySession.update({
+        where: { id: session.id },
+        data: { queueIndex: { increment: 1 } },
+      });
+    });
+
+    return {
+      status: 'success',
+      swipeObjectId: event.swipeId,
+      randomSeed: event.randomSeed,
+    };
+  } catch (error) {
+    console.error('Error confirming on-chain swipe:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Failed to confirm on-chain swipe',
+    };
+  }
+}
+
+/**
+ * Build a create_discovery_session transaction for the client to sign.
+ * The on-chain queue is shuffled with Sui randomness; call
+ * `confirmDiscoverySession` with the digest once it has executed.
  */
 export async function createDiscoverySession(
   availableUserAddresses: string[]
-): Promise<{
-  status: 'success' | 'error';
-  sessionId?: string;
-  error?: string;
-}> {
+): Promise<TransactionKindResult> {
   try {
     const userId = await getAuthUserId();
-    const user = (await prisma.user.findUnique({
-      where: { id: userId },
-    })) as any;
+    const walletAddress = await getWalletAddress(userId);
 
-    if (!user?.walletAddress) {
+    if (!walletAddress) {
       return { status: 'error', error: 'User wallet not connected' };
     }
 
-    const network = (process.env.NEXT_PUBLIC_SUI_NETWORK || 'testnet') as
-      | 'testnet'
-      | 'mainnet';
-    const suiClient = new SuiClient({ url: getFullnodeUrl(network) });
+    const addresses = Array.from(
+      new Set(availableUserAddresses.map((address) => normalizeSuiAddress(address)))
+    ).filter((address) => address !== walletAddress);
+
+    if (addresses.length === 0) {
+      return { status: 'error', error: 'No profiles available for discovery' };
+    }
 
+    const suiClient = getSuiClient();
     const tx = new Transaction();
 
     // Create discovery session with random shuffling
     tx.moveCall({
       target: `${DISCOVERY_MODULE}::create_discovery_session`,
       arguments: [
-        tx.pure.vector('address', availableUserAddresses),
+        tx.pure.vector('address', addresses),
         tx.object('0x8'), // Random object
         tx.object('0x6'), // Clock object
       ],
     });
 
-    // Return transaction for client signing
     return {
       status: 'success',
-      sessionId: 'pending_client_signature',
+      transactionKindBytes: await buildTransactionKind(tx, suiClient),
     };
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error creating discovery session:', error);
     return {
       status: 'error',
-      error: error.message || 'Failed to create discovery session',
+      error: error instanceof Error ? error.message : 'Failed to create discovery session',
+    };
+  }
+}
+
+/**
+ * Store the DiscoverySession created by an executed create_discovery_session
+ * transaction and return its shuffled queue
+ */
+export async function confirmDiscoverySession(
+  digest: string
+): Promise<
+  | { status: 'success'; sessionId: string; queue: string[] }
+  | { status: 'error'; error: string }
+> {
+  try {
+    const userId = await getAuthUserId();
+    const walletAddress = await getWalletAddress(userId);
+
+    if (!walletAddress) {
+      return { status: 'error', error: 'User wallet not connected' };
+    }
+
+    const suiClient = getSuiClient();
+    const event = await getDiscoverySessionCreatedEvent(suiClient, digest);
+
+    if (!event || normalizeSuiAddress(event.user) !== walletAddress) {
+      return { status: 'error', error: 'Discovery session not found in transaction' };
+    }
+
+    // Only the newest session drives the deck
+    await prisma.$transaction([
+      prisma.discoverySession.updateMany({
+        where: { userId, active: true, objectId: { not: event.sessionId } },
+        data: { active: false },
+      }),
+      prisma.discoverySession.upsert({
+        where: { objectId: event.sessionId },
+        create: {
+          objectId: event.sessionId,
+          userId,
+          digest,
+          sessionSeed: event.sessionSeed,
+          queueSize: event.queueSize,
+        },
+        update: {},
+      }),
+    ]);
+
+    const session = await getDiscoverySessionInfo(suiClient, event.sessionId);
+
+    return {
+      status: 'success',
+      sessionId: event.sessionId,
+      queue: session?.currentQueue.slice(session.queueIndex) ?? [],
+    };
+  } catch (error) {
+    console.error('Error confirming discovery session:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Failed to confirm discovery session',
+    };
+  }
+}
+
+/**
+ * Build a refresh_discovery_queue transaction that replaces the session's
+ * queue with a freshly shuffled set of profiles
+ */
+export async function refreshDiscoveryQueue(
+  sessionId: string,
+  newUserAddresses: string[]
+): Promise<TransactionKindResult> {
+  try {
+    const userId = await getAuthUserId();
+
+    if (!(await getActiveSession(userId, sessionId))) {
+      return { status: 'error', error: 'Discovery session not found' };
+    }
+
+    const suiClient = getSuiClient();
+    const tx = new Transaction();
+
+    tx.moveCall({
+      target: `${DISCOVERY_MODULE}::refresh_discovery_queue`,
+      arguments: [
+        tx.object(sessionId),
+        tx.pure.vector('address', Array.from(new Set(newUserAddresses.map((address) => normalizeSuiAddress(address))))),
+        tx.object('0x8'), // Random object
+        tx.object('0x6'), // Clock object
+      ],
+    });
+
+    return {
+      status: 'success',
+      transactionKindBytes: await buildTransactionKind(tx, suiClient),
+    };
+  } catch (error) {
+    console.error('Error refreshing discovery queue:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Failed to refresh discovery queue',
+    };
+  }
+}
+
+/**
+ * Read the remaining on-chain queue of a discovery session, which is the
+ * source of truth for deck order in blockchain mode
+ */
+export async function getDiscoverySessionQueue(
+  sessionId: string
+): Promise<
+  | { status: 'success'; queue: string[]; queueIndex: number }
+  | { status: 'error'; error: string }
+> {
+  try {
+    const userId = await getAuthUserId();
+    const session = await getActiveSession(userId, sessionId);
+
+    if (!session) {
+      return { status: 'error', error: 'Discovery session not found' };
+    }
+
+    const info = await getDiscoverySessionInfo(getSuiClient(), sessionId);
+
+    if (!info) {
+      return { status: 'error', error: 'Discovery session not found on-chain' };
+    }
+
+    await prisma.discoverySession.update({
+      where: { id: session.id },
+      data: {
+        queueIndex: info.queueIndex,
+        queueSize: info.currentQueue.length,
+        sessionSeed: info.sessionSeed,
+      },
+    });
+
+    return {
+      status: 'success',
+      queue: info.currentQueue.slice(info.queueIndex),
+      queueIndex: info.queueIndex,
+    };
+  } catch (error) {
+    console.error('Error reading discovery session queue:', error);
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Failed to read discovery session',
     };
   }
 }
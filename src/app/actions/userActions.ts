@@ -2,10 +2,15 @@
 
 import { type MemberEditSchema, memberEditSchema } from '@/lib/schemas/MemberEditSchema';
 import type { ActionResult } from '@/types';
-import type { Member, Photo } from '@prisma/client';
+import type { Member, Photo, Prisma } from '@prisma/client';
 import { getAuthUserId } from './authActions';
 import { prisma } from '@/lib/prisma';
 import { cloudinary } from '@/lib/cloudinary';
+import { duplicateClassifier } from '@/lib/imageModeration';
+import { ContentModerationService, type PhotoReview } from '@/services/contentModerationService';
+import { getTextModerationService } from '@/services/textModerationService';
+import { promptRows, toMemberDetailsData } from '@/lib/profileDetails';
+import { publishEvent } from '@/lib/events';
 
 export async function updateMemberProfile(data: MemberEditSchema, nameUpdated: boolean): Promise<ActionResult<Member>> {
     try {
@@ -15,7 +20,13 @@ export async function updateMemberProfile(data: MemberEditSchema, nameUpdated: b
 
         if (!validated.success) return { status: 'error', error: validated.error.errors }
 
-        const { name, description, city, country } = validated.data;
+        const { name, description, city, country, prompts, ...details } = validated.data;
+
+        const textModeration = getTextModerationService();
+        const moderation = textModeration.moderateProfile(description, prompts);
+        if (moderation.action === 'block') {
+            return { status: 'error', error: [{ code: 'custom', path: moderation.path, message: moderation.notice! }] }
+        }
 
         if (nameUpdated) {
             await prisma.user.update({
@@ -30,9 +41,21 @@ export async function updateMemberProfile(data: MemberEditSchema, nameUpdated: b
                 name,
                 description,
                 city,
-                country
+                country,
+                ...toMemberDetailsData({ ...details, prompts }),
+                // Prompts are replaced as a set so reordering and removal just work
+                prompts: {
+                    deleteMany: {},
+                    create: promptRows(prompts)
+                }
             }
         })
+
+        // Profile reports use the user ID as the content ID
+        await textModeration.queueForReview(userId, 'profile', userId, moderation);
+
+        await publishEvent('member.updated', { userId });
+
         return { status: 'success', data: member }
     } catch (error) {
         console.log(error);
@@ -42,26 +65,52 @@ export async function updateMemberProfile(data: MemberEditSchema, nameUpdated: b
 }
 
 
-export async function addImage(url: string, publicId: string) {
+/**
+ * Saves a photo the member uploaded to Cloudinary. The image classifiers
+ * approve clearly safe photos straight away, remove clearly unsafe ones, and
+ * leave the rest for the photo moderation queue.
+ */
+export async function addImage(url: string, publicId: string): Promise<ActionResult<Photo>> {
     try {
         const userId = await getAuthUserId();
 
-        return prisma.member.update({
-            where: { userId },
-            data: {
-                photos: {
-                    create: [
-                        {
-                            url,
-                            publicId
-                        }
-                    ]
+        // Fetch by public ID rather than the client-supplied URL
+        const response = await fetch(cloudinary.v2.url(publicId, { secure: true }));
+        if (!response.ok) throw new Error(`Failed to fetch uploaded photo: ${response.status}`)
+        const data = Buffer.from(await response.arrayBuffer());
+
+        const moderation = await new ContentModerationService().moderatePhoto(data, userId);
+        if (!moderation.approved && !moderation.requiresManualReview) {
+            await cloudinary.v2.uploader.destroy(publicId);
+            return { status: 'error', error: 'This photo breaks our content rules' }
+        }
+
+        const review: PhotoReview | undefined = moderation.requiresManualReview
+            ? { reason: moderation.reason ?? 'Content requires manual review', flags: moderation.flags }
+            : undefined;
+
+        const member = await prisma.member.findUniqueOrThrow({ where: { userId }, select: { id: true } });
+        const photo = await prisma.$transaction(async (tx) => {
+            const photo = await tx.photo.create({
+                data: {
+                    url,
+                    publicId,
+                    memberId: member.id,
+                    isApproved: moderation.approved,
+                    moderationFlags: review as unknown as Prisma.InputJsonValue | undefined
                 }
-            }
-        })
+            })
+            await duplicateClassifier.record(userId, 'PHOTO', photo.id, data, tx);
+            return photo;
+        });
+
+        await publishEvent('photo.added', { userId, photoId: photo.id, approved: photo.isApproved });
+
+        return { status: 'success', data: photo }
     } catch (error) {
         console.log(error);
-        throw error;
+
+        return { status: 'error', error: 'Problem adding image' }
     }
 }
 
@@ -76,10 +125,13 @@ export async function setMainImage(photo: Photo) {
             data: { image: photo.url }
         })
 
-        return prisma.member.update({
+        const member = await prisma.member.update({
             where: { userId },
             data: { image: photo.url }
         })
+        await publishEvent('member.updated', { userId });
+
+        return member;
     } catch (error) {
         console.log(error);
         throw error;
@@ -90,18 +142,23 @@ export async function deleteImage(photo: Photo) {
     try {
         const userId = await getAuthUserId();
 
-        if (photo.publicId) {
-            await cloudinary.v2.uploader.destroy(photo.publicId);
-        }
+        // Trust only the ID from the client, and only for the member's own photos
+        const owned = await prisma.photo.findFirst({
+            where: { id: photo.id, member: { userId } }
+        })
+        if (!owned) throw new Error('Photo not found')
 
-        return prisma.member.update({
-            where: { userId },
-            data: {
-                photos: {
-                    delete: { id: photo.id }
-                }
-            }
+        await prisma.$transaction(async tx => {
+            await duplicateClassifier.forget('PHOTO', owned.id, tx);
+            await tx.photo.delete({ where: { id: owned.id } });
         })
+        // The file goes once nothing points at it any more
+        if (owned.publicId) {
+            await cloudinary.v2.uploader.destroy(owned.publicId);
+        }
+        await publishEvent('photo.deleted', { userId, photoId: owned.id });
+
+        return prisma.member.findUniqueOrThrow({ where: { userId } });
     } catch (error) {
         console.log(error);
         throw error;
@@ -134,4 +191,37 @@ export async function getUserInfoForNav() {
         console.log(error);
         throw error;
     }
-}
\ No newline at end of file
+}
+/**
+ * Saves the member's approximate location, used by the distance filter.
+ * Coordinates are rounded to ~1 km so the exact position isn't stored.
+ */
+export async function updateMemberLocation(
+    latitude: number,
+    longitude: number
+): Promise<ActionResult<{ latitude: number; longitude: number }>> {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!Number.isFinite(latitude) || Math.abs(latitude) > 90 ||
+            !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+            return { status: 'error', error: 'Invalid coordinates' }
+        }
+
+        const rounded = {
+            latitude: Math.round(latitude * 100) / 100,
+            longitude: Math.round(longitude * 100) / 100
+        }
+
+        await prisma.member.update({
+            where: { userId },
+            data: rounded
+        })
+        await publishEvent('member.updated', { userId });
+
+        return { status: 'success', data: rounded }
+    } catch (error) {
+        console.log(error);
+        return { status: 'error', error: 'Something went wrong' }
+    }
+}
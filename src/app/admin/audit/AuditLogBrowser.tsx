@@ -0,0 +1,173 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button, Input, Select, SelectItem } from "@nextui-org/react";
+import { toast } from "react-toastify";
+import type { AuditLog } from "@prisma/client";
+import { getAuditLogs } from "@/app/actions/auditActions";
+import type { AuditLogPage } from "@/services/auditLogService";
+import { formatShortDateTime } from "@/lib/util";
+
+type Props = {
+  params: Record<string, string | undefined>;
+  initialPage: AuditLogPage;
+  facets: { actions: string[]; targetTypes: string[] };
+};
+
+const FIELDS = ["actorId", "action", "targetType", "targetId", "from", "to"] as const;
+type Filters = Record<(typeof FIELDS)[number], string>;
+
+function toQuery(filters: Filters) {
+  const query = new URLSearchParams();
+  for (const field of FIELDS) {
+    if (filters[field]) query.set(field, filters[field]);
+  }
+  return query.toString();
+}
+
+/**
+ * Filterable view of the audit log. Filters live in the URL so a view can
+ * be shared and exported as-is.
+ */
+export default function AuditLogBrowser({ params, initialPage, facets }: Props) {
+  const router = useRouter();
+  const [filters, setFilters] = useState<Filters>(
+    () => Object.fromEntries(FIELDS.map((field) => [field, params[field] ?? ""])) as Filters
+  );
+  const [entries, setEntries] = useState<AuditLog[]>(initialPage.entries);
+  const [cursor, setCursor] = useState(initialPage.nextCursor);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const set = (field: keyof Filters) => (value: string) => setFilters((previous) => ({ ...previous, [field]: value }));
+
+  const apply = () => {
+    const query = toQuery(filters);
+    router.push(query ? `/admin/audit?${query}` : "/admin/audit");
+  };
+
+  const loadMore = async () => {
+    if (!cursor) return;
+    setLoading(true);
+    const result = await getAuditLogs(params, cursor);
+    setLoading(false);
+    if (result.status === "error") {
+      toast.error(result.error as string);
+      return;
+    }
+    setEntries((previous) => [...previous, ...result.data.entries]);
+    setCursor(result.data.nextCursor);
+  };
+
+  const appliedQuery = toQuery(Object.fromEntries(FIELDS.map((field) => [field, params[field] ?? ""])) as Filters);
+
+  return (
+    <div className="flex flex-col gap-4 mt-10">
+      <div className="flex items-center justify-between">
+        <h3 className="text-2xl">Audit log</h3>
+        <Button
+          as="a"
+          href={`/api/admin/audit-logs/export${appliedQuery ? `?${appliedQuery}` : ""}`}
+          size="sm"
+          variant="flat"
+        >
+          Export CSV
+        </Button>
+      </div>
+
+      <form
+        className="flex flex-wrap items-end gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          apply();
+        }}
+      >
+        <Input size="sm" className="w-48" label="Actor ID" value={filters.actorId} onValueChange={set("actorId")} />
+        <Select
+          size="sm"
+          className="w-56"
+          label="Action"
+          selectedKeys={filters.action ? [filters.action] : []}
+          onChange={(event) => set("action")(event.target.value)}
+        >
+          {facets.actions.map((action) => (
+            <SelectItem key={action}>{action}</SelectItem>
+          ))}
+        </Select>
+        <Select
+          size="sm"
+          className="w-48"
+          label="Target type"
+          selectedKeys={filters.targetType ? [filters.targetType] : []}
+          onChange={(event) => set("targetType")(event.target.value)}
+        >
+          {facets.targetTypes.map((targetType) => (
+            <SelectItem key={targetType}>{targetType}</SelectItem>
+          ))}
+        </Select>
+        <Input size="sm" className="w-48" label="Target ID" value={filters.targetId} onValueChange={set("targetId")} />
+        <Input size="sm" className="w-40" type="date" label="From" value={filters.from} onValueChange={set("from")} />
+        <Input size="sm" className="w-40" type="date" label="To" value={filters.to} onValueChange={set("to")} />
+        <Button size="sm" color="secondary" type="submit">Filter</Button>
+        <Button size="sm" variant="light" onPress={() => router.push("/admin/audit")}>Clear</Button>
+      </form>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-neutral-500 border-b">
+            <th className="py-2">When</th>
+            <th>Actor</th>
+            <th>Action</th>
+            <th>Target</th>
+            <th>IP</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.length === 0 && (
+            <tr>
+              <td colSpan={5} className="text-center p-8 text-neutral-500">No entries</td>
+            </tr>
+          )}
+          {entries.map((entry) => (
+            <Fragment key={entry.id}>
+              <tr
+                className="border-b cursor-pointer hover:bg-neutral-50"
+                onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+              >
+                <td className="py-2 whitespace-nowrap">{formatShortDateTime(new Date(entry.createdAt))}</td>
+                <td>{entry.actorId ? `${entry.actorId} (${entry.actorRole?.toLowerCase()})` : "system"}</td>
+                <td className="font-mono">{entry.action}</td>
+                <td>{entry.targetType}{entry.targetId && `: ${entry.targetId}`}</td>
+                <td>{entry.ip}</td>
+              </tr>
+              {expanded === entry.id && (
+                <tr className="border-b bg-neutral-50">
+                  <td colSpan={5} className="p-3">
+                    <div className="grid grid-cols-2 gap-3 text-xs">
+                      <div>
+                        <div className="font-semibold">Before</div>
+                        <pre className="whitespace-pre-wrap">{JSON.stringify(entry.before, null, 2) ?? "-"}</pre>
+                      </div>
+                      <div>
+                        <div className="font-semibold">After</div>
+                        <pre className="whitespace-pre-wrap">{JSON.stringify(entry.after, null, 2) ?? "-"}</pre>
+                      </div>
+                    </div>
+                    <div className="text-xs text-neutral-500 mt-2">{entry.userAgent}</div>
+                  </td>
+                </tr>
+              )}
+            </Fragment>
+          ))}
+        </tbody>
+      </table>
+
+      {cursor && (
+        <Button size="sm" variant="flat" isLoading={loading} onPress={loadMore} className="self-center">
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+}
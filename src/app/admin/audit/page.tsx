@@ -0,0 +1,23 @@
+import { getAuditFacets, getAuditLogs } from "@/app/actions/auditActions";
+import AuditLogBrowser from "./AuditLogBrowser";
+
+export const dynamic = "force-dynamic";
+
+type Props = {
+  searchParams: Record<string, string | undefined>;
+};
+
+export default async function AuditLogPage({ searchParams }: Props) {
+  const [page, facets] = await Promise.all([getAuditLogs(searchParams), getAuditFacets()]);
+  if (page.status === "error") {
+    return <div className="text-center mt-10">{page.error as string}</div>;
+  }
+  return (
+    <AuditLogBrowser
+      key={JSON.stringify(searchParams)}
+      params={searchParams}
+      initialPage={page.data}
+      facets={facets.status === "success" ? facets.data : { actions: [], targetTypes: [] }}
+    />
+  );
+}
@@ -0,0 +1,387 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { Button, Checkbox, Chip, Image, Input, Select, SelectItem, Tab, Tabs } from "@nextui-org/react";
+import { toast } from "react-toastify";
+import clsx from "clsx";
+import type { ModerationItemKind, ReportSeverity } from "@prisma/client";
+import {
+  assignModerationItems,
+  decideModerationItems,
+  getModerationConsoleQueue,
+  getModerationUserHistory,
+  type ModerationAssignmentFilter,
+} from "@/app/actions/moderationConsoleActions";
+import type {
+  ModerationItemOutcome,
+  ModerationItemRef,
+  ModerationQueueItem,
+  ModerationUserHistory,
+  ModerationVerdict,
+  Moderator,
+} from "@/services/moderationConsoleService";
+import { SANCTION_LABELS } from "@/lib/sanctions";
+import { formatShortDateTime } from "@/lib/util";
+
+type Props = {
+  initialItems: ModerationQueueItem[];
+  moderators: Moderator[];
+};
+
+const KIND_TABS: { key: string; label: string; kinds: ModerationItemKind[] }[] = [
+  { key: "all", label: "All", kinds: [] },
+  { key: "PHOTO", label: "Photos", kinds: ["PHOTO"] },
+  { key: "AVATAR", label: "Avatars", kinds: ["AVATAR"] },
+  { key: "PROFILE", label: "Profiles", kinds: ["PROFILE"] },
+  { key: "MESSAGE", label: "Messages", kinds: ["MESSAGE"] },
+];
+
+const SEVERITY_COLORS: Record<ReportSeverity, "danger" | "warning" | "default"> = {
+  HIGH: "danger",
+  MEDIUM: "warning",
+  LOW: "default",
+};
+
+const SHORTCUTS = [
+  ["j / k", "Next / previous"],
+  ["x", "Select"],
+  ["a", "Approve"],
+  ["r", "Reject"],
+  ["m", "Assign to me"],
+  ["u", "Unassign"],
+  ["Esc", "Clear selection"],
+];
+
+const itemKey = (item: ModerationItemRef) => `${item.kind}:${item.id}`;
+
+function formatSla(dueAt: Date, now: number) {
+  const minutes = Math.round((new Date(dueAt).getTime() - now) / 60000);
+  const span = Math.abs(minutes) >= 60
+    ? `${Math.floor(Math.abs(minutes) / 60)}h ${Math.abs(minutes) % 60}m`
+    : `${Math.abs(minutes)}m`;
+  return minutes < 0 ? `${span} overdue` : `${span} left`;
+}
+
+function reportOutcomes(outcomes: ModerationItemOutcome[], verb: string) {
+  const failed = outcomes.filter((outcome) => !outcome.ok);
+  if (failed.length > 0) toast.error(`${failed.length} item(s) could not be ${verb}: ${failed[0].error}`);
+  const done = outcomes.length - failed.length;
+  if (done > 0) toast.success(`${done} item(s) ${verb}`);
+}
+
+/**
+ * One queue for pending photos and reported avatars, profiles and
+ * messages. Decisions apply to the selected items, or to the focused one
+ * when nothing is selected.
+ */
+export default function ModerationConsole({ initialItems, moderators }: Props) {
+  const { data: session } = useSession();
+  const [items, setItems] = useState(initialItems);
+  const [kindTab, setKindTab] = useState("all");
+  const [assignment, setAssignment] = useState<ModerationAssignmentFilter>("all");
+  const [focused, setFocused] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [history, setHistory] = useState<ModerationUserHistory | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const current = items[focused] as ModerationQueueItem | undefined;
+  const moderatorNames = useMemo(
+    () => new Map(moderators.map((moderator) => [moderator.id, moderator.name ?? moderator.email ?? moderator.id])),
+    [moderators]
+  );
+
+  const load = useCallback(async () => {
+    const kinds = KIND_TABS.find((tab) => tab.key === kindTab)?.kinds ?? [];
+    const result = await getModerationConsoleQueue(kinds, assignment);
+    if (result.status === "success") {
+      setItems(result.data);
+      setFocused(0);
+      setSelected(new Set());
+    } else {
+      toast.error(result.error as string);
+    }
+  }, [kindTab, assignment]);
+
+  const firstLoad = useRef(true);
+  useEffect(() => {
+    // The first page comes from the server
+    if (firstLoad.current) {
+      firstLoad.current = false;
+      return;
+    }
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const targetUserId = current?.targetUserId;
+  useEffect(() => {
+    if (!targetUserId) {
+      setHistory(null);
+      return;
+    }
+    let cancelled = false;
+    getModerationUserHistory(targetUserId).then((result) => {
+      if (!cancelled) setHistory(result.status === "success" ? result.data : null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [targetUserId]);
+
+  const targets = useCallback((): ModerationItemRef[] => {
+    const chosen = items.filter((item) => selected.has(itemKey(item)));
+    if (chosen.length > 0) return chosen.map(({ kind, id }) => ({ kind, id }));
+    return current ? [{ kind: current.kind, id: current.id }] : [];
+  }, [items, selected, current]);
+
+  const decide = useCallback(async (verdict: ModerationVerdict) => {
+    const refs = targets();
+    if (refs.length === 0 || busy) return;
+    setBusy(true);
+    const result = await decideModerationItems(refs, verdict, note || undefined);
+    setBusy(false);
+    if (result.status === "error") {
+      toast.error(result.error as string);
+      return;
+    }
+    reportOutcomes(result.data, verdict === "approve" ? "approved" : "rejected");
+    const done = new Set(result.data.filter((outcome) => outcome.ok).map(itemKey));
+    setItems((previous) => previous.filter((item) => !done.has(itemKey(item))));
+    setSelected(new Set());
+    setNote("");
+    setFocused((index) => Math.max(0, Math.min(index, items.length - done.size - 1)));
+  }, [targets, busy, note, items.length]);
+
+  const assign = useCallback(async (assigneeId: string | null) => {
+    const refs = targets();
+    if (refs.length === 0 || busy) return;
+    setBusy(true);
+    const result = await assignModerationItems(refs, assigneeId);
+    setBusy(false);
+    if (result.status === "error") {
+      toast.error(result.error as string);
+      return;
+    }
+    reportOutcomes(result.data, assigneeId ? "assigned" : "unassigned");
+    const done = new Set(result.data.filter((outcome) => outcome.ok).map(itemKey));
+    setItems((previous) => previous.map((item) => done.has(itemKey(item)) ? { ...item, assignedTo: assigneeId } : item));
+  }, [targets, busy]);
+
+  const toggle = useCallback((item: ModerationQueueItem) => {
+    setSelected((previous) => {
+      const next = new Set(previous);
+      const key = itemKey(item);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.closest("input, textarea, select, [role='listbox']") || event.metaKey || event.ctrlKey || event.altKey) return;
+
+      switch (event.key) {
+        case "j":
+        case "ArrowDown":
+          setFocused((index) => Math.min(index + 1, items.length - 1));
+          break;
+        case "k":
+        case "ArrowUp":
+          setFocused((index) => Math.max(index - 1, 0));
+          break;
+        case "x":
+          if (current) toggle(current);
+          break;
+        case "a":
+          decide("approve");
+          break;
+        case "r":
+          decide("reject");
+          break;
+        case "m":
+          if (session?.user?.id) assign(session.user.id);
+          break;
+        case "u":
+          assign(null);
+          break;
+        case "Escape":
+          setSelected(new Set());
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [items.length, current, toggle, decide, assign, session?.user?.id]);
+
+  useEffect(() => {
+    document.getElementById(`moderation-item-${focused}`)?.scrollIntoView({ block: "nearest" });
+  }, [focused]);
+
+  return (
+    <div className="flex flex-col gap-4 mt-10">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-2xl">Moderation queue</h3>
+        <div className="flex items-center gap-3">
+          <Tabs selectedKey={kindTab} onSelectionChange={(key) => setKindTab(String(key))} size="sm">
+            {KIND_TABS.map((tab) => (
+              <Tab key={tab.key} title={tab.label} />
+            ))}
+          </Tabs>
+          <Select
+            aria-label="Assignment"
+            size="sm"
+            className="w-40"
+            selectedKeys={[assignment]}
+            onChange={(event) => setAssignment((event.target.value || "all") as ModerationAssignmentFilter)}
+          >
+            <SelectItem key="all">Everyone&apos;s</SelectItem>
+            <SelectItem key="mine">Assigned to me</SelectItem>
+            <SelectItem key="unassigned">Unassigned</SelectItem>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-neutral-500">
+          {selected.size > 0 ? `${selected.size} selected` : "Acting on the focused item"}
+        </span>
+        <Input
+          aria-label="Decision note"
+          size="sm"
+          className="w-64"
+          placeholder="Note (optional)"
+          value={note}
+          onValueChange={setNote}
+        />
+        <Button size="sm" color="success" isDisabled={busy} onPress={() => decide("approve")}>Approve</Button>
+        <Button size="sm" color="danger" isDisabled={busy} onPress={() => decide("reject")}>Reject</Button>
+        <Select
+          aria-label="Assign to"
+          size="sm"
+          className="w-48"
+          placeholder="Assign to..."
+          selectedKeys={[]}
+          onChange={(event) => event.target.value && assign(event.target.value)}
+        >
+          {moderators.map((moderator) => (
+            <SelectItem key={moderator.id}>{moderatorNames.get(moderator.id)}</SelectItem>
+          ))}
+        </Select>
+        <Button size="sm" variant="flat" isDisabled={busy} onPress={() => assign(null)}>Unassign</Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="col-span-2 flex flex-col gap-2 max-h-[70vh] overflow-y-auto">
+          {items.length === 0 && <div className="text-center p-8 text-neutral-500">Nothing to review</div>}
+          {items.map((item, index) => {
+            const overdue = new Date(item.dueAt).getTime() < now;
+            return (
+              <div
+                key={itemKey(item)}
+                id={`moderation-item-${index}`}
+                onClick={() => setFocused(index)}
+                className={clsx("flex gap-3 p-3 rounded-xl border cursor-pointer", {
+                  "border-secondary bg-secondary-50": index === focused,
+                  "border-neutral-200": index !== focused,
+                })}
+              >
+                <Checkbox isSelected={selected.has(itemKey(item))} onValueChange={() => toggle(item)} aria-label="Select" />
+                {item.imageUrl && (
+                  <Image src={item.imageUrl} alt="Reported content" width={96} height={96} className="object-cover" />
+                )}
+                <div className="flex flex-col gap-1 flex-grow min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Chip size="sm" variant="flat">{item.kind.toLowerCase()}</Chip>
+                    <Chip size="sm" color={SEVERITY_COLORS[item.severity]}>{item.severity.toLowerCase()}</Chip>
+                    <span className="font-semibold truncate">{item.targetName ?? item.targetUserId}</span>
+                    {item.reportCount > 0 && <span className="text-xs text-neutral-500">{item.reportCount} report(s)</span>}
+                  </div>
+                  {item.text && <p className="text-sm whitespace-pre-wrap line-clamp-3">{item.text}</p>}
+                  <ul className="text-xs text-neutral-500 list-disc pl-4">
+                    {item.reasons.map((reason, i) => (
+                      <li key={i}>{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+                <div className="flex flex-col items-end gap-1 text-xs shrink-0">
+                  <span className={clsx("font-semibold", overdue ? "text-danger" : "text-neutral-600")}>
+                    {formatSla(item.dueAt, now)}
+                  </span>
+                  <span className="text-neutral-500">
+                    {item.assignedTo ? moderatorNames.get(item.assignedTo) ?? "Assigned" : "Unassigned"}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <aside className="flex flex-col gap-3 text-sm">
+          {history ? (
+            <div className="flex flex-col gap-3 p-3 rounded-xl border border-neutral-200">
+              <div>
+                <div className="font-semibold">{history.name ?? history.userId}</div>
+                {history.memberSince && (
+                  <div className="text-xs text-neutral-500">Member since {formatShortDateTime(new Date(history.memberSince))}</div>
+                )}
+                <div className="text-xs text-neutral-500">{history.reportsFiled} report(s) filed</div>
+              </div>
+              <section>
+                <div className="font-semibold">Sanctions</div>
+                {history.sanctions.length === 0 && <div className="text-neutral-500">None</div>}
+                {history.sanctions.map((sanction) => (
+                  <div key={sanction.id} className={clsx({ "line-through text-neutral-400": sanction.revokedAt })}>
+                    {SANCTION_LABELS[sanction.type]}: {sanction.reason}
+                  </div>
+                ))}
+              </section>
+              <section>
+                <div className="font-semibold">Cases</div>
+                {history.cases.length === 0 && <div className="text-neutral-500">None</div>}
+                {history.cases.map((moderationCase) => (
+                  <div key={moderationCase.id}>
+                    {moderationCase.contentType.toLowerCase()} · {moderationCase.status.toLowerCase()} ·{" "}
+                    {formatShortDateTime(new Date(moderationCase.createdAt))}
+                  </div>
+                ))}
+              </section>
+              <section>
+                <div className="font-semibold">Decisions</div>
+                {history.decisions.length === 0 && <div className="text-neutral-500">None</div>}
+                {history.decisions.map((decision) => (
+                  <div key={decision.id}>
+                    {decision.action.toLowerCase()} {decision.itemKind.toLowerCase()} by{" "}
+                    {moderatorNames.get(decision.moderatorId) ?? decision.moderatorId}
+                    {decision.note && <span className="text-neutral-500"> - {decision.note}</span>}
+                  </div>
+                ))}
+              </section>
+            </div>
+          ) : (
+            <div className="text-neutral-500">Select an item to see the member&apos;s history</div>
+          )}
+          <div className="p-3 rounded-xl border border-neutral-200 text-xs">
+            {SHORTCUTS.map(([key, label]) => (
+              <div key={key} className="flex justify-between">
+                <kbd className="font-mono">{key}</kbd>
+                <span>{label}</span>
+              </div>
+            ))}
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
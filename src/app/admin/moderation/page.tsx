@@ -1,22 +1,17 @@
-import { getUnapprovedPhotos } from "@/app/actions/adminActions";
-import { Divider } from "@nextui-org/react";
-import dynamicImport from "next/dynamic";
-
-const MemberPhotos = dynamicImport(() => import("@/components/MemberPhotos"), {
-  loading: () => <div className="text-center p-8">Loading photos...</div>
-});
+import { getModerationConsoleQueue, getModerators } from "@/app/actions/moderationConsoleActions";
+import ModerationConsole from "./ModerationConsole";
 
 export const dynamic = "force-dynamic";
 
-export default async function PhotoModerationPage() {
-  const photos = await getUnapprovedPhotos();
+export default async function ModerationPage() {
+  const [queue, moderators] = await Promise.all([getModerationConsoleQueue(), getModerators()]);
+  if (queue.status === "error") {
+    return <div className="text-center mt-10">{queue.error as string}</div>;
+  }
   return (
-    <div className="flex flex-col mt-10 gap-3">
-      <h3 className="text-2xl">
-        Photos awaiting moderation
-      </h3>
-      <Divider />
-      <MemberPhotos photos={photos} />
-    </div>
+    <ModerationConsole
+      initialItems={queue.data}
+      moderators={moderators.status === "success" ? moderators.data : []}
+    />
   );
 }
@@ -0,0 +1,19 @@
+import { auth } from '@/auth';
+import { redirect } from 'next/navigation';
+import { OutboxDashboard } from '@/components/admin/OutboxDashboard';
+
+export default async function AdminOutboxPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect('/auth/signin');
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <OutboxDashboard />
+      </div>
+    </div>
+  );
+}
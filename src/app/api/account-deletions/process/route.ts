@@ -0,0 +1,23 @@
+import { getAccountDeletionService } from "@/services/accountDeletionService";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Erases accounts whose deletion grace period has ended. Called by the
+ * Vercel cron, which sends `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await getAccountDeletionService().processDue();
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error("Error processing account deletions:", error);
+    return NextResponse.json({ error: "Failed to process account deletions" }, { status: 500 });
+  }
+}
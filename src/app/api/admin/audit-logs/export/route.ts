@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { recordAudit } from "@/lib/audit";
+import { getAuditLogService, parseAuditFilter } from "@/services/auditLogService";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Downloads the audit entries matching the query string filter as CSV.
+ * Admin only; the export itself is audited.
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (session?.user?.role !== "ADMIN") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const filter = parseAuditFilter(Object.fromEntries(request.nextUrl.searchParams));
+    const csv = await getAuditLogService().exportCsv(filter);
+    await recordAudit({ action: "audit_log.export", targetType: "audit_log", after: filter });
+
+    const date = new Date().toISOString().split("T")[0];
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="audit-log-${date}.csv"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    console.error("Error exporting audit log:", error);
+    return NextResponse.json({ error: "Failed to export audit log" }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { ExperimentError, getExperimentService } from '@/services/experimentService';
+
+/**
+ * Per-variant exposures and conversions with confidence intervals. Admin only.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: { experimentKey: string } }
+) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json(await getExperimentService().getResults(params.experimentKey));
+  } catch (error) {
+    if (error instanceof ExperimentError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Experiment results error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load experiment results' },
+      { status: 500 }
+    );
+  }
+}
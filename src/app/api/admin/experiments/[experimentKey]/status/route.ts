@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { recordAudit } from '@/lib/audit';
+import { ExperimentError, getExperimentService } from '@/services/experimentService';
+
+/**
+ * Starts or stops an experiment. Admin only.
+ * Body: { status: 'RUNNING' | 'STOPPED' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { experimentKey: string } }
+) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { experimentKey } = params;
+    const { status } = await request.json();
+
+    if (status !== 'RUNNING' && status !== 'STOPPED') {
+      return NextResponse.json(
+        { error: 'status must be RUNNING or STOPPED' },
+        { status: 400 }
+      );
+    }
+
+    const experimentService = getExperimentService();
+    const experiment = status === 'RUNNING'
+      ? await experimentService.start(experimentKey)
+      : await experimentService.stop(experimentKey);
+    await recordAudit({
+      action: status === 'RUNNING' ? 'experiment.start' : 'experiment.stop',
+      targetType: 'experiment',
+      targetId: experimentKey,
+      after: { status: experiment.status, startedAt: experiment.startedAt, endedAt: experiment.endedAt }
+    });
+
+    return NextResponse.json({ success: true, experiment });
+
+  } catch (error) {
+    if (error instanceof ExperimentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Experiment status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update experiment' },
+      { status: 500 }
+    );
+  }
+}
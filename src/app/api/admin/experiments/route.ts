@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { recordAudit } from '@/lib/audit';
+import { ExperimentError, getExperimentService } from '@/services/experimentService';
+
+/**
+ * Every experiment with its exposure count. Admin only.
+ */
+export async function GET() {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return NextResponse.json({ experiments: await getExperimentService().list() });
+}
+
+/**
+ * Creates a draft experiment. Admin only.
+ * Body: { key, flagKey, name, description?, variants: [{ key, weight }], metrics: ExperimentMetric[] }
+ */
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN' || !session.user.id) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { key, flagKey, name, description, variants, metrics } = await request.json();
+
+    if (!key || !flagKey || !Array.isArray(variants) || !Array.isArray(metrics)) {
+      return NextResponse.json(
+        { error: 'key, flagKey, variants and metrics are required' },
+        { status: 400 }
+      );
+    }
+
+    const experiment = await getExperimentService().create(
+      { key, flagKey, name, description, variants, metrics },
+      session.user.id
+    );
+    await recordAudit({ action: 'experiment.create', targetType: 'experiment', targetId: key, after: experiment });
+
+    return NextResponse.json({ success: true, experiment });
+
+  } catch (error) {
+    if (error instanceof ExperimentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Experiment create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create experiment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { recordAudit } from '@/lib/audit';
+import { FlagGuardError, getFlagGuardService } from '@/services/flagGuardService';
+
+type Params = { params: { flagKey: string } };
+
+async function requireAdmin() {
+  const session = await auth();
+  return session?.user?.role === 'ADMIN' && session.user.id ? session.user.id : null;
+}
+
+function errorResponse(error: unknown, message: string) {
+  if (error instanceof FlagGuardError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  console.error(`${message}:`, error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * The flag's guards with when they last tripped. Admin only.
+ */
+export async function GET(_request: NextRequest, { params }: Params) {
+  if (!(await requireAdmin())) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return NextResponse.json({ guards: await getFlagGuardService().list(params.flagKey) });
+}
+
+/**
+ * Adds a guard. Admin only.
+ * Body: { signal, check?, threshold, windowMinutes?, minEvents?, action? }
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  const adminId = await requireAdmin();
+  if (!adminId) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { signal, check, threshold, windowMinutes, minEvents, action } = await request.json();
+    if (!signal || typeof threshold !== 'number') {
+      return NextResponse.json({ error: 'signal and threshold are required' }, { status: 400 });
+    }
+
+    const guard = await getFlagGuardService().create(
+      params.flagKey,
+      { signal, check, threshold, windowMinutes, minEvents, action },
+      adminId
+    );
+    await recordAudit({ action: 'feature_flag_guard.create', targetType: 'feature_flag', targetId: params.flagKey, after: guard });
+
+    return NextResponse.json({ success: true, guard });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create guard');
+  }
+}
+
+/**
+ * Pauses or resumes a guard. Admin only.
+ * Body: { id: string, enabled: boolean }
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  if (!(await requireAdmin())) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { id, enabled } = await request.json();
+    if (!id || typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'id and enabled are required' }, { status: 400 });
+    }
+
+    const guard = await getFlagGuardService().setEnabled(params.flagKey, id, enabled);
+    await recordAudit({
+      action: 'feature_flag_guard.update',
+      targetType: 'feature_flag',
+      targetId: params.flagKey,
+      after: { guardId: id, enabled }
+    });
+
+    return NextResponse.json({ success: true, guard });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update guard');
+  }
+}
+
+/**
+ * Removes a guard. Admin only.
+ * Query: ?id=<guard id>
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  if (!(await requireAdmin())) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const guard = await getFlagGuardService().remove(params.flagKey, id);
+    await recordAudit({ action: 'feature_flag_guard.delete', targetType: 'feature_flag', targetId: params.flagKey, before: guard });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete guard');
+  }
+}
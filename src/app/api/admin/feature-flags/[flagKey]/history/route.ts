@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getFeatureFlagService } from '@/services/featureFlagService';
+
+/**
+ * Every saved version of a flag, newest first. Admin only.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: { flagKey: string } }
+) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return NextResponse.json({ versions: await getFeatureFlagService().getHistory(params.flagKey) });
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { recordAudit } from '@/lib/audit';
+import { FeatureFlagError, getFeatureFlagService } from '@/services/featureFlagService';
+
+/**
+ * Restores a flag to an earlier version. Admin only.
+ * Body: { version: number }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { flagKey: string } }
+) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { flagKey } = params;
+    const { version } = await request.json();
+
+    if (!Number.isInteger(version)) {
+      return NextResponse.json({ error: 'version is required' }, { status: 400 });
+    }
+
+    const featureFlagService = getFeatureFlagService();
+    const before = await featureFlagService.getFlag(flagKey);
+    const beforeRollout = await featureFlagService.getRolloutConfig(flagKey);
+    if (!before || !(await featureFlagService.rollback(flagKey, version, session.user.id))) {
+      return NextResponse.json({ error: 'Flag not found' }, { status: 404 });
+    }
+
+    const after = await featureFlagService.getFlag(flagKey);
+    await recordAudit({
+      action: 'feature_flag.rollback',
+      targetType: 'feature_flag',
+      targetId: flagKey,
+      before: { flag: before, rollout: beforeRollout },
+      after: { flag: after, rollout: await featureFlagService.getRolloutConfig(flagKey), restoredVersion: version }
+    });
+
+    return NextResponse.json({ success: true, flag: after });
+
+  } catch (error) {
+    if (error instanceof FeatureFlagError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Feature flag rollback error:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back feature flag' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { recordAudit } from '@/lib/audit';
+import { getFeatureFlagService } from '@/services/featureFlagService';
+
+const STRATEGIES = ['percentage', 'user_segments', 'conditional', 'hybrid'];
+
+/**
+ * Replaces a flag's rollout configuration. Admin only.
+ * Body: the RolloutConfig
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { flagKey: string } }
+) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { flagKey } = params;
+    const config = await request.json();
+
+    if (
+      !STRATEGIES.includes(config?.strategy) ||
+      typeof config.percentage !== 'number' ||
+      config.percentage < 0 ||
+      config.percentage > 100
+    ) {
+      return NextResponse.json(
+        { error: 'A valid strategy and a percentage between 0 and 100 are required' },
+        { status: 400 }
+      );
+    }
+
+    const featureFlagService = getFeatureFlagService();
+
+    const rollout = {
+      strategy: config.strategy,
+      percentage: config.percentage,
+      segments: Array.isArray(config.segments) ? config.segments : [],
+      conditions: Array.isArray(config.conditions) ? config.conditions : [],
+      enabledUsers: Array.isArray(config.enabledUsers) ? config.enabledUsers : [],
+      disabledUsers: Array.isArray(config.disabledUsers) ? config.disabledUsers : []
+    };
+    const before = await featureFlagService.getRolloutConfig(flagKey);
+    if (!(await featureFlagService.updateRollout(flagKey, rollout, session.user.id))) {
+      return NextResponse.json({ error: 'Flag not found' }, { status: 404 });
+    }
+    await recordAudit({
+      action: 'feature_flag.rollout',
+      targetType: 'feature_flag',
+      targetId: flagKey,
+      before,
+      after: rollout
+    });
+
+    return NextResponse.json({ success: true, rollout });
+
+  } catch (error) {
+    console.error('Feature flag rollout error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update rollout' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { recordAudit } from '@/lib/audit';
+import { getFeatureFlagService } from '@/services/featureFlagService';
+
+/**
+ * Every flag with usage statistics, for the feature flag dashboard. Admin only.
+ */
+export async function GET() {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const featureFlagService = getFeatureFlagService();
+  return NextResponse.json({
+    flags: await featureFlagService.getAllFlags(),
+    statistics: await featureFlagService.getStatistics()
+  });
+}
+
+/**
+ * Turns a flag on or off. Admin only.
+ * Body: { flagKey: string, enabled: boolean }
+ */
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { flagKey, enabled } = await request.json();
+
+    if (!flagKey || typeof enabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'flagKey and enabled are required' },
+        { status: 400 }
+      );
+    }
+
+    const featureFlagService = getFeatureFlagService();
+    const before = await featureFlagService.getFlag(flagKey);
+    if (!before || !(await featureFlagService.updateFlag(flagKey, { enabled }, session.user.id))) {
+      return NextResponse.json({ error: 'Flag not found' }, { status: 404 });
+    }
+
+    const after = await featureFlagService.getFlag(flagKey);
+    await recordAudit({ action: 'feature_flag.update', targetType: 'feature_flag', targetId: flagKey, before, after });
+
+    return NextResponse.json({ success: true, flag: after });
+
+  } catch (error) {
+    console.error('Feature flag update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update feature flag' },
+      { status: 500 }
+    );
+  }
+}
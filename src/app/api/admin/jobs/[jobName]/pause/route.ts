@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { recordAudit } from '@/lib/audit';
+import { getJobRunnerService, JobError } from '@/services/jobRunnerService';
+
+/**
+ * Pauses or resumes a job's schedule. Admin only.
+ * Body: { paused: boolean }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobName: string } }
+) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { paused } = await request.json();
+
+    if (typeof paused !== 'boolean') {
+      return NextResponse.json(
+        { error: 'paused must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getJobRunnerService().setPaused(params.jobName, paused);
+    await recordAudit({
+      action: paused ? 'job.pause' : 'job.resume',
+      targetType: 'job',
+      targetId: params.jobName,
+      after: { paused: job.paused, nextRunAt: job.nextRunAt }
+    });
+
+    return NextResponse.json({ success: true, job });
+
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Job pause error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getJobRunnerService, JobError } from '@/services/jobRunnerService';
+
+/**
+ * Run history of a job, newest first. Admin only.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { jobName: string } }
+) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const runs = await getJobRunnerService().history(params.jobName);
+    return NextResponse.json({ runs });
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Job history error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load job history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { recordAudit } from '@/lib/audit';
+import { getJobRunnerService, JobError } from '@/services/jobRunnerService';
+
+/**
+ * Runs a job now and waits for it to finish. Admin only.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { jobName: string } }
+) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN' || !session.user.id) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const run = await getJobRunnerService().trigger(params.jobName, session.user.id);
+    await recordAudit({
+      action: 'job.run',
+      targetType: 'job',
+      targetId: params.jobName,
+      after: { runId: run.id, status: run.status }
+    });
+
+    return NextResponse.json({ success: true, run });
+
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Job run error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run job' },
+      { status: 500 }
+    );
+  }
+}
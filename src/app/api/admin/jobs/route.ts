@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getJobRunnerService } from '@/services/jobRunnerService';
+
+/**
+ * Scheduled jobs with their state and last run. Admin only.
+ */
+export async function GET() {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const jobs = await getJobRunnerService().list();
+  return NextResponse.json({ jobs });
+}
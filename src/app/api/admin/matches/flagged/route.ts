@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getMatchLifecycleService } from '@/services/matchLifecycleService';
+
+/**
+ * Matches whose on-chain status disagrees with ours in a way reconciliation
+ * couldn't repair, oldest first. Admin only.
+ */
+export async function GET() {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const matches = await getMatchLifecycleService().listFlagged();
+  return NextResponse.json({ matches });
+}
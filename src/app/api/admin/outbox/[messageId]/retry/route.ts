@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { recordAudit } from '@/lib/audit';
+import { getOutboxService, OutboxError } from '@/services/outboxService';
+
+/**
+ * Retries an outbox message now with a fresh set of attempts. Admin only.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { messageId: string } }
+) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const outboxService = getOutboxService();
+    const queued = await outboxService.retry(params.messageId);
+    const result = await outboxService.dispatch([queued.id]);
+    await recordAudit({
+      action: 'outbox.retry',
+      targetType: 'outbox_message',
+      targetId: queued.id,
+      after: { eventType: queued.eventType, subscriber: queued.subscriber, result }
+    });
+
+    return NextResponse.json({ success: true, result });
+
+  } catch (error) {
+    if (error instanceof OutboxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Outbox retry error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry outbox message' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { recordAudit } from '@/lib/audit';
+import { getOutboxService, OutboxError } from '@/services/outboxService';
+
+/**
+ * Discards a dead-lettered outbox message. Admin only.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { messageId: string } }
+) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const message = await getOutboxService().discard(params.messageId);
+    await recordAudit({
+      action: 'outbox.discard',
+      targetType: 'outbox_message',
+      targetId: message.id,
+      before: message
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof OutboxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Outbox discard error:', error);
+    return NextResponse.json(
+      { error: 'Failed to discard outbox message' },
+      { status: 500 }
+    );
+  }
+}
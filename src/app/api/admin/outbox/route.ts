@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getOutboxService, type OutboxFilter } from '@/services/outboxService';
+
+const FILTERS: OutboxFilter[] = ['STUCK', 'PENDING', 'PROCESSING', 'DONE', 'DEAD'];
+
+/**
+ * Outbox messages and counts per status. Admin only.
+ * Query: ?status=STUCK (default) | PENDING | PROCESSING | DONE | DEAD
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (session?.user?.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const status = (request.nextUrl.searchParams.get('status') || 'STUCK') as OutboxFilter;
+  if (!FILTERS.includes(status)) {
+    return NextResponse.json({ error: `status must be one of ${FILTERS.join(', ')}` }, { status: 400 });
+  }
+
+  const outboxService = getOutboxService();
+  const [messages, counts] = await Promise.all([outboxService.list(status), outboxService.getCounts()]);
+  return NextResponse.json({ messages, counts });
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
+import { recordAudit } from '@/lib/audit';
+import { prisma } from '@/lib/prisma';
 import { getAvatarAnalyticsService } from '@/services/avatarAnalyticsService';
 
 const analyticsService = getAvatarAnalyticsService();
@@ -109,8 +111,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Only allow admin users to cleanup analytics (you may want to add role checking)
-    const result = await analyticsService.cleanupOldMetrics();
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const deleted = await analyticsService.cleanupOldMetrics(tx);
+      await recordAudit({
+        action: 'avatar_analytics.cleanup',
+        targetType: 'avatar_analytics',
+        after: deleted
+      }, undefined, tx);
+      return deleted;
+    });
     
     return NextResponse.json({
       success: true,
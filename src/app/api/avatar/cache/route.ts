@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
+import { recordAudit } from '@/lib/audit';
 import { AvatarService } from '@/services/avatarService';
 
 const avatarService = new AvatarService();
@@ -48,8 +49,12 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Only allow admin users to clear cache (you may want to add role checking)
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     await avatarService.clearCache();
+    await recordAudit({ action: 'avatar_cache.clear', targetType: 'avatar_cache' });
     
     return NextResponse.json({
       success: true,
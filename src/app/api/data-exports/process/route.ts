@@ -0,0 +1,23 @@
+import { getDataExportService } from "@/services/dataExportService";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Builds queued data exports and removes expired ones. Called by the Vercel
+ * cron, which sends `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await getDataExportService().run();
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error("Error processing data exports:", error);
+    return NextResponse.json({ error: "Failed to process data exports" }, { status: 500 });
+  }
+}
@@ -63,6 +63,7 @@ export async function POST(req: NextRequest): Promise<NextResponse<SponsorTransa
     const defaultAllowedTargets = [
       `${packageId}::core::create_profile`,
       `${packageId}::core::update_profile`,
+      `${packageId}::core::delete_profile`,
       `${packageId}::core::update_match_status`,
       `${packageId}::core::send_gift`,
       `${packageId}::discovery::create_discovery_session`,
@@ -72,6 +73,8 @@ export async function POST(req: NextRequest): Promise<NextResponse<SponsorTransa
       `${packageId}::chat::send_message_entry`,
       `${packageId}::seal_policies::create_match_allowlist_shared`,
       `${packageId}::seal_policies::seal_approve_match`,
+      `${packageId}::seal_policies::deactivate_chat_allowlist`,
+      `${packageId}::seal_policies::deactivate_avatar_allowlist`,
       `0x2::kiosk::set_owner_custom`,
       `0x2::coin::split`,
       `0x2::pay::split`,
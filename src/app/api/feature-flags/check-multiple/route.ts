@@ -1,17 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getFeatureFlagService } from '@/services/featureFlagService';
-import { prisma } from '@/lib/prisma';
+import { auth } from '@/auth';
+import { loadUserContext } from '@/services/featureFlagService';
+import { getExperimentService } from '@/services/experimentService';
 
-const featureFlagService = getFeatureFlagService();
+const experimentService = getExperimentService();
 
 export async function POST(request: NextRequest) {
   try {
+    // Evaluating logs experiment exposures, so only for the signed-in member
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body = await request.json();
-    const { flagKeys, userId } = body;
+    const { flagKeys } = body;
 
-    if (!flagKeys || !Array.isArray(flagKeys) || !userId) {
+    if (!flagKeys || !Array.isArray(flagKeys)) {
       return NextResponse.json(
-        { error: 'flagKeys (array) and userId are required' },
+        { error: 'flagKeys (array) is required' },
         { status: 400 }
       );
     }
@@ -23,59 +30,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get user context from database
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        id: true,
-        email: true,
-        role: true,
-        member: {
-          select: {
-            created: true
-          }
-        }
-      }
-    });
-
-    if (!user) {
+    const userContext = await loadUserContext(session.user.id);
+    if (!userContext) {
       return NextResponse.json(
         { error: 'User not found' },
         { status: 404 }
       );
     }
 
-    // Build user context
-    const userContext = {
-      userId: user.id,
-      email: user.email || undefined,
-      role: user.role,
-      subscription: 'standard', // TODO: Get from subscription system
-      registrationDate: user.member?.created || new Date(),
-      customAttributes: {
-        betaUser: false // TODO: Get from user preferences
-      }
-    };
-
-    // Check all feature flags in parallel
+    // Check all feature flags in parallel; members in a running experiment also get a variant
     const flagChecks = await Promise.allSettled(
-      flagKeys.map(async (flagKey: string) => {
-        const isEnabled = await featureFlagService.isEnabled(flagKey, userContext);
-        return { flagKey, isEnabled };
-      })
+      flagKeys.map((flagKey: string) => experimentService.evaluate(flagKey, userContext))
     );
 
     // Process results
     const flags: { [key: string]: boolean } = {};
+    const variants: { [key: string]: string | null } = {};
     const errors: { [key: string]: string } = {};
 
     flagChecks.forEach((result, index) => {
       const flagKey = flagKeys[index];
       
       if (result.status === 'fulfilled') {
-        flags[result.value.flagKey] = result.value.isEnabled;
+        flags[flagKey] = result.value.enabled;
+        variants[flagKey] = result.value.variant;
       } else {
         flags[flagKey] = false; // Default to false on error
+        variants[flagKey] = null;
         errors[flagKey] = result.reason?.message || 'Unknown error';
       }
     });
@@ -83,8 +64,9 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       flags,
+      variants,
       errors: Object.keys(errors).length > 0 ? errors : undefined,
-      userId,
+      userId: userContext.userId,
       timestamp: new Date().toISOString()
     });
 
@@ -98,4 +80,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
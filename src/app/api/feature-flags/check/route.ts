@@ -1,64 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getFeatureFlagService } from '@/services/featureFlagService';
-import { prisma } from '@/lib/prisma';
+import { auth } from '@/auth';
+import { loadUserContext } from '@/services/featureFlagService';
+import { getExperimentService } from '@/services/experimentService';
 
-const featureFlagService = getFeatureFlagService();
+const experimentService = getExperimentService();
 
-export async function POST(request: NextRequest) {
+/**
+ * Evaluates a flag for the signed-in member. Evaluating logs an experiment
+ * exposure, so the member always comes from the session, never the request.
+ */
+async function checkFlag(flagKey: string | null) {
   try {
-    const body = await request.json();
-    const { flagKey, userId } = body;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
 
-    if (!flagKey || !userId) {
+    if (!flagKey) {
       return NextResponse.json(
-        { error: 'flagKey and userId are required' },
+        { error: 'flagKey is required' },
         { status: 400 }
       );
     }
 
-    // Get user context from database
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        id: true,
-        email: true,
-        role: true,
-        member: {
-          select: {
-            created: true
-          }
-        }
-      }
-    });
-
-    if (!user) {
+    const userContext = await loadUserContext(session.user.id);
+    if (!userContext) {
       return NextResponse.json(
         { error: 'User not found' },
         { status: 404 }
       );
     }
 
-    // Build user context
-    const userContext = {
-      userId: user.id,
-      email: user.email || undefined,
-      role: user.role,
-      subscription: 'standard', // TODO: Get from subscription system
-      registrationDate: user.member?.created || new Date(),
-      customAttributes: {
-        // Add any custom attributes here
-        betaUser: false // TODO: Get from user preferences
-      }
-    };
-
-    // Check feature flag
-    const isEnabled = await featureFlagService.isEnabled(flagKey, userContext);
+    // Check feature flag; members in a running experiment also get a variant
+    const { enabled: isEnabled, experimentKey, variant } = await experimentService.evaluate(flagKey, userContext);
 
     return NextResponse.json({
       success: true,
       enabled: isEnabled,
+      experimentKey,
+      variant,
       flagKey,
-      userId,
+      userId: userContext.userId,
       timestamp: new Date().toISOString()
     });
 
@@ -74,72 +56,12 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const flagKey = searchParams.get('flagKey');
-    const userId = searchParams.get('userId');
-
-    if (!flagKey || !userId) {
-      return NextResponse.json(
-        { error: 'flagKey and userId are required' },
-        { status: 400 }
-      );
-    }
-
-    // Get user context from database
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        id: true,
-        email: true,
-        role: true,
-        member: {
-          select: {
-            created: true
-          }
-        }
-      }
-    });
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'User not found' },
-        { status: 404 }
-      );
-    }
-
-    // Build user context
-    const userContext = {
-      userId: user.id,
-      email: user.email || undefined,
-      role: user.role,
-      subscription: 'standard',
-      registrationDate: user.member?.created || new Date(),
-      customAttributes: {
-        betaUser: false
-      }
-    };
-
-    // Check feature flag
-    const isEnabled = await featureFlagService.isEnabled(flagKey, userContext);
-
-    return NextResponse.json({
-      success: true,
-      enabled: isEnabled,
-      flagKey,
-      userId,
-      timestamp: new Date().toISOString()
-    });
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  return checkFlag(body.flagKey ?? null);
+}
 
-  } catch (error) {
-    console.error('Feature flag check error:', error);
-    return NextResponse.json(
-      { 
-        error: 'Failed to check feature flag',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  return checkFlag(searchParams.get('flagKey'));
+}
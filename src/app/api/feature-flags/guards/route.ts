@@ -0,0 +1,27 @@
+import { runHealthChecks } from "@/lib/healthChecks";
+import { getFlagGuardService } from "@/services/flagGuardService";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Records a round of health checks and trips any feature flag guard whose
+ * signal has gone bad. Called every minute by the Vercel cron, which sends
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const guardService = getFlagGuardService();
+    await guardService.recordHealth(await runHealthChecks());
+    const trips = await guardService.evaluate();
+    return NextResponse.json({ trips });
+  } catch (error) {
+    console.error("Error evaluating feature flag guards:", error);
+    return NextResponse.json({ error: "Failed to evaluate feature flag guards" }, { status: 500 });
+  }
+}
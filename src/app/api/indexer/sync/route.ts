@@ -0,0 +1,62 @@
+import { auth } from "@/auth";
+import { recordAudit } from "@/lib/audit";
+import { getChainIndexerService } from "@/services/chainIndexerService";
+import { NextResponse } from "next/server";
+
+// Indexing can page through many events; never serve a cached response
+export const dynamic = "force-dynamic";
+
+/**
+ * Runs one indexer pass. Called by the Vercel cron, which sends
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await getChainIndexerService().sync();
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error running chain indexer:", error);
+    return NextResponse.json({ error: "Failed to run chain indexer" }, { status: 500 });
+  }
+}
+
+/**
+ * Replays a module from a checkpoint. Admin only.
+ * Body: { module: string, checkpoint?: { txDigest: string, eventSeq: string } | null }
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+  if (session?.user?.role !== "ADMIN") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const { module, checkpoint } = await request.json();
+
+    if (!module || typeof module !== "string") {
+      return NextResponse.json({ error: "module is required" }, { status: 400 });
+    }
+    if (checkpoint && (!checkpoint.txDigest || checkpoint.eventSeq === undefined)) {
+      return NextResponse.json(
+        { error: "checkpoint must include txDigest and eventSeq" },
+        { status: 400 }
+      );
+    }
+
+    const result = await getChainIndexerService().replayFrom(
+      module,
+      checkpoint ? { txDigest: checkpoint.txDigest, eventSeq: String(checkpoint.eventSeq) } : null
+    );
+    await recordAudit({ action: "indexer.replay", targetType: "indexer_module", targetId: module, before: { checkpoint }, after: result });
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error("Error replaying chain events:", error);
+    const message = error instanceof Error ? error.message : "Failed to replay chain events";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
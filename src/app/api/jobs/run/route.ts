@@ -0,0 +1,27 @@
+import { getJobRunnerService } from "@/services/jobRunnerService";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+// Job lock timeouts (JOB_LOCK_TIMEOUT_MS, JobDefinition.timeoutMs) stay within this
+export const maxDuration = 300;
+
+/**
+ * Runs the maintenance jobs that are due (see lib/jobs). Called every minute
+ * by the Vercel cron, which sends `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const runs = await getJobRunnerService().runDue();
+    return NextResponse.json({
+      runs: runs.map((run) => ({ job: run.jobName, status: run.status, durationMs: run.durationMs, error: run.error })),
+    });
+  } catch (error) {
+    console.error("Error running jobs:", error);
+    return NextResponse.json({ error: "Failed to run jobs" }, { status: 500 });
+  }
+}
@@ -34,6 +34,7 @@ export async function GET() {
     return NextResponse.json({
       member,
       hasOnChainProfile,
+      profileObjectId: user?.profileObjectId ?? null,
       walletAddress,
     });
   } catch (error) {
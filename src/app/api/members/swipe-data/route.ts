@@ -1,7 +1,8 @@
 import { auth } from "@/auth";
 import { getAvatarUrlsForMembers } from "@/app/actions/swipeActions";
 import { getUserProfileObjectId } from "@/app/actions/matchOnChainActions";
-import { prisma } from "@/lib/prisma";
+import { getDiscoveryDeck, parseDiscoveryPreferences } from "@/lib/discovery";
+import { parseMemberSearchFilters } from "@/lib/memberFilters";
 import { NextResponse } from "next/server";
 
 export async function GET(request: Request) {
@@ -14,86 +15,61 @@ export async function GET(request: Request) {
 
     const { searchParams } = new URL(request.url);
     const includeAvatars = searchParams.get('includeAvatars') === 'true';
+    const cursor = searchParams.get('cursor');
 
-    // Optimized: Direct query without extra includes
-    const members = await prisma.member.findMany({
-      where: {
-        userId: {
-          not: session.user.id,
+    // Ranked, seeded deck; already swiped, liked or blocked members are excluded
+    const deck = await getDiscoveryDeck({
+      userId: session.user.id,
+      cursor,
+      seed: searchParams.get('seed'),
+      preferences: parseDiscoveryPreferences({
+        ageRange: searchParams.get('ageRange') || undefined,
+        gender: searchParams.get('gender') || undefined,
+      }),
+      filters: parseMemberSearchFilters(
+        {
+          city: searchParams.get('city') || undefined,
+          country: searchParams.get('country') || undefined,
+          distance: searchParams.get('distance') || undefined,
+          interests: searchParams.get('interests') || undefined,
+          withPhoto: searchParams.get('withPhoto') || undefined,
+          onlineOnly: searchParams.get('onlineOnly') || undefined,
+          verifiedOnly: searchParams.get('verifiedOnly') || undefined,
         },
-      },
-      select: {
-        id: true,
-        userId: true,
-        name: true,
-        image: true,
-        gender: true,
-        dateOfBirth: true,
-        city: true,
-        country: true,
-        description: true,
-        created: true,
-        updated: true,
-      },
-      take: 20,
-      orderBy: {
-        updated: 'desc',
-      },
+        // Presence is client-side, so the client sends who is online
+        searchParams.get('onlineIds')?.split(',').filter(Boolean)
+      ),
     });
 
-    // Shuffle
-    const shuffled = members.sort(() => Math.random() - 0.5);
+    // Only the first page needs the viewer's own profile object
+    const myProfileObjectId = cursor ? null : await getUserProfileObjectId();
 
-    if (shuffled.length === 0) {
+    if (deck.items.length === 0) {
       return NextResponse.json({
         members: [],
-        totalCount: 0,
+        totalCount: deck.totalCount,
         avatarUrls: {},
         currentUserId: session.user.id,
-        myProfileObjectId: null,
+        myProfileObjectId,
+        seed: deck.seed,
+        nextCursor: null,
       });
     }
 
-    // Get user data for members in a separate optimized query
-    const userIds = shuffled.map(m => m.userId);
-    const users = await prisma.user.findMany({
-      where: {
-        id: {
-          in: userIds,
-        },
-      },
-      select: {
-        id: true,
-        profileObjectId: true,
-        walletAddress: true,
-      },
-    });
-
-    // Map user data to members
-    const usersMap = new Map(users.map(u => [u.id, u]));
-    const membersWithUser = shuffled.map(member => ({
-      ...member,
-      user: usersMap.get(member.userId) || {
-        profileObjectId: null,
-        walletAddress: null,
-      },
-    }));
-
-    // Get profile object ID (fast - from database)
-    const myProfileObjectId = await getUserProfileObjectId();
-
     // Conditionally fetch avatars (only when requested)
     let avatarUrls = {};
     if (includeAvatars) {
-      avatarUrls = await getAvatarUrlsForMembers(userIds);
+      avatarUrls = await getAvatarUrlsForMembers(deck.items.map(m => m.userId));
     }
 
     return NextResponse.json({
-      members: membersWithUser,
-      totalCount: membersWithUser.length,
+      members: deck.items,
+      totalCount: deck.totalCount,
       avatarUrls,
       currentUserId: session.user.id,
       myProfileObjectId,
+      seed: deck.seed,
+      nextCursor: deck.nextCursor,
     });
   } catch (error) {
     console.error("Error fetching swipe data:", error);
@@ -0,0 +1,23 @@
+import { getOutboxService } from "@/services/outboxService";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Delivers due outbox messages and retries failed ones. Called every minute
+ * by the Vercel cron, which sends `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await getOutboxService().processDue();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error processing outbox:", error);
+    return NextResponse.json({ error: "Failed to process outbox" }, { status: 500 });
+  }
+}
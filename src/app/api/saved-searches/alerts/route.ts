@@ -0,0 +1,23 @@
+import { getSavedSearchAlertService } from "@/services/savedSearchAlertService";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Re-runs saved searches and sends new-match alerts. Called by the Vercel
+ * cron, which sends `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await getSavedSearchAlertService().run();
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error("Error running saved search alerts:", error);
+    return NextResponse.json({ error: "Failed to run saved search alerts" }, { status: 500 });
+  }
+}
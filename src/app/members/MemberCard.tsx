@@ -3,7 +3,7 @@ import LikeButton from "@/components/LikeButton";
 import LikeButtonWithBlockchain from "@/components/LikeButtonWithBlockchain";
 import PresenceDot from "@/components/PresenceDot";
 
-import { calculateAge } from "@/lib/util";
+import { calculateAge, splitSnippet } from "@/lib/util";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import type { Member } from "@prisma/client";
@@ -23,9 +23,11 @@ type Props = {
   likeIds: string[];
   myProfileObjectId?: string | null;
   currentUserId?: string;
+  // Highlighted match from a keyword search, shown in place of the description preview
+  searchSnippet?: string | null;
 };
 
-export default function MemberCard({ member, likeIds, myProfileObjectId, currentUserId }: Props) {
+export default function MemberCard({ member, likeIds, myProfileObjectId, currentUserId, searchSnippet }: Props) {
   const hasLiked = likeIds.includes(member.userId);
   const [avatarUrl, setAvatarUrl] = useState<string | null>(member.image); // Start with fallback
 
@@ -175,12 +177,26 @@ export default function MemberCard({ member, likeIds, myProfileObjectId, current
                 </div>
               </div>
 
-              {/* Hover: Show Description Preview */}
-              <div className="mt-3 opacity-0 group-hover:opacity-100 transition-opacity duration-300 max-h-0 group-hover:max-h-20 overflow-hidden">
-                <p className="text-sm text-white/70 line-clamp-2">
-                  {member.description || "No description available"}
+              {searchSnippet ? (
+                <p className="mt-3 text-sm text-white/80 line-clamp-3">
+                  {splitSnippet(searchSnippet).map((part, index) =>
+                    part.highlighted ? (
+                      <mark key={index} className="bg-pink-500/80 text-white rounded px-0.5">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <React.Fragment key={index}>{part.text}</React.Fragment>
+                    )
+                  )}
                 </p>
-              </div>
+              ) : (
+                /* Hover: Show Description Preview */
+                <div className="mt-3 opacity-0 group-hover:opacity-100 transition-opacity duration-300 max-h-0 group-hover:max-h-20 overflow-hidden">
+                  <p className="text-sm text-white/70 line-clamp-2">
+                    {member.description || "No description available"}
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { Spinner } from "@nextui-org/react";
+import { getMembers, type MemberWithUser } from "../actions/memberActions";
+import { fetchCurrentUserLikeIds } from "../actions/likeActions";
+import { getAuthUserId } from "../actions/authActions";
+import { getUserProfileObjectId } from "../actions/matchOnChainActions";
+import usePresenceStore from "@/hooks/usePresenceStore";
+import EmptyState from "@/components/EmptyState";
+import PaginationComponent from "@/components/PaginationComponent";
+import type { GetMemberParams } from "@/types";
+import MemberCard from "./MemberCard";
+
+type SearchState = {
+  members: MemberWithUser[];
+  totalCount: number;
+  likeIds: string[];
+  currentUserId?: string;
+  myProfileObjectId?: string | null;
+};
+
+/**
+ * Keyword (`?q=`) results as a ranked grid, shown instead of the swipe deck
+ */
+export default function MemberSearchResults() {
+  const searchParams = useSearchParams();
+  const [data, setData] = useState<SearchState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchResults() {
+      try {
+        const params = Object.fromEntries(searchParams.entries()) as GetMemberParams;
+        const onlineIds = params.onlineOnly === "true" ? usePresenceStore.getState().membersId : undefined;
+
+        const [{ items, totalCount }, likeIds, currentUserId, myProfileObjectId] = await Promise.all([
+          getMembers(params, onlineIds),
+          fetchCurrentUserLikeIds(),
+          getAuthUserId(),
+          getUserProfileObjectId(),
+        ]);
+
+        if (!cancelled) {
+          setData({ members: items, totalCount, likeIds, currentUserId, myProfileObjectId });
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Search failed");
+      }
+    }
+
+    fetchResults();
+    return () => {
+      cancelled = true;
+    };
+  }, [searchParams]);
+
+  if (error) {
+    return (
+      <div className="p-6 text-center bg-red-50 rounded-lg border border-red-200">
+        <p className="text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex justify-center items-center p-12">
+        <Spinner size="lg" label="Searching members..." />
+      </div>
+    );
+  }
+
+  if (data.members.length === 0) {
+    return <EmptyState />;
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-8">
+        {data.members.map((member) => (
+          <MemberCard
+            key={member.id}
+            member={member}
+            likeIds={data.likeIds}
+            currentUserId={data.currentUserId}
+            myProfileObjectId={data.myProfileObjectId}
+            searchSnippet={member.searchSnippet}
+          />
+        ))}
+      </div>
+      <PaginationComponent totalCount={data.totalCount} />
+    </>
+  );
+}
@@ -1,21 +1,80 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
+import { useSearchParams } from "next/navigation";
 import SwipeContainerWithBlockchain from "@/components/SwipeContainerWithBlockchain";
+import type { SwipeDeckPage } from "@/components/SwipeContainer";
 import EmptyState from "@/components/EmptyState";
 import { recordSwipe } from "../actions/swipeActions";
 import { Spinner } from "@nextui-org/react";
+import usePresenceStore from "@/hooks/usePresenceStore";
+import usePaginationStore from "@/hooks/usePaginationStore";
+import MemberSearchResults from "./MemberSearchResults";
+
+const FORWARDED_PARAMS = [
+  'ageRange',
+  'gender',
+  'city',
+  'country',
+  'distance',
+  'interests',
+  'withPhoto',
+  'onlineOnly',
+  'verifiedOnly',
+  'seed',
+];
+
+function buildSwipeDataUrl(searchParams: URLSearchParams, onlineIds: string[], cursor?: string) {
+  const params = new URLSearchParams({ includeAvatars: 'true' });
+
+  // Forward filter preferences and an optional replay seed to the ranking engine
+  for (const key of FORWARDED_PARAMS) {
+    const value = searchParams.get(key);
+    if (value) params.set(key, value);
+  }
+  // Presence only exists client-side, so send who is online with the filter
+  if (searchParams.get('onlineOnly') === 'true') {
+    params.set('onlineIds', onlineIds.join(','));
+  }
+  if (cursor) params.set('cursor', cursor);
+
+  return `/api/members/swipe-data?${params}`;
+}
 
 export default function MembersClient() {
+  const searchParams = useSearchParams();
+
+  // A keyword search lists ranked results instead of the swipe deck
+  if (searchParams.get('q')) {
+    return (
+      <div className="container mx-auto py-8">
+        <div className="text-center space-y-2 mb-8">
+          <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-pink-600 to-purple-600 bg-clip-text text-transparent">
+            Search Results
+          </h1>
+        </div>
+        <MemberSearchResults />
+      </div>
+    );
+  }
+
+  return <DiscoveryDeck />;
+}
+
+function DiscoveryDeck() {
+  const searchParams = useSearchParams();
   const [data, setData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const setPagination = usePaginationStore(state => state.setPagination);
 
   useEffect(() => {
     async function fetchData() {
       try {
         // Fetch members WITH avatars (needed for display)
-        const response = await fetch('/api/members/swipe-data?includeAvatars=true');
+        const response = await fetch(
+          buildSwipeDataUrl(searchParams, usePresenceStore.getState().membersId)
+        );
 
         if (!response.ok) {
           throw new Error('Failed to fetch members');
@@ -23,6 +82,8 @@ export default function MembersClient() {
 
         const swipeData = await response.json();
         setData(swipeData);
+        // Shown as the result count in the filter bar
+        setPagination(swipeData.totalCount);
 
         // Then fetch avatars in background if needed
         // This keeps the initial page load fast
@@ -34,7 +95,27 @@ export default function MembersClient() {
     }
 
     fetchData();
-  }, []);
+  }, [searchParams, setPagination]);
+
+  const loadMore = useCallback(
+    async (cursor: string): Promise<SwipeDeckPage> => {
+      const response = await fetch(
+        buildSwipeDataUrl(searchParams, usePresenceStore.getState().membersId, cursor)
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch more members');
+      }
+
+      const page = await response.json();
+      return {
+        members: page.members,
+        avatarUrls: page.avatarUrls,
+        nextCursor: page.nextCursor,
+      };
+    },
+    [searchParams]
+  );
 
   if (loading) {
     return (
@@ -95,12 +176,15 @@ export default function MembersClient() {
 
       {/* Swipe Container with Blockchain Support (Default) */}
       <SwipeContainerWithBlockchain
+        key={data.seed}
         initialMembers={data.members}
         avatarUrls={data.avatarUrls}
         onSwipeAction={handleSwipeAction}
         currentUserId={data.currentUserId}
         myProfileObjectId={data.myProfileObjectId}
         enableBlockchainByDefault={true}
+        initialCursor={data.nextCursor}
+        loadMore={loadMore}
       />
     </div>
   );
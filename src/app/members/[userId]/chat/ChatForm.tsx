@@ -15,6 +15,7 @@ import {
 import React from "react";
 import { useForm } from "react-hook-form";
 import { HiPaperAirplane } from "react-icons/hi2";
+import { toast } from "react-toastify";
 
 export default function ChatForm() {
   const router = useRouter();
@@ -39,6 +40,7 @@ export default function ChatForm() {
     if (result.status === "error") {
       handleFormServerErrors(result, setError);
     } else {
+      if (result.data.notice) toast.warning(result.data.notice);
       reset();
       router.refresh();
     }
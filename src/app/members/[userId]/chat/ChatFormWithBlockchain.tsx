@@ -226,6 +226,7 @@ export default function ChatFormWithBlockchain({
       if (result.status === 'error') {
         handleFormServerErrors(result, setError)
       } else {
+        if (result.data.notice) toast.warning(result.data.notice)
         reset()
         router.refresh()
       }
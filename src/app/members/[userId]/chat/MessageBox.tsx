@@ -1,7 +1,7 @@
 "use client";
 
 import type { MessageDto } from "@/types";
-import React, { useRef } from "react";
+import React, { useRef, useState } from "react";
 import clsx from "clsx";
 import { Avatar } from "@nextui-org/react";
 import { useEffect } from "react";
@@ -19,6 +19,9 @@ export default function MessageBox({
 }: Props) {
   const isCurrentUserSender =
     message.senderId === currentUserId;
+  const [revealed, setRevealed] = useState(false);
+  const isBlurred =
+    message.blurred && !isCurrentUserSender && !revealed;
 
   const messageEndRef =
     useRef<HTMLDivElement>(null);
@@ -81,9 +84,23 @@ export default function MessageBox({
     return (
       <div className={messageContentClasses}>
         {renderMessageHeader()}
-        <p className="text-xs md:text-sm py-2 md:py-3 text-gray-900">
+        <p
+          className={clsx(
+            "text-xs md:text-sm py-2 md:py-3 text-gray-900",
+            { "blur-sm select-none": isBlurred }
+          )}
+        >
           {message.text}
         </p>
+        {isBlurred && (
+          <button
+            type="button"
+            onClick={() => setRevealed(true)}
+            className="text-[10px] md:text-xs text-gray-600 underline self-start pb-1"
+          >
+            This message may be offensive. Show it
+          </button>
+        )}
       </div>
     );
   };
@@ -3,9 +3,10 @@ import { getAuthUserId } from "@/app/actions/authActions";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { calculateAge } from "@/lib/util";
+import { getLookingForLabel } from "@/lib/profileOptions";
 import { notFound } from "next/navigation";
 import React from "react";
-import { MapPin, Calendar, Heart } from "lucide-react";
+import { MapPin, Calendar, Heart, Ruler, Languages, Sparkles } from "lucide-react";
 
 export default async function MemberDetailedPage({
   params,
@@ -19,6 +20,11 @@ export default async function MemberDetailedPage({
 
   const age = calculateAge(member.dateOfBirth);
   const isOwnProfile = currentUserId === params.userId;
+  const lookingFor = getLookingForLabel(member.lookingFor);
+  const tagGroups = [
+    { title: "Interests", tags: member.interests },
+    { title: "Lifestyle", tags: member.lifestyle },
+  ].filter((group) => group.tags.length > 0);
 
   return (
     <div className="space-y-8 px-2">
@@ -50,6 +56,27 @@ export default async function MemberDetailedPage({
             <span>{member.city}, {member.country}</span>
           </div>
 
+          {member.heightCm && (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Ruler className="h-4 w-4 flex-shrink-0" />
+              <span>{member.heightCm} cm</span>
+            </div>
+          )}
+
+          {member.languages.length > 0 && (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Languages className="h-4 w-4 flex-shrink-0" />
+              <span>{member.languages.join(", ")}</span>
+            </div>
+          )}
+
+          {lookingFor && (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Sparkles className="h-4 w-4 flex-shrink-0" />
+              <span>Looking for: {lookingFor}</span>
+            </div>
+          )}
+
           {!isOwnProfile && (
             <div className="flex items-center gap-2">
               <Badge variant="outline" className="gap-1.5">
@@ -71,6 +98,32 @@ export default async function MemberDetailedPage({
         </CardContent>
       </Card>
 
+      {/* Prompts */}
+      {member.prompts.map((prompt) => (
+        <Card key={prompt.id}>
+          <CardContent className="p-6">
+            <h2 className="text-sm font-medium text-muted-foreground mb-2">{prompt.question}</h2>
+            <p className="text-lg font-semibold leading-relaxed">{prompt.answer}</p>
+          </CardContent>
+        </Card>
+      ))}
+
+      {/* Interests and Lifestyle */}
+      {tagGroups.map((group) => (
+        <Card key={group.title}>
+          <CardContent className="p-6">
+            <h2 className="text-xl font-semibold mb-4">{group.title}</h2>
+            <div className="flex flex-wrap gap-2">
+              {group.tags.map((tag) => (
+                <Badge key={tag} variant="secondary" className="capitalize">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
       {/* Additional sections can be added here */}
       {isOwnProfile && (
         <Card>
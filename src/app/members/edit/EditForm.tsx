@@ -5,9 +5,8 @@ import {
   type MemberEditSchema,
 } from "@/lib/schemas/MemberEditSchema";
 import { zodResolver } from "@hookform/resolvers/zod";
-import type { Member } from "@prisma/client";
 import React, { useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { FormProvider, useForm } from "react-hook-form";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -20,21 +19,37 @@ import { handleFormServerErrors } from "@/lib/util";
 import { Loader2, AlertCircle } from "lucide-react";
 import OnChainProfileSection from "./OnChainProfileSection";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import ProfileDetailsFields from "@/components/ProfileDetailsFields";
+import { toProfileDetailsDefaults } from "@/lib/profileDetails";
+import type { MemberWithPrompts } from "@/app/actions/memberActions";
+import { isContractConfigured } from "@/configs/matchingMeContract";
+import ProfileSyncPanel from "./ProfileSyncPanel";
 
 type Props = {
-  member: Member;
+  member: MemberWithPrompts;
   hasOnChainProfile?: boolean;
+  profileObjectId?: string | null;
   walletAddress?: string;
+  // Reloads the member after it was changed outside this form
+  onReload?: () => void;
 };
 
 export default function EditForm({
   member,
   hasOnChainProfile = false,
+  profileObjectId,
   walletAddress,
+  onReload,
 }: Props) {
   const router = useRouter();
   const [mounted, setMounted] = React.useState(false);
-  
+  const [syncRefreshKey, setSyncRefreshKey] = React.useState(0);
+
+  const methods = useForm<MemberEditSchema>({
+    resolver: zodResolver(memberEditSchema),
+    mode: "onTouched",
+  });
+
   const {
     register,
     handleSubmit,
@@ -46,10 +61,7 @@ export default function EditForm({
       isSubmitting,
       errors,
     },
-  } = useForm<MemberEditSchema>({
-    resolver: zodResolver(memberEditSchema),
-    mode: "onTouched",
-  });
+  } = methods;
 
 
 
@@ -64,6 +76,7 @@ export default function EditForm({
         description: member.description,
         city: member.city,
         country: member.country,
+        ...toProfileDetailsDefaults(member, member.prompts),
       });
     }
   }, [member, reset]);
@@ -89,6 +102,7 @@ export default function EditForm({
 
     if (result.status === "success") {
       toast.success("Profile updated");
+      setSyncRefreshKey((key) => key + 1);
       router.refresh();
       reset({ ...data });
     } else {
@@ -115,9 +129,14 @@ export default function EditForm({
         />
       </ErrorBoundary>
 
+      {profileObjectId && isContractConfigured() && (
+        <ProfileSyncPanel refreshKey={syncRefreshKey} onPulled={() => onReload?.()} />
+      )}
+
 
 
       {/* Profile Edit Form */}
+      <FormProvider {...methods}>
       <form
         onSubmit={handleSubmit(onSubmit)}
         className="flex flex-col gap-4 md:gap-6"
@@ -204,6 +223,8 @@ export default function EditForm({
         </div>
       </div>
 
+      <ProfileDetailsFields />
+
       {/* Server Error Alert */}
       {errors.root?.serverError && (
         <Alert variant="destructive">
@@ -230,6 +251,7 @@ export default function EditForm({
         )}
       </Button>
       </form>
+      </FormProvider>
     </div>
   );
 }
@@ -1,46 +1,47 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import EditForm from "./EditForm";
-import type { Member } from "@prisma/client";
+import type { MemberWithPrompts } from "@/app/actions/memberActions";
 import { Spinner } from "@nextui-org/react";
 import { useRouter } from "next/navigation";
 
 export default function EditFormClient() {
   const router = useRouter();
   const [data, setData] = useState<{
-    member: Member;
+    member: MemberWithPrompts;
     hasOnChainProfile: boolean;
+    profileObjectId: string | null;
     walletAddress: string;
   } | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    async function fetchData() {
-      try {
-        const response = await fetch('/api/member/profile-data');
-
-        if (response.status === 404) {
-          router.push('/not-found');
-          return;
-        }
+  const fetchData = useCallback(async () => {
+    try {
+      const response = await fetch('/api/member/profile-data');
 
-        if (!response.ok) {
-          throw new Error('Failed to fetch profile data');
-        }
+      if (response.status === 404) {
+        router.push('/not-found');
+        return;
+      }
 
-        const profileData = await response.json();
-        setData(profileData);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load profile');
-      } finally {
-        setLoading(false);
+      if (!response.ok) {
+        throw new Error('Failed to fetch profile data');
       }
+
+      const profileData = await response.json();
+      setData(profileData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load profile');
+    } finally {
+      setLoading(false);
     }
+  }, [router]);
 
+  useEffect(() => {
     fetchData();
-  }, [router]);
+  }, [fetchData]);
 
   if (loading) {
     return (
@@ -68,7 +69,9 @@ export default function EditFormClient() {
     <EditForm
       member={data.member}
       hasOnChainProfile={data.hasOnChainProfile}
+      profileObjectId={data.profileObjectId}
       walletAddress={data.walletAddress}
+      onReload={fetchData}
     />
   );
 }
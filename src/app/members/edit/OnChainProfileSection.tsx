@@ -11,6 +11,7 @@ import { useRouter } from "next/navigation";
 import { calculateAge } from "@/lib/util";
 import { buildCreateProfileTransaction, fetchProfileRegistryReference } from "@/lib/contracts/matchingMe";
 import { isContractConfigured } from "@/configs/matchingMeContract";
+import { MIN_INTERESTS } from "@/lib/profileOptions";
 import { markProfileCompleteOnChain } from "@/app/actions/profileOnChainActions";
 import { useDialogsStore } from "@/store/dialogs.store";
 import type { Member } from "@prisma/client";
@@ -95,7 +96,9 @@ export default function OnChainProfileSection({ member, hasOnChainProfile, walle
         displayName: member.name,
         age,
         encryptedPayload: member.description, // Use plain bio, not encrypted
-        interests: ["dating", "socializing", "meeting new people"],
+        interests: member.interests.length >= MIN_INTERESTS
+          ? member.interests
+          : ["dating", "socializing", "meeting new people"],
         registry: await fetchProfileRegistryReference(client),
       });
 
@@ -0,0 +1,215 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useSuiClientContext } from "@mysten/dapp-kit";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, CloudDownload, CloudUpload, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "react-toastify";
+import {
+  confirmProfilePublished,
+  getProfileSyncStatus,
+  pullProfileFromChain,
+} from "@/app/actions/profileOnChainActions";
+import type { ProfileFieldDiff, ProfileSyncStatus } from "@/services/profileSyncService";
+import { useSponsoredTransaction } from "@/hooks/useSponsoredTransaction";
+import { buildUpdateProfileTransaction, fetchProfileRegistryReference } from "@/lib/contracts/matchingMe";
+import { timeAgo } from "@/lib/util";
+
+const FIELD_LABELS: Record<ProfileFieldDiff["field"], string> = {
+  name: "Display name",
+  description: "Bio",
+  interests: "Interests",
+};
+
+type Props = {
+  // Bump to re-check after the profile form is saved
+  refreshKey: number;
+  onPulled: () => void;
+};
+
+function formatValue(value: string | string[]) {
+  return Array.isArray(value) ? value.join(", ") || "None" : value || "Empty";
+}
+
+function ChangeBadge({ diff }: { diff: ProfileFieldDiff }) {
+  if (diff.changedLocally && diff.changedOnChain) return <Badge variant="destructive">Changed on both</Badge>;
+  if (diff.changedOnChain) return <Badge variant="secondary">Changed on chain</Badge>;
+  return <Badge variant="outline">Changed here</Badge>;
+}
+
+/**
+ * Shows where the profile in the app and the on-chain UserProfile differ,
+ * with one-click publish (update_profile) and pull in either direction
+ */
+export default function ProfileSyncPanel({ refreshKey, onPulled }: Props) {
+  const { client } = useSuiClientContext();
+  const { executeSponsored } = useSponsoredTransaction({ showToasts: true });
+  const [status, setStatus] = useState<ProfileSyncStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<"load" | "publish" | "pull" | null>("load");
+
+  const load = useCallback(async () => {
+    setBusy("load");
+    const result = await getProfileSyncStatus();
+    if (result.status === "success") {
+      setStatus(result.data);
+      setError(null);
+    } else {
+      setError(typeof result.error === "string" ? result.error : "Failed to check sync status");
+    }
+    setBusy(null);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const handlePublish = async () => {
+    if (!status) return;
+    setBusy("publish");
+
+    try {
+      const local = Object.fromEntries(status.diffs.map((diff) => [diff.field, diff.local]));
+      const transaction = buildUpdateProfileTransaction({
+        profileObjectId: status.profileObjectId,
+        registry: await fetchProfileRegistryReference(client),
+        displayName: local.name as string | undefined,
+        bio: local.description as string | undefined,
+        interests: local.interests as string[] | undefined,
+      });
+
+      const execution = await executeSponsored(transaction, {
+        allowedMoveCallTargets: [`${process.env.NEXT_PUBLIC_PACKAGE_ID}::core::update_profile`],
+      });
+      if (!execution.success || !execution.digest) return;
+
+      const result = await confirmProfilePublished(execution.digest);
+      if (result.status === "success") {
+        setStatus(result.data);
+        toast.success("Profile published on-chain");
+      } else {
+        toast.error(result.error as string);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to publish profile");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePull = async () => {
+    if (!status) return;
+    setBusy("pull");
+
+    const result = await pullProfileFromChain(status.diffs.map((diff) => diff.field));
+    if (result.status === "success") {
+      setStatus(result.data);
+      toast.success("Profile updated from the blockchain");
+      onPulled();
+    } else {
+      toast.error(result.error as string);
+    }
+    setBusy(null);
+  };
+
+  if (busy === "load" && !status) {
+    return <div className="animate-pulse bg-gray-200 dark:bg-gray-700 rounded-lg h-16"></div>;
+  }
+
+  if (error || !status) {
+    return (
+      <Alert className="border-yellow-500 bg-yellow-50">
+        <AlertDescription className="flex items-center justify-between gap-2 text-xs md:text-sm">
+          {error || "Failed to check sync status"}
+          <Button type="button" size="sm" variant="ghost" onClick={load}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const lastActive = status.lastActiveOnChain ? ` · active on chain ${timeAgo(status.lastActiveOnChain)}` : "";
+
+  if (status.diffs.length === 0) {
+    return (
+      <p className="flex items-center gap-2 text-xs md:text-sm text-muted-foreground">
+        <CheckCircle2 className="h-4 w-4 text-green-600" />
+        In sync with your blockchain profile (version {status.chainVersion}){lastActive}
+      </p>
+    );
+  }
+
+  const hasChainChanges = status.diffs.some((diff) => diff.changedOnChain);
+
+  return (
+    <div className="rounded-lg border p-3 md:p-4 space-y-3">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <div>
+          <h4 className="font-semibold text-sm">Your blockchain profile is out of date</h4>
+          <p className="text-xs text-muted-foreground">
+            Chain version {status.chainVersion}
+            {status.syncedVersion !== null && status.syncedVersion !== status.chainVersion &&
+              ` (last synced ${status.syncedVersion})`}
+            {lastActive}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            size="sm"
+            variant={hasChainChanges ? "default" : "outline"}
+            disabled={busy !== null}
+            onClick={handlePull}
+          >
+            {busy === "pull" ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <CloudDownload className="mr-1 h-4 w-4" />}
+            Use on-chain version
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={hasChainChanges ? "outline" : "default"}
+            disabled={busy !== null}
+            onClick={handlePublish}
+          >
+            {busy === "publish" ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <CloudUpload className="mr-1 h-4 w-4" />}
+            Publish changes on-chain
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs md:text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-1 pr-2 font-medium">Field</th>
+              <th className="py-1 pr-2 font-medium">In the app</th>
+              <th className="py-1 pr-2 font-medium">On chain</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {status.diffs.map((diff) => (
+              <tr key={diff.field} className="border-t align-top">
+                <td className="py-2 pr-2 font-medium">{FIELD_LABELS[diff.field]}</td>
+                <td className="py-2 pr-2 break-words max-w-[200px]">{formatValue(diff.local)}</td>
+                <td className="py-2 pr-2 break-words max-w-[200px]">{formatValue(diff.chain)}</td>
+                <td className="py-2">
+                  <ChangeBadge diff={diff} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {!status.bioIsText && (
+        <p className="text-xs text-muted-foreground">
+          Your on-chain bio holds your encrypted sign-up details, so it is not compared.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useDisconnectWallet, useSuiClientContext } from "@mysten/dapp-kit";
+import type { AccountDeletion } from "@prisma/client";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Loader2, Trash2, Undo2 } from "lucide-react";
+import { toast } from "react-toastify";
+import {
+  cancelAccountDeletion,
+  deleteAccountNow,
+  getAccountDeletion,
+  getAccountTeardownPlan,
+  requestAccountDeletion,
+} from "@/app/actions/accountActions";
+import { signOutUser } from "@/app/actions/authActions";
+import type { ErasureReceipt } from "@/services/accountDeletionService";
+import { useAuthStore } from "@/hooks/useAuthStore";
+import { useSponsoredTransaction } from "@/hooks/useSponsoredTransaction";
+import { buildAccountTeardownTransaction, fetchProfileRegistryReference } from "@/lib/contracts/matchingMe";
+
+const packageId = process.env.NEXT_PUBLIC_PACKAGE_ID;
+
+function ReceiptView({ receipt, onDone }: { receipt: ErasureReceipt; onDone: () => void }) {
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <h3 className="font-semibold text-lg">Your account has been deleted</h3>
+        <p className="text-muted-foreground">
+          Receipt {receipt.receiptId} · {new Date(receipt.completedAt).toLocaleString()}. A copy was sent by email.
+        </p>
+      </div>
+
+      <div>
+        <h4 className="font-semibold">Removed</h4>
+        <ul className="list-disc pl-5">
+          {receipt.removed.map((item) => (
+            <li key={item.category}>{item.category}: {item.count}</li>
+          ))}
+          {receipt.externalAssets.map((item) => (
+            <li key={item.system}>
+              {item.system}: {item.deleted} deleted{item.failed > 0 && `, ${item.failed} failed`}
+            </li>
+          ))}
+          {receipt.onChain.revoked.map((item) => (
+            <li key={item} className="break-all">{item}</li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <h4 className="font-semibold">Kept on chain</h4>
+        <ul className="list-disc pl-5 text-muted-foreground">
+          {receipt.onChain.retained.map((item) => (
+            <li key={item} className="break-all">{item}</li>
+          ))}
+        </ul>
+      </div>
+
+      <Button onClick={onDone}>Sign out</Button>
+    </div>
+  );
+}
+
+/**
+ * Schedules account deletion with a grace period, and lets the user undo
+ * it or sign the on-chain teardown and erase everything straight away
+ */
+export default function AccountDeletionSection() {
+  const { client } = useSuiClientContext();
+  const { mutate: disconnectWallet } = useDisconnectWallet();
+  const { clearAuth } = useAuthStore();
+  const { executeSponsored } = useSponsoredTransaction({ showToasts: true });
+  const [deletion, setDeletion] = useState<AccountDeletion | null>(null);
+  const [receipt, setReceipt] = useState<ErasureReceipt | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [busy, setBusy] = useState<"load" | "request" | "cancel" | "delete" | null>("load");
+
+  const load = useCallback(async () => {
+    setBusy("load");
+    try {
+      setDeletion(await getAccountDeletion());
+    } catch {
+      toast.error("Failed to load account status");
+    }
+    setBusy(null);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRequest = async () => {
+    setBusy("request");
+    const result = await requestAccountDeletion();
+    if (result.status === "success") {
+      setDeletion(result.data);
+      setConfirming(false);
+    } else {
+      toast.error(result.error as string);
+    }
+    setBusy(null);
+  };
+
+  const handleCancel = async () => {
+    setBusy("cancel");
+    const result = await cancelAccountDeletion();
+    if (result.status === "success") {
+      setDeletion(null);
+      toast.success(result.data);
+    } else {
+      toast.error(result.error as string);
+    }
+    setBusy(null);
+  };
+
+  const handleDeleteNow = async () => {
+    setBusy("delete");
+
+    try {
+      const plan = await getAccountTeardownPlan();
+      if (plan.status === "error") {
+        toast.error(plan.error as string);
+        return;
+      }
+
+      let digest: string | null = null;
+      if (plan.data) {
+        const execution = await executeSponsored(
+          buildAccountTeardownTransaction({
+            ...plan.data,
+            registry: await fetchProfileRegistryReference(client),
+          }),
+          {
+            allowedMoveCallTargets: [
+              `${packageId}::core::delete_profile`,
+              `${packageId}::seal_policies::deactivate_chat_allowlist`,
+              `${packageId}::seal_policies::deactivate_avatar_allowlist`,
+            ],
+          }
+        );
+        if (!execution.success || !execution.digest) return;
+        digest = execution.digest;
+      }
+
+      const result = await deleteAccountNow(digest);
+      if (result.status === "success") {
+        setReceipt(result.data);
+      } else {
+        toast.error(result.error as string);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete account");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDone = async () => {
+    clearAuth();
+    disconnectWallet();
+    await signOutUser();
+    window.location.href = "/";
+  };
+
+  if (receipt) return <ReceiptView receipt={receipt} onDone={handleDone} />;
+
+  if (busy === "load") {
+    return <div className="animate-pulse bg-gray-200 dark:bg-gray-700 rounded-lg h-24"></div>;
+  }
+
+  if (deletion) {
+    return (
+      <div className="space-y-4">
+        <Alert className="border-red-500 bg-red-50">
+          <AlertDescription className="text-sm">
+            Your account is hidden from other members and will be deleted on{" "}
+            <strong>{new Date(deletion.scheduledFor).toLocaleString()}</strong>. Until then you can undo this.
+          </AlertDescription>
+        </Alert>
+        <p className="text-sm text-muted-foreground">
+          Deleting now also removes your blockchain profile and revokes access to your encrypted avatar and chats.
+          Your wallet will be asked to sign. If you wait, those stay on chain until you delete them yourself.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" disabled={busy !== null} onClick={handleCancel}>
+            {busy === "cancel" ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Undo2 className="mr-1 h-4 w-4" />}
+            Keep my account
+          </Button>
+          <Button variant="destructive" disabled={busy !== null} onClick={handleDeleteNow}>
+            {busy === "delete" ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Trash2 className="mr-1 h-4 w-4" />}
+            Delete now
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <p>
+        Deleting your account erases your profile, photos, likes, matches, messages and avatar from our servers.
+        You get a receipt listing everything removed, and what stays on the blockchain because it cannot be changed.
+      </p>
+      {confirming ? (
+        <Alert className="border-red-500 bg-red-50">
+          <AlertDescription className="flex flex-col gap-3">
+            <span>Your account will be hidden right away and deleted after a grace period. Continue?</span>
+            <div className="flex gap-2">
+              <Button variant="destructive" size="sm" disabled={busy !== null} onClick={handleRequest}>
+                {busy === "request" && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                Yes, delete my account
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setConfirming(false)}>
+                Cancel
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Button variant="destructive" onClick={() => setConfirming(true)}>
+          <Trash2 className="mr-1 h-4 w-4" />
+          Delete my account
+        </Button>
+      )}
+    </div>
+  );
+}
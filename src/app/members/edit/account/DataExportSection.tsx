@@ -0,0 +1,94 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "react-toastify";
+import { getDataExports, requestDataExport, type DataExportDto } from "@/app/actions/accountActions";
+import { timeAgo } from "@/lib/util";
+
+const STATUS_LABELS: Record<DataExportDto["status"], string> = {
+  PENDING: "Preparing",
+  READY: "Ready",
+  FAILED: "Failed",
+  EXPIRED: "Expired",
+};
+
+function formatSize(bytes: number | null) {
+  if (bytes === null) return "";
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Requests "download my data" archives and lists the recent ones
+ */
+export default function DataExportSection() {
+  const [exports, setExports] = useState<DataExportDto[] | null>(null);
+  const [requesting, setRequesting] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setExports(await getDataExports());
+    } catch {
+      toast.error("Failed to load data exports");
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRequest = async () => {
+    setRequesting(true);
+    const result = await requestDataExport();
+    if (result.status === "success") {
+      toast.success("We're preparing your data. You'll get an email when it's ready.");
+      await load();
+    } else {
+      toast.error(result.error as string);
+    }
+    setRequesting(false);
+  };
+
+  const preparing = exports?.some((dataExport) => dataExport.status === "PENDING");
+
+  return (
+    <div className="space-y-4 text-sm">
+      <p>
+        Get a ZIP archive of your account, profile, photos, likes, messages, avatar settings and activity, plus the
+        IDs of your objects on the blockchain. It takes a few minutes to prepare.
+      </p>
+      <Button onClick={handleRequest} disabled={requesting || preparing || exports === null}>
+        {requesting ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Download className="mr-1 h-4 w-4" />}
+        Download my data
+      </Button>
+
+      {exports && exports.length > 0 && (
+        <ul className="divide-y rounded-lg border">
+          {exports.map((dataExport) => (
+            <li key={dataExport.id} className="flex items-center justify-between gap-2 p-3">
+              <div>
+                <p>Requested {timeAgo(dataExport.requestedAt.toISOString())}</p>
+                <p className="text-xs text-muted-foreground">
+                  {dataExport.status === "READY" && dataExport.expiresAt &&
+                    `${formatSize(dataExport.sizeBytes)} · link expires ${new Date(dataExport.expiresAt).toLocaleString()}`}
+                  {dataExport.status === "FAILED" && "Something went wrong. Please request a new export."}
+                </p>
+              </div>
+              {dataExport.downloadUrl ? (
+                <Button asChild size="sm" variant="outline">
+                  <a href={dataExport.downloadUrl}>Download</a>
+                </Button>
+              ) : (
+                <Badge variant={dataExport.status === "FAILED" ? "destructive" : "secondary"}>
+                  {STATUS_LABELS[dataExport.status]}
+                </Badge>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
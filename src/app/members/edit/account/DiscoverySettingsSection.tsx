@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "react-toastify";
+import { updatePassResurfaceDays } from "@/app/actions/swipeActions";
+
+const NEVER = "never";
+const DAY_OPTIONS = [7, 30, 90, 180];
+
+/**
+ * Chooses whether members the user passed on come back to their discovery
+ * deck, and after how long
+ */
+export default function DiscoverySettingsSection({ initialDays }: { initialDays: number | null }) {
+  const [days, setDays] = useState<number | null>(initialDays);
+  const [saving, setSaving] = useState(false);
+
+  // Keep a value set some other way selectable
+  const options = days === null || DAY_OPTIONS.includes(days) ? DAY_OPTIONS : [...DAY_OPTIONS, days].sort((a, b) => a - b);
+
+  const handleChange = async (value: string) => {
+    const next = value === NEVER ? null : Number(value);
+    const previous = days;
+    setDays(next);
+    setSaving(true);
+    const result = await updatePassResurfaceDays(next);
+    if (result.status === "success") {
+      toast.success(next === null ? "Members you pass on will stay hidden" : `Members you pass on will return after ${next} days`);
+    } else {
+      setDays(previous);
+      toast.error(result.error as string);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <Label htmlFor="pass-resurface">Show members I passed on again</Label>
+      <Select value={days === null ? NEVER : String(days)} onValueChange={handleChange} disabled={saving}>
+        <SelectTrigger id="pass-resurface" className="w-full sm:w-64">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NEVER}>Never</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option} value={String(option)}>
+              After {option} days
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-muted-foreground">
+        Members you liked or blocked never come back to your deck.
+      </p>
+    </div>
+  );
+}
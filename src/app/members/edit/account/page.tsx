@@ -0,0 +1,50 @@
+import React from "react";
+import dynamic from "next/dynamic";
+import CardInnerWrapper from "@/components/CardInnerWrapper";
+import { getAuthUserId } from "@/app/actions/authActions";
+import { getMemberByUserId } from "@/app/actions/memberActions";
+import DiscoverySettingsSection from "./DiscoverySettingsSection";
+
+const DataExportSection = dynamic(() => import("./DataExportSection"), {
+  ssr: false,
+  loading: () => (
+    <div className="flex justify-center items-center p-8">
+      <div className="animate-pulse text-gray-500">Loading data exports...</div>
+    </div>
+  ),
+});
+
+const AccountDeletionSection = dynamic(() => import("./AccountDeletionSection"), {
+  ssr: false,
+  loading: () => (
+    <div className="flex justify-center items-center p-8">
+      <div className="animate-pulse text-gray-500">Loading account settings...</div>
+    </div>
+  ),
+});
+
+export default async function AccountPage() {
+  const member = await getMemberByUserId(await getAuthUserId());
+
+  return (
+    <CardInnerWrapper
+      header="Account & Data"
+      body={
+        <div className="space-y-8">
+          <section className="space-y-3">
+            <h3 className="text-lg font-semibold">Discovery</h3>
+            <DiscoverySettingsSection initialDays={member?.passResurfaceDays ?? null} />
+          </section>
+          <section className="space-y-3">
+            <h3 className="text-lg font-semibold">Download your data</h3>
+            <DataExportSection />
+          </section>
+          <section className="space-y-3">
+            <h3 className="text-lg font-semibold">Delete your account</h3>
+            <AccountDeletionSection />
+          </section>
+        </div>
+      }
+    />
+  );
+}
@@ -23,6 +23,10 @@ export default async function Layout({
       name: "Update Photos",
       href: `${basePath}/photos`,
     },
+    {
+      name: "Account & Data",
+      href: `${basePath}/account`,
+    },
   ];
 
   return (
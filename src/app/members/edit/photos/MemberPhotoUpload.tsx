@@ -17,10 +17,17 @@ export default function MemberPhotoUpload() {
       result.info &&
       typeof result.info === "object"
     ) {
-      await addImage(
+      const added = await addImage(
         result.info.secure_url,
         result.info.public_id
       );
+      if (added.status === "error") {
+        toast.error(added.error as string);
+        return;
+      }
+      if (!added.data.isApproved) {
+        toast.info("Your photo will appear once a moderator has reviewed it");
+      }
       router.refresh();
     } else {
       toast.error("Problem adding image");
@@ -47,7 +47,13 @@ export default function MessageTableCell({
       );
     case "text":
       return (
-        <div className="text-xs md:text-sm">{truncateString(cellValue, 80)}</div>
+        <div className="text-xs md:text-sm">
+          {item.blurred && !isOutbox ? (
+            <span className="italic text-gray-500">Hidden message - open the chat to view</span>
+          ) : (
+            truncateString(item.text, 80)
+          )}
+        </div>
       );
     case "created":
       return <span className="text-xs md:text-sm whitespace-nowrap">{cellValue}</span>;
@@ -0,0 +1,103 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { signOut, useSession } from "next-auth/react";
+import { Button, Textarea } from "@nextui-org/react";
+import { MdBlock } from "react-icons/md";
+import { toast } from "react-toastify";
+import type { Sanction, SanctionAppeal } from "@prisma/client";
+import CardWrapper from "@/components/CardWrapper";
+import { appealSanction, getMyAccessSanction } from "@/app/actions/sanctionActions";
+import { SANCTION_LABELS } from "@/lib/sanctions";
+
+type AccessSanction = Sanction & { appeal: SanctionAppeal | null };
+
+const APPEAL_LABELS: Record<SanctionAppeal["status"], string> = {
+  PENDING: "Your appeal is waiting for a moderator.",
+  GRANTED: "Your appeal was granted.",
+  DENIED: "Your appeal was reviewed and the decision stands.",
+};
+
+/**
+ * Explains a ban or suspension and lets the member appeal it. Once the
+ * sanction has ended the session claim is refreshed and the member is sent
+ * back into the app.
+ */
+export default function SuspendedNotice() {
+  const router = useRouter();
+  const { update } = useSession();
+  const [sanction, setSanction] = useState<AccessSanction | null | undefined>(undefined);
+  const [message, setMessage] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const load = useCallback(async () => {
+    const current = await getMyAccessSanction();
+    if (!current) {
+      await update();
+      router.replace("/members");
+      return;
+    }
+    setSanction(current);
+  }, [router, update]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleAppeal = async () => {
+    if (!sanction) return;
+    setSubmitting(true);
+    const result = await appealSanction(sanction.id, message);
+    if (result.status === "success") {
+      toast.success("Your appeal has been sent");
+      setSanction({ ...sanction, appeal: result.data });
+    } else {
+      toast.error(result.error as string);
+    }
+    setSubmitting(false);
+  };
+
+  if (!sanction) return null;
+
+  return (
+    <CardWrapper
+      headerText={sanction.type === "BAN" ? "Your account is banned" : "Your account is suspended"}
+      headerIcon={MdBlock}
+      subHeaderText={
+        sanction.expiresAt
+          ? `${SANCTION_LABELS[sanction.type]} until ${new Date(sanction.expiresAt).toLocaleString()}`
+          : SANCTION_LABELS[sanction.type]
+      }
+      body={
+        <div className="space-y-4 text-sm">
+          <p>
+            <span className="font-semibold">Reason: </span>
+            {sanction.reason}
+          </p>
+          {sanction.appeal ? (
+            <p className="text-neutral-500">{APPEAL_LABELS[sanction.appeal.status]}</p>
+          ) : (
+            <div className="space-y-2">
+              <Textarea
+                label="Appeal this decision"
+                placeholder="Tell us why you think this was a mistake"
+                value={message}
+                onValueChange={setMessage}
+                maxLength={2000}
+              />
+              <Button color="default" onClick={handleAppeal} isLoading={submitting} isDisabled={!message.trim()}>
+                Send appeal
+              </Button>
+            </div>
+          )}
+        </div>
+      }
+      footer={
+        <Button variant="light" onClick={() => signOut({ callbackUrl: "/" })}>
+          Sign out
+        </Button>
+      }
+    />
+  );
+}
@@ -0,0 +1,5 @@
+import SuspendedNotice from "./SuspendedNotice";
+
+export default function SuspendedPage() {
+  return <SuspendedNotice />;
+}
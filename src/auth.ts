@@ -1,8 +1,24 @@
 import NextAuth, { type NextAuthResult } from 'next-auth'
+import type { JWT } from 'next-auth/jwt'
 import { PrismaAdapter } from '@auth/prisma-adapter'
 import { Role } from '@prisma/client'
 import authConfig from './configs/authConfig'
 import { prisma } from '@/lib/prisma'
+import { getSanctionService } from '@/services/sanctionService'
+import type { AccessSanctionClaim } from '@/lib/sanctions'
+
+// How long the sanction claim in the token is trusted before it's looked up again
+const SANCTION_CLAIM_TTL_MS = parseInt(process.env.SANCTION_CLAIM_TTL_SECONDS || '60') * 1000
+
+async function refreshAccessSanction(token: JWT, userId: string) {
+  try {
+    token.accessSanction = await getSanctionService().getAccessClaim(userId)
+    token.accessSanctionCheckedAt = Date.now()
+  } catch (error) {
+    // Keep the last known claim; actions check the database themselves
+    console.error('Error refreshing access sanction:', error)
+  }
+}
 
 const result = NextAuth({
   secret: process.env.AUTH_SECRET,
@@ -11,6 +27,12 @@ const result = NextAuth({
       if (user) {
         token.profileComplete = user.profileComplete
         token.role = user.role
+        if (user.id) {
+          await refreshAccessSanction(token, user.id)
+        }
+      } else if (token.sub && Date.now() - (token.accessSanctionCheckedAt ?? 0) > SANCTION_CLAIM_TTL_MS) {
+        // Picks up sanctions issued or lifted mid-session
+        await refreshAccessSanction(token, token.sub)
       }
       // When session is updated, fetch latest data from database
       if (trigger === 'update') {
@@ -30,6 +52,7 @@ const result = NextAuth({
             token.profileComplete = dbUser.profileComplete
             token.role = dbUser.role
           }
+          await refreshAccessSanction(token, token.sub)
         }
       }
       return token
@@ -42,6 +65,7 @@ const result = NextAuth({
           id: token.sub,
           profileComplete: token.profileComplete as boolean,
           role: token.role as Role,
+          accessSanction: (token.accessSanction as AccessSanctionClaim | undefined) ?? null,
         }
       }
       return session
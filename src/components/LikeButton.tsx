@@ -3,6 +3,7 @@
 import { toggleLikeMember } from "@/app/actions/likeActions";
 import { useRouter } from "next/navigation";
 import React from "react";
+import { toast } from "react-toastify";
 import {
   AiFillHeart,
   AiOutlineHeart,
@@ -20,7 +21,8 @@ export default function LikeButton({
   const router = useRouter();
 
   async function toggleLike() {
-    await toggleLikeMember(targetId, hasLiked);
+    const result = await toggleLikeMember(targetId, hasLiked);
+    if (result.status === "error") toast.error(result.error as string);
     router.refresh();
   }
 
@@ -54,7 +54,8 @@ export default function LikeButtonWithBlockchain({
         console.log("[LikeButton] Creating like and checking mutual match...");
 
         // First, create like in database to check for mutual match
-        await toggleLikeMember(targetId, hasLiked);
+        const liked = await toggleLikeMember(targetId, hasLiked);
+        if (liked.status === "error") throw new Error(liked.error as string);
         console.log("[LikeButton] Like created in DB");
 
         // Check if this creates a mutual match
@@ -71,7 +72,8 @@ export default function LikeButtonWithBlockchain({
       } else {
         console.log("[LikeButton] Just updating database (unliking or no blockchain)");
         // Just update database (unliking or no blockchain)
-        await toggleLikeMember(targetId, hasLiked);
+        const toggled = await toggleLikeMember(targetId, hasLiked);
+        if (toggled.status === "error") throw new Error(toggled.error as string);
       }
 
       router.refresh();
@@ -68,3 +68,19 @@ export const newLikeToast = (
     />
   );
 };
+
+export const newSearchMatchesToast = (
+  searchName: string,
+  searchQuery: string,
+  totalCount: number,
+  image: string | null
+) => {
+  toast(
+    <NotificationToast
+      image={image}
+      href={`/members?${searchQuery}`}
+      title={`${totalCount} new ${totalCount === 1 ? "member matches" : "members match"} "${searchName}"`}
+      subtitle="Click here to view them"
+    />
+  );
+};
@@ -0,0 +1,231 @@
+"use client";
+
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Plus, X } from "lucide-react";
+import {
+  HEIGHT_RANGE_CM,
+  INTEREST_CATEGORIES,
+  LANGUAGES,
+  LIFESTYLE_CATEGORIES,
+  LOOKING_FOR_OPTIONS,
+  MAX_INTERESTS,
+  MAX_PROMPT_ANSWER_LENGTH,
+  MAX_PROMPTS,
+  MIN_INTERESTS,
+  PROFILE_PROMPTS,
+} from "@/lib/profileOptions";
+import type { ProfileDetailsSchema } from "@/lib/schemas/ProfileDetailsSchema";
+
+const NOT_SET = "none";
+const UPDATE = { shouldValidate: true, shouldDirty: true };
+
+function toggled<T extends string>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return (
+    <p className="text-xs md:text-sm text-destructive flex items-center gap-1">
+      <AlertCircle className="h-3 w-3 flex-shrink-0" />
+      {message}
+    </p>
+  );
+}
+
+/**
+ * Interests, prompts, height, languages, relationship goal and lifestyle.
+ * Must be rendered inside a FormProvider whose schema includes
+ * profileDetailsSchema.
+ */
+export default function ProfileDetailsFields() {
+  const {
+    register,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useFormContext<ProfileDetailsSchema>();
+
+  const { fields: prompts, append, remove } = useFieldArray({ name: "prompts" });
+
+  const [interests = [], languages = [], lifestyle = [], lookingFor, promptValues = []] = watch([
+    "interests",
+    "languages",
+    "lifestyle",
+    "lookingFor",
+    "prompts",
+  ]);
+
+  const unusedPrompts = PROFILE_PROMPTS.filter(
+    (question) => !promptValues.some((prompt) => prompt?.question === question)
+  );
+
+  return (
+    <div className="flex flex-col gap-4 md:gap-6">
+      {/* Interests */}
+      <div className="space-y-1.5 md:space-y-2">
+        <div className="flex justify-between items-baseline">
+          <Label className="text-sm md:text-base font-medium">Interests</Label>
+          <span className="text-xs text-muted-foreground">
+            {interests.length}/{MAX_INTERESTS} (at least {MIN_INTERESTS})
+          </span>
+        </div>
+        {Object.entries(INTEREST_CATEGORIES).map(([category, options]) => (
+          <div key={category} className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">{category}</p>
+            <div className="flex flex-wrap gap-1">
+              {options.map((interest) => (
+                <Badge
+                  key={interest}
+                  variant={interests.includes(interest) ? "default" : "outline"}
+                  className="cursor-pointer capitalize"
+                  onClick={() => setValue("interests", toggled(interests, interest), UPDATE)}
+                >
+                  {interest}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        ))}
+        <FieldError message={errors.interests?.message} />
+      </div>
+
+      {/* Prompts */}
+      <div className="space-y-1.5 md:space-y-2">
+        <Label className="text-sm md:text-base font-medium">Prompts</Label>
+        {prompts.map((prompt, index) => (
+          <div key={prompt.id} className="space-y-2 rounded-lg border p-3">
+            <div className="flex gap-2 items-center">
+              <Select
+                value={promptValues[index]?.question}
+                onValueChange={(value) =>
+                  setValue(`prompts.${index}.question`, value as ProfileDetailsSchema["prompts"][number]["question"], UPDATE)
+                }
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue placeholder="Choose a prompt" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROFILE_PROMPTS.filter(
+                    (question) => question === promptValues[index]?.question || unusedPrompts.includes(question)
+                  ).map((question) => (
+                    <SelectItem key={question} value={question}>
+                      {question}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" size="sm" variant="ghost" aria-label="Remove prompt" onClick={() => remove(index)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <Textarea
+              {...register(`prompts.${index}.answer`)}
+              rows={2}
+              maxLength={MAX_PROMPT_ANSWER_LENGTH}
+              className="resize-none text-sm"
+            />
+            <FieldError message={errors.prompts?.[index]?.answer?.message} />
+          </div>
+        ))}
+        <FieldError message={errors.prompts?.root?.message ?? errors.prompts?.message} />
+        {prompts.length < MAX_PROMPTS && unusedPrompts.length > 0 && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="gap-1"
+            onClick={() => append({ question: unusedPrompts[0], answer: "" })}
+          >
+            <Plus className="h-4 w-4" />
+            Add a prompt
+          </Button>
+        )}
+      </div>
+
+      {/* Height and Looking For */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
+        <div className="space-y-1.5 md:space-y-2">
+          <Label htmlFor="heightCm" className="text-sm md:text-base font-medium">
+            Height (cm)
+          </Label>
+          <Input
+            id="heightCm"
+            type="number"
+            min={HEIGHT_RANGE_CM.min}
+            max={HEIGHT_RANGE_CM.max}
+            {...register("heightCm", { setValueAs: (value) => (value === "" || value == null ? null : Number(value)) })}
+            className="h-10 md:h-12 text-sm md:text-base"
+          />
+          <FieldError message={errors.heightCm?.message} />
+        </div>
+
+        <div className="space-y-1.5 md:space-y-2">
+          <Label className="text-sm md:text-base font-medium">Looking for</Label>
+          <Select
+            value={lookingFor ?? NOT_SET}
+            onValueChange={(value) =>
+              setValue("lookingFor", value === NOT_SET ? null : (value as ProfileDetailsSchema["lookingFor"]), UPDATE)
+            }
+          >
+            <SelectTrigger className="h-10 md:h-12">
+              <SelectValue placeholder="Prefer not to say" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_SET}>Prefer not to say</SelectItem>
+              {LOOKING_FOR_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Languages */}
+      <div className="space-y-1.5 md:space-y-2">
+        <Label className="text-sm md:text-base font-medium">Languages</Label>
+        <div className="flex flex-wrap gap-1">
+          {LANGUAGES.map((language) => (
+            <Badge
+              key={language}
+              variant={languages.includes(language) ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setValue("languages", toggled(languages, language), UPDATE)}
+            >
+              {language}
+            </Badge>
+          ))}
+        </div>
+        <FieldError message={errors.languages?.message} />
+      </div>
+
+      {/* Lifestyle */}
+      <div className="space-y-1.5 md:space-y-2">
+        <Label className="text-sm md:text-base font-medium">Lifestyle</Label>
+        {Object.entries(LIFESTYLE_CATEGORIES).map(([category, options]) => (
+          <div key={category} className="flex flex-wrap items-center gap-1">
+            <span className="text-xs font-medium text-muted-foreground w-16">{category}</span>
+            {options.map((tag) => (
+              <Badge
+                key={tag}
+                variant={lifestyle.includes(tag) ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setValue("lifestyle", toggled(lifestyle, tag), UPDATE)}
+              >
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
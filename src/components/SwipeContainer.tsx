@@ -8,33 +8,72 @@ import type { Member } from "@prisma/client";
 import { useRouter } from "next/navigation";
 import { toast } from "react-toastify";
 
+export type SwipeMember = Member & {
+  user?: {
+    profileObjectId: string | null;
+    walletAddress: string | null;
+  };
+};
+
+export type SwipeDeckPage = {
+  members: SwipeMember[];
+  avatarUrls: Record<string, string | null>;
+  nextCursor: string | null;
+};
+
+// Start fetching the next page when this many cards are left
+const PREFETCH_THRESHOLD = 5;
+
 type Props = {
-  initialMembers: (Member & {
-    user?: {
-      profileObjectId: string | null;
-      walletAddress: string | null;
-    };
-  })[];
+  initialMembers: SwipeMember[];
   avatarUrls: Record<string, string | null>;
   onSwipeAction: (memberId: string, direction: "left" | "right") => Promise<any>;
   currentUserId?: string;
   myProfileObjectId?: string | null;
+  initialCursor?: string | null;
+  loadMore?: (cursor: string) => Promise<SwipeDeckPage>;
 };
 
 export default function SwipeContainer({
   initialMembers,
-  avatarUrls,
+  avatarUrls: initialAvatarUrls,
   onSwipeAction,
   currentUserId,
   myProfileObjectId,
+  initialCursor = null,
+  loadMore,
 }: Props) {
   const router = useRouter();
   const [members, setMembers] = useState(initialMembers);
+  const [avatarUrls, setAvatarUrls] = useState(initialAvatarUrls);
+  const [cursor, setCursor] = useState(initialCursor);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
 
   const currentMember = members[currentIndex];
-  const hasMore = currentIndex < members.length - 1;
+
+  // Page through the ranked deck before the user runs out of cards
+  useEffect(() => {
+    if (!loadMore || !cursor || isLoadingMore) return;
+    if (members.length - currentIndex > PREFETCH_THRESHOLD) return;
+
+    setIsLoadingMore(true);
+    loadMore(cursor)
+      .then((page) => {
+        setMembers((prev) => {
+          const seen = new Set(prev.map((m) => m.userId));
+          return [...prev, ...page.members.filter((m) => !seen.has(m.userId))];
+        });
+        setAvatarUrls((prev) => ({ ...prev, ...page.avatarUrls }));
+        setCursor(page.nextCursor);
+      })
+      .catch((error) => {
+        console.error("Failed to load more profiles:", error);
+        setCursor(null);
+      })
+      .finally(() => setIsLoadingMore(false));
+  }, [loadMore, cursor, isLoadingMore, members.length, currentIndex]);
 
   const handleSwipe = useCallback(
     async (direction: "left" | "right") => {
@@ -114,6 +153,14 @@ export default function SwipeContainer({
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [handleSwipe, handleViewProfile, handleUndo, isProcessing]);
 
+  if (!currentMember && isLoadingMore) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[600px]">
+        <p className="text-muted-foreground animate-pulse">Loading more profiles...</p>
+      </div>
+    );
+  }
+
   if (!currentMember) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[600px] space-y-6">
@@ -1,35 +1,63 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
-import SwipeContainer from "./SwipeContainer";
+import React, { useState, useEffect, useRef } from "react";
+import SwipeContainer, { type SwipeDeckPage, type SwipeMember } from "./SwipeContainer";
 import { Button } from "@/components/ui/button";
 import { Shield, ShieldOff } from "lucide-react";
-import type { Member } from "@prisma/client";
 import { useSwipeBlockchain } from "@/hooks/useSwipeBlockchain";
 import { toast } from "react-toastify";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
 
 type Props = {
-  initialMembers: (Member & {
-    user?: {
-      profileObjectId: string | null;
-      walletAddress: string | null;
-    };
-  })[];
+  initialMembers: SwipeMember[];
   avatarUrls: Record<string, string | null>;
   onSwipeAction: (memberId: string, direction: "left" | "right") => Promise<any>;
   currentUserId?: string;
   myProfileObjectId?: string | null;
   enableBlockchainByDefault?: boolean;
+  initialCursor?: string | null;
+  loadMore?: (cursor: string) => Promise<SwipeDeckPage>;
 };
 
+/**
+ * Orders members by the on-chain discovery queue. Members without a wallet
+ * in the queue keep their ranked order at the end.
+ */
+function orderByQueue(members: SwipeMember[], queue: string[]) {
+  const positions = new Map(queue.map((address, index) => [normalizeSuiAddress(address), index]));
+  const position = (member: SwipeMember) => {
+    const address = member.user?.walletAddress;
+    return address ? positions.get(normalizeSuiAddress(address)) : undefined;
+  };
+
+  const queued = members.filter((m) => position(m) !== undefined);
+  const rest = members.filter((m) => position(m) === undefined);
+
+  return [...queued.sort((a, b) => position(a)! - position(b)!), ...rest];
+}
+
+function getWalletAddresses(members: SwipeMember[]) {
+  return members
+    .map((m) => m.user?.walletAddress)
+    .filter((addr): addr is string => !!addr);
+}
+
 export default function SwipeContainerWithBlockchain(props: Props) {
   const [useBlockchain, setUseBlockchain] = useState(props.enableBlockchainByDefault || false);
   const [sessionId, setSessionId] = useState<string | null>(null);
-  const [isInitializing, setIsInitializing] = useState(false);
+  const [isInitializing, setIsInitializing] = useState(props.enableBlockchainByDefault || false);
+  const [knownMembers, setKnownMembers] = useState(props.initialMembers);
+  const [avatarUrls, setAvatarUrls] = useState(props.avatarUrls);
+  const [latestCursor, setLatestCursor] = useState(props.initialCursor ?? null);
+  // The deck is re-keyed whenever an on-chain session reorders it
+  const [deck, setDeck] = useState(props.initialMembers);
+  const [deckVersion, setDeckVersion] = useState(0);
+  const swipedIds = useRef(new Set<string>());
   const { 
     isLoading: isBlockchainLoading,
     createDiscoverySession,
     recordSwipeOnChain,
+    refreshDiscoveryQueue,
   } = useSwipeBlockchain();
 
   // Auto-enable blockchain on mount if default is true
@@ -42,10 +70,9 @@ export default function SwipeContainerWithBlockchain(props: Props) {
 
   const handleEnableBlockchain = async () => {
     setIsInitializing(true);
-    
-    const addresses = props.initialMembers
-      .map((m) => m.user?.walletAddress)
-      .filter((addr): addr is string => !!addr);
+
+    const remaining = knownMembers.filter((m) => !swipedIds.current.has(m.userId));
+    const addresses = getWalletAddresses(remaining);
 
     if (addresses.length === 0) {
       toast.warning("No blockchain profiles available, using standard mode");
@@ -59,6 +86,9 @@ export default function SwipeContainerWithBlockchain(props: Props) {
     if (result.success) {
       setSessionId(result.sessionId || null);
       setUseBlockchain(true);
+      // The shuffled on-chain queue is the source of truth for deck order
+      setDeck(orderByQueue(remaining, result.queue || []));
+      setDeckVersion((version) => version + 1);
       toast.success("🎲 Blockchain randomness enabled!");
     } else {
       toast.warning("Blockchain mode failed, using standard mode");
@@ -83,13 +113,15 @@ export default function SwipeContainerWithBlockchain(props: Props) {
     memberId: string,
     direction: "left" | "right"
   ) => {
+    swipedIds.current.add(memberId);
+
     if (!useBlockchain || !sessionId) {
       // Use standard database swipe
       return props.onSwipeAction(memberId, direction);
     }
 
     // Find member's wallet address
-    const member = props.initialMembers.find((m) => m.userId === memberId);
+    const member = knownMembers.find((m) => m.userId === memberId);
     const targetAddress = member?.user?.walletAddress;
 
     if (!targetAddress) {
@@ -116,6 +148,26 @@ export default function SwipeContainerWithBlockchain(props: Props) {
     return props.onSwipeAction(memberId, direction);
   };
 
+  // Track paged-in members so their wallet addresses are available for swipes.
+  // In blockchain mode each new page replaces the on-chain queue.
+  const { loadMore } = props;
+  const handleLoadMore = async (cursor: string) => {
+    let page = await loadMore!(cursor);
+
+    const addresses = getWalletAddresses(page.members);
+    if (useBlockchain && sessionId && addresses.length > 0) {
+      const refreshed = await refreshDiscoveryQueue(sessionId, addresses);
+      if (refreshed.success) {
+        page = { ...page, members: orderByQueue(page.members, refreshed.queue || []) };
+      }
+    }
+
+    setKnownMembers((prev) => [...prev, ...page.members]);
+    setAvatarUrls((prev) => ({ ...prev, ...page.avatarUrls }));
+    setLatestCursor(page.nextCursor);
+    return page;
+  };
+
   return (
     <div className="space-y-4">
       {/* Blockchain Status Indicator */}
@@ -150,10 +202,21 @@ export default function SwipeContainerWithBlockchain(props: Props) {
       )}
 
       {/* Swipe Container */}
-      <SwipeContainer
-        {...props}
-        onSwipeAction={handleSwipeWithBlockchain}
-      />
+      {isInitializing && deckVersion === 0 ? (
+        <div className="flex justify-center items-center min-h-[600px]">
+          <p className="text-muted-foreground animate-pulse">Shuffling your deck on-chain...</p>
+        </div>
+      ) : (
+        <SwipeContainer
+          key={deckVersion}
+          {...props}
+          initialMembers={deck}
+          avatarUrls={avatarUrls}
+          initialCursor={latestCursor}
+          onSwipeAction={handleSwipeWithBlockchain}
+          loadMore={loadMore ? handleLoadMore : undefined}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,525 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { cn } from '@/lib/utils';
+
+type ExperimentMetric = 'LIKE' | 'MATCH' | 'MESSAGE' | 'AVATAR_UPLOAD';
+
+interface ExperimentVariant {
+  key: string;
+  weight: number;
+}
+
+interface Experiment {
+  key: string;
+  flagKey: string;
+  name: string;
+  description: string;
+  status: 'DRAFT' | 'RUNNING' | 'STOPPED';
+  variants: ExperimentVariant[];
+  metrics: ExperimentMetric[];
+  startedAt: string | null;
+  endedAt: string | null;
+  exposures: number;
+}
+
+interface MetricResult {
+  conversions: number;
+  rate: number;
+  interval: [number, number];
+  difference: { value: number; interval: [number, number]; significant: boolean } | null;
+}
+
+interface ExperimentResults {
+  experiment: Experiment;
+  variants: {
+    variant: string;
+    exposed: number;
+    metrics: Partial<Record<ExperimentMetric, MetricResult>>;
+  }[];
+}
+
+const METRIC_LABELS: Record<ExperimentMetric, string> = {
+  LIKE: 'Likes',
+  MATCH: 'Matches',
+  MESSAGE: 'Messages sent',
+  AVATAR_UPLOAD: 'Avatar uploads'
+};
+
+const STATUS_STYLES: Record<Experiment['status'], string> = {
+  DRAFT: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  RUNNING: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  STOPPED: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400'
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+interface ExperimentDashboardProps {
+  className?: string;
+}
+
+export function ExperimentDashboard({ className }: ExperimentDashboardProps) {
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [resultsKey, setResultsKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchExperiments();
+  }, []);
+
+  const fetchExperiments = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/experiments');
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch experiments: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setExperiments(data.experiments || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setStatus = async (experimentKey: string, status: 'RUNNING' | 'STOPPED') => {
+    try {
+      const response = await fetch(`/api/admin/experiments/${experimentKey}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update experiment');
+      }
+
+      await fetchExperiments(); // Refresh experiments
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update experiment');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className={cn('p-6 bg-white dark:bg-gray-800 rounded-lg shadow', className)}>
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-1/4"></div>
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 dark:bg-gray-700 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={cn('p-6 bg-white dark:bg-gray-800 rounded-lg shadow', className)}>
+        <div className="text-center text-red-600 dark:text-red-400">
+          <p className="text-lg font-semibold mb-2">Error Loading Experiments</p>
+          <p className="text-sm mb-4">{error}</p>
+          <button
+            onClick={fetchExperiments}
+            className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+              Experiments
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              A/B tests on members a feature flag is enabled for
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <a
+              href="/admin/feature-flags"
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              Feature Flags
+            </a>
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              New Experiment
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Experiments List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {experiments.length === 0 && (
+            <div className="p-6 text-center text-gray-500 dark:text-gray-400">No experiments yet</div>
+          )}
+          {experiments.map((experiment) => (
+            <div key={experiment.key} className="p-6">
+              <div className="flex items-center justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-3">
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                      {experiment.name}
+                    </h3>
+                    <span className={cn('px-2 py-1 text-xs font-medium rounded-full', STATUS_STYLES[experiment.status])}>
+                      {experiment.status.toLowerCase()}
+                    </span>
+                  </div>
+                  {experiment.description && (
+                    <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">{experiment.description}</p>
+                  )}
+                  <div className="mt-2 flex flex-wrap items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+                    <span>Key: {experiment.key}</span>
+                    <span>Flag: {experiment.flagKey}</span>
+                    <span>Variants: {experiment.variants.map(v => `${v.key} (${v.weight})`).join(', ')}</span>
+                    <span>Metrics: {experiment.metrics.map(m => METRIC_LABELS[m]).join(', ')}</span>
+                    <span>Exposures: {experiment.exposures}</span>
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => setResultsKey(experiment.key)}
+                    className="px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    Results
+                  </button>
+                  {experiment.status === 'DRAFT' && (
+                    <button
+                      onClick={() => setStatus(experiment.key, 'RUNNING')}
+                      className="px-3 py-2 text-sm bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+                    >
+                      Start
+                    </button>
+                  )}
+                  {experiment.status === 'RUNNING' && (
+                    <button
+                      onClick={() => setStatus(experiment.key, 'STOPPED')}
+                      className="px-3 py-2 text-sm bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                    >
+                      Stop
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {showCreateModal && (
+        <CreateExperimentModal
+          onCreated={async () => {
+            setShowCreateModal(false);
+            await fetchExperiments();
+          }}
+          onClose={() => setShowCreateModal(false)}
+        />
+      )}
+
+      {resultsKey && (
+        <ExperimentResultsModal experimentKey={resultsKey} onClose={() => setResultsKey(null)} />
+      )}
+    </div>
+  );
+}
+
+interface CreateExperimentModalProps {
+  onCreated: () => void;
+  onClose: () => void;
+}
+
+function CreateExperimentModal({ onCreated, onClose }: CreateExperimentModalProps) {
+  const [flagKeys, setFlagKeys] = useState<string[]>([]);
+  const [form, setForm] = useState({ key: '', flagKey: '', name: '', description: '' });
+  const [variants, setVariants] = useState<ExperimentVariant[]>([
+    { key: 'control', weight: 50 },
+    { key: 'treatment', weight: 50 }
+  ]);
+  const [metrics, setMetrics] = useState<ExperimentMetric[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/admin/feature-flags')
+      .then(response => response.json())
+      .then(data => setFlagKeys((data.flags || []).map((flag: { key: string }) => flag.key)))
+      .catch(err => console.error('Failed to fetch flags:', err));
+  }, []);
+
+  const updateVariant = (index: number, changes: Partial<ExperimentVariant>) => {
+    setVariants(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const response = await fetch('/api/admin/experiments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...form, variants, metrics })
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data.error || 'Failed to create experiment');
+      return;
+    }
+    onCreated();
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold">New Experiment</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          >
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Key</label>
+              <input
+                value={form.key}
+                onChange={(e) => setForm({ ...form, key: e.target.value })}
+                placeholder="avatar_upload_cta"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Feature Flag</label>
+              <select
+                value={form.flagKey}
+                onChange={(e) => setForm({ ...form, flagKey: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Select a flag</option>
+                {flagKeys.map((key) => (
+                  <option key={key} value={key}>{key}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Name</label>
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Description</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Variants (the first one is the control)
+            </label>
+            <div className="space-y-2">
+              {variants.map((variant, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <input
+                    value={variant.key}
+                    onChange={(e) => updateVariant(index, { key: e.target.value })}
+                    placeholder="Variant key"
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    min="1"
+                    value={variant.weight}
+                    onChange={(e) => updateVariant(index, { weight: parseInt(e.target.value) || 0 })}
+                    className={cn(inputClass, 'w-24')}
+                  />
+                  {variants.length > 2 && (
+                    <button
+                      type="button"
+                      onClick={() => setVariants(variants.filter((_, i) => i !== index))}
+                      className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setVariants([...variants, { key: '', weight: 50 }])}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-700"
+            >
+              Add variant
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Conversion Metrics</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(METRIC_LABELS) as ExperimentMetric[]).map((metric) => (
+                <label key={metric} className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={metrics.includes(metric)}
+                    onChange={(e) => setMetrics(e.target.checked
+                      ? [...metrics, metric]
+                      : metrics.filter(m => m !== metric))}
+                    className="mr-2"
+                  />
+                  {METRIC_LABELS[metric]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-200 dark:bg-gray-600 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Create Draft
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface ExperimentResultsModalProps {
+  experimentKey: string;
+  onClose: () => void;
+}
+
+function ExperimentResultsModal({ experimentKey, onClose }: ExperimentResultsModalProps) {
+  const [results, setResults] = useState<ExperimentResults | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/admin/experiments/${experimentKey}/results`)
+      .then(response => response.json())
+      .then(data => setResults(data))
+      .catch(err => console.error('Failed to fetch experiment results:', err));
+  }, [experimentKey]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold">Results: {results?.experiment.name ?? experimentKey}</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          >
+            ×
+          </button>
+        </div>
+
+        {!results?.experiment ? (
+          <div className="animate-pulse h-32 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {results.experiment.exposures} members exposed. Conversions count activity after a member&apos;s
+              first exposure; intervals are 95%.
+            </p>
+            {results.experiment.metrics.map((metric) => (
+              <div key={metric}>
+                <h4 className="font-medium mb-2">{METRIC_LABELS[metric]}</h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2">Variant</th>
+                      <th>Exposed</th>
+                      <th>Converted</th>
+                      <th>Rate</th>
+                      <th>vs. control</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.variants.map(({ variant, exposed, metrics }) => {
+                      const result = metrics[metric];
+                      if (!result) return null;
+                      return (
+                        <tr key={variant} className="border-b border-gray-100 dark:border-gray-700">
+                          <td className="py-2 font-medium">{variant}</td>
+                          <td>{exposed}</td>
+                          <td>{result.conversions}</td>
+                          <td>
+                            {percent(result.rate)}
+                            <span className="ml-1 text-xs text-gray-500">
+                              ({percent(result.interval[0])} – {percent(result.interval[1])})
+                            </span>
+                          </td>
+                          <td>
+                            {result.difference ? (
+                              <span className={cn(result.difference.significant && (result.difference.value > 0
+                                ? 'text-green-600 dark:text-green-400'
+                                : 'text-red-600 dark:text-red-400'))}>
+                                {result.difference.value >= 0 ? '+' : ''}{percent(result.difference.value)}
+                                <span className="ml-1 text-xs text-gray-500">
+                                  ({percent(result.difference.interval[0])} – {percent(result.difference.interval[1])})
+                                </span>
+                              </span>
+                            ) : (
+                              <span className="text-gray-500">control</span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
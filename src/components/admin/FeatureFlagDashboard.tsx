@@ -14,9 +14,38 @@ interface FeatureFlag {
     createdAt: string;
     updatedAt: string;
     createdBy: string;
+    updatedBy?: string;
+    version?: number;
   };
 }
 
+interface FlagGuard {
+  id: string;
+  signal: 'HEALTH_CHECK' | 'UPLOAD_ERROR_RATE' | 'ACCESS_ERROR_RATE';
+  check: string | null;
+  threshold: number;
+  windowMinutes: number;
+  minEvents: number;
+  action: 'DISABLE' | 'ROLLBACK';
+  enabled: boolean;
+  lastTriggeredAt: string | null;
+  lastReason: string | null;
+}
+
+interface FlagVersion {
+  id: string;
+  version: number;
+  change: 'CREATE' | 'UPDATE' | 'ROLLOUT' | 'ROLLBACK';
+  snapshot: {
+    enabled: boolean;
+    rolloutPercentage: number;
+    rollout: RolloutConfig | null;
+  };
+  changedBy: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
 interface RolloutConfig {
   strategy: 'percentage' | 'user_segments' | 'conditional' | 'hybrid';
   percentage: number;
@@ -37,6 +66,8 @@ export function FeatureFlagDashboard({ className }: FeatureFlagDashboardProps) {
   const [error, setError] = useState<string | null>(null);
   const [selectedFlag, setSelectedFlag] = useState<FeatureFlag | null>(null);
   const [showRolloutModal, setShowRolloutModal] = useState(false);
+  const [historyFlag, setHistoryFlag] = useState<FeatureFlag | null>(null);
+  const [guardsFlag, setGuardsFlag] = useState<FeatureFlag | null>(null);
 
   useEffect(() => {
     fetchFlags();
@@ -99,6 +130,25 @@ export function FeatureFlagDashboard({ className }: FeatureFlagDashboardProps) {
     }
   };
 
+  const rollbackFlag = async (flagKey: string, version: number) => {
+    try {
+      const response = await fetch(`/api/admin/feature-flags/${flagKey}/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to roll back flag');
+      }
+
+      await fetchFlags(); // Refresh flags
+      setHistoryFlag(null);
+    } catch (err) {
+      console.error('Failed to roll back flag:', err);
+    }
+  };
+
   if (loading) {
     return (
       <div className={cn('p-6 bg-white dark:bg-gray-800 rounded-lg shadow', className)}>
@@ -144,12 +194,20 @@ export function FeatureFlagDashboard({ className }: FeatureFlagDashboardProps) {
               Control feature rollouts and manage user access
             </p>
           </div>
-          <button
-            onClick={fetchFlags}
-            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-          >
-            Refresh
-          </button>
+          <div className="flex items-center space-x-3">
+            <a
+              href="/admin/experiments"
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              Experiments
+            </a>
+            <button
+              onClick={fetchFlags}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Refresh
+            </button>
+          </div>
         </div>
 
         {/* Statistics */}
@@ -217,7 +275,8 @@ export function FeatureFlagDashboard({ className }: FeatureFlagDashboardProps) {
                   </p>
                   <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500 dark:text-gray-400">
                     <span>Updated: {new Date(flag.metadata.updatedAt).toLocaleDateString()}</span>
-                    <span>By: {flag.metadata.createdBy}</span>
+                    <span>By: {flag.metadata.updatedBy ?? flag.metadata.createdBy}</span>
+                    {flag.metadata.version && <span>Version: {flag.metadata.version}</span>}
                     {flag.userSegments.length > 0 && (
                       <span>Segments: {flag.userSegments.join(', ')}</span>
                     )}
@@ -225,6 +284,18 @@ export function FeatureFlagDashboard({ className }: FeatureFlagDashboardProps) {
                 </div>
                 
                 <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => setGuardsFlag(flag)}
+                    className="px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    Guards
+                  </button>
+                  <button
+                    onClick={() => setHistoryFlag(flag)}
+                    className="px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    History
+                  </button>
                   <button
                     onClick={() => {
                       setSelectedFlag(flag);
@@ -262,6 +333,299 @@ export function FeatureFlagDashboard({ className }: FeatureFlagDashboardProps) {
           }}
         />
       )}
+
+      {/* Version History Modal */}
+      {historyFlag && (
+        <FlagHistoryModal
+          flag={historyFlag}
+          onRollback={(version) => rollbackFlag(historyFlag.key, version)}
+          onClose={() => setHistoryFlag(null)}
+        />
+      )}
+
+      {/* Guards Modal */}
+      {guardsFlag && (
+        <FlagGuardsModal flag={guardsFlag} onClose={() => setGuardsFlag(null)} />
+      )}
+    </div>
+  );
+}
+
+const HEALTH_CHECKS = ['database', 'walrus', 'seal', 'cache', 'analytics'];
+
+function describeGuard(guard: FlagGuard): string {
+  const then = guard.action === 'ROLLBACK' ? 'roll back' : 'disable';
+  if (guard.signal === 'HEALTH_CHECK') {
+    return `${then} if the ${guard.check} health check fails ${guard.threshold} times in ${guard.windowMinutes} minutes`;
+  }
+  const label = guard.signal === 'UPLOAD_ERROR_RATE' ? 'upload' : 'access';
+  return `${then} if the avatar ${label} error rate exceeds ${guard.threshold}% over ${guard.windowMinutes} minutes (at least ${guard.minEvents} events)`;
+}
+
+interface FlagGuardsModalProps {
+  flag: FeatureFlag;
+  onClose: () => void;
+}
+
+function FlagGuardsModal({ flag, onClose }: FlagGuardsModalProps) {
+  const [guards, setGuards] = useState<FlagGuard[] | null>(null);
+  const [form, setForm] = useState({
+    signal: 'HEALTH_CHECK' as FlagGuard['signal'],
+    check: 'seal',
+    threshold: 3,
+    windowMinutes: 5,
+    minEvents: 20,
+    action: 'DISABLE' as FlagGuard['action']
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const guardsUrl = `/api/admin/feature-flags/${flag.key}/guards`;
+
+  const fetchGuards = async () => {
+    try {
+      const response = await fetch(guardsUrl);
+      const data = await response.json();
+      setGuards(data.guards || []);
+    } catch (err) {
+      console.error('Failed to fetch guards:', err);
+      setGuards([]);
+    }
+  };
+
+  useEffect(() => {
+    fetchGuards();
+  }, []);
+
+  const send = async (method: string, body?: object, query = '') => {
+    setError(null);
+    const response = await fetch(`${guardsUrl}${query}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data.error || 'Failed to update guards');
+      return;
+    }
+    await fetchGuards();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send('POST', {
+      ...form,
+      check: form.signal === 'HEALTH_CHECK' ? form.check : null
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold">Guards: {flag.key}</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          >
+            ×
+          </button>
+        </div>
+
+        {!guards ? (
+          <div className="animate-pulse h-16 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700 mb-6">
+            {guards.length === 0 && (
+              <p className="py-3 text-sm text-gray-500 dark:text-gray-400">No guards on this flag</p>
+            )}
+            {guards.map((guard) => (
+              <div key={guard.id} className="py-3 flex items-center justify-between">
+                <div className={cn('text-sm', !guard.enabled && 'opacity-50')}>
+                  <div className="font-medium">{describeGuard(guard)}</div>
+                  {guard.lastTriggeredAt && (
+                    <div className="text-xs text-red-600 dark:text-red-400">
+                      Tripped {new Date(guard.lastTriggeredAt).toLocaleString()}: {guard.lastReason}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => send('PATCH', { id: guard.id, enabled: !guard.enabled })}
+                    className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    {guard.enabled ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => send('DELETE', undefined, `?id=${guard.id}`)}
+                    className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Signal</label>
+              <select
+                value={form.signal}
+                onChange={(e) => setForm({ ...form, signal: e.target.value as FlagGuard['signal'] })}
+                className={inputClass}
+              >
+                <option value="HEALTH_CHECK">Health check failures</option>
+                <option value="UPLOAD_ERROR_RATE">Avatar upload error rate</option>
+                <option value="ACCESS_ERROR_RATE">Avatar access error rate</option>
+              </select>
+            </div>
+            {form.signal === 'HEALTH_CHECK' ? (
+              <div>
+                <label className="block text-sm font-medium mb-2">Check</label>
+                <select
+                  value={form.check}
+                  onChange={(e) => setForm({ ...form, check: e.target.value })}
+                  className={inputClass}
+                >
+                  {HEALTH_CHECKS.map((check) => (
+                    <option key={check} value={check}>{check}</option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium mb-2">Minimum Events</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={form.minEvents}
+                  onChange={(e) => setForm({ ...form, minEvents: parseInt(e.target.value) || 1 })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                {form.signal === 'HEALTH_CHECK' ? 'Failures' : 'Error Rate (%)'}
+              </label>
+              <input
+                type="number"
+                min="0"
+                step={form.signal === 'HEALTH_CHECK' ? 1 : 0.1}
+                value={form.threshold}
+                onChange={(e) => setForm({ ...form, threshold: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Window (minutes)</label>
+              <input
+                type="number"
+                min="1"
+                value={form.windowMinutes}
+                onChange={(e) => setForm({ ...form, windowMinutes: parseInt(e.target.value) || 1 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Action</label>
+              <select
+                value={form.action}
+                onChange={(e) => setForm({ ...form, action: e.target.value as FlagGuard['action'] })}
+                className={inputClass}
+              >
+                <option value="DISABLE">Disable the flag</option>
+                <option value="ROLLBACK">Roll back to the previous version</option>
+              </select>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Add Guard
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface FlagHistoryModalProps {
+  flag: FeatureFlag;
+  onRollback: (version: number) => void;
+  onClose: () => void;
+}
+
+function FlagHistoryModal({ flag, onRollback, onClose }: FlagHistoryModalProps) {
+  const [versions, setVersions] = useState<FlagVersion[] | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/admin/feature-flags/${flag.key}/history`)
+      .then(response => response.json())
+      .then(data => setVersions(data.versions || []))
+      .catch(err => {
+        console.error('Failed to fetch flag history:', err);
+        setVersions([]);
+      });
+  }, [flag.key]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold">History: {flag.key}</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          >
+            ×
+          </button>
+        </div>
+
+        {!versions ? (
+          <div className="animate-pulse h-16 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {versions.map((version) => (
+              <div key={version.id} className="py-3 flex items-center justify-between">
+                <div className="text-sm">
+                  <div className="font-medium">
+                    v{version.version} · {version.change.toLowerCase()}
+                    <span className="ml-2 text-gray-500">
+                      {version.snapshot.enabled ? 'Enabled' : 'Disabled'}
+                      {version.snapshot.rollout && `, ${version.snapshot.rollout.strategy} ${version.snapshot.rollout.percentage}%`}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(version.createdAt).toLocaleString()} by {version.changedBy ?? 'system'}
+                    {version.note && ` - ${version.note}`}
+                  </div>
+                </div>
+                {version.version !== flag.metadata.version && (
+                  <button
+                    onClick={() => onRollback(version.version)}
+                    className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    Roll back
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
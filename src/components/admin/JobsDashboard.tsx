@@ -0,0 +1,315 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { cn } from '@/lib/utils';
+
+type JobRunStatus = 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+interface JobRun {
+  id: string;
+  jobName: string;
+  trigger: 'SCHEDULE' | 'MANUAL';
+  triggeredBy: string | null;
+  status: JobRunStatus;
+  result: unknown;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+}
+
+interface Job {
+  name: string;
+  description: string;
+  schedule: string;
+  paused: boolean;
+  running: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastRun: JobRun | null;
+}
+
+const RUN_STATUS_STYLES: Record<JobRunStatus, string> = {
+  RUNNING: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
+  SUCCEEDED: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  FAILED: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+interface JobsDashboardProps {
+  className?: string;
+}
+
+export function JobsDashboard({ className }: JobsDashboardProps) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+  const [historyJob, setHistoryJob] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  const fetchJobs = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/jobs');
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch jobs: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setJobs(data.jobs || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runJob = async (jobName: string) => {
+    try {
+      setRunningJob(jobName);
+      const response = await fetch(`/api/admin/jobs/${jobName}/run`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run job');
+      }
+      if (data.run.status === 'FAILED') {
+        alert(`${jobName} failed: ${data.run.error}`);
+      }
+
+      await fetchJobs(); // Refresh jobs
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to run job');
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  const setPaused = async (jobName: string, paused: boolean) => {
+    try {
+      const response = await fetch(`/api/admin/jobs/${jobName}/pause`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paused })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update job');
+      }
+
+      await fetchJobs(); // Refresh jobs
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update job');
+    }
+  };
+
+  if (loading && jobs.length === 0) {
+    return (
+      <div className={cn('p-6 bg-white dark:bg-gray-800 rounded-lg shadow', className)}>
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-1/4"></div>
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 dark:bg-gray-700 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={cn('p-6 bg-white dark:bg-gray-800 rounded-lg shadow', className)}>
+        <div className="text-center text-red-600 dark:text-red-400">
+          <p className="text-lg font-semibold mb-2">Error Loading Jobs</p>
+          <p className="text-sm mb-4">{error}</p>
+          <button
+            onClick={fetchJobs}
+            className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+              Scheduled Jobs
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Maintenance tasks run by the job runner. Schedules are in UTC.
+            </p>
+          </div>
+          <button
+            onClick={fetchJobs}
+            className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Jobs List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {jobs.map((job) => (
+            <div key={job.name} className="p-6">
+              <div className="flex items-center justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-3">
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-white font-mono">
+                      {job.name}
+                    </h3>
+                    {job.paused && (
+                      <span className="px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400">
+                        paused
+                      </span>
+                    )}
+                    {job.running && (
+                      <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400">
+                        running
+                      </span>
+                    )}
+                    {job.lastRun && !job.running && (
+                      <span className={cn('px-2 py-1 text-xs font-medium rounded-full', RUN_STATUS_STYLES[job.lastRun.status])}>
+                        last run {job.lastRun.status.toLowerCase()}
+                      </span>
+                    )}
+                  </div>
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">{job.description}</p>
+                  <div className="mt-2 flex flex-wrap items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+                    <span className="font-mono">{job.schedule}</span>
+                    <span>Next: {job.paused ? '—' : formatDate(job.nextRunAt)}</span>
+                    <span>Last: {formatDate(job.lastRunAt)}</span>
+                    {job.lastRun && <span>Took: {formatDuration(job.lastRun.durationMs)}</span>}
+                  </div>
+                  {job.lastRun?.error && (
+                    <p className="mt-2 text-xs text-red-600 dark:text-red-400 truncate" title={job.lastRun.error}>
+                      {job.lastRun.error}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  <button
+                    onClick={() => setHistoryJob(job.name)}
+                    className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    History
+                  </button>
+                  <button
+                    onClick={() => setPaused(job.name, !job.paused)}
+                    className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    {job.paused ? 'Resume' : 'Pause'}
+                  </button>
+                  <button
+                    onClick={() => runJob(job.name)}
+                    disabled={job.running || runningJob !== null}
+                    className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                  >
+                    {runningJob === job.name ? 'Running…' : 'Run now'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {historyJob && (
+        <HistoryModal jobName={historyJob} onClose={() => setHistoryJob(null)} />
+      )}
+    </div>
+  );
+}
+
+interface HistoryModalProps {
+  jobName: string;
+  onClose: () => void;
+}
+
+function HistoryModal({ jobName, onClose }: HistoryModalProps) {
+  const [runs, setRuns] = useState<JobRun[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/admin/jobs/${jobName}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load history');
+        setRuns(data.runs);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load history'));
+  }, [jobName]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white font-mono">{jobName}</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            >
+              ✕
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          {!runs && !error && <p className="text-sm text-gray-500 dark:text-gray-400">Loading…</p>}
+          {runs?.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">No runs yet</p>}
+
+          <div className="space-y-3">
+            {runs?.map((run) => (
+              <div key={run.id} className="p-3 border border-gray-200 dark:border-gray-700 rounded">
+                <div className="flex items-center justify-between text-sm">
+                  <div className="flex items-center space-x-3">
+                    <span className={cn('px-2 py-0.5 text-xs font-medium rounded-full', RUN_STATUS_STYLES[run.status])}>
+                      {run.status.toLowerCase()}
+                    </span>
+                    <span className="text-gray-900 dark:text-gray-100">{formatDate(run.startedAt)}</span>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {run.trigger === 'MANUAL' ? 'manual' : 'scheduled'}
+                    </span>
+                  </div>
+                  <span className="text-gray-500 dark:text-gray-400">{formatDuration(run.durationMs)}</span>
+                </div>
+                {run.error && (
+                  <pre className="mt-2 p-2 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded text-xs whitespace-pre-wrap">
+                    {run.error}
+                  </pre>
+                )}
+                {run.result != null && (
+                  <pre className="mt-2 p-2 bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded text-xs overflow-x-auto">
+                    {JSON.stringify(run.result, null, 2)}
+                  </pre>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
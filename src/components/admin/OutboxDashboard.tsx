@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { cn } from '@/lib/utils';
+
+type OutboxStatus = 'PENDING' | 'PROCESSING' | 'DONE' | 'DEAD';
+type OutboxFilter = OutboxStatus | 'STUCK';
+
+interface OutboxMessage {
+  id: string;
+  eventType: string;
+  subscriber: string;
+  payload: unknown;
+  status: OutboxStatus;
+  attempts: number;
+  availableAt: string;
+  lockedAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  processedAt: string | null;
+}
+
+const FILTERS: { key: OutboxFilter; label: string }[] = [
+  { key: 'STUCK', label: 'Stuck' },
+  { key: 'PENDING', label: 'Pending' },
+  { key: 'PROCESSING', label: 'Processing' },
+  { key: 'DEAD', label: 'Dead' },
+  { key: 'DONE', label: 'Delivered' }
+];
+
+const STATUS_STYLES: Record<OutboxStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
+  PROCESSING: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
+  DONE: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  DEAD: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+};
+
+interface OutboxDashboardProps {
+  className?: string;
+}
+
+export function OutboxDashboard({ className }: OutboxDashboardProps) {
+  const [filter, setFilter] = useState<OutboxFilter>('STUCK');
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [counts, setCounts] = useState<Record<OutboxStatus, number> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<OutboxMessage | null>(null);
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/admin/outbox?status=${filter}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch outbox: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setMessages(data.messages || []);
+      setCounts(data.counts || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  const retryMessage = async (messageId: string) => {
+    try {
+      const response = await fetch(`/api/admin/outbox/${messageId}/retry`, { method: 'POST' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to retry message');
+      }
+
+      await fetchMessages(); // Refresh messages
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to retry message');
+    }
+  };
+
+  const discardMessage = async (messageId: string) => {
+    if (!confirm('Discard this message? Its side effect will never be delivered.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/outbox/${messageId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to discard message');
+      }
+
+      await fetchMessages(); // Refresh messages
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to discard message');
+    }
+  };
+
+  const countFor = (key: OutboxFilter) => (counts && key !== 'STUCK' ? counts[key] : null);
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+              Outbox
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Side effects of likes, matches and messages waiting to be delivered
+            </p>
+          </div>
+          <button
+            onClick={fetchMessages}
+            className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {/* Status Tabs */}
+        <div className="mt-6 flex flex-wrap gap-2">
+          {FILTERS.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setFilter(key)}
+              className={cn(
+                'px-3 py-1.5 text-sm rounded-md transition-colors',
+                filter === key
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              )}
+            >
+              {label}
+              {countFor(key) !== null && <span className="ml-2 opacity-75">{countFor(key)}</span>}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+        {loading ? (
+          <div className="p-6 animate-pulse space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 dark:bg-gray-700 rounded"></div>
+            ))}
+          </div>
+        ) : error ? (
+          <div className="p-6 text-center text-red-600 dark:text-red-400">
+            <p className="text-sm mb-4">{error}</p>
+            <button
+              onClick={fetchMessages}
+              className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+            >
+              Retry
+            </button>
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="p-6 text-center text-gray-500 dark:text-gray-400">No messages</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900/50">
+              <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                <th className="px-4 py-3">Event</th>
+                <th className="px-4 py-3">Subscriber</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3">Attempts</th>
+                <th className="px-4 py-3">Last error</th>
+                <th className="px-4 py-3">Next attempt</th>
+                <th className="px-4 py-3">Created</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {messages.map((message) => (
+                <tr key={message.id} className="text-gray-900 dark:text-gray-100">
+                  <td className="px-4 py-3">
+                    <button onClick={() => setSelected(message)} className="font-mono text-blue-600 dark:text-blue-400 hover:underline">
+                      {message.eventType}
+                    </button>
+                  </td>
+                  <td className="px-4 py-3 font-mono">{message.subscriber}</td>
+                  <td className="px-4 py-3">
+                    <span className={cn('px-2 py-1 text-xs font-medium rounded-full', STATUS_STYLES[message.status])}>
+                      {message.status.toLowerCase()}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">{message.attempts}</td>
+                  <td className="px-4 py-3 max-w-xs truncate text-red-600 dark:text-red-400" title={message.lastError ?? ''}>
+                    {message.lastError ?? '—'}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {message.status === 'PENDING' ? new Date(message.availableAt).toLocaleString() : '—'}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">{new Date(message.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right space-x-2">
+                    {(message.status === 'DEAD' || message.status === 'PENDING') && (
+                      <button
+                        onClick={() => retryMessage(message.id)}
+                        className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                      >
+                        Retry
+                      </button>
+                    )}
+                    {message.status === 'DEAD' && (
+                      <button
+                        onClick={() => discardMessage(message.id)}
+                        className="px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                      >
+                        Discard
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {selected && (
+        <MessageModal message={selected} onClose={() => setSelected(null)} />
+      )}
+    </div>
+  );
+}
+
+interface MessageModalProps {
+  message: OutboxMessage;
+  onClose: () => void;
+}
+
+function MessageModal({ message, onClose }: MessageModalProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white font-mono">
+              {message.eventType} → {message.subscriber}
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            >
+              ✕
+            </button>
+          </div>
+
+          <dl className="grid grid-cols-2 gap-3 text-sm mb-4">
+            <dt className="text-gray-500 dark:text-gray-400">ID</dt>
+            <dd className="font-mono text-gray-900 dark:text-gray-100">{message.id}</dd>
+            <dt className="text-gray-500 dark:text-gray-400">Attempts</dt>
+            <dd className="text-gray-900 dark:text-gray-100">{message.attempts}</dd>
+            <dt className="text-gray-500 dark:text-gray-400">Processed</dt>
+            <dd className="text-gray-900 dark:text-gray-100">
+              {message.processedAt ? new Date(message.processedAt).toLocaleString() : '—'}
+            </dd>
+          </dl>
+
+          {message.lastError && (
+            <div className="mb-4">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Last error</h3>
+              <pre className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded text-xs whitespace-pre-wrap">
+                {message.lastError}
+              </pre>
+            </div>
+          )}
+
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Payload</h3>
+          <pre className="p-3 bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded text-xs overflow-x-auto">
+            {JSON.stringify(message.payload, null, 2)}
+          </pre>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
@@ -11,24 +11,172 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Users } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Loader2, Search, Users } from "lucide-react";
 import { useFilters } from "@/hooks/useFilters";
 import { cn } from "@/lib/utils";
+import SavedSearchMenu from "./SavedSearchMenu";
+
+const ANY_LOCATION = "any";
+const SEARCH_DEBOUNCE_MS = 400;
+
+type SearchInputProps = {
+  value: string;
+  onSearch: (value: string) => void;
+  className?: string;
+};
+
+// Keeps typing local and only pushes the query to the URL once it settles
+function SearchInput({ value, onSearch, className }: SearchInputProps) {
+  const [text, setText] = useState(value);
+  const onSearchRef = useRef(onSearch);
+  onSearchRef.current = onSearch;
+
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  useEffect(() => {
+    if (text === value) return;
+    const timeout = setTimeout(() => onSearchRef.current(text), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [text, value]);
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        value={text}
+        placeholder="Search name, city, bio..."
+        maxLength={100}
+        className="h-9 pl-8"
+        onChange={(e) => setText(e.target.value)}
+      />
+    </div>
+  );
+}
+
+type AdvancedFiltersProps = {
+  filterState: ReturnType<typeof useFilters>;
+  compact?: boolean;
+};
+
+function AdvancedFilters({ filterState, compact }: AdvancedFiltersProps) {
+  const {
+    distanceList,
+    locationList,
+    interestList,
+    selectLocation,
+    selectDistance,
+    selectInterest,
+    toggleFilter,
+    filters,
+  } = filterState;
+
+  const { city, country, distance, interests, withPhoto, onlineOnly, verifiedOnly } = filters;
+  const location = country ? (city ? `${country}|${city}` : country) : ANY_LOCATION;
+  const countries = Array.from(new Set(locationList.map((l) => l.country)));
+  const triggerClass = compact ? "h-8 text-xs" : "h-9";
+
+  const toggles = [
+    { name: "withPhoto" as const, label: "Has photo", checked: withPhoto },
+    { name: "onlineOnly" as const, label: "Online now", checked: onlineOnly },
+    { name: "verifiedOnly" as const, label: "Verified only", checked: verifiedOnly },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-4">
+      {/* Location Select */}
+      <div className={compact ? "flex-1 min-w-[140px]" : "min-w-[180px]"}>
+        <Select
+          value={location}
+          onValueChange={(value) => selectLocation(value === ANY_LOCATION ? "" : value)}
+        >
+          <SelectTrigger className={triggerClass}>
+            <SelectValue placeholder="Location" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_LOCATION}>Anywhere</SelectItem>
+            {countries.map((countryName) => (
+              <React.Fragment key={countryName}>
+                <SelectItem value={countryName}>{countryName}</SelectItem>
+                {locationList
+                  .filter((l) => l.country === countryName)
+                  .map((l) => (
+                    <SelectItem key={`${l.country}|${l.city}`} value={`${l.country}|${l.city}`}>
+                      <span className="pl-3">{l.city}</span>
+                    </SelectItem>
+                  ))}
+              </React.Fragment>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Distance Select */}
+      <div className={compact ? "flex-1 min-w-[120px]" : "min-w-[150px]"}>
+        <Select value={distance.toString()} onValueChange={(value) => selectDistance(Number(value))}>
+          <SelectTrigger className={triggerClass}>
+            <SelectValue placeholder="Distance" />
+          </SelectTrigger>
+          <SelectContent>
+            {distanceList.map((item) => (
+              <SelectItem key={item.value} value={item.value.toString()}>
+                {item.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Toggle Filters */}
+      {toggles.map(({ name, label, checked }) => (
+        <div key={name} className="flex items-center gap-2">
+          <Switch id={`filter-${name}`} checked={checked} onCheckedChange={(value) => toggleFilter(name, value)} />
+          <Label htmlFor={`filter-${name}`} className="text-sm font-medium">
+            {label}
+          </Label>
+        </div>
+      ))}
+
+      {/* Interests */}
+      {interestList.length > 0 && (
+        <div className="flex flex-wrap gap-1 w-full">
+          {interestList.map((interest) => (
+            <Badge
+              key={interest}
+              variant={interests.includes(interest) ? "default" : "outline"}
+              className="cursor-pointer capitalize"
+              onClick={() => selectInterest(interest)}
+            >
+              {interest}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
 
 export default function Filters() {
+  const filterState = useFilters();
   const {
     orderByList,
     genderList,
     selectAge,
     selectGender,
     selectOrder,
+    setQuery,
 
     filters,
     totalCount,
     isPending,
-  } = useFilters();
+    currentSearchParams,
+    applySavedSearch,
+  } = filterState;
 
-  const { gender, ageRange, orderBy } = filters;
+  const { q, gender, ageRange, orderBy } = filters;
 
   return (
     <div className="border-b bg-gradient-to-r from-background via-muted/20 to-background shadow-sm backdrop-blur-sm">
@@ -50,6 +198,9 @@ export default function Filters() {
             </div>
           </div>
 
+          {/* Keyword Search */}
+          <SearchInput value={q} onSearch={setQuery} className="min-w-[200px] flex-1" />
+
           {/* Gender Filter */}
           <div className="flex gap-2 items-center">
             <Label className="text-sm font-medium">Gender:</Label>
@@ -108,6 +259,11 @@ export default function Filters() {
           </div>
         </div>
 
+        <div className="hidden md:flex justify-between items-start gap-4 mt-4">
+          <AdvancedFilters filterState={filterState} />
+          <SavedSearchMenu currentSearchParams={currentSearchParams} onApply={applySavedSearch} />
+        </div>
+
         {/* Mobile Layout */}
         <div className="md:hidden space-y-4">
           {/* Results and Photo Switch Row */}
@@ -126,6 +282,8 @@ export default function Filters() {
 
           </div>
 
+          <SearchInput value={q} onSearch={setQuery} />
+
           {/* Gender and Order Row */}
           <div className="flex justify-between items-center gap-4">
             <div className="flex gap-2 items-center">
@@ -175,6 +333,10 @@ export default function Filters() {
               className="w-full"
             />
           </div>
+
+          <AdvancedFilters filterState={filterState} compact />
+
+          <SavedSearchMenu currentSearchParams={currentSearchParams} onApply={applySavedSearch} />
         </div>
       </div>
     </div>
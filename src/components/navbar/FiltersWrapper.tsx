@@ -2,8 +2,13 @@
 
 import { usePathname } from "next/navigation";
 import React from "react";
+import Filters from "./Filters";
 
 export default function FiltersWrapper() {
-  // Filters removed - using random swipe mode only
-  return null;
+  const pathname = usePathname();
+
+  // Filters narrow the discovery deck, so they only apply on /members
+  if (pathname !== "/members") return null;
+
+  return <Filters />;
 }
@@ -0,0 +1,151 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  deleteSavedSearch,
+  getSavedSearches,
+  saveSearch,
+  setSavedSearchAlerts,
+  type SavedSearchDto,
+} from "@/app/actions/savedSearchActions";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Bell, BellOff, Bookmark, BookmarkPlus, Trash2 } from "lucide-react";
+import { toast } from "react-toastify";
+import type { GetMemberParams } from "@/types";
+
+type Props = {
+  currentSearchParams: Record<string, string>;
+  onApply: (params: GetMemberParams) => void;
+};
+
+export default function SavedSearchMenu({ currentSearchParams, onApply }: Props) {
+  const [searches, setSearches] = useState<SavedSearchDto[]>([]);
+  const [name, setName] = useState("");
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getSavedSearches().then(setSearches).catch(console.log);
+  }, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await saveSearch({ name, params: currentSearchParams });
+    setIsSaving(false);
+
+    if (result.status === "error") {
+      toast.error(typeof result.error === "string" ? result.error : result.error[0]?.message);
+      return;
+    }
+
+    setSearches((prev) => [result.data, ...prev.filter((s) => s.id !== result.data.id)]);
+    setName("");
+    setSaveOpen(false);
+    toast.success(`Saved "${result.data.name}"`);
+  };
+
+  const handleDelete = async (search: SavedSearchDto) => {
+    const result = await deleteSavedSearch(search.id);
+    if (result.status === "success") {
+      setSearches((prev) => prev.filter((s) => s.id !== search.id));
+    }
+  };
+
+  const handleToggleAlerts = async (search: SavedSearchDto) => {
+    const result = await setSavedSearchAlerts(search.id, !search.alertsEnabled);
+    if (result.status === "success") {
+      setSearches((prev) =>
+        prev.map((s) => (s.id === search.id ? { ...s, alertsEnabled: result.data } : s))
+      );
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" className="h-9 gap-2">
+            <Bookmark className="h-4 w-4" />
+            Saved
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Saved searches</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {searches.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">No saved searches yet</p>
+          )}
+          {searches.map((search) => (
+            <DropdownMenuItem
+              key={search.id}
+              className="flex justify-between gap-2"
+              onSelect={() => onApply(search.params)}
+            >
+              <span className="truncate">{search.name}</span>
+              <span className="flex gap-1">
+                <button
+                  type="button"
+                  aria-label={search.alertsEnabled ? "Turn off alerts" : "Turn on alerts"}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleToggleAlerts(search);
+                  }}
+                >
+                  {search.alertsEnabled ? (
+                    <Bell className="h-4 w-4" />
+                  ) : (
+                    <BellOff className="h-4 w-4 text-muted-foreground" />
+                  )}
+                </button>
+                <button
+                  type="button"
+                  aria-label="Delete saved search"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(search);
+                  }}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </button>
+              </span>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Popover open={saveOpen} onOpenChange={setSaveOpen}>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="ghost" className="h-9 w-9 p-0" aria-label="Save this search">
+            <BookmarkPlus className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64 space-y-2">
+          <p className="text-sm font-medium">Save these filters</p>
+          <Input
+            value={name}
+            placeholder="e.g. Hanoi, 25-30"
+            maxLength={50}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && name.trim() && handleSave()}
+          />
+          <p className="text-xs text-muted-foreground">
+            We&apos;ll let you know when new members match.
+          </p>
+          <Button size="sm" className="w-full" disabled={!name.trim() || isSaving} onClick={handleSave}>
+            Save search
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
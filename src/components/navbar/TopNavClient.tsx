@@ -10,6 +10,8 @@ import { ConnectWalletButton } from '../ConnectWalletButton'
 import { useAuthStore } from '@/hooks/useAuthStore'
 import { useSession } from 'next-auth/react'
 import { cn } from '@/lib/utils'
+import { canModerate } from '@/lib/roles'
+import type { Role } from '@prisma/client'
 
 type UserInfo = {
   name: string | null
@@ -18,7 +20,7 @@ type UserInfo = {
 
 interface Props {
   initialUserInfo: UserInfo
-  initialRole: 'ADMIN' | 'MEMBER' | null
+  initialRole: Role | null
 }
 
 export default function TopNavClient({ initialUserInfo, initialRole }: Props) {
@@ -45,15 +47,16 @@ export default function TopNavClient({ initialUserInfo, initialRole }: Props) {
     { href: '/messages', label: 'Messages' },
   ]
 
+  const role = session?.user?.role || initialRole
   const adminLinks = [
     {
       href: '/admin/moderation',
-      label: 'Photo Moderation',
+      label: 'Moderation',
     },
+    ...(role === 'ADMIN' ? [{ href: '/admin/audit', label: 'Audit Log' }] : []),
   ]
 
-  const role = session?.user?.role || initialRole
-  const links = role === 'ADMIN' ? adminLinks : memberLinks
+  const links = canModerate(role) ? adminLinks : memberLinks
   const isLoggedIn = status === 'authenticated' && (isAuthenticated || !!session?.user)
   const showLinks = isLoggedIn
 
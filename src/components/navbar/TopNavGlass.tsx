@@ -8,6 +8,8 @@ import FiltersWrapper from "./FiltersWrapper";
 import { useAuthStore } from "@/hooks/useAuthStore";
 import { useSession } from "next-auth/react";
 import { cn } from "@/lib/utils";
+import { canModerate } from "@/lib/roles";
+import type { Role } from "@prisma/client";
 
 type UserInfo = {
   name: string | null;
@@ -16,7 +18,7 @@ type UserInfo = {
 
 interface Props {
   initialUserInfo: UserInfo;
-  initialRole: "ADMIN" | "MEMBER" | null;
+  initialRole: Role | null;
 }
 
 export default function TopNavGlass({ initialUserInfo, initialRole }: Props) {
@@ -46,15 +48,16 @@ export default function TopNavGlass({ initialUserInfo, initialRole }: Props) {
     { href: "/messages", label: "Messages" },
   ];
 
+  const role = session?.user?.role || initialRole;
   const adminLinks = [
     {
       href: "/admin/moderation",
-      label: "Photo Moderation",
+      label: "Moderation",
     },
+    ...(role === "ADMIN" ? [{ href: "/admin/audit", label: "Audit Log" }] : []),
   ];
 
-  const role = session?.user?.role || initialRole;
-  const links = role === "ADMIN" ? adminLinks : memberLinks;
+  const links = canModerate(role) ? adminLinks : memberLinks;
   const isLoggedIn = status === "authenticated" && (isAuthenticated || !!session?.user);
   const showLinks = isLoggedIn;
 
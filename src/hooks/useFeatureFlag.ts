@@ -5,6 +5,8 @@ import { useCurrentUser } from '@/hooks/useCurrentUser';
 
 interface FeatureFlagHookResult {
   isEnabled: boolean;
+  // Variant to show when the member is in a running experiment on the flag
+  variant: string | null;
   loading: boolean;
   error: string | null;
   refresh: () => Promise<void>;
@@ -14,23 +16,25 @@ interface FeatureFlagConfig {
   flagKey: string;
   defaultValue?: boolean;
   refreshInterval?: number; // milliseconds
-  userId?: string;
 }
 
 export function useFeatureFlag(config: FeatureFlagConfig): FeatureFlagHookResult {
   const { user, loading: userLoading, error: userError } = useCurrentUser();
   const [isEnabled, setIsEnabled] = useState(config.defaultValue ?? false);
+  const [variant, setVariant] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // Destructure config to avoid dependency issues
-  const { flagKey, defaultValue, refreshInterval, userId: configUserId } = config;
-  const userId = configUserId || user?.id;
+  const { flagKey, defaultValue, refreshInterval } = config;
+  // Flags are evaluated for the signed-in member; the API reads them from the session
+  const userId = user?.id;
 
   // If there's a user context error, fall back to default values
-  if (userError && !configUserId) {
+  if (userError) {
     return {
       isEnabled: defaultValue ?? false,
+      variant: null,
       loading: false,
       error: null,
       refresh: async () => {}
@@ -53,10 +57,7 @@ export function useFeatureFlag(config: FeatureFlagConfig): FeatureFlagHookResult
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          flagKey,
-          userId
-        })
+        body: JSON.stringify({ flagKey })
       });
 
       if (!response.ok) {
@@ -65,10 +66,12 @@ export function useFeatureFlag(config: FeatureFlagConfig): FeatureFlagHookResult
 
       const data = await response.json();
       setIsEnabled(data.enabled ?? defaultValue ?? false);
+      setVariant(data.variant ?? null);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       setError(errorMessage);
       setIsEnabled(defaultValue ?? false);
+      setVariant(null);
       console.error(`Feature flag check failed for ${flagKey}:`, err);
     } finally {
       setLoading(false);
@@ -90,6 +93,7 @@ export function useFeatureFlag(config: FeatureFlagConfig): FeatureFlagHookResult
 
   return {
     isEnabled,
+    variant,
     loading,
     error,
     refresh: checkFeatureFlag
@@ -99,23 +103,25 @@ export function useFeatureFlag(config: FeatureFlagConfig): FeatureFlagHookResult
 // Hook for checking multiple feature flags
 export function useFeatureFlags(
   flagKeys: string[], 
-  defaultValues?: boolean[], 
-  userId?: string
+  defaultValues?: boolean[]
 ): {
   flags: { [key: string]: boolean };
+  // Variant per flag when the member is in a running experiment on it
+  variants: { [key: string]: string | null };
   loading: boolean;
   error: string | null;
   refresh: () => Promise<void>;
 } {
   const { user, loading: userLoading, error: userError } = useCurrentUser();
   const [flags, setFlags] = useState<{ [key: string]: boolean }>({});
+  const [variants, setVariants] = useState<{ [key: string]: string | null }>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const currentUserId = userId || user?.id;
+  const currentUserId = user?.id;
 
-  // If there's a user context error and no explicit userId, return defaults
-  if (userError && !userId) {
+  // If there's a user context error, return defaults
+  if (userError) {
     const defaultFlags: { [key: string]: boolean } = {};
     flagKeys.forEach((key, index) => {
       defaultFlags[key] = defaultValues?.[index] ?? false;
@@ -123,6 +129,7 @@ export function useFeatureFlags(
     
     return {
       flags: defaultFlags,
+      variants: {},
       loading: false,
       error: null,
       refresh: async () => {}
@@ -153,10 +160,7 @@ export function useFeatureFlags(
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          flagKeys: stableFlagKeys,
-          userId: currentUserId
-        })
+        body: JSON.stringify({ flagKeys: stableFlagKeys })
       });
 
       if (!response.ok) {
@@ -165,6 +169,7 @@ export function useFeatureFlags(
 
       const data = await response.json();
       setFlags(data.flags || {});
+      setVariants(data.variants || {});
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       setError(errorMessage);
@@ -175,6 +180,7 @@ export function useFeatureFlags(
         defaultFlags[key] = stableDefaultValues?.[index] ?? false;
       });
       setFlags(defaultFlags);
+      setVariants({});
       
       console.error('Feature flags check failed:', err);
     } finally {
@@ -188,6 +194,7 @@ export function useFeatureFlags(
 
   return {
     flags,
+    variants,
     loading,
     error,
     refresh: checkFeatureFlags
@@ -195,7 +202,7 @@ export function useFeatureFlags(
 }
 
 // Hook for avatar-specific feature flags
-export function useAvatarFeatureFlags(userId?: string) {
+export function useAvatarFeatureFlags() {
   // Use useMemo to create stable arrays
   const avatarFlags = useMemo(() => [
     'avatar_upload_enabled',
@@ -217,8 +224,7 @@ export function useAvatarFeatureFlags(userId?: string) {
 
   const { flags, loading, error, refresh } = useFeatureFlags(
     avatarFlags, 
-    defaultValues,
-    userId
+    defaultValues
   );
 
   return {
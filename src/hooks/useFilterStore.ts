@@ -5,20 +5,29 @@ import { devtools } from 'zustand/middleware';
 type FilterState = {
     filters: UserFilters;
     setFilters: (filterName: keyof FilterState['filters'], value: any) => void;
+    applyFilters: (filters: UserFilters) => void;
 }
 
 const useFilterStore = create<FilterState>()(devtools((set) => ({
     filters: {
+        q: '',
         ageRange: [18, 100],
         gender: ['male', 'female'],
         orderBy: 'updated',
-
+        city: '',
+        country: '',
+        distance: 0,
+        interests: [],
+        withPhoto: false,
+        onlineOnly: false,
+        verifiedOnly: false
     },
     setFilters: (filterName, value) => set(state => {
         return {
             filters: { ...state.filters, [filterName]: value }
         }
-    })
+    }),
+    applyFilters: (filters) => set({ filters })
 })))
 
 export default useFilterStore;
\ No newline at end of file
@@ -1,16 +1,66 @@
-import { usePathname } from 'next/navigation';
+import { usePathname, useSearchParams } from 'next/navigation';
 import { useRouter } from 'next/navigation';
-import { useEffect, type ChangeEvent, useTransition } from 'react';
+import { useEffect, type ChangeEvent, useRef, useState, useTransition } from 'react';
 import { FaMale, FaFemale } from 'react-icons/fa';
 import useFilterStore from './useFilterStore';
 import type { Selection } from '@nextui-org/react';
 import usePaginationStore from './usePaginationStore';
+import { getMemberSearchOptions } from '@/app/actions/memberActions';
+import { updateMemberLocation } from '@/app/actions/userActions';
+import { toast } from 'react-toastify';
+import type { GetMemberParams, UserFilters } from '@/types';
+
+/**
+ * Encodes filters as URL params (the GetMemberParams the server reads)
+ */
+export function filtersToSearchParams(filters: UserFilters) {
+    const { q, gender, ageRange, orderBy, city, country, distance, interests, withPhoto, onlineOnly, verifiedOnly } = filters;
+    const searchParams = new URLSearchParams();
+
+    if (q.trim()) searchParams.set('q', q.trim());
+    if (gender) searchParams.set('gender', gender.join(','));
+    if (ageRange) searchParams.set('ageRange', ageRange.toString());
+    if (orderBy) searchParams.set('orderBy', orderBy);
+    if (country) searchParams.set('country', country);
+    if (city) searchParams.set('city', city);
+    if (distance) searchParams.set('distance', distance.toString());
+    if (interests.length) searchParams.set('interests', interests.join(','));
+    if (withPhoto) searchParams.set('withPhoto', 'true');
+    if (onlineOnly) searchParams.set('onlineOnly', 'true');
+    if (verifiedOnly) searchParams.set('verifiedOnly', 'true');
+
+    return searchParams;
+}
+
+/**
+ * Decodes URL params back into filters; missing params get the defaults
+ */
+export function searchParamsToFilters(params: GetMemberParams): UserFilters {
+    return {
+        q: params.q || '',
+        gender: (params.gender || 'male,female').split(',').filter(Boolean),
+        ageRange: (params.ageRange || '18,100').split(',').map(Number),
+        orderBy: params.orderBy || 'updated',
+        country: params.country || '',
+        city: params.city || '',
+        distance: Number(params.distance) || 0,
+        interests: params.interests ? params.interests.split(',') : [],
+        withPhoto: params.withPhoto === 'true',
+        onlineOnly: params.onlineOnly === 'true',
+        verifiedOnly: params.verifiedOnly === 'true'
+    };
+}
 
 export const useFilters = () => {
     const pathname = usePathname();
     const router = useRouter();
 
-    const { filters, setFilters } = useFilterStore();
+    const searchParams = useSearchParams();
+    // Only the URL the page was opened with is read back into the store
+    const initialParams = useRef(Object.fromEntries(searchParams.entries()) as GetMemberParams);
+    const hydrated = useRef(false);
+
+    const { filters, setFilters, applyFilters } = useFilterStore();
 
     const { pageNumber, pageSize, setPage, totalCount } = usePaginationStore(state => ({
         pageNumber: state.pagination.pageNumber,
@@ -20,31 +70,45 @@ export const useFilters = () => {
     }))
 
 
-    const { gender, ageRange, orderBy } = filters;
+    const { q, gender, ageRange, orderBy, city, country, distance, interests, withPhoto, onlineOnly, verifiedOnly } = filters;
 
     const [isPending, startTransition] = useTransition();
+    const [searchOptions, setSearchOptions] = useState<Awaited<ReturnType<typeof getMemberSearchOptions>>>({
+        locations: [],
+        interests: []
+    });
 
+    useEffect(() => {
+        getMemberSearchOptions().then(setSearchOptions).catch(console.log);
+    }, [])
 
     useEffect(() => {
         if (gender || ageRange || orderBy) {
             setPage(1);
         }
-    }, [gender, ageRange, orderBy, setPage])
+    }, [q, gender, ageRange, orderBy, city, country, distance, interests, withPhoto, onlineOnly, verifiedOnly, setPage])
 
     useEffect(() => {
+        // On first load, filters in the URL (shared or saved-search links) win over the store
+        if (!hydrated.current) {
+            hydrated.current = true;
+            const fromUrl = searchParamsToFilters(initialParams.current);
+            if (filtersToSearchParams(fromUrl).toString() !== filtersToSearchParams(filters).toString()) {
+                applyFilters(fromUrl);
+                return;
+            }
+        }
+
         startTransition(() => {
-            const searchParams = new URLSearchParams();
+            const params = filtersToSearchParams(filters);
 
-            if (gender) searchParams.set('gender', gender.join(','));
-            if (ageRange) searchParams.set('ageRange', ageRange.toString());
-            if (orderBy) searchParams.set('orderBy', orderBy);
-            if (pageSize) searchParams.set('pageSize', pageSize.toString());
-            if (pageNumber) searchParams.set('pageNumber', pageNumber.toString());
+            if (pageSize) params.set('pageSize', pageSize.toString());
+            if (pageNumber) params.set('pageNumber', pageNumber.toString());
 
 
-            router.replace(`${pathname}?${searchParams}`);
+            router.replace(`${pathname}?${params}`);
         })
-    }, [ageRange, orderBy, gender, router, pathname, pageNumber, pageSize])
+    }, [filters, router, pathname, pageNumber, pageSize, applyFilters])
 
     const orderByList = [
         { label: 'Last active', value: 'updated' },
@@ -56,6 +120,14 @@ export const useFilters = () => {
         { value: 'female', icon: FaFemale },
     ]
 
+    const distanceList = [
+        { label: 'Any distance', value: 0 },
+        { label: 'Within 10 km', value: 10 },
+        { label: 'Within 25 km', value: 25 },
+        { label: 'Within 50 km', value: 50 },
+        { label: 'Within 100 km', value: 100 },
+    ]
+
     const handleAgeSelect = (value: number[]) => {
         setFilters('ageRange', value);
     }
@@ -73,6 +145,49 @@ export const useFilters = () => {
         else setFilters('gender', [...gender, value]);
     }
 
+    // Location is "country" or "country|city"; empty clears it
+    const handleLocationSelect = (value: string) => {
+        const [selectedCountry = '', selectedCity = ''] = value ? value.split('|') : [];
+        setFilters('country', selectedCountry);
+        setFilters('city', selectedCity);
+    }
+
+    // The distance filter needs the viewer's location, so ask for it first
+    const handleDistanceSelect = (value: number) => {
+        if (!value) return setFilters('distance', 0);
+
+        if (!navigator.geolocation) {
+            toast.error('Location is not available in this browser');
+            return;
+        }
+
+        navigator.geolocation.getCurrentPosition(
+            async ({ coords }) => {
+                const result = await updateMemberLocation(coords.latitude, coords.longitude);
+                if (result.status === 'success') setFilters('distance', value);
+                else toast.error(result.error as string);
+            },
+            () => toast.error('Allow location access to filter by distance')
+        );
+    }
+
+    const handleInterestSelect = (value: string) => {
+        if (interests.includes(value)) setFilters('interests', interests.filter(interest => interest !== value));
+        else setFilters('interests', [...interests, value]);
+    }
+
+    const handleToggle = (filterName: 'withPhoto' | 'onlineOnly' | 'verifiedOnly', value: boolean) => {
+        setFilters(filterName, value);
+    }
+
+    const handleQueryChange = (value: string) => {
+        setFilters('q', value);
+    }
+
+    const handleApplySavedSearch = (params: GetMemberParams) => {
+        applyFilters(searchParamsToFilters(params));
+    }
+
 
 
     return {
@@ -81,6 +196,16 @@ export const useFilters = () => {
         selectAge: handleAgeSelect,
         selectGender: handleGenderSelect,
         selectOrder: handleOrderSelect,
+        distanceList,
+        locationList: searchOptions.locations,
+        interestList: searchOptions.interests,
+        selectLocation: handleLocationSelect,
+        selectDistance: handleDistanceSelect,
+        selectInterest: handleInterestSelect,
+        toggleFilter: handleToggle,
+        setQuery: handleQueryChange,
+        applySavedSearch: handleApplySavedSearch,
+        currentSearchParams: Object.fromEntries(filtersToSearchParams(filters)) as Record<string, string>,
 
         filters,
         totalCount,
@@ -4,7 +4,7 @@ import { usePathname, useSearchParams } from 'next/navigation';
 import { Channel } from 'pusher-js'
 import { useCallback, useEffect, useRef } from 'react'
 import useMessageStore from './useMessageStore';
-import { newLikeToast, newMessageToast } from '@/components/NotificationToast';
+import { newLikeToast, newMessageToast, newSearchMatchesToast } from '@/components/NotificationToast';
 
 export const useNotificationChannel = (userId: string | null, profileComplete: boolean) => {
     const channelRef = useRef<Channel | null>(null);
@@ -29,6 +29,15 @@ export const useNotificationChannel = (userId: string | null, profileComplete: b
         newLikeToast(data.name, data.image, data.userId);
     }, []);
 
+    const handleSearchMatches = useCallback((data: {
+        name: string,
+        searchQuery: string,
+        totalCount: number,
+        members: { image: string | null }[]
+    }) => {
+        newSearchMatchesToast(data.name, data.searchQuery, data.totalCount, data.members[0]?.image ?? null);
+    }, []);
+
     useEffect(() => {
         if (!userId || !profileComplete) return;
 
@@ -39,6 +48,7 @@ export const useNotificationChannel = (userId: string | null, profileComplete: b
 
                 channelRef.current.bind('message:new', handleNewMessage);
                 channelRef.current.bind('like:new', handleNewLike);
+                channelRef.current.bind('search:matches', handleSearchMatches);
             }
         }, 1000); // Delay 1 second after page load
 
@@ -48,8 +58,9 @@ export const useNotificationChannel = (userId: string | null, profileComplete: b
                 channelRef.current.unsubscribe();
                 channelRef.current.unbind('message:new', handleNewMessage);
                 channelRef.current.unbind('like:new', handleNewLike);
+                channelRef.current.unbind('search:matches', handleSearchMatches);
                 channelRef.current = null;
             }
         }
-    }, [userId, handleNewMessage, handleNewLike, profileComplete])
+    }, [userId, handleNewMessage, handleNewLike, handleSearchMatches, profileComplete])
 }
\ No newline at end of file
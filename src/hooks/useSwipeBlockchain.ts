@@ -4,6 +4,14 @@ import { useState } from "react";
 import { Transaction } from "@mysten/sui/transactions";
 import { useSuiClient } from "@mysten/dapp-kit";
 import { useSponsoredTransaction } from "./useSponsoredTransaction";
+import {
+  createDiscoverySession as buildDiscoverySessionTx,
+  confirmDiscoverySession,
+  recordSwipeOnChain as buildRecordSwipeTx,
+  confirmSwipeOnChain,
+  refreshDiscoveryQueue as buildRefreshQueueTx,
+  getDiscoverySessionQueue,
+} from "@/app/actions/swipeActions";
 
 const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID!;
 const DISCOVERY_MODULE = `${PACKAGE_ID}::discovery`;
@@ -14,42 +22,38 @@ export function useSwipeBlockchain() {
   const suiClient = useSuiClient();
 
   /**
-   * Create a discovery session on-chain with random shuffling
+   * Create a discovery session on-chain with random shuffling.
+   * Returns the session object ID and its shuffled queue.
    */
   const createDiscoverySession = async (
     availableUserAddresses: string[]
   ): Promise<{
     success: boolean;
     sessionId?: string;
+    queue?: string[];
     error?: string;
   }> => {
     try {
       setIsLoading(true);
 
-      const tx = new Transaction();
-
-      tx.moveCall({
-        target: `${DISCOVERY_MODULE}::create_discovery_session`,
-        arguments: [
-          tx.pure.vector("address", availableUserAddresses),
-          tx.object("0x8"), // Random object at reserved address
-          tx.object("0x6"), // Clock object
-        ],
-      });
+      const built = await buildDiscoverySessionTx(availableUserAddresses);
+      if (built.status === "error") throw new Error(built.error);
 
-      const result = await executeSponsored(tx, {
+      const result = await executeSponsored(Transaction.fromKind(built.transactionKindBytes), {
         allowedMoveCallTargets: [`${DISCOVERY_MODULE}::create_discovery_session`],
       });
 
-      if (!result.success) {
+      if (!result.success || !result.digest) {
         throw new Error(result.error || 'Failed to create discovery session');
       }
 
-      // Return success - session ID will be in the transaction result
-      // Client can query for created objects if needed
+      const confirmed = await confirmDiscoverySession(result.digest);
+      if (confirmed.status === "error") throw new Error(confirmed.error);
+
       return {
         success: true,
-        sessionId: result.digest, // Use digest as reference
+        sessionId: confirmed.sessionId,
+        queue: confirmed.queue,
       };
     } catch (error: any) {
       console.error("Error creating discovery session:", error);
@@ -78,32 +82,26 @@ export function useSwipeBlockchain() {
     try {
       setIsLoading(true);
 
-      const tx = new Transaction();
-
-      tx.moveCall({
-        target: `${DISCOVERY_MODULE}::record_swipe`,
-        arguments: [
-          tx.object(sessionId), // Discovery session object
-          tx.pure.address(targetUserAddress),
-          tx.pure.u8(direction === "right" ? 1 : 0), // 1 for right, 0 for left
-          tx.object("0x8"), // Random object
-          tx.object("0x6"), // Clock object
-        ],
-      });
+      const built = await buildRecordSwipeTx(targetUserAddress, direction, sessionId);
+      if (built.status === "error") throw new Error(built.error);
 
-      const result = await executeSponsored(tx, {
+      const result = await executeSponsored(Transaction.fromKind(built.transactionKindBytes), {
         allowedMoveCallTargets: [`${DISCOVERY_MODULE}::record_swipe`],
         allowedAddresses: [targetUserAddress],
       });
 
-      if (!result.success) {
+      if (!result.success || !result.digest) {
         throw new Error(result.error || 'Failed to record swipe');
       }
 
+      const confirmed = await confirmSwipeOnChain(result.digest, sessionId);
+      if (confirmed.status === "error") throw new Error(confirmed.error);
+
       // Return digest as proof of swipe
       return {
         success: true,
         digest: result.digest,
+        randomSeed: confirmed.randomSeed,
       };
     } catch (error: any) {
       console.error("Error recording swipe on-chain:", error);
@@ -164,31 +162,24 @@ export function useSwipeBlockchain() {
   };
 
   /**
-   * Refresh discovery queue with new random order
+   * Refresh discovery queue with new random order.
+   * Returns the reshuffled on-chain queue.
    */
   const refreshDiscoveryQueue = async (
     sessionId: string,
     newProfiles: string[]
   ): Promise<{
     success: boolean;
+    queue?: string[];
     error?: string;
   }> => {
     try {
       setIsLoading(true);
 
-      const tx = new Transaction();
-
-      tx.moveCall({
-        target: `${DISCOVERY_MODULE}::refresh_discovery_queue`,
-        arguments: [
-          tx.object(sessionId),
-          tx.pure.vector("address", newProfiles),
-          tx.object("0x8"), // Random object
-          tx.object("0x6"), // Clock object
-        ],
-      });
+      const built = await buildRefreshQueueTx(sessionId, newProfiles);
+      if (built.status === "error") throw new Error(built.error);
 
-      const result = await executeSponsored(tx, {
+      const result = await executeSponsored(Transaction.fromKind(built.transactionKindBytes), {
         allowedMoveCallTargets: [`${DISCOVERY_MODULE}::refresh_discovery_queue`],
       });
 
@@ -196,8 +187,12 @@ export function useSwipeBlockchain() {
         throw new Error(result.error || 'Failed to refresh queue');
       }
 
+      const session = await getDiscoverySessionQueue(sessionId);
+      if (session.status === "error") throw new Error(session.error);
+
       return {
         success: true,
+        queue: session.queue,
       };
     } catch (error: any) {
       console.error("Error refreshing discovery queue:", error);
@@ -46,6 +46,15 @@ export class SuiClient {
     };
   }
 
+  async getTransactionBlock({ digest, options }) {
+    return {
+      digest,
+      effects: {
+        status: { status: 'success' }
+      }
+    };
+  }
+
   async executeTransactionBlock({ transactionBlock, signer, options }) {
     return {
       digest: 'mock-tx-digest',
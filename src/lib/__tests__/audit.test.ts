@@ -0,0 +1,58 @@
+import { mockDb } from '@/test/prismaMock';
+import { recordAudit, SYSTEM_ACTOR } from '../audit';
+import { prisma } from '../prisma';
+
+jest.mock('../prisma', () => require('@/test/prismaMock'));
+jest.mock('@/auth', () => ({ auth: async () => ({ user: { id: 'admin-1', role: 'ADMIN' } }) }));
+jest.mock('next/headers', () => ({
+    headers: () => new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'jest' }),
+}));
+
+describe('recordAudit', () => {
+    beforeEach(() => {
+        mockDb.reset();
+    });
+
+    it('should record the signed-in actor and the client address', async () => {
+        await recordAudit({
+            action: 'photo.approve',
+            targetType: 'photo',
+            targetId: 'p1',
+            before: { isApproved: false },
+            after: { isApproved: true, at: new Date('2026-10-20T00:00:00Z'), skipped: undefined },
+        });
+
+        expect(mockDb.table('auditLog')).toEqual([{
+            actorId: 'admin-1',
+            actorRole: 'ADMIN',
+            action: 'photo.approve',
+            targetType: 'photo',
+            targetId: 'p1',
+            before: { isApproved: false },
+            after: { isApproved: true, at: '2026-10-20T00:00:00.000Z' },
+            ip: '203.0.113.7',
+            userAgent: 'jest',
+        }]);
+    });
+
+    it('should use an explicit actor for system jobs', async () => {
+        await recordAudit([{ action: 'a.one', targetType: 't' }, { action: 'a.two', targetType: 't' }], SYSTEM_ACTOR);
+
+        expect(mockDb.table('auditLog').map(entry => [entry.action, entry.actorId])).toEqual([['a.one', null], ['a.two', null]]);
+    });
+
+    it('should write through the transaction it is given', async () => {
+        const createMany = jest.fn(async () => ({ count: 1 }));
+
+        await recordAudit({ action: 'match.reconcile', targetType: 'match' }, SYSTEM_ACTOR, { auditLog: { createMany } } as never);
+
+        expect(createMany).toHaveBeenCalledWith({ data: [expect.objectContaining({ action: 'match.reconcile' })] });
+        expect(mockDb.table('auditLog')).toHaveLength(0);
+    });
+
+    it('should let a failed write propagate', async () => {
+        jest.spyOn(prisma.auditLog, 'createMany').mockRejectedValueOnce(new Error('database down'));
+
+        await expect(recordAudit({ action: 'photo.reject', targetType: 'photo' })).rejects.toThrow('database down');
+    });
+});
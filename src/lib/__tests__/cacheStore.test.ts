@@ -0,0 +1,138 @@
+import { getCacheStore } from '../cacheStore';
+import { MemoryCacheStore } from '../cacheStore/memoryStore';
+import { MemoryRedis, type RedisCommands } from '../cacheStore/redisCommands';
+import { RedisCacheStore } from '../cacheStore/redisStore';
+import type { CacheStore } from '../cacheStore/types';
+import { AvatarCacheService } from '@/services/avatarCacheService';
+import type { AvatarResult } from '@/lib/types/avatar';
+
+let clock = 0;
+const now = () => clock;
+
+const drivers: [string, (maxSize: number) => CacheStore][] = [
+    ['memory', maxSize => new MemoryCacheStore({ namespace: 'test', maxSize }, now)],
+    ['redis', maxSize => new RedisCacheStore(new MemoryRedis(now), { namespace: 'test', maxSize }, now)],
+];
+
+describe.each(drivers)('%s cache store', (driver, createStore) => {
+    beforeEach(() => {
+        clock = 1_000_000;
+    });
+
+    it('should evict the least recently used entry once over maxSize', async () => {
+        const store = createStore(2);
+        await store.set('a', 1, { ttlSeconds: 60 });
+        clock += 1;
+        await store.set('b', 2, { ttlSeconds: 60 });
+        clock += 1;
+        expect(await store.get('a')).toBe(1);
+        clock += 1;
+        await store.set('c', 3, { ttlSeconds: 60 });
+
+        expect(await store.get('b')).toBeNull();
+        expect(await store.get('a')).toBe(1);
+        expect(await store.get('c')).toBe(3);
+        expect((await store.getStats()).totalKeys).toBe(2);
+    });
+
+    it('should expire entries and keep falsy values', async () => {
+        const store = createStore(10);
+        await store.set('denied', false, { ttlSeconds: 5 });
+
+        expect(await store.get('denied')).toBe(false);
+        clock += 5000;
+        expect(await store.get('denied')).toBeNull();
+    });
+
+    it('should invalidate every entry carrying a tag', async () => {
+        const store = createStore(10);
+        await store.set('avatar:1:2', 'x', { ttlSeconds: 60, tags: ['user:1', 'pair:1:2'] });
+        await store.set('avatar:1:3', 'y', { ttlSeconds: 60, tags: ['user:1', 'pair:1:3'] });
+        await store.set('avatar:10:2', 'z', { ttlSeconds: 60, tags: ['user:10', 'pair:10:2'] });
+
+        expect(await store.invalidateTag('pair:1:2')).toBe(1);
+        expect(await store.get('avatar:1:2')).toBeNull();
+        expect(await store.get('avatar:1:3')).toBe('y');
+
+        expect(await store.invalidateTag('user:1')).toBe(1);
+        expect(await store.get('avatar:1:3')).toBeNull();
+        expect(await store.get('avatar:10:2')).toBe('z');
+    });
+
+    it('should report hits, misses, live keys and size', async () => {
+        const store = createStore(10);
+        await store.set('a', 'abc', { ttlSeconds: 60 });
+        await store.set('short', 'de', { ttlSeconds: 1 });
+        await store.get('a');
+        await store.get('missing');
+        clock += 1000;
+
+        expect(await store.getStats()).toEqual({
+            driver, hits: 1, misses: 1, hitRate: 50, totalKeys: 1, maxSize: 10, memoryBytes: '"abc"'.length,
+        });
+
+        await store.clear();
+        expect(await store.getStats()).toMatchObject({ hits: 0, misses: 0, totalKeys: 0, memoryBytes: 0 });
+    });
+});
+
+describe('RedisCacheStore', () => {
+    // Counts calls to the connection, each one a round trip to Redis
+    const countRoundTrips = (redis: RedisCommands) => {
+        const counter = { trips: 0 };
+        const counted = new Proxy(redis, {
+            get: (target, name: keyof RedisCommands) => (...args: unknown[]) => {
+                counter.trips++;
+                return (target[name] as (...args: unknown[]) => Promise<unknown>).apply(target, args);
+            },
+        });
+        return { counter, store: new RedisCacheStore(counted, { namespace: 'test', maxSize: 10 }, now) };
+    };
+
+    it('should batch a write in two round trips and a hit in one', async () => {
+        const { counter, store } = countRoundTrips(new MemoryRedis(now));
+
+        await store.set('a', 1, { ttlSeconds: 60, tags: ['user:1', 'pair:1:2'] });
+        expect(counter.trips).toBe(2);
+
+        counter.trips = 0;
+        await store.set('a', 2, { ttlSeconds: 60, tags: ['user:1'] });
+        expect(counter.trips).toBe(2);
+
+        counter.trips = 0;
+        expect(await store.get('a')).toBe(2);
+        expect(counter.trips).toBe(1);
+
+        counter.trips = 0;
+        expect(await store.get('missing')).toBeNull();
+        expect(counter.trips).toBe(2);
+
+        expect(await store.invalidateTag('pair:1:2')).toBe(0);
+        expect(await store.getStats()).toMatchObject({ hits: 1, misses: 1, totalKeys: 1, memoryBytes: 1 });
+    });
+});
+
+describe('getCacheStore', () => {
+    it('should hand out one store per namespace and refuse a different size limit', () => {
+        const store = getCacheStore('test-limit', { maxSize: 10 });
+
+        expect(getCacheStore('test-limit', { maxSize: 10 })).toBe(store);
+        expect(() => getCacheStore('test-limit', { maxSize: 20 })).toThrow('maxSize 10');
+    });
+});
+
+describe('AvatarCacheService', () => {
+    it('should share cached avatars between instances on the same Redis', async () => {
+        const redis = new MemoryRedis();
+        const first = new AvatarCacheService({}, new RedisCacheStore(redis, { namespace: 'avatar', maxSize: 10 }));
+        const second = new AvatarCacheService({}, new RedisCacheStore(redis, { namespace: 'avatar', maxSize: 10 }));
+        const avatar = { type: 'private', url: 'https://example.com/a.png' } as unknown as AvatarResult;
+
+        await first.cacheAvatar('target', 'viewer', avatar);
+        expect(await second.getCachedAvatar('target', 'viewer')).toEqual(avatar);
+
+        await second.invalidateAvatarAccess('target', 'viewer');
+        expect(await first.getCachedAvatar('target', 'viewer')).toBeNull();
+        expect(await first.getCacheStats()).toMatchObject({ driver: 'redis', hits: 1, misses: 1, hitRate: 50, totalKeys: 0 });
+    });
+});
@@ -0,0 +1,29 @@
+import { CronError, nextCronRun, parseCron } from '../jobs/cron';
+
+const at = (iso: string) => new Date(iso);
+
+describe('nextCronRun', () => {
+    it('should find the next matching minute after the given time', () => {
+        expect(nextCronRun('* * * * *', at('2026-10-20T12:00:30Z'))).toEqual(at('2026-10-20T12:01:00Z'));
+        expect(nextCronRun('*/30 * * * *', at('2026-10-20T12:00:00Z'))).toEqual(at('2026-10-20T12:30:00Z'));
+        expect(nextCronRun('15 3 * * *', at('2026-10-20T12:00:00Z'))).toEqual(at('2026-10-21T03:15:00Z'));
+    });
+
+    it('should roll over days, months and years', () => {
+        expect(nextCronRun('0 0 1 * *', at('2026-12-15T00:00:00Z'))).toEqual(at('2027-01-01T00:00:00Z'));
+        expect(nextCronRun('0 12 29 2 *', at('2026-10-20T00:00:00Z'))).toEqual(at('2028-02-29T12:00:00Z'));
+    });
+
+    it('should treat 7 as Sunday and match either day field when both are set', () => {
+        // 2026-10-20 is a Tuesday
+        expect(nextCronRun('45 4 * * 7', at('2026-10-20T00:00:00Z'))).toEqual(at('2026-10-25T04:45:00Z'));
+        expect(nextCronRun('0 0 1 * 1-5', at('2026-10-23T12:00:00Z'))).toEqual(at('2026-10-26T00:00:00Z'));
+    });
+
+    it('should reject malformed expressions', () => {
+        expect(() => parseCron('* * * *')).toThrow(CronError);
+        expect(() => parseCron('60 * * * *')).toThrow('Invalid minute field "60"');
+        expect(() => parseCron('*/0 * * * *')).toThrow(CronError);
+        expect(() => nextCronRun('0 0 31 2 *', at('2026-10-20T00:00:00Z'))).toThrow('never fires');
+    });
+});
@@ -0,0 +1,110 @@
+const mockRevalidated: string[] = [];
+
+jest.mock('next/cache', () => ({
+    revalidateTag: (tag: string) => {
+        mockRevalidated.push(tag);
+    },
+    revalidatePath: () => {},
+}));
+
+// Imported after the mock so revalidation is recorded
+import { EventBus } from '../events/eventBus';
+import { subscribeAvatarCache, subscribeCacheRevalidation, subscribeRealtime } from '../events/subscribers';
+import type Pusher from 'pusher';
+import type { AvatarCacheService } from '@/services/avatarCacheService';
+
+const member = { userId: 'alice', name: 'Alice', image: null };
+
+describe('EventBus', () => {
+    it('should run every subscriber even when one fails', async () => {
+        const bus = new EventBus();
+        const calls: string[] = [];
+        bus.on('member.updated', 'failing', () => {
+            throw new Error('boom');
+        });
+        const unsubscribe = bus.on('member.updated', 'recorder', ({ userId }) => {
+            calls.push(userId);
+        });
+
+        await expect(bus.publish('member.updated', { userId: 'alice' })).resolves.toBeUndefined();
+        unsubscribe();
+        await bus.publish('member.updated', { userId: 'bob' });
+
+        expect(calls).toEqual(['alice']);
+    });
+
+    it('should deliver to one named subscriber and let its error through', async () => {
+        const bus = new EventBus();
+        const calls: string[] = [];
+        bus.on('member.updated', 'failing', () => {
+            throw new Error('boom');
+        });
+        bus.on('member.updated', 'recorder', ({ userId }) => {
+            calls.push(userId);
+        });
+
+        expect(bus.subscribers('member.updated')).toEqual(['failing', 'recorder']);
+        await bus.deliver('member.updated', 'recorder', { userId: 'alice' });
+        await expect(bus.deliver('member.updated', 'failing', { userId: 'bob' })).rejects.toThrow('boom');
+
+        expect(calls).toEqual(['alice']);
+    });
+});
+
+describe('event subscribers', () => {
+    let bus: EventBus;
+    let triggers: [string, string][];
+    let invalidated: string[];
+
+    beforeEach(() => {
+        mockRevalidated.length = 0;
+        triggers = [];
+        invalidated = [];
+        bus = new EventBus();
+
+        const avatarCache = {
+            invalidateAvatarAccess: async (target: string, viewer: string) => {
+                invalidated.push(`${target}->${viewer}`);
+            },
+            invalidateUserAvatar: async (userId: string) => {
+                invalidated.push(userId);
+            },
+        } as unknown as AvatarCacheService;
+        subscribeCacheRevalidation(bus);
+        subscribeAvatarCache(bus, () => avatarCache);
+        const pusher = {
+            trigger: async (channel: string, event: string) => {
+                triggers.push([channel, event]);
+            },
+        };
+        subscribeRealtime(bus, pusher as unknown as Pick<Pusher, 'trigger'>);
+    });
+
+    it('should revalidate tags, reset avatar access and notify both members on a match', async () => {
+        await bus.publish('match.created', { userId: 'alice', targetUserId: 'bob', member });
+
+        expect(mockRevalidated).toEqual(['match', 'likes']);
+        expect(invalidated).toEqual(['alice->bob', 'bob->alice']);
+        expect(triggers).toEqual([
+            ['private-bob', 'match:new'],
+            ['private-alice', 'match:new'],
+            ['private-bob', 'avatar:refresh'],
+            ['private-alice', 'avatar:refresh'],
+        ]);
+    });
+
+    it('should send new messages to the chat and the recipient', async () => {
+        const message = { id: 'm1', text: 'hi', created: '', dateRead: null };
+        await bus.publish('message.created', { senderId: 'bob', recipientId: 'alice', message });
+
+        expect(mockRevalidated).toEqual(['messages']);
+        expect(triggers).toEqual([['alice-bob', 'message:new'], ['private-alice', 'message:new']]);
+    });
+
+    it('should refresh member lists when a photo is approved', async () => {
+        await bus.publish('photo.approved', { userId: 'alice', photoId: 'p1' });
+
+        expect(mockRevalidated).toEqual(['member-photos', 'members']);
+        expect(triggers).toHaveLength(0);
+    });
+});
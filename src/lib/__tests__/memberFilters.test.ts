@@ -0,0 +1,169 @@
+/** @jest-environment node */
+import { Prisma } from '@prisma/client';
+import { matchesWhere, mockDb } from '@/test/prismaMock';
+import {
+    MAX_ONLINE_FILTER_IDS,
+    buildMemberFilterSql,
+    buildMemberFilterWhere,
+    buildMemberSearchWhere,
+    memberSearchCacheKey,
+    parseMemberSearchFilters,
+    radiusBoundingBox,
+    withinRadiusSql,
+} from '../memberFilters';
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+
+const mockRawCalls: { sql: string; values: unknown[] }[] = [];
+const mockRawResults: unknown[][] = [];
+
+mockDb.overrideRoot({
+    $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+        const query = Prisma.sql(strings, ...values);
+        mockRawCalls.push({ sql: query.sql, values: query.values });
+        return mockRawResults.shift() ?? [];
+    },
+});
+
+const radians = (degrees: number) => degrees * Math.PI / 180;
+
+function haversineKm(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }) {
+    const h = Math.sin(radians(b.latitude - a.latitude) / 2) ** 2
+        + Math.cos(radians(a.latitude)) * Math.cos(radians(b.latitude)) * Math.sin(radians(b.longitude - a.longitude) / 2) ** 2;
+    return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+describe('parseMemberSearchFilters', () => {
+    it('should read the URL params and ignore empty or invalid values', () => {
+        expect(parseMemberSearchFilters({
+            city: ' London ', country: '', distance: 'abc', interests: 'Hiking, music,,hiking', withPhoto: 'true',
+        })).toEqual({
+            city: 'London',
+            country: undefined,
+            distanceKm: undefined,
+            interests: ['hiking', 'music'],
+            withPhoto: true,
+            verifiedOnly: false,
+            onlineUserIds: undefined,
+        });
+        expect(parseMemberSearchFilters({ distance: '-5' }).distanceKm).toBeUndefined();
+        expect(parseMemberSearchFilters({ distance: '25' }).distanceKm).toBe(25);
+    });
+
+    it('should only filter to online members when asked, and cap the IDs', () => {
+        const ids = Array.from({ length: MAX_ONLINE_FILTER_IDS + 10 }, (_, i) => `user-${i}`);
+
+        expect(parseMemberSearchFilters({}, ids).onlineUserIds).toBeUndefined();
+        expect(parseMemberSearchFilters({ onlineOnly: 'true' }).onlineUserIds).toEqual([]);
+        expect(parseMemberSearchFilters({ onlineOnly: 'true' }, ids).onlineUserIds).toHaveLength(MAX_ONLINE_FILTER_IDS);
+    });
+});
+
+describe('buildMemberFilterWhere', () => {
+    const members = [
+        { userId: 'email', country: 'UK', interests: ['hiking'], user: { emailVerified: new Date(), walletAddress: null } },
+        { userId: 'wallet', country: 'UK', interests: ['music'], user: { emailVerified: null, walletAddress: '0xa1' } },
+        { userId: 'neither', country: 'FR', interests: ['hiking'], user: { emailVerified: null, walletAddress: null } },
+    ];
+    const matching = async (filters: Parameters<typeof buildMemberFilterWhere>[0]) => {
+        const where = { AND: await buildMemberFilterWhere(filters, 'viewer') };
+        return members.filter(member => matchesWhere(member, where)).map(member => member.userId);
+    };
+
+    beforeEach(() => {
+        mockDb.reset({ member: [{ userId: 'viewer', latitude: 51.5, longitude: -0.12 }] });
+        mockRawCalls.length = 0;
+    });
+
+    it('should count a linked wallet as verified as well as a verified email', async () => {
+        await expect(matching({ verifiedOnly: true })).resolves.toEqual(['email', 'wallet']);
+    });
+
+    it('should combine location, interests and online filters', async () => {
+        await expect(matching({ country: 'UK', interests: ['hiking', 'cooking'] })).resolves.toEqual(['email']);
+        await expect(matching({ onlineUserIds: ['wallet', 'neither'] })).resolves.toEqual(['wallet', 'neither']);
+        await expect(matching({ onlineUserIds: [] })).resolves.toEqual([]);
+    });
+
+    it('should keep members near the viewer, and skip the distance filter without a saved location', async () => {
+        mockRawResults.push([{ userId: 'email' }]);
+        await expect(matching({ distanceKm: 10 })).resolves.toEqual(['email']);
+        expect(mockRawCalls[0].sql).toContain('asin(sqrt(');
+
+        mockDb.table('member')[0].latitude = null;
+        await expect(matching({ distanceKm: 10 })).resolves.toEqual(['email', 'wallet', 'neither']);
+        expect(mockRawCalls).toHaveLength(1);
+    });
+});
+
+describe('buildMemberFilterSql', () => {
+    it('should check either a verified email or a linked wallet', async () => {
+        const [verified] = await buildMemberFilterSql({ verifiedOnly: true }, 'viewer');
+
+        expect(verified.sql).toContain('"User"."emailVerified" IS NOT NULL OR "User"."walletAddress" IS NOT NULL');
+    });
+});
+
+describe('radiusBoundingBox', () => {
+    it('should reach the edge of the circle in every direction', () => {
+        const origin = { latitude: 51.5, longitude: -0.12 };
+        const { minLatitude, maxLatitude, west, east } = radiusBoundingBox(origin, 50);
+        // The circle is widest a little poleward of the origin's latitude
+        const widest = Math.asin(Math.sin(radians(origin.latitude)) / Math.cos(50 / 6371)) * 180 / Math.PI;
+
+        expect(haversineKm(origin, { latitude: maxLatitude, longitude: origin.longitude })).toBeCloseTo(50, 6);
+        expect(haversineKm(origin, { latitude: minLatitude, longitude: origin.longitude })).toBeCloseTo(50, 6);
+        expect(haversineKm(origin, { latitude: widest, longitude: east })).toBeCloseTo(50, 6);
+        expect(haversineKm(origin, { latitude: widest, longitude: west })).toBeCloseTo(50, 6);
+    });
+
+    it('should wrap round the antimeridian', () => {
+        const { west, east } = radiusBoundingBox({ latitude: -17.7, longitude: 178.4 }, 300);
+
+        expect(west).toBeGreaterThan(175);
+        expect(west).toBeLessThan(178.4);
+        expect(east).toBeGreaterThan(-180);
+        expect(east).toBeLessThan(-178);
+    });
+
+    it('should span every longitude when the circle takes in a pole', () => {
+        expect(radiusBoundingBox({ latitude: 89.5, longitude: 30 }, 100)).toEqual({
+            minLatitude: expect.closeTo(88.6, 1), maxLatitude: 90, west: -180, east: 180,
+        });
+    });
+});
+
+describe('withinRadiusSql', () => {
+    it('should bound the longitude on either side of the antimeridian', () => {
+        const near = withinRadiusSql({ latitude: 51.5, longitude: -0.12 }, 10);
+        const across = withinRadiusSql({ latitude: -17.7, longitude: 178.4 }, 300);
+
+        expect(near.sql).toContain('"longitude" BETWEEN ? AND ?');
+        expect(across.sql).toContain('("longitude" >= ? OR "longitude" <= ?)');
+        expect(across.values).toEqual(expect.arrayContaining([-17.7, 178.4, 300]));
+    });
+});
+
+describe('memberSearchCacheKey', () => {
+    beforeEach(() => {
+        mockDb.reset({ member: [{ userId: 'viewer' }] });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should give the same search the same key all day, and a new one the next day', async () => {
+        const params = { ageRange: '25,35', gender: 'female', country: 'UK' };
+        const keyAt = async (time: string) => {
+            jest.useFakeTimers({ now: new Date(time) });
+            return memberSearchCacheKey(await buildMemberSearchWhere(params, 'viewer'));
+        };
+
+        const morning = await keyAt('2026-10-20T08:00:00.123');
+        expect(await keyAt('2026-10-20T08:00:00.456')).toBe(morning);
+        expect(await keyAt('2026-10-20T21:30:00')).toBe(morning);
+        expect(await keyAt('2026-10-21T08:00:00')).not.toBe(morning);
+        expect(memberSearchCacheKey(await buildMemberSearchWhere({ ...params, country: 'FR' }, 'viewer'))).not.toBe(morning);
+    });
+});
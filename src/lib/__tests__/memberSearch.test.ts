@@ -0,0 +1,78 @@
+/** @jest-environment node */
+import { Prisma } from '@prisma/client';
+import { mockDb } from '@/test/prismaMock';
+import { buildMemberSearchSql } from '../memberFilters';
+import { searchMembersByText } from '../memberSearch';
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+
+type RawCall = { sql: string; values: unknown[] };
+
+const mockRawCalls: RawCall[] = [];
+const mockRawResults: unknown[][] = [];
+
+mockDb.overrideRoot({
+    $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+        const query = Prisma.sql(strings, ...values);
+        mockRawCalls.push({ sql: query.sql, values: query.values });
+        return mockRawResults.shift() ?? [];
+    },
+});
+
+describe('buildMemberSearchSql', () => {
+    beforeEach(() => {
+        mockDb.reset({
+            member: [{ userId: 'viewer', latitude: 51.5, longitude: -0.12 }],
+            match: [{ state: 'BLOCKED', userAId: 'viewer', userBId: 'blocked' }],
+            accountDeletion: [{ userId: 'leaving', status: 'PENDING' }],
+        });
+    });
+
+    it('should express every filter and exclusion as SQL, leaving the keyword to the caller', async () => {
+        const where = await buildMemberSearchSql({
+            q: 'hiking',
+            gender: 'female',
+            city: 'London',
+            interests: 'Hiking,music',
+            withPhoto: 'true',
+            distance: '10',
+        }, 'viewer');
+
+        expect(where.sql).toContain('"gender" IN (?)');
+        expect(where.sql).toContain('"city" = ?');
+        expect(where.sql).toContain('"interests" && ?::text[]');
+        expect(where.sql).toContain('FROM "Photo"');
+        expect(where.sql).toContain('"latitude" BETWEEN');
+        expect(where.sql).not.toContain('searchVector');
+        expect(where.values).toEqual(expect.arrayContaining([
+            'female', 'London', ['hiking', 'music'], 'viewer', 'blocked', 'leaving',
+        ]));
+        expect(where.values).not.toContain('hiking');
+    });
+
+    it('should match nobody when filtering to online members and none are online', async () => {
+        const where = await buildMemberSearchSql({ onlineOnly: 'true' }, 'viewer', []);
+
+        expect(where.sql).toContain('FALSE');
+    });
+});
+
+describe('searchMembersByText', () => {
+    beforeEach(() => {
+        mockRawCalls.length = 0;
+        mockRawResults.length = 0;
+    });
+
+    it('should rank and page in the database and count every match', async () => {
+        mockRawResults.push([{ userId: 'u3' }, { userId: 'u1' }], [{ count: BigInt(2400) }]);
+
+        const result = await searchMembersByText('hiking', Prisma.sql`"city" = ${'London'}`, 1200, 12);
+
+        expect(result).toEqual({ userIds: ['u3', 'u1'], total: 2400 });
+        const [page, count] = mockRawCalls;
+        expect(page.sql).toMatch(/ORDER BY ts_rank\("searchVector", query\) DESC.*LIMIT \? OFFSET \?/s);
+        expect(page.values).toEqual(['hiking', 'London', 12, 1200]);
+        expect(count.sql).toContain('count(*)');
+        expect(count.sql).not.toContain('LIMIT');
+    });
+});
@@ -0,0 +1,101 @@
+import { emptyProfileDetails, promptRows, toProfileDetailsDefaults } from '../profileDetails';
+import { pickKnown } from '../profileOptions';
+import { profileDetailsSchema } from '../schemas/ProfileDetailsSchema';
+
+const details = {
+    ...emptyProfileDetails,
+    interests: ['hiking', 'coffee', 'reading'],
+    prompts: [{ question: 'A perfect first date', answer: ' Coffee and a long walk ' }],
+    heightCm: 172,
+    languages: ['English', 'French'],
+    lookingFor: 'LONG_TERM',
+    lifestyle: ['non-smoker'],
+};
+
+const errorPaths = (value: unknown) => {
+    const result = profileDetailsSchema.safeParse(value);
+    return result.success ? [] : result.error.errors.map(error => error.path.join('.'));
+};
+
+describe('profileDetailsSchema', () => {
+    it('should accept a complete profile and trim prompt answers', () => {
+        const result = profileDetailsSchema.safeParse(details);
+
+        expect(result.success && result.data.prompts[0].answer).toBe('Coffee and a long walk');
+        expect(profileDetailsSchema.safeParse({ ...details, heightCm: null, lookingFor: null }).success).toBe(true);
+    });
+
+    it('should hold interests to the contract\'s bounds and the taxonomy', () => {
+        expect(errorPaths({ ...details, interests: ['hiking', 'coffee'] })).toEqual(['interests']);
+        expect(errorPaths({ ...details, interests: [...details.interests, 'skydiving'] })).toEqual(['interests.3']);
+    });
+
+    it('should refuse a prompt answered twice, a blank answer and too many prompts', () => {
+        const prompt = details.prompts[0];
+
+        expect(errorPaths({ ...details, prompts: [prompt, prompt] })).toEqual(['prompts']);
+        expect(errorPaths({ ...details, prompts: [{ ...prompt, answer: '   ' }] })).toEqual(['prompts.0.answer']);
+        expect(errorPaths({
+            ...details,
+            prompts: ['A perfect first date', 'My simple pleasures', 'I geek out on', 'A life goal of mine']
+                .map(question => ({ question, answer: 'Yes' })),
+        })).toEqual(['prompts']);
+    });
+
+    it('should refuse heights, languages, goals and tags outside the vocabularies', () => {
+        expect(errorPaths({ ...details, heightCm: 300 })).toEqual(['heightCm']);
+        expect(errorPaths({ ...details, heightCm: 170.5 })).toEqual(['heightCm']);
+        expect(errorPaths({ ...details, languages: ['Klingon'] })).toEqual(['languages.0']);
+        expect(errorPaths({ ...details, lookingFor: 'MARRIAGE' })).toEqual(['lookingFor']);
+        expect(errorPaths({ ...details, lifestyle: ['night owl'] })).toEqual(['lifestyle.0']);
+    });
+});
+
+describe('pickKnown', () => {
+    it('should keep only values in the vocabulary, in their original order', () => {
+        expect(pickKnown(['French', 'Klingon', 'English'], ['English', 'French'])).toEqual(['French', 'English']);
+        expect(pickKnown([], ['English'])).toEqual([]);
+    });
+});
+
+describe('toProfileDetailsDefaults', () => {
+    it('should drop stored values the vocabularies no longer contain', () => {
+        const defaults = toProfileDetailsDefaults({
+            interests: ['hiking', 'skydiving', 'coffee'],
+            heightCm: 172,
+            languages: ['English', 'Klingon'],
+            lookingFor: 'LONG_TERM',
+            lifestyle: ['non-smoker', 'night owl'],
+        }, [
+            { question: 'A perfect first date', answer: 'Coffee' },
+            { question: 'A retired prompt', answer: 'Gone' },
+        ]);
+
+        expect(defaults).toEqual({
+            interests: ['hiking', 'coffee'],
+            prompts: [{ question: 'A perfect first date', answer: 'Coffee' }],
+            heightCm: 172,
+            languages: ['English'],
+            lookingFor: 'LONG_TERM',
+            lifestyle: ['non-smoker'],
+        });
+    });
+
+    it('should default to no prompts', () => {
+        expect(toProfileDetailsDefaults({
+            interests: [], heightCm: null, languages: [], lookingFor: null, lifestyle: [],
+        })).toEqual(emptyProfileDetails);
+    });
+});
+
+describe('promptRows', () => {
+    it('should number prompts in the order given', () => {
+        expect(promptRows([
+            { question: 'I geek out on', answer: 'Maps' },
+            { question: 'A perfect first date', answer: 'Coffee' },
+        ])).toEqual([
+            { question: 'I geek out on', answer: 'Maps', position: 0 },
+            { question: 'A perfect first date', answer: 'Coffee', position: 1 },
+        ]);
+    });
+});
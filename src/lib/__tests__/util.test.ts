@@ -1,4 +1,4 @@
-import { calculateAge, handleFormServerErrors, formatShortDateTime, truncateString, createChatId, timeAgo } from '../util';
+import { calculateAge, handleFormServerErrors, formatShortDateTime, truncateString, createChatId, timeAgo, splitSnippet, SNIPPET_MARK_START, SNIPPET_MARK_END } from '../util';
 import { UseFormSetError } from 'react-hook-form';
 import { ZodIssue } from 'zod';
 import { differenceInYears, format, formatDistance } from 'date-fns';
@@ -162,4 +162,19 @@ describe('timeAgo', () => {
         (formatDistance as jest.Mock).mockReturnValue('1 day');
         expect(timeAgo(oneDayAgo)).toBe('1 day ago');
     });
-});
\ No newline at end of file
+});
+describe('splitSnippet', () => {
+    it('should split highlighted and plain parts', () => {
+        const snippet = `Lives in ${SNIPPET_MARK_START}Hanoi${SNIPPET_MARK_END}, loves ${SNIPPET_MARK_START}pho${SNIPPET_MARK_END}`;
+        expect(splitSnippet(snippet)).toEqual([
+            { text: 'Lives in ', highlighted: false },
+            { text: 'Hanoi', highlighted: true },
+            { text: ', loves ', highlighted: false },
+            { text: 'pho', highlighted: true },
+        ]);
+    });
+
+    it('should return plain text unchanged', () => {
+        expect(splitSnippet('<b>not markup</b>')).toEqual([{ text: '<b>not markup</b>', highlighted: false }]);
+    });
+});
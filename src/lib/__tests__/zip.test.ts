@@ -0,0 +1,44 @@
+import { inflateRawSync } from 'zlib';
+import { createZip } from '../zip';
+
+// Reads entries back through the central directory, the way unzip tools do
+function readZip(archive: Buffer) {
+    const end = archive.length - 22;
+    expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+    const count = archive.readUInt16LE(end + 10);
+    let pointer = archive.readUInt32LE(end + 16);
+    const entries: Record<string, string> = {};
+
+    for (let i = 0; i < count; i++) {
+        expect(archive.readUInt32LE(pointer)).toBe(0x02014b50);
+        const compressedSize = archive.readUInt32LE(pointer + 20);
+        const nameLength = archive.readUInt16LE(pointer + 28);
+        const localOffset = archive.readUInt32LE(pointer + 42);
+        const name = archive.toString('utf8', pointer + 46, pointer + 46 + nameLength);
+
+        const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+        entries[name] = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize)).toString('utf8');
+        pointer += 46 + nameLength;
+    }
+
+    return entries;
+}
+
+describe('createZip', () => {
+    it('should round-trip entries with UTF-8 names and content', () => {
+        const archive = createZip([
+            { name: 'member.json', data: JSON.stringify({ name: 'Linh', city: 'Hà Nội' }) },
+            { name: 'photos/ảnh.txt', data: Buffer.from('x'.repeat(5000)) },
+        ]);
+
+        expect(readZip(archive)).toEqual({
+            'member.json': '{"name":"Linh","city":"Hà Nội"}',
+            'photos/ảnh.txt': 'x'.repeat(5000),
+        });
+    });
+
+    it('should produce a valid empty archive', () => {
+        expect(readZip(createZip([]))).toEqual({});
+    });
+});
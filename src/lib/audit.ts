@@ -0,0 +1,74 @@
+import { headers } from 'next/headers';
+import type { Prisma, Role } from '@prisma/client';
+import { auth } from '@/auth';
+import { prisma } from './prisma';
+
+export interface AuditEntry {
+    // "<area>.<verb>", e.g. "photo.approve" or "feature_flag.update"
+    action: string;
+    targetType: string;
+    targetId?: string | null;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface AuditActor {
+    id: string | null;
+    role: Role | null;
+}
+
+// Actor for cron jobs and other work no user started
+export const SYSTEM_ACTOR: AuditActor = { id: null, role: null };
+
+function toJson(value: unknown): Prisma.InputJsonValue | undefined {
+    // Round-trips Dates and drops undefined fields the way the JSON column would
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+function requestContext(): { ip: string | null; userAgent: string | null } {
+    try {
+        const requestHeaders = headers();
+        const forwarded = requestHeaders.get('x-forwarded-for')?.split(',')[0]?.trim();
+        return {
+            ip: forwarded || requestHeaders.get('x-real-ip'),
+            userAgent: requestHeaders.get('user-agent')
+        };
+    } catch {
+        // Outside a request, e.g. in a script
+        return { ip: null, userAgent: null };
+    }
+}
+
+/**
+ * Appends privileged actions to the audit log. Call it from admin server
+ * actions and API routes once the change has been made, passing the
+ * transaction that made it where there is one so the change and its entry
+ * are kept or lost together. The actor defaults to the signed-in user; IP
+ * and user agent come from the request headers. Failures propagate.
+ */
+export async function recordAudit(
+    entries: AuditEntry | AuditEntry[],
+    actor?: AuditActor,
+    db: Prisma.TransactionClient = prisma
+): Promise<void> {
+    const list = Array.isArray(entries) ? entries : [entries];
+    if (list.length === 0) return;
+
+    const session = actor ? null : await auth();
+    const { id, role } = actor ?? { id: session?.user?.id ?? null, role: session?.user?.role ?? null };
+    const { ip, userAgent } = requestContext();
+
+    await db.auditLog.createMany({
+        data: list.map(entry => ({
+            actorId: id,
+            actorRole: role,
+            action: entry.action,
+            targetType: entry.targetType,
+            targetId: entry.targetId ?? null,
+            before: toJson(entry.before),
+            after: toJson(entry.after),
+            ip,
+            userAgent
+        }))
+    });
+}
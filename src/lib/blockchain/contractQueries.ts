@@ -33,6 +33,8 @@ export interface ProfileInfo {
   bio: string;
   interests: string[];
   matchCount: number;
+  version: number;
+  lastActive: number;
 }
 
 export interface MatchInfo {
@@ -42,6 +44,7 @@ export interface MatchInfo {
   compatibilityScore: number;
   status: number;
   createdAt: string;
+  lastInteraction: string;
 }
 
 export interface ChatRoomInfo {
@@ -139,6 +142,8 @@ export async function getProfileInfo(
       bio: fields.bio,
       interests: fields.interests || [],
       matchCount: parseInt(fields.match_count || "0"),
+      version: parseInt(fields.profile_version || "0"),
+      lastActive: parseInt(fields.last_active || "0"),
     };
   } catch (error) {
     console.error("Error getting profile info:", error);
@@ -237,6 +242,7 @@ export async function getMatchInfo(
       compatibilityScore: parseInt(fields.compatibility_score || "0"),
       status: parseInt(fields.status || "0"),
       createdAt: fields.created_at,
+      lastInteraction: fields.last_interaction,
     };
   } catch (error) {
     console.error("Error getting match info:", error);
@@ -469,6 +475,60 @@ export async function getChatAllowlistIdByChatRoomId(
   }
 }
 
+// AllowlistRegistry fields read by getAvatarAllowlistIdByOwner
+interface AllowlistRegistryFields {
+  avatar_allowlists?: { fields?: { id?: { id?: string } } };
+}
+
+interface DynamicFieldValue<T> {
+  value: T;
+}
+
+/**
+ * Get the avatar allowlist ID owned by a wallet, if one was created
+ */
+export async function getAvatarAllowlistIdByOwner(
+  client: SuiClient,
+  ownerAddress: string
+): Promise<string | null> {
+  try {
+    const registry = await client.getObject({
+      id: ALLOWLIST_REGISTRY_ID,
+      options: {
+        showContent: true,
+      },
+    });
+
+    if (!registry.data?.content || registry.data.content.dataType !== "moveObject") {
+      throw new Error("Invalid allowlist registry object");
+    }
+
+    const fields = registry.data.content.fields as unknown as AllowlistRegistryFields;
+    const avatarAllowlistsTable = fields.avatar_allowlists?.fields?.id?.id;
+
+    if (!avatarAllowlistsTable) {
+      return null;
+    }
+
+    const dynamicField = await client.getDynamicFieldObject({
+      parentId: avatarAllowlistsTable,
+      name: {
+        type: "address",
+        value: ownerAddress,
+      },
+    });
+
+    if (dynamicField.data?.content && dynamicField.data.content.dataType === "moveObject") {
+      return (dynamicField.data.content.fields as unknown as DynamicFieldValue<string>).value;
+    }
+
+    return null;
+  } catch (error) {
+    console.error("Error getting avatar allowlist ID:", error);
+    return null;
+  }
+}
+
 /**
  * Get full chat allowlist information
  */
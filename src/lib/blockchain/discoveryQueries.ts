@@ -0,0 +1,212 @@
+/**
+ * Discovery Contract Query Utilities
+ * Helpers to read DiscoverySession objects and discovery events from Sui
+ */
+
+import type { SuiClient, SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { normalizeSuiObjectId } from "@mysten/sui/utils";
+import { CONTRACT_IDS } from "./contractQueries";
+
+const DISCOVERY_EVENT_PREFIX = `${CONTRACT_IDS.PACKAGE_ID}::discovery`;
+
+export interface DiscoverySessionInfo {
+  sessionId: string;
+  user: string;
+  currentQueue: string[];
+  queueIndex: number;
+  sessionSeed: string;
+  lastUpdated: string;
+}
+
+export interface DiscoverySessionCreatedEvent {
+  sessionId: string;
+  user: string;
+  queueSize: number;
+  sessionSeed: string;
+  timestamp: string;
+}
+
+export interface SwipeRecordedEvent {
+  swipeId: string;
+  /** The DiscoverySession object the record_swipe call mutated */
+  sessionId: string | null;
+  swiper: string;
+  target: string;
+  direction: number;
+  randomSeed: string;
+  timestamp: string;
+}
+
+// Move field and event shapes as the RPC returns them (u64s as strings)
+interface DiscoverySessionFields {
+  user: string;
+  current_queue?: string[];
+  queue_index?: string;
+  session_seed: string;
+  last_updated: string;
+}
+
+interface DiscoverySessionCreatedJson {
+  session_id: string;
+  user: string;
+  queue_size?: string;
+  session_seed: string;
+  timestamp: string;
+}
+
+interface SwipeRecordedJson {
+  swipe_id: string;
+  swiper: string;
+  target: string;
+  direction: string | number;
+  random_seed: string;
+  timestamp: string;
+}
+
+/**
+ * Get the current state of a DiscoverySession object
+ */
+export async function getDiscoverySessionInfo(
+  client: SuiClient,
+  sessionId: string
+): Promise<DiscoverySessionInfo | null> {
+  try {
+    const sessionObj = await client.getObject({
+      id: sessionId,
+      options: {
+        showContent: true,
+      },
+    });
+
+    if (!sessionObj.data?.content || sessionObj.data.content.dataType !== "moveObject") {
+      return null;
+    }
+
+    const fields = sessionObj.data.content.fields as unknown as DiscoverySessionFields;
+
+    return {
+      sessionId,
+      user: fields.user,
+      currentQueue: fields.current_queue || [],
+      queueIndex: parseInt(fields.queue_index || "0"),
+      sessionSeed: String(fields.session_seed),
+      lastUpdated: fields.last_updated,
+    };
+  } catch (error) {
+    console.error("Error getting discovery session info:", error);
+    return null;
+  }
+}
+
+/**
+ * Wait for a discovery transaction to execute successfully
+ */
+async function waitForDiscoveryTransaction(
+  client: SuiClient,
+  digest: string
+): Promise<SuiTransactionBlockResponse> {
+  const tx = await client.waitForTransaction({
+    digest,
+    options: {
+      showEvents: true,
+      showEffects: true,
+      showInput: true,
+    },
+  });
+
+  if (tx.effects?.status.status !== "success") {
+    throw new Error(tx.effects?.status.error || "Transaction failed");
+  }
+
+  return tx;
+}
+
+/**
+ * Return the events of the given discovery type from an executed transaction
+ */
+function getDiscoveryEvents<T>(tx: SuiTransactionBlockResponse, eventName: string): T[] {
+  return (tx.events || [])
+    .filter((event) => event.type === `${DISCOVERY_EVENT_PREFIX}::${eventName}`)
+    .map((event) => event.parsedJson as T);
+}
+
+/**
+ * Find the object passed as the first argument of a discovery entry function
+ */
+function getDiscoveryCallObject(tx: SuiTransactionBlockResponse, functionName: string): string | null {
+  const data = tx.transaction?.data.transaction;
+  if (data?.kind !== "ProgrammableTransaction") return null;
+
+  for (const command of data.transactions) {
+    if (!("MoveCall" in command)) continue;
+
+    const call = command.MoveCall;
+    if (
+      normalizeSuiObjectId(call.package) !== normalizeSuiObjectId(CONTRACT_IDS.PACKAGE_ID) ||
+      call.module !== "discovery" ||
+      call.function !== functionName
+    ) {
+      continue;
+    }
+
+    const argument = call.arguments?.[0];
+    if (!argument || typeof argument !== "object" || !("Input" in argument)) return null;
+
+    const input = data.inputs[argument.Input];
+    return input?.type === "object" ? input.objectId : null;
+  }
+
+  return null;
+}
+
+/**
+ * Read the DiscoverySessionCreated event emitted by a create_discovery_session transaction
+ */
+export async function getDiscoverySessionCreatedEvent(
+  client: SuiClient,
+  digest: string
+): Promise<DiscoverySessionCreatedEvent | null> {
+  try {
+    const tx = await waitForDiscoveryTransaction(client, digest);
+    const [event] = getDiscoveryEvents<DiscoverySessionCreatedJson>(tx, "DiscoverySessionCreated");
+    if (!event) return null;
+
+    return {
+      sessionId: event.session_id,
+      user: event.user,
+      queueSize: parseInt(event.queue_size || "0"),
+      sessionSeed: String(event.session_seed),
+      timestamp: event.timestamp,
+    };
+  } catch (error) {
+    console.error("Error reading DiscoverySessionCreated event:", error);
+    return null;
+  }
+}
+
+/**
+ * Read the SwipeRecorded event emitted by a record_swipe transaction
+ */
+export async function getSwipeRecordedEvent(
+  client: SuiClient,
+  digest: string
+): Promise<SwipeRecordedEvent | null> {
+  try {
+    const tx = await waitForDiscoveryTransaction(client, digest);
+    const [event] = getDiscoveryEvents<SwipeRecordedJson>(tx, "SwipeRecorded");
+    if (!event) return null;
+
+    return {
+      swipeId: event.swipe_id,
+      sessionId: getDiscoveryCallObject(tx, "record_swipe"),
+      swiper: event.swiper,
+      target: event.target,
+      direction: Number(event.direction),
+      randomSeed: String(event.random_seed),
+      timestamp: event.timestamp,
+    };
+  } catch (error) {
+    console.error("Error reading SwipeRecorded event:", error);
+    return null;
+  }
+}
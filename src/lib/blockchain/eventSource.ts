@@ -0,0 +1,118 @@
+/**
+ * Chain Event Sources
+ * Paged readers over `matching_me` Move events, used by the chain indexer
+ */
+
+import type { SuiClient, SuiEvent } from "@mysten/sui/client";
+import { CONTRACT_IDS } from "./contractQueries";
+
+// Modules whose events are mirrored into the database
+export const INDEXED_MODULES = ["core", "chat", "discovery", "integration", "seal_policies"] as const;
+
+export type IndexedModule = (typeof INDEXED_MODULES)[number];
+
+export interface ChainEventId {
+  txDigest: string;
+  eventSeq: string;
+}
+
+export interface IndexedChainEvent {
+  id: ChainEventId;
+  module: string;
+  // Struct name without the package/module prefix, e.g. "MatchCreated"
+  eventType: string;
+  sender: string;
+  parsedJson: Record<string, any>;
+  timestampMs: string | null;
+}
+
+export interface ChainEventPage {
+  events: IndexedChainEvent[];
+  nextCursor: ChainEventId | null;
+  hasNextPage: boolean;
+}
+
+export interface ChainEventSource {
+  packageId: string;
+  fetchEvents(
+    module: string,
+    cursor: ChainEventId | null,
+    limit: number
+  ): Promise<ChainEventPage>;
+}
+
+function toIndexedEvent(event: SuiEvent, module: string): IndexedChainEvent {
+  return {
+    id: { txDigest: event.id.txDigest, eventSeq: String(event.id.eventSeq) },
+    module,
+    eventType: event.type.split("::").pop() || event.type,
+    sender: event.sender,
+    parsedJson: (event.parsedJson || {}) as IndexedChainEvent["parsedJson"],
+    timestampMs: event.timestampMs ?? null,
+  };
+}
+
+/**
+ * Reads events from a Sui fullnode in ascending order
+ */
+export class SuiEventSource implements ChainEventSource {
+  constructor(
+    private client: SuiClient,
+    public packageId: string = CONTRACT_IDS.PACKAGE_ID
+  ) {}
+
+  async fetchEvents(
+    module: string,
+    cursor: ChainEventId | null,
+    limit: number
+  ): Promise<ChainEventPage> {
+    const page = await this.client.queryEvents({
+      query: { MoveEventModule: { package: this.packageId, module } },
+      cursor,
+      limit,
+      order: "ascending",
+    });
+
+    return {
+      events: page.data.map((event) => toIndexedEvent(event, module)),
+      nextCursor: page.nextCursor
+        ? { txDigest: page.nextCursor.txDigest, eventSeq: String(page.nextCursor.eventSeq) }
+        : null,
+      hasNextPage: page.hasNextPage,
+    };
+  }
+}
+
+/**
+ * Serves a fixed, recorded list of events. Used to replay fixtures in tests
+ * and to re-run projections without hitting a fullnode.
+ */
+export class FixtureEventSource implements ChainEventSource {
+  constructor(
+    private events: IndexedChainEvent[],
+    public packageId: string = CONTRACT_IDS.PACKAGE_ID
+  ) {}
+
+  async fetchEvents(
+    module: string,
+    cursor: ChainEventId | null,
+    limit: number
+  ): Promise<ChainEventPage> {
+    const moduleEvents = this.events.filter((event) => event.module === module);
+    const start = cursor
+      ? moduleEvents.findIndex(
+          (event) =>
+            event.id.txDigest === cursor.txDigest && event.id.eventSeq === cursor.eventSeq
+        ) + 1
+      : 0;
+
+    const events = moduleEvents.slice(start, start + limit);
+    const last = events[events.length - 1];
+
+    return {
+      events,
+      nextCursor: last ? last.id : cursor,
+      hasNextPage: start + limit < moduleEvents.length,
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { MemoryCacheStore } from './memoryStore';
+import { connectRedis, MemoryRedis, type RedisCommands } from './redisCommands';
+import { RedisCacheStore } from './redisStore';
+import type { CacheStore } from './types';
+
+export type { CacheSetOptions, CacheStore, CacheStoreOptions, CacheStoreStats } from './types';
+export { MemoryCacheStore } from './memoryStore';
+export { RedisCacheStore } from './redisStore';
+export { MemoryRedis, type RedisCommand, type RedisCommands } from './redisCommands';
+
+const stores = new Map<string, { store: CacheStore; maxSize: number }>();
+let redis: RedisCommands | null = null;
+
+/**
+ * The Redis connection shared by all cache namespaces, or null without
+ * REDIS_URL. "memory://" uses an in-process stand-in.
+ */
+export function getRedis(): RedisCommands | null {
+    const url = process.env.REDIS_URL;
+    if (!url) return null;
+    if (!redis) {
+        redis = url === 'memory://' ? new MemoryRedis() : connectRedis(url);
+    }
+    return redis;
+}
+
+/**
+ * The cache for a namespace: Redis-backed when REDIS_URL is set, so every
+ * instance shares it, otherwise held in this process. A namespace has one
+ * size limit; asking for it again with another is an error.
+ */
+export function getCacheStore(namespace: string, options: { maxSize: number }): CacheStore {
+    const existing = stores.get(namespace);
+    if (existing) {
+        if (existing.maxSize !== options.maxSize) {
+            throw new Error(`Cache namespace "${namespace}" is already in use with maxSize ${existing.maxSize}`);
+        }
+        return existing.store;
+    }
+
+    const redisCommands = getRedis();
+    const store = redisCommands
+        ? new RedisCacheStore(redisCommands, { namespace, maxSize: options.maxSize })
+        : new MemoryCacheStore({ namespace, maxSize: options.maxSize });
+    stores.set(namespace, { store, maxSize: options.maxSize });
+    return store;
+}
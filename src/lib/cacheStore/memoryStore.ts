@@ -0,0 +1,110 @@
+import { hitRate, type CacheSetOptions, type CacheStore, type CacheStoreOptions, type CacheStoreStats } from './types';
+
+interface Entry {
+    json: string;
+    tags: string[];
+    expiresAt: number;
+}
+
+/**
+ * Cache held in this process. A Map keeps insertion order, so re-inserting
+ * an entry on every read keeps the least recently used one first.
+ */
+export class MemoryCacheStore implements CacheStore {
+    private entries = new Map<string, Entry>();
+    private tags = new Map<string, Set<string>>();
+    private hits = 0;
+    private misses = 0;
+    private bytes = 0;
+
+    constructor(private options: CacheStoreOptions, private now: () => number = Date.now) {}
+
+    async get<T>(key: string): Promise<T | null> {
+        const entry = this.entries.get(key);
+        if (!entry || entry.expiresAt <= this.now()) {
+            if (entry) this.remove(key);
+            this.misses++;
+            return null;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.hits++;
+        return JSON.parse(entry.json) as T;
+    }
+
+    async set<T>(key: string, value: T, options: CacheSetOptions): Promise<void> {
+        this.remove(key);
+        const entry: Entry = {
+            json: JSON.stringify(value),
+            tags: options.tags ?? [],
+            expiresAt: this.now() + options.ttlSeconds * 1000
+        };
+        this.entries.set(key, entry);
+        this.bytes += entry.json.length;
+        for (const tag of entry.tags) {
+            if (!this.tags.has(tag)) this.tags.set(tag, new Set());
+            this.tags.get(tag)!.add(key);
+        }
+
+        if (this.entries.size <= this.options.maxSize) return;
+        // Over the limit: drop expired entries first, then the least recently used
+        this.purgeExpired();
+        for (const oldest of this.entries.keys()) {
+            if (this.entries.size <= this.options.maxSize) break;
+            this.remove(oldest);
+        }
+    }
+
+    async delete(keys: string | string[]): Promise<void> {
+        for (const key of Array.isArray(keys) ? keys : [keys]) this.remove(key);
+    }
+
+    async invalidateTag(tag: string): Promise<number> {
+        const keys = [...(this.tags.get(tag) ?? [])];
+        keys.forEach(key => this.remove(key));
+        this.tags.delete(tag);
+        return keys.length;
+    }
+
+    async getStats(): Promise<CacheStoreStats> {
+        this.purgeExpired();
+        return {
+            driver: 'memory',
+            hits: this.hits,
+            misses: this.misses,
+            hitRate: hitRate(this.hits, this.misses),
+            totalKeys: this.entries.size,
+            maxSize: this.options.maxSize,
+            memoryBytes: this.bytes
+        };
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+        this.tags.clear();
+        this.hits = 0;
+        this.misses = 0;
+        this.bytes = 0;
+    }
+
+    private remove(key: string): void {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+
+        this.entries.delete(key);
+        this.bytes -= entry.json.length;
+        for (const tag of entry.tags) {
+            const keys = this.tags.get(tag);
+            keys?.delete(key);
+            if (keys?.size === 0) this.tags.delete(tag);
+        }
+    }
+
+    private purgeExpired(): void {
+        const now = this.now();
+        for (const [key, entry] of this.entries) {
+            if (entry.expiresAt <= now) this.remove(key);
+        }
+    }
+}
@@ -0,0 +1,273 @@
+import { createClient } from 'redis';
+
+/**
+ * The Redis commands the cache uses, in node-redis naming. Sorted set ranges
+ * are ascending by score.
+ */
+export interface RedisCommands {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, ttlMs: number): Promise<void>;
+    del(keys: string[]): Promise<number>;
+    // `onlyExisting` updates the scores of members already in the set (XX)
+    zAdd(key: string, members: { score: number; value: string }[], options?: { onlyExisting?: boolean }): Promise<void>;
+    zRem(key: string, members: string[]): Promise<void>;
+    zCard(key: string): Promise<number>;
+    zRange(key: string, start: number, stop: number): Promise<string[]>;
+    zRangeByScore(key: string, min: number, max: number): Promise<string[]>;
+    sAdd(key: string, members: string[]): Promise<void>;
+    sRem(key: string, members: string[]): Promise<void>;
+    sMembers(key: string): Promise<string[]>;
+    hGet(key: string, field: string): Promise<string | null>;
+    hSet(key: string, field: string, value: string): Promise<void>;
+    hDel(key: string, fields: string[]): Promise<void>;
+    hGetAll(key: string): Promise<Record<string, string>>;
+    hIncrBy(key: string, field: string, increment: number): Promise<void>;
+    ping(): Promise<string>;
+    /**
+     * Runs the commands in one MULTI/EXEC round trip and returns their
+     * replies in order
+     */
+    multi(commands: RedisCommand[]): Promise<unknown[]>;
+}
+
+type QueueableCommand = Exclude<keyof RedisCommands, 'ping' | 'multi'>;
+
+/**
+ * A command for RedisCommands.multi: the method name and its arguments
+ */
+export type RedisCommand = {
+    [K in QueueableCommand]: [K, ...Parameters<RedisCommands[K]>];
+}[QueueableCommand];
+
+/**
+ * Connects to a Redis server. Commands fail straight away while the
+ * connection is down instead of queueing, so callers fall back to a miss.
+ */
+export function connectRedis(url: string): RedisCommands {
+    const client = createClient({
+        url,
+        disableOfflineQueue: true,
+        socket: { connectTimeout: 5000, reconnectStrategy: retries => Math.min(retries * 200, 5000) }
+    });
+    client.on('error', error => console.error('[Cache] Redis error:', error));
+    client.connect().catch(error => console.error('[Cache] Redis connection failed:', error));
+
+    return {
+        get: key => client.get(key),
+        set: async (key, value, ttlMs) => {
+            await client.set(key, value, { PX: Math.max(1, Math.round(ttlMs)) });
+        },
+        del: async keys => (keys.length ? client.del(keys) : 0),
+        zAdd: async (key, members, options) => {
+            if (members.length) await client.zAdd(key, members, options?.onlyExisting ? { XX: true } : undefined);
+        },
+        zRem: async (key, members) => {
+            if (members.length) await client.zRem(key, members);
+        },
+        zCard: key => client.zCard(key),
+        zRange: (key, start, stop) => client.zRange(key, start, stop),
+        zRangeByScore: (key, min, max) => client.zRangeByScore(key, min, max),
+        sAdd: async (key, members) => {
+            if (members.length) await client.sAdd(key, members);
+        },
+        sRem: async (key, members) => {
+            if (members.length) await client.sRem(key, members);
+        },
+        sMembers: key => client.sMembers(key),
+        hGet: async (key, field) => (await client.hGet(key, field)) ?? null,
+        hSet: async (key, field, value) => {
+            await client.hSet(key, field, value);
+        },
+        hDel: async (key, fields) => {
+            if (fields.length) await client.hDel(key, fields);
+        },
+        hGetAll: key => client.hGetAll(key),
+        hIncrBy: async (key, field, increment) => {
+            await client.hIncrBy(key, field, increment);
+        },
+        ping: () => client.ping(),
+        multi: async commands => {
+            const transaction = client.multi();
+            // Empty member lists are skipped, as above, with a null reply in their place
+            const queued = commands.map(command => queueCommand(transaction, command));
+            const replies = queued.some(Boolean) ? await transaction.exec() : [];
+            let next = 0;
+            return queued.map(isQueued => (isQueued ? replies[next++] : null));
+        }
+    };
+}
+
+/**
+ * Adds a command to a node-redis MULTI; false if it had nothing to do
+ */
+function queueCommand(transaction: ReturnType<ReturnType<typeof createClient>['multi']>, command: RedisCommand): boolean {
+    switch (command[0]) {
+        case 'get':
+            transaction.get(command[1]);
+            return true;
+        case 'set':
+            transaction.set(command[1], command[2], { PX: Math.max(1, Math.round(command[3])) });
+            return true;
+        case 'del':
+            if (command[1].length) transaction.del(command[1]);
+            return command[1].length > 0;
+        case 'zAdd':
+            if (command[2].length) transaction.zAdd(command[1], command[2], command[3]?.onlyExisting ? { XX: true } : undefined);
+            return command[2].length > 0;
+        case 'zRem':
+            if (command[2].length) transaction.zRem(command[1], command[2]);
+            return command[2].length > 0;
+        case 'zCard':
+            transaction.zCard(command[1]);
+            return true;
+        case 'zRange':
+            transaction.zRange(command[1], command[2], command[3]);
+            return true;
+        case 'zRangeByScore':
+            transaction.zRangeByScore(command[1], command[2], command[3]);
+            return true;
+        case 'sAdd':
+            if (command[2].length) transaction.sAdd(command[1], command[2]);
+            return command[2].length > 0;
+        case 'sRem':
+            if (command[2].length) transaction.sRem(command[1], command[2]);
+            return command[2].length > 0;
+        case 'sMembers':
+            transaction.sMembers(command[1]);
+            return true;
+        case 'hGet':
+            transaction.hGet(command[1], command[2]);
+            return true;
+        case 'hSet':
+            transaction.hSet(command[1], command[2], command[3]);
+            return true;
+        case 'hDel':
+            if (command[2].length) transaction.hDel(command[1], command[2]);
+            return command[2].length > 0;
+        case 'hGetAll':
+            transaction.hGetAll(command[1]);
+            return true;
+        case 'hIncrBy':
+            transaction.hIncrBy(command[1], command[2], command[3]);
+            return true;
+    }
+}
+
+/**
+ * Stand-in for a Redis server held in this process, for tests and for local
+ * development with REDIS_URL="memory://"
+ */
+export class MemoryRedis implements RedisCommands {
+    private strings = new Map<string, { value: string; expiresAt: number }>();
+    private sortedSets = new Map<string, Map<string, number>>();
+    private sets = new Map<string, Set<string>>();
+    private hashes = new Map<string, Map<string, string>>();
+
+    constructor(private now: () => number = Date.now) {}
+
+    async get(key: string): Promise<string | null> {
+        const entry = this.strings.get(key);
+        if (!entry) return null;
+        if (entry.expiresAt <= this.now()) {
+            this.strings.delete(key);
+            return null;
+        }
+        return entry.value;
+    }
+
+    async set(key: string, value: string, ttlMs: number): Promise<void> {
+        this.strings.set(key, { value, expiresAt: this.now() + ttlMs });
+    }
+
+    async del(keys: string[]): Promise<number> {
+        let removed = 0;
+        for (const key of keys) {
+            for (const store of [this.strings, this.sortedSets, this.sets, this.hashes] as Map<string, unknown>[]) {
+                if (store.delete(key)) removed++;
+            }
+        }
+        return removed;
+    }
+
+    async zAdd(key: string, members: { score: number; value: string }[], options?: { onlyExisting?: boolean }): Promise<void> {
+        const set = this.sortedSets.get(key) ?? new Map<string, number>();
+        members
+            .filter(member => !options?.onlyExisting || set.has(member.value))
+            .forEach(member => set.set(member.value, member.score));
+        this.sortedSets.set(key, set);
+    }
+
+    async zRem(key: string, members: string[]): Promise<void> {
+        members.forEach(member => this.sortedSets.get(key)?.delete(member));
+    }
+
+    async zCard(key: string): Promise<number> {
+        return this.sortedSets.get(key)?.size ?? 0;
+    }
+
+    async zRange(key: string, start: number, stop: number): Promise<string[]> {
+        const sorted = this.sorted(key);
+        return sorted.slice(start, stop < 0 ? sorted.length + stop + 1 : stop + 1);
+    }
+
+    async zRangeByScore(key: string, min: number, max: number): Promise<string[]> {
+        const set = this.sortedSets.get(key);
+        return this.sorted(key).filter(member => set!.get(member)! >= min && set!.get(member)! <= max);
+    }
+
+    async sAdd(key: string, members: string[]): Promise<void> {
+        const set = this.sets.get(key) ?? new Set<string>();
+        members.forEach(member => set.add(member));
+        this.sets.set(key, set);
+    }
+
+    async sRem(key: string, members: string[]): Promise<void> {
+        members.forEach(member => this.sets.get(key)?.delete(member));
+    }
+
+    async sMembers(key: string): Promise<string[]> {
+        return [...(this.sets.get(key) ?? [])];
+    }
+
+    async hGet(key: string, field: string): Promise<string | null> {
+        return this.hashes.get(key)?.get(field) ?? null;
+    }
+
+    async hSet(key: string, field: string, value: string): Promise<void> {
+        const hash = this.hashes.get(key) ?? new Map<string, string>();
+        hash.set(field, value);
+        this.hashes.set(key, hash);
+    }
+
+    async hDel(key: string, fields: string[]): Promise<void> {
+        fields.forEach(field => this.hashes.get(key)?.delete(field));
+    }
+
+    async hGetAll(key: string): Promise<Record<string, string>> {
+        return Object.fromEntries(this.hashes.get(key) ?? []);
+    }
+
+    async hIncrBy(key: string, field: string, increment: number): Promise<void> {
+        const current = parseInt((await this.hGet(key, field)) ?? '0');
+        await this.hSet(key, field, String(current + increment));
+    }
+
+    async ping(): Promise<string> {
+        return 'PONG';
+    }
+
+    async multi(commands: RedisCommand[]): Promise<unknown[]> {
+        const replies: unknown[] = [];
+        for (const [name, ...args] of commands) {
+            replies.push(await (this[name] as (...args: unknown[]) => Promise<unknown>)(...args));
+        }
+        return replies;
+    }
+
+    private sorted(key: string): string[] {
+        const set = this.sortedSets.get(key);
+        if (!set) return [];
+        // Redis orders equal scores by member
+        return [...set.keys()].sort((a, b) => set.get(a)! - set.get(b)! || (a < b ? -1 : a > b ? 1 : 0));
+    }
+}
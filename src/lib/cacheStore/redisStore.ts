@@ -0,0 +1,157 @@
+import type { RedisCommand, RedisCommands } from './redisCommands';
+import { hitRate, type CacheSetOptions, type CacheStore, type CacheStoreOptions, type CacheStoreStats } from './types';
+
+interface EntryMeta {
+    bytes: number;
+    tags: string[];
+}
+
+/**
+ * Cache shared through Redis. Besides the values, which expire on their own,
+ * each namespace keeps a sorted set of last access times for LRU eviction, a
+ * sorted set of expiry times, a hash of entry sizes and tags, a hash of
+ * counters and one set per tag. Reads and writes go out as MULTI batches, so
+ * a hit or a write below the size limit takes one or two round trips.
+ */
+export class RedisCacheStore implements CacheStore {
+    private prefix: string;
+
+    constructor(
+        private redis: RedisCommands,
+        private options: CacheStoreOptions,
+        private now: () => number = Date.now
+    ) {
+        this.prefix = `cache:${options.namespace}`;
+    }
+
+    async get<T>(key: string): Promise<T | null> {
+        // Every lookup is counted; misses are counted separately below
+        const [json, rawMeta] = await this.redis.multi([
+            ['get', this.valueKey(key)],
+            ['hGet', this.key('meta'), key],
+            ['zAdd', this.key('lru'), [{ score: this.now(), value: key }], { onlyExisting: true }],
+            ['hIncrBy', this.key('stats'), 'lookups', 1]
+        ]) as [string | null, string | null];
+        if (json !== null) return JSON.parse(json) as T;
+
+        // Expired in Redis; drop it from the indexes too
+        await this.redis.multi([
+            ...this.removeCommands(key, rawMeta),
+            ['hIncrBy', this.key('stats'), 'misses', 1]
+        ]);
+        return null;
+    }
+
+    async set<T>(key: string, value: T, options: CacheSetOptions): Promise<void> {
+        const json = JSON.stringify(value);
+        const tags = options.tags ?? [];
+        const now = this.now();
+        const previous = await this.redis.hGet(this.key('meta'), key);
+
+        const replies = await this.redis.multi([
+            ...this.removeCommands(key, previous),
+            ['set', this.valueKey(key), json, options.ttlSeconds * 1000],
+            ['zAdd', this.key('lru'), [{ score: now, value: key }]],
+            ['zAdd', this.key('exp'), [{ score: now + options.ttlSeconds * 1000, value: key }]],
+            ['hSet', this.key('meta'), key, JSON.stringify({ bytes: json.length, tags } satisfies EntryMeta)],
+            ['hIncrBy', this.key('stats'), 'bytes', json.length],
+            ...tags.map((tag): RedisCommand => ['sAdd', this.tagKey(tag), [key]]),
+            ['zCard', this.key('lru')]
+        ]);
+        if ((replies[replies.length - 1] as number) <= this.options.maxSize) return;
+
+        // Over the limit: drop expired entries first, then the least recently used
+        await this.purgeExpired();
+        const excess = (await this.redis.zCard(this.key('lru'))) - this.options.maxSize;
+        if (excess > 0) await this.removeAll(await this.redis.zRange(this.key('lru'), 0, excess - 1));
+    }
+
+    async delete(keys: string | string[]): Promise<void> {
+        await this.removeAll(Array.isArray(keys) ? keys : [keys]);
+    }
+
+    async invalidateTag(tag: string): Promise<number> {
+        const removed = await this.removeAll(await this.redis.sMembers(this.tagKey(tag)));
+        await this.redis.del([this.tagKey(tag)]);
+        return removed;
+    }
+
+    async getStats(): Promise<CacheStoreStats> {
+        await this.purgeExpired();
+        const [counters, totalKeys] = await this.redis.multi([
+            ['hGetAll', this.key('stats')],
+            ['zCard', this.key('lru')]
+        ]) as [Record<string, string>, number];
+        const misses = parseInt(counters.misses ?? '0');
+        const hits = parseInt(counters.lookups ?? '0') - misses;
+        return {
+            driver: 'redis',
+            hits,
+            misses,
+            hitRate: hitRate(hits, misses),
+            totalKeys,
+            maxSize: this.options.maxSize,
+            memoryBytes: parseInt(counters.bytes ?? '0')
+        };
+    }
+
+    async clear(): Promise<void> {
+        const entries = await this.redis.hGetAll(this.key('meta'));
+        const tags = new Set(Object.values(entries).flatMap(meta => (JSON.parse(meta) as EntryMeta).tags));
+        await this.redis.del([
+            ...Object.keys(entries).map(key => this.valueKey(key)),
+            ...[...tags].map(tag => this.tagKey(tag)),
+            this.key('lru'),
+            this.key('exp'),
+            this.key('meta'),
+            this.key('stats')
+        ]);
+    }
+
+    /**
+     * Removes entries and their index records in two round trips; returns
+     * how many were there
+     */
+    private async removeAll(keys: string[]): Promise<number> {
+        if (keys.length === 0) return 0;
+
+        const metas = await this.redis.multi(keys.map((key): RedisCommand => ['hGet', this.key('meta'), key])) as (string | null)[];
+        const commands = keys.flatMap((key, i) => this.removeCommands(key, metas[i]));
+        if (commands.length > 0) await this.redis.multi(commands);
+        return metas.filter(meta => meta !== null).length;
+    }
+
+    /**
+     * The commands removing an entry, given its meta record; none if it is
+     * not there
+     */
+    private removeCommands(key: string, rawMeta: string | null): RedisCommand[] {
+        if (rawMeta === null) return [];
+
+        const meta = JSON.parse(rawMeta) as EntryMeta;
+        return [
+            ['del', [this.valueKey(key)]],
+            ['zRem', this.key('lru'), [key]],
+            ['zRem', this.key('exp'), [key]],
+            ['hDel', this.key('meta'), [key]],
+            ['hIncrBy', this.key('stats'), 'bytes', -meta.bytes],
+            ...meta.tags.map((tag): RedisCommand => ['sRem', this.tagKey(tag), [key]])
+        ];
+    }
+
+    private async purgeExpired(): Promise<void> {
+        await this.removeAll(await this.redis.zRangeByScore(this.key('exp'), 0, this.now()));
+    }
+
+    private key(name: string): string {
+        return `${this.prefix}:${name}`;
+    }
+
+    private valueKey(key: string): string {
+        return `${this.prefix}:v:${key}`;
+    }
+
+    private tagKey(tag: string): string {
+        return `${this.prefix}:tag:${tag}`;
+    }
+}
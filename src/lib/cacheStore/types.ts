@@ -0,0 +1,41 @@
+export interface CacheSetOptions {
+    ttlSeconds: number;
+    // Labels for invalidating related entries together, e.g. "user:<id>"
+    tags?: string[];
+}
+
+export interface CacheStoreStats {
+    driver: 'memory' | 'redis';
+    hits: number;
+    misses: number;
+    // Percentage, two decimals
+    hitRate: number;
+    totalKeys: number;
+    maxSize: number;
+    // Size of the stored values as JSON
+    memoryBytes: number;
+}
+
+/**
+ * A namespaced key-value cache with TTLs, tags and least-recently-used
+ * eviction once it holds `maxSize` entries. Values must survive JSON.
+ */
+export interface CacheStore {
+    get<T>(key: string): Promise<T | null>;
+    set<T>(key: string, value: T, options: CacheSetOptions): Promise<void>;
+    delete(keys: string | string[]): Promise<void>;
+    // Removes every entry carrying the tag and returns how many there were
+    invalidateTag(tag: string): Promise<number>;
+    getStats(): Promise<CacheStoreStats>;
+    clear(): Promise<void>;
+}
+
+export interface CacheStoreOptions {
+    namespace: string;
+    maxSize: number;
+}
+
+export function hitRate(hits: number, misses: number): number {
+    const total = hits + misses;
+    return total > 0 ? Math.round((hits / total) * 10000) / 100 : 0;
+}
@@ -11,6 +11,22 @@ export interface BuildCreateProfileTxParams {
   registry: SharedObjectInput;
 }
 
+export interface BuildUpdateProfileTxParams {
+  profileObjectId: string;
+  registry: SharedObjectInput;
+  // Fields left undefined are passed as None and keep their on-chain value
+  displayName?: string;
+  bio?: string;
+  interests?: string[];
+}
+
+export interface BuildAccountTeardownTxParams {
+  profileObjectId: string;
+  registry: SharedObjectInput;
+  avatarAllowlistId?: string | null;
+  chatAllowlistIds: string[];
+}
+
 const STRING_TYPE = '0x1::string::String';
 
 export interface SharedObjectInput {
@@ -181,6 +197,98 @@ export function buildCreateProfileTransaction({
   return tx;
 }
 
+export function buildUpdateProfileTransaction({
+  profileObjectId,
+  registry,
+  displayName,
+  bio,
+  interests,
+}: BuildUpdateProfileTxParams): Transaction {
+  assertMatchingMeConfig();
+
+  const tx = new Transaction();
+
+  // update_profile only reads the registry
+  const registryArgument = tx.object(
+    Inputs.SharedObjectRef({
+      objectId: registry.objectId,
+      initialSharedVersion: registry.initialSharedVersion,
+      mutable: false,
+    }),
+  );
+
+  const clockArgument = matchingMeContractConfig.clockObjectId
+    ? tx.object(matchingMeContractConfig.clockObjectId)
+    : tx.object.clock();
+
+  tx.moveCall({
+    target: `${matchingMeContractConfig.packageId}::${matchingMeContractConfig.moduleName}::update_profile`,
+    arguments: [
+      registryArgument,
+      tx.object(profileObjectId),
+      tx.pure.option('string', displayName ?? null),
+      tx.pure.option('string', bio ?? null),
+      tx.pure.option('vector<string>', interests ? normaliseInterests(interests) : null),
+      clockArgument,
+    ],
+  });
+
+  return tx;
+}
+
+/**
+ * Revokes every Seal allowlist the owner controls, then deletes the profile.
+ * All calls share one transaction so the profile is never deleted while an
+ * allowlist still grants access.
+ */
+export function buildAccountTeardownTransaction({
+  profileObjectId,
+  registry,
+  avatarAllowlistId,
+  chatAllowlistIds,
+}: BuildAccountTeardownTxParams): Transaction {
+  assertMatchingMeConfig();
+
+  const tx = new Transaction();
+  const { packageId } = matchingMeContractConfig;
+
+  const clockArgument = matchingMeContractConfig.clockObjectId
+    ? tx.object(matchingMeContractConfig.clockObjectId)
+    : tx.object.clock();
+  const profile = tx.object(profileObjectId);
+
+  for (const allowlistId of chatAllowlistIds) {
+    tx.moveCall({
+      target: `${packageId}::seal_policies::deactivate_chat_allowlist`,
+      arguments: [tx.object(allowlistId), profile, clockArgument],
+    });
+  }
+
+  if (avatarAllowlistId) {
+    tx.moveCall({
+      target: `${packageId}::seal_policies::deactivate_avatar_allowlist`,
+      arguments: [tx.object(avatarAllowlistId), profile, clockArgument],
+    });
+  }
+
+  tx.moveCall({
+    target: `${packageId}::${matchingMeContractConfig.moduleName}::delete_profile`,
+    arguments: [
+      tx.object(
+        Inputs.SharedObjectRef({
+          objectId: registry.objectId,
+          initialSharedVersion: registry.initialSharedVersion,
+          mutable: true,
+        }),
+      ),
+      profile,
+      clockArgument,
+    ],
+  });
+
+  return tx;
+}
+
 function normaliseInterests(interests: string[]): string[] {
   const cleaned = Array.from(
     new Set(
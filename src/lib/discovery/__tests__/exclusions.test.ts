@@ -0,0 +1,56 @@
+import { mockDb } from '@/test/prismaMock';
+import { getDiscoveryExclusions } from '../exclusions';
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+
+const now = new Date('2026-10-20T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+function seed(passResurfaceDays: number | null) {
+    mockDb.reset({
+        member: [{ userId: 'alice', passResurfaceDays }],
+        swipe: [
+            { sourceUserId: 'alice', targetUserId: 'old-pass', direction: 'LEFT', swipedAt: daysAgo(31) },
+            { sourceUserId: 'alice', targetUserId: 'recent-pass', direction: 'LEFT', swipedAt: daysAgo(29) },
+            { sourceUserId: 'alice', targetUserId: 'old-like', direction: 'RIGHT', swipedAt: daysAgo(200) },
+            { sourceUserId: 'bob', targetUserId: 'bobs-pass', direction: 'LEFT', swipedAt: daysAgo(1) },
+        ],
+        like: [{ sourceUserId: 'alice', targetUserId: 'liked', createdAt: daysAgo(90) }],
+    });
+}
+
+describe('getDiscoveryExclusions', () => {
+    beforeAll(() => {
+        jest.useFakeTimers({ now });
+    });
+
+    afterAll(() => {
+        jest.useRealTimers();
+    });
+
+    it('should keep every pass hidden when no resurface window is set', async () => {
+        seed(null);
+
+        const excluded = await getDiscoveryExclusions('alice');
+
+        expect(excluded.sort()).toEqual(['liked', 'old-like', 'old-pass', 'recent-pass']);
+    });
+
+    it('should resurface passes older than the window but never right swipes or likes', async () => {
+        seed(30);
+
+        const excluded = await getDiscoveryExclusions('alice');
+
+        expect(excluded.sort()).toEqual(['liked', 'old-like', 'recent-pass']);
+    });
+
+    it('should measure the window from the deck snapshot and ignore later swipes', async () => {
+        seed(30);
+        mockDb.table('swipe').push({ sourceUserId: 'alice', targetUserId: 'after-snapshot', direction: 'LEFT', swipedAt: daysAgo(1) });
+
+        // Five days back the 29-day-old pass was still recent and the 31-day-old one only 26 days old
+        const excluded = await getDiscoveryExclusions('alice', daysAgo(5));
+
+        expect(excluded.sort()).toEqual(['liked', 'old-like', 'old-pass', 'recent-pass']);
+    });
+});
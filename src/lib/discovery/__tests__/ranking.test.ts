@@ -0,0 +1,184 @@
+import { mockDb, type Row } from '@/test/prismaMock';
+import { createPrismaCandidateGenerator } from '../candidates';
+import { RankingPipeline } from '../pipeline';
+import { seededShuffle, createSeededRandom } from '../random';
+import { decodeDeckCursor, encodeDeckCursor } from '../cursor';
+import { createRunLengthDiversifier } from '../diversifiers';
+import { preferenceFitScorer, reciprocalLikeScorer } from '../scorers';
+import type { CandidateGenerator, DiscoveryCandidate, RankingContext } from '../types';
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+
+const now = new Date('2026-01-01T00:00:00Z');
+
+function makeCandidate(userId: string, overrides: Partial<DiscoveryCandidate['member']> = {}): DiscoveryCandidate {
+    return {
+        member: {
+            id: `member-${userId}`,
+            userId,
+            name: userId,
+            image: null,
+            gender: 'female',
+            dateOfBirth: new Date('1996-01-01T00:00:00Z'),
+            city: 'Hanoi',
+            country: 'Vietnam',
+            description: '',
+            created: now,
+            updated: now,
+            user: { profileObjectId: null, walletAddress: null },
+            ...overrides
+        },
+        signals: { approvedPhotoCount: 0, likedViewer: false, likeRate: null }
+    };
+}
+
+const context: RankingContext = {
+    viewer: { userId: 'viewer', gender: 'male', city: 'Hanoi', country: 'Vietnam' },
+    preferences: { minAge: 25, maxAge: 35, genders: ['female'] },
+    now,
+    seed: 'test-seed'
+};
+
+describe('seeded random', () => {
+    it('should produce the same sequence for the same seed', () => {
+        const a = createSeededRandom('abc');
+        const b = createSeededRandom('abc');
+        expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+    });
+
+    it('should shuffle deterministically without mutating the input', () => {
+        const items = ['a', 'b', 'c', 'd', 'e', 'f'];
+        const first = seededShuffle(items, 'seed-1');
+
+        expect(seededShuffle(items, 'seed-1')).toEqual(first);
+        expect([...first].sort()).toEqual(items);
+        expect(items).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+    });
+});
+
+describe('deck cursor', () => {
+    it('should round-trip a cursor', () => {
+        const cursor = { seed: 'abc', asOf: now.toISOString(), pool: { updated: now.toISOString(), id: 'm1' }, offset: 20 };
+        expect(decodeDeckCursor(encodeDeckCursor(cursor))).toEqual(cursor);
+        expect(decodeDeckCursor(encodeDeckCursor({ ...cursor, pool: null }))).toEqual({ ...cursor, pool: null });
+    });
+
+    it('should reject malformed cursors', () => {
+        expect(decodeDeckCursor('not-a-cursor')).toBeNull();
+        expect(decodeDeckCursor(undefined)).toBeNull();
+    });
+});
+
+describe('scorers', () => {
+    it('should give full preference fit for matching gender and age', () => {
+        expect(preferenceFitScorer.score(makeCandidate('a'), context)).toBe(1);
+    });
+
+    it('should give partial credit for ages just outside the range', () => {
+        const candidate = makeCandidate('a', { dateOfBirth: new Date('1988-06-01T00:00:00Z') });
+        const score = preferenceFitScorer.score(candidate, context);
+        expect(score).toBeGreaterThan(0.5);
+        expect(score).toBeLessThan(1);
+    });
+
+    it('should rank members who already liked the viewer highest', () => {
+        const candidate = makeCandidate('a');
+        candidate.signals.likedViewer = true;
+        expect(reciprocalLikeScorer.score(candidate, context)).toBe(1);
+    });
+});
+
+describe('RankingPipeline', () => {
+    const candidates = [
+        makeCandidate('stale', { updated: new Date('2025-06-01T00:00:00Z') }),
+        makeCandidate('fresh'),
+        makeCandidate('wrong-gender', { gender: 'male' })
+    ];
+
+    const generator: CandidateGenerator = {
+        name: 'fixture',
+        generate: async () => ({ candidates, next: null, total: candidates.length })
+    };
+
+    const pipeline = new RankingPipeline({
+        generator,
+        scorers: [
+            { name: 'recency', weight: 1, score: c => (c.member.updated >= now ? 1 : 0) },
+            preferenceFitScorer
+        ],
+        diversifiers: [],
+        exploration: 0
+    });
+
+    it('should order candidates by weighted score', async () => {
+        const { ranked } = await pipeline.rank(context, []);
+        expect(ranked.map(c => c.member.userId)).toEqual(['fresh', 'wrong-gender', 'stale']);
+        expect(ranked[0].breakdown).toHaveProperty('recency', 1);
+    });
+
+    it('should replay the same deck for the same seed', async () => {
+        const explorative = new RankingPipeline({ generator, scorers: [], diversifiers: [], exploration: 1 });
+
+        const first = await explorative.rank(context, []);
+        const second = await explorative.rank(context, []);
+        expect(second.ranked.map(c => c.member.userId)).toEqual(first.ranked.map(c => c.member.userId));
+    });
+});
+
+describe('prismaCandidateGenerator', () => {
+    const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+    beforeAll(() => {
+        mockDb.configure('member', { relations: { user: () => ({ profileObjectId: null, walletAddress: null }) } });
+        mockDb.override('member', {
+            findMany: async (args, base) => (await base(args) as Row[]).map(member => ({ ...member, _count: { photos: 0 } })),
+        });
+    });
+
+    beforeEach(() => {
+        mockDb.reset({
+            member: [
+                { id: 'm1', userId: 'a', created: minutesAgo(900), updated: minutesAgo(5) },
+                { id: 'm2', userId: 'b', created: minutesAgo(900), updated: minutesAgo(10) },
+                { id: 'm3', userId: 'c', created: minutesAgo(900), updated: minutesAgo(10) },
+                { id: 'm4', userId: 'd', created: minutesAgo(900), updated: minutesAgo(60) },
+                { id: 'm5', userId: 'e', created: minutesAgo(900), updated: minutesAgo(90) },
+                // Active since the deck started
+                { id: 'm6', userId: 'f', created: minutesAgo(900), updated: new Date(now.getTime() + 60 * 1000) },
+                { id: 'm7', userId: 'viewer', created: minutesAgo(900), updated: minutesAgo(1) },
+            ],
+        });
+    });
+
+    it('should walk every eligible member once, window by window, with an uncapped total', async () => {
+        const generator = createPrismaCandidateGenerator(2);
+        const seen: string[][] = [];
+        const totals: number[] = [];
+
+        let after = null;
+        do {
+            const pool = await generator.generate(context, ['e'], after);
+            seen.push(pool.candidates.map(c => c.member.userId));
+            totals.push(pool.total);
+            after = pool.next;
+        } while (after);
+
+        expect(seen).toEqual([['a', 'c'], ['b', 'd'], []]);
+        expect(totals).toEqual([4, 4, 4]);
+    });
+});
+
+describe('createRunLengthDiversifier', () => {
+    it('should break up long runs of the same attribute', () => {
+        const diversifier = createRunLengthDiversifier('city', c => c.member.city, 2);
+        const ranked = [
+            makeCandidate('a'),
+            makeCandidate('b'),
+            makeCandidate('c'),
+            makeCandidate('d', { city: 'Saigon' })
+        ].map(c => ({ ...c, score: 1, breakdown: {} }));
+
+        const result = diversifier.diversify(ranked, context);
+        expect(result.map(c => c.member.userId)).toEqual(['a', 'b', 'd', 'c']);
+    });
+});
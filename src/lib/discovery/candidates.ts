@@ -0,0 +1,117 @@
+import { SwipeDirection, type Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { buildMemberFilterWhere } from '@/lib/memberFilters';
+import type { CandidateGenerator } from './types';
+
+const CANDIDATE_POOL_SIZE = 200;
+
+/**
+ * Pulls eligible members a window at a time, most recently active first,
+ * together with the photo and like signals used by the scorers. Members
+ * active since the deck started (`updated` after `now`) are left out so the
+ * windows don't shift while the viewer pages through them.
+ */
+export function createPrismaCandidateGenerator(poolSize = CANDIDATE_POOL_SIZE): CandidateGenerator {
+  return {
+    name: 'prisma',
+    generate: async (context, excludedUserIds, after) => {
+      const filterConditions = context.filters
+        ? await buildMemberFilterWhere(context.filters, context.viewer.userId)
+        : [];
+
+      const eligible: Prisma.MemberWhereInput = {
+        userId: { notIn: [context.viewer.userId, ...excludedUserIds] },
+        created: { lte: context.now },
+        updated: { lte: context.now },
+        AND: filterConditions,
+      };
+      const afterKey: Prisma.MemberWhereInput = after
+        ? {
+          OR: [
+            { updated: { lt: new Date(after.updated) } },
+            { updated: new Date(after.updated), id: { lt: after.id } },
+          ],
+        }
+        : {};
+
+      const [members, total] = await Promise.all([
+        prisma.member.findMany({
+          where: { AND: [eligible, afterKey] },
+          select: {
+            id: true,
+            userId: true,
+            name: true,
+            image: true,
+            gender: true,
+            dateOfBirth: true,
+            city: true,
+            country: true,
+            description: true,
+            created: true,
+            updated: true,
+            user: {
+              select: {
+                profileObjectId: true,
+                walletAddress: true,
+              },
+            },
+            _count: {
+              select: { photos: { where: { isApproved: true } } },
+            },
+          },
+          orderBy: [{ updated: 'desc' }, { id: 'desc' }],
+          take: poolSize,
+        }),
+        prisma.member.count({ where: eligible }),
+      ]);
+
+      if (members.length === 0) return { candidates: [], next: null, total };
+
+      const last = members[members.length - 1];
+      const next = members.length === poolSize ? { updated: last.updated.toISOString(), id: last.id } : null;
+      const candidateIds = members.map(m => m.userId);
+
+      const [likesOfViewer, swipeCounts] = await Promise.all([
+        prisma.like.findMany({
+          where: {
+            targetUserId: context.viewer.userId,
+            sourceUserId: { in: candidateIds },
+          },
+          select: { sourceUserId: true },
+        }),
+        prisma.swipe.groupBy({
+          by: ['sourceUserId', 'direction'],
+          where: { sourceUserId: { in: candidateIds } },
+          _count: { _all: true },
+        }),
+      ]);
+
+      const likedViewer = new Set(likesOfViewer.map(l => l.sourceUserId));
+      const swipeTotals = new Map<string, { right: number; total: number }>();
+
+      for (const row of swipeCounts) {
+        const totals = swipeTotals.get(row.sourceUserId) ?? { right: 0, total: 0 };
+        totals.total += row._count._all;
+        if (row.direction === SwipeDirection.RIGHT) totals.right += row._count._all;
+        swipeTotals.set(row.sourceUserId, totals);
+      }
+
+      const candidates = members.map(({ _count, ...member }) => {
+        const totals = swipeTotals.get(member.userId);
+
+        return {
+          member,
+          signals: {
+            approvedPhotoCount: _count.photos,
+            likedViewer: likedViewer.has(member.userId),
+            likeRate: totals && totals.total > 0 ? totals.right / totals.total : null,
+          },
+        };
+      });
+
+      return { candidates, next, total };
+    },
+  };
+}
+
+export const prismaCandidateGenerator = createPrismaCandidateGenerator();
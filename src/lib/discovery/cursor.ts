@@ -0,0 +1,37 @@
+import type { CandidateKey, DeckCursor } from './types';
+
+function isCandidateKey(value: unknown): value is CandidateKey {
+  const key = value as CandidateKey | null;
+  return typeof key?.id === 'string' && typeof key?.updated === 'string' && !Number.isNaN(Date.parse(key.updated));
+}
+
+export function encodeDeckCursor(cursor: DeckCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor produced by `encodeDeckCursor`. Returns null for anything
+ * malformed so callers can start a fresh deck instead of failing.
+ */
+export function decodeDeckCursor(value: string | null | undefined): DeckCursor | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+    if (
+      typeof parsed?.seed !== 'string' ||
+      typeof parsed?.asOf !== 'string' ||
+      Number.isNaN(Date.parse(parsed.asOf)) ||
+      !Number.isInteger(parsed?.offset) ||
+      parsed.offset < 0 ||
+      (parsed.pool != null && !isCandidateKey(parsed.pool))
+    ) {
+      return null;
+    }
+
+    return { seed: parsed.seed, asOf: parsed.asOf, pool: parsed.pool ?? null, offset: parsed.offset };
+  } catch {
+    return null;
+  }
+}
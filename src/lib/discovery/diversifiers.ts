@@ -0,0 +1,41 @@
+import type { DiscoveryCandidate, Diversifier, RankedCandidate } from './types';
+
+/**
+ * Re-orders a ranked list so no more than `maxRun` consecutive candidates
+ * share the same attribute value. The highest-ranked eligible candidate is
+ * always picked next, so overall ordering is preserved as far as possible.
+ */
+export function createRunLengthDiversifier(
+  name: string,
+  key: (candidate: DiscoveryCandidate) => string,
+  maxRun: number
+): Diversifier {
+  return {
+    name,
+    diversify: ranked => {
+      const remaining = [...ranked];
+      const result: RankedCandidate[] = [];
+
+      while (remaining.length > 0) {
+        const recentKeys = result.slice(-maxRun).map(key);
+        const isRun = recentKeys.length === maxRun && recentKeys.every(k => k === recentKeys[0]);
+
+        let index = 0;
+        if (isRun) {
+          const next = remaining.findIndex(candidate => key(candidate) !== recentKeys[0]);
+          if (next !== -1) index = next;
+        }
+
+        result.push(...remaining.splice(index, 1));
+      }
+
+      return result;
+    },
+  };
+}
+
+export const locationDiversifier = createRunLengthDiversifier(
+  'location',
+  candidate => `${candidate.member.city}|${candidate.member.country}`.toLowerCase(),
+  2
+);
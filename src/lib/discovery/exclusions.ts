@@ -0,0 +1,108 @@
+import { SwipeDirection } from '@prisma/client';
+import { subDays } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { HIDDEN_SANCTIONS } from '@/lib/sanctions';
+import { getSanctionService } from '@/services/sanctionService';
+
+/**
+ * Returns the user IDs that share a block with the user, in either direction.
+ */
+export async function getBlockedUserIds(userId: string): Promise<string[]> {
+  const blocks = await prisma.match.findMany({
+    where: {
+      state: 'BLOCKED',
+      OR: [{ userAId: userId }, { userBId: userId }],
+    },
+    select: { userAId: true, userBId: true },
+  });
+
+  return blocks.map(b => (b.userAId === userId ? b.userBId : b.userAId));
+}
+
+/**
+ * Returns the user IDs of accounts scheduled for deletion. They stay hidden
+ * from everyone else during the grace period.
+ */
+export async function getPendingDeletionUserIds(): Promise<string[]> {
+  const pending = await prisma.accountDeletion.findMany({
+    where: { status: 'PENDING' },
+    select: { userId: true },
+  });
+
+  return pending.map(p => p.userId);
+}
+
+/**
+ * Returns the user IDs hidden by moderation: profiles hidden after enough
+ * reports, and members who are suspended, banned or shadow-restricted
+ */
+export async function getHiddenProfileUserIds(): Promise<string[]> {
+  const [cases, sanctioned] = await Promise.all([
+    prisma.moderationCase.findMany({
+      where: { contentType: 'PROFILE', contentHidden: true },
+      select: { targetUserId: true },
+    }),
+    getSanctionService().getSanctionedUserIds(HIDDEN_SANCTIONS),
+  ]);
+
+  return Array.from(new Set([...cases.map(c => c.targetUserId), ...sanctioned]));
+}
+
+/**
+ * Returns the user IDs that must not appear in a user's discovery deck:
+ * members they already swiped on, liked, share a block with, who are
+ * leaving, or whose profile is hidden by moderation.
+ *
+ * Passes (left swipes) are resurfaced once they are older than the
+ * user's `passResurfaceDays` policy, when one is set.
+ *
+ * When `asOf` is given, only swipes and likes made before that instant are
+ * considered, so a deck snapshot stays stable while the user pages through it.
+ */
+export async function getDiscoveryExclusions(userId: string, asOf?: Date): Promise<string[]> {
+  const member = await prisma.member.findUnique({
+    where: { userId },
+    select: { passResurfaceDays: true },
+  });
+
+  const now = asOf ?? new Date();
+  const resurfaceDays = member?.passResurfaceDays;
+
+  const [swipes, likes, blocks, leaving, hidden] = await Promise.all([
+    prisma.swipe.findMany({
+      where: {
+        sourceUserId: userId,
+        ...(asOf ? { swipedAt: { lt: asOf } } : {}),
+        ...(resurfaceDays
+          ? {
+              OR: [
+                { direction: SwipeDirection.RIGHT },
+                { swipedAt: { gte: subDays(now, resurfaceDays) } },
+              ],
+            }
+          : {}),
+      },
+      select: { targetUserId: true },
+    }),
+    prisma.like.findMany({
+      where: {
+        sourceUserId: userId,
+        ...(asOf ? { createdAt: { lt: asOf } } : {}),
+      },
+      select: { targetUserId: true },
+    }),
+    getBlockedUserIds(userId),
+    getPendingDeletionUserIds(),
+    getHiddenProfileUserIds(),
+  ]);
+
+  const excluded = new Set<string>([
+    ...swipes.map(s => s.targetUserId),
+    ...likes.map(l => l.targetUserId),
+    ...blocks,
+    ...leaving,
+    ...hidden,
+  ]);
+
+  return Array.from(excluded);
+}
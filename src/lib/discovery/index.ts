@@ -0,0 +1,122 @@
+import { prisma } from '@/lib/prisma';
+import { getSanctionService } from '@/services/sanctionService';
+import type { GetMemberParams } from '@/types';
+import type { MemberSearchFilters } from '@/lib/memberFilters';
+import { decodeDeckCursor, encodeDeckCursor } from './cursor';
+import { getDiscoveryExclusions } from './exclusions';
+import { createDefaultPipeline } from './pipeline';
+import { createSeed } from './random';
+import type { DiscoveryDeck, DiscoveryMember, DiscoveryPreferences } from './types';
+
+export * from './types';
+export * from './cursor';
+export * from './random';
+export * from './scorers';
+export * from './diversifiers';
+export { RankingPipeline, createDefaultPipeline } from './pipeline';
+export { getBlockedUserIds, getDiscoveryExclusions, getHiddenProfileUserIds, getPendingDeletionUserIds } from './exclusions';
+
+export const DEFAULT_DECK_PAGE_SIZE = 20;
+
+/**
+ * Builds preferences from the same `ageRange`/`gender` params the member
+ * filters put in the URL. Returns null when neither is present.
+ */
+export function parseDiscoveryPreferences(
+  params: Pick<GetMemberParams, 'ageRange' | 'gender'>
+): DiscoveryPreferences | null {
+  if (!params.ageRange && !params.gender) return null;
+
+  const [minAge, maxAge] = (params.ageRange || '18,100').split(',').map(Number);
+  const genders = (params.gender || 'male,female').split(',').filter(Boolean);
+
+  return {
+    minAge: Number.isFinite(minAge) ? minAge : 18,
+    maxAge: Number.isFinite(maxAge) ? maxAge : 100,
+    genders,
+  };
+}
+
+/**
+ * Returns one page of the viewer's ranked discovery deck.
+ *
+ * The first call creates a seed (or uses the one given, to replay a deck);
+ * later pages are requested with the returned `nextCursor`.
+ */
+export async function getDiscoveryDeck({
+  userId,
+  cursor,
+  seed,
+  pageSize = DEFAULT_DECK_PAGE_SIZE,
+  preferences = null,
+  filters = null,
+}: {
+  userId: string;
+  cursor?: string | null;
+  seed?: string | null;
+  pageSize?: number;
+  preferences?: DiscoveryPreferences | null;
+  filters?: MemberSearchFilters | null;
+}): Promise<DiscoveryDeck> {
+  const decoded = decodeDeckCursor(cursor);
+  const deckSeed = decoded?.seed || seed || createSeed();
+  const asOf = decoded ? new Date(decoded.asOf) : new Date();
+
+  // Checked here rather than from the session, which can predate the sanction
+  if (await getSanctionService().getAccessSanction(userId)) {
+    return { items: [], totalCount: 0, seed: deckSeed, nextCursor: null };
+  }
+
+  const viewer = await prisma.member.findUnique({
+    where: { userId },
+    select: { gender: true, city: true, country: true },
+  });
+
+  const excludedUserIds = await getDiscoveryExclusions(userId, asOf);
+
+  const context = {
+    viewer: {
+      userId,
+      gender: viewer?.gender ?? null,
+      city: viewer?.city ?? null,
+      country: viewer?.country ?? null,
+    },
+    preferences,
+    filters,
+    now: asOf,
+    seed: deckSeed,
+  };
+  const pipeline = createDefaultPipeline();
+
+  // Fill the page from the current pool window, moving on to the next window
+  // when this one runs out
+  let pool = decoded?.pool ?? null;
+  let offset = decoded?.offset ?? 0;
+  const items: DiscoveryMember[] = [];
+  let totalCount = 0;
+  let nextCursor: string | null = null;
+
+  for (;;) {
+    const { ranked, next, total } = await pipeline.rank(context, excludedUserIds, pool);
+    totalCount = total;
+
+    const page = ranked.slice(offset, offset + pageSize - items.length);
+    items.push(...page.map(candidate => candidate.member));
+    offset += page.length;
+
+    if (offset < ranked.length) {
+      nextCursor = encodeDeckCursor({ seed: deckSeed, asOf: asOf.toISOString(), pool, offset });
+      break;
+    }
+    if (!next) break;
+
+    pool = next;
+    offset = 0;
+    if (items.length === pageSize) {
+      nextCursor = encodeDeckCursor({ seed: deckSeed, asOf: asOf.toISOString(), pool, offset });
+      break;
+    }
+  }
+
+  return { items, totalCount, seed: deckSeed, nextCursor };
+}
@@ -0,0 +1,79 @@
+import { createSeededRandom, seededShuffle } from './random';
+import { defaultScorers } from './scorers';
+import { locationDiversifier } from './diversifiers';
+import { prismaCandidateGenerator } from './candidates';
+import type {
+  CandidateGenerator,
+  CandidateKey,
+  DiscoveryCandidate,
+  Diversifier,
+  RankedCandidate,
+  RankedPool,
+  RankingContext,
+  Scorer,
+} from './types';
+
+export interface RankingPipelineConfig {
+  generator: CandidateGenerator;
+  scorers: Scorer[];
+  diversifiers: Diversifier[];
+  // Maximum seeded jitter added to each score so the deck isn't fully static
+  exploration: number;
+}
+
+/**
+ * Ranks discovery candidates in three stages: candidate generation,
+ * weighted scoring, then diversification.
+ */
+export class RankingPipeline {
+  constructor(private config: RankingPipelineConfig) {}
+
+  /**
+   * Ranks the pool window that starts after `after` (the first one when null)
+   */
+  async rank(context: RankingContext, excludedUserIds: string[], after: CandidateKey | null = null): Promise<RankedPool> {
+    const { candidates, next, total } = await this.config.generator.generate(context, excludedUserIds, after);
+    return { ranked: this.rankCandidates(candidates, context), next, total };
+  }
+
+  rankCandidates(candidates: DiscoveryCandidate[], context: RankingContext): RankedCandidate[] {
+    const { scorers, diversifiers, exploration } = this.config;
+    const totalWeight = scorers.reduce((sum, scorer) => sum + scorer.weight, 0) || 1;
+
+    // Shuffle first so equal scores break ties by seed, not by query order
+    const shuffled = seededShuffle(candidates, context.seed);
+    const random = createSeededRandom(`${context.seed}:exploration`);
+
+    const scored = shuffled.map(candidate => {
+      const breakdown: Record<string, number> = {};
+      let weighted = 0;
+
+      for (const scorer of scorers) {
+        const value = Math.min(1, Math.max(0, scorer.score(candidate, context)));
+        breakdown[scorer.name] = value;
+        weighted += value * scorer.weight;
+      }
+
+      const jitter = random() * exploration;
+      breakdown.exploration = jitter;
+
+      return { ...candidate, score: weighted / totalWeight + jitter, breakdown };
+    });
+
+    scored.sort((a, b) => b.score - a.score);
+
+    return diversifiers.reduce(
+      (ranked, diversifier) => diversifier.diversify(ranked, context),
+      scored as RankedCandidate[]
+    );
+  }
+}
+
+export function createDefaultPipeline(): RankingPipeline {
+  return new RankingPipeline({
+    generator: prismaCandidateGenerator,
+    scorers: defaultScorers,
+    diversifiers: [locationDiversifier],
+    exploration: 0.05,
+  });
+}
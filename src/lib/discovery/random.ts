@@ -0,0 +1,51 @@
+/**
+ * Deterministic pseudo-random helpers so a ranked deck can be replayed
+ * from its seed when debugging.
+ */
+
+// FNV-1a hash of the seed string into a 32-bit integer
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 generator returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Unbiased Fisher-Yates shuffle driven by a seeded generator.
+ * Returns a new array; the input is left untouched.
+ */
+export function seededShuffle<T>(items: T[], seed: string): T[] {
+  const random = createSeededRandom(seed);
+  const result = [...items];
+
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+
+  return result;
+}
+
+export function createSeed(): string {
+  const bytes = new Uint8Array(8);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
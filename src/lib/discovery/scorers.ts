@@ -0,0 +1,100 @@
+import { differenceInDays, differenceInYears } from 'date-fns';
+import type { Scorer } from './types';
+
+const RECENCY_HALF_LIFE_DAYS = 7;
+const AGE_TOLERANCE_YEARS = 5;
+const DEFAULT_LIKE_RATE = 0.3;
+
+/**
+ * Favors members who were active recently, halving every week of inactivity
+ */
+export const recencyScorer: Scorer = {
+  name: 'recency',
+  weight: 0.25,
+  score: (candidate, context) => {
+    const days = Math.max(0, differenceInDays(context.now, candidate.member.updated));
+    return Math.pow(0.5, days / RECENCY_HALF_LIFE_DAYS);
+  },
+};
+
+/**
+ * Matches the viewer's age/gender preferences, with partial credit for
+ * ages just outside the requested range
+ */
+export const preferenceFitScorer: Scorer = {
+  name: 'preferenceFit',
+  weight: 0.25,
+  score: (candidate, context) => {
+    const { preferences } = context;
+    if (!preferences) return 0.5;
+
+    const genderFit = preferences.genders.includes(candidate.member.gender) ? 1 : 0;
+
+    const age = differenceInYears(context.now, candidate.member.dateOfBirth);
+    const yearsOutside = age < preferences.minAge
+      ? preferences.minAge - age
+      : Math.max(0, age - preferences.maxAge);
+    const ageFit = Math.max(0, 1 - yearsOutside / AGE_TOLERANCE_YEARS);
+
+    return (genderFit + ageFit) / 2;
+  },
+};
+
+/**
+ * Approximates distance from the free-text location fields
+ */
+export const distanceScorer: Scorer = {
+  name: 'distance',
+  weight: 0.15,
+  score: (candidate, context) => {
+    const normalize = (value: string | null) => value?.trim().toLowerCase() || null;
+
+    const viewerCountry = normalize(context.viewer.country);
+    if (!viewerCountry) return 0.5;
+
+    if (normalize(candidate.member.country) !== viewerCountry) return 0.2;
+
+    const viewerCity = normalize(context.viewer.city);
+    return viewerCity && normalize(candidate.member.city) === viewerCity ? 1 : 0.6;
+  },
+};
+
+/**
+ * Rewards profiles with a photo, a real description and an on-chain profile
+ */
+export const completenessScorer: Scorer = {
+  name: 'completeness',
+  weight: 0.15,
+  score: candidate => {
+    const { member, signals } = candidate;
+    const checks = [
+      !!member.image,
+      member.description.trim().length >= 50,
+      !!member.city && !!member.country,
+      !!member.user.profileObjectId,
+    ];
+    const photoScore = Math.min(1, signals.approvedPhotoCount / 3);
+
+    return (checks.filter(Boolean).length + photoScore) / (checks.length + 1);
+  },
+};
+
+/**
+ * Estimates how likely the candidate is to like the viewer back
+ */
+export const reciprocalLikeScorer: Scorer = {
+  name: 'reciprocalLike',
+  weight: 0.2,
+  score: candidate => {
+    if (candidate.signals.likedViewer) return 1;
+    return Math.min(1, candidate.signals.likeRate ?? DEFAULT_LIKE_RATE);
+  },
+};
+
+export const defaultScorers: Scorer[] = [
+  recencyScorer,
+  preferenceFitScorer,
+  distanceScorer,
+  completenessScorer,
+  reciprocalLikeScorer,
+];
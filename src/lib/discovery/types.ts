@@ -0,0 +1,118 @@
+import type { Member } from '@prisma/client';
+import type { MemberSearchFilters } from '@/lib/memberFilters';
+
+export type DiscoveryMember = Pick<
+  Member,
+  | 'id'
+  | 'userId'
+  | 'name'
+  | 'image'
+  | 'gender'
+  | 'dateOfBirth'
+  | 'city'
+  | 'country'
+  | 'description'
+  | 'created'
+  | 'updated'
+> & {
+  user: {
+    profileObjectId: string | null;
+    walletAddress: string | null;
+  };
+};
+
+/**
+ * A member considered for the deck, plus the signals scorers rely on.
+ */
+export interface DiscoveryCandidate {
+  member: DiscoveryMember;
+  signals: {
+    approvedPhotoCount: number;
+    likedViewer: boolean;
+    // Share of the candidate's swipes that were right swipes (0-1), null if unknown
+    likeRate: number | null;
+  };
+}
+
+export interface DiscoveryPreferences {
+  minAge: number;
+  maxAge: number;
+  genders: string[];
+}
+
+export interface RankingContext {
+  viewer: {
+    userId: string;
+    gender: string | null;
+    city: string | null;
+    country: string | null;
+  };
+  preferences: DiscoveryPreferences | null;
+  // Hard filters from the search bar; candidates must match all of them
+  filters?: MemberSearchFilters | null;
+  now: Date;
+  seed: string;
+}
+
+// Keyset position in the candidate pool: the last member read, by (updated, id)
+export interface CandidateKey {
+  updated: string;
+  id: string;
+}
+
+/**
+ * One window of the candidate pool. The deck ranks a window at a time and
+ * moves on to the next one, starting after `next`, once it is used up.
+ */
+export interface CandidatePool {
+  candidates: DiscoveryCandidate[];
+  // Null once every eligible member has been read
+  next: CandidateKey | null;
+  // Eligible members across all windows
+  total: number;
+}
+
+export interface CandidateGenerator {
+  name: string;
+  generate(context: RankingContext, excludedUserIds: string[], after: CandidateKey | null): Promise<CandidatePool>;
+}
+
+/**
+ * Scores a candidate between 0 (poor fit) and 1 (great fit).
+ */
+export interface Scorer {
+  name: string;
+  weight: number;
+  score(candidate: DiscoveryCandidate, context: RankingContext): number;
+}
+
+export interface Diversifier {
+  name: string;
+  diversify(ranked: RankedCandidate[], context: RankingContext): RankedCandidate[];
+}
+
+export interface RankedCandidate extends DiscoveryCandidate {
+  score: number;
+  breakdown: Record<string, number>;
+}
+
+export interface RankedPool extends Omit<CandidatePool, 'candidates'> {
+  ranked: RankedCandidate[];
+}
+
+export interface DeckCursor {
+  seed: string;
+  // Exclusions and the candidate pool are evaluated as of this instant so pages stay consistent
+  asOf: string;
+  // Start of the pool window being paged through; null for the first window
+  pool: CandidateKey | null;
+  // Position in the ranked window
+  offset: number;
+}
+
+export interface DiscoveryDeck {
+  items: DiscoveryMember[];
+  totalCount: number;
+  seed: string;
+  nextCursor: string | null;
+}
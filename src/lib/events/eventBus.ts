@@ -0,0 +1,74 @@
+import type { DomainEventHandler, DomainEvents, DomainEventType } from './types';
+
+interface Subscription<K extends DomainEventType> {
+    name: string;
+    handler: DomainEventHandler<K>;
+}
+
+type Subscriptions = { [K in DomainEventType]?: Subscription<K>[] };
+
+/**
+ * Thrown by a subscriber when an event can never be delivered, such as an
+ * avatar grant for a member without a wallet. The outbox records the reason
+ * and stops retrying instead of dead-lettering the message.
+ */
+export class SkipDeliveryError extends Error {}
+
+/**
+ * In-process publish/subscribe for domain events. Subscribers are named so
+ * the outbox can deliver an event to each of them separately and retry only
+ * the ones that failed.
+ */
+export class EventBus {
+    private subscriptions: Subscriptions = {};
+
+    /**
+     * Subscribes to an event type and returns a function that unsubscribes
+     */
+    on<K extends DomainEventType>(type: K, name: string, handler: DomainEventHandler<K>): () => void {
+        const subscription: Subscription<K> = { name, handler };
+        this.set(type, [...this.get(type), subscription]);
+        return () => {
+            this.set(type, this.get(type).filter(s => s !== subscription));
+        };
+    }
+
+    /**
+     * Names of the subscribers to an event type, in subscription order
+     */
+    subscribers(type: DomainEventType): string[] {
+        return Array.from(new Set(this.get(type).map(s => s.name)));
+    }
+
+    /**
+     * Runs every subscriber now, one after another. One failing is logged
+     * and doesn't stop the rest or the mutation that published the event.
+     */
+    async publish<K extends DomainEventType>(type: K, payload: DomainEvents[K]): Promise<void> {
+        for (const { name, handler } of this.get(type)) {
+            try {
+                await handler(payload);
+            } catch (error) {
+                console.error('[Events] Subscriber failed:', { type, subscriber: name, error });
+            }
+        }
+    }
+
+    /**
+     * Runs one named subscriber and lets its error through, for the outbox
+     */
+    async deliver<K extends DomainEventType>(type: K, name: string, payload: DomainEvents[K]): Promise<void> {
+        for (const subscription of this.get(type)) {
+            if (subscription.name === name) await subscription.handler(payload);
+        }
+    }
+
+    private get<K extends DomainEventType>(type: K): Subscription<K>[] {
+        return this.subscriptions[type] ?? [];
+    }
+
+    private set<K extends DomainEventType>(type: K, subscriptions: Subscription<K>[]): void {
+        const byType: { [P in K]?: Subscription<P>[] } = this.subscriptions;
+        byType[type] = subscriptions;
+    }
+}
@@ -0,0 +1,31 @@
+import { pusherServer } from '@/lib/pusher';
+import { getAvatarCacheService } from '@/services/avatarCacheService';
+import { AvatarService } from '@/services/avatarService';
+import { EventBus } from './eventBus';
+import { subscribeAvatarAccess, subscribeAvatarCache, subscribeCacheRevalidation, subscribeRealtime } from './subscribers';
+import type { DomainEvents, DomainEventType } from './types';
+
+export type { DomainEventHandler, DomainEvents, DomainEventType, MemberCard } from './types';
+export { EventBus, SkipDeliveryError } from './eventBus';
+
+let eventBus: EventBus | null = null;
+
+/**
+ * The app's event bus, with the cache, avatar and realtime subscribers.
+ * Events about likes, matches and messages go through the outbox (see
+ * services/outboxService.ts); the rest are published directly.
+ */
+export function getEventBus(): EventBus {
+    if (!eventBus) {
+        eventBus = new EventBus();
+        subscribeCacheRevalidation(eventBus);
+        subscribeAvatarCache(eventBus, getAvatarCacheService);
+        subscribeAvatarAccess(eventBus, () => new AvatarService());
+        subscribeRealtime(eventBus, pusherServer);
+    }
+    return eventBus;
+}
+
+export function publishEvent<K extends DomainEventType>(type: K, payload: DomainEvents[K]): Promise<void> {
+    return getEventBus().publish(type, payload);
+}
@@ -0,0 +1,116 @@
+import type Pusher from 'pusher';
+import { CACHE_TAGS, revalidateCacheTags } from '@/lib/cache';
+import { createChatId } from '@/lib/util';
+import type { AvatarCacheService } from '@/services/avatarCacheService';
+import type { AvatarService } from '@/services/avatarService';
+import type { EventBus } from './eventBus';
+import type { DomainEventType } from './types';
+
+/**
+ * Next.js cache tags each event makes stale
+ */
+export const EVENT_CACHE_TAGS: { [K in DomainEventType]: string[] } = {
+    'like.created': [CACHE_TAGS.LIKES],
+    'like.removed': [CACHE_TAGS.LIKES, CACHE_TAGS.MATCH],
+    'match.created': [CACHE_TAGS.MATCH, CACHE_TAGS.LIKES],
+    'match.removed': [CACHE_TAGS.MATCH, CACHE_TAGS.LIKES],
+    'match.blocked': [CACHE_TAGS.MATCH, CACHE_TAGS.LIKES, CACHE_TAGS.MEMBERS],
+    'match.unblocked': [CACHE_TAGS.MATCH, CACHE_TAGS.LIKES, CACHE_TAGS.MEMBERS],
+    'match.expired': [CACHE_TAGS.MATCH, CACHE_TAGS.LIKES],
+    'message.created': [CACHE_TAGS.MESSAGES],
+    'messages.read': [CACHE_TAGS.MESSAGES],
+    'message.deleted': [CACHE_TAGS.MESSAGES],
+    'member.updated': [CACHE_TAGS.MEMBERS, CACHE_TAGS.USER],
+    'photo.added': [CACHE_TAGS.MEMBER_PHOTOS],
+    // Approval can make a photo the member's main image
+    'photo.approved': [CACHE_TAGS.MEMBER_PHOTOS, CACHE_TAGS.MEMBERS],
+    'photo.rejected': [CACHE_TAGS.MEMBER_PHOTOS],
+    'photo.deleted': [CACHE_TAGS.MEMBER_PHOTOS, CACHE_TAGS.MEMBERS],
+    'avatar.updated': [CACHE_TAGS.MEMBERS]
+};
+
+export function subscribeCacheRevalidation(bus: EventBus): void {
+    for (const [type, tags] of Object.entries(EVENT_CACHE_TAGS) as [DomainEventType, string[]][]) {
+        bus.on(type, 'cache', () => revalidateCacheTags(tags));
+    }
+}
+
+/**
+ * Drops cached avatars whenever who may see whose private avatar changes
+ */
+export function subscribeAvatarCache(bus: EventBus, avatarCache: () => AvatarCacheService): void {
+    const invalidatePair = async ({ userId, targetUserId }: { userId: string; targetUserId: string }) => {
+        await Promise.all([
+            avatarCache().invalidateAvatarAccess(userId, targetUserId),
+            avatarCache().invalidateAvatarAccess(targetUserId, userId)
+        ]);
+    };
+
+    bus.on('match.created', 'avatarCache', invalidatePair);
+    bus.on('match.removed', 'avatarCache', invalidatePair);
+    bus.on('match.blocked', 'avatarCache', invalidatePair);
+    bus.on('match.unblocked', 'avatarCache', invalidatePair);
+    bus.on('match.expired', 'avatarCache', invalidatePair);
+    bus.on('like.removed', 'avatarCache', ({ sourceUserId, targetUserId }) => invalidatePair({ userId: sourceUserId, targetUserId }));
+    bus.on('avatar.updated', 'avatarCache', ({ userId }) => avatarCache().invalidateUserAvatar(userId));
+}
+
+/**
+ * Grants matched members access to each other's private avatar through
+ * their Seal policies, and revokes it when the match ends. Failures throw so
+ * the outbox retries them.
+ */
+export function subscribeAvatarAccess(
+    bus: EventBus,
+    avatars: () => Pick<AvatarService, 'updateAvatarPermissions'>
+): void {
+    const update = (action: 'grant' | 'revoke') => async ({ userId, targetUserId }: { userId: string; targetUserId: string }) => {
+        await avatars().updateAvatarPermissions(userId, targetUserId, action);
+        await avatars().updateAvatarPermissions(targetUserId, userId, action);
+    };
+
+    bus.on('match.created', 'avatarAccess', update('grant'));
+    bus.on('match.removed', 'avatarAccess', update('revoke'));
+    bus.on('match.blocked', 'avatarAccess', update('revoke'));
+    bus.on('match.expired', 'avatarAccess', update('revoke'));
+    bus.on('match.unblocked', 'avatarAccess', async payload => {
+        if (payload.restored) await update('grant')(payload);
+    });
+}
+
+/**
+ * Pushes realtime notifications to the members' private channels and chats
+ */
+export function subscribeRealtime(bus: EventBus, pusher: Pick<Pusher, 'trigger'>): void {
+    bus.on('like.created', 'realtime', async ({ targetUserId, source }) => {
+        await pusher.trigger(`private-${targetUserId}`, 'like:new', source);
+    });
+
+    bus.on('match.created', 'realtime', async ({ userId, targetUserId, member }) => {
+        await pusher.trigger(`private-${targetUserId}`, 'match:new', { ...member, message: 'You have a new match!' });
+        await pusher.trigger(`private-${userId}`, 'match:new', { userId: targetUserId, message: 'You have a new match!' });
+
+        // Tells both clients to refetch avatars so they show the private (original) images
+        await Promise.allSettled([
+            pusher.trigger(`private-${targetUserId}`, 'avatar:refresh', { userId, reason: 'match' }),
+            pusher.trigger(`private-${userId}`, 'avatar:refresh', { userId: targetUserId, reason: 'match' })
+        ]);
+    });
+
+    bus.on('match.removed', 'realtime', async ({ userId, targetUserId }) => {
+        await pusher.trigger(`private-${targetUserId}`, 'match:removed', { userId, message: 'A match has been removed' });
+    });
+
+    bus.on('match.blocked', 'realtime', async ({ userId, targetUserId }) => {
+        await pusher.trigger(`private-${targetUserId}`, 'match:blocked', { userId, message: 'A user has blocked you' });
+    });
+
+    bus.on('message.created', 'realtime', async ({ senderId, recipientId, message }) => {
+        await pusher.trigger(createChatId(senderId, recipientId), 'message:new', message);
+        await pusher.trigger(`private-${recipientId}`, 'message:new', message);
+    });
+
+    bus.on('messages.read', 'realtime', async ({ readerId, senderId, messageIds }) => {
+        await pusher.trigger(createChatId(senderId, readerId), 'messages:read', messageIds);
+    });
+}
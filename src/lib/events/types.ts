@@ -0,0 +1,39 @@
+import type { MessageDto } from '@/types';
+
+/**
+ * The public card of a member, as sent in notifications
+ */
+export interface MemberCard {
+    userId: string;
+    name: string;
+    image: string | null;
+}
+
+/**
+ * Everything that happens to members, likes, messages and photos that other
+ * parts of the app react to, keyed by event type
+ */
+export interface DomainEvents {
+    'like.created': { sourceUserId: string; targetUserId: string; source: MemberCard };
+    'like.removed': { sourceUserId: string; targetUserId: string };
+    // `userId` is the member whose like completed the match
+    'match.created': { userId: string; targetUserId: string; member: MemberCard };
+    'match.removed': { userId: string; targetUserId: string };
+    'match.blocked': { userId: string; targetUserId: string };
+    'match.unblocked': { userId: string; targetUserId: string; restored: boolean };
+    // A match nobody wrote in for MATCH_EXPIRY_DAYS
+    'match.expired': { userId: string; targetUserId: string };
+    'message.created': { senderId: string; recipientId: string; message: MessageDto };
+    'messages.read': { readerId: string; senderId: string; messageIds: string[] };
+    'message.deleted': { userId: string; messageId: string };
+    'member.updated': { userId: string };
+    'photo.added': { userId: string; photoId: string; approved: boolean };
+    'photo.approved': { userId: string; photoId: string };
+    'photo.rejected': { userId: string; photoId: string };
+    'photo.deleted': { userId: string; photoId: string };
+    'avatar.updated': { userId: string };
+}
+
+export type DomainEventType = keyof DomainEvents;
+
+export type DomainEventHandler<K extends DomainEventType> = (payload: DomainEvents[K]) => Promise<void> | void;
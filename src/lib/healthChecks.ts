@@ -0,0 +1,283 @@
+import { prisma } from './prisma';
+import { getRedis } from './cacheStore';
+import { getAvatarAnalyticsService } from '@/services/avatarAnalyticsService';
+import { getProductionConfigService } from '@/services/productionConfigService';
+
+export type HealthCheckName = 'database' | 'walrus' | 'seal' | 'cache' | 'analytics';
+
+export interface HealthCheckResult {
+    status: 'ok' | 'warning' | 'error';
+    details: any;
+}
+
+export const HEALTH_CHECK_NAMES: HealthCheckName[] = ['database', 'walrus', 'seal', 'cache', 'analytics'];
+
+const configService = getProductionConfigService();
+const analyticsService = getAvatarAnalyticsService();
+
+/**
+ * Runs every dependency check in parallel. Used by /api/health and by the
+ * feature flag guards, which trip on repeated failures.
+ */
+export async function runHealthChecks(): Promise<Record<HealthCheckName, HealthCheckResult>> {
+    const [
+        dbHealth,
+        walrusHealth,
+        sealHealth,
+        cacheHealth,
+        analyticsHealth
+    ] = await Promise.allSettled([
+        checkDatabaseHealth(),
+        checkWalrusHealth(),
+        checkSealHealth(),
+        checkCacheHealth(),
+        checkAnalyticsHealth()
+    ]);
+
+    return {
+        database: getHealthResult(dbHealth),
+        walrus: getHealthResult(walrusHealth),
+        seal: getHealthResult(sealHealth),
+        cache: getHealthResult(cacheHealth),
+        analytics: getHealthResult(analyticsHealth)
+    };
+}
+
+async function checkDatabaseHealth(): Promise<HealthCheckResult> {
+    try {
+        const startTime = Date.now();
+
+        // Test database connection with a simple query
+        await prisma.$queryRaw`SELECT 1`;
+
+        const responseTime = Date.now() - startTime;
+
+        // Check if response time is acceptable
+        if (responseTime > 5000) {
+            return {
+                status: 'warning',
+                details: {
+                    message: 'Database response time is slow',
+                    responseTime,
+                    threshold: 5000
+                }
+            };
+        }
+
+        return {
+            status: 'ok',
+            details: {
+                responseTime,
+                connection: 'active'
+            }
+        };
+    } catch (error) {
+        return {
+            status: 'error',
+            details: {
+                message: error instanceof Error ? error.message : 'Database connection failed',
+                error: error instanceof Error ? error.name : 'Unknown'
+            }
+        };
+    }
+}
+
+async function checkWalrusHealth(): Promise<HealthCheckResult> {
+    try {
+        const connectivity = await configService.validateWalrusConnectivity();
+
+        const healthyPublishers = connectivity.publishers.filter(p => p.status === 'ok').length;
+        const healthyAggregators = connectivity.aggregators.filter(a => a.status === 'ok').length;
+
+        const totalPublishers = connectivity.publishers.length;
+        const totalAggregators = connectivity.aggregators.length;
+
+        // Check if at least 50% of endpoints are healthy
+        const publisherHealthRatio = healthyPublishers / totalPublishers;
+        const aggregatorHealthRatio = healthyAggregators / totalAggregators;
+
+        if (publisherHealthRatio === 0 || aggregatorHealthRatio === 0) {
+            return {
+                status: 'error',
+                details: {
+                    message: 'No healthy Walrus endpoints available',
+                    publishers: `${healthyPublishers}/${totalPublishers}`,
+                    aggregators: `${healthyAggregators}/${totalAggregators}`,
+                    connectivity
+                }
+            };
+        }
+
+        if (publisherHealthRatio < 0.5 || aggregatorHealthRatio < 0.5) {
+            return {
+                status: 'warning',
+                details: {
+                    message: 'Some Walrus endpoints are unhealthy',
+                    publishers: `${healthyPublishers}/${totalPublishers}`,
+                    aggregators: `${healthyAggregators}/${totalAggregators}`,
+                    connectivity
+                }
+            };
+        }
+
+        return {
+            status: 'ok',
+            details: {
+                publishers: `${healthyPublishers}/${totalPublishers}`,
+                aggregators: `${healthyAggregators}/${totalAggregators}`,
+                network: configService.getWalrusConfig().network
+            }
+        };
+    } catch (error) {
+        return {
+            status: 'error',
+            details: {
+                message: error instanceof Error ? error.message : 'Walrus health check failed',
+                error: error instanceof Error ? error.name : 'Unknown'
+            }
+        };
+    }
+}
+
+async function checkSealHealth(): Promise<HealthCheckResult> {
+    try {
+        const sealValidation = await configService.validateSealConnectivity();
+
+        if (!sealValidation.packageExists) {
+            return {
+                status: 'error',
+                details: {
+                    message: 'Seal package not found',
+                    validation: sealValidation
+                }
+            };
+        }
+
+        if (!sealValidation.serverObjectsValid) {
+            return {
+                status: 'warning',
+                details: {
+                    message: 'Seal server objects validation failed',
+                    validation: sealValidation
+                }
+            };
+        }
+
+        return {
+            status: 'ok',
+            details: {
+                network: sealValidation.network,
+                packageExists: sealValidation.packageExists,
+                serverObjectsValid: sealValidation.serverObjectsValid,
+                gasObjectValid: sealValidation.gasObjectValid
+            }
+        };
+    } catch (error) {
+        return {
+            status: 'error',
+            details: {
+                message: error instanceof Error ? error.message : 'Seal health check failed',
+                error: error instanceof Error ? error.name : 'Unknown'
+            }
+        };
+    }
+}
+
+async function checkCacheHealth(): Promise<HealthCheckResult> {
+    try {
+        const redis = getRedis();
+
+        if (!redis) {
+            return {
+                status: 'ok',
+                details: {
+                    driver: 'memory',
+                    message: 'REDIS_URL not set, caching per instance'
+                }
+            };
+        }
+
+        const startTime = Date.now();
+        await redis.ping();
+
+        return {
+            status: 'ok',
+            details: {
+                driver: 'redis',
+                responseTime: Date.now() - startTime
+            }
+        };
+    } catch (error) {
+        return {
+            status: 'error',
+            details: {
+                message: error instanceof Error ? error.message : 'Cache health check failed',
+                error: error instanceof Error ? error.name : 'Unknown'
+            }
+        };
+    }
+}
+
+async function checkAnalyticsHealth(): Promise<HealthCheckResult> {
+    try {
+        // Test analytics service by checking if it's enabled
+        const analyticsEnabled = process.env.AVATAR_ANALYTICS_ENABLED === 'true';
+
+        if (!analyticsEnabled) {
+            return {
+                status: 'warning',
+                details: {
+                    message: 'Analytics service is disabled',
+                    enabled: false
+                }
+            };
+        }
+
+        // Try to perform a simple analytics operation
+        const endDate = new Date();
+        const startDate = new Date(endDate.getTime() - 24 * 60 * 60 * 1000); // 24 hours ago
+
+        try {
+            await analyticsService.getUploadSuccessRate(startDate, endDate);
+
+            return {
+                status: 'ok',
+                details: {
+                    enabled: true,
+                    message: 'Analytics service is operational'
+                }
+            };
+        } catch (analyticsError) {
+            return {
+                status: 'warning',
+                details: {
+                    message: 'Analytics service has issues',
+                    enabled: true,
+                    error: analyticsError instanceof Error ? analyticsError.message : 'Unknown error'
+                }
+            };
+        }
+    } catch (error) {
+        return {
+            status: 'warning',
+            details: {
+                message: error instanceof Error ? error.message : 'Analytics health check failed',
+                error: error instanceof Error ? error.name : 'Unknown'
+            }
+        };
+    }
+}
+
+function getHealthResult(settledResult: PromiseSettledResult<HealthCheckResult>): HealthCheckResult {
+    if (settledResult.status === 'fulfilled') {
+        return settledResult.value;
+    } else {
+        return {
+            status: 'error',
+            details: {
+                message: 'Health check promise rejected',
+                error: settledResult.reason
+            }
+        };
+    }
+}
@@ -0,0 +1,185 @@
+/**
+ * @jest-environment node
+ */
+import sharp from 'sharp';
+import { mockDb } from '@/test/prismaMock';
+import { DuplicateClassifier } from '../duplicateClassifier';
+import { FaceClassifier } from '../faceClassifier';
+import { ImageModerationPipeline } from '../pipeline';
+import { differenceHash, hammingDistance, hashBands } from '../perceptualHash';
+import { QualityClassifier } from '../qualityClassifier';
+import type { ClassifierResult, ImageClassifier, ModerationImage } from '../types';
+
+let mockFaces = 1;
+const mockLoadFromDisk = jest.fn(async () => {});
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('face-api.js', () => ({
+    nets: { ssdMobilenetv1: { loadFromDisk: mockLoadFromDisk } },
+    tf: { tensor3d: () => ({ dispose: () => {} }) },
+    SsdMobilenetv1Options: class {},
+    detectAllFaces: async () => Array.from({ length: mockFaces }, () => ({})),
+}));
+
+// A 400x400 checkerboard: lots of hard edges
+async function checkerboard(size = 400, cell = 20) {
+    const pixels = Buffer.alloc(size * size);
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            pixels[y * size + x] = (Math.floor(x / cell) + Math.floor(y / cell)) % 2 ? 255 : 0;
+        }
+    }
+    return sharp(pixels, { raw: { width: size, height: size, channels: 1 } }).png().toBuffer();
+}
+
+// Smooth shading, closer to a photo than the checkerboard
+async function shaded(size = 400) {
+    const pixels = Buffer.alloc(size * size);
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            pixels[y * size + x] = 128 + 60 * Math.sin(x / 37) + 60 * Math.cos(y / 53 + x / 90);
+        }
+    }
+    return sharp(pixels, { raw: { width: size, height: size, channels: 1 } }).png().toBuffer();
+}
+
+function fakeClassifier(name: string, result: ClassifierResult, required = false): ImageClassifier {
+    return { name, required, classify: async () => result };
+}
+
+const image = (data: Buffer): ModerationImage => ({ data, userId: 'user-a', kind: 'PHOTO' });
+
+describe('perceptual hash', () => {
+    it('should give a resized copy (nearly) the same hash', async () => {
+        const original = await shaded();
+        const resized = await sharp(original).resize(300, 300).jpeg({ quality: 70 }).toBuffer();
+
+        const distance = hammingDistance(await differenceHash(original), await differenceHash(resized));
+
+        expect(distance).toBeLessThanOrEqual(6);
+        expect(hammingDistance(await differenceHash(original), await differenceHash(await checkerboard()))).toBeGreaterThan(6);
+    });
+
+    it('should split a hash into indexed bands', () => {
+        expect(hashBands('00ff00ff00ff00ff')).toEqual(['0:00', '1:ff', '2:00', '3:ff', '4:00', '5:ff', '6:00', '7:ff']);
+        expect(hammingDistance('00ff00ff00ff00ff', '01ff00ff00ff00fe')).toBe(2);
+    });
+});
+
+describe('QualityClassifier', () => {
+    const classifier = new QualityClassifier();
+
+    it('should pass a sharp image', async () => {
+        const { flags } = await classifier.classify(image(await checkerboard()));
+        expect(flags).toEqual([]);
+    });
+
+    it('should flag a blurred image', async () => {
+        const blurred = await sharp(await checkerboard()).blur(12).png().toBuffer();
+        const { flags } = await classifier.classify(image(blurred));
+        expect(flags).toEqual([expect.objectContaining({ type: 'low_quality', description: 'Image looks blurry' })]);
+    });
+});
+
+describe('DuplicateClassifier', () => {
+    beforeEach(() => {
+        mockDb.reset();
+    });
+
+    it('should flag a picture another account already uploaded, but not the uploader\'s own', async () => {
+        const classifier = new DuplicateClassifier();
+        const original = await shaded();
+        await classifier.record('user-b', 'PHOTO', 'photo-b', original);
+        await classifier.record('user-a', 'PHOTO', 'photo-a', await checkerboard());
+
+        const copy = await sharp(original).resize(300, 300).jpeg({ quality: 70 }).toBuffer();
+        expect((await classifier.classify(image(copy))).flags).toEqual([
+            expect.objectContaining({ type: 'fake_person', description: 'The same picture is used by another account' }),
+        ]);
+        expect((await classifier.classify(image(await checkerboard()))).flags).toEqual([]);
+    });
+
+    it('should compare at most the configured number of candidates', async () => {
+        const original = await shaded();
+        const hash = await differenceHash(original);
+        mockDb.table('imageFingerprint').push(
+            { userId: 'user-c', kind: 'PHOTO', contentId: 'near-miss', hash: 'ffffffffffffffff', bands: hashBands(hash) },
+            { userId: 'user-b', kind: 'PHOTO', contentId: 'photo-b', hash, bands: hashBands(hash) },
+        );
+
+        const { flags, scores } = await new DuplicateClassifier({ candidateLimit: 1 }).classify(image(original));
+
+        expect(flags).toEqual([]);
+        expect(scores!.closestDistance).toBeGreaterThan(6);
+    });
+});
+
+describe('FaceClassifier', () => {
+    const classifier = new FaceClassifier({ modelDir: '/models' });
+    const avatar = async () => ({ ...image(await shaded()), kind: 'AVATAR' as const });
+
+    it('should load the weights once and pass an avatar with one face', async () => {
+        mockFaces = 1;
+        expect(await classifier.classify(await avatar())).toEqual({ flags: [], scores: { faces: 1 } });
+        await classifier.classify(await avatar());
+
+        expect(mockLoadFromDisk).toHaveBeenCalledTimes(1);
+        expect(mockLoadFromDisk).toHaveBeenCalledWith('/models');
+    });
+
+    it('should flag avatars without exactly one face', async () => {
+        mockFaces = 0;
+        expect((await classifier.classify(await avatar())).flags).toEqual([
+            expect.objectContaining({ type: 'face_count', description: 'No face found in avatar' }),
+        ]);
+
+        mockFaces = 3;
+        expect((await classifier.classify(await avatar())).flags).toEqual([
+            expect.objectContaining({ type: 'face_count', description: '3 faces found in avatar' }),
+        ]);
+    });
+
+    it('should only note a gallery photo without a face', async () => {
+        mockFaces = 0;
+        const { flags } = await classifier.classify(image(await shaded()));
+        expect(flags).toEqual([{ type: 'face_count', confidence: 0.3, description: 'No face found' }]);
+    });
+});
+
+describe('ImageModerationPipeline', () => {
+    const data = Buffer.from('image');
+
+    it('should approve when no classifier is confident about a problem', async () => {
+        const pipeline = new ImageModerationPipeline([
+            fakeClassifier('nsfw', { flags: [], scores: { neutral: 0.97 } }, true),
+            fakeClassifier('faces', { flags: [{ type: 'face_count', confidence: 0.3, description: 'No face found' }] }),
+        ]);
+
+        const result = await pipeline.run(image(data));
+
+        expect(result.verdict).toBe('approve');
+        expect(result.scores).toEqual({ 'nsfw.neutral': 0.97 });
+    });
+
+    it('should reject confident high-risk flags and review borderline ones', async () => {
+        const nudity = (confidence: number) => new ImageModerationPipeline([
+            fakeClassifier('nsfw', { flags: [{ type: 'nudity', confidence, description: 'Nudity' }] }, true),
+        ]);
+
+        expect((await nudity(0.95).run(image(data))).verdict).toBe('reject');
+        expect((await nudity(0.7).run(image(data))).verdict).toBe('review');
+    });
+
+    it('should send images to review when a required classifier cannot run', async () => {
+        const pipeline = new ImageModerationPipeline([
+            fakeClassifier('nsfw', { flags: [], unavailable: true }, true),
+            { name: 'faces', required: false, classify: async () => { throw new Error('model missing'); } },
+        ]);
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        const result = await pipeline.run(image(data));
+
+        expect(result.verdict).toBe('review');
+        expect(result.skipped).toEqual(['nsfw', 'faces']);
+    });
+});
@@ -0,0 +1,72 @@
+import type { ImageKind, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { differenceHash, hammingDistance, hashBands } from './perceptualHash';
+import type { ClassifierResult, ImageClassifier, ModerationImage } from './types';
+
+export interface DuplicateClassifierConfig {
+  // Hashes this many bits apart or closer count as the same picture (at most 7)
+  maxDistance: number;
+  // Fingerprints sharing a band that are compared per upload
+  candidateLimit: number;
+}
+
+/**
+ * Flags pictures that another account has already uploaded, a common sign
+ * of a fake profile. Re-uploads by the same member are fine.
+ */
+export class DuplicateClassifier implements ImageClassifier {
+  name = 'duplicates';
+  required = false;
+  private config: DuplicateClassifierConfig;
+
+  constructor(config?: Partial<DuplicateClassifierConfig>) {
+    this.config = {
+      maxDistance: 6,
+      candidateLimit: parseInt(process.env.DUPLICATE_CANDIDATE_LIMIT || '200'),
+      ...config,
+    };
+  }
+
+  async classify(image: ModerationImage): Promise<ClassifierResult> {
+    const hash = await differenceHash(image.data);
+    const candidates = await prisma.imageFingerprint.findMany({
+      where: { bands: { hasSome: hashBands(hash) }, userId: { not: image.userId } },
+      select: { hash: true, userId: true },
+      take: this.config.candidateLimit,
+    });
+
+    const closest = Math.min(65, ...candidates.map(candidate => hammingDistance(hash, candidate.hash)));
+    const flags: ClassifierResult['flags'] = closest <= this.config.maxDistance
+      ? [{
+        type: 'fake_person',
+        confidence: closest === 0 ? 0.75 : 0.65,
+        description: 'The same picture is used by another account',
+      }]
+      : [];
+
+    return { flags, scores: { closestDistance: closest } };
+  }
+
+  /**
+   * Stores the hash of an accepted image so later uploads are checked against
+   * it. Pass the transaction that saves the image so neither is kept alone.
+   */
+  async record(
+    userId: string,
+    kind: ImageKind,
+    contentId: string,
+    data: Buffer,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    const hash = await differenceHash(data);
+    await db.imageFingerprint.upsert({
+      where: { kind_contentId: { kind, contentId } },
+      create: { userId, kind, contentId, hash, bands: hashBands(hash) },
+      update: { hash, bands: hashBands(hash) },
+    });
+  }
+
+  async forget(kind: ImageKind, contentId: string, db: Prisma.TransactionClient = prisma): Promise<void> {
+    await db.imageFingerprint.deleteMany({ where: { kind, contentId } });
+  }
+}
@@ -0,0 +1,83 @@
+import path from 'path';
+import sharp from 'sharp';
+import type { ClassifierResult, ImageClassifier, ModerationImage } from './types';
+
+export interface FaceClassifierConfig {
+  // Directory with the face-api.js SSD MobileNet weights
+  modelDir: string;
+  minConfidence: number;
+  // Longest side the image is scaled to before detection
+  maxDimension: number;
+}
+
+/**
+ * Counts faces with the same SSD MobileNet weights the upload form uses in
+ * the browser. Avatars need exactly one face; gallery photos only get an
+ * informational flag when no face is found.
+ */
+export class FaceClassifier implements ImageClassifier {
+  name = 'faces';
+  required = false;
+  private config: FaceClassifierConfig;
+  private loaded: Promise<typeof import('face-api.js')> | null = null;
+
+  constructor(config?: Partial<FaceClassifierConfig>) {
+    this.config = {
+      modelDir: process.env.FACE_MODEL_DIR || path.join(process.cwd(), 'public', 'models'),
+      minConfidence: 0.5,
+      maxDimension: 512,
+      ...config,
+    };
+  }
+
+  async classify(image: ModerationImage): Promise<ClassifierResult> {
+    const faceapi = await this.load();
+    const { data, info } = await sharp(image.data)
+      .rotate()
+      .removeAlpha()
+      .resize(this.config.maxDimension, this.config.maxDimension, { fit: 'inside', withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const tensor = faceapi.tf.tensor3d(Int32Array.from(data), [info.height, info.width, 3], 'int32');
+    try {
+      const detections = await faceapi.detectAllFaces(
+        tensor,
+        new faceapi.SsdMobilenetv1Options({ minConfidence: this.config.minConfidence })
+      );
+      return { flags: this.flagsFor(image, detections.length), scores: { faces: detections.length } };
+    } finally {
+      tensor.dispose();
+    }
+  }
+
+  private flagsFor(image: ModerationImage, faces: number): ClassifierResult['flags'] {
+    if (image.kind === 'PHOTO') {
+      return faces === 0
+        ? [{ type: 'face_count', confidence: 0.3, description: 'No face found' }]
+        : [];
+    }
+    if (faces === 0) {
+      return [{ type: 'face_count', confidence: 0.7, description: 'No face found in avatar' }];
+    }
+    if (faces > 1) {
+      return [{ type: 'face_count', confidence: 0.65, description: `${faces} faces found in avatar` }];
+    }
+    return [];
+  }
+
+  private load() {
+    if (!this.loaded) {
+      this.loaded = import('face-api.js')
+        .then(async faceapi => {
+          await faceapi.nets.ssdMobilenetv1.loadFromDisk(this.config.modelDir);
+          return faceapi;
+        })
+        .catch(error => {
+          this.loaded = null;
+          throw error;
+        });
+    }
+    return this.loaded;
+  }
+}
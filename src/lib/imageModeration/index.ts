@@ -0,0 +1,7 @@
+export * from './types';
+export * from './perceptualHash';
+export { NsfwClassifier, DEFAULT_NSFW_LABELS } from './nsfwClassifier';
+export { FaceClassifier } from './faceClassifier';
+export { QualityClassifier } from './qualityClassifier';
+export { DuplicateClassifier } from './duplicateClassifier';
+export { ImageModerationPipeline, duplicateClassifier, getImageModerationPipeline } from './pipeline';
@@ -0,0 +1,81 @@
+import { existsSync } from 'fs';
+import sharp from 'sharp';
+import type { InferenceSession } from 'onnxruntime-node';
+import type { ClassifierResult, ImageClassifier, ModerationImage } from './types';
+
+export interface NsfwClassifierConfig {
+  // Path to an ONNX export of an image NSFW model; unset disables the adapter
+  modelPath?: string;
+  // Output labels in model order
+  labels: string[];
+  inputSize: number;
+}
+
+// Label order of the widely used open NSFW MobileNet model (GantMan/nsfw_model)
+export const DEFAULT_NSFW_LABELS = ['drawings', 'hentai', 'neutral', 'porn', 'sexy'];
+
+/**
+ * Runs a local NSFW model on CPU through onnxruntime. The model takes a
+ * square RGB image scaled to 0-1 in NHWC order and returns one probability
+ * per label.
+ */
+export class NsfwClassifier implements ImageClassifier {
+  name = 'nsfw';
+  required = true;
+  private config: NsfwClassifierConfig;
+  private session: Promise<InferenceSession> | null = null;
+
+  constructor(config?: Partial<NsfwClassifierConfig>) {
+    this.config = {
+      modelPath: process.env.NSFW_MODEL_PATH,
+      labels: DEFAULT_NSFW_LABELS,
+      inputSize: 224,
+      ...config,
+    };
+  }
+
+  async classify(image: ModerationImage): Promise<ClassifierResult> {
+    const { modelPath, labels, inputSize } = this.config;
+    if (!modelPath || !existsSync(modelPath)) return { flags: [], unavailable: true };
+
+    const ort = await import('onnxruntime-node');
+    const session = await this.getSession();
+
+    const pixels = await sharp(image.data)
+      .rotate()
+      .removeAlpha()
+      .resize(inputSize, inputSize, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+    const input = new ort.Tensor('float32', Float32Array.from(pixels, value => value / 255), [1, inputSize, inputSize, 3]);
+
+    const output = await session.run({ [session.inputNames[0]]: input });
+    const probabilities = output[session.outputNames[0]].data as Float32Array;
+    const scores = Object.fromEntries(labels.map((label, index) => [label, probabilities[index] ?? 0]));
+
+    const explicit = (scores.porn ?? 0) + (scores.hentai ?? 0);
+    const suggestive = scores.sexy ?? 0;
+    const flags: ClassifierResult['flags'] = [];
+    if (explicit > 0.3) {
+      flags.push({ type: 'nudity', confidence: explicit, description: 'Image appears to contain nudity' });
+    }
+    if (suggestive > 0.5) {
+      flags.push({ type: 'inappropriate_content', confidence: suggestive, description: 'Image appears sexually suggestive' });
+    }
+
+    return { flags, scores };
+  }
+
+  private getSession() {
+    if (!this.session) {
+      this.session = import('onnxruntime-node')
+        .then(ort => ort.InferenceSession.create(this.config.modelPath!, { executionProviders: ['cpu'] }))
+        .catch(error => {
+          // Let the next upload retry instead of caching the failure
+          this.session = null;
+          throw error;
+        });
+    }
+    return this.session;
+  }
+}
@@ -0,0 +1,50 @@
+import sharp from 'sharp';
+
+// 8 bands of 8 bits: two hashes within 7 bits of each other share a band
+export const HASH_BANDS = 8;
+
+/**
+ * 64-bit difference hash (dHash): each bit says whether a pixel of a 9x8
+ * greyscale thumbnail is brighter than its right neighbour. Survives
+ * resizing, recompression and small colour changes.
+ */
+export async function differenceHash(data: Buffer): Promise<string> {
+  const pixels = await sharp(data)
+    .rotate()
+    .flatten()
+    .greyscale()
+    // Cubic keeps the thumbnail stable across source sizes
+    .resize(9, 8, { fit: 'fill', kernel: 'cubic' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let col = 0; col < 8; col++) {
+      byte = (byte << 1) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Splits a hash into indexed bands so near-duplicates can be found with an
+ * exact array overlap query instead of comparing every stored hash
+ */
+export function hashBands(hash: string): string[] {
+  return Array.from({ length: HASH_BANDS }, (_, index) => `${index}:${hash.slice(index * 2, index * 2 + 2)}`);
+}
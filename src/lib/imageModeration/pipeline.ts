@@ -0,0 +1,79 @@
+import type { ModerationFlag } from '@/services/contentModerationService';
+import { DuplicateClassifier } from './duplicateClassifier';
+import { FaceClassifier } from './faceClassifier';
+import { NsfwClassifier } from './nsfwClassifier';
+import { QualityClassifier } from './qualityClassifier';
+import type { ImageClassifier, ImageModerationResult, ModerationImage } from './types';
+
+export interface ImageModerationThresholds {
+  // High-risk flags above this are rejected outright
+  reject: number;
+  // Any flag above this goes to manual review
+  review: number;
+}
+
+const HIGH_RISK_FLAGS: ModerationFlag['type'][] = ['inappropriate_content', 'nudity', 'violence'];
+
+/**
+ * Runs every classifier on an image and folds their flags into a verdict:
+ * reject clearly unsafe images, approve clearly safe ones, and send the
+ * rest to the moderation queue.
+ */
+export class ImageModerationPipeline {
+  constructor(
+    private classifiers: ImageClassifier[],
+    private thresholds: ImageModerationThresholds = { reject: 0.8, review: 0.6 }
+  ) {}
+
+  async run(image: ModerationImage): Promise<ImageModerationResult> {
+    const results = await Promise.all(
+      this.classifiers.map(async classifier => {
+        try {
+          return { classifier, result: await classifier.classify(image) };
+        } catch (error) {
+          console.error(`[ImageModeration] ${classifier.name} failed:`, error);
+          return { classifier, result: { flags: [], unavailable: true } };
+        }
+      })
+    );
+
+    const flags = results.flatMap(({ result }) => result.flags);
+    const scores: Record<string, number> = {};
+    for (const { classifier, result } of results) {
+      for (const [key, value] of Object.entries(result.scores ?? {})) {
+        scores[`${classifier.name}.${key}`] = value;
+      }
+    }
+    const skipped = results.filter(({ result }) => result.unavailable).map(({ classifier }) => classifier.name);
+    const missingRequired = results.some(({ classifier, result }) => classifier.required && result.unavailable);
+
+    const { reject, review } = this.thresholds;
+    const verdict = flags.some(flag => HIGH_RISK_FLAGS.includes(flag.type) && flag.confidence > reject)
+      ? 'reject'
+      : missingRequired || flags.some(flag => flag.confidence > review)
+        ? 'review'
+        : 'approve';
+
+    return { verdict, flags, scores, skipped };
+  }
+}
+
+export const duplicateClassifier = new DuplicateClassifier();
+
+let defaultPipeline: ImageModerationPipeline | null = null;
+
+/**
+ * Shared pipeline with the built-in adapters. Models load on first use, so
+ * building it is cheap.
+ */
+export function getImageModerationPipeline(): ImageModerationPipeline {
+  if (!defaultPipeline) {
+    defaultPipeline = new ImageModerationPipeline([
+      new NsfwClassifier(),
+      new FaceClassifier(),
+      new QualityClassifier(),
+      duplicateClassifier,
+    ]);
+  }
+  return defaultPipeline;
+}
@@ -0,0 +1,64 @@
+import sharp from 'sharp';
+import type { ClassifierResult, ImageClassifier, ModerationImage } from './types';
+
+export interface QualityClassifierConfig {
+  minDimension: number;
+  // Variance of the Laplacian below which an image counts as blurry
+  blurThreshold: number;
+}
+
+// Edge-detection kernel; sharp clamps output to 0-255 so results are offset by 128
+const LAPLACIAN = { width: 3, height: 3, kernel: [0, 1, 0, 1, -4, 1, 0, 1, 0], offset: 128 };
+
+/**
+ * Resolution and blur checks with sharp. A sharp image has strong edges, so
+ * its Laplacian varies a lot; a blurry one stays close to flat.
+ */
+export class QualityClassifier implements ImageClassifier {
+  name = 'quality';
+  required = false;
+  private config: QualityClassifierConfig;
+
+  constructor(config?: Partial<QualityClassifierConfig>) {
+    this.config = {
+      minDimension: 200,
+      blurThreshold: 60,
+      ...config,
+    };
+  }
+
+  async classify(image: ModerationImage): Promise<ClassifierResult> {
+    const { width = 0, height = 0 } = await sharp(image.data).metadata();
+    const flags: ClassifierResult['flags'] = [];
+
+    if (Math.min(width, height) < this.config.minDimension) {
+      flags.push({ type: 'low_quality', confidence: 0.8, description: `Image is only ${width}x${height}` });
+    }
+
+    const edges = await sharp(image.data)
+      .rotate()
+      .greyscale()
+      .resize(512, 512, { fit: 'inside', withoutEnlargement: true })
+      .convolve(LAPLACIAN)
+      .raw()
+      .toBuffer();
+    const sharpness = variance(edges);
+
+    if (sharpness < this.config.blurThreshold) {
+      flags.push({ type: 'low_quality', confidence: 0.7, description: 'Image looks blurry' });
+    }
+
+    return { flags, scores: { width, height, sharpness } };
+  }
+}
+
+function variance(values: Buffer) {
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (const value of values) {
+    sum += value;
+    sumOfSquares += value * value;
+  }
+  const mean = sum / values.length;
+  return sumOfSquares / values.length - mean * mean;
+}
@@ -0,0 +1,37 @@
+import type { ImageKind } from '@prisma/client';
+import type { ModerationFlag } from '@/services/contentModerationService';
+
+/**
+ * An uploaded image on its way through the classifiers. Everything is
+ * derived from the original bytes; classifiers never see a URL.
+ */
+export interface ModerationImage {
+  data: Buffer;
+  userId: string;
+  kind: ImageKind;
+}
+
+export interface ClassifierResult {
+  flags: ModerationFlag[];
+  // Raw model outputs, kept for the admin queue and for tuning thresholds
+  scores?: Record<string, number>;
+  // Set when the adapter could not run (no model configured, load failure)
+  unavailable?: boolean;
+}
+
+export interface ImageClassifier {
+  name: string;
+  // When a required classifier can't run, the image goes to manual review
+  required: boolean;
+  classify(image: ModerationImage): Promise<ClassifierResult>;
+}
+
+export type ImageVerdict = 'approve' | 'review' | 'reject';
+
+export interface ImageModerationResult {
+  verdict: ImageVerdict;
+  flags: ModerationFlag[];
+  scores: Record<string, number>;
+  // Classifiers that failed or were unavailable
+  skipped: string[];
+}
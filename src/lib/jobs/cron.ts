@@ -0,0 +1,111 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in UTC like Vercel cron. Fields take `*`, numbers, ranges
+ * (`1-5`), steps (`*\/15`, `0-30/10`) and comma-separated lists.
+ */
+
+export interface CronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    // Standard cron: when both day fields are restricted, either may match
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 7 },
+];
+
+// Far enough to reach any valid date, including 29 February
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+export class CronError extends Error {}
+
+function parseField(field: string, { name, min, max }: (typeof FIELDS)[number]): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        let [from, to] = [min, max];
+
+        if (range !== '*') {
+            const [start, end] = range.split('-');
+            from = Number(start);
+            to = end === undefined ? (stepText === undefined ? from : max) : Number(end);
+        }
+
+        if (![from, to, step].every(Number.isInteger) || step < 1 || from < min || to > max || from > to) {
+            throw new CronError(`Invalid ${name} field "${field}"`);
+        }
+        for (let value = from; value <= to; value += step) values.add(value);
+    }
+
+    return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new CronError(`Cron expression "${expression}" must have 5 fields`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+    // 7 is Sunday too
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+        expression,
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        anyDayOfMonth: fields[2] === '*',
+        anyDayOfWeek: fields[4] === '*',
+    };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+    if (schedule.anyDayOfMonth) return dayOfWeek;
+    if (schedule.anyDayOfWeek) return dayOfMonth;
+    return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time strictly after `after` that the schedule fires
+ */
+export function nextCronRun(schedule: CronSchedule | string, after: Date): Date {
+    const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+    const date = new Date(after.getTime());
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+    while (date.getTime() - after.getTime() < MAX_SEARCH_MS) {
+        if (!cron.months.has(date.getUTCMonth() + 1)) {
+            date.setUTCMonth(date.getUTCMonth() + 1, 1);
+            date.setUTCHours(0, 0);
+        } else if (!dayMatches(cron, date)) {
+            date.setUTCDate(date.getUTCDate() + 1);
+            date.setUTCHours(0, 0);
+        } else if (!cron.hours.has(date.getUTCHours())) {
+            date.setUTCHours(date.getUTCHours() + 1, 0);
+        } else if (!cron.minutes.has(date.getUTCMinutes())) {
+            date.setUTCMinutes(date.getUTCMinutes() + 1);
+        } else {
+            return date;
+        }
+    }
+
+    throw new CronError(`Cron expression "${cron.expression}" never fires`);
+}
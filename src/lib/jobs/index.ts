@@ -0,0 +1,3 @@
+export { JOBS, type JobName } from './registry';
+export { CronError, nextCronRun, parseCron, type CronSchedule } from './cron';
+export type { JobContext, JobDefinition, JobResult } from './types';
@@ -0,0 +1,69 @@
+import { deleteExpiredTokens } from '@/lib/tokens';
+import { publishEvent } from '@/lib/events';
+import { getAllowlistCleanupService } from '@/services/allowlistCleanupService';
+import { getAvatarAnalyticsService } from '@/services/avatarAnalyticsService';
+import { AvatarService } from '@/services/avatarService';
+import { MatchEventHandler } from '@/services/matchEventHandler';
+import { getMatchLifecycleService } from '@/services/matchLifecycleService';
+import type { JobDefinition, JobResult } from './types';
+
+function defineJob<R extends JobResult>(job: JobDefinition<R>): JobDefinition<R> {
+    return job;
+}
+
+/**
+ * Scheduled maintenance jobs, run by the job runner (services/jobRunnerService.ts)
+ * from /api/jobs/run or `pnpm jobs:dev`
+ */
+export const JOBS = {
+    'avatar-metrics-cleanup': defineJob({
+        description: 'Deletes avatar analytics older than ANALYTICS_RETENTION_DAYS',
+        schedule: '15 3 * * *',
+        run: () => getAvatarAnalyticsService().cleanupOldMetrics(),
+    }),
+
+    'avatar-expiry': defineJob({
+        description: "Deletes avatars past their owner's expiry setting",
+        schedule: '0 * * * *',
+        run: async () => {
+            const { checked, deletedUserIds, errors } = await new AvatarService().deleteExpiredAvatars();
+            for (const userId of deletedUserIds) {
+                await publishEvent('avatar.updated', { userId });
+            }
+            return { checked, deleted: deletedUserIds.length, errors };
+        },
+    }),
+
+    'match-access-repair': defineJob({
+        description: 'Re-grants avatar access for every active match, a few minutes at a time',
+        schedule: '45 4 * * 0',
+        timeoutMs: 4 * 60 * 1000,
+        run: ({ deadline, resumeFrom }) => new MatchEventHandler().repairExistingMatches({ after: resumeFrom, deadline }),
+    }),
+
+    'match-expiry': defineJob({
+        description: 'Expires matches that went MATCH_EXPIRY_DAYS without a message',
+        schedule: '10 * * * *',
+        run: ({ now }) => getMatchLifecycleService().expireStale(now),
+    }),
+
+    'match-reconciliation': defineJob({
+        description: 'Checks match states against the on-chain matches, repairing or flagging mismatches',
+        schedule: '*/15 * * * *',
+        run: ({ now }) => getMatchLifecycleService().reconcile(now),
+    }),
+
+    'seal-allowlist-cleanup': defineJob({
+        description: 'Deactivates Seal allowlists whose expiry has passed',
+        schedule: '*/30 * * * *',
+        run: () => getAllowlistCleanupService().cleanupExpired(),
+    }),
+
+    'token-cleanup': defineJob({
+        description: 'Deletes expired verification and password reset tokens',
+        schedule: '0 4 * * *',
+        run: async ({ now }) => ({ deleted: await deleteExpiredTokens(now) }),
+    }),
+};
+
+export type JobName = keyof typeof JOBS;
@@ -0,0 +1,25 @@
+import type { JobTrigger } from '@prisma/client';
+
+// Summary a run leaves in its history row; must be plain JSON. A run that
+// stops before it is done sets `resumeFrom`, and the job runs again on the
+// runner's next pass, picking up from there.
+export type JobResult = object & { resumeFrom?: string | null };
+
+export interface JobContext {
+    now: Date;
+    trigger: JobTrigger;
+    // When the run's lock expires; long jobs stop here and resume on the next run
+    deadline: Date;
+    // `resumeFrom` of the last successful run, or null to start from the beginning
+    resumeFrom: string | null;
+}
+
+export interface JobDefinition<R extends JobResult = JobResult> {
+    description: string;
+    // Five-field cron expression in UTC (see cron.ts)
+    schedule: string;
+    // How long a run may hold the job's lock before another instance may take
+    // over. Keep it within the cron route's maxDuration.
+    timeoutMs?: number;
+    run(context: JobContext): Promise<R>;
+}
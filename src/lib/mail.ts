@@ -1,4 +1,5 @@
 import { Resend } from 'resend';
+import type { ErasureReceipt } from '@/services/accountDeletionService';
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 const baseUrl = process.env.NEXT_PUBLIC_BASE_URL;
@@ -58,4 +59,129 @@ export async function sendPasswordResetEmail(email: string, token: string) {
         console.error('Error sending password reset email:', error);
         return { success: false, error: error };
     }
-}
\ No newline at end of file
+}
+
+// Member-provided text must not be able to inject markup into emails
+function escapeHtml(text: string) {
+    return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+export async function sendSavedSearchAlertEmail(
+    email: string,
+    searchName: string,
+    searchQuery: string,
+    memberNames: string[],
+    totalCount: number
+) {
+    const link = `${baseUrl}/members?${searchQuery}`;
+    const others = totalCount - memberNames.length;
+
+    try {
+        const result = await resend.emails.send({
+            from: 'testing@resend.dev',
+            to: email,
+            subject: `${totalCount} new ${totalCount === 1 ? 'match' : 'matches'} for "${searchName}"`,
+            html: `
+                <h1>New members match your saved search</h1>
+                <p>${memberNames.map(escapeHtml).join(', ')}${others > 0 ? ` and ${others} more` : ''} joined and match "${escapeHtml(searchName)}".</p>
+                <a href="${link}">View matches</a>
+            `
+        });
+
+        if (result.error) {
+            console.error('Failed to send saved search alert email:', result.error);
+            return { success: false, error: result.error };
+        }
+
+        return { success: true, data: result.data };
+    } catch (error) {
+        console.error('Error sending saved search alert email:', error);
+        return { success: false, error: error };
+    }
+}
+
+export async function sendAccountDeletionScheduledEmail(email: string, scheduledFor: Date) {
+    const link = `${baseUrl}/members/edit`;
+
+    try {
+        const result = await resend.emails.send({
+            from: 'testing@resend.dev',
+            to: email,
+            subject: 'Your account is scheduled for deletion',
+            html: `
+                <h1>Your account will be deleted on ${scheduledFor.toUTCString()}</h1>
+                <p>Your profile is hidden from other members until then. Changed your mind? Sign in and undo the deletion.</p>
+                <a href="${link}">Keep my account</a>
+            `
+        });
+
+        if (result.error) {
+            console.error('Failed to send account deletion email:', result.error);
+            return { success: false, error: result.error };
+        }
+
+        return { success: true, data: result.data };
+    } catch (error) {
+        console.error('Error sending account deletion email:', error);
+        return { success: false, error: error };
+    }
+}
+
+export async function sendAccountDeletionReceiptEmail(email: string, receipt: ErasureReceipt) {
+    const list = (items: string[]) => `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+
+    try {
+        const result = await resend.emails.send({
+            from: 'testing@resend.dev',
+            to: email,
+            subject: 'Your account has been deleted',
+            html: `
+                <h1>Erasure receipt ${receipt.receiptId}</h1>
+                <p>Completed ${new Date(receipt.completedAt).toUTCString()}.</p>
+                <h2>Removed</h2>
+                ${list([
+                    ...receipt.removed.map(item => `${item.category}: ${item.count}`),
+                    ...receipt.externalAssets.map(item => `${item.system}: ${item.deleted} deleted, ${item.failed} failed`),
+                    ...receipt.onChain.revoked
+                ])}
+                <h2>Kept on chain</h2>
+                ${list(receipt.onChain.retained)}
+            `
+        });
+
+        if (result.error) {
+            console.error('Failed to send erasure receipt email:', result.error);
+            return { success: false, error: result.error };
+        }
+
+        return { success: true, data: result.data };
+    } catch (error) {
+        console.error('Error sending erasure receipt email:', error);
+        return { success: false, error: error };
+    }
+}
+
+export async function sendDataExportReadyEmail(email: string, downloadUrl: string, expiresAt: Date) {
+    try {
+        const result = await resend.emails.send({
+            from: 'testing@resend.dev',
+            to: email,
+            subject: 'Your data export is ready',
+            html: `
+                <h1>Your data export is ready</h1>
+                <p>The link below works until ${expiresAt.toUTCString()}. After that the archive is deleted and you can request a new one.</p>
+                <a href="${downloadUrl}">Download my data</a>
+            `
+        });
+
+        if (result.error) {
+            console.error('Failed to send data export email:', result.error);
+            return { success: false, error: result.error };
+        }
+
+        return { success: true, data: result.data };
+    } catch (error) {
+        console.error('Error sending data export email:', error);
+        return { success: false, error: error };
+    }
+}
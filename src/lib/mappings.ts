@@ -8,6 +8,7 @@ export function mapMessageToMessageDto(message: MessageWithSenderRecipient) {
         text: message.text,
         created: formatShortDateTime(message.created),
         dateRead: message.dateRead ? formatShortDateTime(message.dateRead) : null,
+        blurred: message.blurred,
         senderId: message.sender?.userId,
         senderName: message.sender?.name,
         senderImage: message.sender?.image,
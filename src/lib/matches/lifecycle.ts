@@ -0,0 +1,91 @@
+import type { MatchState } from '@prisma/client';
+import { CONTRACT_CONFIG } from '@/lib/contracts/config';
+
+/**
+ * States a pair of members can move to from each state. `null` is a pair
+ * with no row yet: the first like, an on-chain match or a block.
+ */
+export const MATCH_TRANSITIONS: Record<MatchState | 'NONE', readonly MatchState[]> = {
+    NONE: ['PENDING', 'MATCHED', 'BLOCKED'],
+    PENDING: ['MATCHED', 'UNMATCHED', 'BLOCKED'],
+    MATCHED: ['CHATTING', 'UNMATCHED', 'BLOCKED', 'EXPIRED'],
+    CHATTING: ['UNMATCHED', 'BLOCKED'],
+    UNMATCHED: ['PENDING', 'MATCHED', 'BLOCKED'],
+    // Unblocking goes back to wherever the likes leave the pair
+    BLOCKED: ['PENDING', 'MATCHED', 'CHATTING', 'UNMATCHED'],
+    // A message or a fresh on-chain match revives an expired match
+    EXPIRED: ['MATCHED', 'CHATTING', 'UNMATCHED', 'BLOCKED']
+};
+
+// States in which the members can see each other's private avatar
+export const ACTIVE_MATCH_STATES: readonly MatchState[] = ['MATCHED', 'CHATTING'];
+
+/**
+ * Like.matchStatus for each state, kept for the readers that predate Match
+ */
+export const LIKE_MATCH_STATUS: Record<MatchState, number> = {
+    PENDING: 0,
+    MATCHED: 1,
+    CHATTING: 1,
+    UNMATCHED: 0,
+    BLOCKED: 3,
+    EXPIRED: 0
+};
+
+export const STATE_TIMESTAMP = {
+    PENDING: 'pendingAt',
+    MATCHED: 'matchedAt',
+    CHATTING: 'chattingAt',
+    UNMATCHED: 'unmatchedAt',
+    BLOCKED: 'blockedAt',
+    EXPIRED: 'expiredAt'
+} as const satisfies Record<MatchState, string>;
+
+/**
+ * On-chain Match.status values that agree with each state; null means the
+ * object was deleted. Expiry and chatting are off-chain only, so the chain
+ * still says active for them.
+ */
+export const CHAIN_STATUSES: Record<MatchState, readonly (number | null)[]> = {
+    PENDING: [CONTRACT_CONFIG.MATCH_STATUS.PENDING],
+    MATCHED: [CONTRACT_CONFIG.MATCH_STATUS.ACTIVE],
+    CHATTING: [CONTRACT_CONFIG.MATCH_STATUS.ACTIVE],
+    UNMATCHED: [null],
+    BLOCKED: [CONTRACT_CONFIG.MATCH_STATUS.BLOCKED],
+    EXPIRED: [CONTRACT_CONFIG.MATCH_STATUS.ACTIVE, null]
+};
+
+export function canTransition(from: MatchState | null, to: MatchState): boolean {
+    return MATCH_TRANSITIONS[from ?? 'NONE'].includes(to);
+}
+
+/**
+ * The Match primary key for two members, in either order
+ */
+export function matchKey(userId: string, otherUserId: string): { userAId: string; userBId: string } {
+    const [userAId, userBId] = [userId, otherUserId].sort();
+    return { userAId, userBId };
+}
+
+export function chainAgrees(state: MatchState, chainStatus: number | null): boolean {
+    return CHAIN_STATUSES[state].includes(chainStatus);
+}
+
+/**
+ * The state the chain says a pair is in. Returns null for statuses the
+ * contract doesn't define.
+ */
+export function stateFromChain(chainStatus: number | null, hasChatted: boolean): MatchState | null {
+    switch (chainStatus) {
+        case null:
+            return 'UNMATCHED';
+        case CONTRACT_CONFIG.MATCH_STATUS.PENDING:
+            return 'PENDING';
+        case CONTRACT_CONFIG.MATCH_STATUS.ACTIVE:
+            return hasChatted ? 'CHATTING' : 'MATCHED';
+        case CONTRACT_CONFIG.MATCH_STATUS.BLOCKED:
+            return 'BLOCKED';
+        default:
+            return null;
+    }
+}
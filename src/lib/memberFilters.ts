@@ -0,0 +1,292 @@
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { addYears, startOfDay } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import type { GetMemberParams } from '@/types';
+import { getBlockedUserIds, getHiddenProfileUserIds, getPendingDeletionUserIds } from '@/lib/discovery/exclusions';
+
+const EARTH_RADIUS_KM = 6371;
+// Upper bound on presence IDs accepted from the client
+export const MAX_ONLINE_FILTER_IDS = 500;
+
+export type MemberSearchFilters = {
+    city?: string;
+    country?: string;
+    distanceKm?: number;
+    interests?: string[];
+    withPhoto?: boolean;
+    // Members with a verified email or a linked wallet
+    verifiedOnly?: boolean;
+    // Set when filtering to online members; IDs come from the presence channel
+    onlineUserIds?: string[];
+};
+
+export function normalizeInterests(interests: string[]) {
+    return Array.from(new Set(
+        interests.map(interest => interest.trim().toLowerCase()).filter(Boolean)
+    ));
+}
+
+/**
+ * Reads the extended search filters from URL params (see useFilters).
+ * `onlineUserIds` must be supplied by the caller when `onlineOnly` is set,
+ * since presence is only known to the client.
+ */
+export function parseMemberSearchFilters(
+    params: Omit<GetMemberParams, 'ageRange' | 'gender' | 'orderBy' | 'pageNumber' | 'pageSize'>,
+    onlineUserIds?: string[]
+): MemberSearchFilters {
+    const distanceKm = Number(params.distance);
+
+    return {
+        city: params.city?.trim() || undefined,
+        country: params.country?.trim() || undefined,
+        distanceKm: Number.isFinite(distanceKm) && distanceKm > 0 ? distanceKm : undefined,
+        interests: params.interests ? normalizeInterests(params.interests.split(',')) : undefined,
+        withPhoto: params.withPhoto === 'true',
+        verifiedOnly: params.verifiedOnly === 'true',
+        onlineUserIds: params.onlineOnly === 'true'
+            ? (onlineUserIds ?? []).slice(0, MAX_ONLINE_FILTER_IDS)
+            : undefined
+    };
+}
+
+/**
+ * Latitude and longitude bounds of the circle of `radiusKm` around the
+ * origin. `west` is greater than `east` when the circle crosses the
+ * antimeridian, and the bounds span every longitude when it takes in a pole.
+ */
+export function radiusBoundingBox(origin: { latitude: number; longitude: number }, radiusKm: number) {
+    const angle = radiusKm / EARTH_RADIUS_KM;
+    const latDelta = angle * (180 / Math.PI);
+    const minLatitude = origin.latitude - latDelta;
+    const maxLatitude = origin.latitude + latDelta;
+
+    if (minLatitude <= -90 || maxLatitude >= 90) {
+        return { minLatitude: Math.max(minLatitude, -90), maxLatitude: Math.min(maxLatitude, 90), west: -180, east: 180 };
+    }
+
+    const lngDelta = Math.asin(Math.sin(angle) / Math.cos(origin.latitude * Math.PI / 180)) * (180 / Math.PI);
+    const west = origin.longitude - lngDelta;
+    const east = origin.longitude + lngDelta;
+
+    return {
+        minLatitude,
+        maxLatitude,
+        west: west < -180 ? west + 360 : west,
+        east: east > 180 ? east - 360 : east,
+    };
+}
+
+/**
+ * SQL condition on the "Member" columns for members within `radiusKm` of the
+ * origin. The bounding box lets Postgres use the (latitude, longitude) index
+ * before the exact haversine check.
+ */
+export function withinRadiusSql(origin: { latitude: number; longitude: number }, radiusKm: number): Prisma.Sql {
+    const { minLatitude, maxLatitude, west, east } = radiusBoundingBox(origin, radiusKm);
+    const { latitude: lat, longitude: lng } = origin;
+    const longitudeRange = west <= east
+        ? Prisma.sql`"longitude" BETWEEN ${west} AND ${east}`
+        : Prisma.sql`("longitude" >= ${west} OR "longitude" <= ${east})`;
+
+    return Prisma.sql`"latitude" BETWEEN ${minLatitude} AND ${maxLatitude}
+          AND ${longitudeRange}
+          AND ${EARTH_RADIUS_KM} * 2 * asin(sqrt(
+                power(sin(radians("latitude" - ${lat}) / 2), 2)
+                + cos(radians(${lat})) * cos(radians("latitude"))
+                * power(sin(radians("longitude" - ${lng}) / 2), 2)
+              )) <= ${radiusKm}`;
+}
+
+/**
+ * Returns the user IDs of members within `radiusKm` of the origin
+ */
+export async function getUserIdsWithinRadius(
+    origin: { latitude: number; longitude: number },
+    radiusKm: number
+): Promise<string[]> {
+    const rows = await prisma.$queryRaw<{ userId: string }[]>`
+        SELECT "userId" FROM "Member"
+        WHERE ${withinRadiusSql(origin, radiusKm)}
+    `;
+
+    return rows.map(row => row.userId);
+}
+
+async function getViewerLocation(viewerUserId: string) {
+    const viewer = await prisma.member.findUnique({
+        where: { userId: viewerUserId },
+        select: { latitude: true, longitude: true }
+    });
+
+    return viewer?.latitude != null && viewer.longitude != null
+        ? { latitude: viewer.latitude, longitude: viewer.longitude }
+        : null;
+}
+
+/**
+ * Builds the Prisma conditions for the extended search filters. The distance
+ * filter is skipped when the viewer has not shared a location.
+ */
+export async function buildMemberFilterWhere(
+    filters: MemberSearchFilters,
+    viewerUserId: string
+): Promise<Prisma.MemberWhereInput[]> {
+    const conditions: Prisma.MemberWhereInput[] = [];
+
+    if (filters.country) conditions.push({ country: filters.country });
+    if (filters.city) conditions.push({ city: filters.city });
+    if (filters.interests?.length) conditions.push({ interests: { hasSome: filters.interests } });
+    if (filters.withPhoto) conditions.push({ photos: { some: { isApproved: true } } });
+    if (filters.verifiedOnly) {
+        conditions.push({ user: { OR: [{ emailVerified: { not: null } }, { walletAddress: { not: null } }] } });
+    }
+    if (filters.onlineUserIds) conditions.push({ userId: { in: filters.onlineUserIds } });
+
+    if (filters.distanceKm) {
+        const origin = await getViewerLocation(viewerUserId);
+        if (origin) {
+            const nearbyIds = await getUserIdsWithinRadius(origin, filters.distanceKm);
+            conditions.push({ userId: { in: nearbyIds } });
+        }
+    }
+
+    return conditions;
+}
+
+/**
+ * The same conditions as buildMemberFilterWhere, as SQL on the "Member"
+ * columns, for queries Prisma can't express (see buildMemberSearchSql)
+ */
+export async function buildMemberFilterSql(
+    filters: MemberSearchFilters,
+    viewerUserId: string
+): Promise<Prisma.Sql[]> {
+    const conditions: Prisma.Sql[] = [];
+
+    if (filters.country) conditions.push(Prisma.sql`"country" = ${filters.country}`);
+    if (filters.city) conditions.push(Prisma.sql`"city" = ${filters.city}`);
+    if (filters.interests?.length) conditions.push(Prisma.sql`"interests" && ${filters.interests}::text[]`);
+    if (filters.withPhoto) {
+        conditions.push(Prisma.sql`EXISTS (
+            SELECT 1 FROM "Photo" WHERE "Photo"."memberId" = "Member"."id" AND "Photo"."isApproved"
+        )`);
+    }
+    if (filters.verifiedOnly) {
+        conditions.push(Prisma.sql`EXISTS (
+            SELECT 1 FROM "User" WHERE "User"."id" = "Member"."userId"
+                AND ("User"."emailVerified" IS NOT NULL OR "User"."walletAddress" IS NOT NULL)
+        )`);
+    }
+    if (filters.onlineUserIds) {
+        conditions.push(filters.onlineUserIds.length > 0
+            ? Prisma.sql`"userId" IN (${Prisma.join(filters.onlineUserIds)})`
+            : Prisma.sql`FALSE`);
+    }
+
+    if (filters.distanceKm) {
+        const origin = await getViewerLocation(viewerUserId);
+        if (origin) conditions.push(withinRadiusSql(origin, filters.distanceKm));
+    }
+
+    return conditions;
+}
+
+// Ages change by the day, so the bounds do too and the same search keeps its cache key all day
+function getAgeRange(ageRange: string): Date[] {
+    const [minAge, maxAge] = ageRange.split(',');
+    const currentDate = startOfDay(new Date());
+    const minDob = addYears(currentDate, -maxAge - 1);
+    const maxDob = addYears(currentDate, -minAge);
+
+    return [minDob, maxDob];
+}
+
+type MemberSearchParams = Omit<GetMemberParams, 'orderBy' | 'pageNumber' | 'pageSize'>;
+
+/**
+ * Resolves the parts of a member search shared by its Prisma and SQL forms
+ */
+async function resolveMemberSearch(
+    { ageRange = '18,100', gender = 'male,female', ...params }: MemberSearchParams,
+    viewerUserId: string,
+    onlineUserIds?: string[]
+) {
+    const [minDob, maxDob] = getAgeRange(ageRange);
+
+    const [blockedUserIds, leavingUserIds, hiddenUserIds] = await Promise.all([
+        getBlockedUserIds(viewerUserId),
+        getPendingDeletionUserIds(),
+        getHiddenProfileUserIds(),
+    ]);
+
+    return {
+        minDob,
+        maxDob,
+        genders: gender.split(','),
+        filters: parseMemberSearchFilters(params, onlineUserIds),
+        excludedUserIds: [viewerUserId, ...blockedUserIds, ...leavingUserIds, ...hiddenUserIds],
+    };
+}
+
+/**
+ * The full member search query for a set of URL params, excluding the
+ * viewer, anyone they share a block with, and accounts being deleted. Shared
+ * by the members list and saved search alerts.
+ *
+ * The keyword (`q`) is not matched here: the members list ranks keyword
+ * searches in SQL (see buildMemberSearchSql), and other callers pass the
+ * IDs that match it (see matchMembersByText).
+ */
+export async function buildMemberSearchWhere(
+    params: MemberSearchParams,
+    viewerUserId: string,
+    onlineUserIds?: string[],
+    textMatchIds?: string[]
+): Promise<Prisma.MemberWhereInput> {
+    const { minDob, maxDob, genders, filters, excludedUserIds } =
+        await resolveMemberSearch(params, viewerUserId, onlineUserIds);
+    const filterConditions = await buildMemberFilterWhere(filters, viewerUserId);
+
+    return {
+        AND: [
+            { dateOfBirth: { gte: minDob } },
+            { dateOfBirth: { lte: maxDob } },
+            { gender: { in: genders } },
+            ...filterConditions,
+            ...(textMatchIds ? [{ userId: { in: textMatchIds } }] : []),
+        ],
+        NOT: {
+            userId: { in: excludedUserIds }
+        }
+    };
+}
+
+/**
+ * Cache key for a built member search. Hashed so keys stay short when the
+ * search carries long ID lists (online members, search hits, exclusions).
+ */
+export function memberSearchCacheKey(where: Prisma.MemberWhereInput): string {
+    return createHash('sha256').update(JSON.stringify(where)).digest('hex');
+}
+
+/**
+ * buildMemberSearchWhere as a SQL condition on the "Member" columns, so
+ * keyword searches can be ranked and paged in the database
+ */
+export async function buildMemberSearchSql(
+    params: MemberSearchParams,
+    viewerUserId: string,
+    onlineUserIds?: string[]
+): Promise<Prisma.Sql> {
+    const { minDob, maxDob, genders, filters, excludedUserIds } =
+        await resolveMemberSearch(params, viewerUserId, onlineUserIds);
+
+    return Prisma.join([
+        Prisma.sql`"dateOfBirth" BETWEEN ${minDob} AND ${maxDob}`,
+        Prisma.sql`"gender" IN (${Prisma.join(genders)})`,
+        ...await buildMemberFilterSql(filters, viewerUserId),
+        Prisma.sql`"userId" NOT IN (${Prisma.join(excludedUserIds)})`,
+    ], ' AND ');
+}
@@ -0,0 +1,79 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { SNIPPET_MARK_END, SNIPPET_MARK_START } from './util';
+
+const HEADLINE_OPTIONS =
+    `StartSel=${SNIPPET_MARK_START}, StopSel=${SNIPPET_MARK_END}, MaxWords=20, MinWords=8, MaxFragments=1`;
+
+/**
+ * One page of the members matching `query` among those satisfying `where`
+ * (see buildMemberSearchSql), best match first, and how many match in all.
+ * Ranking, paging and counting all run against the GIN-indexed
+ * `searchVector`.
+ *
+ * `query` uses web search syntax: quoted phrases, `or`, and `-word`.
+ */
+export async function searchMembersByText(
+    query: string,
+    where: Prisma.Sql,
+    skip: number,
+    take: number
+): Promise<{ userIds: string[]; total: number }> {
+    const [rows, [{ count }]] = await Promise.all([
+        prisma.$queryRaw<{ userId: string }[]>`
+            SELECT "userId"
+            FROM "Member", websearch_to_tsquery('simple', ${query}) AS query
+            WHERE "searchVector" @@ query AND ${where}
+            ORDER BY ts_rank("searchVector", query) DESC, "updated" DESC, "id" DESC
+            LIMIT ${take} OFFSET ${skip}
+        `,
+        prisma.$queryRaw<{ count: bigint }[]>`
+            SELECT count(*) AS count
+            FROM "Member"
+            WHERE "searchVector" @@ websearch_to_tsquery('simple', ${query}) AND ${where}
+        `,
+    ]);
+
+    return { userIds: rows.map(row => row.userId), total: Number(count) };
+}
+
+/**
+ * Returns the user IDs of members who joined within the window and match
+ * `query`. Saved search alerts only look at new members, so the window keeps
+ * the list short.
+ */
+export async function matchMembersByText(
+    query: string,
+    joined: { after: Date; until: Date }
+): Promise<string[]> {
+    const rows = await prisma.$queryRaw<{ userId: string }[]>`
+        SELECT "userId"
+        FROM "Member"
+        WHERE "searchVector" @@ websearch_to_tsquery('simple', ${query})
+          AND "created" > ${joined.after} AND "created" <= ${joined.until}
+    `;
+
+    return rows.map(row => row.userId);
+}
+
+/**
+ * Highlighted excerpts showing why each member matched. Matched words are
+ * wrapped in SNIPPET_MARK_START/END rather than HTML, so member text is
+ * never rendered as markup.
+ */
+export async function getSearchSnippets(query: string, userIds: string[]): Promise<Record<string, string>> {
+    if (userIds.length === 0) return {};
+
+    const rows = await prisma.$queryRaw<{ userId: string; snippet: string }[]>`
+        SELECT "userId", ts_headline(
+            'simple',
+            "name" || ' · ' || "city" || ', ' || "country" || ' · ' || "description",
+            websearch_to_tsquery('simple', ${query}),
+            ${HEADLINE_OPTIONS}
+        ) AS snippet
+        FROM "Member"
+        WHERE "userId" IN (${Prisma.join(userIds)})
+    `;
+
+    return Object.fromEntries(rows.map(row => [row.userId, row.snippet]));
+}
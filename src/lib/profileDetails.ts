@@ -0,0 +1,44 @@
+import type { Member, ProfilePrompt } from '@prisma/client';
+import type { ProfileDetailsSchema } from './schemas/ProfileDetailsSchema';
+import { INTERESTS, LANGUAGES, LIFESTYLE_TAGS, PROFILE_PROMPTS, pickKnown } from './profileOptions';
+
+export const emptyProfileDetails: ProfileDetailsSchema = {
+    interests: [],
+    prompts: [],
+    heightCm: null,
+    languages: [],
+    lookingFor: null,
+    lifestyle: []
+};
+
+/**
+ * Member columns for validated profile details. Prompts are stored as rows,
+ * so callers create them separately (see promptRows).
+ */
+export function toMemberDetailsData({ interests, heightCm, languages, lookingFor, lifestyle }: ProfileDetailsSchema) {
+    return { interests, heightCm, languages, lookingFor, lifestyle };
+}
+
+export function promptRows(prompts: ProfileDetailsSchema['prompts']) {
+    return prompts.map((prompt, position) => ({ ...prompt, position }));
+}
+
+/**
+ * Form defaults from a stored member, dropping values the vocabularies no
+ * longer contain so they don't fail validation
+ */
+export function toProfileDetailsDefaults(
+    member: Pick<Member, 'interests' | 'heightCm' | 'languages' | 'lookingFor' | 'lifestyle'>,
+    prompts: Pick<ProfilePrompt, 'question' | 'answer'>[] = []
+): ProfileDetailsSchema {
+    return {
+        interests: pickKnown(member.interests, INTERESTS),
+        prompts: prompts
+            .filter(prompt => (PROFILE_PROMPTS as readonly string[]).includes(prompt.question))
+            .map(prompt => ({ question: prompt.question as ProfileDetailsSchema['prompts'][number]['question'], answer: prompt.answer })),
+        heightCm: member.heightCm,
+        languages: pickKnown(member.languages, LANGUAGES),
+        lookingFor: member.lookingFor,
+        lifestyle: pickKnown(member.lifestyle, LIFESTYLE_TAGS)
+    };
+}
@@ -0,0 +1,73 @@
+// Fixed vocabularies for the structured profile fields. Values are stored as-is
+// on Member, and interests are also written to the on-chain UserProfile.
+
+export const INTEREST_CATEGORIES = {
+    'Active': ['hiking', 'running', 'cycling', 'yoga', 'gym', 'climbing', 'swimming', 'football', 'tennis', 'dancing'],
+    'Creative': ['photography', 'painting', 'writing', 'music', 'singing', 'design', 'crafts', 'film'],
+    'Food & drink': ['cooking', 'baking', 'coffee', 'wine', 'craft beer', 'street food', 'vegan food'],
+    'Going out': ['concerts', 'festivals', 'theatre', 'museums', 'karaoke', 'board games', 'nightlife'],
+    'Staying in': ['reading', 'video games', 'movies', 'series', 'podcasts', 'gardening', 'pets'],
+    'Curious': ['travel', 'languages', 'science', 'history', 'technology', 'crypto', 'philosophy', 'volunteering'],
+} as const;
+
+export type Interest = (typeof INTEREST_CATEGORIES)[keyof typeof INTEREST_CATEGORIES][number];
+
+export const INTERESTS = Object.values(INTEREST_CATEGORIES).flat() as [Interest, ...Interest[]];
+
+// Same bounds as MIN_INTERESTS / MAX_INTERESTS in the matching_me contract
+export const MIN_INTERESTS = 3;
+export const MAX_INTERESTS = 20;
+
+export const PROFILE_PROMPTS = [
+    'A perfect first date',
+    'My simple pleasures',
+    'I geek out on',
+    'The way to win me over is',
+    'Two truths and a lie',
+    'My most irrational fear',
+    'I\'m looking for someone who',
+    'A life goal of mine',
+] as const;
+
+export const MAX_PROMPTS = 3;
+export const MAX_PROMPT_ANSWER_LENGTH = 200;
+
+export const LANGUAGES = [
+    'English', 'Vietnamese', 'Spanish', 'French', 'German', 'Italian', 'Portuguese',
+    'Chinese', 'Japanese', 'Korean', 'Thai', 'Indonesian', 'Hindi', 'Arabic', 'Russian',
+] as const;
+
+export const MAX_LANGUAGES = 10;
+
+export const LOOKING_FOR_OPTIONS = [
+    { value: 'LONG_TERM', label: 'Long-term relationship' },
+    { value: 'SHORT_TERM', label: 'Something casual' },
+    { value: 'FRIENDSHIP', label: 'New friends' },
+    { value: 'FIGURING_OUT', label: 'Still figuring it out' },
+] as const;
+
+export const LIFESTYLE_CATEGORIES = {
+    'Drinking': ['never drinks', 'drinks socially', 'drinks often'],
+    'Smoking': ['non-smoker', 'smokes socially', 'smoker'],
+    'Diet': ['vegetarian', 'vegan', 'halal', 'kosher'],
+    'Pets': ['has a cat', 'has a dog', 'wants pets'],
+    'Kids': ['has kids', 'wants kids', 'doesn\'t want kids'],
+} as const;
+
+export type LifestyleTag = (typeof LIFESTYLE_CATEGORIES)[keyof typeof LIFESTYLE_CATEGORIES][number];
+
+export const LIFESTYLE_TAGS = Object.values(LIFESTYLE_CATEGORIES).flat() as [LifestyleTag, ...LifestyleTag[]];
+
+export const HEIGHT_RANGE_CM = { min: 120, max: 230 } as const;
+
+export function getLookingForLabel(value: string | null | undefined) {
+    return LOOKING_FOR_OPTIONS.find(option => option.value === value)?.label;
+}
+
+/**
+ * Drops values that are no longer in the vocabulary, e.g. interests synced
+ * from an on-chain profile created before the taxonomy existed
+ */
+export function pickKnown<T extends string>(values: readonly string[], known: readonly T[]): T[] {
+    return values.filter((value): value is T => (known as readonly string[]).includes(value));
+}
@@ -0,0 +1,62 @@
+export interface ReportReason {
+    id: string;
+    label: string;
+    description: string;
+    severity: 'low' | 'medium' | 'high';
+}
+
+// Predefined report reasons
+export const REPORT_REASONS: ReportReason[] = [
+    {
+        id: 'inappropriate_content',
+        label: 'Inappropriate Content',
+        description: 'Contains inappropriate, offensive, or disturbing content',
+        severity: 'high'
+    },
+    {
+        id: 'nudity',
+        label: 'Nudity or Sexual Content',
+        description: 'Contains nudity or sexually explicit content',
+        severity: 'high'
+    },
+    {
+        id: 'fake_profile',
+        label: 'Fake Profile',
+        description: 'Using someone else\'s photos or fake identity',
+        severity: 'medium'
+    },
+    {
+        id: 'spam',
+        label: 'Spam or Misleading',
+        description: 'Spam, scam, or misleading content',
+        severity: 'medium'
+    },
+    {
+        id: 'harassment',
+        label: 'Harassment',
+        description: 'Harassment, bullying, or threatening behavior',
+        severity: 'high'
+    },
+    {
+        id: 'violence',
+        label: 'Violence or Dangerous Content',
+        description: 'Promotes violence or dangerous activities',
+        severity: 'high'
+    },
+    {
+        id: 'copyright',
+        label: 'Copyright Violation',
+        description: 'Uses copyrighted content without permission',
+        severity: 'low'
+    },
+    {
+        id: 'other',
+        label: 'Other',
+        description: 'Other reason not listed above',
+        severity: 'low'
+    }
+];
+
+export function getReportReason(id: string) {
+    return REPORT_REASONS.find(reason => reason.id === id);
+}
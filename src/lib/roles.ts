@@ -0,0 +1,9 @@
+import type { Role } from '@prisma/client';
+
+/**
+ * Moderators can work the moderation queue and sanction members; admins can
+ * do that and everything else
+ */
+export function canModerate(role: Role | null | undefined) {
+    return role === 'ADMIN' || role === 'MODERATOR';
+}
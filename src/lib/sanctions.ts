@@ -0,0 +1,30 @@
+import type { SanctionType } from '@prisma/client';
+
+// Sanctions that lock the member out of the app entirely
+export const ACCESS_SANCTIONS: SanctionType[] = ['BAN', 'SUSPENSION'];
+
+// Sanctions that take the member out of other people's discovery and search
+export const HIDDEN_SANCTIONS: SanctionType[] = [...ACCESS_SANCTIONS, 'HIDDEN_FROM_DISCOVERY'];
+
+/**
+ * The access sanction carried in the session token, so middleware can
+ * enforce it without a database round trip
+ */
+export type AccessSanctionClaim = {
+    type: SanctionType;
+    // ISO timestamp; null for bans
+    expiresAt: string | null;
+};
+
+export function isClaimActive(claim: AccessSanctionClaim | null | undefined, now: Date = new Date()) {
+    if (!claim) return false;
+    return claim.expiresAt === null || new Date(claim.expiresAt) > now;
+}
+
+export const SANCTION_LABELS: Record<SanctionType, string> = {
+    SUSPENSION: 'Suspended',
+    BAN: 'Banned',
+    CANNOT_MESSAGE: 'Cannot send messages',
+    CANNOT_LIKE: 'Cannot like members',
+    HIDDEN_FROM_DISCOVERY: 'Hidden from discovery'
+};
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { profileDetailsSchema } from './ProfileDetailsSchema';
 
 export const memberEditSchema = z.object({
     name: z.string().min(1, {
@@ -13,6 +14,6 @@ export const memberEditSchema = z.object({
     country: z.string().min(1, {
         message: 'Country is required'
     })
-})
+}).merge(profileDetailsSchema)
 
 export type MemberEditSchema = z.infer<typeof memberEditSchema>
\ No newline at end of file
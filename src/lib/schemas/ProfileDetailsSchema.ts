@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import {
+    HEIGHT_RANGE_CM,
+    INTERESTS,
+    LANGUAGES,
+    LIFESTYLE_TAGS,
+    LOOKING_FOR_OPTIONS,
+    MAX_INTERESTS,
+    MAX_LANGUAGES,
+    MAX_PROMPT_ANSWER_LENGTH,
+    MAX_PROMPTS,
+    MIN_INTERESTS,
+    PROFILE_PROMPTS
+} from '../profileOptions';
+
+export const profilePromptSchema = z.object({
+    question: z.enum(PROFILE_PROMPTS),
+    answer: z.string().trim().min(1, {
+        message: 'Answer is required'
+    }).max(MAX_PROMPT_ANSWER_LENGTH)
+});
+
+const lookingForValues = LOOKING_FOR_OPTIONS.map(option => option.value) as
+    [typeof LOOKING_FOR_OPTIONS[number]['value'], ...typeof LOOKING_FOR_OPTIONS[number]['value'][]];
+
+export const profileDetailsSchema = z.object({
+    interests: z.array(z.enum(INTERESTS)).min(MIN_INTERESTS, {
+        message: `Pick at least ${MIN_INTERESTS} interests`
+    }).max(MAX_INTERESTS, {
+        message: `Pick at most ${MAX_INTERESTS} interests`
+    }),
+    prompts: z.array(profilePromptSchema).max(MAX_PROMPTS).refine(prompts =>
+        new Set(prompts.map(prompt => prompt.question)).size === prompts.length, {
+        message: 'Each prompt can only be answered once'
+    }),
+    heightCm: z.number().int().min(HEIGHT_RANGE_CM.min).max(HEIGHT_RANGE_CM.max).nullable(),
+    languages: z.array(z.enum(LANGUAGES)).max(MAX_LANGUAGES),
+    lookingFor: z.enum(lookingForValues).nullable(),
+    lifestyle: z.array(z.enum(LIFESTYLE_TAGS))
+});
+
+export type ProfileDetailsSchema = z.infer<typeof profileDetailsSchema>;
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { calculateAge } from '../util';
+import { profileDetailsSchema } from './ProfileDetailsSchema';
 
 export const registerSchema = z.object({
     name: z.string().min(3),
@@ -25,8 +26,14 @@ export const profileSchema = z.object({
     }),
 });
 
-export const combinedRegisterSchema = registerSchema.and(profileSchema);
+export const combinedRegisterSchema = registerSchema.and(profileSchema).and(profileDetailsSchema);
+
+// Social and wallet sign-ups collect the structured details up front, since
+// the on-chain profile they create needs interests
+export const completeProfileSchema = profileSchema.merge(profileDetailsSchema);
 
 export type ProfileSchema = z.infer<typeof profileSchema>;
 
-export type RegisterSchema = z.infer<typeof registerSchema & typeof profileSchema>
\ No newline at end of file
+export type CompleteProfileSchema = z.infer<typeof completeProfileSchema>;
+
+export type RegisterSchema = z.infer<typeof combinedRegisterSchema>
\ No newline at end of file
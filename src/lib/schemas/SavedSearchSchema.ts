@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const savedSearchSchema = z.object({
+    name: z.string().trim().min(1, {
+        message: 'Name is required'
+    }).max(50, {
+        message: 'Name must be 50 characters or less'
+    }),
+    // Stored as-is so filters added later are saved without a schema change
+    params: z.record(z.string(), z.string())
+})
+
+export type SavedSearchSchema = z.infer<typeof savedSearchSchema>
@@ -0,0 +1,104 @@
+export type TextCategory = 'profanity' | 'contact_info' | 'link' | 'scam' | 'harassment';
+
+export interface TextMatch {
+    category: TextCategory;
+    // Combined confidence of every hit in the category (0-1)
+    confidence: number;
+    // The matched snippets, for moderators
+    evidence: string[];
+}
+
+type Rule = {
+    category: TextCategory;
+    pattern: RegExp;
+    confidence: number;
+    // Rules that must see the raw text (digits, punctuation) rather than the normalized form
+    raw?: boolean;
+    // Drops hits the pattern alone can't tell apart from harmless text
+    accept?: (snippet: string) => boolean;
+};
+
+// Digit groups laid out like a phone number: optional country code, optional
+// bracketed area code, then a single run or up to five groups split by one
+// space, dot or dash. Runs touching a colon, slash or letter are times, dates
+// or identifiers rather than numbers someone would dial.
+const PHONE = /(?<![\w+.:\/-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,5}\)[\s.-]?)?(?:\d{9,15}|\d{2,6}(?:[\s.-]\d{2,6}){1,4})(?![\w:\/-]|[.,]\d)/g;
+const DATE = /\b(?:\d{4}[-.]\d{1,2}[-.]\d{1,2}|\d{1,2}[-.]\d{1,2}[-.]\d{4})\b/;
+
+const isPhoneNumber = (snippet: string) => snippet.replace(/\D/g, '').length >= 9 && !DATE.test(snippet);
+
+// Words that are also everyday English (line, signal) are left out
+const PLATFORMS = 'whats ?app|telegram|snap ?chat|snap|insta(?:gram)?|ig|kik|we ?chat|viber|discord|line id';
+
+const RULES: Rule[] = [
+    // Profanity: common words plus their inflections
+    { category: 'profanity', pattern: /\b(?:fuck\w*|motherfuck\w*|shit\w*|bitch\w*|cunt\w*|asshole\w*|dickhead\w*|cock|pussy|bastard\w*|wank\w*|twat\w*)\b/g, confidence: 0.7 },
+
+    // Harassment: threats weigh more than insults
+    { category: 'harassment', pattern: /\b(?:kill (?:your ?self|urself)|kys|go die|hope you die|deserve to die|i(?: will|'ll| ll|ll) (?:find|hurt|kill) you)\b/g, confidence: 0.95 },
+    { category: 'harassment', pattern: /\b(?:slut|whore|retard\w*|ugly (?:cow|pig|bitch)|fat (?:cow|pig)|nobody (?:will ever|would ever|could ever) love you)\b/g, confidence: 0.75 },
+
+    // Contact details and off-platform solicitation
+    { category: 'contact_info', pattern: PHONE, confidence: 0.8, raw: true, accept: isPhoneNumber },
+    { category: 'contact_info', pattern: /[\w.+-]+@[\w-]+\.[a-z]{2,}/gi, confidence: 0.85, raw: true },
+    { category: 'contact_info', pattern: new RegExp(`\\b(?:add|text|message|dm|hit|find|call|reach|contact) me (?:on|at|via|through) (?:${PLATFORMS})\\b`, 'g'), confidence: 0.85 },
+    { category: 'contact_info', pattern: new RegExp(`\\bmy (?:number|phone|${PLATFORMS})(?: id| handle| name)? is\\b`, 'g'), confidence: 0.8 },
+    { category: 'contact_info', pattern: new RegExp(`\\b(?:${PLATFORMS})\\b`, 'g'), confidence: 0.35 },
+
+    // Links, with or without a scheme
+    { category: 'link', pattern: /\b(?:https?:\/\/|www\.)\S+/gi, confidence: 0.8, raw: true },
+    { category: 'link', pattern: /(?<![@.\w-])[a-z0-9-]+\.(?:com|net|org|io|xyz|app|me|ly|gg|co|link|site|online|top|finance|pro)\b/gi, confidence: 0.65, raw: true },
+
+    // Crypto scams: nobody legitimate asks for wallet secrets
+    { category: 'scam', pattern: /\b(?:seed|recovery|secret|mnemonic) (?:phrase|words)\b|\bprivate key\b/g, confidence: 0.95 },
+    { category: 'scam', pattern: /\b(?:guaranteed (?:profit|returns?|income)|double your (?:money|crypto|investment)|passive income|\d+ ?% (?:daily|weekly) (?:profit|returns?))\b/g, confidence: 0.75 },
+    { category: 'scam', pattern: /\b(?:invest(?:ment|ing)? (?:platform|opportunit\w*|plan|app)|trading (?:platform|signals?|app|mentor)|mining pool|liquidity mining|binary options|forex|arbitrage)\b/g, confidence: 0.6 },
+    { category: 'scam', pattern: /\b(?:send|transfer|deposit) (?:me )?(?:some )?(?:sui|usdt|usdc|btc|eth|crypto|bitcoin)\b|\b(?:connect|verify) your wallet\b|\bclaim (?:your|the) airdrop\b/g, confidence: 0.7 },
+];
+
+// Look-alike characters people use to slip words past filters
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+/**
+ * Lower-cases, strips accents, undoes leetspeak inside words and collapses
+ * stretched letters ("fuuuck"), so word rules see a canonical form
+ */
+export function normalizeText(text: string): string {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u200b-\u200d\ufeff]/g, '')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/(?<=[a-z])[013457@$]|[013457@$](?=[a-z])/g, char => LEET[char])
+        .replace(/([a-z])\1{2,}/g, '$1')
+        .replace(/\s+/g, ' ');
+}
+
+/**
+ * Runs every rule over `text` and returns one match per category hit. Hits
+ * in the same category add up: two 0.6 hits make a 0.84 match.
+ */
+export function scanText(text: string): TextMatch[] {
+    const normalized = normalizeText(text);
+    const byCategory = new Map<TextCategory, { misses: number; evidence: Set<string> }>();
+
+    for (const rule of RULES) {
+        const hits = (rule.raw ? text : normalized).match(rule.pattern);
+        if (!hits) continue;
+
+        const entry = byCategory.get(rule.category) ?? { misses: 1, evidence: new Set<string>() };
+        for (const hit of hits) {
+            const snippet = hit.trim();
+            if (entry.evidence.has(snippet) || (rule.accept && !rule.accept(snippet))) continue;
+            entry.evidence.add(snippet);
+            entry.misses *= 1 - rule.confidence;
+        }
+        if (entry.evidence.size > 0) byCategory.set(rule.category, entry);
+    }
+
+    return Array.from(byCategory, ([category, { misses, evidence }]) => ({
+        category,
+        confidence: Math.round((1 - misses) * 100) / 100,
+        evidence: Array.from(evidence),
+    }));
+}
@@ -45,6 +45,16 @@ export async function generateToken(email: string, type: TokenType) {
     })
 }
 
+/**
+ * Removes verification and password reset tokens that can no longer be used
+ */
+export async function deleteExpiredTokens(now = new Date()) {
+    const { count } = await prisma.token.deleteMany({
+        where: { expires: { lt: now } }
+    });
+    return count;
+}
+
 function getToken() {
     const arrayBuffer = new Uint8Array(48);
     crypto.getRandomValues(arrayBuffer);
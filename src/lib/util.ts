@@ -38,4 +38,19 @@ export function createChatId(a: string, b: string) {
 
 export function timeAgo(date: string) {
     return formatDistance(new Date(date), new Date()) + ' ago';
-}
\ No newline at end of file
+}
+
+// Private-use characters that wrap matched words in search snippets
+export const SNIPPET_MARK_START = '\uE000';
+export const SNIPPET_MARK_END = '\uE001';
+
+/**
+ * Splits a search snippet into plain and highlighted parts for rendering
+ */
+export function splitSnippet(snippet: string) {
+    return snippet.split(SNIPPET_MARK_START).flatMap((part, index) => {
+        if (index === 0) return [{ text: part, highlighted: false }];
+        const [highlighted, rest = ''] = part.split(SNIPPET_MARK_END);
+        return [{ text: highlighted, highlighted: true }, { text: rest, highlighted: false }];
+    }).filter(part => part.text.length > 0);
+}
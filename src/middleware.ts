@@ -1,8 +1,11 @@
 import { NextResponse } from 'next/server';
 import { auth } from './auth';
+import { canModerate } from './lib/roles';
+import { isClaimActive } from './lib/sanctions';
 
 const publicRoutes = ['/'];
 const authRoutes = ['/register', '/register/success', '/verify-email', '/forgot-password', '/reset-password'];
+const suspendedRoute = '/suspended';
 
 export default auth((req) => {
     const { nextUrl } = req;
@@ -13,7 +16,11 @@ export default auth((req) => {
     const isAuthRoute = authRoutes.includes(pathname);
     const isProfileComplete = req.auth?.user?.profileComplete;
     const isAdmin = req.auth?.user?.role === 'ADMIN';
+    const isModerator = canModerate(req.auth?.user?.role);
     const isAdminRoute = pathname.startsWith('/admin');
+    const isModerationRoute = pathname.startsWith('/admin/moderation');
+    // Looked up again once the claim is SANCTION_CLAIM_TTL_SECONDS old; actions re-check the database
+    const isSuspended = isClaimActive(req.auth?.user?.accessSanction);
     const isWellKnown = pathname.startsWith('/.well-known/');
 
     // Check if it's a static file (images, fonts, etc.) from public folder
@@ -24,8 +31,11 @@ export default auth((req) => {
         return NextResponse.next();
     }
 
-    if (isAdminRoute && !isAdmin) {
-        return NextResponse.redirect(new URL('/', nextUrl));
+    // Moderators only get the moderation pages
+    if (isAdminRoute) {
+        return isModerator && isModerationRoute
+            ? NextResponse.next()
+            : NextResponse.redirect(new URL('/', nextUrl));
     }
 
     // Redirect /login to home (login is now on home page)
@@ -44,7 +54,12 @@ export default auth((req) => {
         return NextResponse.redirect(new URL('/', nextUrl))
     }
 
-    if (isLoggedIn && !isProfileComplete && pathname !== '/complete-profile') {
+    // Suspended and banned members only see the appeal page
+    if (isLoggedIn && isSuspended && pathname !== suspendedRoute) {
+        return NextResponse.redirect(new URL(suspendedRoute, nextUrl));
+    }
+
+    if (isLoggedIn && !isProfileComplete && pathname !== '/complete-profile' && pathname !== suspendedRoute) {
         return NextResponse.redirect(new URL('/complete-profile', nextUrl));
     }
 
@@ -0,0 +1,145 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { mockDb, type Row } from '@/test/prismaMock';
+import { AccountDeletionError, AccountDeletionService } from '../accountDeletionService';
+
+const mockDestroy = jest.fn();
+const mockDeleteAvatar = jest.fn();
+const mockAllowlistLookup = jest.fn();
+const mockSentReceipts: Row[] = [];
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('@/lib/cloudinary', () => ({
+    cloudinary: { v2: { uploader: { destroy: (id: string) => mockDestroy(id) } } },
+}));
+
+jest.mock('@/lib/mail', () => ({
+    sendAccountDeletionScheduledEmail: async () => ({ success: true }),
+    sendAccountDeletionReceiptEmail: async (_email: string, receipt: Row) => mockSentReceipts.push(receipt),
+}));
+
+jest.mock('@/lib/blockchain/contractQueries', () => ({
+    getAvatarAllowlistIdByOwner: (_client: unknown, owner: string) => mockAllowlistLookup(owner),
+}));
+
+jest.mock('../avatarService', () => ({
+    AvatarService: jest.fn().mockImplementation(() => ({ deleteAvatar: mockDeleteAvatar })),
+}));
+
+const now = new Date('2026-10-01T12:00:00Z');
+
+mockDb.configure('user', {
+    relations: {
+        member: user => mockDb.table('member').find(m => m.userId === user.id) ?? null,
+        dataExports: user => mockDb.table('dataExport').filter(e => e.userId === user.id && e.publicId),
+    },
+});
+mockDb.configure('accountDeletion', { defaults: () => ({ id: 'del-1', status: 'PENDING', requestedAt: new Date() }) });
+
+const storedDeletion = () => mockDb.table('accountDeletion')[0];
+
+function seed() {
+    mockDb.reset({
+        user: [{ id: 'user-a', email: 'a@example.com', profileObjectId: '0xprofile_a', walletAddress: '0xa1' }],
+        member: [{
+            userId: 'user-a',
+            photos: [{ publicId: 'photo-1' }, { publicId: null }, { publicId: 'photo-2' }],
+            _count: { photos: 2, prompts: 1, sourceLikes: 3, targetLikes: 1, sourceSwipes: 0, targetSwipes: 0 },
+        }],
+        chatRoom: [{ id: 'room-1', participant1: 'user-a', participant2: 'user-b', chatAllowlistId: null }],
+        message: Array.from({ length: 5 }, (_, i) => ({ id: `msg-${i}`, senderId: i % 2 ? 'user-a' : 'user-b', recipientId: i % 2 ? 'user-b' : 'user-a' })),
+    });
+    mockSentReceipts.length = 0;
+    mockDestroy.mockReset().mockResolvedValue({ result: 'ok' });
+    mockDeleteAvatar.mockReset().mockResolvedValue(undefined);
+    mockAllowlistLookup.mockReset().mockResolvedValue('0xavatar_allowlist');
+}
+
+describe('AccountDeletionService', () => {
+    const service = new AccountDeletionService({} as SuiClient, { graceDays: 14 });
+
+    beforeEach(seed);
+
+    it('should schedule erasure after the grace period and allow undo', async () => {
+        const deletion = await service.request('user-a', now);
+        expect(deletion.scheduledFor).toEqual(new Date('2026-10-15T12:00:00Z'));
+
+        await service.cancel('user-a', now);
+
+        expect(storedDeletion().status).toBe('CANCELLED');
+        await expect(service.erase('user-a', null, now)).rejects.toThrow(AccountDeletionError);
+        expect(mockDb.table('user')).toHaveLength(1);
+    });
+
+    it('should erase the account and record what stays on chain without a teardown', async () => {
+        await service.request('user-a', now);
+
+        const receipt = await service.erase('user-a', null, now);
+
+        expect(mockDb.table('user')).toEqual([]);
+        expect(mockDestroy.mock.calls).toEqual([['photo-1'], ['photo-2']]);
+        expect(mockDeleteAvatar).toHaveBeenCalledWith('user-a');
+        expect(receipt.removed).toEqual(expect.arrayContaining([
+            { category: 'Photos', count: 2 },
+            { category: 'Likes', count: 4 },
+            { category: 'Messages', count: 5 },
+        ]));
+        expect(receipt.onChain.revoked).toEqual([]);
+        expect(receipt.onChain.retained[0]).toContain('0xprofile_a');
+        expect(storedDeletion()).toEqual(expect.objectContaining({ status: 'COMPLETED', email: null }));
+        expect(mockSentReceipts).toEqual([receipt]);
+    });
+
+    it('should report failed asset deletions instead of aborting', async () => {
+        mockDestroy.mockRejectedValueOnce(new Error('Cloudinary down'));
+        mockDeleteAvatar.mockRejectedValueOnce(new Error('Walrus down'));
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        await service.request('user-a', now);
+
+        const receipt = await service.erase('user-a', null, now);
+
+        expect(receipt.externalAssets).toEqual([
+            { system: 'Cloudinary photos', deleted: 1, failed: 1 },
+            { system: 'Data export archives', deleted: 0, failed: 0 },
+            { system: 'Avatar storage', deleted: 0, failed: 1 },
+        ]);
+        expect(mockDb.table('user')).toEqual([]);
+    });
+
+    it('should refuse to delete a banned account, so the ban can\'t be shed by registering again', async () => {
+        mockDb.table('sanction').push({ id: 'ban-1', userId: 'user-a', type: 'BAN', expiresAt: null, revokedAt: null });
+
+        await expect(service.request('user-a', now)).rejects.toThrow('Banned accounts can\'t be deleted');
+        expect(mockDb.table('accountDeletion')).toEqual([]);
+    });
+
+    it('should hold a due erasure while the member is suspended and erase it once the suspension ends', async () => {
+        await service.request('user-a', now);
+        const expiresAt = new Date('2026-10-20T12:00:00Z');
+        mockDb.table('sanction').push({ id: 'susp-1', userId: 'user-a', type: 'SUSPENSION', expiresAt, revokedAt: null });
+        const due = new Date('2026-10-16T12:00:00Z');
+
+        await expect(service.processDue(due)).resolves.toEqual({ erased: 0, failed: 0 });
+        await expect(service.erase('user-a', null, due)).rejects.toThrow(AccountDeletionError);
+        expect(mockDb.table('user')).toHaveLength(1);
+
+        await expect(service.processDue(new Date('2026-10-21T12:00:00Z'))).resolves.toEqual({ erased: 1, failed: 0 });
+        expect(mockDb.table('user')).toEqual([]);
+    });
+
+    it('should look up allowlists by the linked wallet and skip the chain without one', async () => {
+        await expect(service.getTeardownPlan('user-a')).resolves.toEqual(
+            expect.objectContaining({ avatarAllowlistId: '0xavatar_allowlist' })
+        );
+        expect(mockAllowlistLookup).toHaveBeenCalledWith('0xa1');
+
+        mockAllowlistLookup.mockClear();
+        mockDb.table('user')[0].walletAddress = null;
+
+        await expect(service.getTeardownPlan('user-a')).resolves.toEqual({
+            profileObjectId: '0xprofile_a',
+            avatarAllowlistId: null,
+            chatAllowlistIds: [],
+        });
+        expect(mockAllowlistLookup).not.toHaveBeenCalled();
+    });
+});
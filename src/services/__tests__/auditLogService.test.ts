@@ -0,0 +1,47 @@
+import { parseAuditFilter, toAuditCsv } from '../auditLogService';
+import type { AuditLog } from '@prisma/client';
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+function entry(overrides: Partial<AuditLog>): AuditLog {
+    return {
+        id: 'a1',
+        actorId: 'admin-1',
+        actorRole: 'ADMIN',
+        action: 'feature_flag.update',
+        targetType: 'feature_flag',
+        targetId: 'avatar_upload_enabled',
+        before: null,
+        after: null,
+        ip: null,
+        userAgent: null,
+        createdAt: new Date('2026-10-20T08:00:00Z'),
+        ...overrides,
+    };
+}
+
+describe('auditLogService', () => {
+    it('should quote CSV cells with commas, quotes and JSON', () => {
+        const csv = toAuditCsv([entry({ after: { enabled: true, note: 'say "hi"' }, userAgent: 'Mozilla/5.0 (X11, Linux)' })]);
+        const [header, row] = csv.split('\n');
+
+        expect(header).toBe('createdAt,actorId,actorRole,action,targetType,targetId,before,after,ip,userAgent,id');
+        expect(row).toBe('2026-10-20T08:00:00.000Z,admin-1,ADMIN,feature_flag.update,feature_flag,avatar_upload_enabled,,'
+            + '"{""enabled"":true,""note"":""say \\""hi\\""""}",,"Mozilla/5.0 (X11, Linux)",a1');
+    });
+
+    it('should neutralise cells that spreadsheets would run as formulas', () => {
+        const csv = toAuditCsv([entry({ targetId: '=HYPERLINK("http://evil.test")' })]);
+
+        expect(csv).toContain(`"'=HYPERLINK(""http://evil.test"")"`);
+    });
+
+    it('should read filters from query values and include the whole end day', () => {
+        expect(parseAuditFilter({ action: ' photo. ', targetId: '', from: '2026-10-01', to: '2026-10-19', other: 'x' })).toEqual({
+            action: 'photo.',
+            from: new Date('2026-10-01T00:00:00.000Z'),
+            to: new Date('2026-10-19T23:59:59.999Z'),
+        });
+        expect(parseAuditFilter({ from: 'not a date' })).toEqual({});
+    });
+});
@@ -0,0 +1,89 @@
+import { FixtureEventSource, type IndexedChainEvent } from '@/lib/blockchain/eventSource';
+import fixture from './fixtures/matchingMeEvents.json';
+
+import { mockDb } from '@/test/prismaMock';
+import { ChainIndexerService } from '../chainIndexerService';
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('@/lib/audit', () => ({ SYSTEM_ACTOR: { id: null, role: null }, recordAudit: async () => {} }));
+// One subscriber per event, so the outbox gets one message per lifecycle event
+jest.mock('@/lib/events', () => ({ getEventBus: () => ({ subscribers: () => ['realtime'] }) }));
+
+const events = fixture as IndexedChainEvent[];
+
+function seedUsers() {
+    const users = [
+        { id: 'user-a', walletAddress: '0xa1', profileObjectId: null },
+        { id: 'user-b', walletAddress: '0xb2', profileObjectId: null },
+        { id: 'user-c', walletAddress: '0xc3', profileObjectId: null },
+    ];
+    mockDb.reset({ user: users, member: users.map(user => ({ id: `member-${user.id}`, userId: user.id })) });
+}
+
+describe('ChainIndexerService', () => {
+    beforeEach(seedUsers);
+
+    it('should project fixture events into the relational tables', async () => {
+        const indexer = new ChainIndexerService(new FixtureEventSource(events, '0xpkg'), { pageSize: 3 });
+        const results = await indexer.sync();
+
+        expect(results.every(result => !result.error)).toBe(true);
+        expect(mockDb.table('chainEvent')).toHaveLength(events.length);
+
+        expect(mockDb.table('user').find(u => u.id === 'user-a')?.profileObjectId).toBe('0xprofile_a');
+        expect(mockDb.table('like')).toEqual(expect.arrayContaining([
+            expect.objectContaining({ sourceUserId: 'user-a', targetUserId: 'user-b', matchId: '0xmatch_ab', matchStatus: 1 }),
+            expect.objectContaining({ sourceUserId: 'user-b', targetUserId: 'user-a', matchId: '0xmatch_ab', matchStatus: 1 }),
+        ]));
+        expect(mockDb.table('match')).toEqual([
+            expect.objectContaining({ userAId: 'user-a', userBId: 'user-b', state: 'MATCHED', onChainMatchId: '0xmatch_ab' }),
+        ]);
+        expect(mockDb.table('outboxMessage')).toEqual([expect.objectContaining({ eventType: 'match.created' })]);
+        expect(mockDb.table('chatRoom')[0]).toEqual(expect.objectContaining({
+            chatRoomId: '0xchat_ab',
+            chatAllowlistId: '0xallowlist_ab',
+            participant1: 'user-a',
+            matchId: '0xmatch_ab',
+            messageCount: 2,
+            lastMessageAt: new Date(1760000600000),
+        }));
+        expect(mockDb.table('gift')[0]).toEqual(expect.objectContaining({ giftObjectId: '0xgift_1', recipientUserId: 'user-b', amount: '1000000' }));
+        expect(mockDb.table('swipe')[0]).toEqual(expect.objectContaining({
+            sourceUserId: 'user-a',
+            targetUserId: 'user-c',
+            direction: 'LEFT',
+            source: 'ON_CHAIN',
+            swipeObjectId: '0xswipe_1',
+        }));
+    });
+
+    it('should resume from the persisted cursor and skip nothing twice', async () => {
+        const coreEvents = events.filter(event => event.module === 'core');
+        await new ChainIndexerService(new FixtureEventSource(coreEvents.slice(0, 2), '0xpkg'), { modules: ['core'] }).sync();
+
+        const [result] = await new ChainIndexerService(new FixtureEventSource(coreEvents, '0xpkg'), { modules: ['core'] }).sync();
+
+        expect(result.processed).toBe(coreEvents.length - 2);
+        expect(result.skipped).toBe(0);
+        expect(result.cursor).toEqual(coreEvents[coreEvents.length - 1].id);
+        expect(mockDb.table('chainEvent')).toHaveLength(coreEvents.length);
+    });
+
+    it('should replay from a checkpoint without duplicating rows', async () => {
+        const indexer = new ChainIndexerService(new FixtureEventSource(events, '0xpkg'));
+        await indexer.sync();
+
+        const chatEvents = events.filter(event => event.module === 'chat');
+        const result = await indexer.replayFrom('chat', chatEvents[0].id);
+
+        expect(result.processed).toBe(chatEvents.length - 1);
+        expect(mockDb.table('chainEvent')).toHaveLength(events.length);
+        expect(mockDb.table('chatRoom')).toHaveLength(1);
+        expect(mockDb.table('chatRoom')[0].messageCount).toBe(2);
+    });
+
+    it('should reject replays of modules that are not indexed', async () => {
+        const indexer = new ChainIndexerService(new FixtureEventSource(events, '0xpkg'));
+        await expect(indexer.replayFrom('utils', null)).rejects.toThrow('not indexed');
+    });
+});
@@ -0,0 +1,185 @@
+import { ImageModerationPipeline, type ClassifierResult } from '@/lib/imageModeration';
+import { mockDb } from '@/test/prismaMock';
+import { ContentModerationService, ReportError, readPhotoReview } from '../contentModerationService';
+
+const mockInvalidateUserAvatar = jest.fn();
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('../avatarCacheService', () => ({
+    getAvatarCacheService: () => ({ invalidateUserAvatar: mockInvalidateUserAvatar }),
+}));
+
+let mockNow = new Date('2026-10-01T12:00:00Z');
+const mockLocks: unknown[] = [];
+
+mockDb.overrideRoot({
+    $executeRaw: async (_strings: TemplateStringsArray, ...values: unknown[]) => {
+        mockLocks.push(...values);
+        return 0;
+    },
+});
+
+mockDb.configure('report', {
+    defaults: sequence => ({ id: `report-${sequence}`, status: 'PENDING', createdAt: mockNow }),
+    unique: [['reporterId', 'caseId']],
+});
+mockDb.configure('moderationCase', {
+    defaults: sequence => ({
+        id: `case-${sequence}`, status: 'PENDING', reportCount: 0, priority: 0,
+        contentHidden: false, hiddenAt: null, escalatedAt: null, createdAt: mockNow,
+    }),
+});
+
+function advance(seconds: number) {
+    mockNow = new Date(mockNow.getTime() + seconds * 1000);
+    return mockNow;
+}
+
+function report(reportedBy: string, severity: 'low' | 'medium' | 'high' = 'medium', contentId = 'blob-1') {
+    return service.createContentReport(
+        { userId: 'user-t', contentType: 'avatar', contentId, reportedBy, reasonId: 'spam', severity },
+        advance(60)
+    );
+}
+
+const service = new ContentModerationService({ autoHideThreshold: 3, dailyReportLimit: 2, minSecondsBetweenReports: 30 });
+
+describe('ContentModerationService reports', () => {
+    beforeEach(() => {
+        mockDb.reset();
+        mockInvalidateUserAvatar.mockReset();
+        mockLocks.length = 0;
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('should group reports about the same content into one case', async () => {
+        const first = await report('user-a');
+        const second = await report('user-b');
+
+        expect(second.caseId).toBe(first.caseId);
+        expect(mockDb.table('moderationCase')).toHaveLength(1);
+        expect(mockDb.table('moderationCase')[0].reportCount).toBe(2);
+    });
+
+    it('should lock the content before finding or opening its case', async () => {
+        await report('user-a');
+        await report('user-b', 'medium', 'blob-2');
+
+        expect(mockLocks).toEqual(['moderation-case:AVATAR:blob-1', 'moderation-case:AVATAR:blob-2']);
+    });
+
+    it('should reject a second open report from the same reporter', async () => {
+        await report('user-a');
+
+        await expect(report('user-a')).rejects.toThrow(new ReportError('You have already reported this avatar'));
+    });
+
+    it('should turn a duplicate that got past the check into a report error', async () => {
+        await report('user-a');
+        // As if both requests were checked before either was saved
+        jest.spyOn(service, 'assertCanReport').mockResolvedValueOnce();
+
+        await expect(report('user-a')).rejects.toThrow(new ReportError('You have already reported this avatar'));
+        expect(mockDb.table('report')).toHaveLength(1);
+        expect(mockDb.table('moderationCase')[0].reportCount).toBe(1);
+    });
+
+    it('should enforce the interval and daily limit per reporter', async () => {
+        await report('user-a', 'medium', 'blob-1');
+        await expect(
+            service.createContentReport(
+                { userId: 'user-t', contentType: 'avatar', contentId: 'blob-2', reportedBy: 'user-a', reasonId: 'spam', severity: 'low' },
+                advance(10)
+            )
+        ).rejects.toThrow(ReportError);
+
+        await report('user-a', 'medium', 'blob-2');
+        await expect(report('user-a', 'medium', 'blob-3')).rejects.toThrow(ReportError);
+
+        const history = await service.getReporterHistory('user-a', mockNow);
+        expect(history).toEqual(expect.objectContaining({ recentReports: 2, canReport: false }));
+        expect(history.cooldownUntil!.getTime()).toBeGreaterThan(mockNow.getTime());
+    });
+
+    it('should escalate high severity reports to the front of the queue', async () => {
+        await report('user-a', 'low', 'blob-low');
+        await report('user-b', 'high', 'blob-high');
+
+        const [low, high] = mockDb.table('moderationCase');
+        expect(high.severity).toBe('HIGH');
+        expect(high.escalatedAt).toEqual(mockNow);
+        expect(high.priority).toBeGreaterThan(low.priority);
+    });
+
+    it('should hide the content once enough members report it, until a moderator approves it', async () => {
+        await report('user-a');
+        const second = await report('user-b');
+        expect(second.contentHidden).toBe(false);
+
+        const third = await report('user-c');
+        expect(third.contentHidden).toBe(true);
+        expect(mockInvalidateUserAvatar).toHaveBeenCalledWith('user-t');
+
+        const closed = await service.processQueueItem(third.caseId, 'admin', 'approve');
+
+        expect(closed).toEqual(expect.objectContaining({ status: 'DISMISSED', contentHidden: false }));
+        expect(mockDb.table('report').every(r => r.status === 'DISMISSED')).toBe(true);
+        expect(mockInvalidateUserAvatar).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('ContentModerationService photos', () => {
+    const photo = Buffer.from('photo');
+    const withClassifiers = (...results: [ClassifierResult, boolean][]) => new ContentModerationService(
+        {},
+        new ImageModerationPipeline(results.map(([result, required], index) => ({
+            name: index === 0 ? 'nsfw' : `classifier-${index}`,
+            required,
+            classify: async () => result,
+        })))
+    );
+
+    beforeEach(() => {
+        mockDb.reset();
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('should approve a photo the classifiers clear', async () => {
+        const result = await withClassifiers([{ flags: [] }, true]).moderatePhoto(photo, 'user-a');
+        expect(result).toEqual(expect.objectContaining({ approved: true, requiresManualReview: false }));
+    });
+
+    it('should reject confident nudity without queueing it', async () => {
+        const result = await withClassifiers(
+            [{ flags: [{ type: 'nudity', confidence: 0.95, description: 'Nudity' }] }, true]
+        ).moderatePhoto(photo, 'user-a');
+
+        expect(result).toEqual(expect.objectContaining({ approved: false, requiresManualReview: false }));
+    });
+
+    it('should queue photos with a reason when the required classifier is unavailable', async () => {
+        const result = await withClassifiers([{ flags: [], unavailable: true }, true]).moderatePhoto(photo, 'user-a');
+
+        expect(result).toEqual(expect.objectContaining({
+            approved: false,
+            requiresManualReview: true,
+            reason: 'Classifiers unavailable: nsfw',
+        }));
+    });
+
+    it('should queue uploads from members with upheld reports', async () => {
+        mockDb.table('moderationCase').push({ targetUserId: 'user-a', status: 'RESOLVED', reviewedAt: mockNow });
+
+        const result = await withClassifiers([{ flags: [] }, true]).moderatePhoto(photo, 'user-a');
+
+        expect(result).toEqual(expect.objectContaining({ requiresManualReview: true, reason: 'User has recent moderation violations' }));
+    });
+
+    it('should read the flag lists of photos queued before reasons were stored', () => {
+        const flags = [{ type: 'nudity', confidence: 0.7, description: 'Nudity' }];
+        expect(readPhotoReview(flags)).toEqual({ reason: 'Content requires manual review', flags });
+        expect(readPhotoReview({ reason: 'Classifiers unavailable: nsfw', flags: [] })).toEqual({ reason: 'Classifiers unavailable: nsfw', flags: [] });
+        expect(readPhotoReview(null)).toBeNull();
+    });
+});
@@ -0,0 +1,145 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { mockDb } from '@/test/prismaMock';
+import type { ZipEntry } from '@/lib/zip';
+import { DataExportError, DataExportService } from '../dataExportService';
+
+const mockArchives: ZipEntry[][] = [];
+const mockUpload = jest.fn();
+const mockDestroy = jest.fn();
+const mockOwnedMatches = jest.fn();
+const mockOwnedChatRooms = jest.fn();
+const mockReadyEmails: [string, string][] = [];
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('@/lib/zip', () => ({
+    createZip: (entries: ZipEntry[]) => {
+        mockArchives.push(entries);
+        return Buffer.from('zip');
+    },
+}));
+jest.mock('@/lib/cloudinary', () => ({
+    cloudinary: {
+        v2: {
+            uploader: {
+                upload_stream: (options: { public_id: string }, done: (error: unknown, result?: unknown) => void) => ({
+                    end: () => mockUpload(options.public_id).then(
+                        (result: unknown) => done(null, result),
+                        (error: unknown) => done(error)
+                    ),
+                }),
+                destroy: (publicId: string) => mockDestroy(publicId),
+            },
+            utils: { private_download_url: (publicId: string) => `https://files.test/${publicId}` },
+        },
+    },
+}));
+jest.mock('@/lib/mail', () => ({
+    sendDataExportReadyEmail: async (email: string, url: string) => mockReadyEmails.push([email, url]),
+}));
+jest.mock('@/lib/blockchain/contractQueries', () => ({
+    getMatchIdsByAddress: (_client: unknown, owner: string) => mockOwnedMatches(owner),
+    getChatRoomIdsByAddress: (_client: unknown, owner: string) => mockOwnedChatRooms(owner),
+}));
+
+const now = new Date('2026-10-01T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+mockDb.configure('user', {
+    relations: { member: user => mockDb.table('member').find(m => m.userId === user.id) ?? null },
+});
+mockDb.configure('dataExport', {
+    defaults: sequence => ({ id: `export-${sequence}`, status: 'PENDING', attempts: 0, publicId: null }),
+    relations: { user: dataExport => mockDb.table('user').find(u => u.id === dataExport.userId) ?? null },
+});
+
+const service = new DataExportService({} as SuiClient, { linkHours: 72, maxAttempts: 2 });
+
+const file = (name: string) => JSON.parse(mockArchives[0].find(entry => entry.name === name)!.data as string);
+
+describe('DataExportService', () => {
+    beforeEach(() => {
+        mockDb.reset({
+            user: [{ id: 'user-a', email: 'a@example.com', passwordHash: 'hash', walletAddress: '0xa1', profileObjectId: '0xprofile_a' }],
+            member: [{ id: 'member-a', userId: 'user-a', name: 'Alice', prompts: [] }],
+            like: [{ sourceUserId: 'user-a', targetUserId: 'user-b', matchId: '0xmatch_indexed' }],
+            chatRoom: [{ chatRoomId: '0xroom_indexed', chatAllowlistId: '0xallow', matchId: null, participant1: 'user-a', participant2: 'user-b' }],
+        });
+        mockArchives.length = 0;
+        mockReadyEmails.length = 0;
+        mockUpload.mockReset().mockResolvedValue({});
+        mockDestroy.mockReset().mockResolvedValue({ result: 'ok' });
+        mockOwnedMatches.mockReset().mockResolvedValue(['0xmatch_owned']);
+        mockOwnedChatRooms.mockReset().mockResolvedValue([]);
+    });
+
+    it('should build the archive, keep the link for the configured hours and email it', async () => {
+        await service.request('user-a', now);
+
+        await expect(service.run(now)).resolves.toEqual({ built: 1, failed: 0, expired: 0 });
+
+        expect(mockDb.table('dataExport')[0]).toEqual(expect.objectContaining({
+            status: 'READY',
+            publicId: 'data-exports/user-a/export-1.zip',
+            expiresAt: new Date('2026-10-04T12:00:00Z'),
+        }));
+        expect(mockReadyEmails).toEqual([['a@example.com', 'https://files.test/data-exports/user-a/export-1.zip']]);
+        expect(file('user.json')).toEqual(expect.objectContaining({ id: 'user-a', hasPassword: true }));
+        expect(file('user.json')).not.toHaveProperty('passwordHash');
+        expect(file('on-chain.json')).toEqual(expect.objectContaining({
+            walletAddress: '0xa1',
+            matchIds: ['0xmatch_owned', '0xmatch_indexed'],
+            chatRoomIds: ['0xroom_indexed'],
+            chatAllowlistIds: ['0xallow'],
+        }));
+    });
+
+    it('should list only indexed objects for members without a wallet', async () => {
+        mockDb.table('user')[0].walletAddress = null;
+        await service.request('user-a', now);
+
+        await service.run(now);
+
+        expect(mockOwnedMatches).not.toHaveBeenCalled();
+        expect(mockOwnedChatRooms).not.toHaveBeenCalled();
+        expect(file('on-chain.json')).toEqual(expect.objectContaining({
+            walletAddress: null,
+            matchIds: ['0xmatch_indexed'],
+        }));
+    });
+
+    it('should retry a failed build until the attempts run out', async () => {
+        mockUpload.mockRejectedValue(new Error('Cloudinary down'));
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        await service.request('user-a', now);
+
+        await expect(service.run(now)).resolves.toEqual({ built: 0, failed: 1, expired: 0 });
+        expect(mockDb.table('dataExport')[0]).toEqual(expect.objectContaining({ status: 'PENDING', attempts: 1 }));
+
+        await service.run(now);
+        expect(mockDb.table('dataExport')[0]).toEqual(expect.objectContaining({
+            status: 'FAILED', attempts: 2, error: 'Cloudinary down',
+        }));
+        expect(mockReadyEmails).toEqual([]);
+    });
+
+    it('should reuse a queued request and refuse a second export within a day', async () => {
+        const queued = await service.request('user-a', now);
+        await expect(service.request('user-a', now)).resolves.toEqual(queued);
+
+        mockDb.table('dataExport')[0].status = 'READY';
+        mockDb.table('dataExport')[0].requestedAt = hoursAgo(2);
+
+        await expect(service.request('user-a', now)).rejects.toThrow(DataExportError);
+    });
+
+    it('should delete archives whose link has expired', async () => {
+        mockDb.table('dataExport').push({
+            id: 'old', userId: 'user-a', status: 'READY', publicId: 'data-exports/user-a/old.zip', expiresAt: hoursAgo(1),
+        });
+
+        await expect(service.run(now)).resolves.toEqual({ built: 0, failed: 0, expired: 1 });
+
+        expect(mockDestroy).toHaveBeenCalledWith('data-exports/user-a/old.zip');
+        expect(mockDb.table('dataExport')[0]).toEqual(expect.objectContaining({ status: 'EXPIRED', publicId: null }));
+    });
+});
@@ -0,0 +1,99 @@
+import { mockDb } from '@/test/prismaMock';
+import {
+    assignVariant,
+    differenceInterval,
+    ExperimentError,
+    ExperimentService,
+    wilsonInterval,
+} from '../experimentService';
+import type { FeatureFlagService } from '../featureFlagService';
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+
+mockDb.configure('experiment', { defaults: () => ({ status: 'DRAFT' }), unique: [['key']] });
+mockDb.configure('experimentExposure', { unique: [['experimentKey', 'userId']] });
+
+const variants = [{ key: 'control', weight: 50 }, { key: 'treatment', weight: 50 }];
+
+const mockFlags = {
+    isEnabled: async (flagKey: string) => flagKey !== 'disabled_flag',
+    getFlag: async (flagKey: string) => (flagKey === 'missing_flag' ? null : { key: flagKey }),
+} as unknown as FeatureFlagService;
+
+describe('assignVariant', () => {
+    it('should give a user the same variant every time', () => {
+        const first = assignVariant('cta_copy', variants, 'user-1');
+        for (let i = 0; i < 5; i++) {
+            expect(assignVariant('cta_copy', variants, 'user-1')).toBe(first);
+        }
+    });
+
+    it('should split traffic by weight', () => {
+        const weighted = [{ key: 'control', weight: 90 }, { key: 'treatment', weight: 10 }];
+        const counts: Record<string, number> = { control: 0, treatment: 0 };
+        for (let i = 0; i < 5000; i++) {
+            counts[assignVariant('cta_copy', weighted, `user-${i}`)]++;
+        }
+
+        expect(counts.treatment / 5000).toBeGreaterThan(0.08);
+        expect(counts.treatment / 5000).toBeLessThan(0.12);
+    });
+});
+
+describe('confidence intervals', () => {
+    it('should compute the Wilson score interval', () => {
+        const [low, high] = wilsonInterval(50, 100);
+        expect(low).toBeCloseTo(0.4038, 3);
+        expect(high).toBeCloseTo(0.5962, 3);
+        expect(wilsonInterval(0, 0)).toEqual([0, 0]);
+    });
+
+    it('should only call a difference significant when its interval excludes zero', () => {
+        expect(differenceInterval({ conversions: 60, exposed: 1000 }, { conversions: 50, exposed: 1000 }).significant)
+            .toBe(false);
+        const clear = differenceInterval({ conversions: 300, exposed: 1000 }, { conversions: 200, exposed: 1000 });
+        expect(clear.value).toBeCloseTo(0.1);
+        expect(clear.significant).toBe(true);
+    });
+});
+
+describe('ExperimentService', () => {
+    beforeEach(() => {
+        mockDb.reset();
+    });
+
+    it('should log one exposure per member in a running experiment', async () => {
+        mockDb.table('experiment').push({ key: 'cta_copy', flagKey: 'avatar_upload_enabled', status: 'RUNNING', variants });
+        const service = new ExperimentService(mockFlags, 0);
+        const user = { userId: 'user-1' };
+
+        const first = await service.evaluate('avatar_upload_enabled', user);
+        const second = await service.evaluate('avatar_upload_enabled', user);
+
+        expect(first).toEqual({ enabled: true, experimentKey: 'cta_copy', variant: assignVariant('cta_copy', variants, 'user-1') });
+        expect(second).toEqual(first);
+        expect(mockDb.table('experimentExposure')).toEqual([expect.objectContaining({ experimentKey: 'cta_copy', userId: 'user-1', variant: first.variant })]);
+    });
+
+    it('should leave members the flag is off for out of the experiment', async () => {
+        mockDb.table('experiment').push({ key: 'off', flagKey: 'disabled_flag', status: 'RUNNING', variants });
+        const service = new ExperimentService(mockFlags, 0);
+
+        expect(await service.evaluate('disabled_flag', { userId: 'user-1' }))
+            .toEqual({ enabled: false, experimentKey: null, variant: null });
+        expect(mockDb.table('experimentExposure')).toHaveLength(0);
+    });
+
+    it('should reject experiments that cannot be run', async () => {
+        const service = new ExperimentService(mockFlags, 0);
+        const input = { key: 'cta_copy', flagKey: 'avatar_upload_enabled', name: 'CTA copy', variants, metrics: ['LIKE' as const] };
+
+        await expect(service.create({ ...input, variants: variants.slice(0, 1) }, 'admin')).rejects.toBeInstanceOf(ExperimentError);
+        await expect(service.create({ ...input, variants: [variants[0], variants[0]] }, 'admin')).rejects.toThrow('unique');
+        await expect(service.create({ ...input, flagKey: 'missing_flag' }, 'admin')).rejects.toThrow('not found');
+        await expect(service.create({ ...input, metrics: [] }, 'admin')).rejects.toBeInstanceOf(ExperimentError);
+
+        await service.create(input, 'admin');
+        await expect(service.create(input, 'admin')).rejects.toThrow('already exists');
+    });
+});
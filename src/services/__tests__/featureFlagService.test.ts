@@ -0,0 +1,111 @@
+import { mockDb, type Row } from '@/test/prismaMock';
+import { FeatureFlagError, FeatureFlagService } from '../featureFlagService';
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+
+const rollouts = () => mockDb.table('featureFlagRollout');
+const versions = () => mockDb.table('featureFlagVersion');
+
+mockDb.configure('featureFlag', {
+    defaults: () => ({ version: 1, updatedBy: null, createdAt: new Date(), updatedAt: new Date() }),
+    relations: { rollout: flag => rollouts().find(r => r.flagKey === flag.key) ?? null },
+});
+mockDb.override('featureFlag', {
+    // The built-in rollouts are created nested in their flag
+    create: ({ data: { rollout, ...data }, ...args }: Row, create) => {
+        if (rollout) rollouts().push({ flagKey: data.key, ...rollout.create });
+        return create({ data, ...args });
+    },
+});
+
+const user = { userId: 'user-1' };
+
+describe('FeatureFlagService', () => {
+    beforeEach(() => {
+        mockDb.reset();
+    });
+
+    it('should seed the built-in flags once, as version 1', async () => {
+        const first = new FeatureFlagService(0);
+        const second = new FeatureFlagService(0);
+
+        await first.getAllFlags();
+        await second.getAllFlags();
+
+        expect(mockDb.table('featureFlag')).toHaveLength(8);
+        expect(versions()).toHaveLength(8);
+        expect(versions().every(v => v.change === 'CREATE' && v.version === 1)).toBe(true);
+        expect(rollouts().map(r => r.flagKey)).toContain('avatar_progressive_loading_enabled');
+    });
+
+    it('should pick up changes made by another instance', async () => {
+        const reader = new FeatureFlagService(0);
+        const writer = new FeatureFlagService(0);
+        expect(await reader.isEnabled('avatar_upload_enabled', user)).toBe(false);
+
+        expect(await writer.updateFlag('avatar_upload_enabled', { enabled: true }, 'admin')).toBe(true);
+
+        expect(await reader.isEnabled('avatar_upload_enabled', user)).toBe(true);
+        expect((await reader.getFlag('avatar_upload_enabled'))?.metadata).toMatchObject({ version: 2, updatedBy: 'admin' });
+        expect(versions()).toContainEqual(expect.objectContaining({
+            flagKey: 'avatar_upload_enabled',
+            version: 2,
+            change: 'UPDATE',
+            changedBy: 'admin',
+            snapshot: expect.objectContaining({ enabled: true }),
+        }));
+    });
+
+    it('should restore a flag and its rollout from an earlier version', async () => {
+        const service = new FeatureFlagService(0);
+        await service.getAllFlags();
+        await service.updateFlag('avatar_cdn_enabled', { enabled: true, rolloutPercentage: 50 }, 'admin');
+        await service.updateRollout('avatar_cdn_enabled', {
+            strategy: 'percentage', percentage: 25, segments: [], conditions: [], enabledUsers: [], disabledUsers: [],
+        }, 'admin');
+
+        await service.rollback('avatar_cdn_enabled', 1, 'admin');
+
+        const flag = await service.getFlag('avatar_cdn_enabled');
+        expect(flag).toMatchObject({ enabled: false, rolloutPercentage: 90, metadata: { version: 4 } });
+        expect(await service.getRolloutConfig('avatar_cdn_enabled')).toBeNull();
+        expect((await service.getHistory('avatar_cdn_enabled'))[0]).toMatchObject({
+            version: 4, change: 'ROLLBACK', note: 'Rolled back to version 1',
+        });
+        await expect(service.rollback('avatar_cdn_enabled', 9)).rejects.toBeInstanceOf(FeatureFlagError);
+    });
+
+    it('should keep evaluating the defaults when the database is unreachable', async () => {
+        process.env.AVATAR_DISPLAY_ENABLED = 'true';
+        const service = new FeatureFlagService(0);
+        const { prisma } = jest.requireMock('@/lib/prisma');
+        const spy = jest.spyOn(prisma.featureFlag, 'findMany').mockRejectedValue(new Error('connection refused'));
+        const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(await service.isEnabled('avatar_display_enabled', user)).toBe(true);
+
+        spy.mockRestore();
+        consoleSpy.mockRestore();
+        delete process.env.AVATAR_DISPLAY_ENABLED;
+    });
+
+    it('should apply environment switches on top of the stored flags', async () => {
+        const admin = new FeatureFlagService(0);
+        await admin.getAllFlags();
+        await admin.updateFlag('avatar_cdn_enabled', { enabled: true }, 'admin');
+
+        process.env.AVATAR_CDN_ENABLED = 'false';
+        process.env.AVATAR_UPLOAD_ENABLED = 'true';
+        const service = new FeatureFlagService(0);
+
+        expect(await service.isEnabled('avatar_cdn_enabled', user)).toBe(false);
+        expect(await service.isEnabled('avatar_upload_enabled', user)).toBe(true);
+        // Still wins after a later change in the admin panel
+        await service.updateFlag('avatar_upload_enabled', { enabled: false }, 'admin');
+        expect(await service.isEnabled('avatar_upload_enabled', user)).toBe(true);
+        expect(mockDb.table('featureFlag').find(flag => flag.key === 'avatar_cdn_enabled')?.enabled).toBe(true);
+
+        delete process.env.AVATAR_CDN_ENABLED;
+        delete process.env.AVATAR_UPLOAD_ENABLED;
+    });
+});
@@ -0,0 +1,105 @@
+import { mockDb, type Row } from '@/test/prismaMock';
+import { FlagGuardService } from '../flagGuardService';
+import type { AvatarAnalyticsService } from '../avatarAnalyticsService';
+import type { FeatureFlagService } from '../featureFlagService';
+import type { ProductionConfigService } from '../productionConfigService';
+
+const mockAudits: Row[] = [];
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('@/lib/audit', () => ({
+    SYSTEM_ACTOR: { id: null, role: null },
+    recordAudit: async (entry: Row) => {
+        mockAudits.push(entry);
+    },
+}));
+jest.mock('@/lib/healthChecks', () => ({ HEALTH_CHECK_NAMES: ['database', 'walrus', 'seal', 'cache', 'analytics'] }));
+
+const now = new Date('2026-10-20T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+function guard(fields: Row): Row {
+    return {
+        id: 'g1', flagKey: 'avatar_encryption_enabled', check: null, windowMinutes: 5, minEvents: 20,
+        action: 'DISABLE', enabled: true, lastTriggeredAt: null, lastReason: null, ...fields,
+    };
+}
+
+describe('FlagGuardService', () => {
+    let flags: Row;
+    let rates: Row;
+    let alerts: { message: string; severity: string }[];
+    let service: FlagGuardService;
+
+    beforeEach(() => {
+        mockDb.reset();
+        mockAudits.length = 0;
+        alerts = [];
+        rates = { uploadErrorRate: 0, accessErrorRate: 0, totalUploads: 0, totalAccesses: 0 };
+        flags = {
+            history: [] as Row[],
+            getFlag: jest.fn(async (key: string) => ({ key, enabled: true, metadata: { version: 2 } })),
+            getHistory: jest.fn(async () => flags.history),
+            updateFlag: jest.fn(async () => true),
+            rollback: jest.fn(async () => true),
+        };
+        service = new FlagGuardService(
+            {},
+            flags as unknown as FeatureFlagService,
+            { getErrorRates: async () => rates } as unknown as AvatarAnalyticsService,
+            { sendAlert: async (message: string, severity: string) => alerts.push({ message, severity }) } as unknown as ProductionConfigService
+        );
+    });
+
+    it('should disable a flag once a health check fails often enough within the window', async () => {
+        mockDb.table('featureFlagGuard').push(guard({ signal: 'HEALTH_CHECK', check: 'seal', threshold: 3 }));
+        mockDb.table('healthCheckSample').push(
+            { check: 'seal', status: 'error', createdAt: minutesAgo(1) },
+            { check: 'seal', status: 'error', createdAt: minutesAgo(3) },
+            { check: 'seal', status: 'error', createdAt: minutesAgo(30) },
+            { check: 'walrus', status: 'error', createdAt: minutesAgo(1) },
+        );
+
+        expect(await service.evaluate(now)).toEqual([]);
+
+        mockDb.table('healthCheckSample').push({ check: 'seal', status: 'error', createdAt: minutesAgo(4) });
+        const trips = await service.evaluate(now);
+
+        const reason = 'seal health check failed 3 times in 5 minutes';
+        expect(trips).toEqual([{ guardId: 'g1', flagKey: 'avatar_encryption_enabled', action: 'DISABLE', reason }]);
+        expect(flags.updateFlag).toHaveBeenCalledWith('avatar_encryption_enabled', { enabled: false }, 'guard:g1', reason);
+        expect(mockDb.table('featureFlagGuard')[0]).toMatchObject({ lastTriggeredAt: now, lastReason: reason });
+        expect(mockAudits).toEqual([expect.objectContaining({ action: 'feature_flag.auto_disable', targetId: 'avatar_encryption_enabled' })]);
+        expect(alerts).toEqual([{ message: `Feature flag 'avatar_encryption_enabled' was disabled: ${reason}`, severity: 'error' }]);
+
+        // Quiet for a window after tripping
+        expect(await service.evaluate(minutesAgo(-2))).toEqual([]);
+    });
+
+    it('should roll back on a high error rate, but only with enough events', async () => {
+        mockDb.table('featureFlagGuard').push(guard({ flagKey: 'avatar_face_swap_enabled', signal: 'UPLOAD_ERROR_RATE', threshold: 10, action: 'ROLLBACK' }));
+        flags.history = [{ version: 2, changedBy: 'admin' }, { version: 1, changedBy: 'system' }];
+        rates = { ...rates, uploadErrorRate: 50, totalUploads: 4 };
+
+        expect(await service.evaluate(now)).toEqual([]);
+
+        rates = { ...rates, uploadErrorRate: 25, totalUploads: 40 };
+        const [trip] = await service.evaluate(now);
+
+        expect(trip).toMatchObject({ action: 'ROLLBACK', reason: expect.stringContaining('avatar upload error rate 25.0%') });
+        expect(flags.rollback).toHaveBeenCalledWith('avatar_face_swap_enabled', 1, 'guard:g1', trip.reason);
+        expect(mockAudits[0].action).toBe('feature_flag.auto_rollback');
+    });
+
+    it('should disable instead of rolling back a rollback it already made', async () => {
+        mockDb.table('featureFlagGuard').push(guard({ signal: 'ACCESS_ERROR_RATE', threshold: 10, action: 'ROLLBACK' }));
+        flags.history = [{ version: 3, changedBy: 'guard:g1' }, { version: 2, changedBy: 'admin' }];
+        rates = { ...rates, accessErrorRate: 30, totalAccesses: 100 };
+
+        const [trip] = await service.evaluate(now);
+
+        expect(trip.action).toBe('DISABLE');
+        expect(flags.rollback).not.toHaveBeenCalled();
+        expect(flags.updateFlag).toHaveBeenCalledWith('avatar_encryption_enabled', { enabled: false }, 'guard:g1', trip.reason);
+    });
+});
@@ -0,0 +1,153 @@
+import type { JobDefinition } from '@/lib/jobs';
+import { mockDb } from '@/test/prismaMock';
+import { JobError, JobRunnerService } from '../jobRunnerService';
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('@/lib/jobs', () => ({
+    ...jest.requireActual('@/lib/jobs/cron'),
+    JOBS: {},
+}));
+
+const jobRows = () => mockDb.table('job');
+const runRows = () => mockDb.table('jobRun');
+
+mockDb.configure('job', {
+    defaults: () => ({ paused: false, lockedBy: null, lockedUntil: null, lastRunAt: null }),
+    relations: { runs: job => runRows().filter(r => r.jobName === job.name).slice(-1) },
+});
+mockDb.configure('jobRun', { defaults: sequence => ({ id: `r${sequence}`, status: 'RUNNING' }) });
+
+const now = new Date('2026-10-20T12:00:00Z');
+const minutesLater = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+
+let clock: Date;
+
+describe('JobRunnerService', () => {
+    let calls: string[];
+    let jobs: Record<string, JobDefinition>;
+    let service: JobRunnerService;
+
+    beforeEach(() => {
+        mockDb.reset();
+        clock = now;
+        calls = [];
+        jobs = {
+            hourly: {
+                description: 'Runs at the top of every hour',
+                schedule: '0 * * * *',
+                run: async ({ trigger }) => {
+                    calls.push(`hourly:${trigger}`);
+                    return { cleaned: 3 };
+                },
+            },
+            broken: {
+                description: 'Always fails',
+                schedule: '*/30 * * * *',
+                run: async () => {
+                    throw new Error('storage offline');
+                },
+            },
+        };
+        service = new JobRunnerService({ defaultTimeoutMs: 10 * 60 * 1000 }, jobs, () => clock);
+    });
+
+    it('should register jobs and run them when their slot comes round', async () => {
+        expect(await service.runDue()).toEqual([]);
+        expect(jobRows().map(j => [j.name, j.nextRunAt])).toEqual([
+            ['hourly', minutesLater(60)],
+            ['broken', minutesLater(30)],
+        ]);
+
+        clock = minutesLater(60);
+        const runs = await service.runDue();
+        expect(runs.map(r => [r.jobName, r.status])).toEqual([['broken', 'FAILED'], ['hourly', 'SUCCEEDED']]);
+        expect(runs[0].error).toBe('storage offline');
+        expect(runs[1].result).toEqual({ cleaned: 3 });
+        expect(jobRows().find(j => j.name === 'hourly')).toMatchObject({
+            nextRunAt: minutesLater(120), lastRunAt: minutesLater(60), lockedBy: null,
+        });
+
+        // The slot is taken, so a second runner looking at the same time does nothing
+        expect(await service.runDue()).toEqual([]);
+        expect(calls).toEqual(['hourly:SCHEDULE']);
+    });
+
+    it('should read the clock for each job rather than once per pass', async () => {
+        jobs.broken.run = async () => {
+            clock = minutesLater(100);
+            throw new Error('storage offline');
+        };
+        await service.runDue();
+
+        clock = minutesLater(60);
+        const [broken, hourly] = await service.runDue();
+
+        expect(broken).toMatchObject({ startedAt: minutesLater(60), finishedAt: minutesLater(100), durationMs: 40 * 60 * 1000 });
+        expect(hourly.startedAt).toEqual(minutesLater(100));
+        expect(jobRows().find(j => j.name === 'hourly')).toMatchObject({
+            nextRunAt: minutesLater(120), lastRunAt: minutesLater(100),
+        });
+    });
+
+    it('should run a job that stops early again on the next pass, resuming where it left off', async () => {
+        const resumedFrom: (string | null)[] = [];
+        jobs.hourly.run = async ({ resumeFrom, deadline }) => {
+            resumedFrom.push(resumeFrom);
+            expect(deadline).toEqual(new Date(clock.getTime() + 10 * 60 * 1000));
+            return { processed: 100, resumeFrom: resumeFrom ? null : 'page-1' };
+        };
+        await service.runDue();
+
+        clock = minutesLater(60);
+        await service.runDue();
+        expect(jobRows().find(j => j.name === 'hourly')!.nextRunAt).toEqual(minutesLater(60));
+
+        clock = minutesLater(61);
+        await service.runDue();
+        expect(resumedFrom).toEqual([null, 'page-1']);
+        expect(jobRows().find(j => j.name === 'hourly')!.nextRunAt).toEqual(minutesLater(120));
+    });
+
+    it('should skip a job another instance holds the lock for and take over once it expires', async () => {
+        await service.runDue();
+        const hourly = jobRows().find(j => j.name === 'hourly')!;
+        Object.assign(hourly, { lockedBy: 'other', lockedUntil: minutesLater(65) });
+        runRows().push({ id: 'r0', jobName: 'hourly', status: 'RUNNING' });
+
+        clock = minutesLater(60);
+        await service.runDue();
+        expect(calls).toEqual([]);
+        clock = minutesLater(61);
+        await expect(service.trigger('hourly', 'admin-1')).rejects.toThrow('already running');
+
+        clock = minutesLater(66);
+        await service.runDue();
+        expect(calls).toEqual(['hourly:SCHEDULE']);
+        expect(runRows().find(r => r.id === 'r0')).toMatchObject({ status: 'FAILED', error: expect.stringContaining('Abandoned') });
+    });
+
+    it('should not run paused jobs on schedule but still run them on demand', async () => {
+        await service.setPaused('hourly', true);
+        clock = minutesLater(60);
+        await service.runDue();
+        expect(calls).toEqual([]);
+
+        clock = minutesLater(61);
+        const run = await service.trigger('hourly', 'admin-1');
+        expect(run).toMatchObject({ trigger: 'MANUAL', triggeredBy: 'admin-1', status: 'SUCCEEDED' });
+
+        clock = minutesLater(90);
+        await service.setPaused('hourly', false);
+        expect(jobRows().find(j => j.name === 'hourly')).toMatchObject({ paused: false, nextRunAt: minutesLater(120) });
+        await expect(service.setPaused('missing', true)).rejects.toThrow(JobError);
+    });
+
+    it('should list jobs with their last run', async () => {
+        await service.trigger('broken', 'admin-1');
+        const [hourly, broken] = await service.list();
+
+        expect(hourly).toMatchObject({ name: 'hourly', schedule: '0 * * * *', paused: false, running: false, lastRun: null });
+        expect(broken.lastRun).toMatchObject({ status: 'FAILED', error: 'storage offline' });
+        expect((await service.history('broken')).map(r => r.status)).toEqual(['FAILED']);
+    });
+});
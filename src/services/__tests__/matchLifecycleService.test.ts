@@ -0,0 +1,221 @@
+import { SuiClient } from '@mysten/sui/client';
+import type { Prisma } from '@prisma/client';
+import { mockDb, type Row } from '@/test/prismaMock';
+import { MatchLifecycleError, MatchLifecycleService } from '../matchLifecycleService';
+import type { EmitEvent } from '../outboxService';
+import { prisma } from '@/lib/prisma';
+
+const mockChain = new Map<string, Row>();
+const mockAudits: Row[] = [];
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('@/lib/audit', () => ({
+    SYSTEM_ACTOR: { id: null, role: null },
+    recordAudit: async (entry: Row) => {
+        mockAudits.push(entry);
+    },
+}));
+jest.mock('@/lib/events', () => ({ getEventBus: () => null }));
+jest.mock('@/lib/blockchain/contractQueries', () => ({
+    getMatchInfo: async (_client: unknown, matchId: string) => mockChain.get(matchId) ?? null,
+}));
+
+const now = new Date('2026-10-20T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe('MatchLifecycleService', () => {
+    let events: [string, Row][];
+    let client: SuiClient;
+    let service: MatchLifecycleService;
+
+    const emit: EmitEvent = async (type, payload) => {
+        events.push([type, payload]);
+    };
+    const run = <T>(change: (tx: Prisma.TransactionClient, emit: EmitEvent) => Promise<T>) => change(prisma, emit);
+    const like = (sourceUserId: string, targetUserId: string) =>
+        mockDb.table('like').push({ sourceUserId, targetUserId, matchId: null, matchStatus: 0 });
+    const pair = () => mockDb.table('match').find(m => m.userAId === 'alice' && m.userBId === 'bob')!;
+
+    beforeAll(() => {
+        mockDb.configure('match', {
+            defaults: () => ({ onChainMatchId: null, chattingAt: null, matchedAt: null, flaggedAt: null }),
+        });
+    });
+
+    beforeEach(() => {
+        mockDb.reset({
+            member: [
+                { userId: 'alice', name: 'Alice', image: null },
+                { userId: 'bob', name: 'Bob', image: null },
+            ],
+        });
+        mockChain.clear();
+        mockAudits.length = 0;
+        events = [];
+
+        client = new SuiClient({ url: 'http://localhost:9000' });
+        // Objects the tests don't put on chain were deleted; the RPC can't tell for 0xunreachable
+        jest.spyOn(client, 'getObject').mockImplementation(async ({ id }) => ({
+            error: id === '0xunreachable' ? { code: 'unknown' } : { code: 'deleted', object_id: id, version: '1', digest: '' },
+        }));
+        service = new MatchLifecycleService({ expiryDays: 30, batchSize: 10 }, client, { transaction: run });
+    });
+
+    it('should go from pending to matched when a like is returned', async () => {
+        like('bob', 'alice');
+        await run((tx, e) => service.likeAdded(tx, e, 'bob', 'alice'));
+        expect(pair()).toEqual(expect.objectContaining({ state: 'PENDING', pendingAt: expect.any(Date) }));
+
+        like('alice', 'bob');
+        await run((tx, e) => service.likeAdded(tx, e, 'alice', 'bob'));
+
+        expect(pair()).toEqual(expect.objectContaining({ state: 'MATCHED', matchedAt: expect.any(Date) }));
+        expect(mockDb.table('like').map(l => l.matchStatus)).toEqual([1, 1]);
+        expect(events).toEqual([
+            ['match.created', { userId: 'alice', targetUserId: 'bob', member: expect.objectContaining({ name: 'Alice' }) }],
+        ]);
+    });
+
+    it('should lock the pair before reading its match', async () => {
+        const executeRaw = jest.spyOn(prisma, '$executeRaw');
+
+        await run((tx, e) => service.likeAdded(tx, e, 'bob', 'alice'));
+
+        const [strings, ...values] = executeRaw.mock.calls[0] as unknown as [TemplateStringsArray, ...unknown[]];
+        expect(strings.join('?')).toContain('pg_advisory_xact_lock');
+        expect(values).toEqual(['match:alice:bob']);
+    });
+
+    it('should refuse illegal transitions', async () => {
+        like('alice', 'bob');
+        await run((tx, e) => service.likeAdded(tx, e, 'alice', 'bob'));
+
+        await expect(run((tx, e) => service.transition(tx, e, 'alice', 'bob', 'CHATTING'))).rejects.toThrow(MatchLifecycleError);
+        await expect(run((tx, e) => service.transition(tx, e, 'bob', 'alice', 'EXPIRED'))).rejects.toThrow('from pending to expired');
+        expect(pair().state).toBe('PENDING');
+    });
+
+    it('should only let the member who blocked unblock, restoring the conversation', async () => {
+        like('alice', 'bob');
+        like('bob', 'alice');
+        await run((tx, e) => service.likeAdded(tx, e, 'alice', 'bob'));
+        await run((tx, e) => service.messageSent(tx, e, 'bob', 'alice'));
+        await run((tx, e) => service.block(tx, e, 'bob', 'alice'));
+
+        expect(pair()).toEqual(expect.objectContaining({ state: 'BLOCKED', blockedById: 'bob' }));
+        expect(mockDb.table('like').map(l => l.matchStatus)).toEqual([3, 3]);
+        await expect(run((tx, e) => service.messageSent(tx, e, 'alice', 'bob'))).rejects.toThrow(MatchLifecycleError);
+        await expect(run((tx, e) => service.unblock(tx, e, 'alice', 'bob'))).rejects.toThrow('Only the member who blocked');
+
+        await run((tx, e) => service.unblock(tx, e, 'bob', 'alice'));
+
+        expect(pair()).toEqual(expect.objectContaining({ state: 'CHATTING', blockedById: null }));
+        expect(events.map(([type]) => type)).toEqual(['match.created', 'match.blocked', 'match.unblocked']);
+        expect(events[2][1]).toEqual({ userId: 'bob', targetUserId: 'alice', restored: true });
+    });
+
+    it('should expire matches nobody wrote in', async () => {
+        mockDb.table('match').push(
+            { userAId: 'alice', userBId: 'bob', state: 'MATCHED', matchedAt: daysAgo(31), chattingAt: null },
+            { userAId: 'alice', userBId: 'carol', state: 'MATCHED', matchedAt: daysAgo(2), chattingAt: null },
+        );
+
+        await expect(service.expireStale(now)).resolves.toEqual({ expired: 1, failed: 0 });
+
+        expect(pair()).toEqual(expect.objectContaining({ state: 'EXPIRED', expiredAt: now }));
+        expect(mockDb.table('match')[1].state).toBe('MATCHED');
+        expect(events).toEqual([['match.expired', { userId: 'alice', targetUserId: 'bob' }]]);
+    });
+
+    it('should keep expiring when one match fails', async () => {
+        mockDb.table('match').push(
+            { userAId: 'alice', userBId: 'carol', state: 'MATCHED', matchedAt: daysAgo(40), chattingAt: null },
+            { userAId: 'alice', userBId: 'bob', state: 'MATCHED', matchedAt: daysAgo(31), chattingAt: null },
+        );
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        let calls = 0;
+        const flaky = new MatchLifecycleService({ expiryDays: 30, batchSize: 10 }, null, {
+            transaction: change => (calls++ === 0 ? Promise.reject(new Error('deadlock detected')) : run(change)),
+        });
+
+        await expect(flaky.expireStale(now)).resolves.toEqual({ expired: 1, failed: 1 });
+
+        expect(mockDb.table('match').map(m => m.state)).toEqual(['MATCHED', 'EXPIRED']);
+    });
+
+    it('should repair, flag or leave matches by how they compare with the chain', async () => {
+        const match = (userBId: string, state: string, onChainMatchId: string, stateChangedAt = daysAgo(1)) =>
+            mockDb.table('match').push({
+                userAId: 'alice', userBId, state, onChainMatchId, stateChangedAt,
+                matchedAt: daysAgo(3), chattingAt: null, chainStatus: 1, flaggedAt: null,
+            });
+        mockDb.table('member').push({ userId: 'carol' }, { userId: 'dave' }, { userId: 'erin' });
+        match('bob', 'MATCHED', '0xagrees');
+        match('carol', 'MATCHED', '0xdeleted');
+        match('dave', 'MATCHED', '0xstale_pending');
+        match('erin', 'BLOCKED', '0xactive');
+        match('frank', 'MATCHED', '0xunreachable');
+        mockChain.set('0xagrees', { status: 1, lastInteraction: String(daysAgo(2).getTime()) });
+        mockChain.set('0xstale_pending', { status: 0, lastInteraction: String(daysAgo(2).getTime()) });
+        mockChain.set('0xactive', { status: 1, lastInteraction: String(now.getTime()) });
+
+        const result = await service.reconcile(now);
+
+        expect(result).toEqual({ checked: 5, repaired: 1, flagged: 2, unreachable: 1, failed: 0 });
+        const byUser = (userBId: string) => mockDb.table('match').find(m => m.userBId === userBId)!;
+        expect(byUser('bob')).toEqual(expect.objectContaining({ state: 'MATCHED', reconciledAt: now, flaggedAt: null }));
+        // Deleted on chain: the match ends and there's nothing left to check
+        expect(byUser('carol')).toEqual(expect.objectContaining({ state: 'UNMATCHED', onChainMatchId: null, chainStatus: null }));
+        expect(events).toEqual([['match.removed', { userId: 'alice', targetUserId: 'carol' }]]);
+        expect(mockAudits).toEqual([expect.objectContaining({ action: 'match.reconcile', targetId: 'alice:carol' })]);
+        // Our state is newer and the chain can't go back from pending here
+        expect(byUser('dave')).toEqual(expect.objectContaining({ state: 'MATCHED', chainStatus: 0, flaggedAt: now }));
+        // Only a member lifts a block
+        expect(byUser('erin')).toEqual(expect.objectContaining({ state: 'BLOCKED', flaggedAt: now }));
+        expect(byUser('erin').flagReason).toContain('0xactive is status 1');
+        expect(byUser('frank')).toEqual(expect.objectContaining({ state: 'MATCHED', reconciledAt: now, flaggedAt: null }));
+    });
+
+    it('should keep reconciling when one pair fails, moving it to the back of the queue', async () => {
+        const match = (userBId: string, onChainMatchId: string, reconciledAt: Date | null) =>
+            mockDb.table('match').push({
+                userAId: 'alice', userBId, state: 'MATCHED', onChainMatchId, stateChangedAt: daysAgo(1), reconciledAt,
+                matchedAt: daysAgo(3), chattingAt: null, chainStatus: 1, flaggedAt: null,
+            });
+        mockDb.table('member').push({ userId: 'carol' });
+        match('bob', '0xdeleted', null);
+        match('carol', '0xdeleted', daysAgo(1));
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        let calls = 0;
+        const flaky = new MatchLifecycleService({ batchSize: 10 }, client, {
+            transaction: change => (calls++ === 0 ? Promise.reject(new Error('deadlock detected')) : run(change)),
+        });
+
+        const result = await flaky.reconcile(now);
+
+        expect(result).toEqual({ checked: 2, repaired: 1, flagged: 0, unreachable: 0, failed: 1 });
+        expect(mockDb.table('match').map(m => [m.userBId, m.state, m.reconciledAt])).toEqual([
+            ['bob', 'MATCHED', now],
+            ['carol', 'UNMATCHED', now],
+        ]);
+    });
+
+    it('should decide on the locked row rather than the snapshot read before it', async () => {
+        mockDb.table('member').push({ userId: 'carol' });
+        mockDb.table('match').push({
+            userAId: 'alice', userBId: 'carol', state: 'MATCHED', onChainMatchId: '0xdeleted', stateChangedAt: daysAgo(1),
+            matchedAt: daysAgo(3), chattingAt: null, chainStatus: 1, flaggedAt: null,
+        });
+        // Carol unmatches between the batch read and the repair
+        const racing = new MatchLifecycleService({ batchSize: 10 }, client, {
+            transaction: change => {
+                mockDb.table('match')[0].state = 'UNMATCHED';
+                return run(change);
+            },
+        });
+
+        await expect(racing.reconcile(now)).resolves.toMatchObject({ repaired: 0, flagged: 0, failed: 0 });
+        expect(events).toEqual([]);
+        expect(mockDb.table('match')[0]).toEqual(expect.objectContaining({ state: 'UNMATCHED', reconciledAt: now }));
+    });
+});
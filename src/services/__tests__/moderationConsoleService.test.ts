@@ -0,0 +1,107 @@
+import type { ModerationCase, Prisma } from '@prisma/client';
+import { mockDb, type Row } from '@/test/prismaMock';
+import { ModerationConsoleError, ModerationConsoleService } from '../moderationConsoleService';
+import type { ContentModerationService } from '../contentModerationService';
+
+const mockEvents: [string, Row][] = [];
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('@/lib/cloudinary', () => ({ cloudinary: { v2: { uploader: { destroy: async () => ({}) } } } }));
+jest.mock('@/lib/storage', () => ({ getFileUrl: (id: string) => `https://walrus.test/${id}` }));
+jest.mock('@/lib/imageModeration', () => ({ duplicateClassifier: { forget: async () => {} } }));
+jest.mock('@/lib/events', () => ({
+    publishEvent: async (type: string, payload: Row) => {
+        mockEvents.push([type, payload]);
+    },
+}));
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+const mockModeration = {
+    processQueueItem: async (
+        caseId: string,
+        _moderatorId: string,
+        _decision: string,
+        _notes: string | undefined,
+        within: (tx: Prisma.TransactionClient, moderationCase: ModerationCase) => Promise<void>
+    ) => {
+        if (caseId === 'closed') throw new Error('Moderation case is already closed');
+        const moderationCase = { id: caseId, targetUserId: 'u2' } as ModerationCase;
+        await within(jest.requireMock('@/lib/prisma').prisma, moderationCase);
+        return moderationCase;
+    },
+} as unknown as ContentModerationService;
+
+const service = new ModerationConsoleService(
+    { slaHours: { HIGH: 4, MEDIUM: 24, LOW: 72 }, photoSlaHours: 24 },
+    mockModeration
+);
+
+function mockCase(id: string, severity: string, createdAt: Date): Row {
+    return {
+        id,
+        targetUserId: 'u2',
+        contentType: 'AVATAR',
+        status: 'PENDING',
+        contentId: `blob-${id}`,
+        severity,
+        reportCount: 1,
+        contentHidden: false,
+        assignedTo: null,
+        createdAt,
+        reports: [{ reasonId: 'nudity', details: null }],
+        targetUser: { name: 'Bob' },
+    };
+}
+
+describe('ModerationConsoleService', () => {
+    beforeEach(() => {
+        mockDb.reset();
+        mockEvents.length = 0;
+    });
+
+    it('should order photos and cases by how close they are to their SLA', async () => {
+        mockDb.table('photo').push({
+            id: 'p1', url: 'https://img.test/p1', isApproved: false, assignedTo: null,
+            moderationFlags: { reason: 'Classifiers unavailable: nsfw', flags: [] },
+            createdAt: hoursAgo(20), member: { userId: 'u1', name: 'Alice' },
+        });
+        mockDb.table('moderationCase').push(mockCase('low', 'LOW', hoursAgo(48)), mockCase('high', 'HIGH', hoursAgo(1)));
+
+        const queue = await service.getQueue();
+
+        expect(queue.map(item => item.id)).toEqual(['high', 'p1', 'low']);
+        expect(queue[0].imageUrl).toBe('https://walrus.test/blob-high');
+        expect(queue[1].reasons).toEqual(['Classifiers unavailable: nsfw']);
+    });
+
+    it('should keep going when one item in a batch fails and log only the decisions made', async () => {
+        mockDb.table('photo').push({
+            id: 'p1', url: 'https://img.test/p1', publicId: 'p1', isApproved: false, createdAt: hoursAgo(1),
+            member: { id: 'm1', userId: 'u1', image: 'https://img.test/main', user: { image: 'https://img.test/main' } },
+        });
+
+        const outcomes = await service.decide(
+            [{ kind: 'MESSAGE', id: 'closed' }, { kind: 'PHOTO', id: 'p1' }, { kind: 'AVATAR', id: 'c1' }],
+            'reject',
+            'mod'
+        );
+
+        expect(outcomes.map(outcome => outcome.ok)).toEqual([false, true, true]);
+        expect(outcomes[0].error).toBe('Moderation case is already closed');
+        expect(mockDb.table('photo')).toHaveLength(0);
+        expect(mockDb.table('moderationDecision')).toEqual([
+            expect.objectContaining({ itemKind: 'PHOTO', itemId: 'p1', targetUserId: 'u1', action: 'REJECT', moderatorId: 'mod' }),
+            expect.objectContaining({ itemKind: 'AVATAR', itemId: 'c1', targetUserId: 'u2', action: 'REJECT' }),
+        ]);
+        expect(mockEvents).toEqual([['photo.rejected', { userId: 'u1', photoId: 'p1' }]]);
+    });
+
+    it('should only assign items to moderators', async () => {
+        mockDb.table('user').push({ id: 'member', role: 'MEMBER' });
+
+        await expect(service.assign([{ kind: 'PHOTO', id: 'p1' }], 'member', 'mod'))
+            .rejects.toBeInstanceOf(ModerationConsoleError);
+        expect(mockDb.table('moderationDecision')).toHaveLength(0);
+    });
+});
@@ -0,0 +1,168 @@
+import { mockDb, prisma as mockPrisma } from '@/test/prismaMock';
+import { OutboxService, backoffDelay, orderingKey } from '../outboxService';
+import { EventBus, SkipDeliveryError } from '@/lib/events/eventBus';
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('@/lib/events', () => ({ getEventBus: () => null }));
+
+const messages = () => mockDb.table('outboxMessage');
+
+mockDb.configure('outboxMessage', {
+    // Sequenced ids and createdAt keep the delivery order predictable
+    defaults: sequence => ({
+        id: `m${String(sequence).padStart(3, '0')}`, status: 'PENDING', attempts: 0, lockedAt: null,
+        lastError: null, processedAt: null, availableAt: new Date(), createdAt: new Date(sequence * 1000),
+    }),
+});
+
+const now = new Date('2026-10-20T12:00:00Z');
+const member = { userId: 'alice', name: 'Alice', image: null };
+
+describe('OutboxService', () => {
+    let bus: EventBus;
+    let service: OutboxService;
+    let delivered: string[];
+    let failing: Set<string>;
+    let skipping: Set<string>;
+
+    beforeEach(() => {
+        mockDb.reset();
+        delivered = [];
+        failing = new Set();
+        skipping = new Set();
+        bus = new EventBus();
+        for (const subscriber of ['cache', 'avatarAccess', 'realtime']) {
+            bus.on('match.created', subscriber, async () => {
+                if (failing.has(subscriber)) throw new Error(`${subscriber} down`);
+                if (skipping.has(subscriber)) throw new SkipDeliveryError('Match user wallet address not found');
+                delivered.push(`match.created:${subscriber}`);
+            });
+            bus.on('match.removed', subscriber, async () => {
+                if (failing.has(subscriber)) throw new Error(`${subscriber} down`);
+                delivered.push(`match.removed:${subscriber}`);
+            });
+        }
+        service = new OutboxService({ maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 60_000 }, bus);
+    });
+
+    it('should key messages by the members involved', () => {
+        expect(orderingKey({ userId: 'bob', targetUserId: 'alice', member })).toBe('alice:bob');
+        expect(orderingKey({ readerId: 'bob', senderId: 'bob', messageIds: [] })).toBe('bob');
+        expect(backoffDelay(1, 1000, 60_000)).toBe(1000);
+        expect(backoffDelay(4, 1000, 60_000)).toBe(8000);
+        expect(backoffDelay(10, 1000, 60_000)).toBe(60_000);
+    });
+
+    it('should write one message per subscriber and deliver them after commit', async () => {
+        const result = await service.transaction(async (_tx, emit) => {
+            await emit('match.created', { userId: 'alice', targetUserId: 'bob', member });
+            return 'saved';
+        });
+
+        expect(result).toBe('saved');
+        expect(messages().map(m => [m.subscriber, m.status])).toEqual([
+            ['cache', 'DONE'], ['avatarAccess', 'DONE'], ['realtime', 'DONE'],
+        ]);
+        expect(delivered).toEqual(['match.created:cache', 'match.created:avatarAccess', 'match.created:realtime']);
+    });
+
+    it('should retry only the failed subscriber with backoff and dead-letter it after the last attempt', async () => {
+        failing.add('avatarAccess');
+        await service.transaction(async (_tx, emit) => {
+            await emit('match.created', { userId: 'alice', targetUserId: 'bob', member });
+        });
+
+        const message = messages().find(m => m.subscriber === 'avatarAccess')!;
+        expect(message).toMatchObject({ status: 'PENDING', attempts: 1, lastError: 'avatarAccess down' });
+        expect(message.availableAt.getTime()).toBeGreaterThan(Date.now());
+
+        message.availableAt = now;
+        expect(await service.processDue(now)).toEqual({ delivered: 0, skipped: 0, retried: 1, dead: 0 });
+        expect(message.availableAt).toEqual(new Date(now.getTime() + 2000));
+
+        message.availableAt = now;
+        expect(await service.processDue(now)).toEqual({ delivered: 0, skipped: 0, retried: 0, dead: 1 });
+        expect(message).toMatchObject({ status: 'DEAD', attempts: 3 });
+        expect(delivered.filter(d => d === 'match.created:cache')).toHaveLength(1);
+    });
+
+    it('should hold a later message for the same members until the earlier one is delivered', async () => {
+        failing.add('avatarAccess');
+        await service.transaction(async (_tx, emit) => {
+            await emit('match.created', { userId: 'alice', targetUserId: 'bob', member });
+        });
+        failing.delete('avatarAccess');
+        await service.transaction(async (_tx, emit) => {
+            await emit('match.removed', { userId: 'bob', targetUserId: 'alice' });
+        });
+
+        const revoke = messages().find(m => m.eventType === 'match.removed' && m.subscriber === 'avatarAccess')!;
+        expect(revoke.status).toBe('PENDING');
+        expect(delivered).toContain('match.removed:realtime');
+
+        messages().forEach(m => {
+            m.availableAt = now;
+        });
+        expect(await service.processDue(now)).toEqual({ delivered: 2, skipped: 0, retried: 0, dead: 0 });
+        expect(delivered.slice(-2)).toEqual(['match.created:avatarAccess', 'match.removed:avatarAccess']);
+    });
+
+    it('should not retry a message its subscriber skips, nor hold back the ones after it', async () => {
+        skipping.add('avatarAccess');
+        await service.transaction(async (_tx, emit) => {
+            await emit('match.created', { userId: 'alice', targetUserId: 'bob', member });
+        });
+        skipping.delete('avatarAccess');
+
+        expect(messages().find(m => m.subscriber === 'avatarAccess')).toMatchObject({
+            status: 'DONE', attempts: 0, lastError: 'Skipped: Match user wallet address not found',
+        });
+
+        await service.transaction(async (_tx, emit) => {
+            await emit('match.removed', { userId: 'bob', targetUserId: 'alice' });
+        });
+        expect(delivered).toContain('match.removed:avatarAccess');
+    });
+
+    it('should leave messages held behind a retry out of the batch so others get through', async () => {
+        service = new OutboxService({ batchSize: 2 }, bus);
+        await service.enqueue(mockPrisma, 'match.created', { userId: 'alice', targetUserId: 'bob', member });
+        await service.enqueue(mockPrisma, 'match.removed', { userId: 'bob', targetUserId: 'alice' });
+        await service.enqueue(mockPrisma, 'match.removed', { userId: 'bob', targetUserId: 'alice' });
+        await service.enqueue(mockPrisma, 'match.removed', { userId: 'carol', targetUserId: 'dave' });
+        messages().forEach(m => {
+            m.availableAt = now;
+            // Only avatar access for alice and bob is behind, waiting for a retry of the grant
+            if (m.orderingKey === 'alice:bob' && m.subscriber !== 'avatarAccess') m.status = 'DONE';
+        });
+        Object.assign(messages()[1], { attempts: 1, availableAt: new Date(now.getTime() + 60_000) });
+
+        expect(await service.processDue(now)).toEqual({ delivered: 2, skipped: 0, retried: 0, dead: 0 });
+        expect(messages().filter(m => m.orderingKey === 'alice:bob' && m.subscriber === 'avatarAccess').map(m => m.status))
+            .toEqual(['PENDING', 'PENDING', 'PENDING']);
+        expect(messages().filter(m => m.orderingKey === 'carol:dave').map(m => m.status)).toEqual(['DONE', 'DONE', 'PENDING']);
+    });
+
+    it('should retry dead messages and only discard dead ones', async () => {
+        failing.add('realtime');
+        service = new OutboxService({ maxAttempts: 1 }, bus);
+        await service.transaction(async (_tx, emit) => {
+            await emit('match.removed', { userId: 'bob', targetUserId: 'alice' });
+        });
+        const dead = messages().find(m => m.subscriber === 'realtime')!;
+        const done = messages().find(m => m.subscriber === 'cache')!;
+        expect(dead.status).toBe('DEAD');
+
+        await expect(service.discard(done.id)).rejects.toThrow('Only dead-lettered messages can be discarded');
+        await expect(service.retry(done.id)).rejects.toThrow('Cannot retry a done message');
+        expect((await service.list('STUCK')).map(m => m.id)).toEqual([dead.id]);
+
+        expect(await service.retry(dead.id)).toMatchObject({ status: 'PENDING', attempts: 0 });
+        failing.delete('realtime');
+        expect(await service.dispatch([dead.id])).toEqual({ delivered: 1, skipped: 0, retried: 0, dead: 0 });
+
+        dead.status = 'DEAD';
+        await service.discard(dead.id);
+        expect(messages().map(m => m.id)).not.toContain(dead.id);
+    });
+});
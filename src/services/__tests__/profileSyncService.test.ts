@@ -0,0 +1,157 @@
+import { SuiClient, type SuiTransactionBlockResponse } from '@mysten/sui/client';
+import type { ProfileInfo } from '@/lib/blockchain/contractQueries';
+import { mockDb } from '@/test/prismaMock';
+import { ProfileSyncError, ProfileSyncService } from '../profileSyncService';
+
+let mockChainProfile: ProfileInfo;
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('@/lib/blockchain/contractQueries', () => ({
+    CONTRACT_IDS: { PACKAGE_ID: '0xpkg' },
+    getProfileInfo: async () => mockChainProfile,
+}));
+
+const client = new SuiClient({ url: 'http://localhost:9000' });
+const service = new ProfileSyncService(client);
+
+function publishedBy(sender: string, target = '0xpkg::core::update_profile') {
+    const [pkg, module, fn] = target.split('::');
+    jest.spyOn(client, 'getTransactionBlock').mockResolvedValueOnce({
+        digest: 'digest-1',
+        effects: { status: { status: 'success' } },
+        transaction: {
+            data: {
+                sender,
+                transaction: {
+                    kind: 'ProgrammableTransaction',
+                    inputs: [],
+                    transactions: [{ MoveCall: { package: pkg, module, function: fn } }],
+                },
+            },
+        },
+    } as unknown as SuiTransactionBlockResponse);
+}
+
+const user = () => mockDb.table('user')[0];
+const member = () => mockDb.table('member')[0];
+
+mockDb.configure('user', { relations: { member: user => mockDb.table('member').find(m => m.userId === user.id) ?? null } });
+
+function seed() {
+    mockDb.reset({
+        user: [{ id: 'user-a', name: 'Linh', profileObjectId: '0xprofile_a', walletAddress: '0xa1' }],
+        member: [{
+            userId: 'user-a',
+            name: 'Linh',
+            description: 'Coffee and climbing',
+            interests: ['coffee', 'climbing', 'travel'],
+            updated: new Date(1760000000000),
+            chainSnapshot: { version: 2, name: 'Linh', description: 'Coffee and climbing', interests: ['coffee', 'climbing', 'travel'] },
+        }],
+    });
+    mockChainProfile = {
+        profileId: '0xprofile_a',
+        owner: '0xa1',
+        displayName: 'Linh',
+        age: 27,
+        bio: 'Coffee and climbing',
+        interests: ['coffee', 'climbing', 'travel'],
+        matchCount: 0,
+        version: 2,
+        lastActive: 1760000000000,
+    };
+}
+
+describe('ProfileSyncService', () => {
+    beforeEach(seed);
+
+    it('should report nothing when both sides match the snapshot', async () => {
+        const status = await service.getStatus('user-a');
+        expect(status.diffs).toEqual([]);
+    });
+
+    it('should attribute a diff to the side that changed since the snapshot', async () => {
+        member().name = 'Linh N.';
+        mockChainProfile = { ...mockChainProfile, version: 3, interests: ['coffee', 'climbing', 'hiking'] };
+
+        const { diffs } = await service.getStatus('user-a');
+
+        expect(diffs).toEqual([
+            expect.objectContaining({ field: 'name', changedLocally: true, changedOnChain: false }),
+            expect.objectContaining({ field: 'interests', changedLocally: false, changedOnChain: true }),
+        ]);
+    });
+
+    it('should skip the bio when it holds the sealed sign-up payload', async () => {
+        mockChainProfile = { ...mockChainProfile, version: 3, bio: 'eyJuYW1lIjoiTGluaCIsImdlbmRlciI6ImZlbWFsZSIsImNpdHkiOiJIYW5vaSJ9AAAA' };
+
+        const status = await service.getStatus('user-a');
+
+        expect(status.bioIsText).toBe(false);
+        expect(status.diffs).toEqual([]);
+    });
+
+    it('should pull chain values into Member and advance the snapshot', async () => {
+        mockChainProfile = { ...mockChainProfile, version: 4, displayName: 'Linh Nguyen', lastActive: 1760000900000 };
+
+        const status = await service.pull('user-a', ['name']);
+
+        expect(member().name).toBe('Linh Nguyen');
+        expect(user().name).toBe('Linh Nguyen');
+        expect(member().updated).toEqual(new Date(1760000900000));
+        expect(member().chainSnapshot).toEqual(expect.objectContaining({ version: 4, name: 'Linh Nguyen' }));
+        expect(status.diffs).toEqual([]);
+    });
+
+    it('should refuse to pull text the profile rules block, or fields that are not synced', async () => {
+        mockChainProfile = { ...mockChainProfile, version: 3, bio: 'find me on snapchat, my snap is lina.k' };
+
+        await expect(service.pull('user-a', ['description'])).rejects.toThrow(ProfileSyncError);
+        await expect(service.pull('user-a', ['city' as never])).rejects.toThrow('Unknown profile field');
+
+        expect(member().description).toBe('Coffee and climbing');
+        expect(member().chainSnapshot).toEqual(expect.objectContaining({ version: 2 }));
+    });
+
+    it('should only advance the snapshot for the fields that were reconciled', async () => {
+        member().name = 'Linh N.';
+        mockChainProfile = { ...mockChainProfile, version: 3, displayName: 'Linh N.', interests: ['coffee', 'hiking'] };
+
+        await service.recordSnapshot('user-a');
+
+        expect(member().chainSnapshot).toEqual(expect.objectContaining({
+            version: 2,
+            versions: { name: 3, description: 3, interests: 2 },
+            name: 'Linh N.',
+            interests: ['coffee', 'climbing', 'travel'],
+        }));
+        // The interests edit is still the chain's, not mistaken for a local one
+        const { diffs } = await service.getStatus('user-a');
+        expect(diffs).toEqual([expect.objectContaining({ field: 'interests', changedLocally: false, changedOnChain: true })]);
+    });
+
+    it('should record a publish sent from the member wallet', async () => {
+        member().name = 'Linh N.';
+        mockChainProfile = { ...mockChainProfile, version: 3, displayName: 'Linh N.' };
+        // Stored addresses need not be in the chain's full-length form
+        publishedBy('0x00000000000000000000000000000000000000000000000000000000000000a1');
+
+        const status = await service.confirmPublished('user-a', 'digest-1');
+
+        expect(status.diffs).toEqual([]);
+        expect(member().chainSnapshot).toEqual(expect.objectContaining({ version: 3, name: 'Linh N.' }));
+    });
+
+    it('should reject digests from another wallet or without an update_profile call', async () => {
+        publishedBy('0xb2');
+        await expect(service.confirmPublished('user-a', 'digest-1')).rejects.toThrow('not sent from your wallet');
+
+        publishedBy('0xa1', '0xpkg::core::create_profile');
+        await expect(service.confirmPublished('user-a', 'digest-1')).rejects.toThrow('does not update a profile');
+
+        jest.spyOn(client, 'getTransactionBlock').mockRejectedValueOnce(new Error('Could not find the referenced transaction'));
+        await expect(service.confirmPublished('user-a', 'digest-1')).rejects.toThrow(ProfileSyncError);
+
+        expect(member().chainSnapshot).toEqual(expect.objectContaining({ version: 2 }));
+    });
+});
@@ -0,0 +1,43 @@
+import { mockDb } from '@/test/prismaMock';
+import { SanctionError, SanctionService } from '../sanctionService';
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+
+mockDb.configure('sanction', { defaults: sequence => ({ id: `s${sequence}`, revokedAt: null, caseId: null }) });
+
+const service = new SanctionService();
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('SanctionService', () => {
+    beforeEach(() => {
+        mockDb.reset();
+    });
+
+    it('should reject suspensions without a duration and bans with one', async () => {
+        await expect(service.issue({ userId: 'u1', type: 'SUSPENSION', reason: 'Spam', issuedBy: 'mod' }, now))
+            .rejects.toBeInstanceOf(SanctionError);
+        await expect(service.issue({ userId: 'u1', type: 'BAN', reason: 'Spam', issuedBy: 'mod', durationHours: 24 }, now))
+            .rejects.toBeInstanceOf(SanctionError);
+    });
+
+    it('should prefer a ban over a suspension for the access claim', async () => {
+        await service.issue({ userId: 'u1', type: 'SUSPENSION', reason: 'Spam', issuedBy: 'mod', durationHours: 24 }, now);
+        await service.issue({ userId: 'u1', type: 'BAN', reason: 'Scam', issuedBy: 'mod' }, now);
+
+        expect(await service.getAccessClaim('u1', now)).toEqual({ type: 'BAN', expiresAt: null });
+    });
+
+    it('should lift a suspension once it expires', async () => {
+        await service.issue({ userId: 'u1', type: 'SUSPENSION', reason: 'Spam', issuedBy: 'mod', durationHours: 24 }, now);
+
+        expect(await service.getAccessClaim('u1', now)).toEqual({ type: 'SUSPENSION', expiresAt: '2026-10-20T12:00:00.000Z' });
+        expect(await service.getAccessClaim('u1', new Date('2026-10-20T12:00:01Z'))).toBeNull();
+    });
+
+    it('should only block the restricted action', async () => {
+        await service.issue({ userId: 'u1', type: 'CANNOT_MESSAGE', reason: 'Harassment', issuedBy: 'mod' }, now);
+
+        await expect(service.assertAllowed('u1', 'message', now)).rejects.toThrow('You can\'t send messages right now');
+        await expect(service.assertAllowed('u1', 'like', now)).resolves.toBeUndefined();
+    });
+});
@@ -0,0 +1,117 @@
+/** @jest-environment node */
+import { mockDb } from '@/test/prismaMock';
+import { SavedSearchAlertService } from '../savedSearchAlertService';
+
+const mockTrigger = jest.fn();
+const mockSendEmail = jest.fn();
+const mockMatchByText = jest.fn();
+const mockExclusions = jest.fn();
+
+jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+jest.mock('@/lib/pusher', () => ({ pusherServer: { trigger: (...args: unknown[]) => mockTrigger(...args) } }));
+jest.mock('@/lib/mail', () => ({ sendSavedSearchAlertEmail: (...args: unknown[]) => mockSendEmail(...args) }));
+jest.mock('@/lib/memberSearch', () => ({ matchMembersByText: (...args: unknown[]) => mockMatchByText(...args) }));
+jest.mock('@/lib/discovery', () => ({ getDiscoveryExclusions: (...args: unknown[]) => mockExclusions(...args) }));
+
+const now = new Date('2026-10-20T12:00:00Z');
+const lastCheckedAt = new Date('2026-10-19T12:00:00Z');
+const hoursBefore = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+const member = (userId: string, created: Date, extra: Record<string, unknown> = {}) => ({
+    userId, name: userId, image: null, gender: 'female', dateOfBirth: new Date('1995-01-01'), country: 'UK', created, ...extra,
+});
+
+const search = (id: string, params: Record<string, string>, extra: Record<string, unknown> = {}) => ({
+    id, userId: 'alice', name: `Search ${id}`, params, alertsEnabled: true, lastCheckedAt, ...extra,
+});
+
+describe('SavedSearchAlertService', () => {
+    let service: SavedSearchAlertService;
+
+    beforeEach(() => {
+        mockDb.reset({
+            user: [{ id: 'alice', email: 'alice@test.com' }],
+            member: [
+                member('old', hoursBefore(48)),
+                member('new-uk', hoursBefore(2)),
+                member('new-fr', hoursBefore(3), { country: 'FR' }),
+                member('passed', hoursBefore(1)),
+                member('later', new Date(now.getTime() + 1000)),
+            ],
+        });
+        mockTrigger.mockReset();
+        mockSendEmail.mockReset();
+        mockMatchByText.mockReset().mockResolvedValue([]);
+        mockExclusions.mockReset().mockResolvedValue(['passed']);
+        service = new SavedSearchAlertService({ batchSize: 10 });
+    });
+
+    it('should alert the owner to matching members who joined since the last check', async () => {
+        mockDb.table('savedSearch').push(search('s1', { gender: 'female', country: 'UK', onlineOnly: 'true' }));
+
+        await expect(service.run(now)).resolves.toEqual({ checked: 1, notified: 1, failed: 0 });
+
+        expect(mockTrigger).toHaveBeenCalledWith('private-alice', 'search:matches', {
+            savedSearchId: 's1',
+            name: 'Search s1',
+            searchQuery: 'gender=female&country=UK',
+            totalCount: 1,
+            members: [expect.objectContaining({ userId: 'new-uk', name: 'new-uk', image: null })],
+        });
+        expect(mockSendEmail).toHaveBeenCalledWith('alice@test.com', 'Search s1', 'gender=female&country=UK', ['new-uk'], 1);
+        expect(mockExclusions).toHaveBeenCalledWith('alice', now);
+        expect(mockDb.table('savedSearch')[0].lastCheckedAt).toEqual(now);
+    });
+
+    it('should match the keyword only among members who joined since the last check', async () => {
+        mockDb.table('savedSearch').push(search('s1', { q: ' hiking ' }));
+        mockMatchByText.mockResolvedValue(['new-fr']);
+
+        await service.run(now);
+
+        expect(mockMatchByText).toHaveBeenCalledWith('hiking', { after: lastCheckedAt, until: now });
+        expect(mockTrigger.mock.calls[0][2]).toMatchObject({ totalCount: 1, members: [{ userId: 'new-fr' }] });
+    });
+
+    it('should move the baseline on without notifying when nobody new matches', async () => {
+        mockDb.table('savedSearch').push(search('s1', { country: 'DE' }));
+
+        await expect(service.run(now)).resolves.toEqual({ checked: 1, notified: 0, failed: 0 });
+
+        expect(mockTrigger).not.toHaveBeenCalled();
+        expect(mockSendEmail).not.toHaveBeenCalled();
+        expect(mockDb.table('savedSearch')[0].lastCheckedAt).toEqual(now);
+    });
+
+    it('should alert in the app once even when the email fails', async () => {
+        mockDb.table('savedSearch').push(search('s1', { country: 'UK' }));
+        mockSendEmail.mockRejectedValue(new Error('mail provider down'));
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        await expect(service.run(now)).resolves.toEqual({ checked: 1, notified: 1, failed: 0 });
+        await expect(service.run(now)).resolves.toEqual({ checked: 0, notified: 0, failed: 0 });
+
+        expect(mockTrigger).toHaveBeenCalledTimes(1);
+        expect(mockDb.table('savedSearch')[0].lastCheckedAt).toEqual(now);
+    });
+
+    it('should page through every search with alerts on and retry a failed one on the next run', async () => {
+        service = new SavedSearchAlertService({ batchSize: 1 });
+        mockDb.table('savedSearch').push(
+            search('s1', { country: 'UK' }),
+            search('s2', { country: 'FR' }, { userId: 'bob' }),
+            search('s3', { country: 'FR' }),
+            search('s4', { country: 'UK' }, { alertsEnabled: false }),
+        );
+        mockExclusions.mockImplementation(async (userId: string) => {
+            if (userId === 'bob') throw new Error('database unavailable');
+            return [];
+        });
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        await expect(service.run(now)).resolves.toEqual({ checked: 2, notified: 2, failed: 1 });
+
+        expect(mockTrigger.mock.calls.map(call => call[2].savedSearchId)).toEqual(['s1', 's3']);
+        expect(mockDb.table('savedSearch').map(s => s.lastCheckedAt)).toEqual([now, lastCheckedAt, now, lastCheckedAt]);
+    });
+});
@@ -0,0 +1,115 @@
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { normalizeText, scanText } from '@/lib/textModeration';
+import { TextModerationService } from '../textModerationService';
+import type { ContentModerationService } from '../contentModerationService';
+
+const service = new TextModerationService();
+
+describe('scanText', () => {
+    it('should see through leetspeak and stretched letters', () => {
+        expect(normalizeText('FUUUCK y0u')).toBe('fuck you');
+        expect(scanText('sh1t')).toEqual([expect.objectContaining({ category: 'profanity' })]);
+    });
+
+    it('should find phone numbers but not short digit runs', () => {
+        expect(scanText('call me +1 (415) 555-0132')).toEqual([
+            expect.objectContaining({ category: 'contact_info', evidence: ['+1 (415) 555-0132'] }),
+        ]);
+        expect(scanText('I have 2 dogs and I was born in 1994')).toEqual([]);
+    });
+
+    it('should find phone numbers written in common layouts', () => {
+        for (const number of ['07700 900123', '4155550132', '415.555.0132', '+44 7700 900 123', '06-1234 5678']) {
+            expect(scanText(`text me on ${number}`)).toEqual([
+                expect.objectContaining({ category: 'contact_info', evidence: [number] }),
+            ]);
+        }
+    });
+
+    it('should not take dates, times or amounts for phone numbers', () => {
+        for (const text of [
+            'see you 2024-05-01 10:30',
+            'booked for 12.05.2024 18:45',
+            'it starts 2024-05-01T10:30:00Z',
+            'free from 9 to 10.30, then 11:00-12:30',
+            'between 2024-05-01 and 2024-06-01',
+            'only 1,000,000,000 people',
+        ]) {
+            expect(scanText(text)).toEqual([]);
+        }
+    });
+
+    it('should add up several weak scam signals', () => {
+        const [match] = scanText('my uncle runs a trading platform, send me usdt and I will double your money');
+        expect(match.category).toBe('scam');
+        expect(match.confidence).toBeGreaterThan(0.95);
+    });
+});
+
+describe('TextModerationService', () => {
+    it('should let ordinary chat through', () => {
+        expect(service.moderate('Fancy a coffee on Saturday?', 'message')).toEqual(
+            expect.objectContaining({ action: 'allow', flags: [] })
+        );
+    });
+
+    it('should apply the most severe action among the matches', () => {
+        const result = service.moderate('what a shitty day, drop me a line at bob@example.com', 'message');
+
+        expect(result.matches.map(match => match.category).sort()).toEqual(['contact_info', 'profanity']);
+        expect(result.action).toBe('blur');
+    });
+
+    it('should warn the sender about contact details in messages', () => {
+        const result = service.moderate('add me on telegram', 'message');
+
+        expect(result.action).toBe('warn');
+        expect(result.notice).toMatch(/scammers/);
+        expect(result.flags).toEqual([expect.objectContaining({ type: 'contact_info' })]);
+    });
+
+    it('should block wallet secret requests', () => {
+        expect(service.moderate('send me your seed phrase to verify', 'message').action).toBe('block');
+    });
+
+    it('should map message-only actions to profile equivalents', () => {
+        const custom = new TextModerationService({
+            policies: {
+                message: { profanity: 'blur', contact_info: 'warn', link: 'warn', scam: 'block', harassment: 'review' },
+                profile: { profanity: 'blur', contact_info: 'warn', link: 'allow', scam: 'block', harassment: 'review' },
+            },
+        });
+
+        expect(custom.moderate('damn, this shit is good', 'profile').action).toBe('review');
+        expect(custom.moderate('insta: my insta is lina.k', 'profile').action).toBe('block');
+        expect(custom.moderate('see lina.com', 'profile').action).toBe('allow');
+    });
+
+    it('should screen prompt answers and point at the field that decided', () => {
+        const result = service.moderateProfile('Love hiking and live music', [
+            { answer: 'Sunday brunch' },
+            { answer: 'find me on snapchat, my snap is lina.k' },
+        ]);
+
+        expect(result.action).toBe('block');
+        expect(result.path).toEqual(['prompts', 1, 'answer']);
+        expect(service.moderateProfile('Love hiking', [{ answer: 'Sunday brunch' }])).toEqual(
+            expect.objectContaining({ action: 'allow', flags: [] })
+        );
+    });
+
+    it('should queue every message that was let through with a flag', async () => {
+        const flagForReview = jest.fn(async (_input: { contentId: string }) => ({ id: 'case-1' }));
+        const queued = new TextModerationService(undefined, { flagForReview } as unknown as ContentModerationService);
+
+        for (const text of ['add me on telegram', 'this is shit', 'Fancy a coffee?']) {
+            await queued.queueForReview('alice', 'message', text, queued.moderate(text, 'message'));
+        }
+
+        expect(flagForReview.mock.calls.map(([input]) => input.contentId)).toEqual([
+            'add me on telegram',
+            'this is shit',
+        ]);
+    });
+});
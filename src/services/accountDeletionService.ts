@@ -0,0 +1,356 @@
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { addDays } from 'date-fns';
+import type { AccountDeletion, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { cloudinary } from '@/lib/cloudinary';
+import { sendAccountDeletionReceiptEmail, sendAccountDeletionScheduledEmail } from '@/lib/mail';
+import { getAvatarAllowlistIdByOwner } from '@/lib/blockchain/contractQueries';
+import { ACCESS_SANCTIONS } from '@/lib/sanctions';
+import { AvatarService } from './avatarService';
+import { getSanctionService } from './sanctionService';
+
+interface DeletionConfig {
+  graceDays: number;
+}
+
+export interface AccountTeardownPlan {
+  profileObjectId: string;
+  avatarAllowlistId: string | null;
+  chatAllowlistIds: string[];
+}
+
+export interface ErasureReceipt {
+  receiptId: string;
+  userId: string;
+  requestedAt: string;
+  completedAt: string;
+  // Rows removed from our database, by category
+  removed: { category: string; count: number }[];
+  externalAssets: { system: string; deleted: number; failed: number }[];
+  onChain: {
+    teardownTxDigest: string | null;
+    revoked: string[];
+    // What stays on chain, and why
+    retained: string[];
+  };
+}
+
+export class AccountDeletionError extends Error {}
+
+/**
+ * Deletes accounts after a grace period during which the owner can undo.
+ *
+ * Everything we store is erased, including Cloudinary photos and avatar
+ * blobs. The on-chain UserProfile and Seal allowlists can only be torn down
+ * with the owner's signature, so that happens when the owner chooses to
+ * delete immediately (see buildAccountTeardownTransaction); the receipt
+ * records what was left on chain otherwise.
+ *
+ * Erasure also removes the member's sanctions, so a banned or suspended
+ * member can't delete their account: it would let them register again with
+ * a clean record.
+ */
+export class AccountDeletionService {
+  private config: DeletionConfig;
+
+  constructor(
+    private client: SuiClient,
+    config?: Partial<DeletionConfig>
+  ) {
+    this.config = {
+      graceDays: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14'),
+      ...config,
+    };
+  }
+
+  async getPending(userId: string): Promise<AccountDeletion | null> {
+    return prisma.accountDeletion.findFirst({ where: { userId, status: 'PENDING' } });
+  }
+
+  async request(userId: string, now: Date = new Date()): Promise<AccountDeletion> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+    if (!user) throw new AccountDeletionError('User not found');
+    await this.assertNotSanctioned(userId, now);
+
+    const deletion = await prisma.accountDeletion.upsert({
+      where: { userId },
+      create: { userId, email: user.email, scheduledFor: addDays(now, this.config.graceDays) },
+      update: {
+        email: user.email,
+        status: 'PENDING',
+        requestedAt: now,
+        scheduledFor: addDays(now, this.config.graceDays),
+        cancelledAt: null,
+      },
+    });
+
+    if (user.email) await sendAccountDeletionScheduledEmail(user.email, deletion.scheduledFor);
+
+    return deletion;
+  }
+
+  async cancel(userId: string, now: Date = new Date()): Promise<void> {
+    const { count } = await prisma.accountDeletion.updateMany({
+      where: { userId, status: 'PENDING' },
+      data: { status: 'CANCELLED', cancelledAt: now },
+    });
+    if (count === 0) throw new AccountDeletionError('No pending deletion to cancel');
+  }
+
+  /**
+   * The on-chain objects the owner has to sign away, or null when they never
+   * created an on-chain profile. Allowlists are looked up by owner address,
+   * so without a linked wallet there are none to find.
+   */
+  async getTeardownPlan(userId: string): Promise<AccountTeardownPlan | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { profileObjectId: true, walletAddress: true },
+    });
+    if (!user?.profileObjectId) return null;
+
+    const [avatarAllowlistId, chatRooms] = await Promise.all([
+      user.walletAddress ? getAvatarAllowlistIdByOwner(this.client, user.walletAddress) : null,
+      prisma.chatRoom.findMany({
+        where: {
+          OR: [{ participant1: userId }, { participant2: userId }],
+          chatAllowlistId: { not: null },
+        },
+        select: { chatAllowlistId: true },
+      }),
+    ]);
+
+    return {
+      profileObjectId: user.profileObjectId,
+      avatarAllowlistId,
+      chatAllowlistIds: chatRooms.map((room) => room.chatAllowlistId!),
+    };
+  }
+
+  /**
+   * Erases every pending deletion whose grace period is over
+   */
+  async processDue(now: Date = new Date()): Promise<{ erased: number; failed: number }> {
+    // Members sanctioned during the grace period wait until the sanction ends
+    const sanctioned = await getSanctionService().getSanctionedUserIds(ACCESS_SANCTIONS, now);
+    const due = await prisma.accountDeletion.findMany({
+      where: { status: 'PENDING', scheduledFor: { lte: now }, userId: { notIn: sanctioned } },
+      select: { userId: true },
+    });
+
+    let erased = 0;
+    let failed = 0;
+    for (const { userId } of due) {
+      try {
+        await this.erase(userId, null, now);
+        erased++;
+      } catch (error) {
+        // Stays PENDING, so the next run retries it
+        console.error(`[AccountDeletion] Failed to erase ${userId}:`, error);
+        failed++;
+      }
+    }
+
+    return { erased, failed };
+  }
+
+  /**
+   * Erases the account now. Pass the digest of the owner-signed teardown
+   * transaction when there was one.
+   */
+  async erase(userId: string, teardownTxDigest: string | null, now: Date = new Date()): Promise<ErasureReceipt> {
+    const deletion = await this.getPending(userId);
+    if (!deletion) throw new AccountDeletionError('Account deletion was not requested');
+    await this.assertNotSanctioned(userId, now);
+
+    const plan = await this.getTeardownPlan(userId);
+    if (teardownTxDigest) {
+      if (!plan) throw new AccountDeletionError('There is no on-chain profile to tear down');
+      await this.verifyTeardown(teardownTxDigest, plan.profileObjectId);
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: {
+        email: true,
+        member: { select: { photos: { select: { publicId: true } } } },
+        dataExports: { where: { publicId: { not: null } }, select: { publicId: true } },
+      },
+    });
+
+    const cloudinaryAssets = await this.destroyCloudinaryAssets(
+      'Cloudinary photos',
+      (user.member?.photos ?? []).flatMap((photo) => (photo.publicId ? [photo.publicId] : []))
+    );
+    const exportAssets = await this.destroyCloudinaryAssets(
+      'Data export archives',
+      user.dataExports.map((dataExport) => dataExport.publicId!),
+      { resource_type: 'raw', type: 'private' }
+    );
+    const avatarAssets = await this.deleteAvatar(userId);
+    const removed = await this.deleteRows(userId, user.email);
+
+    const receipt: ErasureReceipt = {
+      receiptId: deletion.id,
+      userId,
+      requestedAt: deletion.requestedAt.toISOString(),
+      completedAt: now.toISOString(),
+      removed,
+      externalAssets: [cloudinaryAssets, exportAssets, avatarAssets],
+      onChain: this.describeOnChain(plan, teardownTxDigest),
+    };
+
+    await prisma.accountDeletion.update({
+      where: { id: deletion.id },
+      data: {
+        status: 'COMPLETED',
+        completedAt: now,
+        chainTxDigest: teardownTxDigest,
+        receipt: receipt as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    if (deletion.email) {
+      await sendAccountDeletionReceiptEmail(deletion.email, receipt);
+      // The address was only kept to deliver the receipt
+      await prisma.accountDeletion.update({ where: { id: deletion.id }, data: { email: null } });
+    }
+
+    return receipt;
+  }
+
+  private async assertNotSanctioned(userId: string, now: Date) {
+    const sanction = await getSanctionService().getAccessSanction(userId, now);
+    if (!sanction) return;
+
+    throw new AccountDeletionError(
+      sanction.type === 'BAN'
+        ? 'Banned accounts can\'t be deleted'
+        : 'Your account can\'t be deleted while it is suspended'
+    );
+  }
+
+  private async verifyTeardown(digest: string, profileObjectId: string) {
+    const tx = await this.client.waitForTransaction({ digest, options: { showEffects: true } });
+
+    if (tx.effects?.status.status !== 'success') {
+      throw new AccountDeletionError(`Teardown transaction ${digest} failed`);
+    }
+    if (!tx.effects.deleted?.some((object) => object.objectId === profileObjectId)) {
+      throw new AccountDeletionError(`Teardown transaction ${digest} did not delete the profile`);
+    }
+  }
+
+  private async destroyCloudinaryAssets(system: string, publicIds: string[], options: Record<string, string> = {}) {
+    const results = await Promise.allSettled(
+      publicIds.map((publicId) => cloudinary.v2.uploader.destroy(publicId, options))
+    );
+    const deleted = results.filter((result) => result.status === 'fulfilled').length;
+    return { system, deleted, failed: results.length - deleted };
+  }
+
+  private async deleteAvatar(userId: string) {
+    try {
+      await new AvatarService().deleteAvatar(userId);
+      return { system: 'Avatar storage', deleted: 1, failed: 0 };
+    } catch (error) {
+      console.error(`[AccountDeletion] Avatar cleanup failed for ${userId}:`, error);
+      return { system: 'Avatar storage', deleted: 0, failed: 1 };
+    }
+  }
+
+  /**
+   * Deletes the User and everything that references it. Member, Photo,
+   * ProfilePrompt, Like, Swipe, Account, DiscoverySession and SavedSearch
+   * cascade from User; the rest has no foreign key and is removed by hand.
+   */
+  private async deleteRows(userId: string, email: string | null) {
+    const participantOf = { OR: [{ participant1: userId }, { participant2: userId }] };
+    const messageOf = { OR: [{ senderId: userId }, { recipientId: userId }] };
+
+    return prisma.$transaction(async (tx) => {
+      const member = await tx.member.findUnique({
+        where: { userId },
+        select: {
+          _count: { select: { photos: true, prompts: true, sourceLikes: true, targetLikes: true, sourceSwipes: true, targetSwipes: true } },
+        },
+      });
+      const [savedSearches, discoverySessions] = await Promise.all([
+        tx.savedSearch.count({ where: { userId } }),
+        tx.discoverySession.count({ where: { userId } }),
+      ]);
+
+      const messages = await tx.message.deleteMany({ where: messageOf });
+      const chatRooms = await tx.chatRoom.deleteMany({ where: participantOf });
+      const uploadMetrics = await tx.avatarUploadMetric.deleteMany({ where: { userId } });
+      const accessMetrics = await tx.avatarAccessMetric.deleteMany({
+        where: { OR: [{ targetUserId: userId }, { viewerUserId: userId }] },
+      });
+      const engagementMetrics = await tx.avatarEngagementMetric.deleteMany({ where: { userId } });
+      if (email) await tx.token.deleteMany({ where: { email } });
+
+      // Chain mirrors keep the public record but lose the link to the account
+      await tx.gift.updateMany({ where: { senderUserId: userId }, data: { senderUserId: null } });
+      await tx.gift.updateMany({ where: { recipientUserId: userId }, data: { recipientUserId: null } });
+      await tx.subscription.updateMany({ where: { userId }, data: { userId: null } });
+      await tx.onChainMedia.updateMany({ where: { userId }, data: { userId: null } });
+
+      await tx.user.delete({ where: { id: userId } });
+
+      const counts = member?._count;
+      return [
+        { category: 'Account and profile', count: 1 },
+        { category: 'Photos', count: counts?.photos ?? 0 },
+        { category: 'Profile prompts', count: counts?.prompts ?? 0 },
+        { category: 'Likes', count: (counts?.sourceLikes ?? 0) + (counts?.targetLikes ?? 0) },
+        { category: 'Swipes', count: (counts?.sourceSwipes ?? 0) + (counts?.targetSwipes ?? 0) },
+        { category: 'Messages', count: messages.count },
+        { category: 'Chat rooms', count: chatRooms.count },
+        { category: 'Saved searches', count: savedSearches },
+        { category: 'Discovery sessions', count: discoverySessions },
+        { category: 'Avatar analytics', count: uploadMetrics.count + accessMetrics.count + engagementMetrics.count },
+      ];
+    });
+  }
+
+  private describeOnChain(plan: AccountTeardownPlan | null, digest: string | null): ErasureReceipt['onChain'] {
+    const retained = [
+      'Past transactions and events (profile, likes, matches, swipes, gifts and message metadata) stay in the public Sui history and cannot be erased',
+      'Walrus blobs cannot be deleted; encrypted avatars stay unreadable once their allowlist is revoked',
+    ];
+
+    if (!plan) return { teardownTxDigest: null, revoked: [], retained };
+
+    if (!digest) {
+      return {
+        teardownTxDigest: null,
+        revoked: [],
+        retained: [
+          `UserProfile ${plan.profileObjectId} and its Seal allowlists: removing them needs the owner's signature`,
+          ...retained,
+        ],
+      };
+    }
+
+    return {
+      teardownTxDigest: digest,
+      revoked: [
+        `UserProfile ${plan.profileObjectId} deleted`,
+        ...plan.chatAllowlistIds.map((id) => `Chat allowlist ${id} deactivated`),
+        ...(plan.avatarAllowlistId ? [`Avatar allowlist ${plan.avatarAllowlistId} deactivated`] : []),
+      ],
+      retained,
+    };
+  }
+}
+
+// Singleton instance
+let accountDeletionService: AccountDeletionService | null = null;
+
+export function getAccountDeletionService(): AccountDeletionService {
+  if (!accountDeletionService) {
+    const network = (process.env.NEXT_PUBLIC_SUI_NETWORK || 'testnet') as 'testnet' | 'mainnet';
+    accountDeletionService = new AccountDeletionService(new SuiClient({ url: getFullnodeUrl(network) }));
+  }
+  return accountDeletionService;
+}
@@ -0,0 +1,156 @@
+import { getFullnodeUrl, SuiClient } from '@mysten/sui/client';
+import type { Signer } from '@mysten/sui/cryptography';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction } from '@mysten/sui/transactions';
+import { prisma } from '@/lib/prisma';
+import { CONTRACT_IDS } from '@/lib/blockchain/contractQueries';
+
+export interface AllowlistCleanupResult {
+  checked: number;
+  expired: number;
+  transactionDigest: string | null;
+}
+
+export class AllowlistCleanupError extends Error {}
+
+interface AllowlistCleanupConfig {
+  // Allowlists deactivated per transaction; the rest wait for the next run
+  maxPerRun: number;
+  packageId: string;
+}
+
+// seal_policies allowlist type -> its cleanup_expired_* function (timelocks never expire)
+const CLEANUP_FUNCTIONS: Record<number, string> = {
+  0x01: 'cleanup_expired_chat_allowlist',
+  0x02: 'cleanup_expired_subscription_allowlist',
+  0x03: 'cleanup_expired_match_allowlist',
+  0x05: 'cleanup_expired_custom_allowlist',
+  0x06: 'cleanup_expired_avatar_allowlist'
+};
+
+// sui_multiGetObjects limit
+const OBJECTS_PER_REQUEST = 50;
+
+/**
+ * Deactivates Seal allowlists whose expiry has passed. The contract only
+ * flips `active` when someone calls cleanup_expired_*, so until then an
+ * expired allowlist keeps granting decryption. Allowlists are found through
+ * the indexed seal_policies events and the calls are signed by the server
+ * key (SUI_PRIVATE_KEY).
+ */
+export class AllowlistCleanupService {
+  private config: AllowlistCleanupConfig;
+
+  constructor(
+    private client: SuiClient,
+    private signer: Signer | null,
+    config?: Partial<AllowlistCleanupConfig>
+  ) {
+    this.config = {
+      maxPerRun: 50,
+      packageId: CONTRACT_IDS.PACKAGE_ID,
+      ...config
+    };
+  }
+
+  async cleanupExpired(now = new Date()): Promise<AllowlistCleanupResult> {
+    const expired: { allowlistId: string; cleanup: string }[] = [];
+    let checked = 0;
+    let after: string | null = null;
+
+    while (expired.length < this.config.maxPerRun) {
+      const page = await this.findOpenAllowlists(after, OBJECTS_PER_REQUEST);
+      checked += page.length;
+
+      const batch = page.filter(candidate => CLEANUP_FUNCTIONS[candidate.allowlistType]);
+      if (batch.length) {
+        const objects = await this.client.multiGetObjects({
+          ids: batch.map(candidate => candidate.allowlistId),
+          options: { showContent: true }
+        });
+
+        objects.forEach((object, index) => {
+          const content = object.data?.content;
+          if (content?.dataType !== 'moveObject') return;
+          const fields = content.fields as Record<string, any>;
+          if (fields.active && fields.expires_at != null && Number(fields.expires_at) < now.getTime()) {
+            expired.push({ allowlistId: batch[index].allowlistId, cleanup: CLEANUP_FUNCTIONS[batch[index].allowlistType] });
+          }
+        });
+      }
+
+      if (page.length < OBJECTS_PER_REQUEST) break;
+      after = page[page.length - 1].eventId;
+    }
+
+    const toClean = expired.slice(0, this.config.maxPerRun);
+    if (!toClean.length) {
+      return { checked, expired: 0, transactionDigest: null };
+    }
+    if (!this.signer) {
+      throw new AllowlistCleanupError(`${toClean.length} expired allowlists need SUI_PRIVATE_KEY to be cleaned up`);
+    }
+
+    const tx = new Transaction();
+    for (const { allowlistId, cleanup } of toClean) {
+      tx.moveCall({
+        target: `${this.config.packageId}::seal_policies::${cleanup}`,
+        arguments: [tx.object(allowlistId), tx.object('0x6')]
+      });
+    }
+
+    const result = await this.client.signAndExecuteTransaction({
+      signer: this.signer,
+      transaction: tx,
+      options: { showEffects: true }
+    });
+    if (result.effects?.status.status !== 'success') {
+      throw new AllowlistCleanupError(`Cleanup transaction ${result.digest} failed: ${result.effects?.status.error ?? 'unknown error'}`);
+    }
+
+    return { checked, expired: toClean.length, transactionDigest: result.digest };
+  }
+
+  /**
+   * A page of the allowlists that were created and haven't expired or been
+   * deactivated since, going by the indexed events, in event order after
+   * the creation event `after`
+   */
+  private async findOpenAllowlists(
+    after: string | null,
+    limit: number
+  ): Promise<{ eventId: string; allowlistId: string; allowlistType: number }[]> {
+    const rows = await prisma.$queryRaw<{ eventId: string; allowlistId: string; allowlistType: string }[]>`
+      SELECT created."id" AS "eventId",
+             created."payload"->>'allowlist_id' AS "allowlistId",
+             created."payload"->>'allowlist_type' AS "allowlistType"
+      FROM "ChainEvent" created
+      WHERE created."module" = 'seal_policies'
+        AND created."eventType" = 'AllowlistCreated'
+        AND created."id" > ${after ?? ''}
+        AND NOT EXISTS (
+          SELECT 1 FROM "ChainEvent" closed
+          WHERE closed."module" = 'seal_policies'
+            AND closed."eventType" IN ('AllowlistExpired', 'AllowlistDeactivated')
+            AND closed."payload"->>'allowlist_id' = created."payload"->>'allowlist_id'
+        )
+      ORDER BY created."id"
+      LIMIT ${limit}
+    `;
+
+    return rows.map(row => ({ ...row, allowlistType: Number(row.allowlistType) }));
+  }
+}
+
+let allowlistCleanupService: AllowlistCleanupService | null = null;
+
+export function getAllowlistCleanupService(): AllowlistCleanupService {
+  if (!allowlistCleanupService) {
+    const network = (process.env.SUI_NETWORK as 'mainnet' | 'testnet' | 'devnet') || 'testnet';
+    allowlistCleanupService = new AllowlistCleanupService(
+      new SuiClient({ url: getFullnodeUrl(network) }),
+      process.env.SUI_PRIVATE_KEY ? Ed25519Keypair.fromSecretKey(process.env.SUI_PRIVATE_KEY) : null
+    );
+  }
+  return allowlistCleanupService;
+}
@@ -0,0 +1,123 @@
+import type { AuditLog, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+export interface AuditLogFilter {
+  actorId?: string;
+  // Exact action, or an area prefix such as "photo."
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditLogPage {
+  entries: AuditLog[];
+  nextCursor: string | null;
+}
+
+const CSV_COLUMNS: (keyof AuditLog)[] = [
+  'createdAt', 'actorId', 'actorRole', 'action', 'targetType', 'targetId', 'before', 'after', 'ip', 'userAgent', 'id',
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Keep spreadsheet apps from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const FILTER_KEYS = ['actorId', 'action', 'targetType', 'targetId'] as const;
+
+/**
+ * Reads a filter from query string values; unknown keys and bad dates are
+ * ignored
+ */
+export function parseAuditFilter(params: Record<string, string | undefined>): AuditLogFilter {
+  const filter: AuditLogFilter = {};
+  for (const key of FILTER_KEYS) {
+    const value = params[key]?.trim();
+    if (value) filter[key] = value;
+  }
+  for (const key of ['from', 'to'] as const) {
+    const value = params[key];
+    const date = value ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) continue;
+    // A bare date as the upper bound includes that whole day
+    filter[key] = key === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value!) ? new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1) : date;
+  }
+  return filter;
+}
+
+export function toAuditCsv(entries: AuditLog[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => csvCell(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+/**
+ * Reads the audit log for the admin area. Entries are written by
+ * recordAudit in lib/audit.ts and never change afterwards.
+ */
+export class AuditLogService {
+  constructor(private pageSize = 50, private exportLimit = 10000) {}
+
+  private where(filter: AuditLogFilter): Prisma.AuditLogWhereInput {
+    return {
+      ...(filter.actorId ? { actorId: filter.actorId } : {}),
+      ...(filter.action
+        ? { action: filter.action.endsWith('.') ? { startsWith: filter.action } : filter.action }
+        : {}),
+      ...(filter.targetType ? { targetType: filter.targetType } : {}),
+      ...(filter.targetId ? { targetId: filter.targetId } : {}),
+      ...(filter.from || filter.to
+        ? { createdAt: { ...(filter.from ? { gte: filter.from } : {}), ...(filter.to ? { lte: filter.to } : {}) } }
+        : {}),
+    };
+  }
+
+  /**
+   * Newest first, a page at a time
+   */
+  async list(filter: AuditLogFilter = {}, cursor?: string): Promise<AuditLogPage> {
+    const entries = await prisma.auditLog.findMany({
+      where: this.where(filter),
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: this.pageSize + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = entries.length > this.pageSize;
+    const page = hasMore ? entries.slice(0, this.pageSize) : entries;
+    return { entries: page, nextCursor: hasMore ? page[page.length - 1].id : null };
+  }
+
+  /**
+   * The distinct actions and target types, for the filter dropdowns
+   */
+  async getFacets(): Promise<{ actions: string[]; targetTypes: string[] }> {
+    const [actions, targetTypes] = await Promise.all([
+      prisma.auditLog.findMany({ distinct: ['action'], select: { action: true }, orderBy: { action: 'asc' } }),
+      prisma.auditLog.findMany({ distinct: ['targetType'], select: { targetType: true }, orderBy: { targetType: 'asc' } }),
+    ]);
+    return { actions: actions.map(a => a.action), targetTypes: targetTypes.map(t => t.targetType) };
+  }
+
+  async exportCsv(filter: AuditLogFilter = {}): Promise<string> {
+    const entries = await prisma.auditLog.findMany({
+      where: this.where(filter),
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: this.exportLimit,
+    });
+    return toAuditCsv(entries);
+  }
+}
+
+let auditLogService: AuditLogService | null = null;
+
+export function getAuditLogService(): AuditLogService {
+  if (!auditLogService) {
+    auditLogService = new AuditLogService();
+  }
+  return auditLogService;
+}
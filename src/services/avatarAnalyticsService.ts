@@ -1,3 +1,4 @@
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 
 interface AvatarUploadMetrics {
@@ -254,6 +255,8 @@ export class AvatarAnalyticsService {
   ): Promise<{
     uploadErrorRate: number;
     accessErrorRate: number;
+    totalUploads: number;
+    totalAccesses: number;
     topUploadErrors: { code: string; count: number; message: string }[];
     topAccessErrors: { code: string; count: number }[];
     errorTrends: { date: string; uploadErrors: number; accessErrors: number }[];
@@ -339,6 +342,8 @@ export class AvatarAnalyticsService {
       return {
         uploadErrorRate,
         accessErrorRate,
+        totalUploads,
+        totalAccesses,
         topUploadErrors,
         topAccessErrors,
         errorTrends
@@ -438,7 +443,7 @@ export class AvatarAnalyticsService {
   /**
    * Cleans up old metrics based on retention policy
    */
-  async cleanupOldMetrics(): Promise<{
+  async cleanupOldMetrics(db: Prisma.TransactionClient = prisma): Promise<{
     uploadMetricsDeleted: number;
     accessMetricsDeleted: number;
     engagementMetricsDeleted: number;
@@ -448,13 +453,13 @@ export class AvatarAnalyticsService {
       cutoffDate.setDate(cutoffDate.getDate() - this.config.retentionDays);
 
       const [uploadResult, accessResult, engagementResult] = await Promise.all([
-        prisma.avatarUploadMetric.deleteMany({
+        db.avatarUploadMetric.deleteMany({
           where: { timestamp: { lt: cutoffDate } }
         }),
-        prisma.avatarAccessMetric.deleteMany({
+        db.avatarAccessMetric.deleteMany({
           where: { timestamp: { lt: cutoffDate } }
         }),
-        prisma.avatarEngagementMetric.deleteMany({
+        db.avatarEngagementMetric.deleteMany({
           where: { timestamp: { lt: cutoffDate } }
         })
       ]);
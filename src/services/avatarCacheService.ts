@@ -1,4 +1,5 @@
 import type { AvatarResult } from '@/lib/types/avatar';
+import { getCacheStore, type CacheStore } from '@/lib/cacheStore';
 
 interface CacheConfig {
   defaultTtl: number;
@@ -8,11 +9,6 @@ interface CacheConfig {
   maxSize: number;
 }
 
-interface CachedAvatarData {
-  result: AvatarResult;
-  expiresAt: number;
-}
-
 interface AvatarMetadata {
   publicAvatarBlobId?: string;
   privateAvatarBlobId?: string;
@@ -21,25 +17,21 @@ interface AvatarMetadata {
   avatarSettings?: any;
 }
 
-interface CachedMetadata {
-  metadata: AvatarMetadata;
-  expiresAt: number;
-}
-
 interface CacheStats {
+  driver: 'memory' | 'redis';
   hits: number;
   misses: number;
   hitRate: number;
   totalKeys: number;
+  maxSize: number;
   memoryUsage: string;
 }
 
 export class AvatarCacheService {
-  private cache = new Map<string, CachedAvatarData | CachedMetadata>();
   private config: CacheConfig;
-  private stats = { hits: 0, misses: 0 };
+  private store: CacheStore;
 
-  constructor(config?: Partial<CacheConfig>) {
+  constructor(config?: Partial<CacheConfig>, store?: CacheStore) {
     this.config = {
       defaultTtl: 3600, // 1 hour
       publicAvatarTtl: 86400, // 24 hours (public avatars change less frequently)
@@ -48,9 +40,8 @@ export class AvatarCacheService {
       maxSize: 1000, // Maximum number of cached items
       ...config
     };
-
-    // Clean up expired entries every 5 minutes
-    setInterval(() => this.cleanupExpired(), 5 * 60 * 1000);
+    // Shared through Redis when REDIS_URL is set, otherwise per process
+    this.store = store ?? getCacheStore('avatar', { maxSize: this.config.maxSize });
   }
 
   /**
@@ -61,26 +52,9 @@ export class AvatarCacheService {
     viewerUserId?: string
   ): Promise<AvatarResult | null> {
     try {
-      const cacheKey = this.getAvatarCacheKey(targetUserId, viewerUserId);
-      const cached = this.cache.get(cacheKey) as CachedAvatarData | undefined;
-      
-      if (!cached) {
-        this.stats.misses++;
-        return null;
-      }
-
-      // Check if cache has expired
-      if (Date.now() > cached.expiresAt) {
-        this.cache.delete(cacheKey);
-        this.stats.misses++;
-        return null;
-      }
-
-      this.stats.hits++;
-      return cached.result;
+      return await this.store.get<AvatarResult>(this.getAvatarCacheKey(targetUserId, viewerUserId));
     } catch (error) {
       console.error('Failed to get cached avatar:', error);
-      this.stats.misses++;
       return null;
     }
   }
@@ -95,20 +69,11 @@ export class AvatarCacheService {
     customTtl?: number
   ): Promise<void> {
     try {
-      // Check cache size limit
-      if (this.cache.size >= this.config.maxSize) {
-        this.evictOldest();
-      }
-
-      const cacheKey = this.getAvatarCacheKey(targetUserId, viewerUserId);
       const ttl = customTtl || (result.type === 'public' ? this.config.publicAvatarTtl : this.config.privateAvatarTtl);
-      
-      const cachedData: CachedAvatarData = {
-        result,
-        expiresAt: Date.now() + (ttl * 1000)
-      };
-
-      this.cache.set(cacheKey, cachedData);
+      await this.store.set(this.getAvatarCacheKey(targetUserId, viewerUserId), result, {
+        ttlSeconds: ttl,
+        tags: [this.userTag(targetUserId), this.pairTag(targetUserId, viewerUserId)]
+      });
     } catch (error) {
       console.error('Failed to cache avatar:', error);
     }
@@ -119,26 +84,9 @@ export class AvatarCacheService {
    */
   async getCachedAvatarMetadata(userId: string): Promise<AvatarMetadata | null> {
     try {
-      const cacheKey = this.getMetadataCacheKey(userId);
-      const cached = this.cache.get(cacheKey) as CachedMetadata | undefined;
-      
-      if (!cached) {
-        this.stats.misses++;
-        return null;
-      }
-
-      // Check if cache has expired
-      if (Date.now() > cached.expiresAt) {
-        this.cache.delete(cacheKey);
-        this.stats.misses++;
-        return null;
-      }
-
-      this.stats.hits++;
-      return cached.metadata;
+      return await this.store.get<AvatarMetadata>(this.getMetadataCacheKey(userId));
     } catch (error) {
       console.error('Failed to get cached metadata:', error);
-      this.stats.misses++;
       return null;
     }
   }
@@ -148,37 +96,21 @@ export class AvatarCacheService {
    */
   async cacheAvatarMetadata(userId: string, metadata: AvatarMetadata): Promise<void> {
     try {
-      // Check cache size limit
-      if (this.cache.size >= this.config.maxSize) {
-        this.evictOldest();
-      }
-
-      const cacheKey = this.getMetadataCacheKey(userId);
-      const cachedData: CachedMetadata = {
-        metadata,
-        expiresAt: Date.now() + (this.config.metadataTtl * 1000)
-      };
-
-      this.cache.set(cacheKey, cachedData);
+      await this.store.set(this.getMetadataCacheKey(userId), metadata, {
+        ttlSeconds: this.config.metadataTtl,
+        tags: [this.userTag(userId)]
+      });
     } catch (error) {
       console.error('Failed to cache metadata:', error);
     }
   }
 
   /**
-   * Invalidates all cached data for a user
+   * Invalidates all cached data for a user, including what each viewer was shown
    */
   async invalidateUserAvatar(userId: string): Promise<void> {
     try {
-      const keysToDelete: string[] = [];
-      
-      for (const key of this.cache.keys()) {
-        if (key.includes(`user:${userId}`)) {
-          keysToDelete.push(key);
-        }
-      }
-
-      keysToDelete.forEach(key => this.cache.delete(key));
+      await this.store.invalidateTag(this.userTag(userId));
     } catch (error) {
       console.error('Failed to invalidate user avatar cache:', error);
     }
@@ -189,8 +121,7 @@ export class AvatarCacheService {
    */
   async invalidateAvatarAccess(targetUserId: string, viewerUserId: string): Promise<void> {
     try {
-      const cacheKey = this.getAvatarCacheKey(targetUserId, viewerUserId);
-      this.cache.delete(cacheKey);
+      await this.store.invalidateTag(this.pairTag(targetUserId, viewerUserId));
     } catch (error) {
       console.error('Failed to invalidate avatar access cache:', error);
     }
@@ -230,15 +161,16 @@ export class AvatarCacheService {
    * Gets cache performance statistics
    */
   async getCacheStats(): Promise<CacheStats> {
-    const totalRequests = this.stats.hits + this.stats.misses;
-    const hitRate = totalRequests > 0 ? (this.stats.hits / totalRequests) * 100 : 0;
+    const stats = await this.store.getStats();
 
     return {
-      hits: this.stats.hits,
-      misses: this.stats.misses,
-      hitRate: Math.round(hitRate * 100) / 100,
-      totalKeys: this.cache.size,
-      memoryUsage: `${this.cache.size} items`
+      driver: stats.driver,
+      hits: stats.hits,
+      misses: stats.misses,
+      hitRate: stats.hitRate,
+      totalKeys: stats.totalKeys,
+      maxSize: stats.maxSize,
+      memoryUsage: formatBytes(stats.memoryBytes)
     };
   }
 
@@ -247,8 +179,7 @@ export class AvatarCacheService {
    */
   async clearAvatarCache(): Promise<void> {
     try {
-      this.cache.clear();
-      this.stats = { hits: 0, misses: 0 };
+      await this.store.clear();
     } catch (error) {
       console.error('Failed to clear avatar cache:', error);
       throw error;
@@ -256,12 +187,9 @@ export class AvatarCacheService {
   }
 
   /**
-   * Closes any connections (no-op for in-memory cache)
+   * Closes any connections (no-op: the Redis connection is shared with other caches)
    */
-  async disconnect(): Promise<void> {
-    // No-op for in-memory cache
-    console.log('In-memory cache disconnected');
-  }
+  async disconnect(): Promise<void> {}
 
   /**
    * Generates cache key for avatar data
@@ -277,41 +205,21 @@ export class AvatarCacheService {
     return `metadata:user:${userId}`;
   }
 
-  /**
-   * Cleans up expired cache entries
-   */
-  private cleanupExpired(): void {
-    const now = Date.now();
-    const keysToDelete: string[] = [];
-
-    for (const [key, value] of this.cache.entries()) {
-      if (now > value.expiresAt) {
-        keysToDelete.push(key);
-      }
-    }
-
-    keysToDelete.forEach(key => this.cache.delete(key));
-    
-    if (keysToDelete.length > 0) {
-      console.log(`Cleaned up ${keysToDelete.length} expired cache entries`);
-    }
+  private userTag(userId: string): string {
+    return `user:${userId}`;
   }
 
-  /**
-   * Evicts oldest cache entries when size limit is reached
-   */
-  private evictOldest(): void {
-    const entries = Array.from(this.cache.entries());
-    // Sort by expiration time and remove oldest 10%
-    entries.sort((a, b) => a[1].expiresAt - b[1].expiresAt);
-    
-    const toRemove = Math.ceil(entries.length * 0.1);
-    for (let i = 0; i < toRemove; i++) {
-      this.cache.delete(entries[i][0]);
-    }
+  private pairTag(targetUserId: string, viewerUserId?: string): string {
+    return `pair:${targetUserId}:${viewerUserId || 'anonymous'}`;
   }
 }
 
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 // Singleton instance
 let avatarCacheService: AvatarCacheService | null = null;
 
@@ -7,7 +7,10 @@ import { SealPolicyManager } from './sealPolicyManager';
 import { getAvatarCacheService } from './avatarCacheService';
 import { getAvatarCdnService } from './avatarCdnService';
 import { getAvatarAnalyticsService } from './avatarAnalyticsService';
+import { ContentModerationService, type ModerationResult } from './contentModerationService';
+import { duplicateClassifier } from '@/lib/imageModeration';
 import { AvatarContractService } from '@/lib/contracts/avatarContract';
+import { SkipDeliveryError } from '@/lib/events/eventBus';
 import { CONTRACT_CONFIG } from '@/lib/contracts/config';
 import type {
   AvatarUploadResult,
@@ -25,6 +28,9 @@ import {
   getPlaceholderAvatarUrl
 } from '@/lib/utils/avatarUtils';
 
+// Avatar owners checked per query by deleteExpiredAvatars
+const EXPIRY_PAGE_SIZE = 500;
+
 export class AvatarService {
   private storageManager = getStorageManager();
   private faceSwapService = new FaceSwapIntegrationService();
@@ -34,6 +40,7 @@ export class AvatarService {
   private cacheService: ReturnType<typeof getAvatarCacheService> | null = null;
   private cdnService = getAvatarCdnService();
   private analyticsService = getAvatarAnalyticsService();
+  private moderationService = new ContentModerationService();
   private contractService: AvatarContractService | null = null;
 
   private getCacheService() {
@@ -92,6 +99,8 @@ export class AvatarService {
         throw new Error('User not found');
       }
 
+      const screened = await this.screenAvatar(privateAvatarFile, userId);
+
       // ✅ NO FACE-SWAP NEEDED - files are already processed on client
       console.log('✅ Using pre-processed files - NO server-side face-swap needed');
 
@@ -129,6 +138,8 @@ export class AvatarService {
         sealPolicyId = `temp_policy_${userId}_${Date.now()}`;
       }
 
+      await this.recordAvatarModeration(userId, user.publicAvatarBlobId, publicUploadResult.id, screened);
+
       // Update user record in database
       const avatarSettings = serializeAvatarSettings(settings || {});
 
@@ -266,6 +277,8 @@ export class AvatarService {
         throw new Error('User not found');
       }
 
+      const screened = await this.screenAvatar(file, userId);
+
       // Generate unique filenames for both versions
       const publicFilename = generateAvatarFilename(userId, 'public');
       const privateFilename = generateAvatarFilename(userId, 'private');
@@ -319,6 +332,8 @@ export class AvatarService {
         // In production, this should create a real Seal policy
       }
 
+      await this.recordAvatarModeration(userId, user.publicAvatarBlobId, publicUploadResult.id, screened);
+
       // Step 4: Update user record in database
       const avatarSettings = serializeAvatarSettings(settings || {});
 
@@ -416,6 +431,57 @@ export class AvatarService {
     }
   }
 
+  /**
+   * Screens the original upload before anything is stored. Clearly unsafe
+   * images are refused; borderline ones are stored but stay hidden until a
+   * moderator clears them.
+   */
+  private async screenAvatar(file: File, userId: string): Promise<{ data: Buffer; moderation: ModerationResult }> {
+    const data = Buffer.from(await file.arrayBuffer());
+    const moderation = await this.moderationService.moderateAvatarImage(data, userId);
+    if (!moderation.approved && !moderation.requiresManualReview) {
+      throw new Error(moderation.reason || 'Avatar rejected by moderation');
+    }
+    return { data, moderation };
+  }
+
+  private async recordAvatarModeration(
+    userId: string,
+    previousBlobId: string | null,
+    publicBlobId: string,
+    screened: { data: Buffer; moderation: ModerationResult }
+  ): Promise<void> {
+    if (screened.moderation.requiresManualReview) {
+      await this.moderationService.flagForReview({
+        targetUserId: userId,
+        contentType: 'AVATAR',
+        contentId: publicBlobId,
+        flags: screened.moderation.flags,
+        note: screened.moderation.reason,
+        hide: true
+      });
+    }
+
+    try {
+      if (previousBlobId) await duplicateClassifier.forget('AVATAR', previousBlobId);
+      await duplicateClassifier.record(userId, 'AVATAR', publicBlobId, screened.data);
+    } catch (error) {
+      console.warn('Failed to record avatar fingerprint:', error);
+    }
+  }
+
+  private async isAvatarHidden(
+    targetUserId: string,
+    avatar: { publicAvatarBlobId?: string; privateAvatarBlobId?: string }
+  ): Promise<boolean> {
+    const blobIds = [avatar.publicAvatarBlobId, avatar.privateAvatarBlobId].filter((id): id is string => !!id);
+    // Reports are tied to a blob, so a replaced avatar starts visible again
+    const hiddenCases = await prisma.moderationCase.count({
+      where: { targetUserId, contentType: 'AVATAR', contentId: { in: blobIds }, contentHidden: true }
+    });
+    return hiddenCases > 0;
+  }
+
   /**
    * Gets the appropriate avatar for a user based on match status and permissions
    */
@@ -524,6 +590,19 @@ export class AvatarService {
         return result;
       }
 
+      // Avatars hidden after reports are only shown to their owner until reviewed
+      if (viewerUserId !== targetUserId && await this.isAvatarHidden(targetUserId, targetUser)) {
+        const result = {
+          url: getPlaceholderAvatarUrl(targetUserId),
+          type: 'placeholder' as const,
+          isEncrypted: false,
+          hasAccess: false,
+          error: 'Avatar is hidden pending review'
+        };
+        await this.getCacheService().cacheAvatar(targetUserId, viewerUserId, result);
+        return result;
+      }
+
       // If viewer is the same as target, always show private avatar
       if (viewerUserId === targetUserId) {
         if (targetUser.privateAvatarBlobId) {
@@ -748,7 +827,8 @@ export class AvatarService {
       });
 
       if (!matchUser?.walletAddress) {
-        throw new Error('Match user wallet address not found');
+        // Nothing to grant or revoke until they link a wallet; the access repair job catches up then
+        throw new SkipDeliveryError('Match user wallet address not found');
       }
 
       // Use the encryption service to update avatar access
@@ -823,7 +903,8 @@ export class AvatarService {
       // Invalidate cache and CDN
       await Promise.allSettled([
         this.getCacheService().invalidateUserAvatar(userId),
-        user.publicAvatarBlobId ? this.cdnService.invalidateCdnCache(user.publicAvatarBlobId) : Promise.resolve()
+        user.publicAvatarBlobId ? this.cdnService.invalidateCdnCache(user.publicAvatarBlobId) : Promise.resolve(),
+        user.publicAvatarBlobId ? duplicateClassifier.forget('AVATAR', user.publicAvatarBlobId) : Promise.resolve()
       ]);
 
     } catch (error) {
@@ -832,6 +913,46 @@ export class AvatarService {
     }
   }
 
+  /**
+   * Deletes avatars that have outlived their owner's expiry setting. Expired
+   * avatars are already hidden on read; this frees the storage and policies.
+   * Returns the members whose avatar was deleted.
+   */
+  async deleteExpiredAvatars(): Promise<{ checked: number; deletedUserIds: string[]; errors: number }> {
+    const deletedUserIds: string[] = [];
+    let checked = 0;
+    let errors = 0;
+    let cursor: string | undefined;
+
+    // Owners are read a page at a time, in ID order
+    while (true) {
+      const users = await prisma.user.findMany({
+        where: { avatarUploadedAt: { not: null }, ...(cursor ? { id: { gt: cursor } } : {}) },
+        select: { id: true, avatarUploadedAt: true, avatarSettings: true },
+        orderBy: { id: 'asc' },
+        take: EXPIRY_PAGE_SIZE
+      });
+      checked += users.length;
+
+      for (const user of users) {
+        if (!isAvatarExpired(user.avatarUploadedAt!, parseAvatarSettings(user.avatarSettings))) continue;
+
+        try {
+          await this.deleteAvatar(user.id);
+          deletedUserIds.push(user.id);
+        } catch (error) {
+          console.error(`Failed to delete expired avatar for ${user.id}:`, error);
+          errors++;
+        }
+      }
+
+      if (users.length < EXPIRY_PAGE_SIZE) break;
+      cursor = users[users.length - 1].id;
+    }
+
+    return { checked, deletedUserIds, errors };
+  }
+
   /**
    * Generates a face-swapped public avatar from the original image
    */
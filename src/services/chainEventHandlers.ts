@@ -0,0 +1,280 @@
+import { Prisma, SwipeDirection, SwipeSource } from '@prisma/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type { IndexedChainEvent } from '@/lib/blockchain/eventSource';
+import { getMatchLifecycleService } from './matchLifecycleService';
+import { getOutboxService, type EmitEvent } from './outboxService';
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Projects one Move event into the relational tables. Handlers run inside
+ * the indexer's transaction and must be safe to run more than once for the
+ * same event (replays re-run them), so they only upsert or recompute.
+ */
+export type ChainEventHandler = (tx: Tx, event: IndexedChainEvent) => Promise<void>;
+
+// Move timestamps are u64 milliseconds serialized as strings
+export function toDate(value: unknown): Date {
+  return new Date(Number(value ?? 0));
+}
+
+/**
+ * Resolves a wallet address to a user ID. Users created through zkLogin use
+ * the address as their ID; others have it stored in `walletAddress`.
+ */
+async function resolveUserId(tx: Tx, address: string | null | undefined) {
+  if (!address) return null;
+
+  const candidates = Array.from(new Set([address, normalizeSuiAddress(address)]));
+  const user = await tx.user.findFirst({
+    where: {
+      OR: [{ id: { in: candidates } }, { walletAddress: { in: candidates } }],
+    },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+async function hasMember(tx: Tx, userId: string) {
+  const member = await tx.member.findUnique({ where: { userId }, select: { id: true } });
+  return !!member;
+}
+
+/**
+ * Lifecycle events raised by indexed changes are written to the outbox in
+ * the indexer's transaction and left for the worker to deliver
+ */
+function outboxEmit(tx: Tx): EmitEvent {
+  return async (type, payload) => {
+    await getOutboxService().enqueue(tx, type, payload);
+  };
+}
+
+// Match status on likes is projected by the match lifecycle, so this only ensures the like exists
+async function upsertLike(tx: Tx, sourceUserId: string, targetUserId: string) {
+  await tx.like.upsert({
+    where: { sourceUserId_targetUserId: { sourceUserId, targetUserId } },
+    create: { sourceUserId, targetUserId },
+    update: {},
+  });
+}
+
+const handleProfileCreated: ChainEventHandler = async (tx, event) => {
+  const { profile_id, owner } = event.parsedJson;
+  const userId = await resolveUserId(tx, owner);
+  if (!userId) return;
+
+  await tx.user.update({
+    where: { id: userId },
+    data: { profileObjectId: profile_id },
+  });
+};
+
+const handleLikeGiven: ChainEventHandler = async (tx, event) => {
+  const { from, to } = event.parsedJson;
+  const [sourceUserId, targetUserId] = await Promise.all([
+    resolveUserId(tx, from),
+    resolveUserId(tx, to),
+  ]);
+  if (!sourceUserId || !targetUserId) return;
+  if (!(await hasMember(tx, sourceUserId)) || !(await hasMember(tx, targetUserId))) return;
+
+  await upsertLike(tx, sourceUserId, targetUserId);
+};
+
+const handleMatchCreated: ChainEventHandler = async (tx, event) => {
+  const { match_id, user_a, user_b } = event.parsedJson;
+  const [userA, userB] = await Promise.all([resolveUserId(tx, user_a), resolveUserId(tx, user_b)]);
+  if (!userA || !userB) return;
+  if (!(await hasMember(tx, userA)) || !(await hasMember(tx, userB))) return;
+
+  await upsertLike(tx, userA, userB);
+  await upsertLike(tx, userB, userA);
+  await getMatchLifecycleService().matchCreated(tx, outboxEmit(tx), userA, userB, match_id);
+};
+
+const handleMatchDeleted: ChainEventHandler = async (tx, event) => {
+  const match = await tx.match.findFirst({ where: { onChainMatchId: event.parsedJson.match_id } });
+  if (!match) return;
+
+  // A block outlives the on-chain match; anything else ends with it
+  await getMatchLifecycleService().transition(
+    tx,
+    outboxEmit(tx),
+    match.userAId,
+    match.userBId,
+    match.state === 'BLOCKED' ? 'BLOCKED' : 'UNMATCHED',
+    { onChainMatchId: null }
+  );
+};
+
+const handleGiftSent: ChainEventHandler = async (tx, event) => {
+  const { gift_id, from, to, gift_type, amount, timestamp } = event.parsedJson;
+  const [senderUserId, recipientUserId] = await Promise.all([
+    resolveUserId(tx, from),
+    resolveUserId(tx, to),
+  ]);
+
+  const data = {
+    senderAddress: from,
+    recipientAddress: to,
+    senderUserId,
+    recipientUserId,
+    giftType: Number(gift_type),
+    amount: String(amount),
+    sentAt: toDate(timestamp),
+  };
+
+  await tx.gift.upsert({
+    where: { giftObjectId: gift_id },
+    create: { giftObjectId: gift_id, ...data },
+    update: data,
+  });
+};
+
+const handleSubscriptionCreated: ChainEventHandler = async (tx, event) => {
+  const { subscription_id, subscriber, tier, start_date, end_date } = event.parsedJson;
+
+  const data = {
+    subscriberAddress: subscriber,
+    userId: await resolveUserId(tx, subscriber),
+    tier: Number(tier),
+    startsAt: toDate(start_date),
+    endsAt: toDate(end_date),
+  };
+
+  await tx.subscription.upsert({
+    where: { subscriptionObjectId: subscription_id },
+    create: { subscriptionObjectId: subscription_id, ...data },
+    update: data,
+  });
+};
+
+const handleMediaUploaded: ChainEventHandler = async (tx, event) => {
+  const { media_id, owner, content_type, timestamp } = event.parsedJson;
+
+  const data = {
+    ownerAddress: owner,
+    userId: await resolveUserId(tx, owner),
+    contentType: Number(content_type),
+    uploadedAt: toDate(timestamp),
+  };
+
+  await tx.onChainMedia.upsert({
+    where: { mediaObjectId: media_id },
+    create: { mediaObjectId: media_id, ...data },
+    update: data,
+  });
+};
+
+const handleChatCreated: ChainEventHandler = async (tx, event) => {
+  const { chat_id, participant_a, participant_b, match_id } = event.parsedJson;
+  const [userA, userB] = await Promise.all([
+    resolveUserId(tx, participant_a),
+    resolveUserId(tx, participant_b),
+  ]);
+
+  // Option<ID> is serialized as the ID or null
+  const matchId = typeof match_id === 'string' ? match_id : match_id?.vec?.[0] ?? null;
+
+  await tx.chatRoom.upsert({
+    where: { chatRoomId: chat_id },
+    create: {
+      chatRoomId: chat_id,
+      participant1: userA ?? participant_a,
+      participant2: userB ?? participant_b,
+      matchId,
+    },
+    update: { matchId },
+  });
+
+  // Modules are indexed independently, so the allowlist and messages may
+  // have been seen before the chat itself
+  await syncChatAllowlist(tx, chat_id);
+  await syncChatMessageStats(tx, chat_id);
+};
+
+async function syncChatAllowlist(tx: Tx, chatId: string) {
+  const allowlistEvent = await tx.chainEvent.findFirst({
+    where: {
+      eventType: 'ChatAllowlistAutoCreated',
+      payload: { path: ['chat_id'], equals: chatId },
+    },
+    orderBy: { timestamp: 'desc' },
+  });
+  if (!allowlistEvent) return;
+
+  await tx.chatRoom.updateMany({
+    where: { chatRoomId: chatId },
+    data: { chatAllowlistId: (allowlistEvent.payload as Record<string, any>).allowlist_id },
+  });
+}
+
+// Recomputed from the event ledger so replays can't double count
+async function syncChatMessageStats(tx: Tx, chatId: string) {
+  const where: Prisma.ChainEventWhereInput = {
+    eventType: 'MessageSent',
+    payload: { path: ['chat_id'], equals: chatId },
+  };
+  const [messageCount, latest] = await Promise.all([
+    tx.chainEvent.count({ where }),
+    tx.chainEvent.aggregate({ where, _max: { timestamp: true } }),
+  ]);
+
+  await tx.chatRoom.updateMany({
+    where: { chatRoomId: chatId },
+    data: { messageCount, lastMessageAt: latest._max.timestamp },
+  });
+}
+
+const handleChatAllowlistAutoCreated: ChainEventHandler = async (tx, event) => {
+  await syncChatAllowlist(tx, event.parsedJson.chat_id);
+};
+
+const handleMessageSent: ChainEventHandler = async (tx, event) => {
+  await syncChatMessageStats(tx, event.parsedJson.chat_id);
+};
+
+const handleSwipeRecorded: ChainEventHandler = async (tx, event) => {
+  const { swipe_id, swiper, target, direction, random_seed, timestamp } = event.parsedJson;
+  const [sourceUserId, targetUserId] = await Promise.all([
+    resolveUserId(tx, swiper),
+    resolveUserId(tx, target),
+  ]);
+  if (!sourceUserId || !targetUserId) return;
+  if (!(await hasMember(tx, sourceUserId)) || !(await hasMember(tx, targetUserId))) return;
+
+  const data = {
+    direction: Number(direction) === 1 ? SwipeDirection.RIGHT : SwipeDirection.LEFT,
+    source: SwipeSource.ON_CHAIN,
+    swipedAt: toDate(timestamp),
+    swipeObjectId: swipe_id,
+    digest: event.id.txDigest,
+    randomSeed: String(random_seed),
+  };
+
+  await tx.swipe.upsert({
+    where: { sourceUserId_targetUserId: { sourceUserId, targetUserId } },
+    create: { sourceUserId, targetUserId, ...data },
+    update: data,
+  });
+};
+
+/**
+ * Handlers keyed by "<module>::<EventType>". Events without a handler are
+ * still recorded in ChainEvent.
+ */
+export const chainEventHandlers: Record<string, ChainEventHandler> = {
+  'core::ProfileCreated': handleProfileCreated,
+  'core::LikeGiven': handleLikeGiven,
+  'core::MatchCreated': handleMatchCreated,
+  'core::MatchDeleted': handleMatchDeleted,
+  'core::GiftSent': handleGiftSent,
+  'core::SubscriptionCreated': handleSubscriptionCreated,
+  'core::MediaUploaded': handleMediaUploaded,
+  'chat::ChatCreated': handleChatCreated,
+  'chat::MessageSent': handleMessageSent,
+  'integration::ChatAllowlistAutoCreated': handleChatAllowlistAutoCreated,
+  'discovery::SwipeRecorded': handleSwipeRecorded,
+};
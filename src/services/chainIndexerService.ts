@@ -0,0 +1,181 @@
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { prisma } from '@/lib/prisma';
+import {
+  INDEXED_MODULES,
+  SuiEventSource,
+  type ChainEventId,
+  type ChainEventSource,
+  type IndexedChainEvent,
+} from '@/lib/blockchain/eventSource';
+import { chainEventHandlers, toDate } from './chainEventHandlers';
+
+interface IndexerConfig {
+  modules: readonly string[];
+  pageSize: number;
+  // Upper bound on pages per module per run, so a cron invocation stays short
+  maxPagesPerRun: number;
+}
+
+export interface ModuleSyncResult {
+  module: string;
+  processed: number;
+  skipped: number;
+  cursor: ChainEventId | null;
+  error?: string;
+}
+
+/**
+ * Follows `matching_me` Move events and mirrors them into Prisma.
+ *
+ * Each module has its own persisted cursor. Every event is recorded in
+ * ChainEvent and projected in the same transaction that advances the cursor,
+ * so a crash mid-run never loses or double-applies an event.
+ */
+export class ChainIndexerService {
+  private config: IndexerConfig;
+
+  constructor(
+    private source: ChainEventSource,
+    config?: Partial<IndexerConfig>
+  ) {
+    this.config = {
+      modules: INDEXED_MODULES,
+      pageSize: parseInt(process.env.CHAIN_INDEXER_PAGE_SIZE || '50'),
+      maxPagesPerRun: parseInt(process.env.CHAIN_INDEXER_MAX_PAGES || '20'),
+      ...config,
+    };
+  }
+
+  private cursorId(module: string) {
+    return `${this.source.packageId}::${module}`;
+  }
+
+  async getCursor(module: string): Promise<ChainEventId | null> {
+    const cursor = await prisma.indexerCursor.findUnique({
+      where: { id: this.cursorId(module) },
+    });
+    return cursor ? { txDigest: cursor.txDigest, eventSeq: cursor.eventSeq } : null;
+  }
+
+  /**
+   * Processes new events for every configured module
+   */
+  async sync(): Promise<ModuleSyncResult[]> {
+    const results: ModuleSyncResult[] = [];
+    for (const module of this.config.modules) {
+      results.push(await this.syncModule(module, false));
+    }
+    return results;
+  }
+
+  /**
+   * Rewinds a module to a checkpoint and re-runs the projections for every
+   * event after it, including events that were already indexed. Pass null to
+   * replay the module from its first event.
+   */
+  async replayFrom(module: string, checkpoint: ChainEventId | null): Promise<ModuleSyncResult> {
+    if (!this.config.modules.includes(module)) {
+      throw new Error(`Module ${module} is not indexed`);
+    }
+
+    if (checkpoint) {
+      await prisma.indexerCursor.upsert({
+        where: { id: this.cursorId(module) },
+        create: { id: this.cursorId(module), ...checkpoint },
+        update: checkpoint,
+      });
+    } else {
+      await prisma.indexerCursor.deleteMany({ where: { id: this.cursorId(module) } });
+    }
+
+    return this.syncModule(module, true);
+  }
+
+  private async syncModule(module: string, reprocess: boolean): Promise<ModuleSyncResult> {
+    const result: ModuleSyncResult = {
+      module,
+      processed: 0,
+      skipped: 0,
+      cursor: await this.getCursor(module),
+    };
+
+    try {
+      for (let page = 0; page < this.config.maxPagesPerRun; page++) {
+        const { events, hasNextPage } = await this.source.fetchEvents(
+          module,
+          result.cursor,
+          this.config.pageSize
+        );
+
+        for (const event of events) {
+          const applied = await this.processEvent(event, reprocess);
+          if (applied) result.processed++;
+          else result.skipped++;
+          result.cursor = event.id;
+        }
+
+        if (!hasNextPage || events.length === 0) break;
+      }
+    } catch (error) {
+      // The failing event's transaction was rolled back, so the next run retries it
+      console.error(`[ChainIndexer] Failed to index ${module}:`, error);
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Records and projects a single event. Returns false when the event had
+   * already been indexed and was skipped.
+   */
+  private async processEvent(event: IndexedChainEvent, reprocess: boolean): Promise<boolean> {
+    const cursorId = this.cursorId(event.module);
+
+    return prisma.$transaction(async (tx) => {
+      const existing = await tx.chainEvent.findUnique({
+        where: { txDigest_eventSeq: event.id },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        await tx.chainEvent.create({
+          data: {
+            ...event.id,
+            module: event.module,
+            eventType: event.eventType,
+            sender: event.sender,
+            payload: event.parsedJson,
+            timestamp: event.timestampMs ? toDate(event.timestampMs) : null,
+          },
+        });
+      }
+
+      const applied = !existing || reprocess;
+      if (applied) {
+        const handler = chainEventHandlers[`${event.module}::${event.eventType}`];
+        if (handler) await handler(tx, event);
+      }
+
+      await tx.indexerCursor.upsert({
+        where: { id: cursorId },
+        create: { id: cursorId, ...event.id },
+        update: event.id,
+      });
+
+      return applied;
+    });
+  }
+}
+
+// Singleton instance
+let chainIndexerService: ChainIndexerService | null = null;
+
+export function getChainIndexerService(): ChainIndexerService {
+  if (!chainIndexerService) {
+    const network = (process.env.NEXT_PUBLIC_SUI_NETWORK || 'testnet') as 'testnet' | 'mainnet';
+    const client = new SuiClient({ url: getFullnodeUrl(network) });
+    chainIndexerService = new ChainIndexerService(new SuiEventSource(client));
+  }
+  return chainIndexerService;
+}
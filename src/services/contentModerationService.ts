@@ -1,4 +1,8 @@
+import { subDays, subHours } from 'date-fns';
+import type { ImageKind, ModerationCase, ModerationStatus, Prisma, Report, ReportContentType, ReportSeverity } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { getImageModerationPipeline, type ImageModerationPipeline } from '@/lib/imageModeration';
+import { getAvatarCacheService } from './avatarCacheService';
 
 export interface ModerationResult {
   approved: boolean;
@@ -9,11 +13,28 @@ export interface ModerationResult {
 }
 
 export interface ModerationFlag {
-  type: 'inappropriate_content' | 'nudity' | 'violence' | 'spam' | 'fake_person' | 'low_quality';
+  type:
+    | 'inappropriate_content'
+    | 'nudity'
+    | 'violence'
+    | 'spam'
+    | 'fake_person'
+    | 'low_quality'
+    | 'face_count'
+    | 'profanity'
+    | 'contact_info'
+    | 'scam'
+    | 'harassment';
   confidence: number;
   description: string;
 }
 
+// Photo.moderationFlags: why a gallery photo is waiting for a moderator
+export interface PhotoReview {
+  reason: string;
+  flags: ModerationFlag[];
+}
+
 export interface ModerationReport {
   id: string;
   userId: string;
@@ -28,57 +49,171 @@ export interface ModerationReport {
   moderatorNotes?: string;
 }
 
+export type ReportedContentType = ModerationReport['contentType'];
+
+export interface ContentReportInput {
+  userId: string;
+  contentType: ReportedContentType;
+  contentId: string;
+  reportedBy: string;
+  reasonId: string;
+  severity: 'low' | 'medium' | 'high';
+  details?: string;
+}
+
+export interface ContentReportResult {
+  reportId: string;
+  caseId: string;
+  contentHidden: boolean;
+}
+
+export interface ReporterHistory {
+  totalReports: number;
+  recentReports: number;
+  canReport: boolean;
+  cooldownUntil?: Date;
+}
+
+export interface AutomatedReportInput {
+  targetUserId: string;
+  contentType: ReportContentType;
+  contentId: string;
+  flags: ModerationFlag[];
+  // Why it needs review when no flag says so, e.g. a classifier was unavailable
+  note?: string;
+  // Hide the content until a moderator clears it
+  hide?: boolean;
+}
+
+export type ModerationCaseWithReports = ModerationCase & { reports: ModerationReport[] };
+
+interface ReportingConfig {
+  // Distinct reporters after which the content is hidden pending review
+  autoHideThreshold: number;
+  // Reports one member can file per rolling day
+  dailyReportLimit: number;
+  minSecondsBetweenReports: number;
+}
+
+export class ReportError extends Error {}
+
+const OPEN_STATUSES: ModerationStatus[] = ['PENDING', 'REVIEWED'];
+const HIGH_RISK_FLAGS: ModerationFlag['type'][] = ['inappropriate_content', 'nudity', 'violence', 'harassment', 'scam'];
+
+// REPORT_REASONS used for automated reports
+const AUTOMATED_REASONS: Partial<Record<ModerationFlag['type'], string>> = {
+  inappropriate_content: 'inappropriate_content',
+  profanity: 'inappropriate_content',
+  nudity: 'nudity',
+  violence: 'violence',
+  harassment: 'harassment',
+  spam: 'spam',
+  scam: 'spam',
+  contact_info: 'spam',
+  fake_person: 'fake_profile'
+};
+const SEVERITY_RANK: Record<ReportSeverity, number> = { LOW: 1, MEDIUM: 2, HIGH: 3 };
+
+/**
+ * Queue order: severity first, then how many members reported it
+ */
+function casePriority(severity: ReportSeverity, reportCount: number) {
+  return SEVERITY_RANK[severity] * 100 + Math.min(reportCount, 99);
+}
+
+/**
+ * Reads Photo.moderationFlags. Photos queued before the reason was stored
+ * hold just the flag list.
+ */
+export function readPhotoReview(value: Prisma.JsonValue | null): PhotoReview | null {
+  if (!value) return null;
+  if (Array.isArray(value)) {
+    return { reason: 'Content requires manual review', flags: value as unknown as ModerationFlag[] };
+  }
+  return value as unknown as PhotoReview;
+}
+
+function toModerationReport(report: Report, moderationCase: ModerationCase): ModerationReport {
+  return {
+    id: report.id,
+    userId: moderationCase.targetUserId,
+    contentType: report.contentType.toLowerCase() as ReportedContentType,
+    contentId: report.contentId,
+    reportedBy: report.reporterId ?? 'automated',
+    reason: report.details ? `${report.reasonId}: ${report.details}` : report.reasonId,
+    status: report.status.toLowerCase() as ModerationReport['status'],
+    createdAt: report.createdAt,
+    reviewedAt: moderationCase.reviewedAt ?? undefined,
+    reviewedBy: moderationCase.reviewedBy ?? undefined,
+    moderatorNotes: moderationCase.moderatorNotes ?? undefined
+  };
+}
+
 export class ContentModerationService {
+  private reporting: ReportingConfig;
+
+  constructor(
+    config?: Partial<ReportingConfig>,
+    private images: ImageModerationPipeline = getImageModerationPipeline()
+  ) {
+    this.reporting = {
+      autoHideThreshold: parseInt(process.env.REPORT_AUTO_HIDE_THRESHOLD || '3'),
+      dailyReportLimit: parseInt(process.env.REPORT_DAILY_LIMIT || '10'),
+      minSecondsBetweenReports: 30,
+      ...config
+    };
+  }
+
   /**
    * Analyzes an avatar image for inappropriate content
    */
   async moderateAvatarImage(imageData: Uint8Array, userId: string): Promise<ModerationResult> {
+    return this.moderateImage(imageData, userId, 'AVATAR');
+  }
+
+  /**
+   * Analyzes a gallery photo. Approved photos can be published right away;
+   * the rest wait in the photo moderation queue.
+   */
+  async moderatePhoto(imageData: Uint8Array, userId: string): Promise<ModerationResult> {
+    return this.moderateImage(imageData, userId, 'PHOTO');
+  }
+
+  private async moderateImage(imageData: Uint8Array, userId: string, kind: ImageKind): Promise<ModerationResult> {
     try {
-      console.log(`[ContentModeration] Analyzing avatar for user ${userId}`);
+      console.log(`[ContentModeration] Analyzing ${kind.toLowerCase()} for user ${userId}`);
 
-      // Perform multiple checks
-      const checks = await Promise.all([
-        this.checkImageContent(imageData),
-        this.checkImageQuality(imageData),
-        this.checkForFakeContent(imageData),
+      const [images, history] = await Promise.all([
+        this.images.run({ data: Buffer.from(imageData), userId, kind }),
         this.checkUserHistory(userId)
       ]);
 
-      // Combine results
-      const allFlags: ModerationFlag[] = checks.flatMap(check => check.flags);
-      const highestConfidence = Math.max(...checks.map(check => check.confidence));
-      
-      // Determine if content should be approved
-      const hasHighRiskFlags = allFlags.some(flag => 
-        flag.confidence > 0.8 && 
-        ['inappropriate_content', 'nudity', 'violence'].includes(flag.type)
-      );
-
-      const requiresManualReview = allFlags.some(flag => 
-        flag.confidence > 0.6 && flag.confidence <= 0.8
-      ) || checks.some(check => check.requiresManualReview);
+      if (images.skipped.length > 0) {
+        console.warn(`[ContentModeration] Classifiers skipped: ${images.skipped.join(', ')}`);
+      }
 
-      const approved = !hasHighRiskFlags && !requiresManualReview;
+      const rejected = images.verdict === 'reject';
+      const requiresManualReview = !rejected && (images.verdict === 'review' || history.requiresManualReview);
 
       const result: ModerationResult = {
-        approved,
-        confidence: highestConfidence,
-        flags: allFlags,
+        approved: !rejected && !requiresManualReview,
+        confidence: images.flags.length > 0 ? Math.max(...images.flags.map(flag => flag.confidence)) : 0.9,
+        flags: images.flags,
         requiresManualReview,
-        reason: hasHighRiskFlags 
-          ? 'Content flagged as inappropriate' 
-          : requiresManualReview 
-            ? 'Content requires manual review'
-            : undefined
+        reason: rejected
+          ? 'Content flagged as inappropriate'
+          : images.verdict === 'review'
+            ? images.flags.length > 0 ? 'Content requires manual review' : `Classifiers unavailable: ${images.skipped.join(', ')}`
+            : history.reason
       };
 
       // Log moderation result
-      await this.logModerationResult(userId, 'avatar', result);
+      await this.logModerationResult(userId, kind.toLowerCase(), result);
 
       return result;
 
     } catch (error) {
-      console.error('[ContentModeration] Avatar moderation failed:', error);
+      console.error(`[ContentModeration] ${kind} moderation failed:`, error);
       
       // Fail safe - require manual review on error
       return {
@@ -96,99 +231,65 @@ export class ContentModerationService {
   }
 
   /**
-   * Checks image content for inappropriate material
+   * The open case for a piece of content, opened if there is none. Locks the
+   * content until `tx` ends so concurrent reports add to one case instead of
+   * each opening their own. The lock is an advisory one because the case may
+   * not exist yet.
    */
-  private async checkImageContent(imageData: Uint8Array): Promise<ModerationResult> {
-    // Placeholder for AI-based content analysis
-    // In a real implementation, this would use services like:
-    // - Google Cloud Vision API
-    // - AWS Rekognition
-    // - Azure Computer Vision
-    // - Custom ML models
-
-    const flags: ModerationFlag[] = [];
-    
-    // Simulate content analysis
-    const imageSize = imageData.length;
-    
-    // Basic checks based on image characteristics
-    if (imageSize < 10000) { // Very small image
-      flags.push({
-        type: 'low_quality',
-        confidence: 0.7,
-        description: 'Image appears to be very low quality or corrupted'
-      });
-    }
-
-    if (imageSize > 10 * 1024 * 1024) { // Very large image
-      flags.push({
-        type: 'spam',
-        confidence: 0.5,
-        description: 'Unusually large image file'
-      });
-    }
-
-    // TODO: Implement actual AI-based content detection
-    // For now, we'll use a simple heuristic approach
-    
-    return {
-      approved: flags.length === 0,
-      confidence: flags.length > 0 ? Math.max(...flags.map(f => f.confidence)) : 0.9,
-      flags,
-      requiresManualReview: flags.some(f => f.confidence > 0.6)
-    };
+  private async openCase(
+    tx: Prisma.TransactionClient,
+    contentType: ReportContentType,
+    contentId: string,
+    data: Omit<Prisma.ModerationCaseUncheckedCreateInput, 'contentType' | 'contentId'>
+  ): Promise<ModerationCase> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`moderation-case:${contentType}:${contentId}`}))`;
+    const open = await tx.moderationCase.findFirst({
+      where: { contentType, contentId, status: { in: OPEN_STATUSES } }
+    });
+    return open ?? tx.moderationCase.create({ data: { ...data, contentType, contentId } });
   }
 
   /**
-   * Checks image quality and technical aspects
+   * Files an automated report for content the classifiers couldn't clear,
+   * so it shows up in the queue without any member reporting it. Joins the
+   * open case for the same content if there is one.
    */
-  private async checkImageQuality(imageData: Uint8Array): Promise<ModerationResult> {
-    const flags: ModerationFlag[] = [];
-    
-    // Basic quality checks
-    const imageSize = imageData.length;
-    
-    if (imageSize < 5000) {
-      flags.push({
-        type: 'low_quality',
-        confidence: 0.8,
-        description: 'Image resolution appears too low'
+  async flagForReview(input: AutomatedReportInput, now: Date = new Date()): Promise<ModerationCase> {
+    const strongest = [...input.flags].sort((a, b) => b.confidence - a.confidence)[0];
+    const severity: ReportSeverity = input.flags.some(flag => HIGH_RISK_FLAGS.includes(flag.type)) ? 'MEDIUM' : 'LOW';
+    const findings = input.flags.map(flag => `${flag.description} (${Math.round(flag.confidence * 100)}%)`);
+
+    const { moderationCase, hidden } = await prisma.$transaction(async (tx) => {
+      const current = await this.openCase(tx, input.contentType, input.contentId, {
+        targetUserId: input.targetUserId,
+        severity,
+        priority: casePriority(severity, 0)
       });
-    }
 
-    // TODO: Implement more sophisticated quality checks:
-    // - Image resolution analysis
-    // - Blur detection
-    // - Noise analysis
-    // - Face detection quality
+      await tx.report.create({
+        data: {
+          source: 'AUTOMATED',
+          caseId: current.id,
+          contentType: input.contentType,
+          contentId: input.contentId,
+          reasonId: (strongest && AUTOMATED_REASONS[strongest.type]) || 'other',
+          severity,
+          details: [...findings, input.note].filter(Boolean).join('; ') || null
+        }
+      });
 
-    return {
-      approved: flags.length === 0,
-      confidence: flags.length > 0 ? Math.max(...flags.map(f => f.confidence)) : 0.9,
-      flags,
-      requiresManualReview: false
-    };
-  }
+      const hidden = !!input.hide && !current.contentHidden;
+      const moderationCase = hidden
+        ? await tx.moderationCase.update({ where: { id: current.id }, data: { contentHidden: true, hiddenAt: now } })
+        : current;
 
-  /**
-   * Checks for fake or AI-generated content
-   */
-  private async checkForFakeContent(imageData: Uint8Array): Promise<ModerationResult> {
-    const flags: ModerationFlag[] = [];
-    
-    // TODO: Implement deepfake/AI-generated content detection
-    // This could use specialized models for detecting:
-    // - AI-generated faces
-    // - Deepfakes
-    // - Manipulated images
-    
-    // For now, return a basic check
-    return {
-      approved: true,
-      confidence: 0.1,
-      flags,
-      requiresManualReview: false
-    };
+      return { moderationCase, hidden };
+    });
+
+    if (hidden) {
+      await this.onVisibilityChanged(moderationCase);
+    }
+    return moderationCase;
   }
 
   /**
@@ -196,26 +297,21 @@ export class ContentModerationService {
    */
   private async checkUserHistory(userId: string): Promise<ModerationResult> {
     try {
-      // Check if user has recent violations
-      const recentViolations = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { 
-          // TODO: Add moderation history fields to user model
-          // moderationViolations: true,
-          // lastViolationDate: true
+      // Upheld reports in the last 90 days send new uploads to manual review
+      const recentViolations = await prisma.moderationCase.count({
+        where: {
+          targetUserId: userId,
+          status: 'RESOLVED',
+          reviewedAt: { gte: subDays(new Date(), 90) }
         }
       });
 
-      // TODO: Implement user history analysis
-      // - Check for recent violations
-      // - Check violation patterns
-      // - Check account age and activity
-
       return {
         approved: true,
         confidence: 0.9,
         flags: [],
-        requiresManualReview: false
+        requiresManualReview: recentViolations > 0,
+        reason: recentViolations > 0 ? 'User has recent moderation violations' : undefined
       };
 
     } catch (error) {
@@ -230,51 +326,209 @@ export class ContentModerationService {
   }
 
   /**
-   * Creates a content report for manual review
+   * Throws a ReportError when the reporter already has an open report on
+   * this content or is over their rate limit
    */
-  async createContentReport(
-    userId: string,
-    contentType: 'avatar' | 'profile' | 'message',
+  async assertCanReport(
+    reporterId: string,
+    contentType: ReportedContentType,
     contentId: string,
-    reportedBy: string,
-    reason: string
-  ): Promise<string> {
-    try {
-      // TODO: Create a moderation reports table
-      // For now, we'll log the report
-      const reportId = `report_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      console.log('[ContentModeration] Content report created:', {
-        reportId,
-        userId,
-        contentType,
+    now: Date = new Date()
+  ): Promise<void> {
+    const existing = await prisma.report.findFirst({
+      where: {
+        reporterId,
+        contentType: contentType.toUpperCase() as ReportContentType,
         contentId,
-        reportedBy,
-        reason,
-        timestamp: new Date()
+        status: { in: OPEN_STATUSES }
+      },
+      select: { id: true }
+    });
+    if (existing) {
+      throw new ReportError(`You have already reported this ${contentType}`);
+    }
+
+    const history = await this.getReporterHistory(reporterId, now);
+    if (!history.canReport) {
+      throw new ReportError('You are sending reports too quickly. Please try again later.');
+    }
+  }
+
+  /**
+   * Counts a member's reports and works out when they may report again
+   */
+  async getReporterHistory(reporterId: string, now: Date = new Date()): Promise<ReporterHistory> {
+    const [totalReports, recent] = await Promise.all([
+      prisma.report.count({ where: { reporterId } }),
+      prisma.report.findMany({
+        where: { reporterId, createdAt: { gt: subHours(now, 24) } },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true }
+      })
+    ]);
+
+    const cooldowns: Date[] = [];
+    if (recent.length >= this.reporting.dailyReportLimit) {
+      // Frees up when the oldest report in the window turns a day old
+      const oldest = recent[recent.length - this.reporting.dailyReportLimit].createdAt;
+      cooldowns.push(new Date(oldest.getTime() + 24 * 60 * 60 * 1000));
+    }
+    if (recent.length > 0) {
+      const latest = recent[recent.length - 1].createdAt;
+      const nextAllowed = new Date(latest.getTime() + this.reporting.minSecondsBetweenReports * 1000);
+      if (nextAllowed > now) cooldowns.push(nextAllowed);
+    }
+
+    const cooldownUntil = cooldowns.sort((a, b) => b.getTime() - a.getTime())[0];
+    return {
+      totalReports,
+      recentReports: recent.length,
+      canReport: !cooldownUntil,
+      cooldownUntil
+    };
+  }
+
+  /**
+   * Creates a content report and adds it to the open case for that content.
+   * High-severity reports escalate the case, and the content is hidden once
+   * enough members have reported it independently.
+   */
+  async createContentReport(input: ContentReportInput, now: Date = new Date()): Promise<ContentReportResult> {
+    try {
+      const contentType = input.contentType.toUpperCase() as ReportContentType;
+      const severity = input.severity.toUpperCase() as ReportSeverity;
+
+      await this.assertCanReport(input.reportedBy, input.contentType, input.contentId, now);
+
+      const { report, moderationCase, escalated, hidden } = await prisma.$transaction(async (tx) => {
+        const current = await this.openCase(tx, contentType, input.contentId, { targetUserId: input.userId, severity });
+
+        const report = await tx.report.create({
+          data: {
+            reporterId: input.reportedBy,
+            caseId: current.id,
+            contentType,
+            contentId: input.contentId,
+            reasonId: input.reasonId,
+            severity,
+            details: input.details
+          }
+        });
+
+        const caseSeverity = SEVERITY_RANK[severity] > SEVERITY_RANK[current.severity] ? severity : current.severity;
+        const escalated = severity === 'HIGH' && !current.escalatedAt;
+
+        const counted = await tx.moderationCase.update({
+          where: { id: current.id },
+          data: {
+            reportCount: { increment: 1 },
+            severity: caseSeverity,
+            ...(escalated ? { escalatedAt: now } : {})
+          }
+        });
+        const hidden = !counted.contentHidden && counted.reportCount >= this.reporting.autoHideThreshold;
+
+        const moderationCase = await tx.moderationCase.update({
+          where: { id: current.id },
+          data: {
+            priority: casePriority(caseSeverity, counted.reportCount),
+            ...(hidden ? { contentHidden: true, hiddenAt: now } : {})
+          }
+        });
+
+        return { report, moderationCase, escalated, hidden };
+      }).catch(error => {
+        // A concurrent request from the same reporter got past the check first
+        if ((error as Prisma.PrismaClientKnownRequestError).code === 'P2002') {
+          throw new ReportError(`You have already reported this ${input.contentType}`);
+        }
+        throw error;
       });
 
-      // TODO: Store in database and notify moderators
-      
-      return reportId;
+      if (escalated) {
+        console.warn('[ContentModeration] High severity report escalated for immediate review:', {
+          caseId: moderationCase.id,
+          contentType: input.contentType,
+          reasonId: input.reasonId
+        });
+      }
+      if (hidden) {
+        await this.onVisibilityChanged(moderationCase);
+      }
+
+      return {
+        reportId: report.id,
+        caseId: moderationCase.id,
+        contentHidden: moderationCase.contentHidden
+      };
 
     } catch (error) {
-      console.error('[ContentModeration] Failed to create content report:', error);
+      if (!(error instanceof ReportError)) {
+        console.error('[ContentModeration] Failed to create content report:', error);
+      }
       throw error;
     }
   }
 
   /**
-   * Processes a moderation queue item
+   * Open cases, highest priority first
+   */
+  async getModerationQueue(limit = 50): Promise<ModerationCaseWithReports[]> {
+    const cases = await prisma.moderationCase.findMany({
+      where: { status: { in: OPEN_STATUSES } },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+      take: limit,
+      include: { reports: { orderBy: { createdAt: 'asc' } } }
+    });
+
+    return cases.map(({ reports, ...moderationCase }) => ({
+      ...moderationCase,
+      reports: reports.map(report => toModerationReport(report, moderationCase))
+    }));
+  }
+
+  /**
+   * Processes a moderation queue item. Approving the content dismisses the
+   * reports and shows it again; rejecting upholds them and keeps it hidden.
+   * `within` runs in the same transaction, e.g. to record who decided.
    */
-  async processQueueItem(itemId: string, moderatorId: string, decision: 'approve' | 'reject', notes?: string): Promise<void> {
+  async processQueueItem(
+    itemId: string,
+    moderatorId: string,
+    decision: 'approve' | 'reject',
+    notes?: string,
+    within?: (tx: Prisma.TransactionClient, moderationCase: ModerationCase) => Promise<void>
+  ): Promise<ModerationCase> {
     try {
-      console.log(`[ContentModeration] Processing queue item ${itemId} by moderator ${moderatorId}: ${decision}`);
+      const status: ModerationStatus = decision === 'approve' ? 'DISMISSED' : 'RESOLVED';
+
+      const { moderationCase, wasHidden } = await prisma.$transaction(async (tx) => {
+        const current = await tx.moderationCase.findUnique({ where: { id: itemId } });
+        if (!current) throw new ReportError('Moderation case not found');
+        if (!OPEN_STATUSES.includes(current.status)) throw new ReportError('Moderation case is already closed');
+
+        const moderationCase = await tx.moderationCase.update({
+          where: { id: itemId },
+          data: {
+            status,
+            reviewedAt: new Date(),
+            reviewedBy: moderatorId,
+            moderatorNotes: notes,
+            contentHidden: decision === 'reject',
+            hiddenAt: decision === 'reject' ? current.hiddenAt ?? new Date() : null
+          }
+        });
+        await tx.report.updateMany({ where: { caseId: itemId }, data: { status } });
+        await within?.(tx, moderationCase);
+
+        return { moderationCase, wasHidden: current.contentHidden };
+      });
+
+      if (moderationCase.contentHidden !== wasHidden) {
+        await this.onVisibilityChanged(moderationCase);
+      }
 
-      // TODO: Update moderation queue item in database
-      // TODO: Apply moderation decision (approve/reject content)
-      // TODO: Notify user of decision
-      // TODO: Update user's moderation history
+      return moderationCase;
 
     } catch (error) {
       console.error('[ContentModeration] Failed to process queue item:', error);
@@ -293,13 +547,19 @@ export class ContentModerationService {
     manuallyReviewed: number;
   }> {
     try {
-      // TODO: Query actual moderation statistics from database
+      const [totalReports, pendingReviews, manuallyReviewed] = await Promise.all([
+        prisma.report.count(),
+        prisma.moderationCase.count({ where: { status: { in: OPEN_STATUSES } } }),
+        prisma.moderationCase.count({ where: { status: { in: ['RESOLVED', 'DISMISSED'] } } })
+      ]);
+
       return {
-        totalReports: 0,
-        pendingReviews: 0,
+        totalReports,
+        pendingReviews,
+        // Automated image checks aren't stored yet
         autoApproved: 0,
         autoRejected: 0,
-        manuallyReviewed: 0
+        manuallyReviewed
       };
 
     } catch (error) {
@@ -308,6 +568,16 @@ export class ContentModerationService {
     }
   }
 
+  /**
+   * Cached avatar lookups must not keep serving hidden content, or keep
+   * hiding content that was restored
+   */
+  private async onVisibilityChanged(moderationCase: ModerationCase): Promise<void> {
+    if (moderationCase.contentType === 'AVATAR') {
+      await getAvatarCacheService().invalidateUserAvatar(moderationCase.targetUserId);
+    }
+  }
+
   /**
    * Logs moderation result for analytics and auditing
    */
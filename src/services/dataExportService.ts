@@ -0,0 +1,283 @@
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import type { UploadApiResponse } from 'cloudinary';
+import { addHours, subHours } from 'date-fns';
+import type { DataExport } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { cloudinary } from '@/lib/cloudinary';
+import { createZip } from '@/lib/zip';
+import { sendDataExportReadyEmail } from '@/lib/mail';
+import { getChatRoomIdsByAddress, getMatchIdsByAddress } from '@/lib/blockchain/contractQueries';
+
+interface DataExportConfig {
+  // How long the download link works before the archive is deleted
+  linkHours: number;
+  // Minimum time between two exports for the same user
+  cooldownHours: number;
+  maxAttempts: number;
+  batchSize: number;
+}
+
+export class DataExportError extends Error {}
+
+const README = `This archive holds the personal data we store about you.
+
+user.json                        Your account (password hash omitted)
+member.json                      Your profile, including prompt answers
+photos.json                      Your photos
+likes.json                       Likes you gave and received
+messages.json                    Messages you sent and received
+avatar.json                      Avatar blob IDs, Seal policy and display settings
+avatar-engagement-metrics.json   How you interacted with avatars
+avatar-access-metrics.json       Views of your avatar, and avatars you viewed
+on-chain.json                    References to your objects on the Sui blockchain
+
+On-chain objects are public and can be looked up by ID on any Sui explorer.
+`;
+
+function json(value: unknown) {
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Builds "download my data" archives in the background.
+ *
+ * Requests are queued as PENDING rows and picked up by the data export cron,
+ * which zips the user's rows, uploads the archive as a private Cloudinary
+ * asset and emails a signed link that expires with the archive.
+ */
+export class DataExportService {
+  private config: DataExportConfig;
+
+  constructor(
+    private client: SuiClient,
+    config?: Partial<DataExportConfig>
+  ) {
+    this.config = {
+      linkHours: parseInt(process.env.DATA_EXPORT_LINK_HOURS || '72'),
+      cooldownHours: 24,
+      maxAttempts: 3,
+      batchSize: 5,
+      ...config,
+    };
+  }
+
+  async request(userId: string, now: Date = new Date()): Promise<DataExport> {
+    const recent = await prisma.dataExport.findFirst({
+      where: {
+        userId,
+        OR: [{ status: 'PENDING' }, { status: 'READY', requestedAt: { gt: subHours(now, this.config.cooldownHours) } }],
+      },
+    });
+    if (recent?.status === 'PENDING') return recent;
+    if (recent) throw new DataExportError('You can request a new export once a day');
+
+    return prisma.dataExport.create({ data: { userId, requestedAt: now } });
+  }
+
+  async list(userId: string): Promise<DataExport[]> {
+    return prisma.dataExport.findMany({
+      where: { userId },
+      orderBy: { requestedAt: 'desc' },
+      take: 5,
+    });
+  }
+
+  /**
+   * Signed download link for a ready export, valid until the export expires
+   */
+  getDownloadUrl(dataExport: DataExport, now: Date = new Date()): string | null {
+    if (dataExport.status !== 'READY' || !dataExport.publicId || !dataExport.expiresAt) return null;
+    if (dataExport.expiresAt <= now) return null;
+
+    return cloudinary.v2.utils.private_download_url(dataExport.publicId, '', {
+      resource_type: 'raw',
+      type: 'private',
+      expires_at: Math.floor(dataExport.expiresAt.getTime() / 1000),
+      attachment: true,
+    });
+  }
+
+  /**
+   * Builds queued exports, then removes the ones whose link has expired
+   */
+  async run(now: Date = new Date()): Promise<{ built: number; failed: number; expired: number }> {
+    const pending = await prisma.dataExport.findMany({
+      where: { status: 'PENDING' },
+      orderBy: { requestedAt: 'asc' },
+      take: this.config.batchSize,
+    });
+
+    let built = 0;
+    let failed = 0;
+    for (const dataExport of pending) {
+      try {
+        await this.build(dataExport, now);
+        built++;
+      } catch (error) {
+        console.error(`[DataExport] Failed to build ${dataExport.id}:`, error);
+        const attempts = dataExport.attempts + 1;
+        // Stays PENDING for another try until the attempts run out
+        await prisma.dataExport.update({
+          where: { id: dataExport.id },
+          data: {
+            attempts,
+            status: attempts >= this.config.maxAttempts ? 'FAILED' : 'PENDING',
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+        failed++;
+      }
+    }
+
+    return { built, failed, expired: await this.expire(now) };
+  }
+
+  private async build(dataExport: DataExport, now: Date) {
+    const archive = createZip(await this.collect(dataExport.userId), now);
+    const publicId = `data-exports/${dataExport.userId}/${dataExport.id}.zip`;
+    await this.upload(archive, publicId);
+
+    const ready = await prisma.dataExport.update({
+      where: { id: dataExport.id },
+      data: {
+        status: 'READY',
+        attempts: dataExport.attempts + 1,
+        completedAt: now,
+        expiresAt: addHours(now, this.config.linkHours),
+        publicId,
+        sizeBytes: archive.length,
+        error: null,
+      },
+      include: { user: { select: { email: true } } },
+    });
+
+    const url = this.getDownloadUrl(ready, now);
+    if (ready.user.email && url) {
+      await sendDataExportReadyEmail(ready.user.email, url, ready.expiresAt!);
+    }
+  }
+
+  private upload(archive: Buffer, publicId: string) {
+    return new Promise<UploadApiResponse>((resolve, reject) => {
+      cloudinary.v2.uploader
+        .upload_stream({ resource_type: 'raw', type: 'private', public_id: publicId }, (error, result) => {
+          if (error || !result) reject(error ?? new Error('Upload returned no result'));
+          else resolve(result);
+        })
+        .end(archive);
+    });
+  }
+
+  private async collect(userId: string) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      include: { member: { include: { prompts: { orderBy: { position: 'asc' } } } } },
+    });
+    const { passwordHash, member, ...account } = user;
+    const {
+      publicAvatarBlobId,
+      privateAvatarBlobId,
+      avatarSealPolicyId,
+      avatarUploadedAt,
+      avatarSettings,
+    } = account;
+
+    const [photos, likesGiven, likesReceived, messages, chatRooms, engagementMetrics, accessMetrics] = await Promise.all([
+      member ? prisma.photo.findMany({ where: { memberId: member.id } }) : [],
+      prisma.like.findMany({ where: { sourceUserId: userId } }),
+      prisma.like.findMany({ where: { targetUserId: userId } }),
+      prisma.message.findMany({
+        where: { OR: [{ senderId: userId }, { recipientId: userId }] },
+        orderBy: { created: 'asc' },
+      }),
+      prisma.chatRoom.findMany({
+        where: { OR: [{ participant1: userId }, { participant2: userId }] },
+        select: { chatRoomId: true, chatAllowlistId: true, matchId: true, createdAt: true },
+      }),
+      prisma.avatarEngagementMetric.findMany({ where: { userId }, orderBy: { timestamp: 'asc' } }),
+      prisma.avatarAccessMetric.findMany({
+        where: { OR: [{ targetUserId: userId }, { viewerUserId: userId }] },
+        orderBy: { timestamp: 'asc' },
+      }),
+    ]);
+
+    return [
+      { name: 'README.txt', data: README },
+      { name: 'user.json', data: json({ ...account, hasPassword: passwordHash !== null }) },
+      { name: 'member.json', data: json(member) },
+      { name: 'photos.json', data: json(photos) },
+      { name: 'likes.json', data: json({ given: likesGiven, received: likesReceived }) },
+      { name: 'messages.json', data: json(messages) },
+      {
+        name: 'avatar.json',
+        data: json({ publicAvatarBlobId, privateAvatarBlobId, avatarSealPolicyId, avatarUploadedAt, settings: avatarSettings }),
+      },
+      { name: 'avatar-engagement-metrics.json', data: json(engagementMetrics) },
+      { name: 'avatar-access-metrics.json', data: json(accessMetrics) },
+      { name: 'on-chain.json', data: json(await this.collectOnChain(user.walletAddress, user.profileObjectId, likesGiven, chatRooms)) },
+    ];
+  }
+
+  private async collectOnChain(
+    walletAddress: string | null,
+    profileObjectId: string | null,
+    likesGiven: { matchId: string | null }[],
+    chatRooms: { chatRoomId: string; chatAllowlistId: string | null; matchId: string | null }[]
+  ) {
+    // Owned objects are looked up by address, so members without a wallet have none
+    const [ownedMatchIds, ownedChatRoomIds] = walletAddress
+      ? await Promise.all([
+        getMatchIdsByAddress(this.client, walletAddress),
+        getChatRoomIdsByAddress(this.client, walletAddress),
+      ])
+      : [[], []];
+
+    // Shared match and chat objects aren't owned by either party, so merge in the IDs we indexed
+    const matchIds = new Set([
+      ...ownedMatchIds,
+      ...likesGiven.flatMap((like) => (like.matchId ? [like.matchId] : [])),
+      ...chatRooms.flatMap((room) => (room.matchId ? [room.matchId] : [])),
+    ]);
+    const chatRoomIds = new Set([...ownedChatRoomIds, ...chatRooms.map((room) => room.chatRoomId)]);
+
+    return {
+      walletAddress,
+      profileObjectId,
+      matchIds: [...matchIds],
+      chatRoomIds: [...chatRoomIds],
+      chatAllowlistIds: chatRooms.flatMap((room) => (room.chatAllowlistId ? [room.chatAllowlistId] : [])),
+    };
+  }
+
+  private async expire(now: Date) {
+    const expired = await prisma.dataExport.findMany({
+      where: { status: 'READY', expiresAt: { lte: now } },
+      select: { id: true, publicId: true },
+    });
+
+    let count = 0;
+    for (const { id, publicId } of expired) {
+      try {
+        if (publicId) await cloudinary.v2.uploader.destroy(publicId, { resource_type: 'raw', type: 'private' });
+        await prisma.dataExport.update({ where: { id }, data: { status: 'EXPIRED', publicId: null } });
+        count++;
+      } catch (error) {
+        // Stays READY (the signed link has already lapsed), so the next run retries it
+        console.error(`[DataExport] Failed to remove expired export ${id}:`, error);
+      }
+    }
+
+    return count;
+  }
+}
+
+// Singleton instance
+let dataExportService: DataExportService | null = null;
+
+export function getDataExportService(): DataExportService {
+  if (!dataExportService) {
+    const network = (process.env.NEXT_PUBLIC_SUI_NETWORK || 'testnet') as 'testnet' | 'mainnet';
+    dataExportService = new DataExportService(new SuiClient({ url: getFullnodeUrl(network) }));
+  }
+  return dataExportService;
+}
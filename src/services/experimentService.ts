@@ -0,0 +1,337 @@
+import { createHash } from 'crypto';
+import { Prisma, type Experiment, type ExperimentMetric } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { FeatureFlagService, getFeatureFlagService, type UserContext } from './featureFlagService';
+
+export interface ExperimentVariant {
+  key: string;
+  // Relative share of traffic; weights don't need to add up to 100
+  weight: number;
+}
+
+export interface ExperimentInput {
+  key: string;
+  flagKey: string;
+  name: string;
+  description?: string;
+  variants: ExperimentVariant[];
+  metrics: ExperimentMetric[];
+}
+
+export interface ExperimentSummary extends Omit<Experiment, 'variants'> {
+  variants: ExperimentVariant[];
+  exposures: number;
+}
+
+export interface FlagEvaluation {
+  enabled: boolean;
+  // Set when the member is in a running experiment on the flag
+  experimentKey: string | null;
+  variant: string | null;
+}
+
+export interface MetricResult {
+  conversions: number;
+  rate: number;
+  // 95% Wilson score interval for the rate
+  interval: [number, number];
+  // Rate minus the control's rate with its 95% interval; null for the control
+  difference: { value: number; interval: [number, number]; significant: boolean } | null;
+}
+
+export interface VariantResult {
+  variant: string;
+  exposed: number;
+  metrics: Partial<Record<ExperimentMetric, MetricResult>>;
+}
+
+export interface ExperimentResults {
+  experiment: ExperimentSummary;
+  variants: VariantResult[];
+}
+
+export class ExperimentError extends Error {}
+
+const Z_95 = 1.96;
+const EXPERIMENT_KEY = /^[a-z0-9_]+$/;
+const EXPOSURE_MEMORY = 10000;
+
+/**
+ * Picks a variant from a hash of the experiment and user, so a member always
+ * lands in the same variant and separate experiments split users independently
+ */
+export function assignVariant(experimentKey: string, variants: ExperimentVariant[], userId: string): string {
+  const digest = createHash('sha256').update(`${experimentKey}:${userId}`).digest();
+  const bucket = digest.readUInt32BE(0) / 0x100000000;
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.weight / total;
+    if (bucket < cumulative) return variant.key;
+  }
+  return variants[variants.length - 1].key;
+}
+
+export function wilsonInterval(conversions: number, exposed: number, z = Z_95): [number, number] {
+  if (exposed === 0) return [0, 0];
+  const p = conversions / exposed;
+  const denominator = 1 + (z * z) / exposed;
+  const center = (p + (z * z) / (2 * exposed)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / exposed + (z * z) / (4 * exposed * exposed))) / denominator;
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
+}
+
+/**
+ * Difference between two conversion rates with a normal-approximation interval
+ */
+export function differenceInterval(
+  variant: { conversions: number; exposed: number },
+  control: { conversions: number; exposed: number },
+  z = Z_95
+): { value: number; interval: [number, number]; significant: boolean } {
+  const p1 = variant.exposed ? variant.conversions / variant.exposed : 0;
+  const p0 = control.exposed ? control.conversions / control.exposed : 0;
+  const value = p1 - p0;
+  const se = Math.sqrt(
+    (variant.exposed ? (p1 * (1 - p1)) / variant.exposed : 0) +
+    (control.exposed ? (p0 * (1 - p0)) / control.exposed : 0)
+  );
+  const interval: [number, number] = [value - z * se, value + z * se];
+  return { value, interval, significant: se > 0 && (interval[0] > 0 || interval[1] < 0) };
+}
+
+/**
+ * Activity after the exposure counts as a conversion. Each fragment is an
+ * EXISTS subquery against the exposure row `e`, bounded by `until`.
+ */
+const CONVERSION_EVENTS: Record<ExperimentMetric, (until: Date) => Prisma.Sql> = {
+  LIKE: until => Prisma.sql`
+    SELECT 1 FROM "Like" l
+    WHERE l."sourceUserId" = e."userId" AND l."createdAt" BETWEEN e."createdAt" AND ${until}`,
+  // A match forms when the second of the two likes is made
+  MATCH: until => Prisma.sql`
+    SELECT 1 FROM "Like" l
+    JOIN "Like" r ON r."sourceUserId" = l."targetUserId" AND r."targetUserId" = l."sourceUserId"
+    WHERE l."sourceUserId" = e."userId"
+      AND GREATEST(l."createdAt", r."createdAt") BETWEEN e."createdAt" AND ${until}`,
+  MESSAGE: until => Prisma.sql`
+    SELECT 1 FROM "Message" m
+    WHERE m."senderId" = e."userId" AND m."created" BETWEEN e."createdAt" AND ${until}`,
+  AVATAR_UPLOAD: until => Prisma.sql`
+    SELECT 1 FROM "AvatarUploadMetric" a
+    WHERE a."userId" = e."userId" AND a."success" AND a."timestamp" BETWEEN e."createdAt" AND ${until}`
+};
+
+function toSummary(experiment: Experiment & { _count?: { exposures: number } }): ExperimentSummary {
+  const { _count, ...fields } = experiment;
+  return {
+    ...fields,
+    variants: experiment.variants as unknown as ExperimentVariant[],
+    exposures: _count?.exposures ?? 0
+  };
+}
+
+/**
+ * A/B tests on top of feature flags. A running experiment splits the members
+ * a flag is enabled for between named variants, logs each member's first
+ * exposure and measures conversions from the activity tables.
+ */
+export class ExperimentService {
+  // Running experiments by flag, reloaded on the same interval as the flags
+  private running: Map<string, Experiment> = new Map();
+  private lastLoadedAt = 0;
+  private exposed: Set<string> = new Set();
+
+  constructor(
+    private flags: FeatureFlagService = getFeatureFlagService(),
+    private refreshIntervalMs: number = parseInt(process.env.FEATURE_FLAG_REFRESH_MS || '10000')
+  ) {}
+
+  /**
+   * Evaluates a flag for a member and, when an experiment is running on it,
+   * their variant. Counts as an exposure, so call it where the variant is
+   * about to be shown.
+   */
+  async evaluate(flagKey: string, userContext: UserContext): Promise<FlagEvaluation> {
+    const enabled = await this.flags.isEnabled(flagKey, userContext);
+    if (!enabled) return { enabled, experimentKey: null, variant: null };
+
+    const experiment = await this.getRunning(flagKey);
+    if (!experiment) return { enabled, experimentKey: null, variant: null };
+
+    const variant = assignVariant(experiment.key, experiment.variants as unknown as ExperimentVariant[], userContext.userId);
+    await this.logExposure(experiment.key, userContext.userId, variant);
+    return { enabled, experimentKey: experiment.key, variant };
+  }
+
+  private async getRunning(flagKey: string): Promise<Experiment | null> {
+    if (Date.now() - this.lastLoadedAt >= this.refreshIntervalMs) {
+      try {
+        const experiments = await prisma.experiment.findMany({ where: { status: 'RUNNING' } });
+        this.running = new Map(experiments.map(experiment => [experiment.flagKey, experiment]));
+        this.lastLoadedAt = Date.now();
+      } catch (error) {
+        console.error('[Experiments] Failed to load running experiments:', error);
+      }
+    }
+    return this.running.get(flagKey) ?? null;
+  }
+
+  private async logExposure(experimentKey: string, userId: string, variant: string): Promise<void> {
+    const id = `${experimentKey}:${userId}`;
+    if (this.exposed.has(id)) return;
+
+    try {
+      // Only the first exposure is kept
+      await prisma.experimentExposure.createMany({
+        data: [{ experimentKey, userId, variant }],
+        skipDuplicates: true
+      });
+      if (this.exposed.size >= EXPOSURE_MEMORY) this.exposed.clear();
+      this.exposed.add(id);
+    } catch (error) {
+      console.error('[Experiments] Failed to log exposure:', { experimentKey, userId, error });
+    }
+  }
+
+  async list(): Promise<ExperimentSummary[]> {
+    const experiments = await prisma.experiment.findMany({
+      include: { _count: { select: { exposures: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+    return experiments.map(toSummary);
+  }
+
+  async create(input: ExperimentInput, createdBy: string): Promise<ExperimentSummary> {
+    if (!EXPERIMENT_KEY.test(input.key)) {
+      throw new ExperimentError('Key may only contain lowercase letters, digits and underscores');
+    }
+    if (!input.name?.trim()) throw new ExperimentError('Name is required');
+    if (!(await this.flags.getFlag(input.flagKey))) {
+      throw new ExperimentError(`Feature flag '${input.flagKey}' not found`);
+    }
+
+    const variants = input.variants ?? [];
+    if (variants.length < 2) throw new ExperimentError('An experiment needs at least two variants');
+    if (new Set(variants.map(variant => variant.key)).size !== variants.length) {
+      throw new ExperimentError('Variant keys must be unique');
+    }
+    if (variants.some(variant => !variant.key || !(variant.weight > 0))) {
+      throw new ExperimentError('Every variant needs a key and a positive weight');
+    }
+    if (!input.metrics?.length) throw new ExperimentError('Choose at least one metric');
+
+    try {
+      const experiment = await prisma.experiment.create({
+        data: {
+          key: input.key,
+          flagKey: input.flagKey,
+          name: input.name.trim(),
+          description: input.description ?? '',
+          variants: variants.map(({ key, weight }) => ({ key, weight })),
+          metrics: input.metrics,
+          createdBy
+        }
+      });
+      return toSummary(experiment);
+    } catch (error) {
+      if ((error as Prisma.PrismaClientKnownRequestError).code === 'P2002') {
+        throw new ExperimentError(`Experiment '${input.key}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Starts a draft experiment. A flag runs one experiment at a time.
+   */
+  async start(key: string): Promise<ExperimentSummary> {
+    const experiment = await this.find(key);
+    if (experiment.status !== 'DRAFT') throw new ExperimentError('Only draft experiments can be started');
+
+    const other = await prisma.experiment.findFirst({ where: { flagKey: experiment.flagKey, status: 'RUNNING' } });
+    if (other) {
+      throw new ExperimentError(`Experiment '${other.key}' is already running on '${experiment.flagKey}'`);
+    }
+
+    const started = await prisma.experiment.update({
+      where: { key },
+      data: { status: 'RUNNING', startedAt: new Date() }
+    });
+    this.lastLoadedAt = 0;
+    return toSummary(started);
+  }
+
+  async stop(key: string): Promise<ExperimentSummary> {
+    const experiment = await this.find(key);
+    if (experiment.status !== 'RUNNING') throw new ExperimentError('Only running experiments can be stopped');
+
+    const stopped = await prisma.experiment.update({
+      where: { key },
+      data: { status: 'STOPPED', endedAt: new Date() }
+    });
+    this.lastLoadedAt = 0;
+    return toSummary(stopped);
+  }
+
+  /**
+   * Exposures and conversions per variant, compared against the control
+   * (the first variant). Conversions stop counting when the experiment ends.
+   */
+  async getResults(key: string): Promise<ExperimentResults> {
+    const experiment = await this.find(key);
+    const variants = experiment.variants as unknown as ExperimentVariant[];
+    const until = experiment.endedAt ?? new Date();
+
+    const [exposures, conversions] = await Promise.all([
+      prisma.experimentExposure.groupBy({ by: ['variant'], where: { experimentKey: key }, _count: { _all: true } }),
+      Promise.all(experiment.metrics.map(async metric => {
+        const rows = await prisma.$queryRaw<{ variant: string; converted: number }[]>`
+          SELECT e."variant", COUNT(*)::int AS "converted"
+          FROM "ExperimentExposure" e
+          WHERE e."experimentKey" = ${key} AND EXISTS (${CONVERSION_EVENTS[metric](until)})
+          GROUP BY e."variant"
+        `;
+        return { metric, converted: new Map(rows.map(row => [row.variant, row.converted])) };
+      }))
+    ]);
+
+    const exposed = new Map(exposures.map(row => [row.variant, row._count._all]));
+    const control = variants[0].key;
+
+    return {
+      experiment: toSummary({ ...experiment, _count: { exposures: exposures.reduce((sum, row) => sum + row._count._all, 0) } }),
+      variants: variants.map(({ key: variant }) => {
+        const sample = { exposed: exposed.get(variant) ?? 0 };
+        const metrics: VariantResult['metrics'] = {};
+        for (const { metric, converted } of conversions) {
+          const current = { ...sample, conversions: converted.get(variant) ?? 0 };
+          const baseline = { exposed: exposed.get(control) ?? 0, conversions: converted.get(control) ?? 0 };
+          metrics[metric] = {
+            conversions: current.conversions,
+            rate: current.exposed ? current.conversions / current.exposed : 0,
+            interval: wilsonInterval(current.conversions, current.exposed),
+            difference: variant === control ? null : differenceInterval(current, baseline)
+          };
+        }
+        return { variant, exposed: sample.exposed, metrics };
+      })
+    };
+  }
+
+  private async find(key: string): Promise<Experiment> {
+    const experiment = await prisma.experiment.findUnique({ where: { key } });
+    if (!experiment) throw new ExperimentError(`Experiment '${key}' not found`);
+    return experiment;
+  }
+}
+
+let experimentService: ExperimentService | null = null;
+
+export function getExperimentService(): ExperimentService {
+  if (!experimentService) {
+    experimentService = new ExperimentService();
+  }
+  return experimentService;
+}
@@ -1,4 +1,7 @@
-interface FeatureFlag {
+import type { FeatureFlagChange, FeatureFlagVersion, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+export interface FeatureFlag {
   key: string;
   enabled: boolean;
   rolloutPercentage: number;
@@ -9,16 +12,18 @@ interface FeatureFlag {
     createdAt: string;
     updatedAt: string;
     createdBy: string;
+    updatedBy?: string;
+    version?: number;
   };
 }
 
-interface FeatureFlagCondition {
+export interface FeatureFlagCondition {
   type: 'user_id' | 'email' | 'role' | 'subscription' | 'registration_date' | 'custom';
   operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'greater_than' | 'less_than' | 'in' | 'not_in';
   value: string | number | string[];
 }
 
-interface UserContext {
+export interface UserContext {
   userId: string;
   email?: string;
   role?: string;
@@ -27,7 +32,7 @@ interface UserContext {
   customAttributes?: Record<string, any>;
 }
 
-interface RolloutConfig {
+export interface RolloutConfig {
   strategy: 'percentage' | 'user_segments' | 'conditional' | 'hybrid';
   percentage: number;
   segments: string[];
@@ -36,6 +41,117 @@ interface RolloutConfig {
   disabledUsers: string[];
 }
 
+export type FeatureFlagUpdate = Partial<Pick<FeatureFlag, 'enabled' | 'rolloutPercentage' | 'userSegments' | 'conditions'>> & {
+  description?: string;
+};
+
+// What a FeatureFlagVersion row stores, and what a rollback restores
+interface FeatureFlagSnapshot {
+  enabled: boolean;
+  rolloutPercentage: number;
+  userSegments: string[];
+  conditions: FeatureFlagCondition[];
+  description: string;
+  rollout: RolloutConfig | null;
+}
+
+export class FeatureFlagError extends Error {}
+
+// Environment variables that switch the built-in flags on or off
+const ENVIRONMENT_SWITCHES: Record<string, string> = {
+  avatar_upload_enabled: 'AVATAR_UPLOAD_ENABLED',
+  avatar_display_enabled: 'AVATAR_DISPLAY_ENABLED',
+  avatar_face_swap_enabled: 'AVATAR_FACE_SWAP_ENABLED',
+  avatar_encryption_enabled: 'AVATAR_ENCRYPTION_ENABLED',
+  avatar_analytics_enabled: 'AVATAR_ANALYTICS_ENABLED',
+  avatar_moderation_enabled: 'AVATAR_MODERATION_ENABLED',
+  avatar_progressive_loading_enabled: 'AVATAR_PROGRESSIVE_LOADING_ENABLED',
+  avatar_cdn_enabled: 'AVATAR_CDN_ENABLED'
+};
+
+const flagInclude = { rollout: true } satisfies Prisma.FeatureFlagInclude;
+type FeatureFlagRow = Prisma.FeatureFlagGetPayload<{ include: typeof flagInclude }>;
+
+function toRolloutConfig(row: NonNullable<FeatureFlagRow['rollout']>): RolloutConfig {
+  return {
+    strategy: row.strategy as RolloutConfig['strategy'],
+    percentage: row.percentage,
+    segments: row.segments,
+    conditions: row.conditions as unknown as FeatureFlagCondition[],
+    enabledUsers: row.enabledUsers,
+    disabledUsers: row.disabledUsers
+  };
+}
+
+function toFeatureFlag(row: FeatureFlagRow): FeatureFlag {
+  return {
+    key: row.key,
+    enabled: row.enabled,
+    rolloutPercentage: row.rolloutPercentage,
+    userSegments: row.userSegments,
+    conditions: row.conditions as unknown as FeatureFlagCondition[],
+    metadata: {
+      description: row.description,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+      createdBy: row.createdBy,
+      updatedBy: row.updatedBy ?? undefined,
+      version: row.version
+    }
+  };
+}
+
+function toSnapshot(row: FeatureFlagRow): FeatureFlagSnapshot {
+  return {
+    enabled: row.enabled,
+    rolloutPercentage: row.rolloutPercentage,
+    userSegments: row.userSegments,
+    conditions: row.conditions as unknown as FeatureFlagCondition[],
+    description: row.description,
+    rollout: row.rollout ? toRolloutConfig(row.rollout) : null
+  };
+}
+
+function rolloutData(config: RolloutConfig) {
+  return {
+    strategy: config.strategy,
+    percentage: config.percentage,
+    segments: config.segments,
+    conditions: config.conditions as unknown as Prisma.InputJsonValue,
+    enabledUsers: config.enabledUsers,
+    disabledUsers: config.disabledUsers
+  };
+}
+
+/**
+ * Builds the evaluation context for a user, or null if there's no such user
+ */
+export async function loadUserContext(userId: string): Promise<UserContext | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, role: true, member: { select: { created: true } } }
+  });
+  if (!user) return null;
+
+  return {
+    userId: user.id,
+    email: user.email || undefined,
+    role: user.role,
+    subscription: 'standard', // TODO: Get from subscription system
+    registrationDate: user.member?.created || new Date(),
+    customAttributes: {
+      betaUser: false // TODO: Get from user preferences
+    }
+  };
+}
+
+/**
+ * Evaluates feature flags for users. Flags live in the FeatureFlag tables;
+ * each instance keeps them in memory and reloads when its periodic check
+ * sees another instance changed them. The built-in defaults seed the tables
+ * on first use and keep flags working if the database can't be reached.
+ * AVATAR_*_ENABLED switches in the environment apply on top of every load.
+ */
 export class FeatureFlagService {
   private flags: Map<string, FeatureFlag> = new Map();
   private rolloutConfigs: Map<string, RolloutConfig> = new Map();
@@ -43,7 +159,12 @@ export class FeatureFlagService {
   private cacheExpiry: Map<string, number> = new Map();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
-  constructor() {
+  // Flag count and version total of the loaded state; null until the first load
+  private loadedStamp: string | null = null;
+  private lastCheckedAt = 0;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(private refreshIntervalMs: number = parseInt(process.env.FEATURE_FLAG_REFRESH_MS || '10000')) {
     this.initializeDefaultFlags();
     this.loadFlagsFromEnvironment();
   }
@@ -163,16 +284,9 @@ export class FeatureFlagService {
 
   private loadFlagsFromEnvironment(): void {
     // Load feature flags from environment variables
-    const envFlags = {
-      avatar_upload_enabled: process.env.AVATAR_UPLOAD_ENABLED === 'true',
-      avatar_display_enabled: process.env.AVATAR_DISPLAY_ENABLED === 'true',
-      avatar_face_swap_enabled: process.env.AVATAR_FACE_SWAP_ENABLED === 'true',
-      avatar_encryption_enabled: process.env.AVATAR_ENCRYPTION_ENABLED === 'true',
-      avatar_analytics_enabled: process.env.AVATAR_ANALYTICS_ENABLED === 'true',
-      avatar_moderation_enabled: process.env.AVATAR_MODERATION_ENABLED === 'true',
-      avatar_progressive_loading_enabled: process.env.AVATAR_PROGRESSIVE_LOADING_ENABLED === 'true',
-      avatar_cdn_enabled: process.env.AVATAR_CDN_ENABLED === 'true'
-    };
+    const envFlags = Object.fromEntries(
+      Object.entries(ENVIRONMENT_SWITCHES).map(([key, variable]) => [key, process.env[variable] === 'true'])
+    );
 
     // Update flags based on environment variables
     Object.entries(envFlags).forEach(([key, enabled]) => {
@@ -188,6 +302,21 @@ export class FeatureFlagService {
     this.loadRolloutConfigs();
   }
 
+  /**
+   * Switches set in the environment win over the stored flags, so a
+   * deployment can turn a feature off (or on) whatever the admin panel says.
+   * Unset switches leave the stored value alone.
+   */
+  private applyEnvironmentOverrides(): void {
+    for (const [key, variable] of Object.entries(ENVIRONMENT_SWITCHES)) {
+      const value = process.env[variable];
+      const flag = this.flags.get(key);
+      if (flag && (value === 'true' || value === 'false')) {
+        flag.enabled = value === 'true';
+      }
+    }
+  }
+
   private loadRolloutConfigs(): void {
     // Load rollout configurations from environment
     const rolloutConfigs: Record<string, RolloutConfig> = {
@@ -225,6 +354,8 @@ export class FeatureFlagService {
    */
   async isEnabled(flagKey: string, userContext: UserContext): Promise<boolean> {
     try {
+      await this.ensureFresh();
+
       // Check cache first
       const cached = this.getCachedResult(flagKey, userContext.userId);
       if (cached !== null) {
@@ -462,48 +593,225 @@ export class FeatureFlagService {
   }
 
   /**
-   * Update a feature flag configuration
+   * Reloads the flags if they changed since the last load. Checks at most
+   * once per refresh interval unless forced.
    */
-  updateFlag(flagKey: string, updates: Partial<FeatureFlag>): boolean {
-    const flag = this.flags.get(flagKey);
-    if (!flag) {
-      return false;
+  private async ensureFresh(force = false): Promise<void> {
+    if (!force && Date.now() - this.lastCheckedAt < this.refreshIntervalMs) return;
+    if (!this.refreshing) {
+      this.refreshing = this.refresh().finally(() => {
+        this.refreshing = null;
+      });
     }
+    return this.refreshing;
+  }
 
-    const updatedFlag = {
-      ...flag,
-      ...updates,
-      metadata: {
-        ...flag.metadata,
-        updatedAt: new Date().toISOString()
+  private async refresh(): Promise<void> {
+    this.lastCheckedAt = Date.now();
+    try {
+      if (this.loadedStamp === null) {
+        await this.seedDefaults();
       }
-    };
 
-    this.flags.set(flagKey, updatedFlag);
-    this.clearCache(); // Clear cache when flags are updated
-    return true;
+      // Every change bumps a version, so the total moves whenever anything changed
+      const stats = await prisma.featureFlag.aggregate({ _count: { _all: true }, _sum: { version: true } });
+      const stamp = `${stats._count._all}:${stats._sum.version ?? 0}`;
+      if (stamp === this.loadedStamp) return;
+
+      const rows = await prisma.featureFlag.findMany({ include: flagInclude });
+      this.flags = new Map(rows.map(row => [row.key, toFeatureFlag(row)]));
+      this.applyEnvironmentOverrides();
+      this.rolloutConfigs = new Map(
+        rows.filter(row => row.rollout).map(row => [row.key, toRolloutConfig(row.rollout!)])
+      );
+      this.clearCache();
+      this.loadedStamp = stamp;
+    } catch (error) {
+      // Keep serving what we have; the next check tries again
+      console.error('[FeatureFlags] Failed to load flags:', error);
+    }
+  }
+
+  /**
+   * Writes the built-in flags that aren't in the database yet, as version 1
+   */
+  private async seedDefaults(): Promise<void> {
+    const existing = await prisma.featureFlag.findMany({ select: { key: true } });
+    const known = new Set(existing.map(flag => flag.key));
+
+    for (const flag of this.flags.values()) {
+      if (known.has(flag.key)) continue;
+      const rollout = this.rolloutConfigs.get(flag.key);
+
+      await prisma.$transaction(async (tx) => {
+        const created = await tx.featureFlag.create({
+          data: {
+            key: flag.key,
+            enabled: flag.enabled,
+            rolloutPercentage: flag.rolloutPercentage,
+            userSegments: flag.userSegments,
+            conditions: flag.conditions as unknown as Prisma.InputJsonValue,
+            description: flag.metadata.description,
+            createdBy: flag.metadata.createdBy,
+            ...(rollout ? { rollout: { create: rolloutData(rollout) } } : {})
+          },
+          include: flagInclude
+        });
+        await tx.featureFlagVersion.create({
+          data: {
+            flagKey: created.key,
+            version: created.version,
+            change: 'CREATE',
+            snapshot: toSnapshot(created) as unknown as Prisma.InputJsonValue,
+            changedBy: flag.metadata.createdBy
+          }
+        });
+      }).catch(error => {
+        // Another instance seeded it first
+        if ((error as Prisma.PrismaClientKnownRequestError).code !== 'P2002') throw error;
+      });
+    }
+  }
+
+  /**
+   * Runs `write` against an existing flag, then bumps its version and
+   * records the resulting state. Returns false if the flag doesn't exist.
+   */
+  private async commit(
+    flagKey: string,
+    change: FeatureFlagChange,
+    changedBy: string | null,
+    note: string | null,
+    write: (tx: Prisma.TransactionClient) => Promise<unknown>
+  ): Promise<boolean> {
+    const committed = await prisma.$transaction(async (tx) => {
+      const current = await tx.featureFlag.findUnique({ where: { key: flagKey }, select: { key: true } });
+      if (!current) return false;
+
+      await write(tx);
+      const updated = await tx.featureFlag.update({
+        where: { key: flagKey },
+        data: { version: { increment: 1 }, updatedBy: changedBy },
+        include: flagInclude
+      });
+      await tx.featureFlagVersion.create({
+        data: {
+          flagKey,
+          version: updated.version,
+          change,
+          snapshot: toSnapshot(updated) as unknown as Prisma.InputJsonValue,
+          changedBy,
+          note
+        }
+      });
+      return true;
+    });
+
+    if (committed) {
+      await this.ensureFresh(true);
+    }
+    return committed;
+  }
+
+  /**
+   * Update a feature flag configuration. The note is kept with the version.
+   */
+  async updateFlag(
+    flagKey: string,
+    updates: FeatureFlagUpdate,
+    changedBy: string | null = null,
+    note: string | null = null
+  ): Promise<boolean> {
+    return this.commit(flagKey, 'UPDATE', changedBy, note, tx => tx.featureFlag.update({
+      where: { key: flagKey },
+      data: {
+        enabled: updates.enabled,
+        rolloutPercentage: updates.rolloutPercentage,
+        userSegments: updates.userSegments,
+        conditions: updates.conditions as unknown as Prisma.InputJsonValue | undefined,
+        description: updates.description
+      }
+    }));
   }
 
   /**
    * Update rollout configuration
    */
-  updateRollout(flagKey: string, config: RolloutConfig): boolean {
-    this.rolloutConfigs.set(flagKey, config);
-    this.clearCache(); // Clear cache when rollout configs are updated
-    return true;
+  async updateRollout(flagKey: string, config: RolloutConfig, changedBy: string | null = null): Promise<boolean> {
+    return this.commit(flagKey, 'ROLLOUT', changedBy, null, tx => tx.featureFlagRollout.upsert({
+      where: { flagKey },
+      create: { flagKey, ...rolloutData(config) },
+      update: rolloutData(config)
+    }));
+  }
+
+  /**
+   * Restores a flag and its rollout to how they were at `version`. The
+   * rollback is itself a new version, so it can be undone the same way.
+   */
+  async rollback(
+    flagKey: string,
+    version: number,
+    changedBy: string | null = null,
+    reason: string | null = null
+  ): Promise<boolean> {
+    const target = await prisma.featureFlagVersion.findUnique({ where: { flagKey_version: { flagKey, version } } });
+    if (!target) throw new FeatureFlagError(`Version ${version} of '${flagKey}' not found`);
+    const snapshot = target.snapshot as unknown as FeatureFlagSnapshot;
+
+    const note = `Rolled back to version ${version}${reason ? `: ${reason}` : ''}`;
+
+    return this.commit(flagKey, 'ROLLBACK', changedBy, note, async (tx) => {
+      await tx.featureFlag.update({
+        where: { key: flagKey },
+        data: {
+          enabled: snapshot.enabled,
+          rolloutPercentage: snapshot.rolloutPercentage,
+          userSegments: snapshot.userSegments,
+          conditions: snapshot.conditions as unknown as Prisma.InputJsonValue,
+          description: snapshot.description
+        }
+      });
+      if (snapshot.rollout) {
+        await tx.featureFlagRollout.upsert({
+          where: { flagKey },
+          create: { flagKey, ...rolloutData(snapshot.rollout) },
+          update: rolloutData(snapshot.rollout)
+        });
+      } else {
+        await tx.featureFlagRollout.deleteMany({ where: { flagKey } });
+      }
+    });
+  }
+
+  /**
+   * Every version of a flag, newest first
+   */
+  async getHistory(flagKey: string): Promise<FeatureFlagVersion[]> {
+    return prisma.featureFlagVersion.findMany({
+      where: { flagKey },
+      orderBy: { version: 'desc' }
+    });
   }
 
   /**
    * Get all feature flags
    */
-  getAllFlags(): FeatureFlag[] {
+  async getAllFlags(): Promise<FeatureFlag[]> {
+    await this.ensureFresh();
     return Array.from(this.flags.values());
   }
 
+  async getFlag(flagKey: string): Promise<FeatureFlag | null> {
+    await this.ensureFresh();
+    return this.flags.get(flagKey) || null;
+  }
+
   /**
    * Get rollout configuration for a flag
    */
-  getRolloutConfig(flagKey: string): RolloutConfig | null {
+  async getRolloutConfig(flagKey: string): Promise<RolloutConfig | null> {
+    await this.ensureFresh();
     return this.rolloutConfigs.get(flagKey) || null;
   }
 
@@ -528,12 +836,13 @@ export class FeatureFlagService {
   /**
    * Get feature flag statistics
    */
-  getStatistics(): {
+  async getStatistics(): Promise<{
     totalFlags: number;
     enabledFlags: number;
     flagsWithRollout: number;
     cacheSize: number;
-  } {
+  }> {
+    await this.ensureFresh();
     const totalFlags = this.flags.size;
     const enabledFlags = Array.from(this.flags.values()).filter(f => f.enabled).length;
     const flagsWithRollout = this.rolloutConfigs.size;
@@ -0,0 +1,236 @@
+import type { FeatureFlagGuard, FlagGuardAction, FlagGuardSignal } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { recordAudit, SYSTEM_ACTOR } from '@/lib/audit';
+import { HEALTH_CHECK_NAMES, type HealthCheckName, type HealthCheckResult } from '@/lib/healthChecks';
+import { FeatureFlagService, getFeatureFlagService } from './featureFlagService';
+import { AvatarAnalyticsService, getAvatarAnalyticsService } from './avatarAnalyticsService';
+import { ProductionConfigService, getProductionConfigService } from './productionConfigService';
+
+export interface FlagGuardInput {
+  signal: FlagGuardSignal;
+  check?: HealthCheckName | null;
+  threshold: number;
+  windowMinutes?: number;
+  minEvents?: number;
+  action?: FlagGuardAction;
+}
+
+export interface GuardTrip {
+  guardId: string;
+  flagKey: string;
+  action: FlagGuardAction;
+  reason: string;
+}
+
+export class FlagGuardError extends Error {}
+
+interface FlagGuardConfig {
+  // How long health check samples are kept
+  sampleRetentionHours: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const SIGNALS: FlagGuardSignal[] = ['HEALTH_CHECK', 'UPLOAD_ERROR_RATE', 'ACCESS_ERROR_RATE'];
+const ACTIONS: FlagGuardAction[] = ['DISABLE', 'ROLLBACK'];
+
+/**
+ * Kill-switches for feature flags. Each guard watches one signal, either
+ * repeated failures of a /api/health dependency check or the avatar upload
+ * or access error rate, and turns its flag off or rolls it back to the
+ * previous version once the signal crosses the threshold. Trips are noted
+ * on the flag version, written to the audit log and sent as alerts.
+ */
+export class FlagGuardService {
+  private config: FlagGuardConfig;
+
+  constructor(
+    config?: Partial<FlagGuardConfig>,
+    private flags: FeatureFlagService = getFeatureFlagService(),
+    private analytics: AvatarAnalyticsService = getAvatarAnalyticsService(),
+    private alerts: ProductionConfigService = getProductionConfigService()
+  ) {
+    this.config = {
+      sampleRetentionHours: parseInt(process.env.HEALTH_SAMPLE_RETENTION_HOURS || '24'),
+      ...config
+    };
+  }
+
+  /**
+   * Stores one round of health check results and drops samples past retention
+   */
+  async recordHealth(checks: Partial<Record<HealthCheckName, HealthCheckResult>>, now = new Date()): Promise<void> {
+    await prisma.healthCheckSample.createMany({
+      data: Object.entries(checks).map(([check, result]) => ({ check, status: result.status, createdAt: now }))
+    });
+    await prisma.healthCheckSample.deleteMany({
+      where: { createdAt: { lt: new Date(now.getTime() - this.config.sampleRetentionHours * 60 * MINUTE_MS) } }
+    });
+  }
+
+  /**
+   * Checks every active guard on an enabled flag and trips the ones whose
+   * signal is bad. A guard that tripped stays quiet for one window.
+   */
+  async evaluate(now = new Date()): Promise<GuardTrip[]> {
+    const guards = await prisma.featureFlagGuard.findMany({
+      where: { enabled: true, flag: { enabled: true } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const trips: GuardTrip[] = [];
+    const tripped = new Set<string>();
+    for (const guard of guards) {
+      // One trip per flag per run; a second guard would act on the first one's change
+      if (tripped.has(guard.flagKey)) continue;
+      const since = new Date(now.getTime() - guard.windowMinutes * MINUTE_MS);
+      if (guard.lastTriggeredAt && guard.lastTriggeredAt > since) continue;
+
+      try {
+        const reason = await this.measure(guard, since, now);
+        if (!reason) continue;
+
+        const action = await this.trip(guard, reason, now);
+        if (action) {
+          tripped.add(guard.flagKey);
+          trips.push({ guardId: guard.id, flagKey: guard.flagKey, action, reason });
+        }
+      } catch (error) {
+        console.error('[FlagGuards] Failed to evaluate guard:', { guardId: guard.id, flagKey: guard.flagKey, error });
+      }
+    }
+    return trips;
+  }
+
+  /**
+   * Why the guard should trip, or null if its signal is fine
+   */
+  private async measure(guard: FeatureFlagGuard, since: Date, now: Date): Promise<string | null> {
+    if (guard.signal === 'HEALTH_CHECK') {
+      const failures = await prisma.healthCheckSample.count({
+        where: { check: guard.check ?? '', status: 'error', createdAt: { gte: since, lte: now } }
+      });
+      return failures >= guard.threshold
+        ? `${guard.check} health check failed ${failures} times in ${guard.windowMinutes} minutes`
+        : null;
+    }
+
+    const rates = await this.analytics.getErrorRates(since, now);
+    const [label, rate, events] = guard.signal === 'UPLOAD_ERROR_RATE'
+      ? ['avatar upload', rates.uploadErrorRate, rates.totalUploads]
+      : ['avatar access', rates.accessErrorRate, rates.totalAccesses];
+    if (events < guard.minEvents || rate <= guard.threshold) return null;
+
+    return `${label} error rate ${rate.toFixed(1)}% over ${events} events in ${guard.windowMinutes} minutes exceeds ${guard.threshold}%`;
+  }
+
+  /**
+   * Applies the guard's action and returns what was done, or null if the
+   * flag is gone
+   */
+  private async trip(guard: FeatureFlagGuard, reason: string, now: Date): Promise<FlagGuardAction | null> {
+    const changedBy = `guard:${guard.id}`;
+    const before = await this.flags.getFlag(guard.flagKey);
+    if (!before) return null;
+
+    let action: FlagGuardAction = guard.action;
+    let applied: boolean;
+    if (action === 'ROLLBACK') {
+      const [current, previous] = await this.flags.getHistory(guard.flagKey);
+      if (previous && !current.changedBy?.startsWith('guard:')) {
+        applied = await this.flags.rollback(guard.flagKey, previous.version, changedBy, reason);
+      } else {
+        // Nothing to go back to, or a guard already rolled back and the
+        // signal is still bad, so turn the flag off instead
+        action = 'DISABLE';
+        applied = await this.flags.updateFlag(guard.flagKey, { enabled: false }, changedBy, reason);
+      }
+    } else {
+      applied = await this.flags.updateFlag(guard.flagKey, { enabled: false }, changedBy, reason);
+    }
+    if (!applied) return null;
+
+    const after = await this.flags.getFlag(guard.flagKey);
+    await prisma.$transaction(async (tx) => {
+      await tx.featureFlagGuard.update({
+        where: { id: guard.id },
+        data: { lastTriggeredAt: now, lastReason: reason }
+      });
+      await recordAudit({
+        action: action === 'ROLLBACK' ? 'feature_flag.auto_rollback' : 'feature_flag.auto_disable',
+        targetType: 'feature_flag',
+        targetId: guard.flagKey,
+        before,
+        after: { flag: after, guardId: guard.id, reason }
+      }, SYSTEM_ACTOR, tx);
+    });
+    await this.alerts.sendAlert(
+      `Feature flag '${guard.flagKey}' was ${action === 'ROLLBACK' ? 'rolled back' : 'disabled'}: ${reason}`,
+      'error'
+    );
+    return action;
+  }
+
+  async list(flagKey: string): Promise<FeatureFlagGuard[]> {
+    return prisma.featureFlagGuard.findMany({ where: { flagKey }, orderBy: { createdAt: 'asc' } });
+  }
+
+  async create(flagKey: string, input: FlagGuardInput, createdBy: string): Promise<FeatureFlagGuard> {
+    if (!(await this.flags.getFlag(flagKey))) throw new FlagGuardError(`Feature flag '${flagKey}' not found`);
+    if (!SIGNALS.includes(input.signal)) throw new FlagGuardError(`signal must be one of ${SIGNALS.join(', ')}`);
+    if (input.action && !ACTIONS.includes(input.action)) {
+      throw new FlagGuardError(`action must be one of ${ACTIONS.join(', ')}`);
+    }
+
+    if (input.signal === 'HEALTH_CHECK') {
+      if (!input.check || !HEALTH_CHECK_NAMES.includes(input.check)) {
+        throw new FlagGuardError(`check must be one of ${HEALTH_CHECK_NAMES.join(', ')}`);
+      }
+      if (!Number.isInteger(input.threshold) || input.threshold < 1) {
+        throw new FlagGuardError('threshold must be a whole number of failures');
+      }
+    } else if (!(input.threshold >= 0 && input.threshold < 100)) {
+      throw new FlagGuardError('threshold must be an error percentage below 100');
+    }
+    if (input.windowMinutes !== undefined && !(Number.isInteger(input.windowMinutes) && input.windowMinutes > 0)) {
+      throw new FlagGuardError('windowMinutes must be a positive whole number');
+    }
+
+    return prisma.featureFlagGuard.create({
+      data: {
+        flagKey,
+        signal: input.signal,
+        check: input.signal === 'HEALTH_CHECK' ? input.check : null,
+        threshold: input.threshold,
+        windowMinutes: input.windowMinutes,
+        minEvents: input.minEvents,
+        action: input.action,
+        createdBy
+      }
+    });
+  }
+
+  async setEnabled(flagKey: string, id: string, enabled: boolean): Promise<FeatureFlagGuard> {
+    await this.find(flagKey, id);
+    return prisma.featureFlagGuard.update({ where: { id }, data: { enabled } });
+  }
+
+  async remove(flagKey: string, id: string): Promise<FeatureFlagGuard> {
+    await this.find(flagKey, id);
+    return prisma.featureFlagGuard.delete({ where: { id } });
+  }
+
+  private async find(flagKey: string, id: string): Promise<FeatureFlagGuard> {
+    const guard = await prisma.featureFlagGuard.findUnique({ where: { id } });
+    if (!guard || guard.flagKey !== flagKey) throw new FlagGuardError('Guard not found');
+    return guard;
+  }
+}
+
+let flagGuardService: FlagGuardService | null = null;
+
+export function getFlagGuardService(): FlagGuardService {
+  if (!flagGuardService) {
+    flagGuardService = new FlagGuardService();
+  }
+  return flagGuardService;
+}
@@ -0,0 +1,237 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import type { Job, JobRun, JobTrigger, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { JOBS, nextCronRun, type JobDefinition, type JobResult } from '@/lib/jobs';
+
+export interface JobSummary {
+  name: string;
+  description: string;
+  schedule: string;
+  paused: boolean;
+  running: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastRun: JobRun | null;
+}
+
+export class JobError extends Error {}
+
+interface JobRunnerConfig {
+  // Lock timeout for jobs that don't set their own
+  defaultTimeoutMs: number;
+  // How long finished runs are kept
+  historyDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Runs the scheduled maintenance jobs in lib/jobs. Each job has a row that
+ * holds its next run time, pause switch and lock; a run first takes the lock
+ * with a conditional update, so when several instances (or the cron route and
+ * a local runner) look at the same due job only one of them runs it. Every
+ * run is recorded in JobRun with its result or error.
+ */
+export class JobRunnerService {
+  private config: JobRunnerConfig;
+  private instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  constructor(
+    config?: Partial<JobRunnerConfig>,
+    private jobs: Record<string, JobDefinition> = JOBS,
+    private clock: () => Date = () => new Date()
+  ) {
+    this.config = {
+      defaultTimeoutMs: parseInt(process.env.JOB_LOCK_TIMEOUT_MS || String(5 * 60 * 1000)),
+      historyDays: parseInt(process.env.JOB_HISTORY_DAYS || '30'),
+      ...config
+    };
+  }
+
+  /**
+   * Runs every unpaused job whose next run time has passed, one after
+   * another, and prunes old run history. Each job reads the clock when it
+   * starts, so its lock and next slot don't date from before the jobs ahead
+   * of it.
+   */
+  async runDue(): Promise<JobRun[]> {
+    const now = this.clock();
+    await this.register(now);
+
+    const due = await prisma.job.findMany({
+      where: { name: { in: Object.keys(this.jobs) }, paused: false, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' }
+    });
+
+    const runs: JobRun[] = [];
+    for (const job of due) {
+      const run = await this.execute(job.name, 'SCHEDULE');
+      if (run) runs.push(run);
+    }
+
+    await prisma.jobRun.deleteMany({
+      where: { finishedAt: { lt: new Date(now.getTime() - this.config.historyDays * DAY_MS) } }
+    });
+    return runs;
+  }
+
+  /**
+   * Runs a job now, paused or not. Its schedule is left alone unless the run
+   * stops early (see JobResult).
+   */
+  async trigger(name: string, triggeredBy?: string): Promise<JobRun> {
+    this.getDefinition(name);
+    await this.register(this.clock());
+
+    const run = await this.execute(name, 'MANUAL', triggeredBy);
+    if (!run) throw new JobError(`Job ${name} is already running`);
+    return run;
+  }
+
+  async setPaused(name: string, paused: boolean): Promise<Job> {
+    const definition = this.getDefinition(name);
+    const now = this.clock();
+    await this.register(now);
+
+    return prisma.job.update({
+      where: { name },
+      // Resuming starts from the next slot instead of catching up on the missed ones
+      data: paused ? { paused } : { paused, nextRunAt: nextCronRun(definition.schedule, now) }
+    });
+  }
+
+  async list(): Promise<JobSummary[]> {
+    const now = this.clock();
+    await this.register(now);
+
+    const rows = await prisma.job.findMany({
+      where: { name: { in: Object.keys(this.jobs) } },
+      include: { runs: { orderBy: { startedAt: 'desc' }, take: 1 } }
+    });
+    const byName = new Map(rows.map(row => [row.name, row]));
+
+    return Object.entries(this.jobs).map(([name, definition]) => {
+      const row = byName.get(name);
+      return {
+        name,
+        description: definition.description,
+        schedule: definition.schedule,
+        paused: row?.paused ?? false,
+        running: !!row?.lockedUntil && row.lockedUntil > now,
+        nextRunAt: row?.nextRunAt ?? null,
+        lastRunAt: row?.lastRunAt ?? null,
+        lastRun: row?.runs[0] ?? null
+      };
+    });
+  }
+
+  async history(name: string, limit = 20): Promise<JobRun[]> {
+    this.getDefinition(name);
+    return prisma.jobRun.findMany({
+      where: { jobName: name },
+      orderBy: { startedAt: 'desc' },
+      take: limit
+    });
+  }
+
+  private getDefinition(name: string): JobDefinition {
+    const definition = this.jobs[name];
+    if (!definition) throw new JobError(`Unknown job ${name}`);
+    return definition;
+  }
+
+  /**
+   * Creates rows for jobs added to the registry since the last run
+   */
+  private async register(now: Date): Promise<void> {
+    const existing = new Set((await prisma.job.findMany({ select: { name: true } })).map(job => job.name));
+    const missing = Object.entries(this.jobs).filter(([name]) => !existing.has(name));
+    if (!missing.length) return;
+
+    await prisma.job.createMany({
+      data: missing.map(([name, definition]) => ({ name, nextRunAt: nextCronRun(definition.schedule, now) })),
+      skipDuplicates: true
+    });
+  }
+
+  /**
+   * Takes the job's lock and runs it. Returns null when another runner holds
+   * the lock or, for scheduled runs, already took this slot.
+   */
+  private async execute(name: string, trigger: JobTrigger, triggeredBy?: string): Promise<JobRun | null> {
+    const definition = this.getDefinition(name);
+    const scheduled = trigger === 'SCHEDULE';
+    const now = this.clock();
+    const deadline = new Date(now.getTime() + (definition.timeoutMs ?? this.config.defaultTimeoutMs));
+
+    const { count } = await prisma.job.updateMany({
+      where: {
+        name,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+        ...(scheduled ? { paused: false, nextRunAt: { lte: now } } : {})
+      },
+      data: {
+        lockedBy: this.instanceId,
+        lockedUntil: deadline,
+        // The slot is used up whether or not the run succeeds
+        ...(scheduled ? { nextRunAt: nextCronRun(definition.schedule, now) } : {})
+      }
+    });
+    if (!count) return null;
+
+    // Whoever held an expired lock died mid-run
+    await prisma.jobRun.updateMany({
+      where: { jobName: name, status: 'RUNNING' },
+      data: { status: 'FAILED', error: 'Abandoned: the runner stopped before finishing', finishedAt: now }
+    });
+
+    const previous = await prisma.jobRun.findFirst({
+      where: { jobName: name, status: 'SUCCEEDED' },
+      orderBy: { startedAt: 'desc' },
+      select: { result: true }
+    });
+    const resumeFrom = (previous?.result as JobResult | null)?.resumeFrom ?? null;
+
+    const run = await prisma.jobRun.create({
+      data: { jobName: name, trigger, triggeredBy, startedAt: now }
+    });
+
+    let outcome: Prisma.JobRunUpdateInput;
+    let unfinished = false;
+    try {
+      const result = await definition.run({ now, trigger, deadline, resumeFrom });
+      outcome = { status: 'SUCCEEDED', result: result as Prisma.InputJsonValue };
+      unfinished = !!result.resumeFrom;
+    } catch (error) {
+      console.error(`[Jobs] ${name} failed:`, error);
+      outcome = { status: 'FAILED', error: error instanceof Error ? error.message : String(error) };
+    }
+    const finishedAt = this.clock();
+
+    const finished = await prisma.jobRun.update({
+      where: { id: run.id },
+      data: { ...outcome, durationMs: finishedAt.getTime() - now.getTime(), finishedAt }
+    });
+    await prisma.job.updateMany({
+      where: { name, lockedBy: this.instanceId },
+      data: {
+        lockedBy: null,
+        lockedUntil: null,
+        lastRunAt: now,
+        // Pick up where it stopped on the next pass rather than the next slot
+        ...(unfinished ? { nextRunAt: finishedAt } : {})
+      }
+    });
+    return finished;
+  }
+}
+
+let jobRunnerService: JobRunnerService | null = null;
+
+export function getJobRunnerService(): JobRunnerService {
+  if (!jobRunnerService) {
+    jobRunnerService = new JobRunnerService();
+  }
+  return jobRunnerService;
+}
@@ -1,5 +1,8 @@
 import { prisma } from '@/lib/prisma';
 import { updateAvatarPermissions } from '@/app/actions/avatarActions';
+import { ACTIVE_MATCH_STATES, matchKey } from '@/lib/matches/lifecycle';
+import { getMatchLifecycleService } from './matchLifecycleService';
+import { getOutboxService } from './outboxService';
 
 export interface MatchEvent {
   type: 'match_created' | 'match_deleted' | 'match_blocked';
@@ -24,7 +27,7 @@ export class MatchEventHandler {
       ]);
 
       // Update match status in database to indicate mutual match
-      await this.updateMatchStatus(userA, userB, 1); // 1 = active match
+      await this.updateMatchStatus(userA, userB, 'MATCHED', matchId);
 
       console.log(`[MatchEventHandler] Avatar access granted for match: ${userA} <-> ${userB}`);
 
@@ -72,7 +75,7 @@ export class MatchEventHandler {
       ]);
 
       // Update match status to blocked
-      await this.updateMatchStatus(userA, userB, 3); // 3 = blocked
+      await this.updateMatchStatus(userA, userB, 'BLOCKED');
 
       console.log(`[MatchEventHandler] Avatar access revoked for blocked match: ${userA} <-> ${userB}`);
 
@@ -152,19 +155,19 @@ export class MatchEventHandler {
   }
 
   /**
-   * Updates match status in the database
+   * Moves the pair through the match lifecycle
    */
-  private async updateMatchStatus(userA: string, userB: string, status: number): Promise<void> {
+  private async updateMatchStatus(
+    userA: string,
+    userB: string,
+    state: 'MATCHED' | 'BLOCKED',
+    matchId?: string
+  ): Promise<void> {
     try {
-      // Update both directions of the like relationship
-      await prisma.like.updateMany({
-        where: {
-          OR: [
-            { sourceUserId: userA, targetUserId: userB },
-            { sourceUserId: userB, targetUserId: userA }
-          ]
-        },
-        data: { matchStatus: status }
+      await getOutboxService().transaction(async (tx, emit) => {
+        const lifecycle = getMatchLifecycleService();
+        if (state === 'MATCHED') await lifecycle.matchCreated(tx, emit, userA, userB, matchId);
+        else await lifecycle.block(tx, emit, userA, userB);
       });
     } catch (error) {
       console.error('[MatchEventHandler] Failed to update match status:', error);
@@ -176,14 +179,17 @@ export class MatchEventHandler {
    */
   private async removeMatchRecords(userA: string, userB: string): Promise<void> {
     try {
-      // Delete both like records
-      await prisma.like.deleteMany({
-        where: {
-          OR: [
-            { sourceUserId: userA, targetUserId: userB },
-            { sourceUserId: userB, targetUserId: userA }
-          ]
-        }
+      await getOutboxService().transaction(async (tx, emit) => {
+        // Delete both like records
+        await tx.like.deleteMany({
+          where: {
+            OR: [
+              { sourceUserId: userA, targetUserId: userB },
+              { sourceUserId: userB, targetUserId: userA }
+            ]
+          }
+        });
+        await getMatchLifecycleService().unmatch(tx, emit, userA, userB);
       });
     } catch (error) {
       console.error('[MatchEventHandler] Failed to remove match records:', error);
@@ -195,17 +201,12 @@ export class MatchEventHandler {
    */
   private async checkIfWasMatch(userA: string, userB: string): Promise<boolean> {
     try {
-      const matches = await prisma.like.findMany({
-        where: {
-          OR: [
-            { sourceUserId: userA, targetUserId: userB },
-            { sourceUserId: userB, targetUserId: userA }
-          ],
-          matchStatus: 1 // Active match
-        }
+      const match = await prisma.match.findUnique({
+        where: { userAId_userBId: matchKey(userA, userB) },
+        select: { state: true }
       });
 
-      return matches.length === 2; // Both users liked each other
+      return !!match && ACTIVE_MATCH_STATES.includes(match.state);
     } catch (error) {
       console.error('[MatchEventHandler] Failed to check if was match:', error);
       return false;
@@ -239,51 +240,56 @@ export class MatchEventHandler {
   }
 
   /**
-   * Repairs avatar access for existing matches (migration/recovery)
+   * Repairs avatar access for existing matches (migration/recovery). Matches
+   * are read a page at a time in key order; given a `deadline` the repair
+   * stops there and returns `resumeFrom`, the last pair it repaired, to pass
+   * back as `after` on the next call.
    */
-  async repairExistingMatches(): Promise<{ processed: number; errors: number }> {
+  async repairExistingMatches(
+    options: { after?: string | null; deadline?: Date } = {}
+  ): Promise<{ processed: number; errors: number; resumeFrom: string | null }> {
     let processed = 0;
     let errors = 0;
+    let cursor = options.after ? parseRepairCursor(options.after) : null;
 
     try {
-      console.log('[MatchEventHandler] Starting repair of existing matches...');
-
-      // Find all active mutual matches
-      const mutualMatches = await prisma.like.findMany({
-        where: { matchStatus: 1 },
-        select: {
-          sourceUserId: true,
-          targetUserId: true
-        }
-      });
+      console.log(`[MatchEventHandler] ${cursor ? 'Resuming' : 'Starting'} repair of existing matches...`);
+
+      while (true) {
+        // Active matches, one row per pair
+        const page = await prisma.match.findMany({
+          where: {
+            state: { in: [...ACTIVE_MATCH_STATES] },
+            ...(cursor ? {
+              OR: [
+                { userAId: { gt: cursor.userAId } },
+                { userAId: cursor.userAId, userBId: { gt: cursor.userBId } }
+              ]
+            } : {})
+          },
+          orderBy: [{ userAId: 'asc' }, { userBId: 'asc' }],
+          select: { userAId: true, userBId: true },
+          take: REPAIR_PAGE_SIZE
+        });
+
+        for (const match of page) {
+          if (options.deadline && new Date() >= options.deadline) {
+            console.log(`[MatchEventHandler] Repair paused: ${processed} processed, ${errors} errors`);
+            return { processed, errors, resumeFrom: cursor && `${cursor.userAId}:${cursor.userBId}` };
+          }
 
-      // Group matches by pair to avoid duplicates
-      const matchPairs = new Set<string>();
-      const uniqueMatches: Array<{ userA: string; userB: string }> = [];
-
-      for (const match of mutualMatches) {
-        const pairKey = [match.sourceUserId, match.targetUserId].sort().join(':');
-        if (!matchPairs.has(pairKey)) {
-          matchPairs.add(pairKey);
-          uniqueMatches.push({
-            userA: match.sourceUserId,
-            userB: match.targetUserId
-          });
+          try {
+            await this.grantAvatarAccess(match.userAId, match.userBId);
+            await this.grantAvatarAccess(match.userBId, match.userAId);
+            processed++;
+          } catch (error) {
+            console.error(`[MatchEventHandler] Failed to repair match ${match.userAId} <-> ${match.userBId}:`, error);
+            errors++;
+          }
+          cursor = match;
         }
-      }
 
-      console.log(`[MatchEventHandler] Found ${uniqueMatches.length} unique matches to repair`);
-
-      // Process each match
-      for (const match of uniqueMatches) {
-        try {
-          await this.grantAvatarAccess(match.userA, match.userB);
-          await this.grantAvatarAccess(match.userB, match.userA);
-          processed++;
-        } catch (error) {
-          console.error(`[MatchEventHandler] Failed to repair match ${match.userA} <-> ${match.userB}:`, error);
-          errors++;
-        }
+        if (page.length < REPAIR_PAGE_SIZE) break;
       }
 
       console.log(`[MatchEventHandler] Repair complete: ${processed} processed, ${errors} errors`);
@@ -293,6 +299,13 @@ export class MatchEventHandler {
       errors++;
     }
 
-    return { processed, errors };
+    return { processed, errors, resumeFrom: null };
   }
-}
\ No newline at end of file
+}
+
+const REPAIR_PAGE_SIZE = 100;
+
+function parseRepairCursor(after: string): { userAId: string; userBId: string } {
+  const [userAId, userBId] = after.split(':');
+  return { userAId, userBId };
+}
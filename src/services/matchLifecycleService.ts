@@ -0,0 +1,494 @@
+import { getFullnodeUrl, SuiClient } from '@mysten/sui/client';
+import type { Match, MatchState, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { recordAudit, SYSTEM_ACTOR } from '@/lib/audit';
+import { getMatchInfo } from '@/lib/blockchain/contractQueries';
+import {
+  ACTIVE_MATCH_STATES,
+  canTransition,
+  chainAgrees,
+  LIKE_MATCH_STATUS,
+  matchKey,
+  STATE_TIMESTAMP,
+  stateFromChain
+} from '@/lib/matches/lifecycle';
+import { getOutboxService, type EmitEvent, type OutboxService } from './outboxService';
+
+type Tx = Prisma.TransactionClient;
+
+export interface TransitionOptions {
+  // On-chain match object to record; null clears it, undefined leaves it
+  onChainMatchId?: string | null;
+  // Who may unblock a BLOCKED pair; defaults to the member making the change
+  blockedById?: string | null;
+  now?: Date;
+}
+
+export interface MatchReconcileResult {
+  checked: number;
+  repaired: number;
+  flagged: number;
+  // The RPC couldn't say whether the object exists
+  unreachable: number;
+  // Left for a later run after an error
+  failed: number;
+}
+
+type ChainMatch = { status: number | null; lastInteraction: number | null };
+
+export class MatchLifecycleError extends Error {}
+
+interface MatchLifecycleConfig {
+  // Days a match can go without a message before it expires; 0 disables expiry
+  expiryDays: number;
+  // Matches expired or reconciled per run
+  batchSize: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const describeChainStatus = (status: number | null) => (status === null ? 'deleted' : `status ${status}`);
+
+/**
+ * Whether the members have messaged since they last matched, so a restored
+ * match goes back to CHATTING rather than MATCHED
+ */
+function hasChatted(match: Match): boolean {
+  return !!match.chattingAt && (!match.matchedAt || match.chattingAt >= match.matchedAt);
+}
+
+/**
+ * The state the chain says the pair should be repaired to, or null when the
+ * disagreement should be flagged instead
+ */
+function repairTarget(match: Match, chain: ChainMatch): MatchState | null {
+  const target = stateFromChain(chain.status, hasChatted(match));
+  const chainIsNewer = chain.lastInteraction === null || chain.lastInteraction >= match.stateChangedAt.getTime();
+  const restricts = target === 'BLOCKED' || target === 'UNMATCHED';
+
+  // Only a member can lift a block, so the chain never does it here
+  if (target && match.state !== 'BLOCKED' && canTransition(match.state, target) && (chainIsNewer || restricts)) {
+    return target;
+  }
+  return null;
+}
+
+/**
+ * Owns the state of every pair of members (see lib/matches/lifecycle.ts
+ * for the states and legal transitions). Every change goes through
+ * transition(), which records when the pair entered the state, mirrors it
+ * into Like.matchStatus and emits the domain events through the outbox
+ * transaction the caller runs it in.
+ *
+ * Pairs with an on-chain Match object are reconciled against its status:
+ * when the chain changed more recently, or is more restrictive, the local
+ * state is repaired; otherwise the pair is flagged, since only the members
+ * can sign the on-chain side.
+ */
+export class MatchLifecycleService {
+  private config: MatchLifecycleConfig;
+
+  constructor(
+    config?: Partial<MatchLifecycleConfig>,
+    private client: SuiClient | null = null,
+    private outbox: Pick<OutboxService, 'transaction'> = getOutboxService()
+  ) {
+    this.config = {
+      expiryDays: parseInt(process.env.MATCH_EXPIRY_DAYS || '30'),
+      batchSize: parseInt(process.env.MATCH_RECONCILE_BATCH_SIZE || '100'),
+      ...config
+    };
+  }
+
+  /**
+   * Reads the pair's match and locks the pair until `tx` ends, so two
+   * changes to the same pair run one after the other. Without it, members
+   * liking each other at the same moment would each miss the other's like
+   * and both leave the pair PENDING. The lock is an advisory one because
+   * the match row may not exist yet.
+   */
+  async getMatch(tx: Tx, userId: string, targetUserId: string): Promise<Match | null> {
+    const key = matchKey(userId, targetUserId);
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`match:${key.userAId}:${key.userBId}`}))`;
+    return tx.match.findUnique({ where: { userAId_userBId: key } });
+  }
+
+  /**
+   * Moves the pair to `to`, acting as `userId`. Moving to the current state
+   * only records `onChainMatchId` and emits nothing.
+   */
+  async transition(
+    tx: Tx,
+    emit: EmitEvent,
+    userId: string,
+    targetUserId: string,
+    to: MatchState,
+    options: TransitionOptions = {}
+  ): Promise<Match> {
+    return this.apply(tx, emit, await this.getMatch(tx, userId, targetUserId), userId, targetUserId, to, options);
+  }
+
+  /**
+   * After `userId` likes `targetUserId`: a match when the like is returned,
+   * otherwise pending
+   */
+  async likeAdded(tx: Tx, emit: EmitEvent, userId: string, targetUserId: string): Promise<Match> {
+    const current = await this.getMatch(tx, userId, targetUserId);
+    if (current?.state === 'BLOCKED') {
+      throw new MatchLifecycleError('Blocked members cannot like each other');
+    }
+
+    const reverseLike = await tx.like.findUnique({
+      where: { sourceUserId_targetUserId: { sourceUserId: targetUserId, targetUserId: userId } }
+    });
+    if (reverseLike) return this.matched(tx, emit, current, userId, targetUserId);
+
+    if (current && current.state !== 'UNMATCHED') return current;
+    return this.apply(tx, emit, current, userId, targetUserId, 'PENDING');
+  }
+
+  /**
+   * Records a match made outside a like, usually on chain. A blocked pair
+   * stays blocked; reconciliation flags the disagreement.
+   */
+  async matchCreated(
+    tx: Tx,
+    emit: EmitEvent,
+    userId: string,
+    targetUserId: string,
+    onChainMatchId?: string
+  ): Promise<Match> {
+    const current = await this.getMatch(tx, userId, targetUserId);
+    if (current?.state === 'BLOCKED') {
+      return this.apply(tx, emit, current, userId, targetUserId, 'BLOCKED', { onChainMatchId });
+    }
+    return this.matched(tx, emit, current, userId, targetUserId, onChainMatchId);
+  }
+
+  /**
+   * Ends the pair when a like is taken back or the match is removed.
+   * Returns the state the pair was in; blocked pairs stay blocked.
+   */
+  async unmatch(tx: Tx, emit: EmitEvent, userId: string, targetUserId: string): Promise<MatchState | null> {
+    const current = await this.getMatch(tx, userId, targetUserId);
+    if (current && current.state !== 'UNMATCHED' && current.state !== 'BLOCKED') {
+      await this.apply(tx, emit, current, userId, targetUserId, 'UNMATCHED');
+    }
+    return current?.state ?? null;
+  }
+
+  async block(tx: Tx, emit: EmitEvent, userId: string, targetUserId: string): Promise<Match> {
+    const current = await this.getMatch(tx, userId, targetUserId);
+    if (current?.state === 'BLOCKED') return current;
+    return this.apply(tx, emit, current, userId, targetUserId, 'BLOCKED');
+  }
+
+  /**
+   * Lifts a block. Only the member who blocked can; the pair goes back to
+   * whatever the remaining likes make it.
+   */
+  async unblock(tx: Tx, emit: EmitEvent, userId: string, targetUserId: string): Promise<Match> {
+    const current = await this.getMatch(tx, userId, targetUserId);
+    if (current?.state !== 'BLOCKED') {
+      throw new MatchLifecycleError('This member is not blocked');
+    }
+    if (current.blockedById && current.blockedById !== userId) {
+      throw new MatchLifecycleError('Only the member who blocked can unblock');
+    }
+
+    const likes = await tx.like.count({
+      where: {
+        OR: [
+          { sourceUserId: userId, targetUserId },
+          { sourceUserId: targetUserId, targetUserId: userId }
+        ]
+      }
+    });
+
+    let to: MatchState = 'UNMATCHED';
+    if (likes === 2) to = hasChatted(current) ? 'CHATTING' : 'MATCHED';
+    else if (likes === 1) to = 'PENDING';
+    return this.apply(tx, emit, current, userId, targetUserId, to);
+  }
+
+  /**
+   * The first message turns a match into a conversation, and revives an
+   * expired one. Messages to or from a blocked member are refused.
+   */
+  async messageSent(tx: Tx, emit: EmitEvent, senderId: string, recipientId: string): Promise<void> {
+    const current = await this.getMatch(tx, senderId, recipientId);
+    if (current?.state === 'BLOCKED') {
+      throw new MatchLifecycleError('Messages to blocked members are not allowed');
+    }
+    if (current?.state === 'MATCHED' || current?.state === 'EXPIRED') {
+      await this.apply(tx, emit, current, senderId, recipientId, 'CHATTING');
+    }
+  }
+
+  /**
+   * Expires matches that went expiryDays without a message. A match that
+   * fails is logged and left for the next run.
+   */
+  async expireStale(now = new Date()): Promise<{ expired: number; failed: number }> {
+    if (!this.config.expiryDays) return { expired: 0, failed: 0 };
+
+    const stale = await prisma.match.findMany({
+      where: { state: 'MATCHED', matchedAt: { lt: new Date(now.getTime() - this.config.expiryDays * DAY_MS) } },
+      orderBy: { matchedAt: 'asc' },
+      take: this.config.batchSize
+    });
+
+    let expired = 0;
+    let failed = 0;
+    for (const match of stale) {
+      try {
+        await this.outbox.transaction((tx, emit) =>
+          this.transition(tx, emit, match.userAId, match.userBId, 'EXPIRED', { now })
+        );
+        expired++;
+      } catch (error) {
+        // A message got in first
+        if (error instanceof MatchLifecycleError) continue;
+        console.error(`[MatchLifecycle] Failed to expire ${match.userAId}:${match.userBId}:`, error);
+        failed++;
+      }
+    }
+    return { expired, failed };
+  }
+
+  /**
+   * Compares the least recently reconciled pairs that have an on-chain
+   * match with the chain, repairing or flagging the ones that disagree. A
+   * pair that fails is logged and moved to the back of the queue.
+   */
+  async reconcile(now = new Date()): Promise<MatchReconcileResult> {
+    const client = this.getClient();
+    const result: MatchReconcileResult = { checked: 0, repaired: 0, flagged: 0, unreachable: 0, failed: 0 };
+
+    const matches = await prisma.match.findMany({
+      where: { onChainMatchId: { not: null } },
+      orderBy: { reconciledAt: { sort: 'asc', nulls: 'first' } },
+      take: this.config.batchSize
+    });
+
+    for (const match of matches) {
+      result.checked++;
+      try {
+        const outcome = await this.reconcileMatch(client, match, now);
+        if (outcome !== 'agreed') result[outcome]++;
+      } catch (error) {
+        console.error(`[MatchLifecycle] Failed to reconcile ${match.userAId}:${match.userBId}:`, error);
+        result.failed++;
+        // So one bad pair can't hold the front of every run
+        await prisma.match.update({
+          where: { userAId_userBId: { userAId: match.userAId, userBId: match.userBId } },
+          data: { reconciledAt: now }
+        }).catch(() => {});
+      }
+    }
+
+    return result;
+  }
+
+  private async reconcileMatch(
+    client: SuiClient,
+    match: Match,
+    now: Date
+  ): Promise<'agreed' | 'repaired' | 'flagged' | 'unreachable'> {
+    const key = { userAId_userBId: { userAId: match.userAId, userBId: match.userBId } };
+
+    const chain = await this.readChain(client, match.onChainMatchId!);
+    if (!chain) {
+      await prisma.match.update({ where: key, data: { reconciledAt: now } });
+      return 'unreachable';
+    }
+
+    const reconciled = { chainStatus: chain.status, reconciledAt: now, flaggedAt: null, flagReason: null };
+    if (chainAgrees(match.state, chain.status)) {
+      await prisma.match.update({ where: key, data: reconciled });
+      return 'agreed';
+    }
+
+    if (repairTarget(match, chain)) {
+      const outcome = await this.outbox.transaction(async (tx, emit) => {
+        // `match` was read without the lock, so decide again on the locked row
+        const current = await this.getMatch(tx, match.userAId, match.userBId);
+        if (!current) return null;
+        if (chainAgrees(current.state, chain.status)) {
+          await tx.match.update({ where: key, data: reconciled });
+          return 'agreed' as const;
+        }
+
+        const target = repairTarget(current, chain);
+        if (!target) return null;
+
+        await this.apply(tx, emit, current, match.userAId, match.userBId, target, {
+          // A deleted object has nothing left to check
+          onChainMatchId: chain.status === null ? null : undefined,
+          blockedById: null,
+          now
+        });
+        await tx.match.update({ where: key, data: reconciled });
+        await recordAudit({
+          action: 'match.reconcile',
+          targetType: 'match',
+          targetId: `${match.userAId}:${match.userBId}`,
+          before: { state: current.state, chainStatus: current.chainStatus },
+          after: { state: target, chainStatus: chain.status }
+        }, SYSTEM_ACTOR, tx);
+        return 'repaired' as const;
+      });
+      if (outcome) return outcome;
+    }
+
+    await prisma.match.update({
+      where: key,
+      data: {
+        chainStatus: chain.status,
+        reconciledAt: now,
+        flaggedAt: match.flaggedAt ?? now,
+        flagReason: `Local state ${match.state} but on-chain match ${match.onChainMatchId} is ${describeChainStatus(chain.status)}`
+      }
+    });
+    return 'flagged';
+  }
+
+  async listFlagged(limit = 100): Promise<Match[]> {
+    return prisma.match.findMany({
+      where: { flaggedAt: { not: null } },
+      orderBy: { flaggedAt: 'asc' },
+      take: limit
+    });
+  }
+
+  private async matched(
+    tx: Tx,
+    emit: EmitEvent,
+    current: Match | null,
+    userId: string,
+    targetUserId: string,
+    onChainMatchId?: string
+  ): Promise<Match> {
+    const to = current && ACTIVE_MATCH_STATES.includes(current.state) ? current.state : 'MATCHED';
+    return this.apply(tx, emit, current, userId, targetUserId, to, { onChainMatchId });
+  }
+
+  private async apply(
+    tx: Tx,
+    emit: EmitEvent,
+    current: Match | null,
+    userId: string,
+    targetUserId: string,
+    to: MatchState,
+    options: TransitionOptions = {}
+  ): Promise<Match> {
+    const key = matchKey(userId, targetUserId);
+    const from = current?.state ?? null;
+    const chainId = options.onChainMatchId;
+
+    if (current && from === to) {
+      if (chainId === undefined || chainId === current.onChainMatchId) return current;
+      await this.project(tx, key, to, chainId);
+      return tx.match.update({ where: { userAId_userBId: key }, data: { onChainMatchId: chainId } });
+    }
+    if (!canTransition(from, to)) {
+      throw new MatchLifecycleError(`A match cannot go from ${from?.toLowerCase() ?? 'nothing'} to ${to.toLowerCase()}`);
+    }
+
+    const now = options.now ?? new Date();
+    const data = {
+      state: to,
+      stateChangedAt: now,
+      [STATE_TIMESTAMP[to]]: now,
+      blockedById: to === 'BLOCKED' ? (options.blockedById === undefined ? userId : options.blockedById) : null,
+      ...(chainId !== undefined ? { onChainMatchId: chainId } : {})
+    } satisfies Prisma.MatchUncheckedUpdateInput;
+
+    const match = await tx.match.upsert({
+      where: { userAId_userBId: key },
+      create: { ...key, ...data },
+      update: data
+    });
+    await this.project(tx, key, to, chainId);
+    await this.emitTransition(tx, emit, from, to, userId, targetUserId);
+    return match;
+  }
+
+  /**
+   * Mirrors the state into both likes
+   */
+  private async project(tx: Tx, key: { userAId: string; userBId: string }, state: MatchState, chainId?: string | null) {
+    await tx.like.updateMany({
+      where: {
+        OR: [
+          { sourceUserId: key.userAId, targetUserId: key.userBId },
+          { sourceUserId: key.userBId, targetUserId: key.userAId }
+        ]
+      },
+      data: { matchStatus: LIKE_MATCH_STATUS[state], ...(chainId !== undefined ? { matchId: chainId } : {}) }
+    });
+  }
+
+  private async emitTransition(
+    tx: Tx,
+    emit: EmitEvent,
+    from: MatchState | null,
+    to: MatchState,
+    userId: string,
+    targetUserId: string
+  ): Promise<void> {
+    const wasActive = !!from && ACTIVE_MATCH_STATES.includes(from);
+    const isActive = ACTIVE_MATCH_STATES.includes(to);
+
+    if (from === 'BLOCKED') {
+      await emit('match.unblocked', { userId, targetUserId, restored: isActive });
+    } else if (isActive && !wasActive) {
+      const member = await tx.member.findUnique({
+        where: { userId },
+        select: { userId: true, name: true, image: true }
+      });
+      if (!member) throw new MatchLifecycleError(`Member ${userId} not found`);
+      await emit('match.created', { userId, targetUserId, member });
+    }
+
+    if (to === 'BLOCKED') await emit('match.blocked', { userId, targetUserId });
+    if (to === 'UNMATCHED' && wasActive) await emit('match.removed', { userId, targetUserId });
+    if (to === 'EXPIRED') await emit('match.expired', { userId, targetUserId });
+  }
+
+  /**
+   * The on-chain status and last interaction time (ms), status null when
+   * the object was deleted. Undefined when the RPC couldn't tell.
+   */
+  private async readChain(client: SuiClient, matchId: string) {
+    const info = await getMatchInfo(client, matchId);
+    if (info) return { status: info.status, lastInteraction: Number(info.lastInteraction) || null };
+
+    try {
+      const response = await client.getObject({ id: matchId });
+      if (response.error?.code === 'deleted' || response.error?.code === 'notExists') {
+        return { status: null, lastInteraction: null };
+      }
+    } catch (error) {
+      console.error(`[MatchLifecycle] Failed to read match ${matchId}:`, error);
+    }
+    return undefined;
+  }
+
+  private getClient(): SuiClient {
+    if (!this.client) {
+      const network = (process.env.SUI_NETWORK as 'mainnet' | 'testnet' | 'devnet') || 'testnet';
+      this.client = new SuiClient({ url: getFullnodeUrl(network) });
+    }
+    return this.client;
+  }
+}
+
+let matchLifecycleService: MatchLifecycleService | null = null;
+
+export function getMatchLifecycleService(): MatchLifecycleService {
+  if (!matchLifecycleService) {
+    matchLifecycleService = new MatchLifecycleService();
+  }
+  return matchLifecycleService;
+}
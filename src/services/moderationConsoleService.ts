@@ -0,0 +1,391 @@
+import type {
+  ModerationCase,
+  ModerationDecision,
+  ModerationDecisionAction,
+  ModerationItemKind,
+  ModerationStatus,
+  Prisma,
+  ReportContentType,
+  ReportSeverity,
+} from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { cloudinary } from '@/lib/cloudinary';
+import { getFileUrl } from '@/lib/storage';
+import { duplicateClassifier } from '@/lib/imageModeration';
+import { publishEvent } from '@/lib/events';
+import { canModerate } from '@/lib/roles';
+import { ContentModerationService, readPhotoReview } from './contentModerationService';
+import { getSanctionService, type SanctionWithHistory } from './sanctionService';
+
+export type ModerationItemRef = { kind: ModerationItemKind; id: string };
+
+export type ModerationVerdict = 'approve' | 'reject';
+
+export interface ModerationQueueItem extends ModerationItemRef {
+  targetUserId: string;
+  targetName: string | null;
+  severity: ReportSeverity;
+  reportCount: number;
+  // Report reasons or classifier findings
+  reasons: string[];
+  imageUrl?: string;
+  text?: string;
+  contentHidden: boolean;
+  assignedTo: string | null;
+  createdAt: Date;
+  // When the SLA for this item runs out
+  dueAt: Date;
+}
+
+export interface ModerationQueueFilter {
+  kinds?: ModerationItemKind[];
+  // A moderator ID, or null for unassigned items only
+  assignedTo?: string | null;
+  limit?: number;
+}
+
+export interface ModerationItemOutcome extends ModerationItemRef {
+  ok: boolean;
+  error?: string;
+}
+
+export interface ModerationUserHistory {
+  userId: string;
+  name: string | null;
+  image: string | null;
+  memberSince: Date | null;
+  sanctions: SanctionWithHistory[];
+  cases: ModerationCase[];
+  decisions: ModerationDecision[];
+  reportsFiled: number;
+}
+
+export interface Moderator {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+interface ModerationConsoleConfig {
+  // Hours a case may wait, by severity
+  slaHours: Record<ReportSeverity, number>;
+  // Hours a photo may wait for approval
+  photoSlaHours: number;
+  historyLimit: number;
+}
+
+export class ModerationConsoleError extends Error {}
+
+const OPEN_STATUSES: ModerationStatus[] = ['PENDING', 'REVIEWED'];
+const CASE_KINDS: ModerationItemKind[] = ['AVATAR', 'PROFILE', 'MESSAGE'];
+
+const hoursAfter = (date: Date, hours: number) => new Date(date.getTime() + hours * 60 * 60 * 1000);
+
+/**
+ * Backs the admin moderation console: one queue for pending photos and open
+ * report cases, decisions on any mix of them, reviewer assignment and the
+ * history of the member under review. Every decision is written to
+ * ModerationDecision.
+ */
+export class ModerationConsoleService {
+  private config: ModerationConsoleConfig;
+
+  constructor(
+    config?: Partial<ModerationConsoleConfig>,
+    private moderation: ContentModerationService = new ContentModerationService()
+  ) {
+    this.config = {
+      slaHours: {
+        HIGH: parseInt(process.env.MODERATION_SLA_HIGH_HOURS || '4'),
+        MEDIUM: parseInt(process.env.MODERATION_SLA_MEDIUM_HOURS || '24'),
+        LOW: parseInt(process.env.MODERATION_SLA_LOW_HOURS || '72'),
+      },
+      photoSlaHours: parseInt(process.env.MODERATION_SLA_PHOTO_HOURS || '24'),
+      historyLimit: 20,
+      ...config,
+    };
+  }
+
+  /**
+   * Pending photos and open cases, the ones closest to breaching their SLA
+   * first
+   */
+  async getQueue(filter: ModerationQueueFilter = {}): Promise<ModerationQueueItem[]> {
+    const kinds = filter.kinds?.length ? filter.kinds : ['PHOTO', ...CASE_KINDS] as ModerationItemKind[];
+    const caseKinds = kinds.filter(kind => kind !== 'PHOTO') as ReportContentType[];
+    const limit = filter.limit ?? 100;
+    const assignment = filter.assignedTo === undefined ? {} : { assignedTo: filter.assignedTo };
+
+    const [photos, cases] = await Promise.all([
+      kinds.includes('PHOTO')
+        ? prisma.photo.findMany({
+          where: { isApproved: false, ...assignment },
+          orderBy: { createdAt: 'asc' },
+          take: limit,
+          include: { member: { select: { userId: true, name: true } } },
+        })
+        : [],
+      caseKinds.length > 0
+        ? prisma.moderationCase.findMany({
+          where: { status: { in: OPEN_STATUSES }, contentType: { in: caseKinds }, ...assignment },
+          orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+          take: limit,
+          include: {
+            reports: { orderBy: { createdAt: 'asc' }, select: { reasonId: true, details: true } },
+            targetUser: { select: { name: true } },
+          },
+        })
+        : [],
+    ]);
+
+    const profileIds = cases.filter(c => c.contentType === 'PROFILE').map(c => c.contentId);
+    const messageIds = cases.filter(c => c.contentType === 'MESSAGE').map(c => c.contentId);
+    const [profiles, messages] = await Promise.all([
+      profileIds.length > 0
+        ? prisma.member.findMany({ where: { userId: { in: profileIds } }, select: { userId: true, description: true, image: true } })
+        : [],
+      messageIds.length > 0
+        ? prisma.message.findMany({ where: { id: { in: messageIds } }, select: { id: true, text: true } })
+        : [],
+    ]);
+    const profileById = new Map(profiles.map(profile => [profile.userId, profile]));
+    const messageById = new Map(messages.map(message => [message.id, message]));
+
+    const items: ModerationQueueItem[] = [
+      ...photos.map(photo => {
+        const review = readPhotoReview(photo.moderationFlags);
+        const flags = review?.flags ?? [];
+        return {
+          kind: 'PHOTO' as const,
+          id: photo.id,
+          targetUserId: photo.member.userId,
+          targetName: photo.member.name,
+          severity: (flags.length > 0 ? 'MEDIUM' : 'LOW') as ReportSeverity,
+          reportCount: 0,
+          // Unflagged photos wait for another reason, e.g. a classifier that couldn't run
+          reasons: flags.length > 0
+            ? flags.map(flag => `${flag.description} (${Math.round(flag.confidence * 100)}%)`)
+            : [review?.reason ?? 'Awaiting approval'],
+          imageUrl: photo.url,
+          contentHidden: true,
+          assignedTo: photo.assignedTo,
+          createdAt: photo.createdAt,
+          dueAt: hoursAfter(photo.createdAt, this.config.photoSlaHours),
+        };
+      }),
+      ...cases.map(({ reports, targetUser, ...moderationCase }) => {
+        const profile = profileById.get(moderationCase.contentId);
+        return {
+          kind: moderationCase.contentType,
+          id: moderationCase.id,
+          targetUserId: moderationCase.targetUserId,
+          targetName: targetUser.name,
+          severity: moderationCase.severity,
+          reportCount: moderationCase.reportCount,
+          reasons: reports.map(report => report.details ? `${report.reasonId}: ${report.details}` : report.reasonId),
+          imageUrl: moderationCase.contentType === 'AVATAR'
+            ? getFileUrl(moderationCase.contentId)
+            : profile?.image ?? undefined,
+          text: moderationCase.contentType === 'PROFILE'
+            ? profile?.description
+            : messageById.get(moderationCase.contentId)?.text,
+          contentHidden: moderationCase.contentHidden,
+          assignedTo: moderationCase.assignedTo,
+          createdAt: moderationCase.createdAt,
+          dueAt: hoursAfter(moderationCase.createdAt, this.config.slaHours[moderationCase.severity]),
+        };
+      }),
+    ];
+
+    return items
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * Approves or rejects each item. Items are handled one by one so a
+   * failure (e.g. a case someone else closed) doesn't stop the rest; each
+   * decision and its log entry are written together.
+   */
+  async decide(
+    items: ModerationItemRef[],
+    verdict: ModerationVerdict,
+    moderatorId: string,
+    note?: string
+  ): Promise<ModerationItemOutcome[]> {
+    const outcomes: ModerationItemOutcome[] = [];
+    for (const item of items) {
+      const log = (tx: Prisma.TransactionClient, targetUserId: string) =>
+        this.log(tx, item, targetUserId, verdict === 'approve' ? 'APPROVE' : 'REJECT', moderatorId, { note });
+      try {
+        if (item.kind === 'PHOTO') {
+          await this.decidePhoto(item.id, verdict, log);
+        } else {
+          await this.moderation.processQueueItem(item.id, moderatorId, verdict, note, (tx, moderationCase) =>
+            log(tx, moderationCase.targetUserId)
+          );
+        }
+        outcomes.push({ ...item, ok: true });
+      } catch (error) {
+        console.error('[ModerationConsole] Decision failed:', { item, verdict, error });
+        outcomes.push({ ...item, ok: false, error: error instanceof Error ? error.message : 'Decision failed' });
+      }
+    }
+    return outcomes;
+  }
+
+  /**
+   * Hands items to a moderator, or back to the pool when `assigneeId` is null
+   */
+  async assign(
+    items: ModerationItemRef[],
+    assigneeId: string | null,
+    moderatorId: string,
+    now: Date = new Date()
+  ): Promise<ModerationItemOutcome[]> {
+    if (assigneeId) {
+      const assignee = await prisma.user.findUnique({ where: { id: assigneeId }, select: { role: true } });
+      if (!canModerate(assignee?.role)) throw new ModerationConsoleError('Items can only be assigned to moderators');
+    }
+    const data = { assignedTo: assigneeId, assignedAt: assigneeId ? now : null };
+
+    const outcomes: ModerationItemOutcome[] = [];
+    for (const item of items) {
+      const targetUserId = item.kind === 'PHOTO'
+        ? await prisma.photo.update({ where: { id: item.id }, data, select: { member: { select: { userId: true } } } })
+          .then(photo => photo.member.userId, () => null)
+        : await prisma.moderationCase.update({ where: { id: item.id }, data, select: { targetUserId: true } })
+          .then(moderationCase => moderationCase.targetUserId, () => null);
+
+      if (!targetUserId) {
+        outcomes.push({ ...item, ok: false, error: 'Item not found' });
+        continue;
+      }
+      await this.log(prisma, item, targetUserId, assigneeId ? 'ASSIGN' : 'UNASSIGN', moderatorId, { assigneeId });
+      outcomes.push({ ...item, ok: true });
+    }
+    return outcomes;
+  }
+
+  /**
+   * What a moderator needs to judge a member: their sanctions, past cases
+   * and earlier console decisions about them
+   */
+  async getUserHistory(userId: string): Promise<ModerationUserHistory> {
+    const [user, sanctions, cases, decisions, reportsFiled] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { name: true, image: true, member: { select: { created: true } } },
+      }),
+      getSanctionService().getHistory(userId),
+      prisma.moderationCase.findMany({
+        where: { targetUserId: userId },
+        orderBy: { createdAt: 'desc' },
+        take: this.config.historyLimit,
+      }),
+      prisma.moderationDecision.findMany({
+        where: { targetUserId: userId },
+        orderBy: { createdAt: 'desc' },
+        take: this.config.historyLimit,
+      }),
+      prisma.report.count({ where: { reporterId: userId } }),
+    ]);
+    if (!user) throw new ModerationConsoleError('Member not found');
+
+    return {
+      userId,
+      name: user.name,
+      image: user.image,
+      memberSince: user.member?.created ?? null,
+      sanctions,
+      cases,
+      decisions,
+      reportsFiled,
+    };
+  }
+
+  async getModerators(): Promise<Moderator[]> {
+    return prisma.user.findMany({
+      where: { role: { in: ['ADMIN', 'MODERATOR'] } },
+      orderBy: { name: 'asc' },
+      select: { id: true, name: true, email: true },
+    });
+  }
+
+  /**
+   * Publishes or deletes a pending photo, calling `log` with its owner's
+   * user ID in the same transaction. An approved photo becomes the member's
+   * main image if they have none.
+   */
+  private async decidePhoto(
+    photoId: string,
+    verdict: ModerationVerdict,
+    log: (tx: Prisma.TransactionClient, targetUserId: string) => Promise<void>
+  ): Promise<void> {
+    const photo = await prisma.photo.findUnique({
+      where: { id: photoId },
+      include: { member: { select: { id: true, userId: true, image: true, user: { select: { image: true } } } } },
+    });
+    if (!photo) throw new ModerationConsoleError('Photo not found');
+    const { member } = photo;
+
+    if (verdict === 'reject') {
+      await prisma.$transaction(async (tx) => {
+        await duplicateClassifier.forget('PHOTO', photo.id, tx);
+        await tx.photo.delete({ where: { id: photo.id } });
+        await log(tx, member.userId);
+      });
+      // The file goes once nothing points at it any more
+      if (photo.publicId) {
+        await cloudinary.v2.uploader.destroy(photo.publicId);
+      }
+      await publishEvent('photo.rejected', { userId: member.userId, photoId: photo.id });
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.photo.update({
+        where: { id: photo.id },
+        data: { isApproved: true, assignedTo: null, assignedAt: null },
+      });
+      if (member.image === null) {
+        await tx.member.update({ where: { id: member.id }, data: { image: photo.url } });
+      }
+      if (member.user.image === null) {
+        await tx.user.update({ where: { id: member.userId }, data: { image: photo.url } });
+      }
+      await log(tx, member.userId);
+    });
+    await publishEvent('photo.approved', { userId: member.userId, photoId: photo.id });
+  }
+
+  private async log(
+    db: Prisma.TransactionClient,
+    item: ModerationItemRef,
+    targetUserId: string,
+    action: ModerationDecisionAction,
+    moderatorId: string,
+    extra: { note?: string; assigneeId?: string | null } = {}
+  ): Promise<void> {
+    await db.moderationDecision.create({
+      data: {
+        moderatorId,
+        itemKind: item.kind,
+        itemId: item.id,
+        targetUserId,
+        action,
+        assigneeId: extra.assigneeId ?? null,
+        note: extra.note,
+      },
+    });
+  }
+}
+
+let moderationConsoleService: ModerationConsoleService | null = null;
+
+export function getModerationConsoleService(): ModerationConsoleService {
+  if (!moderationConsoleService) {
+    moderationConsoleService = new ModerationConsoleService();
+  }
+  return moderationConsoleService;
+}
@@ -0,0 +1,345 @@
+import type { OutboxMessage, OutboxStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getEventBus, type DomainEvents, type DomainEventType, type EventBus } from '@/lib/events';
+import { SkipDeliveryError } from '@/lib/events/eventBus';
+
+export type OutboxFilter = OutboxStatus | 'STUCK';
+
+export interface OutboxRunResult {
+  delivered: number;
+  // Given up on straight away by their subscriber (see SkipDeliveryError)
+  skipped: number;
+  retried: number;
+  dead: number;
+}
+
+export type EmitEvent = <K extends DomainEventType>(type: K, payload: DomainEvents[K]) => Promise<void>;
+
+export class OutboxError extends Error {}
+
+interface OutboxConfig {
+  // Messages delivered per worker run
+  batchSize: number;
+  // Failed deliveries before a message is dead-lettered
+  maxAttempts: number;
+  // First retry delay, doubled after each failure up to maxDelayMs
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A message locked this long belongs to a worker that died
+  lockTimeoutMs: number;
+  // How long delivered messages are kept
+  retentionDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MEMBER_FIELDS = ['userId', 'targetUserId', 'sourceUserId', 'senderId', 'recipientId', 'readerId'];
+
+/**
+ * Delay before retry number `attempts` (1 for the first retry)
+ */
+export function backoffDelay(attempts: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1));
+}
+
+/**
+ * The members an event is about, so deliveries about the same pair keep
+ * their order (a revoke never overtakes the grant before it)
+ */
+export function orderingKey(payload: object): string | null {
+  const memberIds = MEMBER_FIELDS
+    .map(field => (payload as Record<string, unknown>)[field])
+    .filter((value): value is string => typeof value === 'string');
+  return memberIds.length ? Array.from(new Set(memberIds)).sort().join(':') : null;
+}
+
+/**
+ * Transactional outbox for the side effects of likes, matches and messages.
+ * The change and one message per event subscriber are written in the same
+ * transaction, so a Pusher or Seal outage can't leave the change half
+ * applied. Messages are delivered right after commit when possible and
+ * otherwise by the worker, with exponential backoff, until they succeed or
+ * run out of attempts and are dead-lettered. Delivery is at least once, so
+ * subscribers must tolerate repeats.
+ */
+export class OutboxService {
+  private config: OutboxConfig;
+
+  constructor(config?: Partial<OutboxConfig>, private bus: EventBus = getEventBus()) {
+    this.config = {
+      batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '100'),
+      maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '8'),
+      baseDelayMs: parseInt(process.env.OUTBOX_BASE_DELAY_MS || '30000'),
+      maxDelayMs: 60 * 60 * 1000,
+      lockTimeoutMs: 5 * 60 * 1000,
+      retentionDays: parseInt(process.env.OUTBOX_RETENTION_DAYS || '7'),
+      ...config
+    };
+  }
+
+  /**
+   * Runs `change` in a transaction together with the outbox messages for
+   * the events it emits, then dispatches them
+   */
+  async transaction<T>(change: (tx: Prisma.TransactionClient, emit: EmitEvent) => Promise<T>): Promise<T> {
+    const ids: string[] = [];
+    const result = await prisma.$transaction(tx => change(tx, async (type, payload) => {
+      ids.push(...await this.enqueue(tx, type, payload));
+    }));
+    await this.dispatch(ids);
+    return result;
+  }
+
+  /**
+   * Records an event for each of its subscribers as part of `tx`. Returns
+   * the message IDs to hand to dispatch() once the transaction commits.
+   */
+  async enqueue<K extends DomainEventType>(
+    tx: Prisma.TransactionClient,
+    type: K,
+    payload: DomainEvents[K]
+  ): Promise<string[]> {
+    const ids: string[] = [];
+    for (const subscriber of this.bus.subscribers(type)) {
+      const message = await tx.outboxMessage.create({
+        data: {
+          eventType: type,
+          subscriber,
+          payload: payload as unknown as Prisma.InputJsonValue,
+          orderingKey: orderingKey(payload)
+        },
+        select: { id: true }
+      });
+      ids.push(message.id);
+    }
+    return ids;
+  }
+
+  /**
+   * Delivers just-committed messages straight away so members don't wait
+   * for the worker. Never throws; whatever isn't delivered is retried later.
+   */
+  async dispatch(ids: string[], now = new Date()): Promise<OutboxRunResult> {
+    try {
+      return await this.run(await this.claim(ids, now), now);
+    } catch (error) {
+      console.error('[Outbox] Dispatch failed, leaving messages for the worker:', { ids, error });
+      return { delivered: 0, skipped: 0, retried: 0, dead: 0 };
+    }
+  }
+
+  /**
+   * One worker run: frees messages whose worker died, delivers the ones
+   * that are due and prunes delivered ones past retention. Messages waiting
+   * behind an earlier one for the same subscriber and members are left out
+   * of the batch, so a backlog behind one failing pair can't crowd out
+   * everyone else's.
+   */
+  async processDue(now = new Date()): Promise<OutboxRunResult> {
+    await prisma.outboxMessage.updateMany({
+      where: { status: 'PROCESSING', lockedAt: { lt: new Date(now.getTime() - this.config.lockTimeoutMs) } },
+      data: { status: 'PENDING', lockedAt: null }
+    });
+
+    // The oldest message of each sequence that is being delivered or waiting for a retry
+    const blockers = await prisma.outboxMessage.groupBy({
+      by: ['subscriber', 'orderingKey'],
+      where: {
+        orderingKey: { not: null },
+        OR: [{ status: 'PROCESSING' }, { status: 'PENDING', availableAt: { gt: now } }]
+      },
+      _min: { createdAt: true }
+    });
+
+    const due = await prisma.outboxMessage.findMany({
+      where: {
+        status: 'PENDING',
+        availableAt: { lte: now },
+        NOT: blockers.map(blocker => ({
+          subscriber: blocker.subscriber,
+          orderingKey: blocker.orderingKey,
+          createdAt: { gt: blocker._min.createdAt! }
+        }))
+      },
+      orderBy: { createdAt: 'asc' },
+      take: this.config.batchSize,
+      select: { id: true }
+    });
+    const result = await this.run(await this.claim(due.map(message => message.id), now), now);
+
+    await prisma.outboxMessage.deleteMany({
+      where: { status: 'DONE', processedAt: { lt: new Date(now.getTime() - this.config.retentionDays * DAY_MS) } }
+    });
+    return result;
+  }
+
+  /**
+   * Locks the pending messages among `ids`, skipping any that would
+   * overtake an earlier undelivered message for the same subscriber and
+   * members outside this batch
+   */
+  private async claim(ids: string[], now: Date): Promise<OutboxMessage[]> {
+    if (!ids.length) return [];
+    const candidates = await prisma.outboxMessage.findMany({
+      where: { id: { in: ids }, status: 'PENDING' },
+      // Messages from one transaction share createdAt; cuids break the tie in creation order
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+
+    const ordered = candidates.filter(message => message.orderingKey);
+    const earlier = ordered.length
+      ? await prisma.outboxMessage.findMany({
+        where: {
+          id: { notIn: ids },
+          status: { in: ['PENDING', 'PROCESSING'] },
+          OR: ordered.map(message => ({
+            subscriber: message.subscriber,
+            orderingKey: message.orderingKey,
+            createdAt: { lt: message.createdAt }
+          }))
+        },
+        select: { subscriber: true, orderingKey: true }
+      })
+      : [];
+    const blocked = new Set(earlier.map(message => `${message.subscriber}|${message.orderingKey}`));
+
+    const claimed: OutboxMessage[] = [];
+    for (const message of candidates) {
+      if (message.orderingKey && blocked.has(`${message.subscriber}|${message.orderingKey}`)) continue;
+      // Another worker may have taken it since it was read
+      const { count } = await prisma.outboxMessage.updateMany({
+        where: { id: message.id, status: 'PENDING' },
+        data: { status: 'PROCESSING', lockedAt: now }
+      });
+      if (count) claimed.push(message);
+    }
+    return claimed;
+  }
+
+  /**
+   * Delivers claimed messages oldest first. After a failure, later messages
+   * for the same subscriber and members wait for the retry.
+   */
+  private async run(messages: OutboxMessage[], now: Date): Promise<OutboxRunResult> {
+    const result: OutboxRunResult = { delivered: 0, skipped: 0, retried: 0, dead: 0 };
+    const failed = new Set<string>();
+
+    for (const message of messages) {
+      const sequence = message.orderingKey ? `${message.subscriber}|${message.orderingKey}` : null;
+      if (sequence && failed.has(sequence)) {
+        await prisma.outboxMessage.update({ where: { id: message.id }, data: { status: 'PENDING', lockedAt: null } });
+        continue;
+      }
+
+      const type = message.eventType as DomainEventType;
+      // Written by enqueue() from an event of this type
+      const payload = message.payload as unknown as DomainEvents[typeof type];
+
+      try {
+        await this.bus.deliver(type, message.subscriber, payload);
+        await prisma.outboxMessage.update({
+          where: { id: message.id },
+          data: { status: 'DONE', processedAt: now, lockedAt: null, lastError: null }
+        });
+        result.delivered++;
+      } catch (error) {
+        if (error instanceof SkipDeliveryError) {
+          // Final, so later messages in the sequence go ahead
+          await prisma.outboxMessage.update({
+            where: { id: message.id },
+            data: { status: 'DONE', processedAt: now, lockedAt: null, lastError: `Skipped: ${error.message}` }
+          });
+          result.skipped++;
+          continue;
+        }
+
+        if (sequence) failed.add(sequence);
+        const attempts = message.attempts + 1;
+        const lastError = error instanceof Error ? error.message : String(error);
+        const dead = attempts >= this.config.maxAttempts;
+
+        await prisma.outboxMessage.update({
+          where: { id: message.id },
+          data: dead
+            ? { status: 'DEAD', attempts, lastError, lockedAt: null }
+            : {
+              status: 'PENDING',
+              attempts,
+              lastError,
+              lockedAt: null,
+              availableAt: new Date(now.getTime() + backoffDelay(attempts, this.config.baseDelayMs, this.config.maxDelayMs))
+            }
+        });
+        if (dead) {
+          result.dead++;
+          console.error('[Outbox] Message dead-lettered:', { id: message.id, eventType: message.eventType, subscriber: message.subscriber, lastError });
+        } else {
+          result.retried++;
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Messages for the admin view. STUCK means dead-lettered, failing and
+   * waiting for a retry, or locked by a worker that died.
+   */
+  async list(filter: OutboxFilter = 'STUCK', limit = 100, now = new Date()): Promise<OutboxMessage[]> {
+    const where: Prisma.OutboxMessageWhereInput = filter === 'STUCK'
+      ? {
+        OR: [
+          { status: 'DEAD' },
+          { status: 'PENDING', attempts: { gt: 0 } },
+          { status: 'PROCESSING', lockedAt: { lt: new Date(now.getTime() - this.config.lockTimeoutMs) } }
+        ]
+      }
+      : { status: filter };
+
+    return prisma.outboxMessage.findMany({ where, orderBy: { createdAt: 'desc' }, take: limit });
+  }
+
+  async getCounts(): Promise<Record<OutboxStatus, number>> {
+    const groups = await prisma.outboxMessage.groupBy({ by: ['status'], _count: { _all: true } });
+    const counts: Record<OutboxStatus, number> = { PENDING: 0, PROCESSING: 0, DONE: 0, DEAD: 0 };
+    groups.forEach(group => {
+      counts[group.status] = group._count._all;
+    });
+    return counts;
+  }
+
+  /**
+   * Puts a dead or waiting message back in line with a fresh set of attempts
+   */
+  async retry(id: string): Promise<OutboxMessage> {
+    const message = await prisma.outboxMessage.findUnique({ where: { id } });
+    if (!message) throw new OutboxError('Outbox message not found');
+    if (message.status !== 'DEAD' && message.status !== 'PENDING') {
+      throw new OutboxError(`Cannot retry a ${message.status.toLowerCase()} message`);
+    }
+
+    return prisma.outboxMessage.update({
+      where: { id },
+      data: { status: 'PENDING', attempts: 0, availableAt: new Date(), lockedAt: null }
+    });
+  }
+
+  /**
+   * Drops a dead-lettered message that should not be delivered
+   */
+  async discard(id: string): Promise<OutboxMessage> {
+    const message = await prisma.outboxMessage.findUnique({ where: { id } });
+    if (!message) throw new OutboxError('Outbox message not found');
+    if (message.status !== 'DEAD') throw new OutboxError('Only dead-lettered messages can be discarded');
+
+    return prisma.outboxMessage.delete({ where: { id } });
+  }
+}
+
+let outboxService: OutboxService | null = null;
+
+export function getOutboxService(): OutboxService {
+  if (!outboxService) {
+    outboxService = new OutboxService();
+  }
+  return outboxService;
+}
@@ -0,0 +1,271 @@
+import { SuiClient, getFullnodeUrl, type SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { CONTRACT_IDS, getProfileInfo, type ProfileInfo } from '@/lib/blockchain/contractQueries';
+import { normalizeInterests } from '@/lib/memberFilters';
+import { getTextModerationService } from './textModerationService';
+
+export type SyncedProfileField = 'name' | 'description' | 'interests';
+
+// Member fields and the UserProfile fields they mirror, as stored in Member.chainSnapshot
+export interface ProfileSnapshot {
+  // Oldest of the field versions: every field is in step up to here
+  version: number;
+  // profile_version at which each field was last agreed. Snapshots written
+  // before this was tracked fall back to `version`
+  versions?: Partial<Record<SyncedProfileField, number>>;
+  name: string;
+  description: string | null;
+  interests: string[];
+}
+
+export interface ProfileFieldDiff {
+  field: SyncedProfileField;
+  local: string | string[];
+  chain: string | string[];
+  changedLocally: boolean;
+  changedOnChain: boolean;
+}
+
+export interface ProfileSyncStatus {
+  profileObjectId: string;
+  chainVersion: number;
+  syncedVersion: number | null;
+  // ISO timestamp of the on-chain last_active
+  lastActiveOnChain: string | null;
+  // False when the on-chain bio holds the sealed sign-up payload rather than text
+  bioIsText: boolean;
+  diffs: ProfileFieldDiff[];
+}
+
+export class ProfileSyncError extends Error {}
+
+// Sign-up stores the Seal ciphertext (or its base64 dev fallback) as bio: one long token
+const OPAQUE_BIO = /^[A-Za-z0-9+/=_-]{64,}$/;
+
+function isTextBio(bio: string) {
+  return !OPAQUE_BIO.test(bio);
+}
+
+const SYNCED_FIELDS: SyncedProfileField[] = ['name', 'description', 'interests'];
+
+function toSnapshot(profile: ProfileInfo): ProfileSnapshot {
+  return {
+    version: profile.version,
+    name: profile.displayName,
+    description: isTextBio(profile.bio) ? profile.bio : null,
+    interests: normalizeInterests(profile.interests),
+  };
+}
+
+function sameValue(a: string | string[] | null, b: string | string[] | null) {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return [...a].sort().join('\n') === [...b].sort().join('\n');
+  }
+  return a === b;
+}
+
+function fieldVersion(snapshot: ProfileSnapshot, field: SyncedProfileField) {
+  return snapshot.versions?.[field] ?? snapshot.version;
+}
+
+/**
+ * Keeps Member and the owner's on-chain UserProfile in step.
+ *
+ * Member.chainSnapshot records the values both sides last agreed on. Comparing
+ * each side against it tells edits made in the app apart from edits made on
+ * chain; the chain side is only read field by field once `profile_version`
+ * has moved past the version at which that field was last agreed.
+ */
+export class ProfileSyncService {
+  constructor(private client: SuiClient) {}
+
+  private async load(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        profileObjectId: true,
+        walletAddress: true,
+        member: { select: { name: true, description: true, interests: true, chainSnapshot: true } },
+      },
+    });
+
+    if (!user?.member) throw new ProfileSyncError('Member not found');
+    if (!user.profileObjectId) throw new ProfileSyncError('No on-chain profile');
+
+    const profile = await getProfileInfo(this.client, user.profileObjectId);
+    if (!profile) throw new ProfileSyncError('On-chain profile could not be read');
+
+    return {
+      profileObjectId: user.profileObjectId,
+      walletAddress: user.walletAddress,
+      member: user.member,
+      snapshot: user.member.chainSnapshot as ProfileSnapshot | null,
+      profile,
+    };
+  }
+
+  async getStatus(userId: string): Promise<ProfileSyncStatus> {
+    const { profileObjectId, member, snapshot, profile } = await this.load(userId);
+    const chain = toSnapshot(profile);
+
+    const diffs: ProfileFieldDiff[] = [];
+    for (const field of SYNCED_FIELDS) {
+      // A sealed bio can't be compared with the plain description
+      if (field === 'description' && chain.description === null) continue;
+
+      const local = field === 'interests' ? normalizeInterests(member.interests) : member[field];
+      const onChain = chain[field]!;
+      if (sameValue(local, onChain)) continue;
+
+      diffs.push({
+        field,
+        local,
+        chain: onChain,
+        // Without a snapshot there is no common ancestor, so either side may be newer
+        changedLocally: !snapshot || !sameValue(local, snapshot[field]),
+        changedOnChain: !snapshot || (profile.version > fieldVersion(snapshot, field) && !sameValue(onChain, snapshot[field])),
+      });
+    }
+
+    return {
+      profileObjectId,
+      chainVersion: profile.version,
+      syncedVersion: snapshot?.version ?? null,
+      lastActiveOnChain: profile.lastActive ? new Date(profile.lastActive).toISOString() : null,
+      bioIsText: chain.description !== null,
+      diffs,
+    };
+  }
+
+  /**
+   * Copies the on-chain values of `fields` into Member. The on-chain
+   * last_active also counts as activity in the app.
+   */
+  async pull(userId: string, fields: SyncedProfileField[]): Promise<ProfileSyncStatus> {
+    // Fields come straight from a server action, so check them here
+    if (!Array.isArray(fields) || fields.some((field) => !SYNCED_FIELDS.includes(field))) {
+      throw new ProfileSyncError('Unknown profile field');
+    }
+
+    const { profile } = await this.load(userId);
+    const chain = toSnapshot(profile);
+
+    const data: Prisma.MemberUpdateInput = {};
+    if (fields.includes('name')) data.name = chain.name;
+    if (fields.includes('description') && chain.description !== null) data.description = chain.description;
+    if (fields.includes('interests')) data.interests = chain.interests;
+
+    // Text written on chain is screened like any other profile edit
+    const pulledText = [data.name, data.description].filter((text): text is string => typeof text === 'string');
+    const textModeration = getTextModerationService();
+    const moderation = textModeration.moderateProfile(pulledText.join('\n'));
+    if (moderation.action === 'block') {
+      throw new ProfileSyncError(moderation.notice ?? 'Your on-chain profile text isn\'t allowed here');
+    }
+
+    const member = await prisma.member.findUniqueOrThrow({ where: { userId }, select: { updated: true } });
+    if (profile.lastActive > member.updated.getTime()) {
+      data.updated = new Date(profile.lastActive);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.member.update({ where: { userId }, data });
+      if (data.name) await tx.user.update({ where: { id: userId }, data: { name: chain.name } });
+    });
+    // Profile reports use the user ID as the content ID
+    if (pulledText.length > 0) {
+      await textModeration.queueForReview(userId, 'profile', userId, moderation);
+    }
+
+    return this.recordSnapshot(userId);
+  }
+
+  /**
+   * Called after an update_profile transaction. The digest comes from the
+   * client, so the transaction must have been sent from the member's wallet
+   * and call update_profile before the chain is re-read into the snapshot.
+   */
+  async confirmPublished(userId: string, digest: string): Promise<ProfileSyncStatus> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { walletAddress: true } });
+    if (!user?.walletAddress) throw new ProfileSyncError('No wallet linked to this account');
+
+    let tx: SuiTransactionBlockResponse;
+    try {
+      tx = await this.client.getTransactionBlock({ digest, options: { showInput: true, showEffects: true } });
+    } catch {
+      throw new ProfileSyncError(`Transaction ${digest} not found`);
+    }
+
+    if (tx.effects?.status.status !== 'success') {
+      throw new ProfileSyncError(`Transaction ${digest} failed`);
+    }
+    if (!tx.transaction || normalizeSuiAddress(tx.transaction.data.sender) !== normalizeSuiAddress(user.walletAddress)) {
+      throw new ProfileSyncError(`Transaction ${digest} was not sent from your wallet`);
+    }
+
+    const kind = tx.transaction.data.transaction;
+    const updatesProfile = kind.kind === 'ProgrammableTransaction' && kind.transactions.some((command) =>
+      'MoveCall' in command &&
+      command.MoveCall.package === CONTRACT_IDS.PACKAGE_ID &&
+      command.MoveCall.module === 'core' &&
+      command.MoveCall.function === 'update_profile'
+    );
+    if (!updatesProfile) {
+      throw new ProfileSyncError(`Transaction ${digest} does not update a profile`);
+    }
+
+    return this.recordSnapshot(userId);
+  }
+
+  /**
+   * Marks fields that now match on both sides as agreed at the current
+   * profile_version. Fields that still differ keep their previous snapshot
+   * value and version so the diff, and which side made it, survive.
+   */
+  async recordSnapshot(userId: string): Promise<ProfileSyncStatus> {
+    const { member, snapshot, profile } = await this.load(userId);
+    const chain = toSnapshot(profile);
+    const local = {
+      name: member.name,
+      description: member.description,
+      interests: normalizeInterests(member.interests),
+    };
+
+    const next: ProfileSnapshot = { ...chain, versions: {} };
+    for (const field of SYNCED_FIELDS) {
+      // A sealed bio has nothing to agree on
+      if (field === 'description' && chain.description === null) continue;
+
+      if (sameValue(local[field], chain[field])) {
+        next.versions![field] = profile.version;
+      } else if (snapshot) {
+        next[field] = snapshot[field] as never;
+        next.versions![field] = fieldVersion(snapshot, field);
+      } else {
+        // No common ancestor yet: take the chain value, but as of no version
+        next.versions![field] = 0;
+      }
+    }
+    next.version = Math.min(profile.version, ...Object.values(next.versions!));
+
+    await prisma.member.update({
+      where: { userId },
+      data: { chainSnapshot: next as unknown as Prisma.InputJsonValue },
+    });
+
+    return this.getStatus(userId);
+  }
+}
+
+// Singleton instance
+let profileSyncService: ProfileSyncService | null = null;
+
+export function getProfileSyncService(): ProfileSyncService {
+  if (!profileSyncService) {
+    const network = (process.env.NEXT_PUBLIC_SUI_NETWORK || 'testnet') as 'testnet' | 'mainnet';
+    profileSyncService = new ProfileSyncService(new SuiClient({ url: getFullnodeUrl(network) }));
+  }
+  return profileSyncService;
+}
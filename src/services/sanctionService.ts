@@ -0,0 +1,212 @@
+import type { Prisma, Sanction, SanctionAppeal, SanctionEvent, SanctionType } from '@prisma/client';
+import { addHours } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { ACCESS_SANCTIONS, type AccessSanctionClaim } from '@/lib/sanctions';
+
+export interface IssueSanctionInput {
+  userId: string;
+  type: SanctionType;
+  reason: string;
+  issuedBy: string;
+  // Required for suspensions; optional for feature restrictions; not allowed for bans
+  durationHours?: number;
+  caseId?: string;
+}
+
+export type SanctionWithHistory = Sanction & { events: SanctionEvent[]; appeal: SanctionAppeal | null };
+
+export type SanctionedAction = 'message' | 'like';
+
+export class SanctionError extends Error {}
+
+const ACTION_RESTRICTIONS: Record<SanctionedAction, { type: SanctionType; message: string }> = {
+  message: { type: 'CANNOT_MESSAGE', message: 'You can\'t send messages right now' },
+  like: { type: 'CANNOT_LIKE', message: 'You can\'t like members right now' },
+};
+
+function activeWhere(now: Date): Prisma.SanctionWhereInput {
+  return { revokedAt: null, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] };
+}
+
+/**
+ * Issues, revokes and appeals member sanctions. Every change is recorded as a
+ * SanctionEvent so the history of a sanction can be reconstructed.
+ */
+export class SanctionService {
+  async issue(input: IssueSanctionInput, now: Date = new Date()): Promise<Sanction> {
+    const reason = input.reason.trim();
+    if (!reason) throw new SanctionError('A reason is required');
+    if (input.type === 'SUSPENSION' && !input.durationHours) {
+      throw new SanctionError('Suspensions need a duration');
+    }
+    if (input.type === 'BAN' && input.durationHours) {
+      throw new SanctionError('Bans are permanent; use a suspension instead');
+    }
+    if (input.durationHours !== undefined && input.durationHours <= 0) {
+      throw new SanctionError('Duration must be positive');
+    }
+
+    return prisma.sanction.create({
+      data: {
+        userId: input.userId,
+        type: input.type,
+        reason,
+        caseId: input.caseId,
+        issuedBy: input.issuedBy,
+        createdAt: now,
+        expiresAt: input.durationHours ? addHours(now, input.durationHours) : null,
+        events: { create: { action: 'ISSUED', actorId: input.issuedBy, note: reason, createdAt: now } },
+      },
+    });
+  }
+
+  async revoke(sanctionId: string, actorId: string, note: string, now: Date = new Date()): Promise<Sanction> {
+    const sanction = await prisma.sanction.findUnique({ where: { id: sanctionId } });
+    if (!sanction) throw new SanctionError('Sanction not found');
+    if (sanction.revokedAt) throw new SanctionError('Sanction is already revoked');
+
+    return prisma.sanction.update({
+      where: { id: sanctionId },
+      data: {
+        revokedAt: now,
+        events: { create: { action: 'REVOKED', actorId, note, createdAt: now } },
+      },
+    });
+  }
+
+  async getActive(userId: string, now: Date = new Date()): Promise<Sanction[]> {
+    return prisma.sanction.findMany({
+      where: { userId, ...activeWhere(now) },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * The sanction that locks the user out, if any: a ban, otherwise the
+   * suspension that ends last
+   */
+  async getAccessSanction(userId: string, now: Date = new Date()): Promise<Sanction | null> {
+    const sanctions = await prisma.sanction.findMany({
+      where: { userId, type: { in: ACCESS_SANCTIONS }, ...activeWhere(now) },
+    });
+
+    return sanctions.find(s => s.type === 'BAN')
+      ?? sanctions.sort((a, b) => b.expiresAt!.getTime() - a.expiresAt!.getTime())[0]
+      ?? null;
+  }
+
+  async getAccessClaim(userId: string, now: Date = new Date()): Promise<AccessSanctionClaim | null> {
+    const sanction = await this.getAccessSanction(userId, now);
+    return sanction ? { type: sanction.type, expiresAt: sanction.expiresAt?.toISOString() ?? null } : null;
+  }
+
+  /**
+   * Throws a SanctionError when the user may not perform `action`
+   */
+  async assertAllowed(userId: string, action: SanctionedAction, now: Date = new Date()): Promise<void> {
+    const restriction = ACTION_RESTRICTIONS[action];
+    const blocking = await prisma.sanction.findFirst({
+      where: { userId, type: { in: [...ACCESS_SANCTIONS, restriction.type] }, ...activeWhere(now) },
+      select: { type: true },
+    });
+
+    if (!blocking) return;
+    throw new SanctionError(
+      blocking.type === restriction.type ? restriction.message : 'Your account is suspended'
+    );
+  }
+
+  /**
+   * Users whose active sanctions include any of `types`
+   */
+  async getSanctionedUserIds(types: SanctionType[], now: Date = new Date()): Promise<string[]> {
+    const sanctions = await prisma.sanction.findMany({
+      where: { type: { in: types }, ...activeWhere(now) },
+      select: { userId: true },
+      distinct: ['userId'],
+    });
+    return sanctions.map(s => s.userId);
+  }
+
+  async getHistory(userId: string): Promise<SanctionWithHistory[]> {
+    return prisma.sanction.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      include: { events: { orderBy: { createdAt: 'asc' } }, appeal: true },
+    });
+  }
+
+  /**
+   * Lets the sanctioned user contest an active sanction, once
+   */
+  async appeal(userId: string, sanctionId: string, message: string, now: Date = new Date()): Promise<SanctionAppeal> {
+    const text = message.trim();
+    if (!text) throw new SanctionError('Please explain why the decision should be reversed');
+
+    const sanction = await prisma.sanction.findFirst({
+      where: { id: sanctionId, userId, ...activeWhere(now) },
+      include: { appeal: true },
+    });
+    if (!sanction) throw new SanctionError('Sanction not found');
+    if (sanction.appeal) throw new SanctionError('You have already appealed this decision');
+
+    const [appeal] = await prisma.$transaction([
+      prisma.sanctionAppeal.create({ data: { sanctionId, message: text, createdAt: now } }),
+      prisma.sanctionEvent.create({ data: { sanctionId, action: 'APPEALED', actorId: userId, createdAt: now } }),
+    ]);
+    return appeal;
+  }
+
+  async getPendingAppeals(): Promise<(SanctionAppeal & { sanction: Sanction })[]> {
+    return prisma.sanctionAppeal.findMany({
+      where: { status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+      include: { sanction: true },
+    });
+  }
+
+  /**
+   * Granting an appeal revokes the sanction; denying it leaves it in place
+   */
+  async decideAppeal(
+    appealId: string,
+    moderatorId: string,
+    grant: boolean,
+    note?: string,
+    now: Date = new Date()
+  ): Promise<SanctionAppeal> {
+    const appeal = await prisma.sanctionAppeal.findUnique({ where: { id: appealId } });
+    if (!appeal) throw new SanctionError('Appeal not found');
+    if (appeal.status !== 'PENDING') throw new SanctionError('Appeal was already decided');
+
+    return prisma.$transaction(async (tx) => {
+      const decided = await tx.sanctionAppeal.update({
+        where: { id: appealId },
+        data: { status: grant ? 'GRANTED' : 'DENIED', decidedAt: now, decidedBy: moderatorId, decisionNote: note },
+      });
+      await tx.sanctionEvent.create({
+        data: {
+          sanctionId: appeal.sanctionId,
+          action: grant ? 'APPEAL_GRANTED' : 'APPEAL_DENIED',
+          actorId: moderatorId,
+          note,
+          createdAt: now,
+        },
+      });
+      if (grant) {
+        await tx.sanction.updateMany({ where: { id: appeal.sanctionId, revokedAt: null }, data: { revokedAt: now } });
+      }
+      return decided;
+    });
+  }
+}
+
+// Singleton instance
+let sanctionService: SanctionService | null = null;
+
+export function getSanctionService(): SanctionService {
+  if (!sanctionService) {
+    sanctionService = new SanctionService();
+  }
+  return sanctionService;
+}
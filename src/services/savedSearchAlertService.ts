@@ -0,0 +1,156 @@
+import { prisma } from '@/lib/prisma';
+import { pusherServer } from '@/lib/pusher';
+import { sendSavedSearchAlertEmail } from '@/lib/mail';
+import { buildMemberSearchWhere } from '@/lib/memberFilters';
+import { matchMembersByText } from '@/lib/memberSearch';
+import { getDiscoveryExclusions } from '@/lib/discovery';
+import type { GetMemberParams } from '@/types';
+import type { SavedSearch } from '@prisma/client';
+
+interface AlertConfig {
+  batchSize: number;
+  // Members listed by name in the notification; the rest are counted
+  sampleSize: number;
+}
+
+export interface SavedSearchAlertResult {
+  checked: number;
+  notified: number;
+  failed: number;
+}
+
+/**
+ * Re-runs saved searches and tells their owners about members who joined
+ * since the last run, over Pusher and by email.
+ */
+export class SavedSearchAlertService {
+  private config: AlertConfig;
+
+  constructor(config?: Partial<AlertConfig>) {
+    this.config = {
+      batchSize: parseInt(process.env.SAVED_SEARCH_ALERT_BATCH_SIZE || '100'),
+      sampleSize: 5,
+      ...config,
+    };
+  }
+
+  async run(now: Date = new Date()): Promise<SavedSearchAlertResult> {
+    const result: SavedSearchAlertResult = { checked: 0, notified: 0, failed: 0 };
+    let cursor: string | undefined;
+
+    while (true) {
+      const searches = await prisma.savedSearch.findMany({
+        where: {
+          alertsEnabled: true,
+          lastCheckedAt: { lt: now },
+          ...(cursor ? { id: { gt: cursor } } : {}),
+        },
+        orderBy: { id: 'asc' },
+        take: this.config.batchSize,
+      });
+
+      if (searches.length === 0) break;
+
+      for (const search of searches) {
+        try {
+          const notified = await this.checkSearch(search, now);
+          result.checked++;
+          if (notified) result.notified++;
+        } catch (error) {
+          // A search that fails before its baseline moves is retried on the next run
+          console.error(`[SavedSearchAlerts] Failed to check search ${search.id}:`, error);
+          result.failed++;
+        }
+      }
+
+      cursor = searches[searches.length - 1].id;
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns true when the owner was notified about new members
+   */
+  private async checkSearch(search: SavedSearch, now: Date): Promise<boolean> {
+    // Presence is only known to a connected client, so alerts ignore "online now"
+    const { onlineOnly, ...params } = search.params as GetMemberParams;
+
+    const query = params.q?.trim();
+    const textMatchIds = query
+      ? await matchMembersByText(query, { after: search.lastCheckedAt, until: now })
+      : undefined;
+
+    const [searchWhere, excludedUserIds] = await Promise.all([
+      buildMemberSearchWhere(params, search.userId, undefined, textMatchIds),
+      getDiscoveryExclusions(search.userId, now),
+    ]);
+
+    const where = {
+      AND: [
+        searchWhere,
+        { created: { gt: search.lastCheckedAt, lte: now } },
+        { userId: { notIn: excludedUserIds } },
+      ],
+    };
+
+    const [totalCount, members, owner] = await Promise.all([
+      prisma.member.count({ where }),
+      prisma.member.findMany({
+        where,
+        select: { userId: true, name: true, image: true },
+        orderBy: { created: 'desc' },
+        take: this.config.sampleSize,
+      }),
+      prisma.user.findUnique({
+        where: { id: search.userId },
+        select: { email: true },
+      }),
+    ]);
+
+    // Move the baseline on before notifying, so a failed notification is
+    // dropped rather than repeated on every run
+    await prisma.savedSearch.update({
+      where: { id: search.id },
+      data: { lastCheckedAt: now },
+    });
+
+    if (totalCount === 0) return false;
+
+    const searchQuery = new URLSearchParams(params as Record<string, string>).toString();
+
+    await pusherServer.trigger(`private-${search.userId}`, 'search:matches', {
+      savedSearchId: search.id,
+      name: search.name,
+      searchQuery,
+      totalCount,
+      members,
+    });
+
+    if (owner?.email) {
+      try {
+        await sendSavedSearchAlertEmail(
+          owner.email,
+          search.name,
+          searchQuery,
+          members.map((m) => m.name),
+          totalCount
+        );
+      } catch (error) {
+        console.error(`[SavedSearchAlerts] Failed to email the alert for search ${search.id}:`, error);
+      }
+    }
+
+    return true;
+  }
+}
+
+// Singleton instance
+let savedSearchAlertService: SavedSearchAlertService | null = null;
+
+export function getSavedSearchAlertService(): SavedSearchAlertService {
+  if (!savedSearchAlertService) {
+    savedSearchAlertService = new SavedSearchAlertService();
+  }
+  return savedSearchAlertService;
+}
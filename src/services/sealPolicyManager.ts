@@ -1,6 +1,7 @@
 import { SealAccessControl, type SealConfig } from '@/lib/storage/providers/seal';
 import { getFullnodeUrl, SuiClient } from '@mysten/sui/client';
 import { prisma } from '@/lib/prisma';
+import { getCacheStore, type CacheStore } from '@/lib/cacheStore';
 import type { AccessPolicy, AccessRule } from '@/lib/storage/types';
 
 export interface AvatarPolicyConfig {
@@ -21,8 +22,10 @@ export interface PolicyUpdateResult {
 export class SealPolicyManager {
   private sealAccessControl: SealAccessControl;
   private suiClient: SuiClient;
+  private accessCache: CacheStore;
+  private accessCacheTtl: number;
 
-  constructor() {
+  constructor(accessCache?: CacheStore) {
     // Initialize with environment configuration
     const sealConfig: SealConfig = {
       suiNetwork: (process.env.SUI_NETWORK as 'mainnet' | 'testnet' | 'devnet') || 'testnet',
@@ -40,6 +43,10 @@ export class SealPolicyManager {
     this.suiClient = new SuiClient({
       url: getFullnodeUrl(sealConfig.suiNetwork)
     });
+    this.accessCache = accessCache ?? getCacheStore('seal', {
+      maxSize: parseInt(process.env.SEAL_ACCESS_CACHE_MAX_SIZE || '10000')
+    });
+    this.accessCacheTtl = parseInt(process.env.SEAL_ACCESS_CACHE_TTL || '300');
   }
 
   /**
@@ -89,6 +96,7 @@ export class SealPolicyManager {
 
       // Update the policy to include the new match
       await this.updatePolicyOnChain(policyId, 'add', matchUser.walletAddress);
+      await this.invalidateCachedAccess(policyId, matchUser.walletAddress);
 
       // Update policy metadata in database
       await this.updatePolicyMetadata(policyId, 'add_match', matchUserId);
@@ -124,6 +132,7 @@ export class SealPolicyManager {
 
       // Update the policy to remove the match
       await this.updatePolicyOnChain(policyId, 'remove', matchUser.walletAddress);
+      await this.invalidateCachedAccess(policyId, matchUser.walletAddress);
 
       // Update policy metadata in database
       await this.updatePolicyMetadata(policyId, 'remove_match', matchUserId);
@@ -147,7 +156,7 @@ export class SealPolicyManager {
    */
   async verifyAccess(policyId: string, viewerAddress: string): Promise<boolean> {
     try {
-      // First check database cache for quick lookup
+      // First check the shared cache for quick lookup
       const cachedResult = await this.checkCachedAccess(policyId, viewerAddress);
       if (cachedResult !== null) {
         return cachedResult;
@@ -180,6 +189,7 @@ export class SealPolicyManager {
       if (settings.visibility || settings.expiryDays) {
         await this.updatePolicyOnChain(policyId, 'update_settings', settings);
       }
+      await this.invalidateCachedAccess(policyId);
 
       // Update metadata in database
       await this.updatePolicyMetadata(policyId, 'update_settings', settings);
@@ -205,6 +215,7 @@ export class SealPolicyManager {
     try {
       // Deactivate policy on-chain
       await this.deactivatePolicyOnChain(policyId);
+      await this.invalidateCachedAccess(policyId);
 
       // Mark as inactive in database
       await this.updatePolicyMetadata(policyId, 'deactivate', null);
@@ -404,9 +415,13 @@ export class SealPolicyManager {
    * Checks cached access result for performance
    */
   private async checkCachedAccess(policyId: string, viewerAddress: string): Promise<boolean | null> {
-    // TODO: Implement Redis or database caching for access results
-    // Return null if no cached result exists
-    return null;
+    try {
+      // Denials are cached too, so only null means no cached result
+      return await this.accessCache.get<boolean>(this.accessCacheKey(policyId, viewerAddress));
+    } catch (error) {
+      console.error('Failed to read cached access result:', error);
+      return null;
+    }
   }
 
   /**
@@ -417,7 +432,28 @@ export class SealPolicyManager {
     viewerAddress: string, 
     hasAccess: boolean
   ): Promise<void> {
-    // TODO: Cache the access result with appropriate TTL
-    console.log('Caching access result:', { policyId, viewerAddress, hasAccess });
+    try {
+      await this.accessCache.set(this.accessCacheKey(policyId, viewerAddress), hasAccess, {
+        ttlSeconds: this.accessCacheTtl,
+        tags: [`policy:${policyId}`, `pair:${policyId}:${viewerAddress}`]
+      });
+    } catch (error) {
+      console.error('Failed to cache access result:', error);
+    }
   }
-}
\ No newline at end of file
+
+  /**
+   * Drops cached access results for one viewer of a policy, or all of them
+   */
+  private async invalidateCachedAccess(policyId: string, viewerAddress?: string): Promise<void> {
+    try {
+      await this.accessCache.invalidateTag(viewerAddress ? `pair:${policyId}:${viewerAddress}` : `policy:${policyId}`);
+    } catch (error) {
+      console.error('Failed to invalidate cached access results:', error);
+    }
+  }
+
+  private accessCacheKey(policyId: string, viewerAddress: string): string {
+    return `access:${policyId}:${viewerAddress}`;
+  }
+}
@@ -0,0 +1,196 @@
+import type { ModerationCase } from '@prisma/client';
+import { scanText, type TextCategory, type TextMatch } from '@/lib/textModeration';
+import { ContentModerationService, type ModerationFlag } from './contentModerationService';
+
+export type TextSurface = 'message' | 'profile';
+
+// Ordered from least to most severe
+export const TEXT_MODERATION_ACTIONS = ['allow', 'warn', 'blur', 'review', 'block'] as const;
+export type TextModerationAction = typeof TEXT_MODERATION_ACTIONS[number];
+
+export type TextModerationPolicy = Record<TextCategory, TextModerationAction>;
+
+interface TextModerationConfig {
+  policies: Record<TextSurface, TextModerationPolicy>;
+  // Matches below this confidence are ignored
+  minConfidence: number;
+}
+
+export interface TextModerationResult {
+  action: TextModerationAction;
+  matches: TextMatch[];
+  flags: ModerationFlag[];
+  // Shown to the author when the text is blocked or they are warned
+  notice?: string;
+}
+
+export interface ProfileModerationResult extends TextModerationResult {
+  // Form field the deciding text came from, e.g. ['prompts', 1, 'answer']
+  path: (string | number)[];
+}
+
+const FLAG_TYPES: Record<TextCategory, ModerationFlag['type']> = {
+  profanity: 'profanity',
+  contact_info: 'contact_info',
+  link: 'spam',
+  scam: 'scam',
+  harassment: 'harassment',
+};
+
+const DESCRIPTIONS: Record<TextCategory, string> = {
+  profanity: 'Profanity',
+  contact_info: 'Contact details or off-platform contact request',
+  link: 'Link to an outside site',
+  scam: 'Looks like a scam or investment pitch',
+  harassment: 'Harassing or threatening language',
+};
+
+const NOTICES: Record<TextCategory, { warn: string; block: string }> = {
+  profanity: {
+    warn: 'Keep it friendly - your message contains language some people find offensive.',
+    block: 'Please remove the offensive language.',
+  },
+  contact_info: {
+    warn: 'Be careful sharing phone numbers or other apps before you\'ve met - scammers often move chats off-platform.',
+    block: 'Phone numbers, emails and other apps\' handles aren\'t allowed here.',
+  },
+  link: {
+    warn: 'Links can be used for phishing, so only share ones you trust.',
+    block: 'Links aren\'t allowed here.',
+  },
+  scam: {
+    warn: 'Talk of investments and crypto transfers is a common scam pattern.',
+    block: 'This looks like an investment or crypto pitch, which isn\'t allowed.',
+  },
+  harassment: {
+    warn: 'Please be respectful.',
+    block: 'Harassing or threatening language isn\'t allowed.',
+  },
+};
+
+const DEFAULT_POLICIES: Record<TextSurface, TextModerationPolicy> = {
+  message: {
+    profanity: 'blur',
+    contact_info: 'warn',
+    link: 'warn',
+    scam: 'block',
+    harassment: 'review',
+  },
+  // Profiles are public, so anything off-limits is simply refused
+  profile: {
+    profanity: 'block',
+    contact_info: 'block',
+    link: 'block',
+    scam: 'block',
+    harassment: 'block',
+  },
+};
+
+// Profiles have no sender to warn and no single recipient to blur for
+const PROFILE_FALLBACK: Partial<Record<TextModerationAction, TextModerationAction>> = {
+  warn: 'block',
+  blur: 'review',
+};
+
+const severity = (action: TextModerationAction) => TEXT_MODERATION_ACTIONS.indexOf(action);
+
+/**
+ * Screens member-written text (chat messages, profile descriptions) and
+ * decides what to do with it. Each category maps to an action per surface;
+ * the most severe action among the matches wins.
+ */
+export class TextModerationService {
+  private config: TextModerationConfig;
+
+  constructor(
+    config?: Partial<TextModerationConfig>,
+    private moderation: ContentModerationService = new ContentModerationService()
+  ) {
+    this.config = {
+      policies: DEFAULT_POLICIES,
+      minConfidence: 0.6,
+      ...config,
+    };
+  }
+
+  moderate(text: string, surface: TextSurface): TextModerationResult {
+    const policy = this.config.policies[surface];
+    const matches = scanText(text).filter(match => match.confidence >= this.config.minConfidence);
+
+    let action: TextModerationAction = 'allow';
+    let decisive: TextCategory | null = null;
+    for (const match of matches) {
+      let matchAction = policy[match.category];
+      if (surface === 'profile') matchAction = PROFILE_FALLBACK[matchAction] ?? matchAction;
+      if (severity(matchAction) > severity(action)) {
+        action = matchAction;
+        decisive = match.category;
+      }
+    }
+
+    return {
+      action,
+      matches,
+      flags: matches.map(match => ({
+        type: FLAG_TYPES[match.category],
+        confidence: match.confidence,
+        description: `${DESCRIPTIONS[match.category]}: "${match.evidence.join('", "')}"`,
+      })),
+      notice: decisive && (action === 'block' || action === 'warn') ? NOTICES[decisive][action] : undefined,
+    };
+  }
+
+  /**
+   * Screens everything a member writes on their profile - the description
+   * and each prompt answer - as one piece of content. Flags from every field
+   * are kept; the most severe field decides the action and the notice.
+   */
+  moderateProfile(description: string, prompts: { answer: string }[] = []): ProfileModerationResult {
+    const fields: [(string | number)[], string][] = [
+      [['description'], description],
+      ...prompts.map((prompt, index): [(string | number)[], string] => [['prompts', index, 'answer'], prompt.answer]),
+    ];
+
+    let decisive: ProfileModerationResult = { ...this.moderate('', 'profile'), path: ['description'] };
+    const matches: TextMatch[] = [];
+    const flags: ModerationFlag[] = [];
+    for (const [path, text] of fields) {
+      const result = this.moderate(text, 'profile');
+      matches.push(...result.matches);
+      flags.push(...result.flags);
+      if (severity(result.action) > severity(decisive.action)) decisive = { ...result, path };
+    }
+
+    return { ...decisive, matches, flags };
+  }
+
+  /**
+   * Puts text that was let through with a warning, blurred or held for
+   * review into the moderation queue. Clean text is not queued.
+   */
+  async queueForReview(
+    authorId: string,
+    surface: TextSurface,
+    contentId: string,
+    result: TextModerationResult
+  ): Promise<ModerationCase | null> {
+    if (result.action === 'allow' || result.action === 'block') return null;
+
+    return this.moderation.flagForReview({
+      targetUserId: authorId,
+      contentType: surface === 'message' ? 'MESSAGE' : 'PROFILE',
+      contentId,
+      flags: result.flags,
+      hide: false,
+    });
+  }
+}
+
+let textModerationService: TextModerationService | null = null;
+
+export function getTextModerationService(): TextModerationService {
+  if (!textModerationService) {
+    textModerationService = new TextModerationService();
+  }
+  return textModerationService;
+}
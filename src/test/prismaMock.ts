@@ -0,0 +1,311 @@
+/**
+ * In-memory stand-in for the Prisma client in unit tests:
+ *
+ *     jest.mock('@/lib/prisma', () => require('@/test/prismaMock'));
+ *     import { mockDb } from '@/test/prismaMock';
+ *
+ * Every model is a table of plain rows in `mockDb.tables`, created on first
+ * use. Queries support the where operators, orderBy, skip/take, unique keys
+ * and update operators the services use. `select` returns whole rows, and a
+ * relation is only loaded when the test configures how to find it. Replace
+ * a method with `mockDb.override` where a test needs something bespoke.
+ */
+
+export type Row = Record<string, any>;
+
+interface ModelConfig {
+    // Fields every created row starts with; `sequence` counts creates per table
+    defaults?: (sequence: number) => Row;
+    // Field sets that must be unique; creating a duplicate throws P2002
+    unique?: string[][];
+    // Related rows to attach when a read selects or includes the relation
+    relations?: Record<string, (row: Row) => Row | Row[] | null>;
+}
+
+type Method = (...args: any[]) => any;
+// Replacement for a model method; `base` is the method it replaces
+type Override = (args: any, base: Method) => any;
+
+const OPERATORS = new Set([
+    'equals', 'in', 'notIn', 'not', 'lt', 'lte', 'gt', 'gte', 'contains', 'startsWith', 'endsWith',
+    'has', 'hasSome', 'hasEvery', 'isEmpty', 'path', 'mode',
+]);
+
+const isPlainObject = (value: unknown): value is Row =>
+    !!value && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value);
+
+const same = (a: unknown, b: unknown) =>
+    a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+
+function compare(a: any, b: any): number {
+    if (a === b) return 0;
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function matchesValue(value: any, condition: any): boolean {
+    if (!isPlainObject(condition)) return same(value, condition);
+    if ('path' in condition) {
+        // JSON filter: { path: ['a', 'b'], equals: ... }
+        const { path, ...rest } = condition;
+        return matchesValue((path as string[]).reduce((json, key) => json?.[key], value), rest);
+    }
+
+    return Object.entries(condition).every(([operator, operand]) => {
+        switch (operator) {
+            case 'equals': return same(value, operand);
+            case 'in': return (operand as unknown[]).some(item => same(value, item));
+            case 'notIn': return !(operand as unknown[]).some(item => same(value, item));
+            case 'not': return !matchesValue(value, operand);
+            case 'lt': return value != null && value < operand;
+            case 'lte': return value != null && value <= operand;
+            case 'gt': return value != null && value > operand;
+            case 'gte': return value != null && value >= operand;
+            case 'contains': return typeof value === 'string' && value.toLowerCase().includes(String(operand).toLowerCase());
+            case 'startsWith': return typeof value === 'string' && value.startsWith(operand);
+            case 'endsWith': return typeof value === 'string' && value.endsWith(operand);
+            case 'has': return Array.isArray(value) && value.includes(operand);
+            case 'hasSome': return Array.isArray(value) && (operand as unknown[]).some(item => value.includes(item));
+            case 'hasEvery': return Array.isArray(value) && (operand as unknown[]).every(item => value.includes(item));
+            case 'isEmpty': return Array.isArray(value) && (value.length === 0) === operand;
+            case 'mode': return true;
+            default: return false;
+        }
+    });
+}
+
+export function matchesWhere(row: Row, where: Row = {}): boolean {
+    return Object.entries(where).every(([field, condition]) => {
+        if (condition === undefined) return true;
+        if (field === 'AND') return [condition].flat().every((branch: Row) => matchesWhere(row, branch));
+        if (field === 'OR') return (condition as Row[]).some(branch => matchesWhere(row, branch));
+        if (field === 'NOT') return ![condition].flat().some((branch: Row) => matchesWhere(row, branch));
+
+        if (isPlainObject(condition) && !Object.keys(condition).some(key => OPERATORS.has(key))) {
+            // Relation seeded as a nested row, or a compound unique key such as userAId_userBId
+            return isPlainObject(row[field]) ? matchesWhere(row[field], condition) : matchesWhere(row, condition);
+        }
+        return matchesValue(row[field], condition);
+    });
+}
+
+function sortRows(rows: Row[], orderBy?: Row | Row[]): Row[] {
+    const orders = [orderBy ?? []].flat() as Row[];
+    if (!orders.length) return rows;
+
+    return [...rows].sort((a, b) => {
+        for (const order of orders) {
+            for (const [field, direction] of Object.entries(order)) {
+                const sort = typeof direction === 'string' ? direction : direction.sort;
+                const nulls = typeof direction === 'string' ? (sort === 'asc' ? 'last' : 'first') : direction.nulls;
+                const [x, y] = [a[field] ?? null, b[field] ?? null];
+                if (x === null || y === null) {
+                    if (x === y) continue;
+                    return (x === null) === (nulls === 'first') ? -1 : 1;
+                }
+                const result = compare(x, y) * (sort === 'desc' ? -1 : 1);
+                if (result) return result;
+            }
+        }
+        return 0;
+    });
+}
+
+/**
+ * `_count`, `_min`, `_max` and `_sum` over rows, as aggregate and groupBy return them
+ */
+function summarize(found: Row[], args: Row): Row {
+    const pick = (spec: Row | undefined, reduce: (values: any[]) => any) => spec && Object.fromEntries(
+        Object.keys(spec).map(field => [field, reduce(found.map(row => row[field]).filter(value => value != null))])
+    );
+    return {
+        _count: args._count && { _all: found.length },
+        _max: pick(args._max, values => (values.length ? sortRows(values.map(v => ({ v })), { v: 'desc' })[0].v : null)),
+        _min: pick(args._min, values => (values.length ? sortRows(values.map(v => ({ v })), { v: 'asc' })[0].v : null)),
+        _sum: pick(args._sum, values => (values.length ? values.reduce((sum, value) => sum + value, 0) : null)),
+    };
+}
+
+function applyData(row: Row, data: Row): Row {
+    for (const [field, value] of Object.entries(data)) {
+        if (value === undefined) continue;
+        if (isPlainObject(value) && ('increment' in value || 'decrement' in value || 'set' in value || 'push' in value)) {
+            if ('increment' in value) row[field] = (row[field] ?? 0) + value.increment;
+            if ('decrement' in value) row[field] = (row[field] ?? 0) - value.decrement;
+            if ('set' in value) row[field] = value.set;
+            if ('push' in value) row[field] = [...(row[field] ?? []), ...[value.push].flat()];
+        } else if (isPlainObject(value) && ('create' in value || 'connect' in value || 'createMany' in value)) {
+            // Nested writes aren't modelled
+        } else {
+            row[field] = value;
+        }
+    }
+    return row;
+}
+
+// Prisma's error classes don't load under jsdom; services only read `code`
+function knownRequestError(code: string, message: string, meta?: Row): Error {
+    return Object.assign(new Error(message), { code, meta });
+}
+
+function uniqueViolation(model: string, fields: string[]): Error {
+    return knownRequestError('P2002', `Unique constraint failed on the fields: (${fields.join(', ')})`, { modelName: model, target: fields });
+}
+
+function notFound(model: string): Error {
+    return knownRequestError('P2025', `No ${model} found`);
+}
+
+const tables: Record<string, Row[]> = {};
+const configs: Record<string, ModelConfig> = {};
+const sequences: Record<string, number> = {};
+const overrides: Record<string, Record<string, Override>> = {};
+const rootOverrides: Record<string, Method> = {};
+
+function table(model: string): Row[] {
+    return (tables[model] ??= []);
+}
+
+function insert(model: string, data: Row, skipDuplicates = false): Row | null {
+    sequences[model] = (sequences[model] ?? 0) + 1;
+    const row = applyData({ ...configs[model]?.defaults?.(sequences[model]) }, data);
+    for (const fields of configs[model]?.unique ?? []) {
+        if (table(model).some(existing => fields.every(field => same(existing[field], row[field])))) {
+            if (skipDuplicates) return null;
+            throw uniqueViolation(model, fields);
+        }
+    }
+    table(model).push(row);
+    return row;
+}
+
+function createModel(model: string): Row {
+    const rows = () => table(model);
+    const select = (args: Row = {}) => sortRows(rows().filter(row => matchesWhere(row, args.where)), args.orderBy)
+        .slice(args.skip ?? 0, args.take === undefined ? undefined : (args.skip ?? 0) + args.take);
+    const first = (args: Row = {}) => select({ ...args, take: 1 })[0] ?? null;
+    const copy = (row: Row | null) => (row ? { ...row } : null);
+    const load = (row: Row | null, args: Row = {}) => {
+        if (!row) return null;
+        const loaded = { ...row };
+        for (const [relation, find] of Object.entries(configs[model]?.relations ?? {})) {
+            if (args.include?.[relation] || args.select?.[relation]) loaded[relation] = find(row);
+        }
+        return loaded;
+    };
+
+    const methods: Row = {
+        findUnique: async (args: Row) => load(first(args), args),
+        findFirst: async (args: Row = {}) => load(first(args), args),
+        findUniqueOrThrow: async (args: Row) => load(first(args) ?? (() => { throw notFound(model); })(), args),
+        findFirstOrThrow: async (args: Row = {}) => load(first(args) ?? (() => { throw notFound(model); })(), args),
+        findMany: async (args: Row = {}) => select(args).map(row => load(row, args)!),
+        count: async (args: Row = {}) => select({ where: args.where }).length,
+        aggregate: async (args: Row = {}) => summarize(select({ where: args.where }), args),
+        groupBy: async (args: Row) => {
+            const groups = new Map<string, Row[]>();
+            for (const row of select({ where: args.where })) {
+                const key = JSON.stringify(args.by.map((field: string) => row[field]));
+                groups.set(key, [...(groups.get(key) ?? []), row]);
+            }
+            return [...groups.values()].map(found => ({
+                ...Object.fromEntries(args.by.map((field: string) => [field, found[0][field]])),
+                ...Object.fromEntries(Object.entries(summarize(found, args)).filter(([, value]) => value !== undefined)),
+            }));
+        },
+        create: async (args: Row) => load(insert(model, args.data), args),
+        createMany: async ({ data, skipDuplicates }: Row) => ({
+            count: [data].flat().filter((row: Row) => insert(model, row, skipDuplicates)).length,
+        }),
+        update: async (args: Row) => {
+            const { where, data } = args;
+            const row = first({ where });
+            if (!row) throw notFound(model);
+            return load(applyData(row, data), args);
+        },
+        updateMany: async ({ where, data }: Row) => {
+            const found = select({ where });
+            found.forEach(row => applyData(row, data));
+            return { count: found.length };
+        },
+        upsert: async (args: Row) => {
+            const row = first({ where: args.where });
+            return load(row ? applyData(row, args.update) : insert(model, args.create), args);
+        },
+        delete: async ({ where }: Row) => {
+            const row = first({ where });
+            if (!row) throw notFound(model);
+            tables[model] = rows().filter(existing => existing !== row);
+            return copy(row);
+        },
+        deleteMany: async ({ where }: Row = {}) => {
+            const kept = rows().filter(row => !matchesWhere(row, where));
+            const count = rows().length - kept.length;
+            tables[model] = kept;
+            return { count };
+        },
+    };
+
+    return new Proxy(methods, {
+        get: (target, method) => {
+            if (typeof method !== 'string') return undefined;
+            const override = overrides[model]?.[method];
+            return override ? (args: Row) => override(args, target[method]) : target[method];
+        },
+    });
+}
+
+const models: Record<string, Row> = {};
+
+const root: Row = {
+    $transaction: async (arg: unknown) =>
+        typeof arg === 'function' ? (arg as (tx: Row) => Promise<unknown>)(prisma) : Promise.all(arg as unknown[]),
+    $queryRaw: async () => [],
+    $executeRaw: async () => 0,
+    $queryRawUnsafe: async () => [],
+    $executeRawUnsafe: async () => 0,
+};
+
+export const prisma: any = new Proxy(root, {
+    get: (target, name) => {
+        if (typeof name !== 'string') return undefined;
+        if (name.startsWith('$')) return rootOverrides[name] ?? target[name];
+        if (name === 'then') return undefined;
+        return (models[name] ??= createModel(name));
+    },
+});
+
+export const mockDb = {
+    tables,
+
+    /**
+     * Empties every table, then fills the given ones. Configuration and
+     * overrides stay.
+     */
+    reset(seed: Record<string, Row[]> = {}): void {
+        for (const model of Object.keys(tables)) delete tables[model];
+        for (const model of Object.keys(sequences)) delete sequences[model];
+        for (const [model, rows] of Object.entries(seed)) tables[model] = rows.map(row => ({ ...row }));
+    },
+
+    table(model: string): Row[] {
+        return table(model);
+    },
+
+    configure(model: string, config: ModelConfig): void {
+        configs[model] = config;
+    },
+
+    /**
+     * Replaces model methods for the rest of the test file
+     */
+    override(model: string, methods: Record<string, Override>): void {
+        overrides[model] = { ...overrides[model], ...methods };
+    },
+
+    /**
+     * Replaces client methods such as $queryRaw for the rest of the test file
+     */
+    overrideRoot(methods: Record<string, Method>): void {
+        Object.assign(rootOverrides, methods);
+    },
+};
@@ -8,6 +8,8 @@ type MessageDto = {
     text: string;
     created: string;
     dateRead: string | null;
+    // Hidden behind a tap-to-reveal for the recipient
+    blurred?: boolean;
     senderId?: string;
     senderName?: string;
     senderImage?: string | null;
@@ -22,6 +24,7 @@ type MessageWithSenderRecipient = Prisma.MessageGetPayload<{
         text: true,
         created: true,
         dateRead: true,
+        blurred: true,
         sender: {
             select: { userId, name, image }
         },
@@ -32,10 +35,18 @@ type MessageWithSenderRecipient = Prisma.MessageGetPayload<{
 }>
 
 type UserFilters = {
+    q: string;
     ageRange: number[];
     gender: string[];
     orderBy: string;
-
+    city: string;
+    country: string;
+    // Radius in km around the viewer's saved location; 0 means any distance
+    distance: number;
+    interests: string[];
+    withPhoto: boolean;
+    onlineOnly: boolean;
+    verifiedOnly: boolean;
 }
 
 type PaginatedResponse<T> = {
@@ -54,9 +65,18 @@ type PagingResult = {
 } & PagingParams
 
 type GetMemberParams = {
+    // Full-text query over name, city, country and description
+    q?: string;
     ageRange?: string;
     gender?: string;
     orderBy?: string;
+    city?: string;
+    country?: string;
+    distance?: string;
+    interests?: string;
+    withPhoto?: string;
+    onlineOnly?: string;
+    verifiedOnly?: string;
 
     pageNumber?: string;
     pageSize?: string;
@@ -1,5 +1,6 @@
 import { DefaultSession } from 'next-auth';
 import { Role } from '@prisma/client';
+import type { AccessSanctionClaim } from '@/lib/sanctions';
 
 declare module 'next-auth' {
     interface User {
@@ -11,6 +12,7 @@ declare module 'next-auth' {
         user: {
             profileComplete: boolean;
             role: Role;
+            accessSanction: AccessSanctionClaim | null;
         } & DefaultSession['user']
     }
 }
@@ -19,5 +21,8 @@ declare module 'next-auth/jwt' {
     interface JWT {
         profileComplete: boolean;
         role: Role;
+        accessSanction?: AccessSanctionClaim | null;
+        // Epoch ms of the last accessSanction lookup
+        accessSanctionCheckedAt?: number;
     }
 }
\ No newline at end of file